@@ -3,15 +3,46 @@
  * @module assistants/lekainkTriageAssistant
  *
  * Provides AI-powered triage capabilities with FHIR resource generation
- * and blockchain logging integration.
+ * and blockchain logging integration. The model behind it is an LLMProvider
+ * (see services/llm), so the same tool handlers run against any provider.
+ *
+ * Patients are answered in their language: the one the client passes, else the
+ * Patient's preferred communication language, else the one detected in the
+ * message, else the system default. The clinical record stays in English: patient
+ * messages and replies get English translations, and Observations keep the
+ * patient's wording next to the translation in their notes.
  */
 
-import { CONVERSATION_STAGES } from '../utils/constants';
+import { CONVERSATION_STAGES, SAFETY_FLAGS, SafetyFlag } from '../utils/constants';
 import { blockchainService } from '../services/blockchain';
+import { anchorQueueService } from '../services/anchorQueue';
 import { fhirStorageService } from '../services/fhirStorage';
-import type { OpenAIService } from '../services/openai';
-import type { Logger } from '../utils/logger';
-import type { Message } from 'openai/resources/beta/threads/messages';
+import { redFlagService, RedFlagMatch, RedFlagScreenResult } from '../services/redFlags';
+import { fhirValidationService } from '../services/fhirValidation';
+import { notificationService } from '../services/notifications';
+import {
+  CLINICIAN_LANGUAGE,
+  getTranslator,
+  languageName,
+  normalizeLanguage,
+  patientPreferredLanguage,
+  translatedNotes,
+  type Translator,
+} from '../services/translation';
+import {
+  ACUITY_SCALES,
+  TRIAGE_ACUITY_DISAGREEMENT_EXTENSION_URL,
+  acuityPrediction,
+  assessAcuity,
+  collectFindings,
+  type AcuityAssessment,
+  type AcuityScale,
+  type ReportedFindings,
+} from '../services/acuity';
+import type { LLMProvider, ToolCallHandler } from '../services/llm';
+import { clinical, type Logger } from '../utils/logger';
+import { aiConfig, systemConfig } from '../utils/config';
+import { TRIAGE_INSTRUCTIONS, TRIAGE_TOOLS, triageLanguageInstructions } from './triageTools';
 
 // Type definitions for OpenAI responses - using the actual OpenAI types
 interface OpenAIRun {
@@ -49,6 +80,8 @@ interface RiskAssessmentData {
   reason?: any;
   mitigation?: any;
   note?: any;
+  /** Acuity scored from the conversation's findings */
+  acuity?: AcuityAssessment;
 }
 
 interface ObservationData {
@@ -74,6 +107,7 @@ interface ConversationStatusData {
     level?: string;
     condition?: string;
   };
+  findings?: ReportedFindings;
 }
 
 // Tool handlers type
@@ -87,6 +121,14 @@ interface ToolHandlers {
   }>;
 }
 
+interface GeneratedResources {
+  RiskAssessment: FHIRResource | null;
+  /** First Observation of the turn; all of them are in Observations */
+  Observation: FHIRResource | null;
+  Observations: FHIRResource[];
+  ConversationStatus: ConversationStatusData | null;
+}
+
 // Response types
 interface ProcessMessageResponse {
   reply: string;
@@ -95,21 +137,33 @@ interface ProcessMessageResponse {
     status: string;
     risk: any;
   };
-  resources: {
-    RiskAssessment: FHIRResource | null;
-    Observation: FHIRResource | null;
-    ConversationStatus: ConversationStatusData | null;
-  };
+  resources: GeneratedResources;
   toolCalls: ToolCallResult[];
+  /** Language the patient was answered in */
+  language: string;
+  /** English translations for clinicians, when the patient's language is another */
+  translation?: {
+    message?: string;
+    reply?: string;
+  };
+  /** Acuity of the assessment, when one was made */
+  acuity?: AcuityAssessment;
+  /** Red-flag screening of the patient message and the reply */
+  safety: {
+    flag: SafetyFlag;
+    redFlags: RedFlagMatch[];
+    /** 'patient': the LLM was skipped for an emergency reply; 'assistant': the reply escalated the risk */
+    source?: 'patient' | 'assistant';
+  };
   blockchain?: {
     success: boolean;
+    status: 'queued';
+    jobId: string;
     network: string;
     contractAddress: string;
     results: Array<{
       resourceId: string;
       dataHash: string;
-      transactionHash: string;
-      blockNumber: number;
     }>;
   };
   fhirStorage?: {
@@ -134,110 +188,147 @@ interface StorageResult {
   location?: string;
 }
 
+/**
+ * Callbacks for streaming a triage turn as it happens
+ */
+export interface TriageStreamHandlers {
+  onToken?: (delta: string) => void;
+  onToolCall?: (name: string) => void;
+  onResource?: (resourceType: 'RiskAssessment' | 'Observation', resource: FHIRResource) => void;
+  onAnchoring?: (blockchain: NonNullable<ProcessMessageResponse['blockchain']>) => void;
+  onStored?: (fhirStorage: NonNullable<ProcessMessageResponse['fhirStorage']>) => void;
+  onRedFlag?: (safety: ProcessMessageResponse['safety']) => void;
+}
+
+/**
+ * Extra context for a triage turn
+ */
+export interface ProcessMessageOptions {
+  /** Earlier patient messages of the session, for red-flag rules spanning several messages */
+  previousMessages?: string[];
+  /** Encounter of the triage session; every generated resource references it */
+  encounterId?: string;
+  /** Language the patient chose, or the one of the session so far; worked out when omitted */
+  language?: string;
+}
+
 export class LekinkTriageAssistant {
-  private openAI: OpenAIService;
+  private llm: LLMProvider;
+  private translator: Translator;
   private logger: Logger;
   private toolCalls: Map<string, any>;
   private currentPatientId: string = '';
+  private currentEncounterId?: string;
+  private currentLanguage: string = CLINICIAN_LANGUAGE;
   private currentUserContext?: { email?: string; name?: string; isAuthenticated: boolean };
 
-  constructor(openAIService: OpenAIService, logger: Logger) {
-    this.openAI = openAIService;
+  constructor(llmProvider: LLMProvider, logger: Logger, translator: Translator = getTranslator()) {
+    this.llm = llmProvider;
+    this.translator = translator;
     this.logger = logger;
     this.toolCalls = new Map(); // Track tool calls for resource generation
   }
 
   /**
    * Process a message from the patient
+   * @param stream Optional handlers; when given, the assistant run is streamed and
+   * tokens, tool calls, resources and the anchoring result are pushed as they happen
+   *
+   * The message is screened for red flags first; on a match the LLM is skipped and
+   * the patient gets the emergency reply with a high-risk RiskAssessment. The LLM's
+   * reply is screened too, escalating the risk when it advises emergency care.
    */
   public async processMessage(
     message: string, 
     threadId: string, 
     patientId: string, 
-    userContext?: { email?: string; name?: string; isAuthenticated: boolean }
+    userContext?: { email?: string; name?: string; isAuthenticated: boolean },
+    stream?: TriageStreamHandlers,
+    options: ProcessMessageOptions = {}
   ): Promise<ProcessMessageResponse & { threadId: string }> {
     try {
       // Store current patient context for FHIR resource generation
       this.currentPatientId = patientId;
       this.currentUserContext = userContext;
-      
+      this.currentEncounterId = options.encounterId;
+      this.logger.addSensitiveValues(userContext?.name, userContext?.email);
+
       this.logger.info('Starting message processing', {
-        messagePreview: message.substring(0, 100) + '...',
+        messagePreview: clinical(message.substring(0, 100) + '...'),
         threadId,
         patientId,
         isAuthenticated: userContext?.isAuthenticated || false,
       });
 
-      // Add the message to the thread (with active run handling)
-      let createdMessage: Message;
-      try {
-        createdMessage = await this.openAI.createMessage(threadId, {
-          role: 'user',
-          content: message,
-        });
-
-        this.logger.info('Message added to thread', {
-          messageId: createdMessage.id,
-          threadId,
-        });
-      } catch (error: any) {
-        // Handle the case where there's an active run
-        if (error.message && error.message.includes('while a run') && error.message.includes('is active')) {
-          this.logger.warn('Thread has active run, creating new thread', {
-            originalThreadId: threadId,
-            error: error.message,
-          });
-          
-          // Create a new thread to avoid conflicts
-          const newThread = await this.openAI.createThread();
-          threadId = newThread.id;
-          
-          this.logger.info('Created new thread due to active run conflict', {
-            newThreadId: threadId,
-          });
-          
-          // Try adding the message to the new thread
-          createdMessage = await this.openAI.createMessage(threadId, {
-            role: 'user',
-            content: message,
-          });
-
-          this.logger.info('Message added to new thread', {
-            messageId: createdMessage.id,
-            threadId,
-          });
-        } else {
-          throw error;
+      // Add the message to the conversation. The provider may move it to a new
+      // conversation (e.g. when the thread has an active run), so keep the ID it returns.
+      threadId = await this.llm.addUserMessage(threadId, message);
+
+      const resolvedLanguage = await this._resolveLanguage(message, patientId, options.language);
+      let language = resolvedLanguage || normalizeLanguage(systemConfig.language) || CLINICIAN_LANGUAGE;
+      this.currentLanguage = language;
+      const messageTranslation = await this._toClinicianLanguage(message);
+      // What the patient said in the session, read for findings such as age and pain score
+      const findingTexts = [
+        ...(options.previousMessages || []),
+        message,
+        ...(messageTranslation ? [messageTranslation] : []),
+      ];
+
+      // The translation is screened too, so rules without terms in the patient's language still fire
+      const patientScreen = redFlagService.screenPatientMessage(
+        messageTranslation ? `${message}\n${messageTranslation}` : message,
+        options.previousMessages,
+        resolvedLanguage
+      );
+      if (patientScreen.flag === SAFETY_FLAGS.HIGH_RISK) {
+        // Without a known language, the language of the matched terms is the best guess
+        if (!resolvedLanguage && patientScreen.emergencyLanguage) {
+          language = this.currentLanguage = patientScreen.emergencyLanguage;
         }
+        const response = this._redFlagResponse(patientScreen);
+        if (patientScreen.emergencyLanguage !== language) {
+          response.reply =
+            (await this._translate(response.reply, language, patientScreen.emergencyLanguage)) || response.reply;
+        }
+        this._setTranslation(response, messageTranslation, await this._toClinicianLanguage(response.reply));
+        this._scoreAcuity(response, findingTexts);
+        stream?.onRedFlag?.(response.safety);
+        stream?.onToken?.(response.reply);
+        if (response.resources.RiskAssessment) {
+          stream?.onResource?.('RiskAssessment', response.resources.RiskAssessment);
+        }
+        await this._persistResources(response, patientId, stream);
+        return { ...response, threadId };
       }
 
-      // Create a run to process the message
-      const assistantId = process.env.OPENAI_CONVERSATION_ASSISTANT_ID;
-      if (!assistantId) {
-        throw new Error('OPENAI_CONVERSATION_ASSISTANT_ID environment variable is required');
-      }
-
-      this.logger.info('Running assistant', { assistantId, threadId });
-
-      const run = await this.openAI.runAssistant(threadId, assistantId);
-      this.logger.info('Assistant run created', {
-        runId: run.id,
-        threadId,
-        status: run.status,
-      });
-
-      // Prepare tool handlers
-      const toolHandlers: Record<string, (toolCall: any) => Promise<string>> = {
+      // Prepare tool handlers; every call is also recorded for the session history
+      const toolCallLog: ToolCallResult[] = [];
+      const toolHandlers: Record<string, ToolCallHandler> = {
         createRiskAssessment: async (toolCall) => {
           const args = JSON.parse(toolCall.function.arguments);
-          this.logger.info('Creating RiskAssessment', { args });
+          this.logger.info('Creating RiskAssessment', { args: clinical(args) });
+          toolCallLog.push({ name: 'createRiskAssessment', arguments: args });
+          // Fix the ID now so the streamed resource matches the one stored later
+          args.id = args.id || this._generateId();
+          // Invalid arguments throw, which returns the issues to the model as the tool error
+          const resource = this._formatRiskAssessment(args);
+          fhirValidationService.assertValid(resource);
           this.toolCalls.set('RiskAssessment', args);
+          stream?.onResource?.('RiskAssessment', resource);
           return JSON.stringify({ success: true });
         },
         createObservation: async (toolCall) => {
           const args = JSON.parse(toolCall.function.arguments);
-          this.logger.info('Creating Observation', { args });
-          this.toolCalls.set('Observation', args);
+          this.logger.info('Creating Observation', { args: clinical(args) });
+          toolCallLog.push({ name: 'createObservation', arguments: args });
+          args.id = args.id || this._generateId();
+          await this._translateObservation(args);
+          const resource = this._formatObservation(args);
+          fhirValidationService.assertValid(resource);
+          // Every call adds one; a turn can record several findings
+          this.toolCalls.set('Observation', [...(this.toolCalls.get('Observation') || []), args]);
+          stream?.onResource?.('Observation', resource);
           return JSON.stringify({ success: true });
         },
         conversationStatusCheck: async (toolCall) => {
@@ -245,12 +336,14 @@ export class LekinkTriageAssistant {
           this.logger.info('Processing conversation status check', {
             isComplete: args.isComplete,
             riskLevel: args.risk?.level,
-            condition: args.risk?.condition,
+            condition: clinical(args.risk?.condition),
           });
+          toolCallLog.push({ name: 'conversationStatusCheck', arguments: args });
 
           this.toolCalls.set('ConversationStatus', {
             isComplete: args.isComplete,
             risk: args.risk,
+            ...(args.findings && { findings: args.findings }),
           });
 
           return JSON.stringify({
@@ -261,109 +354,87 @@ export class LekinkTriageAssistant {
         },
       };
 
-      // Process the run with tool handlers
-      const runResult = await this.openAI.processRun(threadId, run, {}, toolHandlers);
-
-      this.logger.info('Run completed', {
-        runId: run.id,
-        status: runResult.status,
+      // Run the model with tool handlers
+      this.logger.info(stream ? 'Streaming triage run' : 'Running triage', {
+        provider: this.llm.name,
+        threadId,
       });
 
-      // Get messages from the thread after run completion
-      // Make sure to get the most recent messages first
-      const messages = await this.openAI.getMessages(threadId, {
-        limit: 20, // Increase limit to get more messages
-        order: 'desc', // Newest first
+      // Reply text reaches the patient only once screened: each chunk is screened with the text
+      // before it, and from the first red flag on the rest is held until the turn is escalated.
+      // Replies in another language are held whole, as their translation is screened too.
+      const holdReply = language !== CLINICIAN_LANGUAGE;
+      let streamedReply = '';
+      let heldReply = '';
+      const onTextDelta = (delta: string) => {
+        if (
+          !holdReply &&
+          !heldReply &&
+          redFlagService.screenAssistantReply(streamedReply + delta).flag !== SAFETY_FLAGS.HIGH_RISK
+        ) {
+          streamedReply += delta;
+          stream?.onToken?.(delta);
+        } else {
+          heldReply += delta;
+        }
+      };
+
+      const runResult = await this.llm.run(threadId, {
+        instructions: TRIAGE_INSTRUCTIONS,
+        ...(language !== CLINICIAN_LANGUAGE && {
+          additionalInstructions: triageLanguageInstructions(languageName(language)),
+        }),
+        tools: TRIAGE_TOOLS,
+        toolHandlers,
+        stream: !!stream,
+        callbacks: {
+          onTextDelta: stream ? onTextDelta : undefined,
+          onToolCall: (toolCall) => stream?.onToolCall?.(toolCall.function.name),
+        },
       });
 
-      this.logger.info('Retrieved thread messages', {
-        messageCount: messages.data?.length || 0,
-        threadId,
-        firstMessageId: messages.data?.[0]?.id,
-        messagesAfterLastUserMessage:
-          messages.data
-            ?.filter((m) => m.role === 'assistant')
-            ?.filter((m) => new Date(m.created_at * 1000) > new Date(createdMessage.created_at * 1000))?.length || 0,
+      this.logger.info('Run completed', {
+        runId: runResult.runId,
+        status: runResult.status,
+        lastError: runResult.error,
       });
 
       // Process the results
       const conversationStatus = this.toolCalls.get('ConversationStatus') as ConversationStatusData | undefined;
       const response: ProcessMessageResponse = {
-        reply: this._extractBotReply(messages.data || []),
+        reply: runResult.reply,
         completionStatus: {
           isComplete: conversationStatus?.isComplete || false,
           status: runResult.status,
           risk: conversationStatus?.risk || null,
         },
         resources: this._processResourceGeneration(),
-        toolCalls: [],
+        toolCalls: toolCallLog,
+        language,
+        safety: { flag: SAFETY_FLAGS.NONE, redFlags: [] },
       };
-
-      // Log FHIR resources to blockchain if available
-      if (response.resources) {
-        // Get resources as array (comma-separated and unique)
-        const resourcesToLog: FHIRResource[] = this._getResourcesAsArray();
-
-        // Log to blockchain
-        if (resourcesToLog.length > 0) {
-          try {
-            this.logger.info('Logging FHIR resources to blockchain', {
-              resourceCount: resourcesToLog.length,
-              patientId,
-            });
-
-            // Log resources to blockchain using the blockchain service
-            const blockchainResult = await blockchainService.logResources(resourcesToLog, patientId);
-            
-            if (blockchainResult && blockchainResult.success) {
-              response.blockchain = blockchainResult;
-              this.logger.info('FHIR resources logged to blockchain successfully', {
-                resourceCount: blockchainResult.results.length,
-                network: blockchainResult.network,
-                contractAddress: blockchainResult.contractAddress,
-              });
-            }
-          } catch (blockchainError) {
-            this.logger.error('Error logging to blockchain', {
-              error: blockchainError instanceof Error ? blockchainError : new Error(String(blockchainError)),
-            });
-            // Don't fail the entire response if blockchain logging fails
-          }
+      this._setTranslation(response, messageTranslation, await this._toClinicianLanguage(response.reply));
+
+      const replyScreen = redFlagService.screenAssistantReply(
+        response.translation?.reply ? `${response.reply}\n${response.translation.reply}` : response.reply
+      );
+      if (replyScreen.flag === SAFETY_FLAGS.HIGH_RISK) {
+        this._escalateRisk(response, replyScreen);
+        stream?.onRedFlag?.(response.safety);
+        if (response.resources.RiskAssessment) {
+          stream?.onResource?.('RiskAssessment', response.resources.RiskAssessment);
         }
+      }
+      if (heldReply) {
+        stream?.onToken?.(heldReply);
+      }
 
-        // Store FHIR resources in storage (Azurite/FHIR Service)
-        if (resourcesToLog.length > 0) {
-          try {
-            const storageResults: StorageResult[] = [];
-            for (const resource of resourcesToLog) {
-              const storageResult = await fhirStorageService.storeResource(resource);
-              if (storageResult.success) {
-                storageResults.push(storageResult);
-              }
-              // Add small delay between storage operations to avoid Azurite conflicts
-              await new Promise(resolve => setTimeout(resolve, 100));
-            }
-
-            if (storageResults.length > 0) {
-              response.fhirStorage = {
-                success: true,
-                mode: storageResults[0].storageMode,
-                results: storageResults,
-              };
-              this.logger.info('FHIR resources stored successfully', {
-                count: storageResults.length,
-                mode: storageResults[0].storageMode,
-              });
-            }
-          } catch (storageError) {
-            this.logger.error('Error storing FHIR resources', {
-              error: storageError instanceof Error ? storageError : new Error(String(storageError)),
-            });
-            // Don't fail the entire response if storage fails
-          }
-        }
+      if (this._scoreAcuity(response, findingTexts) && response.resources.RiskAssessment) {
+        stream?.onResource?.('RiskAssessment', response.resources.RiskAssessment);
       }
 
+      await this._persistResources(response, patientId, stream);
+
       this.logger.info('Response prepared', {
         replyLength: response.reply.length,
         hasResources: !!response.resources,
@@ -388,54 +459,228 @@ export class LekinkTriageAssistant {
   }
 
   /**
-   * Extract the bot's reply from the messages
+   * Store the generated resources and queue the stored ones for blockchain anchoring
    */
-  private _extractBotReply(messages: Message[]): string {
-    // Get only assistant messages and sort by creation time (newest first)
-    const assistantMessages = messages
-      .filter((m) => m.role === 'assistant')
-      .sort((a, b) => new Date(b.created_at * 1000).getTime() - new Date(a.created_at * 1000).getTime());
-
-    this.logger.debug('Extracting bot reply', {
-      totalMessages: messages.length,
-      assistantMessages: assistantMessages.length,
-      messageTimestamps: assistantMessages.map((m) => ({
-        id: m.id,
-        created_at: m.created_at,
-        content_length: m.content?.[0]?.type === 'text' ? m.content[0].text.value.length : 0,
-      })),
+  private async _persistResources(
+    response: ProcessMessageResponse,
+    patientId: string,
+    stream?: TriageStreamHandlers
+  ): Promise<void> {
+    if (response.resources) {
+      // Get resources as array (comma-separated and unique); invalid ones are neither stored nor anchored
+      const resourcesToStore: FHIRResource[] = this._getResourcesAsArray().filter((resource) => {
+        const validation = fhirValidationService.validate(resource);
+        if (!validation.valid) {
+          this.logger.error('Dropping invalid FHIR resource', {
+            resourceType: resource.resourceType,
+            resourceId: resource.id,
+            issues: validation.issues,
+          });
+        }
+        return validation.valid;
+      });
+
+      // Store FHIR resources in storage (Azurite/FHIR Service)
+      const stored: FHIRResource[] = [];
+      if (resourcesToStore.length > 0) {
+        try {
+          const storageResults: StorageResult[] = [];
+          for (const resource of resourcesToStore) {
+            const storageResult = await fhirStorageService.storeResource(resource);
+            if (storageResult.success) {
+              storageResults.push(storageResult);
+              stored.push(resource);
+              // Alerts the patient's practitioners if the assessment is high risk
+              await notificationService.notifyHighRiskAssessment(patientId, resource);
+            }
+          }
+
+          if (storageResults.length > 0) {
+            response.fhirStorage = {
+              success: true,
+              mode: storageResults[0].storageMode,
+              results: storageResults,
+            };
+            stream?.onStored?.(response.fhirStorage);
+            this.logger.info('FHIR resources stored successfully', {
+              count: storageResults.length,
+              mode: storageResults[0].storageMode,
+            });
+          }
+        } catch (storageError) {
+          this.logger.error('Error storing FHIR resources', {
+            error: storageError instanceof Error ? storageError : new Error(String(storageError)),
+          });
+          // Don't fail the entire response if storage fails
+        }
+      }
+
+      // Queue what was stored, as stored, for blockchain anchoring; the anchor-queue
+      // timer submits batches and writes the transaction back to the stored resources
+      if (stored.length > 0) {
+        try {
+          const job = await anchorQueueService.enqueue(stored, patientId);
+
+          if (job) {
+            const { network, contractAddress } = blockchainService.getStatus();
+            response.blockchain = {
+              success: true,
+              status: 'queued',
+              jobId: job.jobId,
+              network,
+              contractAddress: contractAddress || '',
+              results: job.records.map((r) => ({ resourceId: r.onChainId, dataHash: r.dataHash })),
+            };
+            stream?.onAnchoring?.(response.blockchain);
+            this.logger.info('FHIR resources queued for blockchain anchoring', {
+              jobId: job.jobId,
+              resourceCount: job.records.length,
+            });
+          }
+        } catch (blockchainError) {
+          this.logger.error('Error queueing resources for blockchain anchoring', {
+            error: blockchainError instanceof Error ? blockchainError : new Error(String(blockchainError)),
+          });
+          // Don't fail the entire response if anchoring cannot be queued
+        }
+      }
+    }
+  }
+
+  /**
+   * Emergency response for a patient message that hit a red-flag rule
+   */
+  private _redFlagResponse(screen: RedFlagScreenResult): ProcessMessageResponse {
+    const [match] = screen.matches;
+    this.logger.warn('Red flag in patient message, skipping LLM', {
+      ruleIds: screen.matches.map((m) => m.ruleId),
+      patientId: this.currentPatientId,
     });
 
-    if (assistantMessages.length > 0) {
-      // Get the most recent message from the assistant
-      const latestMessage = assistantMessages[0];
-      const reply = latestMessage.content[0]?.type === 'text' ? latestMessage.content[0].text.value : '';
+    this.toolCalls.set('RiskAssessment', this._redFlagRiskAssessment(screen.matches));
+    this.toolCalls.set('ConversationStatus', {
+      isComplete: true,
+      risk: { level: 'high', condition: match.condition },
+    });
 
-      this.logger.debug('Using latest assistant message', {
-        messageId: latestMessage.id,
-        created_at: latestMessage.created_at,
-        contentLength: reply.length,
-      });
+    const resources = this._processResourceGeneration();
+    return {
+      reply: screen.emergencyMessage || '',
+      completionStatus: {
+        isComplete: true,
+        status: 'red_flag',
+        risk: resources.ConversationStatus?.risk || null,
+      },
+      resources,
+      toolCalls: [],
+      language: this.currentLanguage,
+      safety: { flag: screen.flag, redFlags: screen.matches, source: 'patient' },
+    };
+  }
+
+  /**
+   * Force the risk to high when the assistant's reply advises emergency care
+   */
+  private _escalateRisk(response: ProcessMessageResponse, screen: RedFlagScreenResult): void {
+    response.safety = { flag: screen.flag, redFlags: screen.matches, source: 'assistant' };
 
-      return reply;
+    const status = this.toolCalls.get('ConversationStatus') as ConversationStatusData | undefined;
+    if (status?.risk?.level === 'high') {
+      return;
     }
 
-    this.logger.warn('No assistant messages found');
-    return '';
+    this.logger.warn('Assistant reply advises emergency care, escalating risk', {
+      previousLevel: status?.risk?.level,
+      patientId: this.currentPatientId,
+    });
+
+    const existing = this.toolCalls.get('RiskAssessment') as RiskAssessmentData | undefined;
+    this.toolCalls.set('RiskAssessment', {
+      ...this._redFlagRiskAssessment(screen.matches),
+      ...(existing?.id && { id: existing.id }),
+    });
+    const risk = { level: 'high', condition: status?.risk?.condition || screen.matches[0].condition };
+    this.toolCalls.set('ConversationStatus', { ...status, isComplete: status?.isComplete || false, risk });
+
+    response.resources = this._processResourceGeneration();
+    response.completionStatus.risk = risk;
+  }
+
+  /**
+   * Score the acuity of the turn's RiskAssessment from the findings of the
+   * conversation and add it to the assessment
+   * @returns Whether there was an assessment to score
+   */
+  private _scoreAcuity(response: ProcessMessageResponse, texts: string[]): boolean {
+    const assessment = this.toolCalls.get('RiskAssessment') as RiskAssessmentData | undefined;
+    if (!assessment) {
+      return false;
+    }
+
+    const status = this.toolCalls.get('ConversationStatus') as ConversationStatusData | undefined;
+    const scale = ACUITY_SCALES.includes(aiConfig.acuityScale as AcuityScale)
+      ? (aiConfig.acuityScale as AcuityScale)
+      : 'esi';
+    const modelRiskLevel =
+      status?.risk?.level || assessment.prediction?.[0]?.qualitativeRisk?.coding?.[0]?.code || undefined;
+    const acuity = assessAcuity(
+      collectFindings(texts, status?.findings, response.safety.redFlags),
+      scale,
+      modelRiskLevel
+    );
+
+    if (acuity.disagreement) {
+      this.logger.warn('AI risk level disagrees with the acuity score, flagging for review', {
+        modelRiskLevel,
+        acuity: clinical(acuity.explanation),
+        patientId: this.currentPatientId,
+      });
+    }
+
+    this.toolCalls.set('RiskAssessment', { ...assessment, acuity });
+    response.resources = this._processResourceGeneration();
+    response.acuity = acuity;
+    return true;
+  }
+
+  /**
+   * High-risk RiskAssessment recording which red-flag rules fired
+   */
+  private _redFlagRiskAssessment(matches: RedFlagMatch[]): RiskAssessmentData {
+    return {
+      id: this._generateId(),
+      status: 'preliminary',
+      prediction: matches.map((match) => ({
+        outcome: { text: match.condition },
+        qualitativeRisk: {
+          coding: [
+            {
+              system: 'http://terminology.hl7.org/CodeSystem/risk-probability',
+              code: 'high',
+              display: 'High likelihood',
+            },
+          ],
+        },
+      })),
+      note: [
+        {
+          text: `Risk set by red-flag screening (${matches.map((m) => m.ruleId).join(', ')}): ${matches
+            .flatMap((m) => m.evidence)
+            .join('; ')}`,
+        },
+      ],
+    };
   }
 
   /**
    * Process any resource generation from tool calls
    */
-  private _processResourceGeneration(): {
-    RiskAssessment: FHIRResource | null;
-    Observation: FHIRResource | null;
-    ConversationStatus: ConversationStatusData | null;
-  } {
-    const resources = {
-      RiskAssessment: null as FHIRResource | null,
-      Observation: null as FHIRResource | null,
-      ConversationStatus: null as ConversationStatusData | null,
+  private _processResourceGeneration(): GeneratedResources {
+    const resources: GeneratedResources = {
+      RiskAssessment: null,
+      Observation: null,
+      Observations: [],
+      ConversationStatus: null,
     };
 
     // Get resources from tool calls stored during processing
@@ -445,8 +690,9 @@ export class LekinkTriageAssistant {
     }
 
     if (this.toolCalls.has('Observation')) {
-      const data = this.toolCalls.get('Observation') as ObservationData;
-      resources.Observation = this._formatObservation(data);
+      const data = this.toolCalls.get('Observation') as ObservationData[];
+      resources.Observations = data.map((observation) => this._formatObservation(observation));
+      resources.Observation = resources.Observations[0] || null;
     }
 
     if (this.toolCalls.has('ConversationStatus')) {
@@ -457,13 +703,14 @@ export class LekinkTriageAssistant {
   }
 
   /**
-   * Format RiskAssessment resource to ensure FHIR compliance
+   * Format RiskAssessment resource to ensure FHIR compliance.
+   * Always preliminary: a practitioner finalises it in the review queue.
    */
   private _formatRiskAssessment(data: RiskAssessmentData): FHIRResource {
     const resource: FHIRResource = {
       resourceType: 'RiskAssessment',
       id: data.id || this._generateId(),
-      status: data.status || 'final',
+      status: 'preliminary',
       subject: { 
         reference: `Patient/${this.currentPatientId}`,
         display: this.currentUserContext?.name || this.currentUserContext?.email || this.currentPatientId
@@ -489,12 +736,33 @@ export class LekinkTriageAssistant {
       resource.identifier = [...(resource.identifier || []), ...data.identifier];
     }
     if (data.code) resource.code = data.code;
-    if (data.encounter) resource.encounter = data.encounter;
+    this._setEncounter(resource, data.encounter);
     if (data.performer) resource.performer = data.performer;
     if (data.reason) resource.reason = data.reason;
     if (data.mitigation) resource.mitigation = data.mitigation;
     if (data.note) resource.note = data.note;
 
+    if (data.acuity) {
+      resource.prediction = [...resource.prediction, acuityPrediction(data.acuity)];
+      if (data.acuity.disagreement) {
+        resource.extension = [
+          {
+            url: TRIAGE_ACUITY_DISAGREEMENT_EXTENSION_URL,
+            extension: [
+              { url: 'modelRiskLevel', valueCode: data.acuity.modelRiskLevel },
+              { url: 'acuityRiskLevel', valueCode: data.acuity.riskLevel },
+            ],
+          },
+        ];
+        resource.note = [
+          ...(resource.note || []),
+          {
+            text: `AI risk level ${data.acuity.modelRiskLevel} disagrees with ${data.acuity.explanation}; needs review`,
+          },
+        ];
+      }
+    }
+
     return resource;
   }
 
@@ -538,7 +806,7 @@ export class LekinkTriageAssistant {
       resource.identifier = [...(resource.identifier || []), ...data.identifier];
     }
     if (data.category) resource.category = data.category;
-    if (data.encounter) resource.encounter = data.encounter;
+    this._setEncounter(resource, data.encounter);
     if (data.effectiveDateTime) resource.effectiveDateTime = data.effectiveDateTime;
     if (data.issued) resource.issued = data.issued;
     if (data.performer) resource.performer = data.performer;
@@ -550,6 +818,96 @@ export class LekinkTriageAssistant {
     return resource;
   }
 
+  /**
+   * Link a generated resource to the session's Encounter, overriding any encounter the model passed
+   */
+  private _setEncounter(resource: FHIRResource, encounter?: any): void {
+    if (this.currentEncounterId) {
+      resource.encounter = { reference: `Encounter/${this.currentEncounterId}` };
+    } else if (encounter) {
+      resource.encounter = encounter;
+    }
+  }
+
+  /**
+   * Language to answer in: the given one, else the patient's preferred one,
+   * else the one detected in the message
+   * @returns The language, or undefined if none of them is known
+   */
+  private async _resolveLanguage(message: string, patientId: string, requested?: string): Promise<string | undefined> {
+    const explicit = normalizeLanguage(requested);
+    if (explicit) return explicit;
+
+    try {
+      const patient = await fhirStorageService.findUserProfile(patientId, 'Patient');
+      const preferred = patientPreferredLanguage(patient);
+      if (preferred) return preferred;
+    } catch (error) {
+      this.logger.warn('Could not load the patient language preference', { error: error as Error, patientId });
+    }
+
+    try {
+      const detected = normalizeLanguage(await this.translator.detectLanguage(message));
+      if (detected) {
+        this.logger.info('Detected patient language', { language: detected, translator: this.translator.name });
+        return detected;
+      }
+    } catch (error) {
+      this.logger.warn('Language detection failed', { error: error as Error, translator: this.translator.name });
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Translate a text; failures are logged and give null, so the turn goes on untranslated
+   */
+  private async _translate(text: string, targetLanguage: string, sourceLanguage?: string): Promise<string | null> {
+    if (!text || targetLanguage === sourceLanguage) return null;
+
+    try {
+      return await this.translator.translate(text, targetLanguage, sourceLanguage);
+    } catch (error) {
+      this.logger.warn('Translation failed', {
+        error: error as Error,
+        translator: this.translator.name,
+        sourceLanguage,
+        targetLanguage,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * English translation of a text in the patient's language, if the patient's language is another
+   */
+  private async _toClinicianLanguage(text: string): Promise<string | undefined> {
+    if (this.currentLanguage === CLINICIAN_LANGUAGE) return undefined;
+    return (await this._translate(text, CLINICIAN_LANGUAGE, this.currentLanguage)) || undefined;
+  }
+
+  private _setTranslation(response: ProcessMessageResponse, message?: string, reply?: string): void {
+    if (message || reply) {
+      response.translation = { ...(message && { message }), ...(reply && { reply }) };
+    }
+  }
+
+  /**
+   * Record an Observation in English, keeping the patient's wording and the translation as notes
+   */
+  private async _translateObservation(args: ObservationData): Promise<void> {
+    if (!args.valueString) return;
+
+    const translation = await this._toClinicianLanguage(args.valueString);
+    if (!translation) return;
+
+    args.note = [
+      ...(args.note || []),
+      ...translatedNotes(args.valueString, this.currentLanguage, translation, new Date().toISOString()),
+    ];
+    args.valueString = translation;
+  }
+
   /**
    * Generate a unique ID for resources
    */
@@ -571,10 +929,8 @@ export class LekinkTriageAssistant {
     if (resourceData.RiskAssessment) {
       resources.push(resourceData.RiskAssessment);
     }
-    if (resourceData.Observation) {
-      resources.push(resourceData.Observation);
-    }
-    
+    resources.push(...resourceData.Observations);
+
     return resources;
   }
 }
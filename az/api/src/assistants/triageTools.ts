@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Instructions and tool definitions for the triage assistant
+ * @module assistants/triageTools
+ *
+ * The OpenAI assistant carries its own copy of these; they are sent with every
+ * run by providers that keep no server-side configuration (Chat Completions).
+ */
+
+import type { LLMToolDefinition } from '../services/llm';
+
+export const TRIAGE_INSTRUCTIONS = `You are a medical triage assistant for LeLink, a healthcare platform for people in crisis situations, including refugees.
+Assess the patient's symptoms by asking one or two focused follow-up questions at a time: onset, severity, location, associated symptoms, relevant history and medications.
+Be compassionate, clear and concise. Do not diagnose; help determine urgency and next steps.
+If the patient describes an emergency (e.g. chest pain with shortness of breath, signs of stroke, severe bleeding), tell them to call emergency services immediately.
+When you have enough information:
+- call createObservation for each symptom or finding the patient reported, with a summary of it
+- call createRiskAssessment with the risk level (low, moderate or high) and the rationale
+- call conversationStatusCheck with isComplete set to true, the assessed risk and the findings the patient gave (age, pain score, vital signs, level of consciousness) with the resources they are likely to need; leave out what you were not told
+Then give the patient your recommendation.`;
+
+/**
+ * Per-run instructions for a patient who writes in another language than English
+ */
+export function triageLanguageInstructions(language: string): string {
+  return `The patient's language is ${language}. Reply to the patient in ${language} only.
+When you call createObservation, write valueString in ${language}, in the patient's own terms; it is translated for clinicians.
+Write every other tool call argument in English.`;
+}
+
+export const TRIAGE_TOOLS: LLMToolDefinition[] = [
+  {
+    name: 'createRiskAssessment',
+    description: 'Record the FHIR RiskAssessment for this triage conversation',
+    parameters: {
+      type: 'object',
+      properties: {
+        occurrenceDateTime: { type: 'string', description: 'ISO 8601 time of the assessment' },
+        prediction: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              outcome: { type: 'object', properties: { text: { type: 'string' } } },
+              qualitativeRisk: {
+                type: 'object',
+                properties: {
+                  coding: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        system: { type: 'string', enum: ['http://terminology.hl7.org/CodeSystem/risk-probability'] },
+                        code: { type: 'string', enum: ['low', 'moderate', 'high'] },
+                        display: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+              rationale: { type: 'string' },
+            },
+          },
+        },
+        mitigation: { type: 'string', description: 'Recommended next steps' },
+        note: { type: 'array', items: { type: 'object', properties: { text: { type: 'string' } } } },
+      },
+      required: ['prediction'],
+    },
+  },
+  {
+    name: 'createObservation',
+    description: 'Record a FHIR Observation of a symptom or finding the patient reported; call once per finding',
+    parameters: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', description: 'FHIR status, usually "final"' },
+        code: {
+          type: 'object',
+          properties: {
+            coding: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  system: { type: 'string', description: 'http://loinc.org or http://snomed.info/sct' },
+                  code: { type: 'string', description: 'LOINC code (e.g. 89261-2) or SNOMED CT concept ID' },
+                  display: { type: 'string' },
+                },
+              },
+            },
+            text: { type: 'string' },
+          },
+        },
+        valueString: { type: 'string', description: 'Summary of the reported symptoms' },
+        effectiveDateTime: { type: 'string', description: 'ISO 8601 time the symptoms were reported' },
+        note: { type: 'array', items: { type: 'object', properties: { text: { type: 'string' } } } },
+      },
+      required: ['valueString'],
+    },
+  },
+  {
+    name: 'conversationStatusCheck',
+    description: 'Report whether the triage conversation is complete and the assessed risk',
+    parameters: {
+      type: 'object',
+      properties: {
+        isComplete: { type: 'boolean' },
+        risk: {
+          type: 'object',
+          properties: {
+            level: { type: 'string', enum: ['low', 'moderate', 'high'] },
+            condition: { type: 'string' },
+          },
+        },
+        findings: {
+          type: 'object',
+          description: 'Structured findings for acuity scoring; only what the patient reported',
+          properties: {
+            ageYears: { type: 'number' },
+            temperatureC: { type: 'number' },
+            heartRate: { type: 'number', description: 'Beats per minute' },
+            respiratoryRate: { type: 'number', description: 'Breaths per minute' },
+            oxygenSaturation: { type: 'number', description: 'SpO2 in percent' },
+            systolicBloodPressure: { type: 'number', description: 'mmHg' },
+            painScore: { type: 'number', description: 'Pain from 0 to 10' },
+            consciousness: { type: 'string', enum: ['alert', 'confused', 'unresponsive'] },
+            expectedResources: {
+              type: 'integer',
+              description: 'Number of ESI resources likely needed (labs, imaging, IV fluids or medication, specialist consult)',
+            },
+          },
+        },
+      },
+      required: ['isComplete'],
+    },
+  },
+];
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Blockchain anchoring queue Functions
+ * @module functions/anchor-queue
+ *
+ * - Timer: submits queued resource hashes in batches
+ * - GET /api/blockchain/anchors/{jobId}: status of a queued anchoring job (callers who may read the patient's records)
+ * - POST /api/blockchain/reanchor: queue every stored resource, after deploying a new contract (admins)
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext, Timer } from '@azure/functions';
+import { anchorQueueService } from '../../services/anchorQueue.js';
+import { auditService } from '../../services/audit.js';
+import { settingsService } from '../../services/settings.js';
+import { Logger } from '../../utils/logger.js';
+import { secured, auditContext, corsHeaders, withCors, AuthContext } from '../../utils/httpAuth.js';
+
+const logger = new Logger();
+
+/**
+ * Response helper for consistent API responses
+ */
+function createResponse(statusCode: number, data: any, message?: string): HttpResponseInit {
+  const success = statusCode >= 200 && statusCode < 300;
+
+  return {
+    status: statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      success,
+      ...(success ? { data } : { error: data || 'An error occurred' }),
+      message: message || (success ? 'Success' : 'Error'),
+      timestamp: new Date().toISOString(),
+    }),
+  };
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+async function handleOptions(request: HttpRequest): Promise<HttpResponseInit> {
+  return {
+    status: 200,
+    headers: {
+      ...corsHeaders(request, 'GET, POST, OPTIONS'),
+      'Access-Control-Max-Age': '86400',
+    },
+  };
+}
+
+/**
+ * GET /api/blockchain/anchors/{jobId}
+ * Status, transaction hash and block number of a queued anchoring job.
+ * The job names the patient, so only callers who may read their records see it;
+ * without a patient to check, an unknown job is only reported to administrators.
+ */
+async function getAnchorJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  const jobId = request.params.jobId;
+
+  try {
+    if (!jobId) {
+      return withCors(request, createResponse(400, null, 'Missing required parameter: jobId'));
+    }
+
+    const job = await anchorQueueService.getJob(jobId);
+
+    return await secured(request, context, { action: 'read', patientId: job?.patientId }, async () =>
+      job
+        ? createResponse(200, job, 'Anchoring job retrieved successfully')
+        : createResponse(404, null, 'Anchoring job not found')
+    );
+  } catch (error) {
+    logger.error('Failed to retrieve anchoring job', {
+      error: error as Error,
+      jobId,
+      requestId: context.invocationId,
+    });
+
+    return withCors(request, createResponse(500, (error as Error).message, 'Failed to retrieve anchoring job'));
+  }
+}
+
+/**
+ * POST /api/blockchain/reanchor
+ * Queue every stored resource for anchoring on the configured contract
+ */
+async function reanchorResources(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  try {
+    logger.info('Queueing stored resources for re-anchoring', {
+      userId: auth.principal.userId,
+      requestId: context.invocationId,
+    });
+
+    const result = await anchorQueueService.enqueueAll();
+    if (!result) {
+      return createResponse(409, null, 'Blockchain logging is disabled');
+    }
+
+    await auditService.record({
+      ...auditContext(request, context, auth),
+      type: 'system',
+      action: 'blockchain.reanchor_queued',
+      description: `Queued ${result.resources} resources of ${result.patients} patients for re-anchoring`,
+      details: { ...result },
+    });
+
+    return createResponse(202, result, `Queued ${result.resources} resources for anchoring`);
+  } catch (error) {
+    logger.error('Failed to queue resources for re-anchoring', {
+      error: error as Error,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to queue resources for re-anchoring');
+  }
+}
+
+/**
+ * Timer: submit queued resource hashes
+ */
+async function processAnchorQueue(timer: Timer, context: InvocationContext): Promise<void> {
+  try {
+    await settingsService.refresh();
+    const result = await anchorQueueService.processPending();
+
+    if (result.batches > 0) {
+      logger.info('Anchoring queue processed', {
+        ...result,
+        requestId: context.invocationId,
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to process anchoring queue', {
+      error: error as Error,
+      isPastDue: timer.isPastDue,
+      requestId: context.invocationId,
+    });
+  }
+}
+
+// Register HTTP functions
+app.http('blockchain-anchor-job', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'blockchain/anchors/{jobId}',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return getAnchorJob(request, context);
+  },
+});
+
+app.http('blockchain-reanchor', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'blockchain/reanchor',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, { action: 'manage' }, reanchorResources);
+  },
+});
+
+// Register timer function
+app.timer('anchor-queue', {
+  schedule: process.env.ANCHOR_QUEUE_SCHEDULE || '*/30 * * * * *',
+  handler: processAnchorQueue,
+});
@@ -0,0 +1,249 @@
+/**
+ * @fileoverview Audit trail API Functions
+ * @module functions/audit
+ *
+ * - GET /api/audit/events?type=&severity=&action=&actor=&patient=&correlationId=&from=&to=&q=&chain=&limit=&cursor=
+ *   (events newest first, admins only)
+ * - GET /api/audit/events/export?format=csv|json&... (the same filters, as a download, admins only)
+ * - POST /api/audit/events (sign-in events the web app reports for its user)
+ *
+ * from/to are ISO timestamps. With chain=true the contract's DataAccessed events
+ * are merged in; if the chain cannot be read the stored events are still returned.
+ */
+
+import { isIP } from 'net';
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import {
+  auditService,
+  toCsv,
+  AuditEventType,
+  AuditQuery,
+  AuditSeverity,
+  AUDIT_EVENT_TYPES,
+  AUDIT_SEVERITIES,
+} from '../../services/audit.js';
+import { Logger } from '../../utils/logger.js';
+import { ValidationError } from '../../utils/errors.js';
+import { secured, corsHeaders, auditContext, AuthContext } from '../../utils/httpAuth.js';
+
+const logger = new Logger();
+
+/** Events the web app may report, with how they are recorded */
+const WEB_EVENTS: Record<string, { type: AuditEventType; description: string }> = {
+  'auth.login': { type: 'security', description: 'Signed in' },
+  'auth.logout': { type: 'security', description: 'Signed out' },
+  'auth.session_expired': { type: 'security', description: 'Session ended after inactivity' },
+};
+
+/**
+ * Response helper for consistent API responses
+ */
+function createResponse(statusCode: number, data: any, message?: string): HttpResponseInit {
+  const success = statusCode >= 200 && statusCode < 300;
+
+  return {
+    status: statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      success,
+      ...(success ? { data } : { error: data || 'An error occurred' }),
+      message: message || (success ? 'Success' : 'Error'),
+      timestamp: new Date().toISOString(),
+    }),
+  };
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+async function handleOptions(request: HttpRequest): Promise<HttpResponseInit> {
+  return {
+    status: 200,
+    headers: {
+      ...corsHeaders(request, 'GET, POST, OPTIONS'),
+      'Access-Control-Max-Age': '86400',
+    },
+  };
+}
+
+/**
+ * Audit query from the request's query parameters
+ * @throws ValidationError for an unknown type or severity, or an invalid date
+ */
+function parseQuery(request: HttpRequest): AuditQuery {
+  const param = (name: string) => request.query.get(name)?.trim() || undefined;
+
+  const type = param('type');
+  if (type && !AUDIT_EVENT_TYPES.includes(type as AuditEventType)) {
+    throw new ValidationError(`type must be one of: ${AUDIT_EVENT_TYPES.join(', ')}`);
+  }
+  const severity = param('severity');
+  if (severity && !AUDIT_SEVERITIES.includes(severity as AuditSeverity)) {
+    throw new ValidationError(`severity must be one of: ${AUDIT_SEVERITIES.join(', ')}`);
+  }
+
+  const date = (name: string) => {
+    const value = param(name);
+    if (!value) return undefined;
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) {
+      throw new ValidationError(`${name} must be an ISO date`);
+    }
+    return parsed;
+  };
+
+  const limit = parseInt(param('limit') || '', 10);
+
+  return {
+    type: type as AuditEventType | undefined,
+    severity: severity as AuditSeverity | undefined,
+    action: param('action'),
+    actorId: param('actor'),
+    patientId: param('patient'),
+    correlationId: param('correlationId'),
+    from: date('from'),
+    to: date('to'),
+    search: param('q'),
+    includeChain: param('chain') === 'true',
+    limit: Number.isNaN(limit) || limit < 1 ? 100 : Math.min(limit, 1000),
+    cursor: param('cursor'),
+  };
+}
+
+/**
+ * GET /api/audit/events
+ */
+async function listEvents(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const result = await auditService.query(parseQuery(request));
+
+    return createResponse(200, result, 'Audit events retrieved successfully');
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return createResponse(400, error.details, error.message);
+    }
+
+    logger.error('Failed to query audit events', {
+      error: error as Error,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve audit events');
+  }
+}
+
+/**
+ * GET /api/audit/events/export
+ * Every matching event as CSV (default) or JSON; the export itself is audited
+ */
+async function exportEvents(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  try {
+    const format = request.query.get('format') || 'csv';
+    if (!['csv', 'json'].includes(format)) {
+      return createResponse(400, null, 'Invalid format. Must be one of: csv, json');
+    }
+
+    const { limit, cursor, ...query } = parseQuery(request);
+    const { events, chain } = await auditService.export(query);
+
+    await auditService.record({
+      ...auditContext(request, context, auth),
+      type: 'security',
+      action: 'audit.exported',
+      description: `Exported ${events.length} audit events as ${format}`,
+      details: { format, filters: Object.fromEntries(request.query.entries()) },
+    });
+
+    const fileName = `lelink-audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Access-Control-Expose-Headers': 'Content-Disposition',
+      },
+      body: format === 'csv' ? toCsv(events) : JSON.stringify({ events, ...(chain && { chain }) }, null, 2),
+    };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return createResponse(400, error.details, error.message);
+    }
+
+    logger.error('Failed to export audit events', {
+      error: error as Error,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to export audit events');
+  }
+}
+
+/**
+ * POST /api/audit/events
+ * Body: { action: 'auth.login' | 'auth.logout' | 'auth.session_expired', ipAddress?, provider? }
+ * Recorded for the calling user; the web app passes the address its user signed in from.
+ */
+async function reportEvent(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  let body: { action?: unknown; ipAddress?: unknown; provider?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return createResponse(400, null, 'Request body must be valid JSON');
+  }
+
+  const known = typeof body?.action === 'string' ? WEB_EVENTS[body.action] : undefined;
+  if (!known) {
+    return createResponse(400, null, `action must be one of: ${Object.keys(WEB_EVENTS).join(', ')}`);
+  }
+
+  const requestContext = auditContext(request, context, auth);
+  const event = await auditService.record({
+    ...requestContext,
+    type: known.type,
+    action: body.action as string,
+    source: 'web',
+    description: known.description,
+    ipAddress: typeof body.ipAddress === 'string' && isIP(body.ipAddress) ? body.ipAddress : requestContext.ipAddress,
+    ...(typeof body.provider === 'string' && { details: { provider: body.provider.slice(0, 50) } }),
+  });
+
+  if (!event) {
+    return createResponse(500, null, 'Failed to record audit event');
+  }
+  return createResponse(201, { id: event.id }, 'Audit event recorded');
+}
+
+app.http('audit-events', {
+  methods: ['GET', 'POST', 'OPTIONS'],
+  route: 'audit/events',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    if (request.method === 'POST') {
+      return secured(request, context, null, reportEvent);
+    }
+    return secured(request, context, { action: 'manage' }, listEvents);
+  },
+});
+
+app.http('audit-events-export', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'audit/events/export',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, { action: 'manage' }, exportEvents);
+  },
+});
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Consent grant API Functions
+ * @module functions/consent
+ *
+ * Lets patients share records with practitioners for a limited time:
+ * - POST /api/fhir-storage/patients/{patientId}/consents
+ * - GET /api/fhir-storage/patients/{patientId}/consents
+ * - POST /api/fhir-storage/patients/{patientId}/consents/{consentId}/revoke
+ *
+ * A timer revokes expired grants and logs the revocation on-chain.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext, Timer } from '@azure/functions';
+import { consentService, ConsentGrantRequest } from '../../services/consent.js';
+import { settingsService } from '../../services/settings.js';
+import { Logger } from '../../utils/logger.js';
+import { ValidationError } from '../../utils/errors.js';
+import { secured, corsHeaders } from '../../utils/httpAuth.js';
+
+const logger = new Logger();
+
+/**
+ * Response helper for consistent API responses
+ */
+function createResponse(statusCode: number, data: any, message?: string): HttpResponseInit {
+  const success = statusCode >= 200 && statusCode < 300;
+
+  return {
+    status: statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      success,
+      ...(success ? { data } : { error: data || 'An error occurred' }),
+      message: message || (success ? 'Success' : 'Error'),
+      timestamp: new Date().toISOString(),
+    }),
+  };
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+async function handleOptions(request: HttpRequest): Promise<HttpResponseInit> {
+  return {
+    status: 200,
+    headers: {
+      ...corsHeaders(request, 'GET, POST, OPTIONS'),
+      'Access-Control-Max-Age': '86400',
+    },
+  };
+}
+
+/**
+ * POST /api/fhir-storage/patients/{patientId}/consents
+ * Share records with a practitioner until an expiry date
+ */
+async function createConsent(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  const patientId = request.params.patientId;
+
+  try {
+    if (!patientId) {
+      return createResponse(400, null, 'Missing required parameter: patientId');
+    }
+
+    let body: ConsentGrantRequest;
+    try {
+      body = (await request.json()) as ConsentGrantRequest;
+    } catch {
+      return createResponse(400, null, 'Request body must be valid JSON');
+    }
+
+    logger.info('Creating consent grant', {
+      patientId,
+      practitionerId: body?.practitionerId,
+      recordCount: Array.isArray(body?.resources) ? body.resources.length : 0,
+      requestId: context.invocationId,
+    });
+
+    const grant = await consentService.grantAccess(patientId, body);
+
+    return createResponse(201, grant, 'Records shared successfully');
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return createResponse(400, error.details, error.message);
+    }
+
+    logger.error('Failed to create consent grant', {
+      error: error as Error,
+      patientId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to share records');
+  }
+}
+
+/**
+ * GET /api/fhir-storage/patients/{patientId}/consents
+ * List a patient's grants, including expired and revoked ones
+ */
+async function listConsents(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  const patientId = request.params.patientId;
+
+  try {
+    if (!patientId) {
+      return createResponse(400, null, 'Missing required parameter: patientId');
+    }
+
+    const grants = await consentService.listGrants(patientId);
+
+    return createResponse(200, { patientId, grants, totalCount: grants.length }, 'Consent grants retrieved successfully');
+  } catch (error) {
+    logger.error('Failed to list consent grants', {
+      error: error as Error,
+      patientId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve consent grants');
+  }
+}
+
+/**
+ * POST /api/fhir-storage/patients/{patientId}/consents/{consentId}/revoke
+ * Revoke a grant before it expires
+ */
+async function revokeConsent(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  const { patientId, consentId } = request.params;
+
+  try {
+    if (!patientId || !consentId) {
+      return createResponse(400, null, 'Missing required parameters: patientId, consentId');
+    }
+
+    const grant = await consentService.revokeAccess(patientId, consentId);
+    if (!grant) {
+      return createResponse(404, null, 'Consent grant not found');
+    }
+
+    logger.info('Consent grant revoked', {
+      patientId,
+      consentId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(200, grant, 'Access revoked successfully');
+  } catch (error) {
+    logger.error('Failed to revoke consent grant', {
+      error: error as Error,
+      patientId,
+      consentId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to revoke access');
+  }
+}
+
+/**
+ * Timer: revoke grants whose expiry has passed
+ */
+async function expireConsents(timer: Timer, context: InvocationContext): Promise<void> {
+  try {
+    await settingsService.refresh();
+    const expired = await consentService.expireGrants();
+
+    if (expired > 0) {
+      logger.info('Expired consent grants revoked', {
+        expired,
+        requestId: context.invocationId,
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to expire consent grants', {
+      error: error as Error,
+      isPastDue: timer.isPastDue,
+      requestId: context.invocationId,
+    });
+  }
+}
+
+// Register HTTP functions
+app.http('consent-grants', {
+  methods: ['GET', 'POST', 'OPTIONS'],
+  route: 'fhir-storage/patients/{patientId}/consents',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    if (request.method === 'POST') {
+      return secured(request, context, { action: 'share', patientId: request.params.patientId }, createConsent);
+    }
+    return secured(request, context, { action: 'read', patientId: request.params.patientId }, listConsents);
+  },
+});
+
+app.http('consent-revoke', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'fhir-storage/patients/{patientId}/consents/{consentId}/revoke',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, { action: 'share', patientId: request.params.patientId }, revokeConsent);
+  },
+});
+
+// Register timer function
+app.timer('consent-expiry', {
+  schedule: process.env.CONSENT_EXPIRY_SCHEDULE || '0 */5 * * * *',
+  handler: expireConsents,
+});
@@ -3,18 +3,49 @@
  * @module functions/fhir-storage
  *
  * Provides REST API endpoints for accessing FHIR resources from blob storage:
- * - GET /api/fhir-storage/resource/{patientId}/{resourceType}/{resourceId}
+ * - GET|PUT /api/fhir-storage/resource/{patientId}/{resourceType}/{resourceId}
+ * - GET /api/fhir-storage/resource/{patientId}/{resourceType}/{resourceId}/_history[/{versionId}]
  * - GET /api/fhir-storage/patients
  * - GET /api/fhir-storage/patients/{patientId}/resources
  * - GET /api/fhir-storage/resources/{resourceType}
+ * - GET /api/fhir-storage/{resourceType}?... and GET /api/fhir-storage?_type=... (FHIR search, searchset Bundle)
+ * - POST /api/fhir-storage/patients/{patientId}/import
+ * - GET /api/fhir-storage/patients/{patientId}/export
+ * - GET /api/fhir-storage/users (indexed, cursor-paginated)
+ * - POST /api/fhir-storage/admin/index/rebuild
+ *
+ * Every route except health needs a bearer token; what the caller may read or
+ * change is decided by services/accessPolicy (see utils/httpAuth). Reads and
+ * writes of patient records, onboarding and role changes go to the audit trail.
+ *
+ * Resource reads carry an ETag (W/"versionId"). Writes honor If-Match and
+ * If-None-Match: * and answer 412 when the stored version doesn't match.
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { fhirStorageService, FHIRResource } from '../../services/fhirStorage.js';
+import {
+  fhirStorageService,
+  FHIRResource,
+  PATIENT_RESOURCE_TYPES,
+  WritePreconditions,
+  versionETag,
+} from '../../services/fhirStorage.js';
+import { fhirSearchService, parseSearchParams } from '../../services/fhirSearch.js';
+import { USER_ID_IDENTIFIER_SYSTEM, profileUserId } from '../../services/fhirIndex.js';
+import { fhirImportService } from '../../services/fhirImport.js';
+import { fhirExportService, ExportBundleType, ExportFormat } from '../../services/fhirExport.js';
+import { accessPolicyService, AccessDecision } from '../../services/accessPolicy.js';
+import { UserRole, USER_ROLES, profileRole } from '../../services/auth.js';
+import { auditService, AuditEventInput } from '../../services/audit.js';
 import { Logger } from '../../utils/logger.js';
+import { ValidationError } from '../../utils/errors.js';
+import { secured, corsHeaders, withCors, auditContext, AuthContext, RouteAccess } from '../../utils/httpAuth.js';
 
 const logger = new Logger();
 
+/** Extension on a user's Patient/Practitioner resource holding their role */
+const USER_ROLE_EXTENSION_URL = 'http://lelink.health/fhir/StructureDefinition/user-role';
+
 /**
  * Helper function to check for email uniqueness across Patient and Practitioner resources
  */
@@ -22,39 +53,20 @@ async function checkEmailUniqueness(email: string, excludeUserId?: string): Prom
   if (!email) return null;
   
   try {
-    console.log('[EMAIL_UNIQUENESS_CHECK] Checking email uniqueness for:', email);
-    
-    // Get all patients
-    const allPatients = await fhirStorageService.getAllPatients();
-    
-    for (const patientId of allPatients) {
-      try {
-        // Check Patient resources
-        const patientResources = await fhirStorageService.listPatientResources(patientId);
-        
-        for (const resource of patientResources) {
-          if ((resource.resourceType === 'Patient' || resource.resourceType === 'Practitioner') && 
-              resource.id !== excludeUserId) {
-            
-            // Check if this resource has the same email in telecom or contact info
-            const resourceEmail = extractEmailFromResource(resource);
-            if (resourceEmail && resourceEmail.toLowerCase() === email.toLowerCase()) {
-              console.log('[EMAIL_UNIQUENESS_CHECK] Found duplicate email in resource:', resource.id);
-              return resource.id;
-            }
-          }
-        }
-      } catch (error) {
-        // Continue checking other patients even if one fails
-        console.log('[EMAIL_UNIQUENESS_CHECK] Error checking patient:', patientId, error);
-      }
+    // Profiles are indexed by email, so this is a single lookup
+    const { items: profiles } = await fhirStorageService.searchResources({ email, userProfiles: true });
+    const duplicate = profiles.find(
+      (resource) => resource.id !== excludeUserId && profileUserId(resource) !== excludeUserId
+    );
+
+    if (duplicate) {
+      return duplicate.id;
     }
     
-    console.log('[EMAIL_UNIQUENESS_CHECK] Email is unique:', email);
     return null;
     
   } catch (error) {
-    console.error('[EMAIL_UNIQUENESS_CHECK] Error during email uniqueness check:', error);
+    logger.warn('Email uniqueness check failed, allowing the registration', { error: error as Error });
     return null; // If check fails, allow creation (don't block user)
   }
 }
@@ -85,24 +97,11 @@ function extractEmailFromResource(resource: any): string | null {
 }
 
 /**
- * Helper function to extract role from FHIR resource extensions
+ * Role recorded in a profile's role extension, if it names a known role
  */
-function extractRoleFromResource(resource: any): string | null {
-  // Check for role extension
-  if (resource.extension) {
-    for (const extension of resource.extension) {
-      if (extension.url === 'http://lelink.health/fhir/StructureDefinition/user-role' && extension.valueString) {
-        return extension.valueString;
-      }
-    }
-  }
-  
-  // Fallback to resource type
-  if (resource.resourceType === 'Patient' || resource.resourceType === 'Practitioner') {
-    return resource.resourceType;
-  }
-  
-  return null;
+function roleExtensionOf(resource: any): UserRole | null {
+  const value = (resource.extension || []).find((ext: any) => ext.url === USER_ROLE_EXTENSION_URL)?.valueString;
+  return USER_ROLES.find((role) => typeof value === 'string' && role.toLowerCase() === value.trim().toLowerCase()) || null;
 }
 
 /**
@@ -113,9 +112,6 @@ function createResponse(statusCode: number, data: any, message?: string): HttpRe
     status: statusCode,
     headers: {
       'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   };
 
@@ -138,11 +134,85 @@ function createResponse(statusCode: number, data: any, message?: string): HttpRe
   return response;
 }
 
+/**
+ * Resources the caller may see: all of them, or only those shared through a consent grant
+ */
+function visibleResources(resources: FHIRResource[], auth: AuthContext): FHIRResource[] {
+  const granted = auth.decision?.scope === 'consented' ? auth.decision.grantedResources : undefined;
+  return granted ? resources.filter((resource) => granted.has(`${resource.resourceType}/${resource.id}`)) : resources;
+}
+
+/**
+ * Whether the caller is the user with this email, or an admin
+ */
+function isSelfOrAdmin(auth: AuthContext, userIdOrEmail: string): boolean {
+  const { principal } = auth;
+  return (
+    principal.role === 'Admin' ||
+    principal.userId === userIdOrEmail ||
+    (!!principal.email && principal.email.toLowerCase() === userIdOrEmail.toLowerCase())
+  );
+}
+
+/**
+ * Add the version ETag and Last-Modified of a resource to a response
+ */
+function withETag(response: HttpResponseInit, resource: FHIRResource): HttpResponseInit {
+  return {
+    ...response,
+    headers: {
+      ...(response.headers as Record<string, string>),
+      ETag: versionETag(resource.meta?.versionId || '1'),
+      ...(resource.meta?.lastUpdated && { 'Last-Modified': new Date(resource.meta.lastUpdated).toUTCString() }),
+    },
+  };
+}
+
+/**
+ * Record an access to patient records in the audit trail
+ */
+async function audit(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext,
+  event: Omit<AuditEventInput, 'actor' | 'type'> & Partial<Pick<AuditEventInput, 'type'>>
+): Promise<void> {
+  await auditService.record({ ...auditContext(request, context, auth), type: 'data', ...event });
+}
+
+/**
+ * Write conditions from the If-Match / If-None-Match headers
+ */
+function writePreconditions(request: HttpRequest): WritePreconditions {
+  return {
+    ifMatch: request.headers.get('if-match') || undefined,
+    ifNoneMatch: request.headers.get('if-none-match') || undefined,
+  };
+}
+
+/**
+ * 412 for a write whose preconditions failed, with the current version when there is one
+ */
+function preconditionFailedResponse(message: string | undefined, currentVersionId?: string): HttpResponseInit {
+  const response = createResponse(
+    412,
+    { currentVersionId: currentVersionId || null },
+    message || 'The resource was changed by someone else'
+  );
+  return currentVersionId
+    ? { ...response, headers: { ...(response.headers as Record<string, string>), ETag: versionETag(currentVersionId) } }
+    : response;
+}
+
 /**
  * GET /api/fhir-storage/resource/{patientId}/{resourceType}/{resourceId}
  * Retrieve a specific FHIR resource
  */
-async function getResource(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+async function getResource(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
   try {
     const patientId = request.params.patientId;
     const resourceType = request.params.resourceType;
@@ -161,7 +231,7 @@ async function getResource(request: HttpRequest, context: InvocationContext): Pr
 
     const resource = await fhirStorageService.getResource(patientId, resourceType, resourceId);
 
-    if (!resource) {
+    if (!resource || visibleResources([resource], auth).length === 0) {
       return createResponse(404, null, 'Resource not found');
     }
 
@@ -172,7 +242,14 @@ async function getResource(request: HttpRequest, context: InvocationContext): Pr
       requestId: context.invocationId,
     });
 
-    return createResponse(200, resource, 'Resource retrieved successfully');
+    await audit(request, context, auth, {
+      action: 'record.read',
+      description: `Read ${resourceType}/${resourceId}`,
+      patientId,
+      resource: `${resourceType}/${resourceId}`,
+    });
+
+    return withETag(createResponse(200, resource, 'Resource retrieved successfully'), resource);
   } catch (error) {
     logger.error('Failed to get FHIR resource', {
       error: error as Error,
@@ -186,17 +263,293 @@ async function getResource(request: HttpRequest, context: InvocationContext): Pr
   }
 }
 
+/**
+ * PUT /api/fhir-storage/resource/{patientId}/{resourceType}/{resourceId}
+ * Create or update a resource (FHIR update). Send If-Match with the ETag that was
+ * read to make sure nobody changed the resource in between, or If-None-Match: *
+ * to only create it.
+ */
+async function updateResource(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  try {
+    const { patientId, resourceType, resourceId } = request.params;
+
+    if (!patientId || !resourceType || !resourceId) {
+      return createResponse(400, null, 'Missing required parameters: patientId, resourceType, resourceId');
+    }
+
+    const body = await request.text();
+    if (!body) {
+      return createResponse(400, null, 'Request body is required');
+    }
+
+    const resource = JSON.parse(body) as FHIRResource;
+    if (resource.resourceType !== resourceType || resource.id !== resourceId) {
+      return createResponse(400, null, `Resource must be ${resourceType} with id ${resourceId}`);
+    }
+
+    // Consents are written by the sharing flow, which also logs them on-chain
+    if (resourceType === 'Consent') {
+      return createResponse(403, null, 'Consent resources can only be changed by sharing or revoking records');
+    }
+
+    // The compartment storage files the resource under, which the route's access check covered
+    let compartment: string;
+    try {
+      compartment = fhirStorageService.extractPatientId(resource);
+    } catch {
+      return createResponse(400, null, `Resource must reference patient ${patientId}`);
+    }
+    if (compartment !== patientId) {
+      return createResponse(400, null, `Resource belongs to patient ${compartment}, not ${patientId}`);
+    }
+
+    logger.info('Updating FHIR resource', {
+      patientId,
+      resourceType,
+      resourceId,
+      userId: auth.principal.userId,
+      requestId: context.invocationId,
+    });
+
+    const isProfile = resourceType === 'Patient' || resourceType === 'Practitioner';
+    const stored = isProfile ? await fhirStorageService.getResource(patientId, resourceType, resourceId) : null;
+    const previousRole = stored && roleExtensionOf(stored);
+
+    // The user a profile belongs to and the practitioners assigned to it decide who may access
+    // which records, so they stay as stored (or as createPatient links them) unless an administrator writes
+    if (isProfile && auth.principal.role !== 'Admin') {
+      resource.identifier = [
+        ...(resource.identifier || []).filter((id: any) => id.system !== USER_ID_IDENTIFIER_SYSTEM),
+        ...(stored
+          ? (stored.identifier || []).filter((id: any) => id.system === USER_ID_IDENTIFIER_SYSTEM)
+          : [{ system: USER_ID_IDENTIFIER_SYSTEM, value: auth.principal.userId }]),
+      ];
+      if (resourceType === 'Patient') {
+        if (stored?.generalPractitioner) {
+          resource.generalPractitioner = stored.generalPractitioner;
+        } else {
+          delete resource.generalPractitioner;
+        }
+      }
+    }
+
+    // Users may keep the role a profile already records, or record their own role on their own profile;
+    // anything else, including a role on a new resource, is an administrator's change
+    const requestedRole = isProfile ? roleExtensionOf(resource) : null;
+    if (
+      requestedRole &&
+      auth.principal.role !== 'Admin' &&
+      requestedRole !== previousRole &&
+      (requestedRole !== auth.principal.role || profileUserId(resource) !== auth.principal.userId)
+    ) {
+      return createResponse(403, null, 'Only administrators can change user roles');
+    }
+
+    const result = await fhirStorageService.storeResource(resource, writePreconditions(request));
+
+    if (result.preconditionFailed) {
+      return preconditionFailedResponse(result.error, result.versionId);
+    }
+    if (!result.success) {
+      return createResponse(500, result.error, 'Failed to store resource');
+    }
+
+    const created = result.versionId === '1';
+    await audit(request, context, auth, {
+      action: created ? 'record.create' : 'record.update',
+      description: `${created ? 'Created' : 'Updated'} ${resourceType}/${resourceId}`,
+      patientId,
+      resource: `${resourceType}/${resourceId}`,
+      details: { versionId: result.versionId },
+    });
+
+    if (stored && requestedRole !== previousRole) {
+      const role = requestedRole;
+      await audit(request, context, auth, {
+        type: 'user',
+        severity: 'warning',
+        action: 'user.role_changed',
+        description: `Role of user ${patientId} changed from ${previousRole || 'none'} to ${role || 'none'}`,
+        patientId,
+        resource: `${resourceType}/${resourceId}`,
+        details: { previousRole, role },
+      });
+    }
+    return withETag(
+      createResponse(created ? 201 : 200, resource, created ? 'Resource created successfully' : 'Resource updated successfully'),
+      resource
+    );
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return createResponse(400, null, 'Request body must be valid JSON');
+    }
+
+    logger.error('Failed to update FHIR resource', {
+      error: error as Error,
+      patientId: request.params.patientId,
+      resourceType: request.params.resourceType,
+      resourceId: request.params.resourceId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to update resource');
+  }
+}
+
+/**
+ * GET /api/fhir-storage/resource/{patientId}/{resourceType}/{resourceId}/_history
+ * Every stored version of a resource as a history Bundle, newest first
+ */
+async function getResourceHistory(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  try {
+    const { patientId, resourceType, resourceId } = request.params;
+
+    if (!patientId || !resourceType || !resourceId) {
+      return createResponse(400, null, 'Missing required parameters: patientId, resourceType, resourceId');
+    }
+
+    logger.info('Getting FHIR resource history', {
+      patientId,
+      resourceType,
+      resourceId,
+      requestId: context.invocationId,
+    });
+
+    const versions = visibleResources(
+      await fhirStorageService.getResourceHistory(patientId, resourceType, resourceId),
+      auth
+    );
+
+    if (versions.length === 0) {
+      return createResponse(404, null, 'Resource not found');
+    }
+
+    await audit(request, context, auth, {
+      action: 'record.read',
+      description: `Read the history of ${resourceType}/${resourceId}`,
+      patientId,
+      resource: `${resourceType}/${resourceId}`,
+      details: { versions: versions.length },
+    });
+
+    const bundle = {
+      resourceType: 'Bundle',
+      id: `history-${resourceType}-${resourceId}`,
+      type: 'history',
+      timestamp: new Date().toISOString(),
+      total: versions.length,
+      entry: versions.map((version) => {
+        const versionId = version.meta?.versionId || '1';
+        return {
+          fullUrl: `${resourceType}/${resourceId}/_history/${versionId}`,
+          resource: version,
+          request: {
+            method: versionId === '1' ? 'POST' : 'PUT',
+            url: versionId === '1' ? resourceType : `${resourceType}/${resourceId}`,
+          },
+          response: {
+            status: versionId === '1' ? '201 Created' : '200 OK',
+            etag: `W/"${versionId}"`,
+            lastModified: version.meta?.lastUpdated,
+          },
+        };
+      }),
+    };
+
+    return createResponse(200, bundle, 'Resource history retrieved successfully');
+  } catch (error) {
+    logger.error('Failed to get FHIR resource history', {
+      error: error as Error,
+      patientId: request.params.patientId,
+      resourceType: request.params.resourceType,
+      resourceId: request.params.resourceId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve resource history');
+  }
+}
+
+/**
+ * GET /api/fhir-storage/resource/{patientId}/{resourceType}/{resourceId}/_history/{versionId}
+ * Retrieve one version of a resource (vread)
+ */
+async function getResourceVersion(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  try {
+    const { patientId, resourceType, resourceId, versionId } = request.params;
+
+    if (!patientId || !resourceType || !resourceId || !versionId) {
+      return createResponse(400, null, 'Missing required parameters: patientId, resourceType, resourceId, versionId');
+    }
+
+    logger.info('Getting FHIR resource version', {
+      patientId,
+      resourceType,
+      resourceId,
+      versionId,
+      requestId: context.invocationId,
+    });
+
+    const resource = await fhirStorageService.getResourceVersion(patientId, resourceType, resourceId, versionId);
+
+    if (!resource || visibleResources([resource], auth).length === 0) {
+      return createResponse(404, null, 'Resource version not found');
+    }
+
+    await audit(request, context, auth, {
+      action: 'record.read',
+      description: `Read version ${versionId} of ${resourceType}/${resourceId}`,
+      patientId,
+      resource: `${resourceType}/${resourceId}`,
+      details: { versionId },
+    });
+
+    return withETag(createResponse(200, resource, 'Resource version retrieved successfully'), resource);
+  } catch (error) {
+    logger.error('Failed to get FHIR resource version', {
+      error: error as Error,
+      patientId: request.params.patientId,
+      resourceType: request.params.resourceType,
+      resourceId: request.params.resourceId,
+      versionId: request.params.versionId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve resource version');
+  }
+}
+
 /**
  * GET /api/fhir-storage/patients
- * Get all patient IDs that have stored resources
+ * Get the IDs of the patients with stored resources that the caller may read
  */
-async function getPatients(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+async function getPatients(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
   try {
     logger.info('Getting all patients', {
       requestId: context.invocationId,
     });
 
-    const patientIds = await fhirStorageService.getAllPatients();
+    const allPatientIds = await fhirStorageService.getAllPatients();
+    const patientIds =
+      auth.principal.role === 'Admin'
+        ? allPatientIds
+        : await accessPolicyService.filterReadablePatients(auth.principal, allPatientIds);
 
     logger.info('Patients retrieved successfully', {
       patientCount: patientIds.length,
@@ -220,8 +573,15 @@ async function getPatients(request: HttpRequest, context: InvocationContext): Pr
 /**
  * GET /api/fhir-storage/patients/{patientId}/resources
  * Get all resources for a specific patient
+ *
+ * Practitioners without an assignment to the patient only receive the records
+ * covered by an active, unexpired consent grant.
  */
-async function getPatientResources(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+async function getPatientResources(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
   try {
     const patientId = request.params.patientId;
 
@@ -231,10 +591,11 @@ async function getPatientResources(request: HttpRequest, context: InvocationCont
 
     logger.info('Getting patient resources', {
       patientId,
+      userId: auth.principal.userId,
       requestId: context.invocationId,
     });
 
-    const resources = await fhirStorageService.listPatientResources(patientId);
+    const resources = visibleResources(await fhirStorageService.listPatientResources(patientId), auth);
 
     logger.info('Patient resources retrieved successfully', {
       patientId,
@@ -242,6 +603,13 @@ async function getPatientResources(request: HttpRequest, context: InvocationCont
       requestId: context.invocationId,
     });
 
+    await audit(request, context, auth, {
+      action: 'record.read',
+      description: `Read ${resources.length} records of patient ${patientId}`,
+      patientId,
+      details: { resourceCount: resources.length },
+    });
+
     // Group resources by type for easier consumption
     const resourcesByType: Record<string, FHIRResource[]> = {};
     resources.forEach(resource => {
@@ -273,7 +641,11 @@ async function getPatientResources(request: HttpRequest, context: InvocationCont
  * GET /api/fhir-storage/{patientId}/{resourceType}
  * Get all resources of a specific type for a specific patient
  */
-async function getPatientResourcesByType(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+async function getPatientResourcesByType(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
   try {
     const patientId = request.params.patientId;
     const resourceType = request.params.resourceType;
@@ -293,7 +665,7 @@ async function getPatientResourcesByType(request: HttpRequest, context: Invocati
     });
 
     // Get all resources for the patient
-    const allResources = await fhirStorageService.listPatientResources(patientId);
+    const allResources = visibleResources(await fhirStorageService.listPatientResources(patientId), auth);
     
     // Filter by resource type
     const filteredResources = allResources.filter(resource => resource.resourceType === resourceType);
@@ -306,6 +678,13 @@ async function getPatientResourcesByType(request: HttpRequest, context: Invocati
       requestId: context.invocationId,
     });
 
+    await audit(request, context, auth, {
+      action: 'record.read',
+      description: `Read ${filteredResources.length} ${resourceType} records of patient ${patientId}`,
+      patientId,
+      details: { resourceType, resourceCount: filteredResources.length },
+    });
+
     return createResponse(200, {
       patientId,
       resourceType,
@@ -325,21 +704,136 @@ async function getPatientResourcesByType(request: HttpRequest, context: Invocati
   }
 }
 
+/**
+ * GET /api/fhir-storage/{resourceType}?subject=...&date=ge2025-01-01&_sort=-date
+ * GET /api/fhir-storage?_type=Observation,Condition&...
+ * FHIR search; see services/fhirSearch for the supported parameters
+ *
+ * With a subject the route's access decision covers every match. Without one,
+ * patients only search their own records and everyone but admins gets the
+ * matches from compartments they may read.
+ */
+async function searchResources(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  try {
+    const resourceType = request.params.resourceType;
+
+    if (resourceType && !(PATIENT_RESOURCE_TYPES as readonly string[]).includes(resourceType)) {
+      return createResponse(404, null, `Unknown resource type: ${resourceType}`);
+    }
+
+    const url = new URL(request.url);
+    const search = parseSearchParams(resourceType, url.searchParams);
+    const { principal } = auth;
+
+    if (!search.patientId && principal.role === 'Patient') {
+      search.patientId = principal.userId;
+    }
+
+    logger.info('Searching FHIR resources', {
+      resourceTypes: search.resourceTypes,
+      patientId: search.patientId,
+      userId: principal.userId,
+      requestId: context.invocationId,
+    });
+
+    let visible: (resources: FHIRResource[]) => Promise<FHIRResource[]>;
+    if (auth.decision) {
+      visible = async (resources) => visibleResources(resources, auth);
+    } else if (principal.role === 'Admin') {
+      visible = async (resources) => resources;
+    } else {
+      // One access decision per compartment the results come from
+      const decisions = new Map<string, Promise<AccessDecision>>();
+      visible = async (resources) => {
+        const allowed = await Promise.all(
+          resources.map(async (resource) => {
+            const patientId = compartmentOf(resource);
+            if (!patientId) return false;
+            if (!decisions.has(patientId)) {
+              decisions.set(patientId, accessPolicyService.decide(principal, { action: 'read', patientId }));
+            }
+            const decision = await decisions.get(patientId)!;
+            return decision.allowed && visibleResources([resource], { principal, decision }).length > 0;
+          })
+        );
+        return resources.filter((_, index) => allowed[index]);
+      };
+    }
+
+    const bundle = await fhirSearchService.search(search, { url, visible });
+
+    await audit(request, context, auth, {
+      action: 'record.search',
+      description: `Searched ${search.resourceTypes.join(', ') || 'all records'}${
+        search.patientId ? ` of patient ${search.patientId}` : ''
+      }`,
+      patientId: search.patientId,
+      details: { query: url.search, matches: bundle.entry?.length ?? 0 },
+    });
+
+    return {
+      status: 200,
+      headers: { 'Content-Type': 'application/fhir+json' },
+      body: JSON.stringify(bundle),
+    };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return createResponse(400, error.details, error.message);
+    }
+
+    logger.error('Failed to search FHIR resources', {
+      error: error as Error,
+      resourceType: request.params.resourceType,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to search resources');
+  }
+}
+
+/**
+ * Patient compartment a resource belongs to: the profile itself, or its subject
+ */
+function compartmentOf(resource: FHIRResource): string | undefined {
+  if (resource.resourceType === 'Patient' || resource.resourceType === 'Practitioner') {
+    return resource.id;
+  }
+  const reference: string | undefined =
+    resource.subject?.reference ||
+    resource.patient?.reference ||
+    (resource.participant || []).find((participant: any) => participant.actor?.reference?.startsWith('Patient/'))?.actor
+      .reference;
+  return reference?.startsWith('Patient/') ? reference.slice('Patient/'.length) : undefined;
+}
+
+/**
+ * Access to check before a search runs: the searched subject's compartment, if any
+ */
+function searchAccess(request: HttpRequest): RouteAccess | null {
+  const reference = request.query.get('subject') || request.query.get('patient');
+  return reference ? { action: 'read', patientId: reference.replace(/^Patient\//, '') } : null;
+}
+
 /**
  * POST /api/fhir-storage/patients
  * Create a new Patient resource
  */
-async function createPatient(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+async function createPatient(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
   try {
-    console.log('[FHIR_CREATE_PATIENT_DEBUG] Starting patient creation...');
-    
     const body = await request.text();
     if (!body) {
       return createResponse(400, null, 'Request body is required');
     }
 
     const patientResource = JSON.parse(body);
-    console.log('[FHIR_CREATE_PATIENT_DEBUG] Patient resource:', JSON.stringify(patientResource, null, 2));
 
     if (!patientResource.resourceType || patientResource.resourceType !== 'Patient') {
       return createResponse(400, null, 'Invalid resource type. Expected "Patient"');
@@ -355,7 +849,7 @@ async function createPatient(request: HttpRequest, context: InvocationContext):
 
     // Extract user ID from identifier array for duplicate checking
     const userIdFromIdentifier = patientResource.identifier?.find(
-      (id: any) => id.system === 'http://lelink.healthcare/user-id'
+      (id: any) => id.system === USER_ID_IDENTIFIER_SYSTEM
     )?.value;
     
     const userId = userIdHeader || userIdFromIdentifier;
@@ -363,56 +857,65 @@ async function createPatient(request: HttpRequest, context: InvocationContext):
       return createResponse(400, null, 'User ID is required (X-User-ID header or identifier)');
     }
 
-    console.log('[FHIR_CREATE_PATIENT_DEBUG] Using resource ID:', resourceId, 'User ID:', userId);
+    if (!isSelfOrAdmin(auth, userId)) {
+      return createResponse(403, null, 'Users can only create their own Patient resource');
+    }
 
-    // Check for existing Patient resource by searching identifier
+    // Check for the user's existing Patient resource, found by the user ID on its identifier
     try {
-      const allResources = await fhirStorageService.listPatientResources(userId);
-      const existingPatient = allResources.find(r => r.resourceType === 'Patient');
+      const existingPatient = await fhirStorageService.findUserProfile(userId, 'Patient');
       if (existingPatient) {
-        console.log('[FHIR_CREATE_PATIENT_DEBUG] Patient resource already exists for user:', userId);
-        return createResponse(200, existingPatient, 'Patient resource already exists');
+        logger.info('Patient resource already exists', { userId, requestId: context.invocationId });
+        if (request.headers.get('if-none-match') === '*') {
+          return preconditionFailedResponse('Patient resource already exists', existingPatient.meta?.versionId || '1');
+        }
+        return withETag(createResponse(200, existingPatient, 'Patient resource already exists'), existingPatient);
       }
     } catch (error) {
       // Resource doesn't exist, which is fine - we'll create it
-      console.log('[FHIR_CREATE_PATIENT_DEBUG] No existing patient found, proceeding with creation');
+      logger.debug('No existing Patient resource', { userId, requestId: context.invocationId });
+    }
+
+    // The profile is stored in a compartment named after its ID, which must not hold anyone else's records
+    if ((await fhirStorageService.countPatientResources(resourceId)) > 0) {
+      return createResponse(409, null, `Resource ID ${resourceId} is already in use`);
     }
 
+    // Link the profile to this user, whatever user ID the identifier sent
+    patientResource.identifier = [
+      ...(patientResource.identifier || []).filter((id: any) => id.system !== USER_ID_IDENTIFIER_SYSTEM),
+      { system: USER_ID_IDENTIFIER_SYSTEM, value: userId },
+    ];
+
     // Check for email uniqueness if email is provided
     const patientEmail = extractEmailFromResource(patientResource);
     if (patientEmail) {
       const duplicateUserId = await checkEmailUniqueness(patientEmail, userId);
       if (duplicateUserId) {
-        console.log('[FHIR_CREATE_PATIENT_DEBUG] Email already exists for user:', duplicateUserId);
+        logger.warn('Email already registered to another user', {
+          userId,
+          duplicateUserId,
+          requestId: context.invocationId,
+        });
         return createResponse(409, null, `Email ${patientEmail} is already registered to another user`);
       }
     }
 
-    // Keep the unique resource ID as provided (don't override with session ID)
-    console.log('[FHIR_CREATE_PATIENT_DEBUG] Using unique resource ID:', resourceId);
-
-    // Add role information as FHIR extension - role can be provided in request or defaults to Patient
+    // Onboarding always records the Patient role; only administrators change roles, by updating the resource
     if (!patientResource.extension) {
       patientResource.extension = [];
     }
     
-    // Remove any existing role extension and add new one
-    patientResource.extension = patientResource.extension.filter(
-      (ext: any) => ext.url !== 'http://lelink.health/fhir/StructureDefinition/user-role'
-    );
+    // Remove any role extension or userRole sent with the request and add our own
+    patientResource.extension = patientResource.extension.filter((ext: any) => ext.url !== USER_ROLE_EXTENSION_URL);
     
-    // Use role from request body or default to Patient
-    const userRole = patientResource.userRole || 'Patient';
+    const userRole = 'Patient';
     patientResource.extension.push({
-      url: 'http://lelink.health/fhir/StructureDefinition/user-role',
+      url: USER_ROLE_EXTENSION_URL,
       valueString: userRole
     });
-
-    // Remove userRole from resource as it's now in extension
     delete patientResource.userRole;
 
-    console.log('[FHIR_CREATE_PATIENT_DEBUG] Added role extension to Patient resource:', userRole);
-
     // Add metadata
     patientResource.meta = {
       ...patientResource.meta,
@@ -425,8 +928,12 @@ async function createPatient(request: HttpRequest, context: InvocationContext):
       requestId: context.invocationId,
     });
     
-    const result = await fhirStorageService.storeResource(patientResource);
-    console.log('[FHIR_CREATE_PATIENT_DEBUG] Storage result:', result);
+    // Only ever create: a concurrent write to the same ID fails instead of replacing it
+    const result = await fhirStorageService.storeResource(patientResource, { ifNoneMatch: '*' });
+
+    if (result.preconditionFailed) {
+      return preconditionFailedResponse(result.error, result.versionId);
+    }
 
     logger.info('Patient resource created successfully', {
       patientId: patientResource.id,
@@ -434,9 +941,17 @@ async function createPatient(request: HttpRequest, context: InvocationContext):
       requestId: context.invocationId,
     });
 
-    return createResponse(201, patientResource, 'Patient resource created successfully');
+    await audit(request, context, auth, {
+      type: 'user',
+      action: 'user.onboarded',
+      description: `User ${userId} onboarded as ${userRole}`,
+      patientId: userId,
+      resource: `Patient/${patientResource.id}`,
+      details: { role: userRole },
+    });
+
+    return withETag(createResponse(201, patientResource, 'Patient resource created successfully'), patientResource);
   } catch (error) {
-    console.error('[FHIR_CREATE_PATIENT_DEBUG] Error creating patient:', error);
     logger.error('Failed to create Patient resource', {
       error: error as Error,
       requestId: context.invocationId,
@@ -450,17 +965,18 @@ async function createPatient(request: HttpRequest, context: InvocationContext):
  * POST /api/fhir-storage/practitioners
  * Create a new Practitioner resource
  */
-async function createPractitioner(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+async function createPractitioner(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
   try {
-    console.log('[FHIR_CREATE_PRACTITIONER_DEBUG] Starting practitioner creation...');
-    
     const body = await request.text();
     if (!body) {
       return createResponse(400, null, 'Request body is required');
     }
 
     const practitionerResource = JSON.parse(body);
-    console.log('[FHIR_CREATE_PRACTITIONER_DEBUG] Practitioner resource:', JSON.stringify(practitionerResource, null, 2));
 
     if (!practitionerResource.resourceType || practitionerResource.resourceType !== 'Practitioner') {
       return createResponse(400, null, 'Invalid resource type. Expected "Practitioner"');
@@ -476,7 +992,7 @@ async function createPractitioner(request: HttpRequest, context: InvocationConte
 
     // Extract user ID from identifier array for duplicate checking
     const userIdFromIdentifier = practitionerResource.identifier?.find(
-      (id: any) => id.system === 'http://lelink.healthcare/user-id'
+      (id: any) => id.system === USER_ID_IDENTIFIER_SYSTEM
     )?.value;
     
     const userId = userIdHeader || userIdFromIdentifier;
@@ -484,56 +1000,74 @@ async function createPractitioner(request: HttpRequest, context: InvocationConte
       return createResponse(400, null, 'User ID is required (X-User-ID header or identifier)');
     }
 
-    console.log('[FHIR_CREATE_PRACTITIONER_DEBUG] Using resource ID:', resourceId, 'User ID:', userId);
+    if (!isSelfOrAdmin(auth, userId)) {
+      return createResponse(403, null, 'Users can only create their own Practitioner resource');
+    }
 
-    // Check for existing Practitioner resource by searching identifier
+    // Check for the user's existing Practitioner resource, found by the user ID on its identifier
     try {
-      const allResources = await fhirStorageService.listPatientResources(userId);
-      const existingPractitioner = allResources.find(r => r.resourceType === 'Practitioner');
+      const existingPractitioner = await fhirStorageService.findUserProfile(userId, 'Practitioner');
       if (existingPractitioner) {
-        console.log('[FHIR_CREATE_PRACTITIONER_DEBUG] Practitioner resource already exists for user:', userId);
-        return createResponse(200, existingPractitioner, 'Practitioner resource already exists');
+        logger.info('Practitioner resource already exists', { userId, requestId: context.invocationId });
+        if (request.headers.get('if-none-match') === '*') {
+          return preconditionFailedResponse(
+            'Practitioner resource already exists',
+            existingPractitioner.meta?.versionId || '1'
+          );
+        }
+        return withETag(
+          createResponse(200, existingPractitioner, 'Practitioner resource already exists'),
+          existingPractitioner
+        );
       }
     } catch (error) {
       // Resource doesn't exist, which is fine - we'll create it
-      console.log('[FHIR_CREATE_PRACTITIONER_DEBUG] No existing practitioner found, proceeding with creation');
+      logger.debug('No existing Practitioner resource', { userId, requestId: context.invocationId });
+    }
+
+    // The profile is stored in a compartment named after its ID, which must not hold anyone else's records
+    if ((await fhirStorageService.countPatientResources(resourceId)) > 0) {
+      return createResponse(409, null, `Resource ID ${resourceId} is already in use`);
     }
 
+    // Link the profile to this user, whatever user ID the identifier sent
+    practitionerResource.identifier = [
+      ...(practitionerResource.identifier || []).filter((id: any) => id.system !== USER_ID_IDENTIFIER_SYSTEM),
+      { system: USER_ID_IDENTIFIER_SYSTEM, value: userId },
+    ];
+
     // Check for email uniqueness if email is provided
     const practitionerEmail = extractEmailFromResource(practitionerResource);
     if (practitionerEmail) {
       const duplicateUserId = await checkEmailUniqueness(practitionerEmail, userId);
       if (duplicateUserId) {
-        console.log('[FHIR_CREATE_PRACTITIONER_DEBUG] Email already exists for user:', duplicateUserId);
+        logger.warn('Email already registered to another user', {
+          userId,
+          duplicateUserId,
+          requestId: context.invocationId,
+        });
         return createResponse(409, null, `Email ${practitionerEmail} is already registered to another user`);
       }
     }
 
-    // Keep the unique resource ID as provided (don't override with session ID)
-    console.log('[FHIR_CREATE_PRACTITIONER_DEBUG] Using unique resource ID:', resourceId);
-
-    // Add role information as FHIR extension - role can be provided in request or defaults to Practitioner
+    // Only administrators record the Practitioner role. A profile users create for themselves
+    // stays without a role, and grants none, until an administrator records it by updating the resource.
     if (!practitionerResource.extension) {
       practitionerResource.extension = [];
     }
     
-    // Remove any existing role extension and add new one
-    practitionerResource.extension = practitionerResource.extension.filter(
-      (ext: any) => ext.url !== 'http://lelink.health/fhir/StructureDefinition/user-role'
-    );
+    // Remove any role extension or userRole sent with the request
+    practitionerResource.extension = practitionerResource.extension.filter((ext: any) => ext.url !== USER_ROLE_EXTENSION_URL);
     
-    // Use role from request body or default to Practitioner
-    const userRole = practitionerResource.userRole || 'Practitioner';
-    practitionerResource.extension.push({
-      url: 'http://lelink.health/fhir/StructureDefinition/user-role',
-      valueString: userRole
-    });
-
-    // Remove userRole from resource as it's now in extension
+    const userRole = auth.principal.role === 'Admin' ? 'Practitioner' : null;
+    if (userRole) {
+      practitionerResource.extension.push({
+        url: USER_ROLE_EXTENSION_URL,
+        valueString: userRole
+      });
+    }
     delete practitionerResource.userRole;
 
-    console.log('[FHIR_CREATE_PRACTITIONER_DEBUG] Added role extension to Practitioner resource:', userRole);
-
     // Add metadata
     practitionerResource.meta = {
       ...practitionerResource.meta,
@@ -546,8 +1080,12 @@ async function createPractitioner(request: HttpRequest, context: InvocationConte
       requestId: context.invocationId,
     });
     
-    const result = await fhirStorageService.storeResource(practitionerResource);
-    console.log('[FHIR_CREATE_PRACTITIONER_DEBUG] Storage result:', result);
+    // Only ever create: a concurrent write to the same ID fails instead of replacing it
+    const result = await fhirStorageService.storeResource(practitionerResource, { ifNoneMatch: '*' });
+
+    if (result.preconditionFailed) {
+      return preconditionFailedResponse(result.error, result.versionId);
+    }
 
     logger.info('Practitioner resource created successfully', {
       practitionerId: practitionerResource.id,
@@ -555,9 +1093,28 @@ async function createPractitioner(request: HttpRequest, context: InvocationConte
       requestId: context.invocationId,
     });
 
-    return createResponse(201, practitionerResource, 'Practitioner resource created successfully');
+    await audit(request, context, auth, {
+      type: 'user',
+      action: 'user.onboarded',
+      description: userRole
+        ? `User ${userId} onboarded as ${userRole}`
+        : `User ${userId} onboarded as Practitioner, pending administrator approval`,
+      patientId: userId,
+      resource: `Practitioner/${practitionerResource.id}`,
+      details: { role: userRole },
+    });
+
+    return withETag(
+      createResponse(
+        201,
+        practitionerResource,
+        userRole
+          ? 'Practitioner resource created successfully'
+          : 'Practitioner resource created; an administrator must approve the Practitioner role'
+      ),
+      practitionerResource
+    );
   } catch (error) {
-    console.error('[FHIR_CREATE_PRACTITIONER_DEBUG] Error creating practitioner:', error);
     logger.error('Failed to create Practitioner resource', {
       error: error as Error,
       requestId: context.invocationId,
@@ -567,6 +1124,200 @@ async function createPractitioner(request: HttpRequest, context: InvocationConte
   }
 }
 
+/**
+ * POST /api/fhir-storage/patients/{patientId}/import
+ * Import a FHIR batch/transaction Bundle into a patient's records
+ */
+async function importPatientBundle(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  try {
+    const patientId = request.params.patientId;
+
+    if (!patientId) {
+      return createResponse(400, null, 'Missing required parameter: patientId');
+    }
+
+    const body = await request.text();
+    if (!body) {
+      return createResponse(400, null, 'Request body is required');
+    }
+
+    let bundle: any;
+    try {
+      bundle = JSON.parse(body);
+    } catch {
+      return createResponse(400, null, 'Request body must be valid JSON');
+    }
+
+    logger.info('Importing FHIR bundle', {
+      patientId,
+      bundleType: bundle?.type,
+      entryCount: Array.isArray(bundle?.entry) ? bundle.entry.length : 0,
+      requestId: context.invocationId,
+    });
+
+    const report = await fhirImportService.importBundle(bundle, patientId);
+
+    if (report.rolledBack) {
+      return createResponse(400, report, 'Transaction bundle rolled back: no entries were imported');
+    }
+    if (report.rollbackFailed) {
+      await audit(request, context, auth, {
+        severity: 'error',
+        outcome: 'failure',
+        action: 'record.import',
+        description: `Transaction import into patient ${patientId} failed; ${report.imported} records could not be rolled back`,
+        patientId,
+        details: { imported: report.imported, failed: report.failed, skipped: report.skipped },
+      });
+      return createResponse(
+        500,
+        report,
+        `Transaction bundle failed and could not be rolled back: ${report.imported} entries are still stored`
+      );
+    }
+
+    logger.info('FHIR bundle imported', {
+      patientId,
+      imported: report.imported,
+      failed: report.failed,
+      skipped: report.skipped,
+      anchored: report.anchored,
+      requestId: context.invocationId,
+    });
+
+    await audit(request, context, auth, {
+      action: 'record.import',
+      description: `Imported ${report.imported} of ${report.total} records into patient ${patientId}`,
+      patientId,
+      details: { imported: report.imported, failed: report.failed, skipped: report.skipped },
+    });
+
+    return createResponse(200, report, `Imported ${report.imported} of ${report.total} entries`);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return createResponse(400, error.details, error.message);
+    }
+
+    logger.error('Failed to import FHIR bundle', {
+      error: error as Error,
+      patientId: request.params.patientId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to import FHIR bundle');
+  }
+}
+
+/**
+ * GET /api/fhir-storage/patients/{patientId}/export
+ * Export a patient's records with their blockchain anchors
+ *
+ * Query parameters:
+ * - format: fhir (Bundle, default), json (flat document) or pdf (printable summary)
+ * - bundleType: collection (default) or searchset, for the fhir format
+ * - ids: comma-separated resource IDs to restrict the export to
+ * - types: comma-separated resource types to restrict the export to
+ */
+async function exportPatientRecords(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  try {
+    const patientId = request.params.patientId;
+
+    if (!patientId) {
+      return createResponse(400, null, 'Missing required parameter: patientId');
+    }
+
+    if (auth.decision?.scope === 'consented') {
+      return createResponse(403, null, 'Exporting needs full access to the patient record');
+    }
+
+    const format = (request.query.get('format') || 'fhir') as ExportFormat;
+    if (!['fhir', 'json', 'pdf'].includes(format)) {
+      return createResponse(400, null, 'Invalid format. Must be one of: fhir, json, pdf');
+    }
+
+    const bundleType = (request.query.get('bundleType') || 'collection') as ExportBundleType;
+    if (!['collection', 'searchset'].includes(bundleType)) {
+      return createResponse(400, null, 'Invalid bundleType. Must be one of: collection, searchset');
+    }
+
+    const splitList = (value: string | null) =>
+      value
+        ?.split(',')
+        .map((v) => v.trim())
+        .filter(Boolean);
+
+    logger.info('Exporting patient records', {
+      patientId,
+      format,
+      requestId: context.invocationId,
+    });
+
+    const data = await fhirExportService.collect(patientId, {
+      resourceIds: splitList(request.query.get('ids')),
+      resourceTypes: splitList(request.query.get('types')),
+    });
+
+    if (data.records.length === 0) {
+      return createResponse(404, null, `No records found for patient: ${patientId}`);
+    }
+
+    await audit(request, context, auth, {
+      action: 'record.export',
+      description: `Exported ${data.records.length} records of patient ${patientId} as ${format}`,
+      patientId,
+      details: { format, resourceCount: data.records.length },
+    });
+
+    const headers = {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-practitioner-id',
+      'Access-Control-Expose-Headers': 'Content-Disposition',
+    };
+    const fileName = `lelink-records-${patientId}`;
+
+    if (format === 'pdf') {
+      return {
+        status: 200,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${fileName}.pdf"`,
+        },
+        body: await fhirExportService.toPdf(data),
+      };
+    }
+
+    const document = format === 'fhir' ? fhirExportService.toBundle(data, bundleType) : fhirExportService.toFlatJson(data);
+
+    return {
+      status: 200,
+      headers: {
+        ...headers,
+        'Content-Type': format === 'fhir' ? 'application/fhir+json' : 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}${format === 'fhir' ? '.fhir' : ''}.json"`,
+      },
+      body: JSON.stringify(document, null, 2),
+    };
+  } catch (error) {
+    logger.error('Failed to export patient records', {
+      error: error as Error,
+      patientId: request.params.patientId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to export patient records');
+  }
+}
+
 /**
  * OPTIONS handler for CORS preflight requests
  */
@@ -574,9 +1325,7 @@ async function handleOptions(request: HttpRequest, context: InvocationContext):
   return {
     status: 200,
     headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      ...corsHeaders(request, 'GET, POST, PUT, OPTIONS'),
       'Access-Control-Max-Age': '86400',
     },
   };
@@ -586,7 +1335,11 @@ async function handleOptions(request: HttpRequest, context: InvocationContext):
  * GET /api/fhir-storage/users/by-email/{email}
  * Find existing Patient or Practitioner resource by email address
  */
-async function getUserByEmail(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+async function getUserByEmail(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
   try {
     const email = request.params.email;
     
@@ -594,24 +1347,27 @@ async function getUserByEmail(request: HttpRequest, context: InvocationContext):
       return createResponse(400, null, 'Missing required parameter: email');
     }
 
-    console.log('[FHIR_GET_USER_BY_EMAIL] Searching for user by email:', email);
+    if (!isSelfOrAdmin(auth, email)) {
+      return createResponse(403, null, 'Users can only look up their own email address');
+    }
 
     // Search for existing user by email
     const existingUserId = await findUserIdByEmail(email);
     
     if (!existingUserId) {
-      console.log('[FHIR_GET_USER_BY_EMAIL] No user found with email:', email);
+      logger.info('No user found by email', { requestId: context.invocationId });
       return createResponse(404, null, 'No user found with this email address');
     }
 
-    console.log('[FHIR_GET_USER_BY_EMAIL] Found user:', existingUserId, 'for email:', email);
-
     // Get the user's resources
     const resources = await fhirStorageService.listPatientResources(existingUserId);
     const userResource = resources.find(r => r.resourceType === 'Patient' || r.resourceType === 'Practitioner');
 
     if (!userResource) {
-      console.log('[FHIR_GET_USER_BY_EMAIL] User found but no Patient/Practitioner resource exists');
+      logger.info('User found by email has no Patient/Practitioner resource', {
+        userId: existingUserId,
+        requestId: context.invocationId,
+      });
       return createResponse(404, null, 'User found but no medical profile exists');
     }
 
@@ -647,121 +1403,99 @@ async function findUserIdByEmail(email: string): Promise<string | null> {
   if (!email) return null;
   
   try {
-    console.log('[FIND_USER_BY_EMAIL] Searching for email:', email);
-    
-    // Get all patients
-    const allPatients = await fhirStorageService.getAllPatients();
-    
-    for (const patientId of allPatients) {
-      try {
-        // Check Patient resources
-        const patientResources = await fhirStorageService.listPatientResources(patientId);
-        
-        for (const resource of patientResources) {
-          if (resource.resourceType === 'Patient' || resource.resourceType === 'Practitioner') {
-            
-            // Check if this resource has the target email
-            const resourceEmail = extractEmailFromResource(resource);
-            if (resourceEmail && resourceEmail.toLowerCase() === email.toLowerCase()) {
-              console.log('[FIND_USER_BY_EMAIL] Found user:', patientId, 'with email:', email);
-              return patientId;
-            }
-          }
-        }
-      } catch (error) {
-        // Continue checking other patients even if one fails
-        console.log('[FIND_USER_BY_EMAIL] Error checking patient:', patientId, error);
-      }
+    const { items: [profile] } = await fhirStorageService.queryIndex({ email, userProfiles: true });
+
+    if (profile) {
+      return profile.patientId;
     }
     
-    console.log('[FIND_USER_BY_EMAIL] No user found with email:', email);
     return null;
     
   } catch (error) {
-    console.error('[FIND_USER_BY_EMAIL] Error during user search:', error);
+    logger.warn('User lookup by email failed', { error: error as Error });
     return null;
   }
 }
 
 /**
  * GET /api/fhir-storage/users
- * Get all users with basic information and pagination (for Practitioners)
+ * List user profiles (Patient and Practitioner) from the index, a page at a time
+ *
+ * Query: limit (1-100), cursor (from the previous page's pagination.nextCursor) and
+ * search, an email address (exact match) or the start of a name.
+ * Non-admins only see the users whose records they may read, so their pages can
+ * come back shorter than the limit.
  */
-async function getUsers(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+async function getUsers(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
   try {
     const url = new URL(request.url);
-    const page = parseInt(url.searchParams.get('page') || '1');
-    const limit = parseInt(url.searchParams.get('limit') || '10');
-    const search = url.searchParams.get('search') || '';
+    const limitParam = url.searchParams.get('limit');
+    const requestedLimit = limitParam ? parseInt(limitParam, 10) : 10;
+    if (Number.isNaN(requestedLimit)) {
+      return createResponse(400, null, 'limit must be a number');
+    }
+    const limit = Math.min(Math.max(requestedLimit, 1), 100);
+    const cursor = url.searchParams.get('cursor') || undefined;
+    const search = (url.searchParams.get('search') || '').trim();
 
     logger.info('Getting users with pagination', {
-      page,
       limit,
+      hasCursor: !!cursor,
       search,
       requestId: context.invocationId,
     });
 
-    const allPatients = await fhirStorageService.getAllPatients();
-    let users = [];
-
-    // Get basic user information for each patient
-    for (const patientId of allPatients) {
-      try {
-        const resources = await fhirStorageService.listPatientResources(patientId);
-        const userResource = resources.find(r => r.resourceType === 'Patient' || r.resourceType === 'Practitioner');
-        
-        if (userResource) {
-          const userInfo = {
-            id: patientId,
-            resourceType: userResource.resourceType,
-            name: userResource.name?.[0]?.text || userResource.name?.[0]?.given?.join(' ') + ' ' + userResource.name?.[0]?.family || 'Unknown',
-            email: userResource.telecom?.find((t: any) => t.system === 'email')?.value || '',
-            lastUpdated: userResource.meta?.lastUpdated || new Date().toISOString(),
-            resourceCount: resources.length,
-          };
-
-          // Apply search filter if provided
-          if (!search || 
-              userInfo.name.toLowerCase().includes(search.toLowerCase()) ||
-              userInfo.email.toLowerCase().includes(search.toLowerCase())) {
-            users.push(userInfo);
-          }
-        }
-      } catch (error) {
-        console.log('[USERS_LIST] Error processing patient:', patientId, error);
-      }
-    }
-
-    // Sort by last updated (most recent first)
-    users.sort((a, b) => new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime());
+    const query = search.includes('@')
+      ? { userProfiles: true, email: search }
+      : { userProfiles: true, namePrefix: search || undefined };
+    const page = await fhirStorageService.searchResources(query, { limit, cursor });
+
+    // Practitioners only see the patients they may read; patients only themselves
+    const profileIds = page.items.map((resource) => resource.id);
+    const readableIds = new Set(
+      auth.principal.role === 'Admin'
+        ? profileIds
+        : await accessPolicyService.filterReadablePatients(auth.principal, profileIds)
+    );
 
-    // Apply pagination
-    const total = users.length;
-    const startIndex = (page - 1) * limit;
-    const endIndex = startIndex + limit;
-    const paginatedUsers = users.slice(startIndex, endIndex);
+    const users = await Promise.all(
+      page.items
+        .filter((resource) => readableIds.has(resource.id))
+        .map(async (userResource) => ({
+          id: userResource.id,
+          resourceType: userResource.resourceType,
+          name: userResource.name?.[0]?.text || userResource.name?.[0]?.given?.join(' ') + ' ' + userResource.name?.[0]?.family || 'Unknown',
+          email: extractEmailFromResource(userResource) || '',
+          lastUpdated: userResource.meta?.lastUpdated || new Date().toISOString(),
+          resourceCount: await fhirStorageService.countPatientResources(userResource.id),
+        }))
+    );
 
     logger.info('Users retrieved successfully', {
-      total,
-      page,
       limit,
-      returned: paginatedUsers.length,
+      returned: users.length,
+      hasNext: !!page.nextCursor,
       requestId: context.invocationId,
     });
 
     return createResponse(200, {
-      users: paginatedUsers,
+      users,
       pagination: {
-        page,
         limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-        hasNext: endIndex < total,
-        hasPrev: page > 1,
+        nextCursor: page.nextCursor || null,
+        hasNext: !!page.nextCursor,
       },
     }, 'Users retrieved successfully');
 
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return createResponse(400, error.details, error.message);
+    }
+
     logger.error('Failed to get users', {
       error: error as Error,
       requestId: context.invocationId,
@@ -775,7 +1509,11 @@ async function getUsers(request: HttpRequest, context: InvocationContext): Promi
  * GET /api/fhir-storage/users/{userId}/profile
  * Get detailed user profile with all resources (for user detail page)
  */
-async function getUserProfile(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+async function getUserProfile(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
   try {
     const userId = request.params.userId;
 
@@ -789,19 +1527,22 @@ async function getUserProfile(request: HttpRequest, context: InvocationContext):
     });
 
     // Get all resources for the user
-    const resources = await fhirStorageService.listPatientResources(userId);
+    const allResources = await fhirStorageService.listPatientResources(userId);
     
-    if (resources.length === 0) {
+    if (allResources.length === 0) {
       return createResponse(404, null, 'User not found');
     }
 
     // Find the main user resource (Patient or Practitioner)
-    const userResource = resources.find(r => r.resourceType === 'Patient' || r.resourceType === 'Practitioner');
+    const userResource = allResources.find(r => r.resourceType === 'Patient' || r.resourceType === 'Practitioner');
     
     if (!userResource) {
       return createResponse(404, null, 'User profile not found');
     }
 
+    // Practitioners with a consent grant see the profile but only the shared records
+    const resources = visibleResources(allResources, auth);
+
     // Group resources by type for easier consumption
     const resourcesByType: Record<string, any[]> = {};
     resources.forEach(resource => {
@@ -835,6 +1576,14 @@ async function getUserProfile(request: HttpRequest, context: InvocationContext):
       requestId: context.invocationId,
     });
 
+    await audit(request, context, auth, {
+      action: 'record.read',
+      description: `Read the profile and ${resources.length} records of user ${userId}`,
+      patientId: userId,
+      resource: `${userResource.resourceType}/${userResource.id}`,
+      details: { resourceCount: resources.length },
+    });
+
     return createResponse(200, {
       profile,
       resources,
@@ -858,7 +1607,11 @@ async function getUserProfile(request: HttpRequest, context: InvocationContext):
  * GET /api/fhir-storage/users/{userId}/role
  * Get user role from FHIR resources (fallback for auth when Azure B2C fails)
  */
-async function getUserRole(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+async function getUserRole(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
   try {
     const userId = request.params.userId;
 
@@ -866,34 +1619,24 @@ async function getUserRole(request: HttpRequest, context: InvocationContext): Pr
       return createResponse(400, null, 'Missing required parameter: userId');
     }
 
-    console.log('[FHIR_GET_USER_ROLE] Getting role for user:', userId);
+    // The same profile lookup that decides the role of the user's API requests
+    const profiles = [
+      await fhirStorageService.findUserProfile(userId, 'Practitioner'),
+      await fhirStorageService.findUserProfile(userId, 'Patient'),
+    ].filter((profile): profile is FHIRResource => profile !== null);
+    const userResource = profiles.find((profile) => profileRole(profile)) || profiles[0];
 
-    // Get all resources for the user
-    const resources = await fhirStorageService.listPatientResources(userId);
-    
-    if (resources.length === 0) {
-      console.log('[FHIR_GET_USER_ROLE] No resources found for user:', userId);
-      return createResponse(404, null, 'User not found');
-    }
-
-    // Find the main user resource (Patient or Practitioner)
-    const userResource = resources.find(r => r.resourceType === 'Patient' || r.resourceType === 'Practitioner');
-    
     if (!userResource) {
-      console.log('[FHIR_GET_USER_ROLE] No Patient/Practitioner resource found for user:', userId);
+      logger.info('No Patient/Practitioner resource found for user', { userId, requestId: context.invocationId });
       return createResponse(404, null, 'User profile not found');
     }
 
-    // Extract role from the resource
-    const role = extractRoleFromResource(userResource);
-    
+    const role = profileRole(userResource);
     if (!role) {
-      console.log('[FHIR_GET_USER_ROLE] No role found in FHIR resource for user:', userId);
+      logger.info('No role found on user resource', { userId, requestId: context.invocationId });
       return createResponse(404, null, 'User role not found');
     }
 
-    console.log('[FHIR_GET_USER_ROLE] Found role for user:', userId, 'role:', role);
-
     logger.info('User role retrieved from FHIR', {
       userId,
       role,
@@ -909,7 +1652,6 @@ async function getUserRole(request: HttpRequest, context: InvocationContext): Pr
     }, 'User role retrieved successfully');
 
   } catch (error) {
-    console.error('[FHIR_GET_USER_ROLE] Error getting user role:', error);
     logger.error('Failed to get user role', {
       error: error as Error,
       userId: request.params.userId,
@@ -925,7 +1667,11 @@ async function getUserRole(request: HttpRequest, context: InvocationContext): Pr
  * Add a new identifier to an existing FHIR resource for federated identity management
  * userIdentifier can be userId OR email address
  */
-async function addIdentifierToUser(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+async function addIdentifierToUser(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
   try {
     const userIdentifier = request.params.userId; // Can be userId or email
 
@@ -933,13 +1679,17 @@ async function addIdentifierToUser(request: HttpRequest, context: InvocationCont
       return createResponse(400, null, 'Missing required parameter: userId or email');
     }
 
+    // Linking a sign-in identity to an account is limited to that account's owner
+    if (!isSelfOrAdmin(auth, userIdentifier)) {
+      return createResponse(403, null, 'Users can only add identifiers to their own account');
+    }
+
     const body = await request.text();
     if (!body) {
       return createResponse(400, null, 'Request body is required');
     }
 
     const identifierData = JSON.parse(body);
-    console.log('[FHIR_ADD_IDENTIFIER] Adding identifier to user:', userIdentifier, 'data:', identifierData);
 
     // Validate identifier data
     if (!identifierData.system || !identifierData.value) {
@@ -952,24 +1702,21 @@ async function addIdentifierToUser(request: HttpRequest, context: InvocationCont
 
     // Check if userIdentifier is an email (contains @) or userId
     if (userIdentifier.includes('@')) {
-      console.log('[FHIR_ADD_IDENTIFIER] Searching by email:', userIdentifier);
-      
       // Find user by email first
       const emailUserId = await findUserIdByEmail(userIdentifier);
       if (!emailUserId) {
-        console.log('[FHIR_ADD_IDENTIFIER] No user found with email:', userIdentifier);
+        logger.info('No user found by email to add an identifier to', { requestId: context.invocationId });
         return createResponse(404, null, 'User not found with this email');
       }
       
       actualUserId = emailUserId;
-      console.log('[FHIR_ADD_IDENTIFIER] Found user ID by email:', actualUserId);
     }
 
     // Get all resources for the user
     resources = await fhirStorageService.listPatientResources(actualUserId);
     
     if (resources.length === 0) {
-      console.log('[FHIR_ADD_IDENTIFIER] No resources found for user:', actualUserId);
+      logger.info('No resources found for user', { userId: actualUserId, requestId: context.invocationId });
       return createResponse(404, null, 'User not found');
     }
 
@@ -977,9 +1724,13 @@ async function addIdentifierToUser(request: HttpRequest, context: InvocationCont
     userResource = resources.find(r => r.resourceType === 'Patient' || r.resourceType === 'Practitioner');
     
     if (!userResource) {
-      console.log('[FHIR_ADD_IDENTIFIER] No Patient/Practitioner resource found for user:', actualUserId);
+      logger.info('No Patient/Practitioner resource found for user', {
+        userId: actualUserId,
+        requestId: context.invocationId,
+      });
       return createResponse(404, null, 'User profile not found');
     }
+    const readVersionId = userResource.meta?.versionId || '1';
 
     // Initialize identifiers array if it doesn't exist
     if (!userResource.identifier) {
@@ -992,7 +1743,7 @@ async function addIdentifierToUser(request: HttpRequest, context: InvocationCont
     );
 
     if (existingIdentifier) {
-      console.log('[FHIR_ADD_IDENTIFIER] Identifier already exists for user:', actualUserId);
+      logger.info('Identifier already linked to user', { userId: actualUserId, requestId: context.invocationId });
       return createResponse(200, userResource, 'Identifier already exists');
     }
 
@@ -1016,11 +1767,14 @@ async function addIdentifierToUser(request: HttpRequest, context: InvocationCont
       lastUpdated: new Date().toISOString(),
     };
 
-    console.log('[FHIR_ADD_IDENTIFIER] Adding identifier:', newIdentifier);
+    // Store the updated resource, unless it changed since it was read above
+    const result = await fhirStorageService.storeResource(userResource, {
+      ifMatch: request.headers.get('if-match') || versionETag(readVersionId),
+    });
 
-    // Store the updated resource
-    const result = await fhirStorageService.storeResource(userResource);
-    console.log('[FHIR_ADD_IDENTIFIER] Updated resource stored:', result);
+    if (result.preconditionFailed) {
+      return preconditionFailedResponse(result.error, result.versionId);
+    }
 
     logger.info('Identifier added to user resource', {
       userId: actualUserId,
@@ -1032,6 +1786,15 @@ async function addIdentifierToUser(request: HttpRequest, context: InvocationCont
       requestId: context.invocationId,
     });
 
+    await audit(request, context, auth, {
+      type: 'user',
+      action: 'user.identity_linked',
+      description: `Linked a ${identifierData.provider || identifierData.system} sign-in to user ${actualUserId}`,
+      patientId: actualUserId,
+      resource: `${userResource.resourceType}/${userResource.id}`,
+      details: { system: identifierData.system, provider: identifierData.provider },
+    });
+
     return createResponse(200, {
       userId: actualUserId,
       inputIdentifier: userIdentifier,
@@ -1041,7 +1804,6 @@ async function addIdentifierToUser(request: HttpRequest, context: InvocationCont
     }, 'Identifier added successfully');
 
   } catch (error) {
-    console.error('[FHIR_ADD_IDENTIFIER] Error adding identifier:', error);
     logger.error('Failed to add identifier to user', {
       error: error as Error,
       userIdentifier: request.params.userId,
@@ -1052,6 +1814,41 @@ async function addIdentifierToUser(request: HttpRequest, context: InvocationCont
   }
 }
 
+/**
+ * POST /api/fhir-storage/admin/index/rebuild
+ * Index blobs stored before the index existed (or under an older index version)
+ */
+async function rebuildIndex(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  try {
+    logger.info('Rebuilding FHIR index', {
+      userId: auth.principal.userId,
+      requestId: context.invocationId,
+    });
+
+    const result = await fhirStorageService.rebuildIndex();
+
+    await audit(request, context, auth, {
+      type: 'system',
+      action: 'system.index_rebuilt',
+      description: `Rebuilt the FHIR index: ${result.indexed} of ${result.scanned} resources indexed`,
+      details: { ...result },
+    });
+
+    return createResponse(200, result, `Indexed ${result.indexed} of ${result.scanned} resources`);
+  } catch (error) {
+    logger.error('Failed to rebuild FHIR index', {
+      error: error as Error,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to rebuild index');
+  }
+}
+
 /**
  * Health check endpoint
  */
@@ -1082,13 +1879,38 @@ async function healthCheck(request: HttpRequest, context: InvocationContext): Pr
 
 // Register HTTP endpoints
 app.http('fhir-storage-resource', {
-  methods: ['GET', 'OPTIONS'],
+  methods: ['GET', 'PUT', 'OPTIONS'],
   route: 'fhir-storage/resource/{patientId}/{resourceType}/{resourceId}',
   handler: async (request: HttpRequest, context: InvocationContext) => {
     if (request.method === 'OPTIONS') {
       return handleOptions(request, context);
     }
-    return getResource(request, context);
+    if (request.method === 'PUT') {
+      return secured(request, context, { action: 'write', patientId: request.params.patientId }, updateResource);
+    }
+    return secured(request, context, { action: 'read', patientId: request.params.patientId }, getResource);
+  },
+});
+
+app.http('fhir-storage-resource-history', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'fhir-storage/resource/{patientId}/{resourceType}/{resourceId}/_history',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request, context);
+    }
+    return secured(request, context, { action: 'read', patientId: request.params.patientId }, getResourceHistory);
+  },
+});
+
+app.http('fhir-storage-resource-version', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'fhir-storage/resource/{patientId}/{resourceType}/{resourceId}/_history/{versionId}',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request, context);
+    }
+    return secured(request, context, { action: 'read', patientId: request.params.patientId }, getResourceVersion);
   },
 });
 
@@ -1100,9 +1922,9 @@ app.http('fhir-storage-patients', {
       return handleOptions(request, context);
     }
     if (request.method === 'POST') {
-      return createPatient(request, context);
+      return secured(request, context, null, createPatient);
     }
-    return getPatients(request, context);
+    return secured(request, context, null, getPatients);
   },
 });
 
@@ -1113,7 +1935,7 @@ app.http('fhir-storage-practitioners', {
     if (request.method === 'OPTIONS') {
       return handleOptions(request, context);
     }
-    return createPractitioner(request, context);
+    return secured(request, context, null, createPractitioner);
   },
 });
 
@@ -1124,7 +1946,29 @@ app.http('fhir-storage-patient-resources', {
     if (request.method === 'OPTIONS') {
       return handleOptions(request, context);
     }
-    return getPatientResources(request, context);
+    return secured(request, context, { action: 'read', patientId: request.params.patientId }, getPatientResources);
+  },
+});
+
+app.http('fhir-storage-patient-import', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'fhir-storage/patients/{patientId}/import',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request, context);
+    }
+    return secured(request, context, { action: 'write', patientId: request.params.patientId }, importPatientBundle);
+  },
+});
+
+app.http('fhir-storage-patient-export', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'fhir-storage/patients/{patientId}/export',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request, context);
+    }
+    return secured(request, context, { action: 'read', patientId: request.params.patientId }, exportPatientRecords);
   },
 });
 
@@ -1135,7 +1979,29 @@ app.http('fhir-storage-patient-resources-by-type', {
     if (request.method === 'OPTIONS') {
       return handleOptions(request, context);
     }
-    return getPatientResourcesByType(request, context);
+    return secured(request, context, { action: 'read', patientId: request.params.patientId }, getPatientResourcesByType);
+  },
+});
+
+app.http('fhir-storage-search', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'fhir-storage/{resourceType:alpha}',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request, context);
+    }
+    return secured(request, context, searchAccess(request), searchResources);
+  },
+});
+
+app.http('fhir-storage-system-search', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'fhir-storage',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request, context);
+    }
+    return secured(request, context, searchAccess(request), searchResources);
   },
 });
 
@@ -1146,7 +2012,7 @@ app.http('fhir-storage-user-by-email', {
     if (request.method === 'OPTIONS') {
       return handleOptions(request, context);
     }
-    return getUserByEmail(request, context);
+    return secured(request, context, null, getUserByEmail);
   },
 });
 
@@ -1157,7 +2023,7 @@ app.http('fhir-storage-users', {
     if (request.method === 'OPTIONS') {
       return handleOptions(request, context);
     }
-    return getUsers(request, context);
+    return secured(request, context, null, getUsers);
   },
 });
 
@@ -1168,7 +2034,7 @@ app.http('fhir-storage-user-profile', {
     if (request.method === 'OPTIONS') {
       return handleOptions(request, context);
     }
-    return getUserProfile(request, context);
+    return secured(request, context, { action: 'read', patientId: request.params.userId }, getUserProfile);
   },
 });
 
@@ -1179,7 +2045,7 @@ app.http('fhir-storage-user-role', {
     if (request.method === 'OPTIONS') {
       return handleOptions(request, context);
     }
-    return getUserRole(request, context);
+    return secured(request, context, { action: 'read', patientId: request.params.userId }, getUserRole);
   },
 });
 
@@ -1190,7 +2056,18 @@ app.http('fhir-storage-add-identifier', {
     if (request.method === 'OPTIONS') {
       return handleOptions(request, context);
     }
-    return addIdentifierToUser(request, context);
+    return secured(request, context, null, addIdentifierToUser);
+  },
+});
+
+app.http('fhir-storage-index-rebuild', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'fhir-storage/admin/index/rebuild',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request, context);
+    }
+    return secured(request, context, { action: 'manage' }, rebuildIndex);
   },
 });
 
@@ -1201,6 +2078,6 @@ app.http('fhir-storage-health', {
     if (request.method === 'OPTIONS') {
       return handleOptions(request, context);
     }
-    return healthCheck(request, context);
+    return withCors(request, await healthCheck(request, context));
   },
 });
\ No newline at end of file
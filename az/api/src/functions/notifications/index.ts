@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Notification API Functions
+ * @module functions/notifications
+ *
+ * - GET /api/notifications?unread=&limit= (the caller's in-app notifications)
+ * - POST /api/notifications/read (mark some or all of them read)
+ * - GET /api/notifications/deliveries?type=&channel=&status=&limit= (delivery log, admins only)
+ * - GET /api/notifications/channels (which channels are configured, admins only)
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import {
+  notificationService,
+  DeliveryStatus,
+  NotificationChannelName,
+  NotificationEventType,
+} from '../../services/notifications/index.js';
+import { Logger } from '../../utils/logger.js';
+import { secured, corsHeaders, AuthContext } from '../../utils/httpAuth.js';
+
+const logger = new Logger();
+
+/**
+ * Response helper for consistent API responses
+ */
+function createResponse(statusCode: number, data: any, message?: string): HttpResponseInit {
+  const success = statusCode >= 200 && statusCode < 300;
+
+  return {
+    status: statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      success,
+      ...(success ? { data } : { error: data || 'An error occurred' }),
+      message: message || (success ? 'Success' : 'Error'),
+      timestamp: new Date().toISOString(),
+    }),
+  };
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+async function handleOptions(request: HttpRequest): Promise<HttpResponseInit> {
+  return {
+    status: 200,
+    headers: {
+      ...corsHeaders(request, 'GET, POST, OPTIONS'),
+      'Access-Control-Max-Age': '86400',
+    },
+  };
+}
+
+function limitParam(request: HttpRequest, fallback: number): number {
+  const limit = parseInt(request.query.get('limit') || '', 10);
+  return Number.isNaN(limit) || limit < 1 ? fallback : Math.min(limit, 500);
+}
+
+/**
+ * GET /api/notifications
+ * The caller's in-app notifications, newest first
+ */
+async function listNotifications(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  const userId = auth.principal.userId;
+
+  try {
+    const inbox = notificationService.getInbox();
+    if (!inbox?.isEnabled()) {
+      return createResponse(200, { notifications: [], unreadCount: 0 }, 'In-app notifications are disabled');
+    }
+
+    const notifications = await inbox.list(userId, {
+      unreadOnly: request.query.get('unread') === 'true',
+      limit: limitParam(request, 50),
+    });
+    const unreadCount = await inbox.unreadCount(userId);
+
+    return createResponse(200, { notifications, unreadCount }, 'Notifications retrieved successfully');
+  } catch (error) {
+    logger.error('Failed to list notifications', {
+      error: error as Error,
+      userId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve notifications');
+  }
+}
+
+/**
+ * POST /api/notifications/read
+ * Body: { ids?: string[] }; without IDs every notification is marked read
+ */
+async function markNotificationsRead(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  const userId = auth.principal.userId;
+
+  try {
+    let body: { ids?: unknown } = {};
+    const text = await request.text();
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return createResponse(400, null, 'Request body must be valid JSON');
+      }
+    }
+    if (body.ids !== undefined && !(Array.isArray(body.ids) && body.ids.every((id) => typeof id === 'string'))) {
+      return createResponse(400, null, 'ids must be an array of notification IDs');
+    }
+
+    const marked = (await notificationService.getInbox()?.markRead(userId, body.ids as string[] | undefined)) || 0;
+
+    return createResponse(200, { marked }, 'Notifications marked as read');
+  } catch (error) {
+    logger.error('Failed to mark notifications read', {
+      error: error as Error,
+      userId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to update notifications');
+  }
+}
+
+/**
+ * GET /api/notifications/deliveries
+ * Delivery log, newest first
+ */
+async function listDeliveries(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const deliveries = await notificationService.listDeliveries({
+      type: (request.query.get('type') || undefined) as NotificationEventType | undefined,
+      channel: (request.query.get('channel') || undefined) as NotificationChannelName | undefined,
+      status: (request.query.get('status') || undefined) as DeliveryStatus | undefined,
+      limit: limitParam(request, 100),
+    });
+
+    return createResponse(200, { deliveries, totalCount: deliveries.length }, 'Deliveries retrieved successfully');
+  } catch (error) {
+    logger.error('Failed to list notification deliveries', {
+      error: error as Error,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve deliveries');
+  }
+}
+
+/**
+ * GET /api/notifications/channels
+ */
+async function getChannelStatus(): Promise<HttpResponseInit> {
+  return createResponse(200, { channels: notificationService.getStatus() }, 'Channel status retrieved successfully');
+}
+
+// Register HTTP functions
+app.http('notifications-inbox', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'notifications',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, null, listNotifications);
+  },
+});
+
+app.http('notifications-read', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'notifications/read',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, null, markNotificationsRead);
+  },
+});
+
+app.http('notifications-deliveries', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'notifications/deliveries',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, { action: 'manage' }, listDeliveries);
+  },
+});
+
+app.http('notifications-channels', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'notifications/channels',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, { action: 'manage' }, getChannelStatus);
+  },
+});
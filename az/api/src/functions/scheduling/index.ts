@@ -0,0 +1,582 @@
+/**
+ * @fileoverview Appointment scheduling API Functions
+ * @module functions/scheduling
+ *
+ * Availability and bookings on FHIR Schedule/Slot/Appointment resources:
+ * - GET /api/scheduling/practitioners (practitioners offering appointments)
+ * - POST /api/scheduling/practitioners/{practitionerId}/availability
+ * - GET /api/scheduling/practitioners/{practitionerId}/slots?start=&end=&status=
+ * - GET /api/scheduling/practitioners/{practitionerId}/appointments?start=&end=&status=
+ * - GET|POST /api/scheduling/patients/{patientId}/appointments
+ * - POST /api/scheduling/patients/{patientId}/appointments/{appointmentId}/status
+ * - POST /api/scheduling/patients/{patientId}/appointments/{appointmentId}/reschedule
+ * - POST /api/scheduling/patients/{patientId}/appointments/{appointmentId}/reminder
+ *
+ * Booking a slot someone else just took answers 409; an invalid status change 400.
+ * A timer reminds patients of appointments starting within APPOINTMENT_REMINDER_LEAD_HOURS.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext, Timer } from '@azure/functions';
+import {
+  schedulingService,
+  participantId,
+  AppointmentStatus,
+  AvailabilityRequest,
+  BookingRequest,
+  SlotStatus,
+} from '../../services/scheduling.js';
+import { accessPolicyService } from '../../services/accessPolicy.js';
+import { notificationService } from '../../services/notifications/index.js';
+import { settingsService } from '../../services/settings.js';
+import { fhirStorageService, FHIRResource } from '../../services/fhirStorage.js';
+import { profileRole } from '../../services/auth.js';
+import { Logger } from '../../utils/logger.js';
+import { notificationConfig } from '../../utils/config.js';
+import { ConflictError, ValidationError } from '../../utils/errors.js';
+import { secured, corsHeaders, AuthContext } from '../../utils/httpAuth.js';
+
+const logger = new Logger();
+
+/**
+ * Response helper for consistent API responses
+ */
+function createResponse(statusCode: number, data: any, message?: string): HttpResponseInit {
+  const success = statusCode >= 200 && statusCode < 300;
+
+  return {
+    status: statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      success,
+      ...(success ? { data } : { error: data || 'An error occurred' }),
+      message: message || (success ? 'Success' : 'Error'),
+      timestamp: new Date().toISOString(),
+    }),
+  };
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+async function handleOptions(request: HttpRequest): Promise<HttpResponseInit> {
+  return {
+    status: 200,
+    headers: {
+      ...corsHeaders(request, 'GET, POST, OPTIONS'),
+      'Access-Control-Max-Age': '86400',
+    },
+  };
+}
+
+/**
+ * Response for the errors scheduling rules raise, or null for unexpected ones
+ */
+function ruleErrorResponse(error: unknown): HttpResponseInit | null {
+  if (error instanceof ConflictError) {
+    return createResponse(409, error.details, error.message);
+  }
+  if (error instanceof ValidationError) {
+    return createResponse(400, error.details, error.message);
+  }
+  return null;
+}
+
+async function readBody<T>(request: HttpRequest): Promise<T | null> {
+  try {
+    return (await request.json()) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Date range and status filters from the query string
+ */
+function rangeQuery(request: HttpRequest): { start?: string; end?: string; status?: string } {
+  return {
+    start: request.query.get('start') || undefined,
+    end: request.query.get('end') || undefined,
+    status: request.query.get('status') || undefined,
+  };
+}
+
+/**
+ * Whether the caller may change an appointment: with write access to the patient,
+ * or as the practitioner it is booked with
+ */
+async function canChangeAppointment(
+  auth: AuthContext,
+  patientId: string,
+  appointment: FHIRResource,
+  requestId: string
+): Promise<boolean> {
+  if (auth.principal.role === 'Practitioner' && participantId(appointment, 'Practitioner') === auth.principal.userId) {
+    return true;
+  }
+  const decision = await accessPolicyService.decide(auth.principal, { action: 'write', patientId, requestId });
+  return decision.allowed;
+}
+
+/**
+ * GET /api/scheduling/practitioners
+ * Practitioners with a schedule, for choosing whom to book with
+ */
+async function listPractitioners(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const schedules = await schedulingService.listSchedules();
+    const practitioners = schedules.flatMap((schedule) =>
+      (schedule.actor || [])
+        .filter((actor: any) => actor.reference?.startsWith('Practitioner/'))
+        .map((actor: any) => ({
+          id: actor.reference.slice('Practitioner/'.length),
+          name: actor.display || actor.reference,
+          scheduleId: schedule.id,
+        }))
+    );
+
+    return createResponse(200, { practitioners, totalCount: practitioners.length }, 'Practitioners retrieved successfully');
+  } catch (error) {
+    logger.error('Failed to list practitioners with schedules', {
+      error: error as Error,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve practitioners');
+  }
+}
+
+/**
+ * POST /api/scheduling/practitioners/{practitionerId}/availability
+ * Publish free slots for a period: practitioners for themselves, or an admin for an
+ * approved practitioner
+ */
+async function publishAvailability(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  const practitionerId = request.params.practitionerId;
+
+  try {
+    if (!practitionerId) {
+      return createResponse(400, null, 'Missing required parameter: practitionerId');
+    }
+
+    if (auth.principal.role === 'Admin') {
+      const practitioner = await fhirStorageService.getResource(practitionerId, 'Practitioner', practitionerId);
+      if (!practitioner || profileRole(practitioner) !== 'Practitioner') {
+        return createResponse(403, null, `${practitionerId} is not an approved practitioner`);
+      }
+    } else if (auth.principal.role !== 'Practitioner') {
+      return createResponse(403, null, 'Only practitioners can publish availability');
+    }
+
+    const body = await readBody<AvailabilityRequest>(request);
+    if (!body) {
+      return createResponse(400, null, 'Request body must be valid JSON');
+    }
+
+    logger.info('Publishing availability', {
+      practitionerId,
+      start: body.start,
+      end: body.end,
+      slotMinutes: body.slotMinutes,
+      requestId: context.invocationId,
+    });
+
+    const result = await schedulingService.publishAvailability(practitionerId, body);
+
+    return createResponse(
+      201,
+      result,
+      `${result.created.length} slots published${result.skipped ? `, ${result.skipped} overlapping slots skipped` : ''}`
+    );
+  } catch (error) {
+    const response = ruleErrorResponse(error);
+    if (response) return response;
+
+    logger.error('Failed to publish availability', {
+      error: error as Error,
+      practitionerId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to publish availability');
+  }
+}
+
+/**
+ * GET /api/scheduling/practitioners/{practitionerId}/slots
+ * A practitioner's slots; availability is visible to every signed-in user
+ */
+async function listSlots(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  const practitionerId = request.params.practitionerId;
+
+  try {
+    if (!practitionerId) {
+      return createResponse(400, null, 'Missing required parameter: practitionerId');
+    }
+
+    const { start, end, status } = rangeQuery(request);
+    const slots = await schedulingService.listSlots(practitionerId, { start, end, status: status as SlotStatus });
+
+    return createResponse(200, { practitionerId, slots, totalCount: slots.length }, 'Slots retrieved successfully');
+  } catch (error) {
+    logger.error('Failed to list slots', {
+      error: error as Error,
+      practitionerId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve slots');
+  }
+}
+
+/**
+ * GET /api/scheduling/practitioners/{practitionerId}/appointments
+ * GET /api/scheduling/patients/{patientId}/appointments
+ */
+async function listAppointments(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  const { patientId, practitionerId } = request.params;
+
+  try {
+    const { start, end, status } = rangeQuery(request);
+    const appointments = await schedulingService.listAppointments({
+      patientId,
+      practitionerId,
+      start,
+      end,
+      status: status as AppointmentStatus,
+    });
+
+    return createResponse(200, { appointments, totalCount: appointments.length }, 'Appointments retrieved successfully');
+  } catch (error) {
+    const response = ruleErrorResponse(error);
+    if (response) return response;
+
+    logger.error('Failed to list appointments', {
+      error: error as Error,
+      patientId,
+      practitionerId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve appointments');
+  }
+}
+
+/**
+ * POST /api/scheduling/patients/{patientId}/appointments
+ * Book a free slot
+ */
+async function bookAppointment(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  const patientId = request.params.patientId;
+
+  try {
+    if (!patientId) {
+      return createResponse(400, null, 'Missing required parameter: patientId');
+    }
+
+    const body = await readBody<BookingRequest>(request);
+    if (!body) {
+      return createResponse(400, null, 'Request body must be valid JSON');
+    }
+
+    logger.info('Booking appointment', {
+      patientId,
+      practitionerId: body.practitionerId,
+      slotId: body.slotId,
+      requestId: context.invocationId,
+    });
+
+    const appointment = await schedulingService.bookAppointment(patientId, body);
+
+    return createResponse(201, appointment, 'Appointment booked successfully');
+  } catch (error) {
+    const response = ruleErrorResponse(error);
+    if (response) return response;
+
+    logger.error('Failed to book appointment', {
+      error: error as Error,
+      patientId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to book appointment');
+  }
+}
+
+/**
+ * POST /api/scheduling/patients/{patientId}/appointments/{appointmentId}/status
+ * Change the status (confirm, check in, cancel, ...); body: { status, comment? }
+ */
+async function updateAppointmentStatus(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  const { patientId, appointmentId } = request.params;
+
+  try {
+    if (!patientId || !appointmentId) {
+      return createResponse(400, null, 'Missing required parameters: patientId, appointmentId');
+    }
+
+    const body = await readBody<{ status?: AppointmentStatus; comment?: string }>(request);
+    if (!body?.status) {
+      return createResponse(400, null, 'status is required');
+    }
+
+    const appointment = await schedulingService.getAppointment(patientId, appointmentId);
+    if (!appointment) {
+      return createResponse(404, null, 'Appointment not found');
+    }
+    if (!(await canChangeAppointment(auth, patientId, appointment, context.invocationId))) {
+      return createResponse(403, null, 'You cannot change this appointment');
+    }
+
+    const updated = await schedulingService.updateStatus(patientId, appointmentId, body.status, {
+      comment: body.comment,
+      ifMatch: request.headers.get('if-match') || undefined,
+    });
+
+    logger.info('Appointment status updated', {
+      patientId,
+      appointmentId,
+      status: body.status,
+      userId: auth.principal.userId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(200, updated, 'Appointment updated successfully');
+  } catch (error) {
+    const response = ruleErrorResponse(error);
+    if (response) return response;
+
+    logger.error('Failed to update appointment status', {
+      error: error as Error,
+      patientId,
+      appointmentId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to update appointment');
+  }
+}
+
+/**
+ * POST /api/scheduling/patients/{patientId}/appointments/{appointmentId}/reschedule
+ * Move the appointment to another free slot of the same practitioner; body: { slotId, comment? }
+ */
+async function rescheduleAppointment(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  const { patientId, appointmentId } = request.params;
+
+  try {
+    if (!patientId || !appointmentId) {
+      return createResponse(400, null, 'Missing required parameters: patientId, appointmentId');
+    }
+
+    const body = await readBody<{ slotId?: string; comment?: string }>(request);
+    if (!body?.slotId) {
+      return createResponse(400, null, 'slotId is required');
+    }
+
+    const appointment = await schedulingService.getAppointment(patientId, appointmentId);
+    if (!appointment) {
+      return createResponse(404, null, 'Appointment not found');
+    }
+    if (!(await canChangeAppointment(auth, patientId, appointment, context.invocationId))) {
+      return createResponse(403, null, 'You cannot change this appointment');
+    }
+
+    const updated = await schedulingService.rescheduleAppointment(patientId, appointmentId, body.slotId, {
+      comment: body.comment,
+      ifMatch: request.headers.get('if-match') || undefined,
+    });
+
+    return createResponse(200, updated, 'Appointment rescheduled successfully');
+  } catch (error) {
+    const response = ruleErrorResponse(error);
+    if (response) return response;
+
+    logger.error('Failed to reschedule appointment', {
+      error: error as Error,
+      patientId,
+      appointmentId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to reschedule appointment');
+  }
+}
+
+/**
+ * POST /api/scheduling/patients/{patientId}/appointments/{appointmentId}/reminder
+ * Remind the patient now, whether or not the timer already did
+ */
+async function sendReminder(request: HttpRequest, context: InvocationContext, auth: AuthContext): Promise<HttpResponseInit> {
+  const { patientId, appointmentId } = request.params;
+
+  try {
+    if (!patientId || !appointmentId) {
+      return createResponse(400, null, 'Missing required parameters: patientId, appointmentId');
+    }
+
+    const appointment = await schedulingService.getAppointment(patientId, appointmentId);
+    if (!appointment) {
+      return createResponse(404, null, 'Appointment not found');
+    }
+    if (!(await canChangeAppointment(auth, patientId, appointment, context.invocationId))) {
+      return createResponse(403, null, 'You cannot send reminders for this appointment');
+    }
+    if (appointment.status !== 'booked') {
+      return createResponse(400, null, `An appointment that is ${appointment.status} needs no reminder`);
+    }
+
+    const result = await notificationService.notifyAppointmentReminder(appointment, true);
+    const deliveries = result?.deliveries || [];
+
+    return createResponse(
+      200,
+      { sent: deliveries.some((d) => d.status === 'sent'), deliveries },
+      'Reminder processed'
+    );
+  } catch (error) {
+    logger.error('Failed to send appointment reminder', {
+      error: error as Error,
+      patientId,
+      appointmentId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to send reminder');
+  }
+}
+
+/**
+ * Timer: remind patients of upcoming booked appointments
+ */
+async function sendDueReminders(timer: Timer, context: InvocationContext): Promise<void> {
+  try {
+    await settingsService.refresh();
+    const sent = await schedulingService.sendDueReminders(notificationConfig.reminderLeadHours);
+
+    if (sent > 0) {
+      logger.info('Appointment reminders sent', {
+        sent,
+        requestId: context.invocationId,
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to send appointment reminders', {
+      error: error as Error,
+      isPastDue: timer.isPastDue,
+      requestId: context.invocationId,
+    });
+  }
+}
+
+// Register HTTP functions
+app.http('scheduling-practitioners', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'scheduling/practitioners',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, null, listPractitioners);
+  },
+});
+
+app.http('scheduling-availability', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'scheduling/practitioners/{practitionerId}/availability',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    // A practitioner's own compartment, or an admin
+    return secured(request, context, { action: 'write', patientId: request.params.practitionerId }, publishAvailability);
+  },
+});
+
+app.http('scheduling-slots', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'scheduling/practitioners/{practitionerId}/slots',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, null, listSlots);
+  },
+});
+
+app.http('scheduling-practitioner-appointments', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'scheduling/practitioners/{practitionerId}/appointments',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, { action: 'read', patientId: request.params.practitionerId }, listAppointments);
+  },
+});
+
+app.http('scheduling-patient-appointments', {
+  methods: ['GET', 'POST', 'OPTIONS'],
+  route: 'scheduling/patients/{patientId}/appointments',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    if (request.method === 'POST') {
+      return secured(request, context, { action: 'write', patientId: request.params.patientId }, bookAppointment);
+    }
+    return secured(request, context, { action: 'read', patientId: request.params.patientId }, listAppointments);
+  },
+});
+
+app.http('scheduling-appointment-status', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'scheduling/patients/{patientId}/appointments/{appointmentId}/status',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, null, updateAppointmentStatus);
+  },
+});
+
+app.http('scheduling-appointment-reschedule', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'scheduling/patients/{patientId}/appointments/{appointmentId}/reschedule',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, null, rescheduleAppointment);
+  },
+});
+
+app.http('scheduling-appointment-reminder', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'scheduling/patients/{patientId}/appointments/{appointmentId}/reminder',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, null, sendReminder);
+  },
+});
+
+// Register timer function
+app.timer('appointment-reminders', {
+  schedule: process.env.APPOINTMENT_REMINDER_SCHEDULE || '0 */15 * * * *',
+  handler: sendDueReminders,
+});
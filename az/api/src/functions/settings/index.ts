@@ -0,0 +1,219 @@
+/**
+ * @fileoverview System settings API Functions
+ * @module functions/settings
+ *
+ * - GET /api/settings (every setting with its schema and effective value, admins only)
+ * - PUT /api/settings (save changed values, admins only)
+ * - GET /api/settings/history?key=&limit= (who changed what and when, admins only)
+ * - GET /api/settings/runtime (values the web app applies, any signed-in user)
+ *
+ * Invalid values answer 400 with the errors by key; a save based on an outdated
+ * revision answers 409. Saves are recorded in the audit trail.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { settingsService } from '../../services/settings.js';
+import { auditService } from '../../services/audit.js';
+import { Logger } from '../../utils/logger.js';
+import { ConflictError, ValidationError } from '../../utils/errors.js';
+import { secured, corsHeaders, auditContext, AuthContext } from '../../utils/httpAuth.js';
+
+const logger = new Logger();
+
+/**
+ * Response helper for consistent API responses
+ */
+function createResponse(statusCode: number, data: any, message?: string): HttpResponseInit {
+  const success = statusCode >= 200 && statusCode < 300;
+
+  return {
+    status: statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      success,
+      ...(success ? { data } : { error: data || 'An error occurred' }),
+      message: message || (success ? 'Success' : 'Error'),
+      timestamp: new Date().toISOString(),
+    }),
+  };
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+async function handleOptions(request: HttpRequest): Promise<HttpResponseInit> {
+  return {
+    status: 200,
+    headers: {
+      ...corsHeaders(request, 'GET, PUT, OPTIONS'),
+      'Access-Control-Max-Age': '86400',
+    },
+  };
+}
+
+/**
+ * GET /api/settings
+ */
+async function listSettings(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const snapshot = await settingsService.list();
+
+    return createResponse(200, snapshot, 'Settings retrieved successfully');
+  } catch (error) {
+    logger.error('Failed to list settings', {
+      error: error as Error,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve settings');
+  }
+}
+
+/**
+ * PUT /api/settings
+ * Body: { values: { [key]: value | null }, revision?: number, reason?: string }
+ * A null value removes the saved value, so the environment's applies again.
+ */
+async function saveSettings(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  let body: { values?: Record<string, unknown>; revision?: unknown; reason?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return createResponse(400, null, 'Request body must be valid JSON');
+  }
+
+  if (!body?.values) {
+    return createResponse(400, null, 'values is required');
+  }
+  if (body.revision !== undefined && !Number.isInteger(body.revision)) {
+    return createResponse(400, null, 'revision must be a number');
+  }
+
+  try {
+    const { userId, name, email } = auth.principal;
+    const revision = await settingsService.update(
+      body.values,
+      { userId, ...(name && { name }), ...(email && { email }) },
+      {
+        revision: body.revision as number | undefined,
+        reason: typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim().slice(0, 500) : undefined,
+      }
+    );
+    const snapshot = await settingsService.list();
+
+    if (revision) {
+      await auditService.record({
+        ...auditContext(request, context, auth),
+        type: 'system',
+        severity: 'warning',
+        action: 'settings.updated',
+        description: `Changed ${revision.changes.map((change) => change.key).join(', ')}${
+          revision.reason ? `: ${revision.reason}` : ''
+        }`,
+        details: { revision: revision.revision, changes: revision.changes },
+      });
+    }
+
+    return createResponse(
+      200,
+      { ...snapshot, changes: revision?.changes || [] },
+      revision ? 'Settings saved successfully' : 'No settings changed'
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return createResponse(400, error.details, error.message);
+    }
+    if (error instanceof ConflictError) {
+      return createResponse(409, error.details, error.message);
+    }
+
+    logger.error('Failed to save settings', {
+      error: error as Error,
+      userId: auth.principal.userId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to save settings');
+  }
+}
+
+/**
+ * GET /api/settings/history
+ */
+async function getSettingsHistory(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const limit = parseInt(request.query.get('limit') || '', 10);
+    const history = await settingsService.history({
+      key: request.query.get('key') || undefined,
+      limit: Number.isNaN(limit) || limit < 1 ? 50 : Math.min(limit, 500),
+    });
+
+    return createResponse(200, { history }, 'Settings history retrieved successfully');
+  } catch (error) {
+    logger.error('Failed to get settings history', {
+      error: error as Error,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve settings history');
+  }
+}
+
+/**
+ * GET /api/settings/runtime
+ */
+async function getRuntimeSettings(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    return createResponse(200, await settingsService.getRuntime(), 'Runtime settings retrieved successfully');
+  } catch (error) {
+    logger.error('Failed to get runtime settings', {
+      error: error as Error,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve runtime settings');
+  }
+}
+
+// Register HTTP functions
+app.http('settings', {
+  methods: ['GET', 'PUT', 'OPTIONS'],
+  route: 'settings',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    if (request.method === 'PUT') {
+      return secured(request, context, { action: 'manage' }, saveSettings);
+    }
+    return secured(request, context, { action: 'manage' }, listSettings);
+  },
+});
+
+app.http('settings-history', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'settings/history',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, { action: 'manage' }, getSettingsHistory);
+  },
+});
+
+app.http('settings-runtime', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'settings/runtime',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, null, getRuntimeSettings);
+  },
+});
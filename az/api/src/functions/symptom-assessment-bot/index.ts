@@ -4,13 +4,24 @@
  *
  * Azure Functions v4 HTTP trigger for processing symptom assessment messages
  * through the LeLink Triage Assistant with FHIR resource generation and blockchain logging.
+ * Session starts, red flags and completed assessments go to the audit trail.
+ * Callers must be signed in; the patient is always the signed-in user.
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ReadableStream } from 'stream/web';
 import { LekinkTriageAssistant } from '../../assistants/lekainkTriageAssistant.js';
-import { openaiService } from '../../services/openai.js';
-import { ValidationError, SafetyError, FHIRError } from '../../utils/errors.js';
-import { Logger } from '../../utils/logger.js';
+import { getLLMProvider, type LLMProvider } from '../../services/llm/index.js';
+import { settingsService } from '../../services/settings.js';
+import { triageSessionService } from '../../services/triageSession.js';
+import { auditService } from '../../services/audit.js';
+import type { FHIRResource } from '../../services/fhirStorage.js';
+import type { RedFlagMatch } from '../../services/redFlags.js';
+import type { AcuityAssessment } from '../../services/acuity.js';
+import { ValidationError, SafetyError, FHIRError, AuthorizationError } from '../../utils/errors.js';
+import { Logger, clinical } from '../../utils/logger.js';
+import { aiConfig, systemConfig } from '../../utils/config.js';
+import { clientIp, secured, AuthContext } from '../../utils/httpAuth.js';
 import {
   CONVERSATION_STAGES,
   MAX_MESSAGE_LENGTH,
@@ -27,9 +38,19 @@ interface UserContext {
 
 interface SymptomAssessmentRequest {
   message: string;
-  patientId: string;
   threadId?: string;
-  userContext?: UserContext;
+  /** Triage session to continue; omitted for a new session */
+  sessionId?: string;
+  /** Language to answer in (BCP-47); detected from the message when omitted */
+  language?: string;
+}
+
+/**
+ * A validated request, for the signed-in patient
+ */
+interface SymptomAssessment extends SymptomAssessmentRequest {
+  patientId: string;
+  userContext: UserContext;
 }
 
 interface SymptomAssessmentResponse {
@@ -38,19 +59,36 @@ interface SymptomAssessmentResponse {
   patientId: string;
   sessionId: string;
   completionStatus: string;
+  /** Language the reply is in */
+  language: string;
+  /** English translations of the message and the reply, when the language is another */
+  translation?: {
+    message?: string;
+    reply?: string;
+  };
   resources?: {
     RiskAssessment?: any;
     Observation?: any;
+    /** Every Observation of the turn */
+    Observations?: any[];
+  };
+  /** Acuity scored from the findings, when the turn produced an assessment */
+  acuity?: AcuityAssessment;
+  /** Present when red-flag screening fired; reply is then the emergency advice */
+  safety?: {
+    flag: string;
+    redFlags: RedFlagMatch[];
+    source?: 'patient' | 'assistant';
   };
   blockchain?: {
     success: boolean;
+    status: 'queued';
+    jobId: string;
     network: string;
     contractAddress: string;
     results: Array<{
       resourceId: string;
       dataHash: string;
-      transactionHash: string;
-      blockNumber: number;
     }>;
   };
 }
@@ -62,12 +100,348 @@ interface ErrorResponse {
   details?: string;
 }
 
+/**
+ * Validate a symptom assessment request body. The patient and user context come
+ * from the caller's token, never from the body, so a session can only be resumed
+ * (and resources stored) in the caller's own records.
+ */
+function validateAssessmentRequest(
+  body: unknown,
+  auth: AuthContext,
+  logger: Logger,
+  correlationId: string
+): SymptomAssessment {
+  const requestBody = body as SymptomAssessmentRequest;
+
+  if (!requestBody || typeof requestBody !== 'object') {
+    throw new ValidationError('Invalid request body');
+  }
+
+  // Extract values from request body
+  let { message } = requestBody;
+  const { threadId, sessionId, language } = requestBody;
+  const { principal } = auth;
+  const patientId = principal.userId;
+  const userContext: UserContext = { name: principal.name, email: principal.email, isAuthenticated: true };
+  // Mask the user's name and email in everything logged for this request
+  logger.addSensitiveValues(userContext.name, userContext.email);
+
+  logger.info('Extracted request parameters', {
+    hasMessage: !!message,
+    hasThreadId: !!threadId,
+    messageLength: message?.length || 0,
+    role: principal.role,
+    correlationId,
+  });
+
+  if (!message || typeof message !== 'string') {
+    throw new ValidationError('Message is required and must be a string');
+  }
+
+  message = message.trim();
+
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    throw new ValidationError(`Message exceeds maximum length of ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  if (threadId !== undefined && (typeof threadId !== 'string' || !threadId)) {
+    throw new ValidationError('Thread ID must be a non-empty string');
+  }
+
+  if (sessionId !== undefined && (typeof sessionId !== 'string' || !/^[a-zA-Z0-9-]{1,100}$/.test(sessionId))) {
+    throw new ValidationError('Session ID contains invalid characters');
+  }
+
+  const validLanguagePattern = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{1,8})*$/;
+  if (language !== undefined && (typeof language !== 'string' || !validLanguagePattern.test(language))) {
+    throw new ValidationError('Language must be a BCP-47 language tag');
+  }
+
+  return { message, patientId, threadId, sessionId, language, userContext };
+}
+
+/**
+ * Check that a thread the client sent to continue is the caller's own
+ * @throws AuthorizationError if it belongs to another user
+ */
+async function assertThreadOwner(threadId: string | undefined, patientId: string): Promise<void> {
+  if (threadId && !(await triageSessionService.ownsThread(threadId, patientId))) {
+    throw new AuthorizationError('This conversation belongs to another user');
+  }
+}
+
+/**
+ * Start a conversation thread that only the caller can continue
+ */
+async function createThread(llmProvider: LLMProvider, patientId: string): Promise<string> {
+  const threadId = await llmProvider.createConversation();
+  await triageSessionService.bindThread(threadId, patientId);
+  return threadId;
+}
+
+/**
+ * Shape the triage result into the API response
+ */
+function buildAssessmentResponse(
+  result: Awaited<ReturnType<LekinkTriageAssistant['processMessage']>>,
+  threadId: string,
+  patientId: string,
+  sessionId: string
+): SymptomAssessmentResponse {
+  const response: SymptomAssessmentResponse = {
+    reply: result.reply,
+    threadId,
+    patientId,
+    sessionId,
+    completionStatus: result.completionStatus.status,
+    language: result.language,
+    ...(result.translation && { translation: result.translation }),
+  };
+
+  // Add resources if they were generated
+  if (result.resources && (result.resources.RiskAssessment || result.resources.Observation)) {
+    response.resources = {};
+
+    if (result.resources.RiskAssessment) {
+      response.resources.RiskAssessment = result.resources.RiskAssessment;
+    }
+
+    if (result.resources.Observation) {
+      response.resources.Observation = result.resources.Observation;
+      response.resources.Observations = result.resources.Observations;
+    }
+  }
+
+  if (result.acuity) {
+    response.acuity = result.acuity;
+  }
+
+  if (result.safety.flag !== SAFETY_FLAGS.NONE) {
+    response.safety = result.safety;
+  }
+
+  // Add blockchain details if available
+  if (result.blockchain) {
+    response.blockchain = result.blockchain;
+  }
+
+  return response;
+}
+
+/**
+ * Save the turn to the patient's triage session history and the audit trail.
+ * A failure is logged but does not fail the reply.
+ */
+async function recordSessionTurn(
+  request: HttpRequest,
+  result: Awaited<ReturnType<LekinkTriageAssistant['processMessage']>>,
+  message: string,
+  patientId: string,
+  sessionId: string,
+  userContext: UserContext | undefined,
+  logger: Logger,
+  correlationId: string
+): Promise<void> {
+  try {
+    const session = await triageSessionService.recordTurn({
+      sessionId,
+      patientId,
+      threadId: result.threadId,
+      message,
+      reply: result.reply,
+      toolCalls: result.toolCalls,
+      completionStatus: result.completionStatus,
+      resources: [result.resources.RiskAssessment, ...result.resources.Observations].filter(
+        (resource): resource is FHIRResource => !!resource
+      ),
+      redFlags: result.safety.redFlags,
+      acuity: result.acuity,
+      language: result.language,
+      translation: result.translation,
+    });
+
+    const event = {
+      type: 'data' as const,
+      actor: { userId: patientId, name: userContext?.name, email: userContext?.email },
+      ipAddress: clientIp(request),
+      correlationId,
+      patientId,
+      resource: `Encounter/${sessionId}`,
+    };
+    if (session.messages.filter((m) => m.role === 'user').length === 1) {
+      await auditService.record({
+        ...event,
+        action: 'triage.session_started',
+        description: `Triage session ${sessionId} started`,
+        details: { threadId: result.threadId, authenticated: !!userContext?.isAuthenticated },
+      });
+    }
+    if (result.safety.redFlags.length > 0) {
+      await auditService.record({
+        ...event,
+        severity: 'warning',
+        action: 'triage.red_flag',
+        description: `Red flags in triage session ${sessionId}: ${result.safety.redFlags
+          .map((flag) => flag.condition)
+          .join(', ')}`,
+        details: { source: result.safety.source, rules: result.safety.redFlags.map((flag) => flag.ruleId) },
+      });
+    }
+    if (result.acuity?.disagreement) {
+      await auditService.record({
+        ...event,
+        severity: 'warning',
+        action: 'triage.acuity_disagreement',
+        description: `AI risk level ${result.acuity.modelRiskLevel} disagrees with ${result.acuity.explanation}`,
+        details: {
+          scale: result.acuity.scale,
+          level: result.acuity.level,
+          acuityRiskLevel: result.acuity.riskLevel,
+          modelRiskLevel: result.acuity.modelRiskLevel,
+        },
+      });
+    }
+    if (result.completionStatus.isComplete) {
+      await auditService.record({
+        ...event,
+        action: 'triage.completed',
+        description: `Triage session ${sessionId} completed${
+          session.risk?.level ? ` with ${session.risk.level} risk` : ''
+        }`,
+        details: { risk: session.risk, resources: session.resources },
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to record triage session', {
+      error: error as Error,
+      sessionId,
+      patientId,
+      correlationId,
+    });
+  }
+}
+
+/**
+ * The patient's earlier messages in the session, for red-flag rules that span
+ * messages. A failure only narrows screening to the current message.
+ */
+async function loadPreviousMessages(
+  patientId: string,
+  sessionId: string,
+  logger: Logger,
+  correlationId: string
+): Promise<string[]> {
+  try {
+    return await triageSessionService.getPatientMessages(patientId, sessionId);
+  } catch (error) {
+    logger.warn('Could not load previous session messages', {
+      error: error as Error,
+      sessionId,
+      patientId,
+      correlationId,
+    });
+    return [];
+  }
+}
+
+/**
+ * Map an error to an HTTP status and error body
+ */
+function mapAssessmentError(error: unknown, correlationId: string): { status: number; body: ErrorResponse } {
+  const err = error as Error;
+  let status = 500;
+  let body: ErrorResponse = {
+    error: 'Internal server error',
+    code: 'INTERNAL_ERROR',
+    correlationId,
+    details: err.message,
+  };
+
+  if (error instanceof ValidationError) {
+    status = 400;
+    body = {
+      error: err.message,
+      code: 'VALIDATION_ERROR',
+      correlationId,
+    };
+  } else if (error instanceof AuthorizationError) {
+    status = 403;
+    body = {
+      error: err.message,
+      code: 'AUTHORIZATION_ERROR',
+      correlationId,
+    };
+  } else if (error instanceof SafetyError) {
+    status = 400;
+    body = {
+      error: err.message,
+      code: 'SAFETY_ERROR',
+      correlationId,
+    };
+  } else if (error instanceof FHIRError) {
+    status = 400;
+    body = {
+      error: err.message,
+      code: 'FHIR_ERROR',
+      correlationId,
+    };
+  } else if (err.message?.includes('timeout') || (error as any).code === 'ETIMEDOUT') {
+    status = 504;
+    body = {
+      error: 'Request timeout',
+      code: 'TIMEOUT_ERROR',
+      correlationId,
+      details: 'The AI assistant took too long to respond',
+    };
+  }
+
+  return { status, body };
+}
+
+/**
+ * 503 response while AI triage is turned off or the system is in maintenance, otherwise null
+ */
+async function unavailableResponse(correlationId: string): Promise<HttpResponseInit | null> {
+  await settingsService.refresh();
+  if (aiConfig.triageEnabled && !systemConfig.maintenanceMode) {
+    return null;
+  }
+
+  const body: ErrorResponse = {
+    error: systemConfig.maintenanceMode ? 'The system is down for maintenance' : 'AI triage is turned off',
+    code: 'SERVICE_UNAVAILABLE',
+    correlationId,
+  };
+  return {
+    status: 503,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Correlation-Id': correlationId,
+    },
+    jsonBody: body,
+  };
+}
+
 /**
  * Symptom Assessment Bot HTTP trigger function
  */
 export async function symptomAssessmentBot(
   request: HttpRequest,
   context: InvocationContext
+): Promise<HttpResponseInit> {
+  const unavailable = await unavailableResponse(context.invocationId);
+  if (unavailable) {
+    return unavailable;
+  }
+
+  // Every signed-in user may triage themselves; the patient is taken from the token
+  return secured(request, context, null, assessSymptoms);
+}
+
+async function assessSymptoms(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
 ): Promise<HttpResponseInit> {
   const correlationId = context.invocationId;
   const logger = new Logger({ correlationId });
@@ -76,6 +450,8 @@ export async function symptomAssessmentBot(
   let message: string | undefined;
   let patientId: string | undefined;
   let threadId: string | undefined;
+  let sessionId: string | undefined;
+  let language: string | undefined;
   let userContext: UserContext | undefined;
 
   logger.info('Received symptom assessment request', {
@@ -87,67 +463,39 @@ export async function symptomAssessmentBot(
 
   try {
     // Parse and validate request body
-    const requestBody = (await request.json()) as SymptomAssessmentRequest;
-
-    if (!requestBody || typeof requestBody !== 'object') {
-      throw new ValidationError('Invalid request body');
-    }
+    ({ message, patientId, threadId, sessionId, language, userContext } = validateAssessmentRequest(
+      await request.json(),
+      auth,
+      logger,
+      correlationId
+    ));
 
-    // Extract values from request body
-    ({ message, patientId, threadId, userContext } = requestBody);
-
-    logger.info('Extracted request parameters', {
-      hasMessage: !!message,
-      hasPatientId: !!patientId,
+    logger.info('Request validated', {
+      patientId,
       hasThreadId: !!threadId,
-      messageLength: message?.length || 0,
-      hasUserContext: !!userContext,
-      isAuthenticated: userContext?.isAuthenticated || false,
+      hasSessionId: !!sessionId,
+      messagePreview: clinical(message.substring(0, 50) + '...'),
       correlationId,
     });
 
-    if (!message || typeof message !== 'string') {
-      throw new ValidationError('Message is required and must be a string');
-    }
-
-    message = message.trim();
-
-    if (message.length > MAX_MESSAGE_LENGTH) {
-      throw new ValidationError(`Message exceeds maximum length of ${MAX_MESSAGE_LENGTH} characters`);
-    }
-
-    if (!patientId || typeof patientId !== 'string') {
-      throw new ValidationError('Patient ID is required and must be a string');
-    }
-
-    // Enhanced patient ID validation
-    if (patientId.length < 3 || patientId.length > 100) {
-      throw new ValidationError('Patient ID must be between 3 and 100 characters');
-    }
-
-    // Validate patient ID format (allow UUIDs, alphanumeric, and common patterns)
-    const validPatientIdPattern = /^[a-zA-Z0-9\-_@.]+$/;
-    if (!validPatientIdPattern.test(patientId)) {
-      throw new ValidationError('Patient ID contains invalid characters');
-    }
+    await assertThreadOwner(threadId, patientId);
 
-    logger.info('Request validated', {
+    const currentSessionId = await triageSessionService.resolveSessionId(
       patientId,
-      hasThreadId: !!threadId,
-      messagePreview: message.substring(0, 50) + '...',
-      correlationId,
-    });
+      threadId,
+      sessionId || request.headers.get('x-session-id') || undefined
+    );
 
     // Initialize LeLink Triage Assistant
     logger.info('Initializing triage assistant', { correlationId });
-    const triageAssistant = new LekinkTriageAssistant(openaiService, logger);
+    const llmProvider = getLLMProvider();
+    const triageAssistant = new LekinkTriageAssistant(llmProvider, logger);
 
     // Get or create thread
     let currentThreadId = threadId;
     if (!currentThreadId) {
       logger.info('Creating new thread', { correlationId });
-      const thread = await openaiService.createThread();
-      currentThreadId = thread.id;
+      currentThreadId = await createThread(llmProvider, patientId);
       logger.info('Created new thread', { threadId: currentThreadId, correlationId });
     } else {
       logger.info('Using existing thread', { threadId: currentThreadId, correlationId });
@@ -160,15 +508,28 @@ export async function symptomAssessmentBot(
       correlationId,
     });
 
-    const result = await triageAssistant.processMessage(message, currentThreadId, patientId, userContext);
-    
-    // Update thread ID in case it was changed due to active run conflict
+    const previousMessages = await loadPreviousMessages(patientId, currentSessionId, logger, correlationId);
+    const result = await triageAssistant.processMessage(message, currentThreadId, patientId, userContext, undefined, {
+      previousMessages,
+      encounterId: currentSessionId,
+      language,
+    });
+
+    // Update thread ID in case it was changed due to active run conflict; the new thread is the caller's too
+    if (result.threadId !== currentThreadId) {
+      await triageSessionService.bindThread(result.threadId, patientId);
+    }
     currentThreadId = result.threadId;
 
     // Log triage interaction details
-    context.log('\n🏥 === TRIAGE INTERACTION ===');
-    context.log(`📥 Patient Message: "${message}"`);
-    context.log(`🤖 Bot Reply: "${result.reply.substring(0, 150)}${result.reply.length > 150 ? '...' : ''}"`);
+    logger.debug('Triage interaction', {
+      message: clinical(message),
+      reply: clinical(`${result.reply.substring(0, 150)}${result.reply.length > 150 ? '...' : ''}`),
+      correlationId,
+    });
+    if (result.safety.flag !== SAFETY_FLAGS.NONE) {
+      context.log(`🚨 Red flags (${result.safety.source}): ${result.safety.redFlags.map((f) => f.ruleId).join(', ')}`);
+    }
 
     logger.info('Triage assistant response received', {
       hasReply: !!result.reply,
@@ -184,14 +545,13 @@ export async function symptomAssessmentBot(
       context.log('\n🔗 === BLOCKCHAIN LOGGING ===');
       context.log(`📍 Network: ${result.blockchain.network}`);
       context.log(`📄 Contract: ${result.blockchain.contractAddress}`);
-      result.blockchain.results.forEach((tx, index) => {
-        context.log(`\n   Transaction ${index + 1}:`);
-        context.log(`   - Resource: ${tx.resourceId}`);
-        context.log(`   - Hash: ${tx.dataHash.substring(0, 16)}...`);
-        context.log(`   - TX Hash: ${tx.transactionHash}`);
-        context.log(`   - Block: ${tx.blockNumber}`);
+      context.log(`🧾 Anchoring job: ${result.blockchain.jobId}`);
+      result.blockchain.results.forEach((record, index) => {
+        context.log(`\n   Record ${index + 1}:`);
+        context.log(`   - Resource: ${record.resourceId}`);
+        context.log(`   - Hash: ${record.dataHash.substring(0, 16)}...`);
       });
-      context.log('✅ Resources logged to blockchain successfully!\n');
+      context.log('✅ Resources queued for blockchain anchoring!\n');
     }
 
     // Log FHIR storage details if available
@@ -211,32 +571,10 @@ export async function symptomAssessmentBot(
       context.log('✅ FHIR resources stored successfully!\n');
     }
 
-    // Prepare the response
-    const response: SymptomAssessmentResponse = {
-      reply: result.reply,
-      threadId: currentThreadId,
-      patientId,
-      sessionId: request.headers.get('x-session-id') || correlationId,
-      completionStatus: result.completionStatus.status,
-    };
-
-    // Add resources if they were generated
-    if (result.resources && (result.resources.RiskAssessment || result.resources.Observation)) {
-      response.resources = {};
+    await recordSessionTurn(request, result, message, patientId, currentSessionId, userContext, logger, correlationId);
 
-      if (result.resources.RiskAssessment) {
-        response.resources.RiskAssessment = result.resources.RiskAssessment;
-      }
-
-      if (result.resources.Observation) {
-        response.resources.Observation = result.resources.Observation;
-      }
-    }
-
-    // Add blockchain details if available
-    if (result.blockchain) {
-      response.blockchain = result.blockchain;
-    }
+    // Prepare the response
+    const response = buildAssessmentResponse(result, currentThreadId, patientId, currentSessionId);
 
     logger.info('Sending response', {
       hasResources: !!response.resources,
@@ -266,45 +604,69 @@ export async function symptomAssessmentBot(
       openAIError: (error as any).response?.data || (error as any).data || null,
     });
 
-    let status = 500;
-    let body: ErrorResponse = {
-      error: 'Internal server error',
-      code: 'INTERNAL_ERROR',
-      correlationId,
-      details: err.message,
+    const { status, body } = mapAssessmentError(error, correlationId);
+
+    return {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Correlation-Id': correlationId,
+      },
+      jsonBody: body,
     };
+  }
+}
 
-    if (error instanceof ValidationError) {
-      status = 400;
-      body = {
-        error: err.message,
-        code: 'VALIDATION_ERROR',
-        correlationId,
-      };
-    } else if (error instanceof SafetyError) {
-      status = 400;
-      body = {
-        error: err.message,
-        code: 'SAFETY_ERROR',
-        correlationId,
-      };
-    } else if (error instanceof FHIRError) {
-      status = 400;
-      body = {
-        error: err.message,
-        code: 'FHIR_ERROR',
-        correlationId,
-      };
-    } else if (err.message?.includes('timeout') || (error as any).code === 'ETIMEDOUT') {
-      status = 504;
-      body = {
-        error: 'Request timeout',
-        code: 'TIMEOUT_ERROR',
-        correlationId,
-        details: 'The AI assistant took too long to respond',
-      };
-    }
+/**
+ * Format one Server-Sent Event
+ */
+function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Streaming variant of the symptom assessment endpoint (Server-Sent Events)
+ *
+ * Events, in order:
+ * - thread: { threadId, sessionId }
+ * - red_flag: { flag, redFlags, source } - red-flag screening fired; always before the
+ *   reply text that raised it
+ * - token: { delta } - assistant reply text as it is generated and screened; from a
+ *   red flag in the reply on, the rest follows the red_flag event (replies not in
+ *   English are sent whole, once their translation is screened)
+ * - tool_call: { name }
+ * - resource: { resourceType, resource } - RiskAssessment/Observation created
+ * - storage: FHIR storage results
+ * - anchoring: queued blockchain anchoring job of the stored resources
+ * - done: the same body the non-streaming endpoint returns
+ * - error: { error, code, correlationId, details? }
+ */
+export async function symptomAssessmentBotStream(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  const unavailable = await unavailableResponse(context.invocationId);
+  if (unavailable) {
+    return unavailable;
+  }
 
+  return secured(request, context, null, streamAssessment);
+}
+
+async function streamAssessment(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  const correlationId = context.invocationId;
+  const logger = new Logger({ correlationId });
+
+  let assessment: SymptomAssessment;
+  try {
+    assessment = validateAssessmentRequest(await request.json(), auth, logger, correlationId);
+    await assertThreadOwner(assessment.threadId, assessment.patientId);
+  } catch (error) {
+    const { status, body } = mapAssessmentError(error, correlationId);
     return {
       status,
       headers: {
@@ -314,6 +676,103 @@ export async function symptomAssessmentBot(
       jsonBody: body,
     };
   }
+
+  const { message, patientId, threadId, sessionId, language, userContext } = assessment;
+  const encoder = new TextEncoder();
+  // The turn still completes (and resources are stored) if the client disconnects
+  let disconnected = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!disconnected) {
+          controller.enqueue(encoder.encode(formatSSE(event, data)));
+        }
+      };
+
+      try {
+        const llmProvider = getLLMProvider();
+        const triageAssistant = new LekinkTriageAssistant(llmProvider, logger);
+
+        let currentThreadId = threadId;
+        if (!currentThreadId) {
+          currentThreadId = await createThread(llmProvider, patientId);
+        }
+        const currentSessionId = await triageSessionService.resolveSessionId(
+          patientId,
+          threadId,
+          sessionId || request.headers.get('x-session-id') || undefined
+        );
+        send('thread', { threadId: currentThreadId, sessionId: currentSessionId });
+
+        logger.info('Streaming message with triage assistant', {
+          patientId,
+          threadId: currentThreadId,
+          correlationId,
+        });
+
+        const previousMessages = await loadPreviousMessages(patientId, currentSessionId, logger, correlationId);
+        const result = await triageAssistant.processMessage(
+          message,
+          currentThreadId,
+          patientId,
+          userContext,
+          {
+            onToken: (delta) => send('token', { delta }),
+            onToolCall: (name) => send('tool_call', { name }),
+            onResource: (resourceType, resource) => send('resource', { resourceType, resource }),
+            onAnchoring: (blockchain) => send('anchoring', blockchain),
+            onStored: (fhirStorage) => send('storage', fhirStorage),
+            onRedFlag: (safety) => send('red_flag', safety),
+          },
+          { previousMessages, encounterId: currentSessionId, language }
+        );
+        if (result.threadId !== currentThreadId) {
+          await triageSessionService.bindThread(result.threadId, patientId);
+        }
+
+        await recordSessionTurn(
+          request,
+          result,
+          message,
+          patientId,
+          currentSessionId,
+          userContext,
+          logger,
+          correlationId
+        );
+
+        send('done', buildAssessmentResponse(result, result.threadId, patientId, currentSessionId));
+      } catch (error) {
+        logger.error('Error in streaming symptom assessment', {
+          error: error as Error,
+          correlationId,
+          threadId: threadId || 'undefined',
+          patientId,
+        });
+
+        send('error', mapAssessmentError(error, correlationId).body);
+      } finally {
+        if (!disconnected) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      disconnected = true;
+    },
+  });
+
+  return {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Correlation-Id': correlationId,
+    },
+    body: stream,
+  };
 }
 
 // Register the HTTP function using Azure Functions v4 programming model
@@ -323,3 +782,10 @@ app.http('symptomAssessmentBot', {
   route: 'symptom-assessment',
   handler: symptomAssessmentBot,
 });
+
+app.http('symptomAssessmentBotStream', {
+  methods: ['POST'],
+  authLevel: 'anonymous',
+  route: 'symptom-assessment/stream',
+  handler: symptomAssessmentBotStream,
+});
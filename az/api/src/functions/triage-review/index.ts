@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Triage review Functions
+ * @module functions/triage-review
+ *
+ * - GET /api/triage/review?limit= (preliminary AI assessments of the caller's
+ *   patients, highest risk and oldest first; practitioners and admins)
+ * - POST /api/triage/review/{patientId}/{assessmentId} (accept, amend or reject
+ *   one; practitioners only)
+ *
+ * A decision on an assessment that was already reviewed, or that changed since
+ * the ETag sent with it, answers 409. Decisions are recorded in the audit trail.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { triageReviewService, ReviewRequest } from '../../services/triageReview.js';
+import { auditService } from '../../services/audit.js';
+import { Logger } from '../../utils/logger.js';
+import { ConflictError, ValidationError } from '../../utils/errors.js';
+import { secured, corsHeaders, auditContext, AuthContext } from '../../utils/httpAuth.js';
+
+const logger = new Logger();
+
+/**
+ * Response helper for consistent API responses
+ */
+function createResponse(statusCode: number, data: any, message?: string): HttpResponseInit {
+  const success = statusCode >= 200 && statusCode < 300;
+
+  return {
+    status: statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      success,
+      ...(success ? { data } : { error: data || 'An error occurred' }),
+      message: message || (success ? 'Success' : 'Error'),
+      timestamp: new Date().toISOString(),
+    }),
+  };
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+async function handleOptions(request: HttpRequest): Promise<HttpResponseInit> {
+  return {
+    status: 200,
+    headers: {
+      ...corsHeaders(request, 'GET, POST, OPTIONS'),
+      'Access-Control-Max-Age': '86400',
+    },
+  };
+}
+
+/**
+ * GET /api/triage/review
+ * Query: limit (optional, default 50)
+ */
+async function listPending(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  if (auth.principal.role !== 'Practitioner' && auth.principal.role !== 'Admin') {
+    return createResponse(403, null, 'Only practitioners can review triage assessments');
+  }
+
+  try {
+    const limitParam = request.query.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : 50;
+    if (Number.isNaN(limit) || limit < 1) {
+      return createResponse(400, null, 'limit must be a positive integer');
+    }
+
+    const queue = await triageReviewService.listPending(auth.principal, Math.min(limit, 200));
+
+    return createResponse(200, queue, `${queue.total} triage assessments awaiting review`);
+  } catch (error) {
+    logger.error('Failed to list triage assessments awaiting review', {
+      error: error as Error,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to load the review queue');
+  }
+}
+
+/**
+ * POST /api/triage/review/{patientId}/{assessmentId}
+ * Body: { decision: 'accept' | 'amend' | 'reject', note?, amendment?: { riskLevel?, condition?, mitigation? } }
+ * Header: If-Match (optional) with the ETag of the version that was reviewed
+ */
+async function reviewAssessment(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  const { patientId, assessmentId } = request.params;
+
+  if (auth.principal.role !== 'Practitioner') {
+    return createResponse(403, null, 'Only practitioners can review triage assessments');
+  }
+
+  let body: ReviewRequest;
+  try {
+    body = (await request.json()) as ReviewRequest;
+  } catch {
+    return createResponse(400, null, 'Request body must be valid JSON');
+  }
+
+  try {
+    if (!patientId || !assessmentId) {
+      return createResponse(400, null, 'Missing required parameters: patientId and assessmentId');
+    }
+
+    const result = await triageReviewService.review(patientId, assessmentId, auth.principal, {
+      decision: body?.decision,
+      note: body?.note,
+      amendment: body?.amendment,
+      ifMatch: request.headers.get('if-match') || undefined,
+    });
+    if (!result) {
+      return createResponse(404, null, 'Risk assessment not found');
+    }
+
+    await auditService.record({
+      ...auditContext(request, context, auth),
+      type: 'data',
+      action: 'triage.reviewed',
+      description: `Reviewed AI triage assessment: ${body.decision}`,
+      patientId,
+      resource: `RiskAssessment/${assessmentId}`,
+      details: { decision: body.decision, status: result.assessment.status, provenanceId: result.provenance.id },
+    });
+
+    return createResponse(200, result, `Assessment ${result.assessment.status}`);
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return createResponse(409, error.details, error.message);
+    }
+    if (error instanceof ValidationError) {
+      return createResponse(400, error.details, error.message);
+    }
+
+    logger.error('Failed to review triage assessment', {
+      error: error as Error,
+      patientId,
+      assessmentId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to review the assessment');
+  }
+}
+
+// Register HTTP functions
+app.http('triage-review-queue', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'triage/review',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, null, listPending);
+  },
+});
+
+app.http('triage-review', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'triage/review/{patientId}/{assessmentId}',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, { action: 'write', patientId: request.params.patientId }, reviewAssessment);
+  },
+});
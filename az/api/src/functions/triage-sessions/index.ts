@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Triage session history Functions
+ * @module functions/triage-sessions
+ *
+ * - GET /api/triage/sessions/{patientId}: a patient's sessions, most recent first
+ * - GET /api/triage/sessions/{patientId}/{sessionId}: one session with its transcript,
+ *   to reopen it; continue by posting its threadId and sessionId to /api/symptom-assessment
+ *
+ * Callers reading through a consent grant only see the sessions whose Encounter was shared.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { triageSessionService } from '../../services/triageSession.js';
+import { Logger } from '../../utils/logger.js';
+import { secured, corsHeaders, AuthContext } from '../../utils/httpAuth.js';
+
+const logger = new Logger();
+
+/**
+ * Response helper for consistent API responses
+ */
+function createResponse(statusCode: number, data: any, message?: string): HttpResponseInit {
+  const success = statusCode >= 200 && statusCode < 300;
+
+  return {
+    status: statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      success,
+      ...(success ? { data } : { error: data || 'An error occurred' }),
+      message: message || (success ? 'Success' : 'Error'),
+      timestamp: new Date().toISOString(),
+    }),
+  };
+}
+
+/**
+ * Whether the caller may see a session: any of the patient's, or only one whose
+ * Encounter was shared through a consent grant
+ */
+function isVisible(sessionId: string, auth: AuthContext): boolean {
+  const granted = auth.decision?.scope === 'consented' ? auth.decision.grantedResources : undefined;
+  return !granted || granted.has(`Encounter/${sessionId}`);
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+async function handleOptions(request: HttpRequest): Promise<HttpResponseInit> {
+  return {
+    status: 200,
+    headers: {
+      ...corsHeaders(request, 'GET, OPTIONS'),
+      'Access-Control-Max-Age': '86400',
+    },
+  };
+}
+
+/**
+ * GET /api/triage/sessions/{patientId}
+ * Query: limit (optional)
+ */
+async function listSessions(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  const patientId = request.params.patientId;
+
+  try {
+    if (!patientId) {
+      return createResponse(400, null, 'Missing required parameter: patientId');
+    }
+
+    const limitParam = request.query.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+    if (limit !== undefined && (Number.isNaN(limit) || limit < 1)) {
+      return createResponse(400, null, 'limit must be a positive integer');
+    }
+
+    const sessions = (await triageSessionService.listSessions(patientId))
+      .filter((session) => isVisible(session.sessionId, auth))
+      .slice(0, limit);
+
+    return createResponse(
+      200,
+      { sessions, count: sessions.length },
+      `Found ${sessions.length} triage sessions for patient`
+    );
+  } catch (error) {
+    logger.error('Failed to list triage sessions', {
+      error: error as Error,
+      patientId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to list triage sessions');
+  }
+}
+
+/**
+ * GET /api/triage/sessions/{patientId}/{sessionId}
+ */
+async function getSession(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+): Promise<HttpResponseInit> {
+  const { patientId, sessionId } = request.params;
+
+  try {
+    if (!patientId || !sessionId) {
+      return createResponse(400, null, 'Missing required parameters: patientId and sessionId');
+    }
+
+    const session = isVisible(sessionId, auth) ? await triageSessionService.getSession(patientId, sessionId) : null;
+    if (!session) {
+      return createResponse(404, null, 'Triage session not found');
+    }
+
+    return createResponse(200, session, 'Triage session retrieved successfully');
+  } catch (error) {
+    logger.error('Failed to retrieve triage session', {
+      error: error as Error,
+      patientId,
+      sessionId,
+      requestId: context.invocationId,
+    });
+
+    return createResponse(500, (error as Error).message, 'Failed to retrieve triage session');
+  }
+}
+
+// Register HTTP functions
+app.http('triage-sessions', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'triage/sessions/{patientId}',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, { action: 'read', patientId: request.params.patientId }, listSessions);
+  },
+});
+
+app.http('triage-session', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'triage/sessions/{patientId}/{sessionId}',
+  handler: async (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handleOptions(request);
+    }
+    return secured(request, context, { action: 'read', patientId: request.params.patientId }, getSession);
+  },
+});
@@ -7,3 +7,11 @@ app.setup({
 // Import function registrations
 import './functions/symptom-assessment-bot/index.js';
 import './functions/fhir-storage/index.js';
+import './functions/consent/index.js';
+import './functions/anchor-queue/index.js';
+import './functions/triage-sessions/index.js';
+import './functions/scheduling/index.js';
+import './functions/notifications/index.js';
+import './functions/settings/index.js';
+import './functions/audit/index.js';
+import './functions/triage-review/index.js';
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Access policy for patient data
+ * @module services/accessPolicy
+ *
+ * Decides what an authenticated user may do:
+ * - Patients: their own compartment only
+ * - Practitioners: patients assigned to them (Patient.generalPractitioner), in
+ *   full, and the records patients shared with them through an active consent grant
+ * - Admins: everything, including the user management routes
+ * Every decision is logged.
+ */
+
+import { Logger } from '../utils/logger.js';
+import { AuthorizationError } from '../utils/errors.js';
+import { fhirStorageService } from './fhirStorage.js';
+import { consentService } from './consent.js';
+import type { Principal } from './auth.js';
+
+/**
+ * - read: read a patient's records
+ * - write: add records to a patient's compartment
+ * - share: grant or revoke a practitioner's access to a patient's records
+ * - manage: user management and cross-patient listings
+ */
+export type AccessAction = 'read' | 'write' | 'share' | 'manage';
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason: string;
+  /**
+   * 'consented': only the records in `grantedResources` ("Type/id") may be read;
+   * 'full': everything in the compartment
+   */
+  scope?: 'full' | 'consented';
+  grantedResources?: Set<string>;
+}
+
+export interface AccessRequest {
+  action: AccessAction;
+  /** Patient compartment the request touches */
+  patientId?: string;
+  /** Correlation for the decision log */
+  requestId?: string;
+}
+
+/**
+ * Access policy service
+ */
+export class AccessPolicyService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Decide whether the principal may perform the action, and log the decision
+   */
+  public async decide(principal: Principal, request: AccessRequest): Promise<AccessDecision> {
+    const decision = await this.evaluate(principal, request);
+
+    this.logger.info(decision.allowed ? 'Access granted' : 'Access denied', {
+      userId: principal.userId,
+      role: principal.role,
+      roleSource: principal.roleSource,
+      action: request.action,
+      patientId: request.patientId,
+      reason: decision.reason,
+      scope: decision.scope,
+      requestId: request.requestId,
+    });
+
+    return decision;
+  }
+
+  /**
+   * Like decide, but throw when access is denied
+   * @throws AuthorizationError
+   */
+  public async authorize(principal: Principal, request: AccessRequest): Promise<AccessDecision> {
+    const decision = await this.decide(principal, request);
+    if (!decision.allowed) {
+      throw new AuthorizationError(decision.reason, { action: request.action, patientId: request.patientId });
+    }
+    return decision;
+  }
+
+  /**
+   * Narrow a list of patient IDs to those the principal may read (without logging each one)
+   */
+  public async filterReadablePatients(principal: Principal, patientIds: string[]): Promise<string[]> {
+    return this.filterPatients(principal, patientIds, 'read');
+  }
+
+  /**
+   * Narrow a list of patient IDs to those the principal may perform the action on (without logging each one)
+   */
+  public async filterPatients(principal: Principal, patientIds: string[], action: AccessAction): Promise<string[]> {
+    const allowed: string[] = [];
+    for (const patientId of patientIds) {
+      const decision = await this.evaluate(principal, { action, patientId });
+      if (decision.allowed) {
+        allowed.push(patientId);
+      }
+    }
+    return allowed;
+  }
+
+  private async evaluate(principal: Principal, request: AccessRequest): Promise<AccessDecision> {
+    const { action, patientId } = request;
+
+    if (principal.role === 'Admin') {
+      return { allowed: true, reason: 'Administrator', scope: 'full' };
+    }
+
+    if (action === 'manage') {
+      return { allowed: false, reason: 'Administrator role required' };
+    }
+
+    if (!patientId) {
+      return { allowed: false, reason: 'No patient compartment given' };
+    }
+
+    if (patientId === principal.userId) {
+      return { allowed: true, reason: 'Own records', scope: 'full' };
+    }
+
+    if (principal.role !== 'Practitioner') {
+      return { allowed: false, reason: "Patients may only access their own records" };
+    }
+
+    if (action === 'share') {
+      return { allowed: false, reason: 'Only the patient can share their records' };
+    }
+
+    if (await this.isAssigned(patientId, principal.userId)) {
+      return { allowed: true, reason: 'Assigned practitioner', scope: 'full' };
+    }
+
+    if (action === 'read') {
+      const granted = await consentService.getAccessibleResources(patientId, principal.userId);
+      if (granted.size > 0) {
+        return { allowed: true, reason: 'Active consent grant', scope: 'consented', grantedResources: granted };
+      }
+    }
+
+    return { allowed: false, reason: 'Practitioner is not assigned to this patient and has no active consent grant' };
+  }
+
+  /**
+   * Whether the patient's Patient resource names the practitioner as a general practitioner,
+   * by user ID or by the ID of their Practitioner resource
+   */
+  private async isAssigned(patientId: string, practitionerId: string): Promise<boolean> {
+    const [patient, practitioner] = await Promise.all([
+      fhirStorageService.findUserProfile(patientId, 'Patient'),
+      fhirStorageService.findUserProfile(practitionerId, 'Practitioner'),
+    ]);
+    const references = [practitionerId, practitioner?.id].filter(Boolean).map((id) => `Practitioner/${id}`);
+    return (patient?.generalPractitioner || []).some((ref: any) => references.includes(ref.reference));
+  }
+}
+
+// Export singleton instance
+export const accessPolicyService = new AccessPolicyService();
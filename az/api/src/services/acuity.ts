@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Deterministic triage acuity scoring
+ * @module services/acuity
+ *
+ * Scores the findings of a triage conversation on a standard acuity scale, so
+ * the urgency recorded with an AI assessment does not depend on the model alone:
+ * - esi: Emergency Severity Index, levels 1 (resuscitation) to 5 (non-urgent)
+ * - manchester: Manchester Triage System, categories 1 (immediate, red) to 5 (non-urgent, blue)
+ *
+ * Findings come from the patient's messages (age, temperature and pain score,
+ * read with fixed patterns), from the model (vital signs and the like it was
+ * told, through conversationStatusCheck) and from red-flag screening. Every
+ * criterion that set the level is given as a reason.
+ */
+
+import type { RedFlagMatch } from './redFlags.js';
+import { redFlagService } from './redFlags.js';
+import { CODE_SYSTEMS } from './fhirValidation.js';
+
+export type AcuityScale = 'esi' | 'manchester';
+
+export const ACUITY_SCALES: readonly AcuityScale[] = ['esi', 'manchester'];
+
+export type AcuityRiskLevel = 'low' | 'moderate' | 'high';
+
+/**
+ * Findings as the model reports them with conversationStatusCheck
+ */
+export interface ReportedFindings {
+  ageYears?: number;
+  temperatureC?: number;
+  heartRate?: number;
+  respiratoryRate?: number;
+  oxygenSaturation?: number;
+  systolicBloodPressure?: number;
+  painScore?: number;
+  consciousness?: 'alert' | 'confused' | 'unresponsive';
+  /** ESI resources the patient is expected to need (labs, imaging, IV fluids, specialist consult...) */
+  expectedResources?: number;
+}
+
+export interface TriageFindings {
+  ageMonths?: number;
+  temperatureC?: number;
+  heartRate?: number;
+  respiratoryRate?: number;
+  oxygenSaturation?: number;
+  systolicBloodPressure?: number;
+  /** 0-10 */
+  painScore?: number;
+  consciousness?: 'alert' | 'confused' | 'unresponsive';
+  expectedResources?: number;
+  redFlags: Array<Pick<RedFlagMatch, 'ruleId' | 'condition'>>;
+}
+
+export interface AcuityResult {
+  scale: AcuityScale;
+  /** 1 (most urgent) to 5 */
+  level: number;
+  code: string;
+  display: string;
+  /** Risk level the acuity corresponds to, to compare with the model's */
+  riskLevel: AcuityRiskLevel;
+  /** Criteria that set the level */
+  reasons: string[];
+  explanation: string;
+}
+
+/**
+ * Acuity of an assessment, compared with the model's risk level
+ */
+export interface AcuityAssessment extends AcuityResult {
+  modelRiskLevel?: string;
+  /** The model's risk level differs from the acuity's; the assessment needs practitioner review */
+  disagreement: boolean;
+}
+
+/**
+ * Code systems of the acuity outcome on the RiskAssessment
+ */
+export const ACUITY_CODE_SYSTEMS: Record<AcuityScale, string> = {
+  esi: CODE_SYSTEMS.esiAcuity,
+  manchester: CODE_SYSTEMS.manchesterAcuity,
+};
+
+/**
+ * Extension on the RiskAssessment recording that the model's risk level disagrees with the acuity
+ */
+export const TRIAGE_ACUITY_DISAGREEMENT_EXTENSION_URL =
+  'http://lelink.health/fhir/StructureDefinition/triage-acuity-disagreement';
+
+const ESI_DISPLAY = ['Resuscitation', 'Emergent', 'Urgent', 'Less urgent', 'Non-urgent'];
+const MANCHESTER_DISPLAY = [
+  'Immediate (red)',
+  'Very urgent (orange)',
+  'Urgent (yellow)',
+  'Standard (green)',
+  'Non-urgent (blue)',
+];
+
+// Pain on a 0-10 scale: "6/10", "7 out of 10", "8 von 10", "5 sur 10"
+const PAIN_SCORE_PATTERN = /\b(\d{1,2}(?:[.,]5)?)\s*(?:\/|out of|of|von|sur|de|із|з|من)\s*10\b(?![/.]\d)/giu;
+
+// ESI danger-zone vital signs by age
+const DANGER_ZONE: Array<{ maxAgeMonths: number; heartRate: number; respiratoryRate: number }> = [
+  { maxAgeMonths: 3, heartRate: 180, respiratoryRate: 50 },
+  { maxAgeMonths: 36, heartRate: 160, respiratoryRate: 40 },
+  { maxAgeMonths: 96, heartRate: 140, respiratoryRate: 30 },
+  { maxAgeMonths: Infinity, heartRate: 100, respiratoryRate: 20 },
+];
+
+/**
+ * Highest pain score (0-10) reported in the texts
+ */
+export function extractPainScore(texts: string[]): number | undefined {
+  const scores = texts
+    .flatMap((text) => [...text.matchAll(PAIN_SCORE_PATTERN)])
+    .map((match) => parseFloat(match[1].replace(',', '.')))
+    .filter((score) => score >= 0 && score <= 10);
+  return scores.length > 0 ? Math.max(...scores) : undefined;
+}
+
+/**
+ * Combine what the patient wrote with what the model reported; values read
+ * from the messages win over the model's
+ */
+export function collectFindings(
+  texts: string[],
+  reported: ReportedFindings = {},
+  redFlags: TriageFindings['redFlags'] = []
+): TriageFindings {
+  const vitals = redFlagService.extractVitals(texts.join('\n'));
+  const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+  const reportedAge = number(reported.ageYears);
+
+  return {
+    ageMonths: vitals.ageMonths ?? (reportedAge !== undefined ? reportedAge * 12 : undefined),
+    temperatureC: vitals.temperatureC ?? number(reported.temperatureC),
+    heartRate: number(reported.heartRate),
+    respiratoryRate: number(reported.respiratoryRate),
+    oxygenSaturation: number(reported.oxygenSaturation),
+    systolicBloodPressure: number(reported.systolicBloodPressure),
+    painScore: extractPainScore(texts) ?? number(reported.painScore),
+    consciousness: reported.consciousness,
+    expectedResources: number(reported.expectedResources),
+    redFlags: redFlags.map(({ ruleId, condition }) => ({ ruleId, condition })),
+  };
+}
+
+/**
+ * Score the findings on an acuity scale
+ */
+export function scoreAcuity(findings: TriageFindings, scale: AcuityScale = 'esi'): AcuityResult {
+  const { level, reasons } = scale === 'manchester' ? manchesterLevel(findings) : esiLevel(findings);
+  const display = (scale === 'manchester' ? MANCHESTER_DISPLAY : ESI_DISPLAY)[level - 1];
+  const name = scale === 'manchester' ? `Manchester ${level}` : `ESI ${level}`;
+
+  return {
+    scale,
+    level,
+    code: String(level),
+    display,
+    riskLevel: level <= 2 ? 'high' : level === 3 ? 'moderate' : 'low',
+    reasons,
+    explanation: `${name} (${display}): ${reasons.join('; ')}`,
+  };
+}
+
+/**
+ * Whether the model's risk level differs from the one the acuity corresponds to.
+ * No level from the model is no disagreement.
+ */
+export function acuityDisagrees(acuity: AcuityResult, modelRiskLevel?: string): boolean {
+  const level = modelRiskLevel?.toLowerCase() === 'medium' ? 'moderate' : modelRiskLevel?.toLowerCase();
+  return !!level && level !== acuity.riskLevel;
+}
+
+/**
+ * Score the findings and compare the result with the model's risk level
+ */
+export function assessAcuity(findings: TriageFindings, scale: AcuityScale, modelRiskLevel?: string): AcuityAssessment {
+  const acuity = scoreAcuity(findings, scale);
+  return {
+    ...acuity,
+    ...(modelRiskLevel && { modelRiskLevel }),
+    disagreement: acuityDisagrees(acuity, modelRiskLevel),
+  };
+}
+
+/**
+ * RiskAssessment prediction with the acuity as its coded outcome
+ */
+export function acuityPrediction(acuity: AcuityResult): Record<string, any> {
+  return {
+    outcome: {
+      coding: [{ system: ACUITY_CODE_SYSTEMS[acuity.scale], code: acuity.code, display: acuity.display }],
+      text: `${acuity.scale === 'manchester' ? 'Manchester' : 'ESI'} ${acuity.level} - ${acuity.display}`,
+    },
+    qualitativeRisk: {
+      coding: [
+        {
+          system: CODE_SYSTEMS.riskProbability,
+          code: acuity.riskLevel,
+          display: `${acuity.riskLevel[0].toUpperCase()}${acuity.riskLevel.slice(1)} likelihood`,
+        },
+      ],
+    },
+    rationale: acuity.explanation,
+  };
+}
+
+/**
+ * Acuity recorded on a RiskAssessment, if it has one
+ */
+export function assessmentAcuity(
+  assessment: Record<string, any>
+): Pick<AcuityAssessment, 'scale' | 'level' | 'display' | 'disagreement'> | undefined {
+  for (const prediction of assessment.prediction || []) {
+    for (const coding of prediction?.outcome?.coding || []) {
+      const scale = ACUITY_SCALES.find((candidate) => ACUITY_CODE_SYSTEMS[candidate] === coding.system);
+      if (scale) {
+        return {
+          scale,
+          level: Number(coding.code),
+          display: coding.display,
+          disagreement: (assessment.extension || []).some(
+            (ext: any) => ext.url === TRIAGE_ACUITY_DISAGREEMENT_EXTENSION_URL
+          ),
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Criteria for an immediate life-saving intervention (ESI 1, Manchester red)
+ */
+function lifeThreats(findings: TriageFindings): string[] {
+  const { consciousness, oxygenSaturation, systolicBloodPressure, respiratoryRate, heartRate } = findings;
+  return [
+    consciousness === 'unresponsive' && 'unresponsive',
+    oxygenSaturation !== undefined && oxygenSaturation < 85 && `oxygen saturation ${oxygenSaturation}%`,
+    systolicBloodPressure !== undefined &&
+      systolicBloodPressure < 80 &&
+      `systolic blood pressure ${systolicBloodPressure} mmHg`,
+    respiratoryRate !== undefined && respiratoryRate < 8 && `respiratory rate ${respiratoryRate}/min`,
+    heartRate !== undefined && heartRate < 40 && `heart rate ${heartRate}/min`,
+  ].filter((reason): reason is string => !!reason);
+}
+
+function redFlagReasons(findings: TriageFindings): string[] {
+  return findings.redFlags.map((flag) => `red flag: ${flag.condition}`);
+}
+
+function esiLevel(findings: TriageFindings): { level: number; reasons: string[] } {
+  const threats = lifeThreats(findings);
+  if (threats.length > 0) {
+    return { level: 1, reasons: threats };
+  }
+
+  // High-risk situation, altered mental status, severe pain or danger-zone vital signs
+  const { ageMonths, temperatureC, heartRate, respiratoryRate, oxygenSaturation, painScore } = findings;
+  const zone = DANGER_ZONE.find((entry) => (ageMonths ?? Infinity) < entry.maxAgeMonths) || DANGER_ZONE[3];
+  const emergent = [
+    ...redFlagReasons(findings),
+    findings.consciousness === 'confused' && 'confused or lethargic',
+    painScore !== undefined && painScore >= 7 && `severe pain (${painScore}/10)`,
+    heartRate !== undefined && heartRate > zone.heartRate && `heart rate ${heartRate}/min`,
+    respiratoryRate !== undefined &&
+      respiratoryRate > zone.respiratoryRate &&
+      `respiratory rate ${respiratoryRate}/min`,
+    oxygenSaturation !== undefined && oxygenSaturation < 92 && `oxygen saturation ${oxygenSaturation}%`,
+    ageMonths !== undefined &&
+      ageMonths < 1 &&
+      temperatureC !== undefined &&
+      temperatureC >= 38 &&
+      `fever of ${temperatureC}°C under 28 days old`,
+  ].filter((reason): reason is string => !!reason);
+  if (emergent.length > 0) {
+    return { level: 2, reasons: emergent };
+  }
+
+  // Resources needed; when the model did not estimate them, moderate pain or fever count as needing several
+  if (findings.expectedResources !== undefined) {
+    const resources = findings.expectedResources;
+    const reason = `${resources} resource${resources === 1 ? '' : 's'} expected`;
+    return { level: resources >= 2 ? 3 : resources === 1 ? 4 : 5, reasons: [reason] };
+  }
+  const urgent = [
+    painScore !== undefined && painScore >= 4 && `moderate pain (${painScore}/10)`,
+    temperatureC !== undefined && temperatureC >= 38.5 && `fever of ${temperatureC}°C`,
+  ].filter((reason): reason is string => !!reason);
+  if (urgent.length > 0) {
+    return { level: 3, reasons: [...urgent, 'resources not estimated'] };
+  }
+  return { level: 4, reasons: ['no high-risk findings', 'resources not estimated, one assumed'] };
+}
+
+function manchesterLevel(findings: TriageFindings): { level: number; reasons: string[] } {
+  const threats = lifeThreats(findings);
+  if (threats.length > 0) {
+    return { level: 1, reasons: threats };
+  }
+
+  const { temperatureC, oxygenSaturation, painScore } = findings;
+  const veryUrgent = [
+    ...redFlagReasons(findings),
+    findings.consciousness === 'confused' && 'altered conscious level',
+    painScore !== undefined && painScore >= 7 && `severe pain (${painScore}/10)`,
+    oxygenSaturation !== undefined && oxygenSaturation < 90 && `very low oxygen saturation (${oxygenSaturation}%)`,
+    temperatureC !== undefined && temperatureC >= 41 && `very hot (${temperatureC}°C)`,
+  ].filter((reason): reason is string => !!reason);
+  if (veryUrgent.length > 0) {
+    return { level: 2, reasons: veryUrgent };
+  }
+
+  const urgent = [
+    painScore !== undefined && painScore >= 4 && `moderate pain (${painScore}/10)`,
+    oxygenSaturation !== undefined && oxygenSaturation < 95 && `low oxygen saturation (${oxygenSaturation}%)`,
+    temperatureC !== undefined && temperatureC >= 38.5 && `hot (${temperatureC}°C)`,
+  ].filter((reason): reason is string => !!reason);
+  if (urgent.length > 0) {
+    return { level: 3, reasons: urgent };
+  }
+
+  const standard = [
+    painScore !== undefined && painScore > 0 && `mild pain (${painScore}/10)`,
+    temperatureC !== undefined && temperatureC >= 37.5 && `warm (${temperatureC}°C)`,
+  ].filter((reason): reason is string => !!reason);
+  if (standard.length > 0) {
+    return { level: 4, reasons: standard };
+  }
+  return { level: 5, reasons: ['no discriminator met'] };
+}
@@ -0,0 +1,440 @@
+/**
+ * @fileoverview Blockchain anchoring queue
+ * @module services/anchorQueue
+ *
+ * Decouples anchoring from the triage request: resources are hashed and queued
+ * immediately, and a timer submits them in batches (one createRecords
+ * transaction per patient). Once mined, the transaction hash and block number
+ * are written back to each stored resource's blob metadata.
+ *
+ * The queue is a JSON file on local disk, standing in for the `triage-hashes`
+ * Service Bus queue. Failed submissions are retried with exponential backoff;
+ * fee errors are retried with a raised gas price. Every submission is recorded
+ * in the audit trail.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger.js';
+import { BlockchainError } from '../utils/errors.js';
+import { blockchainService } from './blockchain.js';
+import { auditService } from './audit.js';
+import { fhirStorageService, FHIRResource } from './fhirStorage.js';
+
+export type AnchorJobStatus = 'pending' | 'anchored' | 'failed';
+
+export interface AnchorJobRecord {
+  resourceType: string;
+  resourceId: string;
+  /** On-chain resource ID ("Type-id") */
+  onChainId: string;
+  dataHash: string;
+}
+
+export interface AnchorJob {
+  jobId: string;
+  patientId: string;
+  status: AnchorJobStatus;
+  records: AnchorJobRecord[];
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  nextAttemptAt: string;
+  lastError?: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  anchoredAt?: string;
+}
+
+export interface AnchorQueueRunResult {
+  batches: number;
+  anchored: number;
+  retried: number;
+  failed: number;
+}
+
+interface QueueState {
+  jobs: AnchorJob[];
+}
+
+// ethers error codes worth retrying; anything else (e.g. CALL_EXCEPTION for a revert) fails the job
+const RETRYABLE_ERROR_CODES = [
+  'NONCE_EXPIRED',
+  'REPLACEMENT_UNDERPRICED',
+  'TRANSACTION_REPLACED',
+  'INSUFFICIENT_FUNDS',
+  'TIMEOUT',
+  'NETWORK_ERROR',
+  'SERVER_ERROR',
+  'UNKNOWN_ERROR',
+];
+
+const FEE_ERROR_PATTERN = /underpriced|fee too low|max fee|gas price/i;
+
+/**
+ * One record per on-chain ID, with the hash queued last. A batch can carry the
+ * same resource twice (the triage Encounter is queued again on every turn), and
+ * createRecords reverts on a repeated ID.
+ */
+function latestRecords(jobs: AnchorJob[]): AnchorJobRecord[] {
+  const byOnChainId = new Map<string, AnchorJobRecord>();
+  for (const record of jobs.flatMap((job) => job.records)) {
+    byOnChainId.set(record.onChainId, record);
+  }
+  return [...byOnChainId.values()];
+}
+
+/**
+ * Blockchain anchoring queue
+ */
+export class AnchorQueueService {
+  private logger: Logger;
+  private filePath: string;
+  private batchSize: number;
+  private maxAttempts: number;
+  private retryBaseMs: number;
+  private retentionMs: number;
+  private fileLock: Promise<unknown> = Promise.resolve();
+  private processing = false;
+
+  constructor() {
+    this.logger = new Logger();
+    this.filePath = process.env.ANCHOR_QUEUE_FILE || path.join(process.cwd(), '.lelink', 'anchor-queue.json');
+    this.batchSize = parseInt(process.env.ANCHOR_BATCH_SIZE || '20', 10);
+    this.maxAttempts = parseInt(process.env.ANCHOR_MAX_ATTEMPTS || '5', 10);
+    this.retryBaseMs = parseInt(process.env.ANCHOR_RETRY_BASE_MS || '15000', 10);
+    this.retentionMs = parseInt(process.env.ANCHOR_JOB_RETENTION_HOURS || '24', 10) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Hash resources and queue them for anchoring
+   * @returns The queued job, or null if blockchain logging is disabled
+   */
+  public async enqueue(resources: FHIRResource[], patientId: string): Promise<AnchorJob | null> {
+    if (!blockchainService.getStatus().enabled) {
+      this.logger.debug('Blockchain logging disabled, not queueing resources');
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const job: AnchorJob = {
+      jobId: uuidv4(),
+      patientId,
+      status: 'pending',
+      records: resources.map((resource) => ({
+        resourceType: resource.resourceType,
+        resourceId: resource.id,
+        onChainId: `${resource.resourceType}-${resource.id}`,
+        dataHash: blockchainService.hashResource(resource),
+      })),
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      nextAttemptAt: now,
+    };
+
+    await this.update((state) => {
+      state.jobs.push(job);
+    });
+
+    this.logger.info('Resources queued for anchoring', {
+      jobId: job.jobId,
+      patientId,
+      recordCount: job.records.length,
+    });
+
+    return job;
+  }
+
+  /**
+   * Queue every stored resource for anchoring again, in jobs of at most one batch.
+   * Used after deploying a new contract: records on the previous one aren't copied.
+   * Resources whose records already exist are anchored as updates.
+   * @returns Counts of what was queued, or null if blockchain logging is disabled
+   */
+  public async enqueueAll(): Promise<{ patients: number; resources: number; jobs: number } | null> {
+    if (!blockchainService.getStatus().enabled) {
+      return null;
+    }
+
+    const result = { patients: 0, resources: 0, jobs: 0 };
+    for (const patientId of await fhirStorageService.getAllPatients()) {
+      const resources = await fhirStorageService.listPatientResources(patientId);
+      if (resources.length === 0) continue;
+
+      result.patients++;
+      for (let start = 0; start < resources.length; start += this.batchSize) {
+        await this.enqueue(resources.slice(start, start + this.batchSize), patientId);
+        result.jobs++;
+      }
+      result.resources += resources.length;
+    }
+
+    this.logger.info('Stored resources queued for re-anchoring', result);
+    return result;
+  }
+
+  /**
+   * Look up a queued or finished job
+   */
+  public async getJob(jobId: string): Promise<AnchorJob | null> {
+    const state = await this.read();
+    return state.jobs.find((job) => job.jobId === jobId) || null;
+  }
+
+  /**
+   * Submit every due job, batched per patient. Runs are not concurrent within a process.
+   */
+  public async processPending(): Promise<AnchorQueueRunResult> {
+    const result: AnchorQueueRunResult = { batches: 0, anchored: 0, retried: 0, failed: 0 };
+
+    if (this.processing || !blockchainService.getStatus().enabled) {
+      return result;
+    }
+
+    this.processing = true;
+    try {
+      const now = Date.now();
+      const state = await this.update((s) => {
+        s.jobs = s.jobs.filter(
+          (job) => job.status === 'pending' || now - new Date(job.updatedAt).getTime() < this.retentionMs
+        );
+      });
+
+      const due = state.jobs.filter((job) => job.status === 'pending' && new Date(job.nextAttemptAt).getTime() <= now);
+
+      for (const batch of this.buildBatches(due)) {
+        result.batches++;
+        const outcome = await this.submitBatch(batch);
+        result.anchored += outcome.anchored;
+        result.retried += outcome.retried;
+        result.failed += outcome.failed;
+      }
+
+      return result;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Group due jobs by patient, filling each batch up to the configured record count
+   */
+  private buildBatches(jobs: AnchorJob[]): AnchorJob[][] {
+    const byPatient = new Map<string, AnchorJob[]>();
+    for (const job of jobs) {
+      byPatient.set(job.patientId, [...(byPatient.get(job.patientId) || []), job]);
+    }
+
+    const batches: AnchorJob[][] = [];
+    for (const patientJobs of byPatient.values()) {
+      let current: AnchorJob[] = [];
+      let recordCount = 0;
+      for (const job of patientJobs) {
+        if (current.length > 0 && recordCount + job.records.length > this.batchSize) {
+          batches.push(current);
+          current = [];
+          recordCount = 0;
+        }
+        current.push(job);
+        recordCount += job.records.length;
+      }
+      if (current.length > 0) {
+        batches.push(current);
+      }
+    }
+
+    return batches;
+  }
+
+  /**
+   * Anchor one patient's batch and record the outcome on each job
+   */
+  private async submitBatch(jobs: AnchorJob[]): Promise<{ anchored: number; retried: number; failed: number }> {
+    const patientId = jobs[0].patientId;
+    const records = latestRecords(jobs);
+    const attempt = Math.max(...jobs.map((job) => job.attempts));
+    const feeRetry = jobs.some((job) => job.lastError && FEE_ERROR_PATTERN.test(job.lastError));
+
+    try {
+      const anchor = await blockchainService.createRecordsBatch(
+        records.map((r) => ({ resourceId: r.onChainId, dataHash: r.dataHash })),
+        patientId,
+        { gasBumpPercent: feeRetry ? Math.min(20 * attempt, 100) : 0 }
+      );
+      const anchoredAt = new Date().toISOString();
+
+      await this.patchJobs(jobs, (job) => {
+        job.status = 'anchored';
+        job.attempts++;
+        job.transactionHash = anchor.transactionHash || anchor.updated[0]?.transactionHash;
+        job.blockNumber = anchor.blockNumber ?? anchor.updated[0]?.blockNumber;
+        job.anchoredAt = anchoredAt;
+        delete job.lastError;
+      });
+
+      if (anchor.transactionHash && anchor.blockNumber !== undefined) {
+        await this.writeBack(patientId, records, anchor.anchored, {
+          transactionHash: anchor.transactionHash,
+          blockNumber: anchor.blockNumber,
+          anchoredAt,
+        });
+      }
+      // New versions of existing records are anchored by their own updateRecord transaction
+      for (const update of anchor.updated) {
+        await this.writeBack(patientId, records, [update.resourceId], {
+          transactionHash: update.transactionHash,
+          blockNumber: update.blockNumber,
+          anchoredAt,
+        });
+      }
+
+      if (anchor.anchored.length > 0 || anchor.updated.length > 0) {
+        await auditService.record({
+          type: 'system',
+          action: 'blockchain.anchored',
+          actor: null,
+          description: `Anchored ${anchor.anchored.length + anchor.updated.length} records of patient ${patientId}`,
+          patientId,
+          details: {
+            network: anchor.network,
+            transactionHash: anchor.transactionHash,
+            blockNumber: anchor.blockNumber,
+            anchored: anchor.anchored,
+            updated: anchor.updated.map((update) => update.resourceId),
+          },
+        });
+      }
+
+      return { anchored: jobs.length, retried: 0, failed: 0 };
+    } catch (error) {
+      const code = error instanceof BlockchainError ? error.details.code : (error as { code?: string }).code;
+      const message =
+        error instanceof BlockchainError && error.details.originalError
+          ? String(error.details.originalError)
+          : (error as Error).message;
+      const retryable = !code || RETRYABLE_ERROR_CODES.includes(code) || FEE_ERROR_PATTERN.test(message);
+
+      let retried = 0;
+      let failed = 0;
+      await this.patchJobs(jobs, (job) => {
+        job.attempts++;
+        job.lastError = message;
+        if (!retryable || job.attempts >= this.maxAttempts) {
+          job.status = 'failed';
+          failed++;
+        } else {
+          job.nextAttemptAt = new Date(Date.now() + this.retryBaseMs * 2 ** (job.attempts - 1)).toISOString();
+          retried++;
+        }
+      });
+
+      this.logger.error('Failed to anchor queued batch', {
+        error: error as Error,
+        patientId,
+        code,
+        jobIds: jobs.map((job) => job.jobId),
+        retried,
+        failed,
+      });
+
+      await auditService.record({
+        type: 'error',
+        severity: failed > 0 ? 'error' : 'warning',
+        outcome: 'failure',
+        action: 'blockchain.anchor_failed',
+        actor: null,
+        description: `Anchoring ${records.length} records of patient ${patientId} failed${
+          failed > 0 ? ', giving up' : ', will retry'
+        }: ${message}`,
+        patientId,
+        details: { code, jobIds: jobs.map((job) => job.jobId), attempt: attempt + 1 },
+      });
+
+      return { anchored: 0, retried, failed };
+    }
+  }
+
+  /**
+   * Write the transaction back to each stored resource. A resource that is not
+   * stored yet keeps its anchor on the job only.
+   */
+  private async writeBack(
+    patientId: string,
+    records: AnchorJobRecord[],
+    anchoredIds: string[],
+    anchor: { transactionHash: string; blockNumber: number; anchoredAt: string }
+  ): Promise<void> {
+    for (const record of records.filter((r) => anchoredIds.includes(r.onChainId))) {
+      try {
+        const written = await fhirStorageService.setAnchorMetadata(patientId, record.resourceType, record.resourceId, {
+          ...anchor,
+          dataHash: record.dataHash,
+        });
+        if (!written) {
+          this.logger.warn('Anchored resource not found in storage', {
+            patientId,
+            resourceId: record.onChainId,
+            transactionHash: anchor.transactionHash,
+          });
+        }
+      } catch (error) {
+        // The anchor is on-chain either way; metadata is only a convenience copy
+        this.logger.warn('Failed to write anchor metadata', {
+          error: error as Error,
+          patientId,
+          resourceId: record.onChainId,
+        });
+      }
+    }
+  }
+
+  private async patchJobs(jobs: AnchorJob[], patch: (job: AnchorJob) => void): Promise<void> {
+    const ids = new Set(jobs.map((job) => job.jobId));
+    const updatedAt = new Date().toISOString();
+
+    await this.update((state) => {
+      for (const job of state.jobs) {
+        if (ids.has(job.jobId)) {
+          patch(job);
+          job.updatedAt = updatedAt;
+        }
+      }
+    });
+  }
+
+  private async read(): Promise<QueueState> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8')) as QueueState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { jobs: [] };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read-modify-write the queue file, serialized within this process
+   */
+  private async update(mutate: (state: QueueState) => void): Promise<QueueState> {
+    const run = this.fileLock.then(async () => {
+      const state = await this.read();
+      mutate(state);
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(state, null, 2), 'utf8');
+      await fs.rename(tmpPath, this.filePath);
+
+      return state;
+    });
+
+    this.fileLock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// Export singleton instance
+export const anchorQueueService = new AnchorQueueService();
@@ -0,0 +1,426 @@
+/**
+ * @fileoverview Audit trail of security-relevant events
+ * @module services/audit
+ *
+ * Records who did what, from where and with what outcome: sign-ins reported by
+ * the web app, rejected requests, reads and writes of patient records, onboarding
+ * and role changes, triage sessions, blockchain operations and settings changes.
+ * Events are appended to one JSON Lines file per day, kept for
+ * AUDIT_LOG_RETENTION_DAYS: append blobs in the storage container, shared by
+ * every instance, or files in AUDIT_LOG_DIR.
+ *
+ * Queries can merge in the DataAccessed events the contract emits for logAccess
+ * calls, so on-chain access shows up in the same timeline.
+ *
+ * With the security.auditLogging setting off, reads and writes of patient records
+ * are not recorded; everything else still is. Recording never throws into the
+ * operation being audited.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger.js';
+import { securityConfig } from '../utils/config.js';
+import { blockchainService } from './blockchain.js';
+import { fhirStorageService } from './fhirStorage.js';
+
+export type AuditEventType = 'security' | 'user' | 'system' | 'data' | 'error';
+
+export type AuditSeverity = 'info' | 'warning' | 'error' | 'critical';
+
+export type AuditOutcome = 'success' | 'failure';
+
+/** Where an event was recorded: by this API, reported by the web app, or read from the contract */
+export type AuditSource = 'api' | 'web' | 'blockchain';
+
+export const AUDIT_EVENT_TYPES: readonly AuditEventType[] = ['security', 'user', 'system', 'data', 'error'];
+
+export const AUDIT_SEVERITIES: readonly AuditSeverity[] = ['info', 'warning', 'error', 'critical'];
+
+export interface AuditActor {
+  userId?: string;
+  role?: string;
+  name?: string;
+  email?: string;
+  /** Wallet that sent an on-chain transaction */
+  address?: string;
+}
+
+export interface AuditEvent {
+  id: string;
+  timestamp: string;
+  type: AuditEventType;
+  severity: AuditSeverity;
+  /** Dotted event name, e.g. record.read or auth.login */
+  action: string;
+  outcome: AuditOutcome;
+  source: AuditSource;
+  /** Who acted; null for the system itself (timers, queues) */
+  actor: AuditActor | null;
+  /** One line for people reading the log */
+  description: string;
+  ipAddress?: string;
+  correlationId?: string;
+  /** Patient compartment the event touches */
+  patientId?: string;
+  /** FHIR reference ("Type/id") of the resource concerned */
+  resource?: string;
+  details?: Record<string, unknown>;
+}
+
+export type AuditEventInput = Omit<AuditEvent, 'id' | 'timestamp' | 'severity' | 'outcome' | 'source'> &
+  Partial<Pick<AuditEvent, 'severity' | 'outcome' | 'source'>>;
+
+export interface AuditQuery {
+  type?: AuditEventType;
+  severity?: AuditSeverity;
+  /** Action, or a prefix of it ending in a dot (e.g. "auth.") */
+  action?: string;
+  actorId?: string;
+  patientId?: string;
+  correlationId?: string;
+  from?: Date;
+  to?: Date;
+  /** Case-insensitive text to find in the ID, action, description, actor or resource */
+  search?: string;
+  /** Merge in the contract's DataAccessed events */
+  includeChain?: boolean;
+  limit?: number;
+  /** From a previous result's nextCursor */
+  cursor?: string;
+}
+
+export interface AuditQueryResult {
+  events: AuditEvent[];
+  /** Matching events in total */
+  total: number;
+  nextCursor?: string;
+  /** Set when on-chain events were asked for */
+  chain?: {
+    included: boolean;
+    error?: string;
+  };
+}
+
+export interface AuditServiceOptions {
+  logDir?: string;
+  retentionDays?: number;
+  /** How far back to read on-chain events, in blocks; everything if 0 */
+  chainLookbackBlocks?: number;
+}
+
+const FILE_PREFIX = 'audit-';
+const FILE_SUFFIX = '.jsonl';
+const CHAIN_CACHE_MS = 30_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Audit service
+ */
+export class AuditService {
+  private logger: Logger;
+  private files: AuditFileStore;
+  private retentionMs: number;
+  private chainLookbackBlocks: number;
+  private writeLock: Promise<unknown> = Promise.resolve();
+  private prunedDay?: string;
+  private chainCache?: { events: AuditEvent[]; fetchedAt: number };
+
+  constructor(options: AuditServiceOptions = {}) {
+    this.logger = new Logger();
+    const logDir = options.logDir || process.env.AUDIT_LOG_DIR;
+    this.files = logDir ? directoryFiles(logDir) : stateBlobFiles;
+    this.retentionMs = (options.retentionDays ?? parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '365', 10)) * DAY_MS;
+    this.chainLookbackBlocks =
+      options.chainLookbackBlocks ?? parseInt(process.env.AUDIT_CHAIN_LOOKBACK_BLOCKS || '100000', 10);
+  }
+
+  /**
+   * Append an event to the trail
+   * @returns The recorded event, or null if it was skipped or could not be written
+   */
+  public async record(input: AuditEventInput): Promise<AuditEvent | null> {
+    if (input.type === 'data' && !securityConfig.auditLogging) {
+      return null;
+    }
+
+    const event: AuditEvent = {
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      severity: 'info',
+      outcome: 'success',
+      source: 'api',
+      ...input,
+    };
+
+    const run = this.writeLock.then(async () => {
+      await this.files.append(this.fileFor(event.timestamp), `${JSON.stringify(event)}\n`);
+      await this.prune(event.timestamp.slice(0, 10));
+    });
+    this.writeLock = run.catch(() => undefined);
+
+    try {
+      await run;
+      return event;
+    } catch (error) {
+      this.logger.error('Failed to record audit event', {
+        error: error as Error,
+        action: event.action,
+        correlationId: event.correlationId,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Events matching a query, newest first
+   */
+  public async query(query: AuditQuery = {}): Promise<AuditQueryResult> {
+    const limit = Math.min(Math.max(query.limit ?? 100, 1), 1000);
+    const offset = Math.max(parseInt(query.cursor || '0', 10) || 0, 0);
+
+    let events = (await this.readEvents(query.from, query.to)).filter((event) => matches(event, query));
+    let chain: AuditQueryResult['chain'];
+
+    if (query.includeChain) {
+      try {
+        const onChain = (await this.chainEvents()).filter((event) => matches(event, query));
+        events = events.concat(onChain);
+        chain = { included: true };
+      } catch (error) {
+        this.logger.warn('Could not read on-chain access events', { error: error as Error });
+        chain = { included: false, error: (error as Error).message };
+      }
+    }
+
+    events.sort((a, b) => b.timestamp.localeCompare(a.timestamp) || a.id.localeCompare(b.id));
+    const page = events.slice(offset, offset + limit);
+
+    return {
+      events: page,
+      total: events.length,
+      ...(offset + limit < events.length && { nextCursor: String(offset + limit) }),
+      ...(chain && { chain }),
+    };
+  }
+
+  /**
+   * Every event matching a query, for export
+   */
+  public async export(query: Omit<AuditQuery, 'limit' | 'cursor'> = {}): Promise<AuditQueryResult> {
+    const first = await this.query({ ...query, limit: 1 });
+    if (first.total <= 1) {
+      return first;
+    }
+    return this.query({ ...query, limit: first.total });
+  }
+
+  private fileFor(timestamp: string): string {
+    return `${FILE_PREFIX}${timestamp.slice(0, 10)}${FILE_SUFFIX}`;
+  }
+
+  /**
+   * Events stored for the days between from and to
+   */
+  private async readEvents(from?: Date, to?: Date): Promise<AuditEvent[]> {
+    const files = await this.files.list();
+    const firstDay = from?.toISOString().slice(0, 10);
+    const lastDay = to?.toISOString().slice(0, 10);
+    const events: AuditEvent[] = [];
+
+    for (const file of files) {
+      const day = dayOf(file);
+      if (!day || (firstDay && day < firstDay) || (lastDay && day > lastDay)) {
+        continue;
+      }
+
+      const content = await this.files.read(file);
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          events.push(JSON.parse(line) as AuditEvent);
+        } catch {
+          // A line cut off by a crash mid-write
+          this.logger.warn('Skipping unreadable audit log line', { file });
+        }
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * DataAccessed events as audit events, cached briefly
+   */
+  private async chainEvents(): Promise<AuditEvent[]> {
+    if (this.chainCache && Date.now() - this.chainCache.fetchedAt < CHAIN_CACHE_MS) {
+      return this.chainCache.events;
+    }
+
+    const accessEvents = (await blockchainService.getAccessEvents(this.chainLookbackBlocks)) || [];
+    const events = accessEvents.map((access): AuditEvent => {
+      const resource = access.resourceId.replace('-', '/');
+      return {
+        id: `chain-${access.transactionHash}-${access.logIndex}`,
+        timestamp: new Date(access.timestamp * 1000).toISOString(),
+        type: 'data',
+        severity: 'info',
+        action: 'blockchain.access_logged',
+        outcome: 'success',
+        source: 'blockchain',
+        actor: { address: access.accessor },
+        description: `Access to ${resource} logged on-chain`,
+        resource,
+        details: {
+          recordId: access.recordId,
+          transactionHash: access.transactionHash,
+          blockNumber: access.blockNumber,
+        },
+      };
+    });
+
+    this.chainCache = { events, fetchedAt: Date.now() };
+    return events;
+  }
+
+  /**
+   * Delete day files past the retention period, once per day
+   */
+  private async prune(today: string): Promise<void> {
+    if (this.prunedDay === today) {
+      return;
+    }
+    this.prunedDay = today;
+
+    const cutoff = new Date(Date.now() - this.retentionMs).toISOString().slice(0, 10);
+    for (const file of await this.files.list()) {
+      const day = dayOf(file);
+      if (day && day < cutoff) {
+        await this.files.remove(file);
+        this.logger.info('Deleted expired audit log', { file });
+      }
+    }
+  }
+}
+
+/**
+ * Where the day files are kept
+ */
+interface AuditFileStore {
+  append(file: string, content: string): Promise<void>;
+  list(): Promise<string[]>;
+  read(file: string): Promise<string>;
+  remove(file: string): Promise<void>;
+}
+
+const stateBlobFiles: AuditFileStore = {
+  append: (file, content) => fhirStorageService.appendStateBlob(file, content),
+  list: () => fhirStorageService.listStateBlobs(FILE_PREFIX),
+  read: async (file) => (await fhirStorageService.readStateBlob(file))?.content || '',
+  remove: (file) => fhirStorageService.deleteStateBlob(file),
+};
+
+function directoryFiles(logDir: string): AuditFileStore {
+  return {
+    append: async (file, content) => {
+      await fs.mkdir(logDir, { recursive: true });
+      await fs.appendFile(path.join(logDir, file), content, 'utf8');
+    },
+    list: async () => {
+      try {
+        return await fs.readdir(logDir);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      }
+    },
+    read: (file) => fs.readFile(path.join(logDir, file), 'utf8'),
+    remove: (file) => fs.unlink(path.join(logDir, file)),
+  };
+}
+
+function dayOf(file: string): string | undefined {
+  return file.startsWith(FILE_PREFIX) && file.endsWith(FILE_SUFFIX)
+    ? file.slice(FILE_PREFIX.length, -FILE_SUFFIX.length)
+    : undefined;
+}
+
+function matches(event: AuditEvent, query: AuditQuery): boolean {
+  if (query.type && event.type !== query.type) return false;
+  if (query.severity && event.severity !== query.severity) return false;
+  if (query.action) {
+    const prefix = query.action.endsWith('.');
+    if (prefix ? !event.action.startsWith(query.action) : event.action !== query.action) return false;
+  }
+  if (query.actorId && event.actor?.userId !== query.actorId && event.actor?.address !== query.actorId) return false;
+  if (query.patientId && event.patientId !== query.patientId) return false;
+  if (query.correlationId && event.correlationId !== query.correlationId) return false;
+  if (query.from && event.timestamp < query.from.toISOString()) return false;
+  if (query.to && event.timestamp > query.to.toISOString()) return false;
+
+  if (query.search) {
+    const needle = query.search.toLowerCase();
+    const haystack = [
+      event.id,
+      event.action,
+      event.description,
+      event.resource,
+      event.actor?.name,
+      event.actor?.email,
+      event.actor?.userId,
+      event.actor?.address,
+      event.ipAddress,
+    ];
+    if (!haystack.some((value) => value?.toLowerCase().includes(needle))) return false;
+  }
+
+  return true;
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'type',
+  'severity',
+  'action',
+  'outcome',
+  'source',
+  'actor',
+  'role',
+  'ipAddress',
+  'correlationId',
+  'patientId',
+  'resource',
+  'description',
+] as const;
+
+/**
+ * Events as CSV, one row per event
+ */
+export function toCsv(events: AuditEvent[]): string {
+  const cell = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = events.map((event) =>
+    CSV_COLUMNS.map((column) => {
+      if (column === 'actor') {
+        const { actor } = event;
+        return cell(actor ? actor.name || actor.email || actor.userId || actor.address : 'system');
+      }
+      if (column === 'role') {
+        return cell(event.actor?.role);
+      }
+      return cell(event[column]);
+    }).join(',')
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
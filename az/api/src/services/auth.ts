@@ -0,0 +1,342 @@
+/**
+ * @fileoverview Bearer token authentication
+ * @module services/auth
+ *
+ * Verifies the `Authorization: Bearer` token of API requests and turns it into
+ * the calling user. Two kinds of token are accepted:
+ * - HS256 tokens the Next.js app signs for its signed-in user (AUTH_JWT_SECRET)
+ * - RS256/ES256 tokens from Entra ID / Azure AD B2C, checked against the issuer's
+ *   JWKS (AUTH_JWKS_URI), or a local JWKS file for tests (AUTH_JWKS_FILE)
+ *
+ * Only the identity provider's tokens may carry the user's role. For web app
+ * tokens it always comes from the user's FHIR profile: the app's session role
+ * is not authoritative.
+ *
+ * What the user may then do is decided by services/accessPolicy.
+ */
+
+import { createHmac, createPublicKey, timingSafeEqual, verify, KeyObject, JsonWebKey } from 'crypto';
+import { readFileSync } from 'fs';
+import axios from 'axios';
+import { Logger } from '../utils/logger.js';
+import { AuthenticationError } from '../utils/errors.js';
+import { fhirStorageService } from './fhirStorage.js';
+
+export type UserRole = 'Patient' | 'Practitioner' | 'Admin';
+
+export const USER_ROLES: readonly UserRole[] = ['Patient', 'Practitioner', 'Admin'];
+
+/**
+ * The authenticated caller of a request
+ */
+export interface Principal {
+  /** User ID (token subject); also the ID of the user's patient compartment */
+  userId: string;
+  role: UserRole;
+  email?: string;
+  name?: string;
+  /** Where the role came from: the token, the user's FHIR profile, or the default */
+  roleSource: 'token' | 'fhir' | 'default';
+}
+
+export interface AuthServiceOptions {
+  /** Skip verification; every request acts as a local admin (development only) */
+  disabled?: boolean;
+  /** Shared secret for HS256 tokens signed by the web app */
+  jwtSecret?: string;
+  jwksUri?: string;
+  jwksFile?: string;
+  /** Accepted issuers of JWKS-signed tokens; any issuer if empty */
+  issuers?: string[];
+  /** Accepted audiences; any audience if empty */
+  audiences?: string[];
+}
+
+interface TokenClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  email?: string;
+  emails?: string[];
+  preferred_username?: string;
+  name?: string;
+  role?: string;
+  roles?: string[];
+  [claim: string]: unknown;
+}
+
+/** Issuer of the HS256 tokens the web app signs */
+export const WEB_APP_TOKEN_ISSUER = 'lelink-web';
+
+const USER_ROLE_EXTENSION_URL = 'http://lelink.health/fhir/StructureDefinition/user-role';
+const CLOCK_SKEW_SECONDS = 60;
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+const ROLE_CACHE_MS = 5 * 60 * 1000;
+
+const LOCAL_DEV_PRINCIPAL: Principal = { userId: 'local-dev', role: 'Admin', roleSource: 'default' };
+
+/**
+ * Role a Patient/Practitioner profile grants its user. Practitioner profiles only
+ * count once an administrator has recorded the role on them; users onboarding as
+ * practitioners create them without one.
+ */
+export function profileRole(profile: { resourceType: string; extension?: any[] }): UserRole | null {
+  const extension = (profile.extension || []).find((ext: any) => ext.url === USER_ROLE_EXTENSION_URL);
+  const recorded = USER_ROLES.find(
+    (role) => typeof extension?.valueString === 'string' && role.toLowerCase() === extension.valueString.trim().toLowerCase()
+  );
+  return recorded || (profile.resourceType === 'Patient' ? 'Patient' : null);
+}
+
+/**
+ * Authentication service
+ */
+export class AuthService {
+  private logger: Logger;
+  private disabled: boolean;
+  private jwtSecret?: string;
+  private jwksUri?: string;
+  private jwksFile?: string;
+  private issuers: string[];
+  private audiences: string[];
+  private signingKeys = new Map<string, KeyObject>();
+  private signingKeysLoadedAt = 0;
+  private roleCache = new Map<string, { role: UserRole | null; expiresAt: number }>();
+
+  constructor(options: AuthServiceOptions = {}) {
+    this.logger = new Logger();
+    this.disabled = options.disabled ?? process.env.AUTH_DISABLED === 'true';
+    this.jwtSecret = options.jwtSecret || process.env.AUTH_JWT_SECRET;
+    this.jwksUri = options.jwksUri || process.env.AUTH_JWKS_URI;
+    this.jwksFile = options.jwksFile || process.env.AUTH_JWKS_FILE;
+    this.issuers = options.issuers || this.list(process.env.AUTH_ISSUERS);
+    this.audiences = options.audiences || this.list(process.env.AUTH_AUDIENCE || 'lelink-api');
+
+    if (this.disabled) {
+      this.logger.warn('API authentication is disabled (AUTH_DISABLED); every request acts as an admin');
+    } else if (!this.jwtSecret && !this.jwksUri && !this.jwksFile) {
+      this.logger.warn(
+        'No token verification configured (AUTH_JWT_SECRET, AUTH_JWKS_URI or AUTH_JWKS_FILE); all API requests will be rejected'
+      );
+    }
+  }
+
+  /**
+   * Authenticate a request from its Authorization header
+   * @throws AuthenticationError if the token is missing or invalid
+   */
+  public async authenticate(authorization: string | null | undefined): Promise<Principal> {
+    if (this.disabled) {
+      return LOCAL_DEV_PRINCIPAL;
+    }
+
+    const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      throw new AuthenticationError('Missing bearer token');
+    }
+
+    const { claims, signer } = await this.verifyToken(match[1]);
+    if (!claims.sub) {
+      throw new AuthenticationError('Token has no subject');
+    }
+
+    const email = claims.email || claims.emails?.[0] || claims.preferred_username;
+    const tokenRole = signer === 'idp' ? this.roleFromClaims(claims) : null;
+    const fhirRole = tokenRole ? null : await this.roleFromProfile(claims.sub, email);
+
+    return {
+      userId: claims.sub,
+      role: tokenRole || fhirRole || 'Patient',
+      roleSource: tokenRole ? 'token' : fhirRole ? 'fhir' : 'default',
+      email,
+      name: claims.name,
+    };
+  }
+
+  /**
+   * Check a JWT's signature, lifetime, issuer and audience
+   * @returns The token's claims, and whether the web app or the identity provider signed it
+   */
+  private async verifyToken(token: string): Promise<{ claims: TokenClaims; signer: 'web-app' | 'idp' }> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new AuthenticationError('Malformed token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    let header: { alg?: string; kid?: string };
+    let claims: TokenClaims;
+    try {
+      header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+      claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch {
+      throw new AuthenticationError('Malformed token');
+    }
+
+    const signedData = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+
+    if (header.alg === 'HS256') {
+      if (!this.jwtSecret) {
+        throw new AuthenticationError('HS256 tokens are not accepted');
+      }
+      const expected = createHmac('sha256', this.jwtSecret).update(signedData).digest();
+      if (expected.length !== signature.length || !timingSafeEqual(expected, signature)) {
+        throw new AuthenticationError('Invalid token signature');
+      }
+      if (claims.iss !== WEB_APP_TOKEN_ISSUER) {
+        throw new AuthenticationError('Untrusted token issuer', { issuer: claims.iss });
+      }
+    } else if (header.alg === 'RS256' || header.alg === 'ES256') {
+      const key = await this.getSigningKey(header.kid);
+      const valid = verify(
+        'sha256',
+        signedData,
+        header.alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+        signature
+      );
+      if (!valid) {
+        throw new AuthenticationError('Invalid token signature');
+      }
+      if (this.issuers.length > 0 && !this.issuers.includes(claims.iss || '')) {
+        throw new AuthenticationError('Untrusted token issuer', { issuer: claims.iss });
+      }
+    } else {
+      throw new AuthenticationError('Unsupported token algorithm', { alg: header.alg });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new AuthenticationError('Token has expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+      throw new AuthenticationError('Token is not yet valid');
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : [];
+    if (this.audiences.length > 0 && !audiences.some((aud) => this.audiences.includes(aud))) {
+      throw new AuthenticationError('Token audience not accepted', { audience: claims.aud });
+    }
+
+    return { claims, signer: header.alg === 'HS256' ? 'web-app' : 'idp' };
+  }
+
+  /**
+   * Public key for a key ID, reloading the key set when the ID is unknown (key rotation)
+   */
+  private async getSigningKey(kid: string | undefined): Promise<KeyObject> {
+    const stale = Date.now() - this.signingKeysLoadedAt > JWKS_CACHE_MS;
+    if (stale || !this.signingKeys.has(kid || '')) {
+      await this.loadSigningKeys();
+    }
+
+    // A token without a key ID is fine when the key set has a single key
+    const onlyKey = !kid && this.signingKeys.size === 1 ? [...this.signingKeys.values()][0] : undefined;
+    const key = this.signingKeys.get(kid || '') || onlyKey;
+    if (!key) {
+      throw new AuthenticationError('Unknown token signing key', { kid });
+    }
+    return key;
+  }
+
+  private async loadSigningKeys(): Promise<void> {
+    // Don't hammer the JWKS endpoint with tokens carrying made-up key IDs
+    if (this.signingKeysLoadedAt && Date.now() - this.signingKeysLoadedAt < 30 * 1000) {
+      return;
+    }
+
+    let jwks: { keys?: Array<JsonWebKey & { kid?: string; use?: string }> };
+    try {
+      if (this.jwksFile) {
+        jwks = JSON.parse(readFileSync(this.jwksFile, 'utf8'));
+      } else if (this.jwksUri) {
+        jwks = (await axios.get(this.jwksUri, { timeout: 10000 })).data;
+      } else {
+        throw new AuthenticationError('RS256/ES256 tokens are not accepted');
+      }
+    } catch (error) {
+      if (error instanceof AuthenticationError) throw error;
+      this.logger.error('Failed to load token signing keys', {
+        error: error as Error,
+        source: this.jwksFile || this.jwksUri,
+      });
+      throw new AuthenticationError('Token signing keys unavailable');
+    }
+
+    this.signingKeys.clear();
+    for (const jwk of jwks.keys || []) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+      try {
+        this.signingKeys.set(jwk.kid || '', createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch (error) {
+        this.logger.warn('Skipping unusable JWKS key', { kid: jwk.kid, error: error as Error });
+      }
+    }
+    this.signingKeysLoadedAt = Date.now();
+
+    this.logger.info('Token signing keys loaded', { keyCount: this.signingKeys.size });
+  }
+
+  /**
+   * Role from a `role` claim, Entra app `roles`, or a B2C `extension_*role` attribute
+   * of an identity provider's token
+   */
+  private roleFromClaims(claims: TokenClaims): UserRole | null {
+    const candidates: unknown[] = [
+      claims.role,
+      ...(Array.isArray(claims.roles) ? claims.roles : []),
+      ...Object.entries(claims)
+        .filter(([name]) => /^extension_(\w+_)?(user)?role$/i.test(name))
+        .map(([, value]) => value),
+    ];
+
+    for (const candidate of candidates) {
+      const role = this.normalizeRole(candidate);
+      if (role) return role;
+    }
+    return null;
+  }
+
+  /**
+   * Role recorded on the user's Patient/Practitioner resource, for tokens without one.
+   * A Practitioner profile without a recorded role leaves the Patient profile's role in place.
+   */
+  private async roleFromProfile(userId: string, email?: string): Promise<UserRole | null> {
+    const cached = this.roleCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.role;
+    }
+
+    let role: UserRole | null = null;
+    try {
+      for (const resourceType of ['Practitioner', 'Patient'] as const) {
+        const profile = await fhirStorageService.findUserProfile(userId, resourceType, email);
+        role = profile && profileRole(profile);
+        if (role) break;
+      }
+    } catch (error) {
+      this.logger.warn('Could not look up user role', { error: error as Error, userId });
+      return null;
+    }
+
+    this.roleCache.set(userId, { role, expiresAt: Date.now() + ROLE_CACHE_MS });
+    return role;
+  }
+
+  private normalizeRole(value: unknown): UserRole | null {
+    if (typeof value !== 'string') return null;
+    return USER_ROLES.find((role) => role.toLowerCase() === value.trim().toLowerCase()) || null;
+  }
+
+  private list(value: string | undefined): string[] {
+    return (value || '')
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
@@ -9,6 +9,11 @@
 import { ethers, Contract, Provider, Wallet } from 'ethers';
 import { Logger } from '../utils/logger.js';
 import { BlockchainError } from '../utils/errors.js';
+import { hashResource as canonicalHash } from '../utils/canonicalHash.js';
+import { blockchainConfig } from '../utils/config.js';
+
+/** Blocks per eth_getLogs call; RPC providers reject or time out on larger ranges */
+const EVENT_QUERY_BLOCK_RANGE = 10_000;
 
 export interface BlockchainConfig {
   enabled: boolean;
@@ -16,6 +21,8 @@ export interface BlockchainConfig {
   network: string;
   privateKey: string;
   contractAddress?: string;
+  /** Block the contract was deployed in; event lookups start there */
+  deploymentBlock?: number;
 }
 
 export interface TransactionResult {
@@ -31,6 +38,65 @@ export interface ContractCallResult {
   gasUsed?: string;
 }
 
+export interface ResourceAnchor {
+  resourceId: string;
+  owner: string;
+  onChainHash: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  timestamp?: number;
+}
+
+export interface AccessLogResult {
+  success: boolean;
+  network: string;
+  contractAddress: string;
+  results: Array<{
+    resourceId: string;
+    transactionHash: string;
+    blockNumber: number;
+  }>;
+  failures: Array<{
+    resourceId: string;
+    error: string;
+  }>;
+}
+
+/**
+ * A DataAccessed event, emitted when someone logs that they accessed a record (logAccess)
+ */
+export interface AccessEvent {
+  recordId: string;
+  accessor: string;
+  /** On-chain resource ID ("Type-id") */
+  resourceId: string;
+  /** Block time in seconds */
+  timestamp: number;
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface BatchAnchorResult {
+  network: string;
+  contractAddress: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  anchored: string[];
+  /** Records that existed with an older hash, re-anchored with updateRecord (one transaction each) */
+  updated: Array<{
+    resourceId: string;
+    transactionHash: string;
+    blockNumber: number;
+  }>;
+  alreadyAnchored: string[];
+}
+
+export interface BatchAnchorOptions {
+  /** Raise the network fee by this percentage, used when retrying gas/fee failures */
+  gasBumpPercent?: number;
+}
+
 export interface FHIRHashRecord {
   resourceId: string;
   resourceType: string;
@@ -65,6 +131,36 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Apply new settings; the connection is re-established on next use if the endpoint, key or contract changed
+   */
+  public configure(config: BlockchainConfig): void {
+    const reconnect =
+      config.rpcUrl !== this.config.rpcUrl ||
+      config.privateKey !== this.config.privateKey ||
+      config.contractAddress !== this.config.contractAddress ||
+      config.network !== this.config.network;
+    const wasEnabled = this.isEnabled;
+
+    this.config = { ...config };
+    this.isEnabled = config.enabled;
+
+    if (reconnect) {
+      this.provider?.destroy();
+      this.provider = null;
+      this.wallet = null;
+      this.contract = null;
+    }
+    if (reconnect || wasEnabled !== this.isEnabled) {
+      this.logger.info('Blockchain service reconfigured', {
+        enabled: this.isEnabled,
+        network: this.config.network,
+        rpcUrl: this.config.rpcUrl,
+        contractAddress: this.config.contractAddress,
+      });
+    }
+  }
+
   /**
    * Initialize blockchain connection
    */
@@ -147,20 +243,163 @@ export class BlockchainService {
         {
           "inputs": [
             { "internalType": "string", "name": "resourceId", "type": "string" },
-            { "internalType": "string", "name": "dataHash", "type": "string" },
+            { "internalType": "bytes32", "name": "dataHash", "type": "bytes32" },
             { "internalType": "address", "name": "owner", "type": "address" }
           ],
           "name": "createRecord",
           "outputs": [],
           "stateMutability": "nonpayable",
           "type": "function"
+        },
+        {
+          "inputs": [
+            { "internalType": "string[]", "name": "_resourceIdStrs", "type": "string[]" },
+            { "internalType": "bytes32[]", "name": "_dataHashes", "type": "bytes32[]" },
+            { "internalType": "address", "name": "_owner", "type": "address" }
+          ],
+          "name": "createRecords",
+          "outputs": [],
+          "stateMutability": "nonpayable",
+          "type": "function"
+        },
+        {
+          "inputs": [
+            { "internalType": "string", "name": "_resourceIdStr", "type": "string" },
+            { "internalType": "bytes32", "name": "_newDataHash", "type": "bytes32" },
+            { "internalType": "address", "name": "_owner", "type": "address" }
+          ],
+          "name": "updateRecord",
+          "outputs": [],
+          "stateMutability": "nonpayable",
+          "type": "function"
+        },
+        {
+          "inputs": [
+            { "internalType": "string", "name": "_resourceIdStr", "type": "string" },
+            { "internalType": "address", "name": "_owner", "type": "address" }
+          ],
+          "name": "recordExists",
+          "outputs": [{ "internalType": "bool", "name": "", "type": "bool" }],
+          "stateMutability": "view",
+          "type": "function"
+        },
+        {
+          "inputs": [
+            { "internalType": "string", "name": "_resourceIdStr", "type": "string" },
+            { "internalType": "address", "name": "_owner", "type": "address" }
+          ],
+          "name": "getRecordHash",
+          "outputs": [{ "internalType": "bytes32", "name": "", "type": "bytes32" }],
+          "stateMutability": "view",
+          "type": "function"
+        },
+        {
+          "inputs": [
+            { "internalType": "string", "name": "_resourceIdStr", "type": "string" },
+            { "internalType": "address", "name": "_owner", "type": "address" }
+          ],
+          "name": "getRecord",
+          "outputs": [
+            { "internalType": "address", "name": "creator", "type": "address" },
+            { "internalType": "bytes32", "name": "dataHash", "type": "bytes32" },
+            { "internalType": "uint64", "name": "createdAt", "type": "uint64" },
+            { "internalType": "uint64", "name": "lastModified", "type": "uint64" }
+          ],
+          "stateMutability": "view",
+          "type": "function"
+        },
+        {
+          "inputs": [],
+          "name": "HASH_FORMAT_VERSION",
+          "outputs": [{ "internalType": "uint8", "name": "", "type": "uint8" }],
+          "stateMutability": "view",
+          "type": "function"
+        },
+        {
+          "inputs": [
+            { "internalType": "string", "name": "_resourceIdStr", "type": "string" },
+            { "internalType": "address", "name": "_owner", "type": "address" }
+          ],
+          "name": "getRecordId",
+          "outputs": [{ "internalType": "bytes32", "name": "", "type": "bytes32" }],
+          "stateMutability": "pure",
+          "type": "function"
+        },
+        {
+          "inputs": [
+            { "internalType": "string", "name": "_resourceIdStr", "type": "string" },
+            { "internalType": "address", "name": "_owner", "type": "address" },
+            { "internalType": "address", "name": "_recipient", "type": "address" }
+          ],
+          "name": "logShareAccess",
+          "outputs": [],
+          "stateMutability": "nonpayable",
+          "type": "function"
+        },
+        {
+          "inputs": [
+            { "internalType": "string", "name": "_resourceIdStr", "type": "string" },
+            { "internalType": "address", "name": "_owner", "type": "address" },
+            { "internalType": "address", "name": "_userToRevoke", "type": "address" }
+          ],
+          "name": "logRevokeAccess",
+          "outputs": [],
+          "stateMutability": "nonpayable",
+          "type": "function"
+        },
+        {
+          "anonymous": false,
+          "inputs": [
+            { "indexed": true, "internalType": "bytes32", "name": "recordId", "type": "bytes32" },
+            { "indexed": true, "internalType": "address", "name": "owner", "type": "address" },
+            { "indexed": true, "internalType": "address", "name": "creator", "type": "address" },
+            { "indexed": false, "internalType": "string", "name": "resourceId", "type": "string" },
+            { "indexed": false, "internalType": "bytes32", "name": "dataHash", "type": "bytes32" },
+            { "indexed": false, "internalType": "uint64", "name": "timestamp", "type": "uint64" }
+          ],
+          "name": "DataCreated",
+          "type": "event"
+        },
+        {
+          "anonymous": false,
+          "inputs": [
+            { "indexed": true, "internalType": "bytes32", "name": "recordId", "type": "bytes32" },
+            { "indexed": true, "internalType": "address", "name": "updater", "type": "address" },
+            { "indexed": false, "internalType": "string", "name": "resourceId", "type": "string" },
+            { "indexed": false, "internalType": "bytes32", "name": "newDataHash", "type": "bytes32" },
+            { "indexed": false, "internalType": "uint64", "name": "timestamp", "type": "uint64" }
+          ],
+          "name": "DataUpdated",
+          "type": "event"
+        },
+        {
+          "anonymous": false,
+          "inputs": [
+            { "indexed": true, "internalType": "bytes32", "name": "recordId", "type": "bytes32" },
+            { "indexed": true, "internalType": "address", "name": "accessor", "type": "address" },
+            { "indexed": false, "internalType": "string", "name": "resourceId", "type": "string" },
+            { "indexed": false, "internalType": "uint64", "name": "timestamp", "type": "uint64" }
+          ],
+          "name": "DataAccessed",
+          "type": "event"
         }
       ];
 
       this.contract = new ethers.Contract(this.config.contractAddress, contractABI, this.wallet);
 
+      // v1 deployments take the hash as a string and truncate it; refuse to write to them
+      let hashFormatVersion: number;
+      try {
+        hashFormatVersion = Number(await this.contract.HASH_FORMAT_VERSION());
+      } catch {
+        throw new Error(
+          'Contract does not support full-width bytes32 hashes (LeLink v1). Redeploy with sc/LeLink-SC/scripts/deploy.ts'
+        );
+      }
+
       this.logger.info('Smart contract initialized', {
         contractAddress: this.config.contractAddress,
+        hashFormatVersion,
       });
     } catch (error) {
       throw new BlockchainError('Failed to initialize contract', 'contractInit', {
@@ -172,6 +411,10 @@ export class BlockchainService {
 
   /**
    * Store FHIR resource hash on blockchain
+   * @param resourceId FHIR resource ID
+   * @param resourceType FHIR resource type
+   * @param patientId Patient who owns the resource
+   * @param hash Full 32-byte hex digest of the resource
    */
   public async storeFHIRHash(
     resourceId: string,
@@ -179,23 +422,19 @@ export class BlockchainService {
     patientId: string,
     hash: string
   ): Promise<TransactionResult> {
-    if (!this.isEnabled) {
-      throw new BlockchainError('Blockchain service is disabled', 'storeFHIRHash');
-    }
+    await this._ensureContract('storeFHIRHash');
 
-    if (!this.contract) {
-      throw new BlockchainError('Contract not initialized', 'storeFHIRHash');
-    }
+    const onChainId = `${resourceType}-${resourceId}`;
 
     try {
       this.logger.info('Storing FHIR hash on blockchain', {
-        resourceId,
+        resourceId: onChainId,
         resourceType,
         patientId,
         hash,
       });
 
-      const tx = await this.contract.storeFHIRHash(resourceId, resourceType, patientId, hash);
+      const tx = await this.contract!.createRecord(onChainId, this.toBytes32(hash), this.getOwnerAddress(patientId));
       const receipt = await tx.wait();
 
       const result: TransactionResult = {
@@ -206,7 +445,7 @@ export class BlockchainService {
       };
 
       this.logger.info('FHIR hash stored on blockchain', {
-        resourceId,
+        resourceId: onChainId,
         transactionHash: result.transactionHash,
         blockNumber: result.blockNumber,
         gasUsed: result.gasUsed,
@@ -216,7 +455,7 @@ export class BlockchainService {
     } catch (error) {
       this.logger.error('Failed to store FHIR hash on blockchain', {
         error: error as Error,
-        resourceId,
+        resourceId: onChainId,
         resourceType,
         patientId,
       });
@@ -231,32 +470,31 @@ export class BlockchainService {
 
   /**
    * Retrieve FHIR resource hash from blockchain
+   * @param resourceId On-chain resource ID ("ResourceType-id")
+   * @param patientId Patient who owns the resource
    */
-  public async getFHIRHash(resourceId: string): Promise<FHIRHashRecord | null> {
-    if (!this.isEnabled) {
-      throw new BlockchainError('Blockchain service is disabled', 'getFHIRHash');
-    }
-
-    if (!this.contract) {
-      throw new BlockchainError('Contract not initialized', 'getFHIRHash');
-    }
+  public async getFHIRHash(resourceId: string, patientId?: string): Promise<FHIRHashRecord | null> {
+    await this._ensureContract('getFHIRHash');
 
     try {
-      const result = await this.contract.getFHIRHash(resourceId);
-
-      // If no record found, result[0] (resourceId) will be empty
-      if (!result[0]) {
+      const owner = this.getOwnerAddress(patientId);
+      const exists: boolean = await this.contract!.recordExists(resourceId, owner);
+      if (!exists) {
         return null;
       }
 
+      const [, dataHash, createdAt] = await this.contract!.getRecord(resourceId, owner);
+      const recordId: string = await this.contract!.getRecordId(resourceId, owner);
+      const created = await this.latestEvent([this.contract!.filters.DataCreated(recordId)]);
+
       const record: FHIRHashRecord = {
-        resourceId: result[0],
-        resourceType: result[1],
-        patientId: result[2],
-        hash: result[3],
-        timestamp: Number(result[4]),
-        blockNumber: 0, // Would need to be retrieved separately
-        transactionHash: '', // Would need to be retrieved separately
+        resourceId,
+        resourceType: resourceId.split('-')[0],
+        patientId: patientId || '',
+        hash: dataHash,
+        timestamp: Number(createdAt),
+        blockNumber: created?.blockNumber ?? 0,
+        transactionHash: created?.transactionHash ?? '',
       };
 
       this.logger.debug('FHIR hash retrieved from blockchain', {
@@ -278,19 +516,23 @@ export class BlockchainService {
   }
 
   /**
-   * Verify FHIR resource hash on blockchain
+   * Verify FHIR resource hash on blockchain by comparing the full 32-byte digests
+   * @param resourceId On-chain resource ID ("ResourceType-id")
+   * @param hash Digest of the resource as currently stored
+   * @param patientId Patient who owns the resource
    */
-  public async verifyFHIRHash(resourceId: string, hash: string): Promise<boolean> {
-    if (!this.isEnabled) {
-      throw new BlockchainError('Blockchain service is disabled', 'verifyFHIRHash');
-    }
-
-    if (!this.contract) {
-      throw new BlockchainError('Contract not initialized', 'verifyFHIRHash');
-    }
+  public async verifyFHIRHash(resourceId: string, hash: string, patientId?: string): Promise<boolean> {
+    await this._ensureContract('verifyFHIRHash');
 
     try {
-      const isValid = await this.contract.verifyFHIRHash(resourceId, hash);
+      const owner = this.getOwnerAddress(patientId);
+      const exists: boolean = await this.contract!.recordExists(resourceId, owner);
+      if (!exists) {
+        return false;
+      }
+
+      const onChainHash: string = await this.contract!.getRecordHash(resourceId, owner);
+      const isValid = onChainHash.toLowerCase() === this.toBytes32(hash);
 
       this.logger.debug('FHIR hash verification result', {
         resourceId,
@@ -313,6 +555,69 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Ensure the service is enabled and the contract is initialized
+   */
+  private async _ensureContract(operation: string): Promise<void> {
+    if (!this.isEnabled) {
+      throw new BlockchainError('Blockchain service is disabled', operation);
+    }
+
+    if (!this.isReady()) {
+      await this._initialize();
+    }
+
+    if (!this.contract) {
+      throw new BlockchainError('Contract not initialized', operation);
+    }
+  }
+
+  /**
+   * Latest event matching any of the filters, searched from the newest block back to
+   * the deployment block in windows of EVENT_QUERY_BLOCK_RANGE blocks
+   */
+  private async latestEvent(filters: ethers.DeferredTopicFilter[]): Promise<ethers.EventLog | undefined> {
+    const latestBlock = await this.provider!.getBlockNumber();
+
+    for (const [fromBlock, toBlock] of this.blockWindows(this.config.deploymentBlock || 0, latestBlock, true)) {
+      const events = (
+        await Promise.all(filters.map((filter) => this.contract!.queryFilter(filter, fromBlock, toBlock)))
+      ).flat();
+      if (events.length > 0) {
+        return events.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index).pop() as ethers.EventLog;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Block ranges of at most EVENT_QUERY_BLOCK_RANGE blocks covering fromBlock..toBlock,
+   * as public RPC endpoints reject event queries over larger ranges
+   */
+  private *blockWindows(fromBlock: number, toBlock: number, newestFirst = false): Generator<[number, number]> {
+    if (newestFirst) {
+      for (let end = toBlock; end >= fromBlock; end -= EVENT_QUERY_BLOCK_RANGE) {
+        yield [Math.max(fromBlock, end - EVENT_QUERY_BLOCK_RANGE + 1), end];
+      }
+    } else {
+      for (let start = fromBlock; start <= toBlock; start += EVENT_QUERY_BLOCK_RANGE) {
+        yield [start, Math.min(toBlock, start + EVENT_QUERY_BLOCK_RANGE - 1)];
+      }
+    }
+  }
+
+  /**
+   * Normalize a hex digest to the 0x-prefixed 32-byte form stored by the contract
+   */
+  private toBytes32(hash: string): string {
+    const prefixed = hash.startsWith('0x') ? hash : `0x${hash}`;
+    if (!ethers.isHexString(prefixed, 32)) {
+      throw new BlockchainError('Data hash must be a 32-byte hex digest', 'toBytes32', { hash });
+    }
+    return prefixed.toLowerCase();
+  }
+
   /**
    * Log multiple FHIR resources to the blockchain
    * @param resources Array of FHIR resources to log
@@ -361,10 +666,7 @@ export class BlockchainService {
         const resourceId = `${resource.resourceType}-${resource.id}`;
         const dataHash = this.hashResource(resource);
         
-        // Use wallet address as owner if no patient ID provided
-        const owner = patientId ? 
-          ethers.getAddress(ethers.id(patientId).slice(0, 42)) : 
-          this.wallet!.address;
+        const owner = this.getOwnerAddress(patientId);
 
         this.logger.info('Logging resource to blockchain', {
           resourceId,
@@ -375,10 +677,17 @@ export class BlockchainService {
           nonce: currentNonce
         });
 
-        // Send transaction using createRecord method with explicit nonce
-        const tx = await this.contract.createRecord(resourceId, dataHash, owner, {
-          nonce: currentNonce
-        });
+        // A record that already exists is a new version of the resource: update its hash instead
+        const exists: boolean = await this.contract.recordExists(resourceId, owner);
+        if (exists && (await this.contract.getRecordHash(resourceId, owner)) === this.toBytes32(dataHash)) {
+          this.logger.debug('Resource already anchored with this hash', { resourceId });
+          continue;
+        }
+
+        // Send transaction using createRecord/updateRecord with explicit nonce
+        const tx = exists
+          ? await this.contract.updateRecord(resourceId, this.toBytes32(dataHash), owner, { nonce: currentNonce })
+          : await this.contract.createRecord(resourceId, this.toBytes32(dataHash), owner, { nonce: currentNonce });
         
         // Wait for confirmation  
         const receipt = await tx.wait();
@@ -424,12 +733,359 @@ export class BlockchainService {
   }
 
   /**
-   * Hash FHIR resource data (matching JavaScript implementation)
+   * Anchor a batch of resource hashes for one patient in a single createRecords transaction.
+   * Records that already exist on-chain with the same hash are skipped, so a retried batch never
+   * reverts on them; records that exist with another hash (a new version) get an updateRecord each.
+   * Failures are thrown as BlockchainError with the ethers error code in details.code.
+   * @param records On-chain resource IDs ("Type-id") and their canonical hashes
+   * @param patientId Patient who owns the records
+   * @param options Fee bump applied on retries
+   */
+  public async createRecordsBatch(
+    records: Array<{ resourceId: string; dataHash: string }>,
+    patientId: string,
+    options: BatchAnchorOptions = {}
+  ): Promise<BatchAnchorResult> {
+    await this._ensureContract('createRecordsBatch');
+
+    const owner = this.getOwnerAddress(patientId);
+    const pending: Array<{ resourceId: string; dataHash: string }> = [];
+    const stale: Array<{ resourceId: string; dataHash: string }> = [];
+    const alreadyAnchored: string[] = [];
+
+    try {
+      // createRecords reverts on a repeated ID; the hash given last for an ID wins
+      const unique = [...new Map(records.map((record) => [record.resourceId, record])).values()];
+
+      for (const record of unique) {
+        if (!(await this.contract!.recordExists(record.resourceId, owner))) {
+          pending.push(record);
+        } else if ((await this.contract!.getRecordHash(record.resourceId, owner)) !== this.toBytes32(record.dataHash)) {
+          stale.push(record);
+        } else {
+          alreadyAnchored.push(record.resourceId);
+        }
+      }
+
+      const result: BatchAnchorResult = {
+        network: this.config.network,
+        contractAddress: this.config.contractAddress || '',
+        anchored: [],
+        updated: [],
+        alreadyAnchored,
+      };
+
+      if (pending.length === 0 && stale.length === 0) {
+        return result;
+      }
+
+      const overrides: Record<string, bigint | number> = {
+        nonce: await this.wallet!.getNonce('pending'),
+      };
+      if (options.gasBumpPercent) {
+        const feeData = await this.provider!.getFeeData();
+        const bump = (fee: bigint) => (fee * BigInt(100 + options.gasBumpPercent!)) / 100n;
+        if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+          overrides.maxFeePerGas = bump(feeData.maxFeePerGas);
+          overrides.maxPriorityFeePerGas = bump(feeData.maxPriorityFeePerGas);
+        } else if (feeData.gasPrice) {
+          overrides.gasPrice = bump(feeData.gasPrice);
+        }
+      }
+
+      this.logger.info('Anchoring resource batch on blockchain', {
+        patientId,
+        recordCount: pending.length,
+        updateCount: stale.length,
+        skipped: alreadyAnchored.length,
+        nonce: overrides.nonce,
+        gasBumpPercent: options.gasBumpPercent || 0,
+      });
+
+      if (pending.length > 0) {
+        const tx = await this.contract!.createRecords(
+          pending.map((r) => r.resourceId),
+          pending.map((r) => this.toBytes32(r.dataHash)),
+          owner,
+          overrides
+        );
+        const receipt = await tx.wait();
+
+        this.logger.info('Resource batch anchored on blockchain', {
+          patientId,
+          recordCount: pending.length,
+          txHash: receipt.hash,
+          blockNumber: receipt.blockNumber,
+        });
+
+        result.transactionHash = receipt.hash;
+        result.blockNumber = receipt.blockNumber;
+        result.anchored = pending.map((r) => r.resourceId);
+        overrides.nonce = Number(overrides.nonce) + 1;
+      }
+
+      for (const record of stale) {
+        const tx = await this.contract!.updateRecord(record.resourceId, this.toBytes32(record.dataHash), owner, overrides);
+        const receipt = await tx.wait();
+        overrides.nonce = Number(overrides.nonce) + 1;
+
+        result.updated.push({
+          resourceId: record.resourceId,
+          transactionHash: receipt.hash,
+          blockNumber: receipt.blockNumber,
+        });
+
+        this.logger.info('Resource version anchored on blockchain', {
+          patientId,
+          resourceId: record.resourceId,
+          txHash: receipt.hash,
+          blockNumber: receipt.blockNumber,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      if (error instanceof BlockchainError) {
+        throw error;
+      }
+      throw new BlockchainError('Failed to anchor resource batch', 'createRecordsBatch', {
+        originalError: (error as Error).message,
+        code: (error as { code?: string }).code,
+        patientId,
+        recordCount: records.length,
+      });
+    }
+  }
+
+  /**
+   * Log that a patient shared records with a recipient (logShareAccess)
+   * @param resourceRefs FHIR references of the shared records (e.g. "Observation/123")
+   * @param patientId Patient who owns the records
+   * @param recipientId User ID of the recipient, mapped to an address like patient IDs
+   * @returns Per-record results, or null if blockchain logging is disabled
+   */
+  public async logShareAccess(resourceRefs: string[], patientId: string, recipientId: string): Promise<AccessLogResult | null> {
+    return this._logAccessChange('logShareAccess', resourceRefs, patientId, recipientId);
+  }
+
+  /**
+   * Log that a recipient's access to a patient's records was revoked (logRevokeAccess)
+   * @param resourceRefs FHIR references of the records (e.g. "Observation/123")
+   * @param patientId Patient who owns the records
+   * @param recipientId User ID of the recipient whose access ended
+   * @returns Per-record results, or null if blockchain logging is disabled
+   */
+  public async logRevokeAccess(resourceRefs: string[], patientId: string, recipientId: string): Promise<AccessLogResult | null> {
+    return this._logAccessChange('logRevokeAccess', resourceRefs, patientId, recipientId);
+  }
+
+  /**
+   * Send one share/revoke log transaction per record.
+   * Records that were never anchored revert on-chain; they are reported as failures
+   * without aborting the remaining records.
+   */
+  private async _logAccessChange(
+    method: 'logShareAccess' | 'logRevokeAccess',
+    resourceRefs: string[],
+    patientId: string,
+    recipientId: string
+  ): Promise<AccessLogResult | null> {
+    if (!this.config.enabled) {
+      this.logger.debug('Blockchain logging disabled, skipping', { method });
+      return null;
+    }
+
+    if (!this.isReady()) {
+      try {
+        await this._initialize();
+      } catch (error) {
+        this.logger.error('Failed to initialize blockchain service for access logging', {
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+        return null;
+      }
+    }
+
+    if (!this.contract) {
+      this.logger.warn('Blockchain service not properly initialized after initialization attempt');
+      return null;
+    }
+
+    const owner = this.getOwnerAddress(patientId);
+    const recipient = this.getOwnerAddress(recipientId);
+    const results: AccessLogResult['results'] = [];
+    const failures: AccessLogResult['failures'] = [];
+
+    try {
+      let currentNonce = await this.wallet!.getNonce('pending');
+
+      for (const ref of resourceRefs) {
+        // On-chain resource IDs use "Type-id" (see logResources)
+        const resourceId = ref.replace('/', '-');
+
+        try {
+          const tx = await this.contract[method](resourceId, owner, recipient, {
+            nonce: currentNonce
+          });
+          const receipt = await tx.wait();
+          currentNonce++;
+
+          results.push({
+            resourceId,
+            transactionHash: receipt.hash,
+            blockNumber: receipt.blockNumber
+          });
+        } catch (error) {
+          // A reverted call is rejected during gas estimation, so the nonce is not consumed
+          failures.push({ resourceId, error: (error as Error).message });
+          this.logger.warn('Failed to log access change for record', {
+            method,
+            resourceId,
+            patientId,
+            error: error as Error
+          });
+        }
+      }
+
+      this.logger.info('Access change logged to blockchain', {
+        method,
+        patientId,
+        recipient: recipient.substring(0, 10) + '...',
+        logged: results.length,
+        failed: failures.length
+      });
+
+      return {
+        success: failures.length === 0,
+        network: this.config.network,
+        contractAddress: this.config.contractAddress || '',
+        results,
+        failures
+      };
+    } catch (error) {
+      throw new BlockchainError(`Failed to ${method}`, method, {
+        originalError: (error as Error).message,
+        resourceCount: resourceRefs.length,
+        patientId
+      });
+    }
+  }
+
+  /**
+   * Look up the on-chain anchor (stored hash and the transaction that wrote it) of a FHIR resource
+   * @param resource FHIR resource that was logged with logResources
+   * @param patientId Patient ID used as owner when the resource was logged
+   * @returns Anchor details, or null if blockchain logging is disabled or the record does not exist
+   */
+  public async getResourceAnchor(resource: any, patientId?: string): Promise<ResourceAnchor | null> {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    if (!this.isReady()) {
+      await this._initialize();
+    }
+
+    if (!this.contract) {
+      throw new BlockchainError('Contract not initialized', 'getResourceAnchor');
+    }
+
+    const resourceId = `${resource.resourceType}-${resource.id}`;
+    const owner = this.getOwnerAddress(patientId);
+
+    try {
+      const exists: boolean = await this.contract.recordExists(resourceId, owner);
+      if (!exists) {
+        return null;
+      }
+
+      // Same ID as LeLink.generateRecordId, without another call
+      const recordId = ethers.solidityPackedKeccak256(['string', 'address'], [resourceId, owner]);
+      // The stored hash was written by the latest of these events
+      const [onChainHash, latest] = await Promise.all([
+        this.contract.getRecordHash(resourceId, owner) as Promise<string>,
+        this.latestEvent([this.contract.filters.DataCreated(recordId), this.contract.filters.DataUpdated(recordId)]),
+      ]);
+
+      return {
+        resourceId,
+        owner,
+        onChainHash,
+        transactionHash: latest?.transactionHash,
+        blockNumber: latest?.blockNumber,
+        timestamp: latest?.args ? Number(latest.args.timestamp) : undefined,
+      };
+    } catch (error) {
+      this.logger.error('Failed to look up resource anchor', {
+        error: error as Error,
+        resourceId,
+      });
+      throw new BlockchainError('Failed to look up resource anchor', 'getResourceAnchor', {
+        originalError: (error as Error).message,
+        resourceId,
+      });
+    }
+  }
+
+  /**
+   * DataAccessed events of all records, oldest first
+   * @param lookbackBlocks Only search this many blocks back from the latest one; back to the deployment block if 0
+   * @returns Events, or null if blockchain logging is disabled
+   */
+  public async getAccessEvents(lookbackBlocks = 0): Promise<AccessEvent[] | null> {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    await this._ensureContract('getAccessEvents');
+
+    try {
+      const latestBlock = await this.provider!.getBlockNumber();
+      const deploymentBlock = this.config.deploymentBlock || 0;
+      const startBlock = lookbackBlocks > 0 ? Math.max(deploymentBlock, latestBlock - lookbackBlocks) : deploymentBlock;
+
+      const events: ethers.EventLog[] = [];
+      for (const [fromBlock, toBlock] of this.blockWindows(startBlock, latestBlock)) {
+        events.push(
+          ...((await this.contract!.queryFilter(
+            this.contract!.filters.DataAccessed(),
+            fromBlock,
+            toBlock
+          )) as ethers.EventLog[])
+        );
+      }
+
+      return events.map((event) => ({
+        recordId: event.args[0],
+        accessor: event.args[1],
+        resourceId: event.args[2],
+        timestamp: Number(event.args[3]),
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        logIndex: event.index,
+      }));
+    } catch (error) {
+      throw new BlockchainError('Failed to read access events', 'getAccessEvents', {
+        originalError: (error as Error).message,
+        lookbackBlocks,
+      });
+    }
+  }
+
+  /**
+   * Derive the on-chain owner address for a patient
+   * Uses the wallet address as owner if no patient ID is provided
+   */
+  public getOwnerAddress(patientId?: string): string {
+    return patientId ? ethers.getAddress(ethers.id(patientId).slice(0, 42)) : this.wallet!.address;
+  }
+
+  /**
+   * Hash FHIR resource data as canonical JSON (see utils/canonicalHash)
    */
   public hashResource(resource: any): string {
     try {
-      const resourceString = JSON.stringify(resource);
-      return ethers.keccak256(ethers.toUtf8Bytes(resourceString));
+      return canonicalHash(resource);
     } catch (error) {
       throw new BlockchainError('Failed to hash FHIR resource', 'hashResource', {
         originalError: (error as Error).message,
@@ -535,25 +1191,8 @@ export class BlockchainService {
   }
 }
 
-// Configuration matching the JavaScript version
-const config = {
-  blockchain: {
-    enabled: process.env.BLOCKCHAIN_ENABLED === 'true',
-    rpcUrl: process.env.BLOCKCHAIN_RPC_URL || '',
-    network: process.env.BLOCKCHAIN_NETWORK || 'localhost',
-    privateKey: process.env.BLOCKCHAIN_PRIVATE_KEY || '',
-    contractAddress: process.env.BLOCKCHAIN_CONTRACT_ADDRESS,
-  }
-};
-
 // Export singleton instance
-export const blockchainService = new BlockchainService({
-  enabled: config.blockchain.enabled,
-  rpcUrl: config.blockchain.rpcUrl,
-  network: config.blockchain.network,
-  privateKey: config.blockchain.privateKey,
-  contractAddress: config.blockchain.contractAddress,
-});
+export const blockchainService = new BlockchainService({ ...blockchainConfig });
 
 // Export for compatibility with JavaScript version
 export default blockchainService;
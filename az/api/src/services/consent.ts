@@ -0,0 +1,473 @@
+/**
+ * @fileoverview Consent grant service
+ * @module services/consent
+ *
+ * Manages time-limited access grants from a patient to a practitioner. Grants
+ * are persisted as FHIR Consent resources in the patient's compartment and every
+ * share/revoke is logged on the LeLink contract (logShareAccess / logRevokeAccess).
+ * The practitioner is notified of both.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+import { blockchainService, AccessLogResult } from './blockchain.js';
+import { auditService } from './audit.js';
+import { fhirStorageService, FHIRResource } from './fhirStorage.js';
+import { profileUserId } from './fhirIndex.js';
+import { notificationService } from './notifications/index.js';
+
+export type ConsentGrantStatus = 'active' | 'expired' | 'revoked';
+export type ConsentRevocationReason = 'expired' | 'revoked';
+
+export interface ConsentGrantRequest {
+  practitionerId: string;
+  resources: string[];
+  expiresAt: string;
+  purpose?: string;
+}
+
+export interface ConsentGrant {
+  consentId: string;
+  patientId: string;
+  practitionerId: string;
+  resources: string[];
+  grantedAt: string;
+  expiresAt: string;
+  status: ConsentGrantStatus;
+  revokedAt?: string;
+  purpose?: string;
+  blockchain?: {
+    shareTransactions: string[];
+    revokeTransactions: string[];
+  };
+}
+
+/**
+ * Extension recording the on-chain share/revoke transactions of a Consent
+ */
+export const ACCESS_LOG_EXTENSION_URL = 'http://lelink.health/fhir/StructureDefinition/blockchain-access-log';
+
+/**
+ * Extension recording why and when a Consent stopped granting access
+ */
+export const REVOCATION_EXTENSION_URL = 'http://lelink.health/fhir/StructureDefinition/consent-revocation';
+
+// Resource types a grant can cover; Consents themselves and demographics are never shared this way
+const NON_SHAREABLE_RESOURCE_TYPES = ['Consent', 'Patient', 'Practitioner'];
+
+/**
+ * Consent grant service
+ */
+export class ConsentService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Grant a practitioner access to some of a patient's records until the given expiry
+   * @param patientId - Patient granting access
+   * @param request - Recipient, records (IDs or "Type/id" references) and expiry
+   */
+  public async grantAccess(patientId: string, request: ConsentGrantRequest): Promise<ConsentGrant> {
+    const { expiresAt, purpose } = request;
+
+    if (!request.practitionerId) {
+      throw new ValidationError('practitionerId is required');
+    }
+    if (request.practitionerId === patientId) {
+      throw new ValidationError('Patients cannot share records with themselves');
+    }
+    if (!Array.isArray(request.resources) || request.resources.length === 0) {
+      throw new ValidationError('At least one record must be shared');
+    }
+
+    const expiry = Date.parse(expiresAt);
+    if (Number.isNaN(expiry)) {
+      throw new ValidationError('expiresAt must be an ISO 8601 date-time', { expiresAt });
+    }
+    if (expiry <= Date.now()) {
+      throw new ValidationError('expiresAt must be in the future', { expiresAt });
+    }
+
+    // Accept the practitioner's user ID or resource ID; the grant names the Practitioner resource
+    const practitioner = await fhirStorageService.findUserProfile(request.practitionerId, 'Practitioner');
+    if (!practitioner) {
+      throw new ValidationError(`Practitioner not found: ${request.practitionerId}`);
+    }
+    if (profileUserId(practitioner) === patientId) {
+      throw new ValidationError('Patients cannot share records with themselves');
+    }
+    const practitionerId: string = practitioner.id;
+
+    const resources = await this.resolveRecordReferences(patientId, request.resources);
+    const grantedAt = new Date().toISOString();
+
+    const consent: FHIRResource = {
+      resourceType: 'Consent',
+      id: uuidv4(),
+      status: 'active',
+      scope: {
+        coding: [
+          {
+            system: 'http://terminology.hl7.org/CodeSystem/consentscope',
+            code: 'patient-privacy',
+            display: 'Privacy Consent',
+          },
+        ],
+      },
+      category: [
+        {
+          coding: [{ system: 'http://loinc.org', code: '59284-0', display: 'Patient Consent' }],
+        },
+      ],
+      patient: { reference: `Patient/${patientId}` },
+      dateTime: grantedAt,
+      performer: [{ reference: `Patient/${patientId}` }],
+      policyRule: {
+        coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'OPTIN' }],
+      },
+      provision: {
+        type: 'permit',
+        period: { start: grantedAt, end: new Date(expiry).toISOString() },
+        actor: [
+          {
+            role: {
+              coding: [
+                {
+                  system: 'http://terminology.hl7.org/CodeSystem/v3-ParticipationType',
+                  code: 'PRCP',
+                  display: 'primary information recipient',
+                },
+              ],
+            },
+            reference: { reference: `Practitioner/${practitionerId}` },
+          },
+        ],
+        ...(purpose && { purpose: [{ display: purpose }] }),
+        data: resources.map((ref) => ({ meaning: 'instance', reference: { reference: ref } })),
+      },
+      meta: { source: 'LeLink-Sharing' },
+    };
+
+    const shareLog = await this.logAccessChange('share', consent, patientId, practitionerId, resources);
+    this.appendAccessLog(consent, 'share', shareLog);
+
+    const storageResult = await fhirStorageService.storeResource(consent);
+    if (!storageResult.success) {
+      throw new Error(`Failed to store consent grant: ${storageResult.error || 'unknown error'}`);
+    }
+
+    this.logger.info('Consent grant created', {
+      patientId,
+      practitionerId,
+      consentId: consent.id,
+      recordCount: resources.length,
+      expiresAt: consent.provision.period.end,
+    });
+
+    const grant = this.toGrant(consent);
+    await notificationService.notifyRecordsShared(grant);
+
+    return grant;
+  }
+
+  /**
+   * Revoke a grant (manually, or because it expired) and log the revocation on-chain
+   * @returns The updated grant, or null if the consent does not exist
+   */
+  public async revokeAccess(
+    patientId: string,
+    consentId: string,
+    reason: ConsentRevocationReason = 'revoked'
+  ): Promise<ConsentGrant | null> {
+    const consent = await fhirStorageService.getResource(patientId, 'Consent', consentId);
+    if (!consent) {
+      return null;
+    }
+
+    if (consent.status !== 'active') {
+      return this.toGrant(consent);
+    }
+
+    return this.deactivate(consent, patientId, reason);
+  }
+
+  /**
+   * List all grants made by a patient
+   */
+  public async listGrants(patientId: string): Promise<ConsentGrant[]> {
+    const consents = await fhirStorageService.listPatientResourcesByType(patientId, 'Consent');
+    return consents.map((consent) => this.toGrant(consent));
+  }
+
+  /**
+   * Get the record references a practitioner can currently read for a patient.
+   * Grants past their expiry no longer count, even before the expiry sweep revokes them.
+   * @param practitionerId - The practitioner's user ID; grants name their Practitioner resource
+   */
+  public async getAccessibleResources(patientId: string, practitionerId: string): Promise<Set<string>> {
+    const grants = await this.listGrants(patientId);
+    const accessible = new Set<string>();
+    if (!grants.some((grant) => grant.status === 'active')) {
+      return accessible;
+    }
+
+    const practitioner = await fhirStorageService.findUserProfile(practitionerId, 'Practitioner');
+    const recipientIds = [practitionerId, practitioner?.id].filter(Boolean);
+
+    for (const grant of grants) {
+      if (grant.status === 'active' && recipientIds.includes(grant.practitionerId)) {
+        grant.resources.forEach((ref) => accessible.add(ref));
+      }
+    }
+
+    return accessible;
+  }
+
+  /**
+   * Revoke every active grant whose expiry has passed
+   * @returns Number of grants revoked
+   */
+  public async expireGrants(): Promise<number> {
+    let expired = 0;
+    let cursor: string | undefined;
+
+    // Collect first: deactivating a grant retags it, which would shift the index pages
+    const activeConsents: FHIRResource[] = [];
+    do {
+      const page = await fhirStorageService.searchResources(
+        { resourceType: 'Consent', status: 'active' },
+        { limit: 100, cursor }
+      );
+      activeConsents.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    for (const consent of activeConsents) {
+      if (consent.status === 'active' && this.isExpired(consent)) {
+        const patientId = (consent.patient?.reference || '').replace('Patient/', '');
+        try {
+          await this.deactivate(consent, patientId, 'expired');
+          expired++;
+        } catch (error) {
+          this.logger.error('Failed to expire consent grant', {
+            error: error as Error,
+            patientId,
+            consentId: consent.id,
+          });
+        }
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Mark a consent inactive, log the revocation on-chain and persist it
+   */
+  private async deactivate(
+    consent: FHIRResource,
+    patientId: string,
+    reason: ConsentRevocationReason
+  ): Promise<ConsentGrant> {
+    const grant = this.toGrant(consent);
+
+    consent.status = 'inactive';
+    consent.extension = [
+      ...(consent.extension || []),
+      {
+        url: REVOCATION_EXTENSION_URL,
+        extension: [
+          { url: 'reason', valueCode: reason },
+          { url: 'revokedAt', valueDateTime: new Date().toISOString() },
+        ],
+      },
+    ];
+
+    const revokeLog = await this.logAccessChange('revoke', consent, patientId, grant.practitionerId, grant.resources);
+    this.appendAccessLog(consent, 'revoke', revokeLog);
+
+    const storageResult = await fhirStorageService.storeResource(consent);
+    if (!storageResult.success) {
+      throw new Error(`Failed to store revoked consent: ${storageResult.error || 'unknown error'}`);
+    }
+
+    this.logger.info('Consent grant revoked', {
+      patientId,
+      practitionerId: grant.practitionerId,
+      consentId: consent.id,
+      reason,
+    });
+
+    await notificationService.notifyRecordsRevoked(grant, reason);
+
+    return this.toGrant(consent);
+  }
+
+  /**
+   * Resolve record IDs or "Type/id" references to references of stored patient records
+   */
+  private async resolveRecordReferences(patientId: string, records: string[]): Promise<string[]> {
+    const stored = await fhirStorageService.listPatientResources(patientId);
+    const byId = new Map<string, string>();
+    const refs = new Set<string>();
+    for (const resource of stored) {
+      if (NON_SHAREABLE_RESOURCE_TYPES.includes(resource.resourceType)) continue;
+      const ref = `${resource.resourceType}/${resource.id}`;
+      byId.set(resource.id, ref);
+      refs.add(ref);
+    }
+
+    const resolved = new Set<string>();
+    const missing: string[] = [];
+    for (const record of records) {
+      const ref = record.includes('/') ? (refs.has(record) ? record : undefined) : byId.get(record);
+      if (ref) {
+        resolved.add(ref);
+      } else {
+        missing.push(record);
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new ValidationError('Some records do not exist or cannot be shared', { missing });
+    }
+
+    return [...resolved];
+  }
+
+  /**
+   * Log a share/revoke on-chain; failures are recorded but never block the grant itself
+   */
+  private async logAccessChange(
+    action: 'share' | 'revoke',
+    consent: FHIRResource,
+    patientId: string,
+    practitionerId: string,
+    resources: string[]
+  ): Promise<AccessLogResult | null> {
+    const event = {
+      actor: null,
+      patientId,
+      resource: `Consent/${consent.id}`,
+    };
+
+    try {
+      const log =
+        action === 'share'
+          ? await blockchainService.logShareAccess(resources, patientId, practitionerId)
+          : await blockchainService.logRevokeAccess(resources, patientId, practitionerId);
+
+      if (log) {
+        await auditService.record({
+          ...event,
+          type: 'system',
+          severity: log.success ? 'info' : 'warning',
+          action: `blockchain.${action}_logged`,
+          description: `Logged ${action === 'share' ? 'sharing' : 'revoking'} ${log.results.length} of ${
+            resources.length
+          } records with practitioner ${practitionerId} on-chain`,
+          details: {
+            network: log.network,
+            transactions: log.results.map((result) => result.transactionHash),
+            failures: log.failures,
+          },
+        });
+      }
+      return log;
+    } catch (error) {
+      this.logger.error('Failed to log consent change on blockchain', {
+        error: error as Error,
+        action,
+        patientId,
+        consentId: consent.id,
+      });
+      await auditService.record({
+        ...event,
+        type: 'error',
+        severity: 'error',
+        outcome: 'failure',
+        action: `blockchain.${action}_logged`,
+        description: `Could not log ${action === 'share' ? 'sharing' : 'revoking'} records on-chain: ${
+          (error as Error).message
+        }`,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Record the transactions of a share/revoke on the Consent
+   */
+  private appendAccessLog(consent: FHIRResource, action: 'share' | 'revoke', log: AccessLogResult | null): void {
+    if (!log || log.results.length === 0) return;
+
+    consent.extension = [
+      ...(consent.extension || []),
+      ...log.results.map((result) => ({
+        url: ACCESS_LOG_EXTENSION_URL,
+        extension: [
+          { url: 'action', valueCode: action },
+          { url: 'resourceId', valueString: result.resourceId },
+          { url: 'transactionHash', valueString: result.transactionHash },
+          { url: 'blockNumber', valueInteger: result.blockNumber },
+          { url: 'network', valueString: log.network },
+        ],
+      })),
+    ];
+  }
+
+  /**
+   * Whether the consent's provision period has ended
+   */
+  private isExpired(consent: FHIRResource): boolean {
+    const end = consent.provision?.period?.end;
+    return !!end && Date.parse(end) <= Date.now();
+  }
+
+  /**
+   * Convert a stored Consent resource to its API representation
+   */
+  private toGrant(consent: FHIRResource): ConsentGrant {
+    const actorRef: string = consent.provision?.actor?.[0]?.reference?.reference || '';
+    const revocation = (consent.extension || []).find(
+      (ext: any) => ext.url === REVOCATION_EXTENSION_URL
+    );
+    const revocationField = (name: string) => revocation?.extension?.find((ext: any) => ext.url === name);
+    const transactions = (action: string): string[] =>
+      (consent.extension || [])
+        .filter((ext: any) => ext.url === ACCESS_LOG_EXTENSION_URL)
+        .filter((ext: any) => ext.extension?.some((e: any) => e.url === 'action' && e.valueCode === action))
+        .map((ext: any) => ext.extension.find((e: any) => e.url === 'transactionHash')?.valueString)
+        .filter(Boolean);
+
+    let status: ConsentGrantStatus;
+    if (consent.status === 'active') {
+      status = this.isExpired(consent) ? 'expired' : 'active';
+    } else {
+      status = revocationField('reason')?.valueCode === 'expired' ? 'expired' : 'revoked';
+    }
+
+    return {
+      consentId: consent.id,
+      patientId: (consent.patient?.reference || '').replace('Patient/', ''),
+      practitionerId: actorRef.replace('Practitioner/', ''),
+      resources: (consent.provision?.data || []).map((d: any) => d.reference?.reference).filter(Boolean),
+      grantedAt: consent.dateTime,
+      expiresAt: consent.provision?.period?.end,
+      status,
+      revokedAt: revocationField('revokedAt')?.valueDateTime,
+      purpose: consent.provision?.purpose?.[0]?.display,
+      blockchain: {
+        shareTransactions: transactions('share'),
+        revokeTransactions: transactions('revoke'),
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const consentService = new ConsentService();
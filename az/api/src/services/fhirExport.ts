@@ -0,0 +1,316 @@
+/**
+ * @fileoverview Patient record export service
+ * @module services/fhirExport
+ *
+ * Gathers every stored FHIR resource of a patient together with its on-chain
+ * anchor and renders it as a FHIR Bundle, a flat JSON document or a printable PDF.
+ */
+
+import PDFDocument from 'pdfkit';
+import { Logger } from '../utils/logger.js';
+import { blockchainService } from './blockchain.js';
+import { fhirStorageService, FHIRResource } from './fhirStorage.js';
+
+export type ExportFormat = 'fhir' | 'json' | 'pdf';
+export type ExportBundleType = 'searchset' | 'collection';
+export type AnchorStatus = 'anchored' | 'not-anchored' | 'unavailable';
+
+export interface ExportAnchor {
+  status: AnchorStatus;
+  dataHash: string;
+  onChainHash?: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  anchoredAt?: string;
+  error?: string;
+}
+
+export interface ExportRecord {
+  resource: FHIRResource;
+  summary: string;
+  anchor: ExportAnchor;
+}
+
+export interface PatientExport {
+  patientId: string;
+  exportedAt: string;
+  blockchain: {
+    enabled: boolean;
+    network: string;
+    contractAddress?: string;
+  };
+  records: ExportRecord[];
+}
+
+export interface ExportFilter {
+  resourceIds?: string[];
+  resourceTypes?: string[];
+}
+
+/**
+ * Extension carrying the blockchain anchor of a Bundle entry
+ */
+export const BLOCKCHAIN_ANCHOR_EXTENSION_URL = 'http://lelink.health/fhir/StructureDefinition/blockchain-anchor';
+
+// Anchors looked up at the same time
+const ANCHOR_LOOKUP_BATCH_SIZE = 5;
+
+/**
+ * Patient record export service
+ */
+export class FHIRExportService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Collect a patient's resources with their blockchain anchors
+   * @param patientId - Patient whose records are exported
+   * @param filter - Optional restriction to specific resource IDs or types
+   */
+  public async collect(patientId: string, filter: ExportFilter = {}): Promise<PatientExport> {
+    let resources = await fhirStorageService.listPatientResources(patientId);
+
+    if (filter.resourceIds?.length) {
+      resources = resources.filter((r) => filter.resourceIds!.includes(r.id));
+    }
+    if (filter.resourceTypes?.length) {
+      resources = resources.filter((r) => filter.resourceTypes!.includes(r.resourceType));
+    }
+
+    // Each anchor lookup is a few RPC calls; run a bounded number at once
+    const records: ExportRecord[] = [];
+    for (let start = 0; start < resources.length; start += ANCHOR_LOOKUP_BATCH_SIZE) {
+      const batch = resources.slice(start, start + ANCHOR_LOOKUP_BATCH_SIZE);
+      const anchors = await Promise.all(batch.map((resource) => this.resolveAnchor(resource, patientId)));
+      batch.forEach((resource, index) => {
+        records.push({ resource, summary: this.summarize(resource), anchor: anchors[index] });
+      });
+    }
+
+    const status = blockchainService.getStatus();
+
+    this.logger.info('Collected patient export', {
+      patientId,
+      recordCount: records.length,
+      anchoredCount: records.filter((r) => r.anchor.status === 'anchored').length,
+    });
+
+    return {
+      patientId,
+      exportedAt: new Date().toISOString(),
+      blockchain: {
+        enabled: status.enabled,
+        network: status.network,
+        contractAddress: status.contractAddress,
+      },
+      records,
+    };
+  }
+
+  /**
+   * Render the export as a FHIR Bundle, anchors attached as entry extensions
+   */
+  public toBundle(data: PatientExport, type: ExportBundleType = 'collection'): FHIRResource {
+    return {
+      resourceType: 'Bundle',
+      id: `export-${data.patientId}-${Date.parse(data.exportedAt)}`,
+      type,
+      timestamp: data.exportedAt,
+      ...(type === 'searchset' && { total: data.records.length }),
+      entry: data.records.map((record) => ({
+        fullUrl: `${record.resource.resourceType}/${record.resource.id}`,
+        resource: record.resource,
+        ...(type === 'searchset' && { search: { mode: 'match' } }),
+        extension: [
+          {
+            url: BLOCKCHAIN_ANCHOR_EXTENSION_URL,
+            extension: this.anchorExtensions(record.anchor, data),
+          },
+        ],
+      })),
+    };
+  }
+
+  /**
+   * Render the export as a flat JSON document
+   */
+  public toFlatJson(data: PatientExport): Record<string, any> {
+    return {
+      patientId: data.patientId,
+      exportedAt: data.exportedAt,
+      blockchain: data.blockchain,
+      recordCount: data.records.length,
+      records: data.records.map((record) => ({
+        resourceType: record.resource.resourceType,
+        id: record.resource.id,
+        status: record.resource.status,
+        date: this.resourceDate(record.resource),
+        lastUpdated: record.resource.meta?.lastUpdated,
+        summary: record.summary,
+        anchor: record.anchor,
+        resource: record.resource,
+      })),
+    };
+  }
+
+  /**
+   * Render the export as a printable PDF summary
+   */
+  public toPdf(data: PatientExport): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `LeLink record export ${data.patientId}` } });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.fontSize(18).text('LeLink Medical Record Export');
+      doc.moveDown(0.5);
+      doc.fontSize(10);
+      doc.text(`Patient: ${data.patientId}`);
+      doc.text(`Exported: ${data.exportedAt}`);
+      doc.text(`Records: ${data.records.length}`);
+      if (data.blockchain.enabled) {
+        doc.text(`Blockchain network: ${data.blockchain.network}`);
+        doc.text(`Contract: ${data.blockchain.contractAddress || 'not configured'}`);
+      } else {
+        doc.text('Blockchain anchoring: disabled');
+      }
+
+      for (const record of data.records) {
+        doc.moveDown();
+        doc.fontSize(12).text(`${record.resource.resourceType} ${record.resource.id}`, { underline: true });
+        doc.fontSize(10);
+        doc.text(record.summary);
+        const date = this.resourceDate(record.resource);
+        if (date) doc.text(`Date: ${date}`);
+        if (record.resource.status) doc.text(`Status: ${record.resource.status}`);
+
+        doc.fillColor('#555555');
+        doc.text(`Data hash: ${record.anchor.dataHash}`);
+        doc.text(`Anchor: ${record.anchor.status}`);
+        if (record.anchor.onChainHash) doc.text(`On-chain hash: ${record.anchor.onChainHash}`);
+        if (record.anchor.transactionHash) doc.text(`Transaction: ${record.anchor.transactionHash}`);
+        if (record.anchor.blockNumber !== undefined) doc.text(`Block: ${record.anchor.blockNumber}`);
+        doc.fillColor('black');
+      }
+
+      doc.end();
+    });
+  }
+
+  /**
+   * Resolve the blockchain anchor of a stored resource
+   */
+  private async resolveAnchor(resource: FHIRResource, patientId: string): Promise<ExportAnchor> {
+    const dataHash = blockchainService.hashResource(resource);
+
+    try {
+      const anchor = await blockchainService.getResourceAnchor(resource, patientId);
+      if (!anchor) {
+        return {
+          status: blockchainService.getStatus().enabled ? 'not-anchored' : 'unavailable',
+          dataHash,
+        };
+      }
+
+      return {
+        status: 'anchored',
+        dataHash,
+        onChainHash: anchor.onChainHash,
+        transactionHash: anchor.transactionHash,
+        blockNumber: anchor.blockNumber,
+        anchoredAt: anchor.timestamp ? new Date(anchor.timestamp * 1000).toISOString() : undefined,
+      };
+    } catch (error) {
+      // A chain outage must not block the export itself
+      return {
+        status: 'unavailable',
+        dataHash,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Build the sub-extensions of the blockchain anchor extension
+   */
+  private anchorExtensions(anchor: ExportAnchor, data: PatientExport): any[] {
+    const extensions: any[] = [
+      { url: 'status', valueCode: anchor.status },
+      { url: 'dataHash', valueString: anchor.dataHash },
+      { url: 'network', valueString: data.blockchain.network },
+    ];
+    if (data.blockchain.contractAddress) {
+      extensions.push({ url: 'contractAddress', valueString: data.blockchain.contractAddress });
+    }
+    if (anchor.onChainHash) extensions.push({ url: 'onChainHash', valueString: anchor.onChainHash });
+    if (anchor.transactionHash) extensions.push({ url: 'transactionHash', valueString: anchor.transactionHash });
+    if (anchor.blockNumber !== undefined) extensions.push({ url: 'blockNumber', valueInteger: anchor.blockNumber });
+    if (anchor.anchoredAt) extensions.push({ url: 'anchoredAt', valueDateTime: anchor.anchoredAt });
+    return extensions;
+  }
+
+  /**
+   * Produce a one-line human readable summary of a resource
+   */
+  private summarize(resource: FHIRResource): string {
+    const conceptText = (concept: any): string | undefined =>
+      concept?.text || concept?.coding?.[0]?.display || concept?.coding?.[0]?.code;
+
+    switch (resource.resourceType) {
+      case 'Observation': {
+        const value =
+          resource.valueString ||
+          conceptText(resource.valueCodeableConcept) ||
+          (resource.valueQuantity ? `${resource.valueQuantity.value} ${resource.valueQuantity.unit || ''}`.trim() : undefined);
+        return [conceptText(resource.code) || 'Observation', value].filter(Boolean).join(': ');
+      }
+      case 'RiskAssessment': {
+        const prediction = resource.prediction?.[0];
+        const risk = conceptText(prediction?.qualitativeRisk);
+        const outcome = conceptText(prediction?.outcome);
+        return [outcome || 'Risk assessment', risk && `risk ${risk}`].filter(Boolean).join(', ');
+      }
+      case 'Encounter':
+        return `Encounter (${resource.class?.display || resource.class?.code || 'unknown class'})`;
+      case 'Patient':
+      case 'Practitioner': {
+        const name = resource.name?.[0];
+        return name?.text || [...(name?.given || []), name?.family].filter(Boolean).join(' ') || resource.resourceType;
+      }
+      case 'AllergyIntolerance':
+      case 'Condition':
+      case 'Procedure':
+      case 'DiagnosticReport':
+        return conceptText(resource.code) || resource.resourceType;
+      case 'Immunization':
+        return conceptText(resource.vaccineCode) || 'Immunization';
+      case 'MedicationStatement':
+        return conceptText(resource.medicationCodeableConcept) || 'Medication';
+      default:
+        return resource.resourceType;
+    }
+  }
+
+  /**
+   * Pick the clinically relevant date of a resource
+   */
+  private resourceDate(resource: FHIRResource): string | undefined {
+    return (
+      resource.effectiveDateTime ||
+      resource.occurrenceDateTime ||
+      resource.recordedDate ||
+      resource.performedDateTime ||
+      resource.period?.start ||
+      resource.issued ||
+      resource.meta?.lastUpdated
+    );
+  }
+}
+
+// Export singleton instance
+export const fhirExportService = new FHIRExportService();
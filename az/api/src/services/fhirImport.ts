@@ -0,0 +1,459 @@
+/**
+ * @fileoverview FHIR Bundle import service
+ * @module services/fhirImport
+ *
+ * Imports FHIR R4 `batch` and `transaction` Bundles from external systems:
+ * validates each entry, re-links it to the target patient, stores it through
+ * the FHIR storage service and anchors the stored resources on the blockchain.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+import { blockchainService } from './blockchain.js';
+import { fhirStorageService, FHIRResource, PATIENT_RESOURCE_TYPES } from './fhirStorage.js';
+
+export type ImportBundleType = 'batch' | 'transaction';
+export type ImportEntryStatus = 'imported' | 'failed' | 'skipped';
+
+export interface ImportEntryOutcome {
+  index: number;
+  fullUrl?: string;
+  resourceType?: string;
+  sourceId?: string;
+  resourceId?: string;
+  status: ImportEntryStatus;
+  errors: string[];
+  storage?: {
+    blobName?: string;
+    etag?: string;
+  };
+  blockchain?: {
+    dataHash: string;
+    transactionHash: string;
+    blockNumber: number;
+  };
+}
+
+export interface ImportReport {
+  bundleType: ImportBundleType;
+  patientId: string;
+  total: number;
+  imported: number;
+  failed: number;
+  skipped: number;
+  rolledBack: boolean;
+  /** A transaction failed and some of its entries could not be removed again; those are still `imported` */
+  rollbackFailed?: boolean;
+  anchored: boolean;
+  anchorError?: string;
+  entries: ImportEntryOutcome[];
+}
+
+interface PreparedEntry {
+  outcome: ImportEntryOutcome;
+  resource?: FHIRResource;
+}
+
+/**
+ * Source system used to tag imported resources
+ */
+export const IMPORT_SOURCE = 'LeLink-Import';
+
+/**
+ * Identifier system recording where an imported resource came from
+ */
+export const IMPORT_SOURCE_IDENTIFIER_SYSTEM = 'http://lelink.healthcare/import-source';
+
+// Demographic resources are owned by onboarding, not by imports
+const SKIPPED_RESOURCE_TYPES = ['Patient', 'Practitioner'];
+
+// Consent grants must go through the sharing flow so they are logged on-chain
+const NON_IMPORTABLE_RESOURCE_TYPES = ['Consent'];
+
+// Resource types that reference the patient through `patient` instead of `subject`
+const PATIENT_FIELD_RESOURCE_TYPES = ['AllergyIntolerance', 'Immunization'];
+
+// Resource types where FHIR R4 makes `status` mandatory
+const STATUS_REQUIRED_RESOURCE_TYPES = [
+  'Observation',
+  'RiskAssessment',
+  'Encounter',
+  'MedicationStatement',
+  'Immunization',
+  'Procedure',
+  'DiagnosticReport',
+];
+
+// Resource types where FHIR R4 makes `code` mandatory
+const CODE_REQUIRED_RESOURCE_TYPES = ['Observation', 'DiagnosticReport'];
+
+const FHIR_ID_PATTERN = /^[A-Za-z0-9\-.]{1,64}$/;
+
+/**
+ * FHIR Bundle import service
+ */
+export class FHIRImportService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Import a FHIR Bundle into the compartment of the given patient
+   * @param bundle - FHIR R4 Bundle of type `batch` or `transaction`
+   * @param patientId - Target patient the imported resources are linked to
+   * @returns Per-entry outcome report
+   */
+  public async importBundle(bundle: any, patientId: string): Promise<ImportReport> {
+    this.validateBundle(bundle);
+
+    const bundleType = bundle.type as ImportBundleType;
+    const entries: any[] = bundle.entry || [];
+    const { referenceMap, assignedIds } = this.buildReferenceMap(entries, patientId);
+
+    this.logger.info('Starting FHIR bundle import', {
+      bundleType,
+      patientId,
+      entryCount: entries.length,
+    });
+
+    const prepared = entries.map((entry, index) =>
+      this.prepareEntry(entry, index, patientId, assignedIds[index], referenceMap)
+    );
+
+    // Transactions are all-or-nothing: one invalid entry rejects the whole bundle, and
+    // a write that fails rolls back the ones made before it
+    const hasInvalidEntries = prepared.some((p) => p.outcome.status === 'failed');
+    if (bundleType === 'transaction' && hasInvalidEntries) {
+      for (const p of prepared) {
+        if (p.outcome.status !== 'failed') {
+          p.outcome.status = 'failed';
+          p.outcome.errors.push('Transaction rolled back because another entry is invalid');
+        }
+      }
+
+      this.logger.warn('FHIR transaction bundle rejected', {
+        patientId,
+        entryCount: entries.length,
+      });
+
+      return this.buildReport(bundleType, patientId, prepared, { rolledBack: true, anchored: false });
+    }
+
+    // Store valid entries
+    const written: Array<{ entry: PreparedEntry; versionId: string }> = [];
+    let storageFailed = false;
+    for (const p of prepared) {
+      if (!p.resource || p.outcome.status !== 'imported') continue;
+
+      // Entries can carry the same If-Match / If-None-Match conditions as a single write. Source IDs
+      // are kept, so creates (POST, or no method) never replace a stored resource that has the same ID.
+      const request = entries[p.outcome.index]?.request;
+      const creates = !request?.method || request.method === 'POST';
+      const storageResult = await fhirStorageService.storeResource(p.resource, {
+        ifMatch: request?.ifMatch,
+        ifNoneMatch: request?.ifNoneMatch || (creates && !request?.ifMatch ? '*' : undefined),
+      });
+      if (storageResult.success) {
+        p.outcome.storage = {
+          blobName: storageResult.blobName,
+          etag: storageResult.etag,
+        };
+        written.push({ entry: p, versionId: storageResult.versionId || '1' });
+      } else {
+        p.outcome.status = 'failed';
+        p.outcome.errors.push(
+          storageResult.preconditionFailed && creates && !request?.ifMatch && !request?.ifNoneMatch
+            ? `${p.resource.resourceType}/${p.resource.id} already exists`
+            : `Storage failed: ${storageResult.error || 'unknown error'}`
+        );
+        storageFailed = true;
+        if (bundleType === 'transaction') break;
+      }
+    }
+
+    if (bundleType === 'transaction' && storageFailed) {
+      return this.rollBack(bundleType, patientId, prepared, written);
+    }
+    const stored = written.map(({ entry }) => entry.resource!);
+
+    // Anchor stored resources on-chain
+    let anchored = false;
+    let anchorError: string | undefined;
+    if (stored.length > 0) {
+      try {
+        const blockchainResult = await blockchainService.logResources(stored, patientId);
+        if (blockchainResult?.success) {
+          anchored = true;
+          for (const p of prepared) {
+            if (!p.resource || p.outcome.status !== 'imported') continue;
+            const onChainId = `${p.resource.resourceType}-${p.resource.id}`;
+            const tx = blockchainResult.results.find((r) => r.resourceId === onChainId);
+            if (tx) {
+              p.outcome.blockchain = {
+                dataHash: tx.dataHash,
+                transactionHash: tx.transactionHash,
+                blockNumber: tx.blockNumber,
+              };
+            }
+          }
+        }
+      } catch (error) {
+        // Resources are already stored; report the anchoring failure instead of failing the import
+        anchorError = (error as Error).message;
+        this.logger.error('Failed to anchor imported resources', {
+          error: error as Error,
+          patientId,
+          resourceCount: stored.length,
+        });
+      }
+    }
+
+    const report = this.buildReport(bundleType, patientId, prepared, { rolledBack: false, anchored, anchorError });
+
+    this.logger.info('FHIR bundle import completed', {
+      bundleType,
+      patientId,
+      imported: report.imported,
+      failed: report.failed,
+      skipped: report.skipped,
+      anchored,
+    });
+
+    return report;
+  }
+
+  /**
+   * Undo the writes of a transaction that could not be stored completely. Entries
+   * whose write can't be undone stay imported (unanchored) and are reported as such.
+   */
+  private async rollBack(
+    bundleType: ImportBundleType,
+    patientId: string,
+    prepared: PreparedEntry[],
+    written: Array<{ entry: PreparedEntry; versionId: string }>
+  ): Promise<ImportReport> {
+    let reverted = true;
+    for (const { entry, versionId } of [...written].reverse()) {
+      if (await fhirStorageService.revertWrite(entry.resource!, versionId)) {
+        entry.outcome.status = 'failed';
+        entry.outcome.storage = undefined;
+        entry.outcome.errors.push('Transaction rolled back because another entry could not be stored');
+      } else {
+        reverted = false;
+        entry.outcome.errors.push('Transaction rollback failed: the entry is still stored');
+      }
+    }
+    for (const p of prepared) {
+      if (p.outcome.status === 'imported' && !p.outcome.storage) {
+        p.outcome.status = 'failed';
+        p.outcome.errors.push('Transaction rolled back because another entry could not be stored');
+      }
+    }
+
+    this.logger.warn('FHIR transaction bundle rolled back', {
+      patientId,
+      entryCount: prepared.length,
+      written: written.length,
+      reverted,
+    });
+
+    return this.buildReport(bundleType, patientId, prepared, {
+      rolledBack: reverted,
+      rollbackFailed: !reverted,
+      anchored: false,
+    });
+  }
+
+  /**
+   * Validate bundle-level structure
+   */
+  private validateBundle(bundle: any): void {
+    if (!bundle || typeof bundle !== 'object' || bundle.resourceType !== 'Bundle') {
+      throw new ValidationError('Expected a FHIR resource of type "Bundle"');
+    }
+
+    if (bundle.type !== 'batch' && bundle.type !== 'transaction') {
+      throw new ValidationError('Only "batch" and "transaction" bundles can be imported', {
+        bundleType: bundle.type,
+      });
+    }
+
+    if (bundle.entry !== undefined && !Array.isArray(bundle.entry)) {
+      throw new ValidationError('Bundle.entry must be an array');
+    }
+  }
+
+  /**
+   * Assign storage IDs and map every bundle-local reference (fullUrl and Type/id)
+   * to the reference the resource will have once imported
+   */
+  private buildReferenceMap(
+    entries: any[],
+    patientId: string
+  ): { referenceMap: Map<string, string>; assignedIds: Array<string | undefined> } {
+    const referenceMap = new Map<string, string>();
+    const assignedIds: Array<string | undefined> = [];
+
+    entries.forEach((entry, index) => {
+      const resource = entry?.resource;
+      if (!resource?.resourceType) return;
+
+      let target: string;
+      if (resource.resourceType === 'Patient') {
+        target = `Patient/${patientId}`;
+      } else {
+        // Keep source IDs when they are valid FHIR ids, otherwise mint a new one
+        const id = typeof resource.id === 'string' && FHIR_ID_PATTERN.test(resource.id) ? resource.id : uuidv4();
+        assignedIds[index] = id;
+        target = `${resource.resourceType}/${id}`;
+      }
+
+      if (entry.fullUrl) referenceMap.set(entry.fullUrl, target);
+      if (resource.id) referenceMap.set(`${resource.resourceType}/${resource.id}`, target);
+    });
+
+    return { referenceMap, assignedIds };
+  }
+
+  /**
+   * Validate a single entry and rewrite it for the target patient
+   */
+  private prepareEntry(
+    entry: any,
+    index: number,
+    patientId: string,
+    assignedId: string | undefined,
+    referenceMap: Map<string, string>
+  ): PreparedEntry {
+    const outcome: ImportEntryOutcome = {
+      index,
+      fullUrl: entry?.fullUrl,
+      resourceType: entry?.resource?.resourceType,
+      sourceId: entry?.resource?.id,
+      status: 'imported',
+      errors: [],
+    };
+
+    const source = entry?.resource;
+    if (!source || typeof source !== 'object' || !source.resourceType) {
+      outcome.status = 'failed';
+      outcome.errors.push('Entry has no resource');
+      return { outcome };
+    }
+
+    if (SKIPPED_RESOURCE_TYPES.includes(source.resourceType)) {
+      outcome.status = 'skipped';
+      outcome.errors.push(`${source.resourceType} resources are not imported; entries are linked to the target patient`);
+      return { outcome };
+    }
+
+    if (NON_IMPORTABLE_RESOURCE_TYPES.includes(source.resourceType)) {
+      outcome.status = 'failed';
+      outcome.errors.push(`${source.resourceType} resources are created by sharing records, not by imports`);
+      return { outcome };
+    }
+
+    if (!(PATIENT_RESOURCE_TYPES as readonly string[]).includes(source.resourceType)) {
+      outcome.status = 'failed';
+      outcome.errors.push(`Unsupported resource type: ${source.resourceType}`);
+      return { outcome };
+    }
+
+    const method = entry.request?.method;
+    if (method && method !== 'POST' && method !== 'PUT') {
+      outcome.status = 'failed';
+      outcome.errors.push(`Unsupported request method: ${method}`);
+      return { outcome };
+    }
+
+    if (STATUS_REQUIRED_RESOURCE_TYPES.includes(source.resourceType) && !source.status) {
+      outcome.errors.push(`${source.resourceType}.status is required`);
+    }
+    if (CODE_REQUIRED_RESOURCE_TYPES.includes(source.resourceType) && !source.code) {
+      outcome.errors.push(`${source.resourceType}.code is required`);
+    }
+    if (outcome.errors.length > 0) {
+      outcome.status = 'failed';
+      return { outcome };
+    }
+
+    const resource = this.rewriteReferences(JSON.parse(JSON.stringify(source)), referenceMap) as FHIRResource;
+    resource.id = assignedId || uuidv4();
+
+    // Link the resource to the target patient
+    const patientField = PATIENT_FIELD_RESOURCE_TYPES.includes(resource.resourceType) ? 'patient' : 'subject';
+    resource[patientField] = {
+      reference: `Patient/${patientId}`,
+      ...(resource[patientField]?.display && { display: resource[patientField].display }),
+    };
+
+    // Keep a pointer back to the originating record
+    const sourceReference = entry.fullUrl || (outcome.sourceId ? `${source.resourceType}/${outcome.sourceId}` : undefined);
+    if (sourceReference) {
+      resource.identifier = [
+        ...(resource.identifier || []),
+        { system: IMPORT_SOURCE_IDENTIFIER_SYSTEM, value: sourceReference },
+      ];
+    }
+
+    resource.meta = {
+      ...resource.meta,
+      source: IMPORT_SOURCE,
+    };
+
+    outcome.resourceId = resource.id;
+    return { outcome, resource };
+  }
+
+  /**
+   * Recursively replace bundle-local references with their imported targets
+   */
+  private rewriteReferences(value: any, referenceMap: Map<string, string>): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.rewriteReferences(item, referenceMap));
+    }
+
+    if (value && typeof value === 'object') {
+      for (const key of Object.keys(value)) {
+        if (key === 'reference' && typeof value[key] === 'string' && referenceMap.has(value[key])) {
+          value[key] = referenceMap.get(value[key]);
+        } else {
+          value[key] = this.rewriteReferences(value[key], referenceMap);
+        }
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Summarize entry outcomes into the import report
+   */
+  private buildReport(
+    bundleType: ImportBundleType,
+    patientId: string,
+    prepared: PreparedEntry[],
+    options: { rolledBack: boolean; rollbackFailed?: boolean; anchored: boolean; anchorError?: string }
+  ): ImportReport {
+    const entries = prepared.map((p) => p.outcome);
+    return {
+      bundleType,
+      patientId,
+      total: entries.length,
+      imported: entries.filter((e) => e.status === 'imported').length,
+      failed: entries.filter((e) => e.status === 'failed').length,
+      skipped: entries.filter((e) => e.status === 'skipped').length,
+      rolledBack: options.rolledBack,
+      ...(options.rollbackFailed && { rollbackFailed: true }),
+      anchored: options.anchored,
+      anchorError: options.anchorError,
+      entries,
+    };
+  }
+}
+
+// Export singleton instance
+export const fhirImportService = new FHIRImportService();
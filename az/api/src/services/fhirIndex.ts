@@ -0,0 +1,282 @@
+/**
+ * @fileoverview Secondary index for FHIR resource blobs
+ * @module services/fhirIndex
+ *
+ * Every resource blob carries blob index tags (resource type, patient, email,
+ * date, status, profile name) written with the upload, so searches become
+ * `findBlobsByTags` lookups instead of container scans. This module defines the
+ * tags and turns index queries into tag filter expressions; FHIRStorageService
+ * writes and queries them.
+ */
+
+import { createHash } from 'crypto';
+import { ValidationError } from '../utils/errors.js';
+import type { FHIRResource } from './fhirStorage.js';
+
+/**
+ * Tag names. Blob index tag values are limited to letters, digits, space and `+-./:=_`.
+ */
+export const INDEX_TAGS = {
+  /** Index version the blob was tagged with; also the condition of an otherwise empty query */
+  indexed: 'indexed',
+  resourceType: 'resourceType',
+  /** Patient compartment as it appears in the blob path */
+  patientId: 'patientId',
+  status: 'status',
+  /** Code of the first coding in `code` (Observation, Condition, ...) */
+  code: 'code',
+  /** Clinical date of the resource (ISO 8601; the start of Appointments and Slots), falling back to meta.lastUpdated */
+  date: 'date',
+  lastUpdated: 'lastUpdated',
+  /** 'true' on Patient and Practitioner profiles (the user accounts) */
+  userProfile: 'userProfile',
+  /** SHA-256 of the lower-cased email of a profile; '@' is not a valid tag character */
+  emailHash: 'emailHash',
+  /** SHA-256 of the user ID on a profile's identifier (onboarding stores profiles under generated IDs) */
+  userIdHash: 'userIdHash',
+  /** Normalized display name of a profile, for prefix search */
+  name: 'name',
+} as const;
+
+/** Index format version; bump to make rebuildIndex retag everything */
+export const INDEX_VERSION = '4';
+
+/** Identifier system linking a Patient/Practitioner profile to the user's account */
+export const USER_ID_IDENTIFIER_SYSTEM = 'http://lelink.healthcare/user-id';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface IndexQuery {
+  resourceType?: string;
+  patientId?: string;
+  email?: string;
+  /** User ID on a profile's identifier */
+  userId?: string;
+  status?: string;
+  code?: string;
+  /** Inclusive lower bound on the index date (ISO 8601 prefix such as 2025-01-01) */
+  dateFrom?: string;
+  /** Exclusive upper bound on the index date */
+  dateTo?: string;
+  /** Only Patient and Practitioner profiles */
+  userProfiles?: boolean;
+  /** Prefix of the normalized profile name; can't be combined with a date range */
+  namePrefix?: string;
+}
+
+export interface IndexPageOptions {
+  limit?: number;
+  /** Cursor returned with the previous page */
+  cursor?: string;
+}
+
+/**
+ * A blob found through the index
+ */
+export interface IndexEntry {
+  blobName: string;
+  /** Patient compartment ID, as getAllPatients reports it */
+  patientId: string;
+  resourceType: string;
+  resourceId: string;
+}
+
+export interface IndexPage<T> {
+  items: T[];
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * Index tags for a resource stored in a patient compartment
+ * @param patientId - Compartment as it appears in the blob path
+ */
+export function buildIndexTags(resource: FHIRResource, patientId: string): Record<string, string> {
+  const tags: Record<string, string> = {
+    [INDEX_TAGS.indexed]: INDEX_VERSION,
+    [INDEX_TAGS.resourceType]: tagValue(resource.resourceType),
+    [INDEX_TAGS.patientId]: tagValue(patientId),
+  };
+
+  if (typeof resource.status === 'string') {
+    tags[INDEX_TAGS.status] = tagValue(resource.status);
+  }
+
+  const code = resource.code?.coding?.[0]?.code;
+  if (typeof code === 'string' && code) {
+    tags[INDEX_TAGS.code] = tagValue(code);
+  }
+
+  const date = resourceDate(resource);
+  if (date) {
+    tags[INDEX_TAGS.date] = tagValue(date);
+  }
+  if (resource.meta?.lastUpdated) {
+    tags[INDEX_TAGS.lastUpdated] = tagValue(resource.meta.lastUpdated);
+  }
+
+  if (resource.resourceType === 'Patient' || resource.resourceType === 'Practitioner') {
+    tags[INDEX_TAGS.userProfile] = 'true';
+
+    const email =
+      (resource.telecom || []).find((telecom: any) => telecom.system === 'email' && telecom.value)?.value ||
+      (resource.identifier || []).find((identifier: any) => identifier.system?.includes('email') && identifier.value)
+        ?.value;
+    if (email) {
+      tags[INDEX_TAGS.emailHash] = hashEmail(email);
+    }
+
+    const userId = profileUserId(resource);
+    if (userId) {
+      tags[INDEX_TAGS.userIdHash] = hashUserId(userId);
+    }
+
+    const name = profileName(resource);
+    if (name) {
+      tags[INDEX_TAGS.name] = name;
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Tag filter expression for an index query
+ * @throws ValidationError for queries the index can't answer
+ */
+export function buildTagFilter(query: IndexQuery): string {
+  const conditions: string[] = [];
+  const equals = (tag: string, value: string) => conditions.push(`"${tag}" = '${tagValue(value)}'`);
+
+  if (query.resourceType) equals(INDEX_TAGS.resourceType, query.resourceType);
+  if (query.patientId) equals(INDEX_TAGS.patientId, query.patientId);
+  if (query.status) equals(INDEX_TAGS.status, query.status);
+  if (query.code) equals(INDEX_TAGS.code, query.code);
+  if (query.userProfiles) equals(INDEX_TAGS.userProfile, 'true');
+  if (query.email) conditions.push(`"${INDEX_TAGS.emailHash}" = '${hashEmail(query.email)}'`);
+  if (query.userId) conditions.push(`"${INDEX_TAGS.userIdHash}" = '${hashUserId(query.userId)}'`);
+
+  // Blob index queries allow range conditions on a single tag only
+  if (query.namePrefix && (query.dateFrom || query.dateTo)) {
+    throw new ValidationError('A name search cannot be combined with a date range');
+  }
+
+  if (query.dateFrom) conditions.push(`"${INDEX_TAGS.date}" >= '${tagValue(query.dateFrom)}'`);
+  if (query.dateTo) conditions.push(`"${INDEX_TAGS.date}" < '${tagValue(query.dateTo)}'`);
+
+  const prefix = query.namePrefix ? normalizeName(query.namePrefix) : '';
+  if (prefix) {
+    conditions.push(`"${INDEX_TAGS.name}" >= '${prefix}'`);
+    // 'z' is the highest character a tag value can hold
+    conditions.push(`"${INDEX_TAGS.name}" <= '${prefix.padEnd(256, 'z')}'`);
+  }
+
+  // Blobs tagged by older index versions still match; rebuildIndex brings their tags up to date
+  return conditions.length > 0 ? conditions.join(' AND ') : `"${INDEX_TAGS.indexed}" >= '0'`;
+}
+
+/**
+ * Split a resource blob name (patientId/ResourceType/resourceId.json) into its parts
+ * @returns The parts as they appear in the path, or null for other blobs
+ */
+export function parseResourceBlobName(blobName: string): IndexEntry | null {
+  const match = blobName.match(/^([^/]+)\/([A-Za-z]+)\/([^/]+)\.json$/);
+  if (!match) return null;
+
+  const [, patientId, resourceType, resourceId] = match;
+  return { blobName, patientId, resourceType, resourceId };
+}
+
+/**
+ * Clamp a requested page size
+ */
+export function pageSize(limit: number | undefined): number {
+  if (!limit || !Number.isFinite(limit) || limit < 1) return DEFAULT_PAGE_SIZE;
+  return Math.min(Math.floor(limit), MAX_PAGE_SIZE);
+}
+
+/**
+ * Opaque, URL-safe cursor for a storage continuation token
+ */
+export function encodeCursor(continuationToken: string | undefined): string | undefined {
+  return continuationToken ? Buffer.from(continuationToken, 'utf8').toString('base64url') : undefined;
+}
+
+export function decodeCursor(cursor: string | undefined): string | undefined {
+  if (!cursor) return undefined;
+  const token = Buffer.from(cursor, 'base64url').toString('utf8');
+  if (!token) {
+    throw new ValidationError('Invalid cursor');
+  }
+  return token;
+}
+
+export function hashEmail(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
+
+export function hashUserId(userId: string): string {
+  return createHash('sha256').update(userId).digest('hex');
+}
+
+/**
+ * User ID a Patient/Practitioner profile belongs to, from its identifier
+ */
+export function profileUserId(resource: FHIRResource): string | undefined {
+  const identifier = (resource.identifier || []).find(
+    (candidate: any) => candidate.system === USER_ID_IDENTIFIER_SYSTEM && candidate.value
+  );
+  return identifier?.value;
+}
+
+/**
+ * Lower-case ASCII form of a name for prefix search ("Zoë O'Neil" -> "zoe o_neil")
+ */
+export function normalizeName(name: string): string {
+  return tagValue(
+    name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+}
+
+function profileName(resource: FHIRResource): string {
+  const name = resource.name?.[0];
+  if (!name) return '';
+  const text = name.text || [...(name.given || []), name.family].filter(Boolean).join(' ');
+  return normalizeName(text || '');
+}
+
+/**
+ * Date a resource is about, for date-range search
+ */
+export function resourceDate(resource: FHIRResource): string | undefined {
+  return (
+    resource.effectiveDateTime ||
+    resource.effectivePeriod?.start ||
+    resource.occurrenceDateTime ||
+    resource.period?.start ||
+    resource.start ||
+    resource.recordedDate ||
+    resource.onsetDateTime ||
+    resource.authoredOn ||
+    resource.sent ||
+    resource.issued ||
+    resource.dateTime ||
+    resource.date ||
+    resource.meta?.lastUpdated
+  );
+}
+
+/**
+ * Replace characters blob index tags don't allow and cap the length
+ */
+function tagValue(value: string): string {
+  return String(value)
+    .replace(/[^a-zA-Z0-9 +\-./:=_]/g, '_')
+    .slice(0, 256);
+}
@@ -0,0 +1,362 @@
+/**
+ * @fileoverview FHIR REST search over stored resources
+ * @module services/fhirSearch
+ *
+ * Answers `GET [base]/{resourceType}?...` and `GET [base]?_type=...` searches with
+ * a searchset Bundle. Supported parameters:
+ * - _id, subject / patient, status, code ([system]|code), date, _lastUpdated
+ *   (date prefixes eq, ge, gt, le, lt; comma-separated values are ORed)
+ * - _type (system search), _sort (date, _lastUpdated, "-" for descending),
+ *   _count, _include (<Type>:subject or <Type>:patient), _cursor (paging)
+ * Other parameters are ignored, as FHIR's lenient handling allows, and left out
+ * of the self link.
+ *
+ * The blob index (services/fhirIndex) narrows the candidates; every parameter is
+ * then checked against the resources themselves. Unsorted searches page through
+ * the index, so a page can hold fewer than _count matches; sorted searches read
+ * every match to order them.
+ */
+
+import { Logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+import { fhirStorageService, FHIRResource } from './fhirStorage.js';
+import { pageSize, resourceDate, IndexQuery } from './fhirIndex.js';
+
+export type DatePrefix = 'eq' | 'ge' | 'gt' | 'le' | 'lt';
+
+export interface DateCondition {
+  prefix: DatePrefix;
+  value: string;
+}
+
+export interface TokenCondition {
+  system?: string;
+  code: string;
+}
+
+export interface SearchRequest {
+  /** Empty for a search across all types */
+  resourceTypes: string[];
+  ids: string[];
+  patientId?: string;
+  statuses: string[];
+  codes: TokenCondition[];
+  /** Every condition must hold (repeated parameters are ANDed) */
+  dates: DateCondition[];
+  lastUpdated: DateCondition[];
+  sort?: { field: 'date' | '_lastUpdated'; descending: boolean };
+  count: number;
+  cursor?: string;
+  includeSubject: boolean;
+}
+
+export interface SearchOptions {
+  /** URL of the search request, for the Bundle's self and next links */
+  url: URL;
+  /** Drop the resources the caller may not read */
+  visible?: (resources: FHIRResource[]) => Promise<FHIRResource[]>;
+}
+
+const DATE_PREFIXES: DatePrefix[] = ['eq', 'ge', 'gt', 'le', 'lt'];
+const SEARCH_PARAMETERS = [
+  '_id',
+  'subject',
+  'patient',
+  'status',
+  'code',
+  'date',
+  '_lastUpdated',
+  '_type',
+  '_sort',
+  '_count',
+  '_include',
+];
+
+/** Beyond this many matches a sorted search is logged as expensive */
+const SORTED_SEARCH_WARNING_THRESHOLD = 1000;
+
+/**
+ * Parse the query string of a search
+ * @param resourceType - Type from the path; undefined for a system search
+ * @throws ValidationError for malformed parameters
+ */
+export function parseSearchParams(resourceType: string | undefined, params: URLSearchParams): SearchRequest {
+  const list = (name: string) =>
+    params
+      .getAll(name)
+      .flatMap((value) => value.split(','))
+      .map((value) => value.trim())
+      .filter(Boolean);
+
+  const references = [...list('subject'), ...list('patient')].map((reference) => reference.replace(/^Patient\//, ''));
+  if (new Set(references).size > 1) {
+    throw new ValidationError('Only one subject/patient can be searched at a time');
+  }
+
+  const sortParam = params.get('_sort');
+  let sort: SearchRequest['sort'];
+  if (sortParam) {
+    const field = sortParam.replace(/^-/, '');
+    if (field !== 'date' && field !== '_lastUpdated') {
+      throw new ValidationError(`Unsupported _sort: ${sortParam}`, { supported: ['date', '_lastUpdated'] });
+    }
+    sort = { field, descending: sortParam.startsWith('-') };
+  }
+
+  const countParam = params.get('_count');
+  const count = countParam ? parseInt(countParam, 10) : undefined;
+  if (countParam && (!Number.isFinite(count) || count! < 1)) {
+    throw new ValidationError(`Invalid _count: ${countParam}`);
+  }
+
+  return {
+    resourceTypes: resourceType ? [resourceType] : list('_type'),
+    ids: list('_id'),
+    patientId: references[0],
+    statuses: list('status'),
+    codes: list('code').map(parseToken),
+    dates: params.getAll('date').map(parseDate),
+    lastUpdated: params.getAll('_lastUpdated').map(parseDate),
+    sort,
+    count: pageSize(count),
+    cursor: params.get('_cursor') || undefined,
+    includeSubject: params.getAll('_include').some((include) => /:(subject|patient)$/.test(include)),
+  };
+}
+
+/**
+ * FHIR search service
+ */
+export class FHIRSearchService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Run a search and return a searchset Bundle
+   */
+  public async search(request: SearchRequest, options: SearchOptions): Promise<FHIRResource> {
+    const visible = options.visible || (async (resources: FHIRResource[]) => resources);
+    const cursor = this.parseCursor(request.cursor);
+
+    let matches: FHIRResource[];
+    let nextCursor: string | undefined;
+    let total: number | undefined;
+
+    if (request.sort) {
+      // Ordering needs every match; the offset into them is the cursor
+      const all = await visible(await this.collectAll(request));
+      all.sort(this.comparator(request.sort));
+
+      const offset = cursor?.offset || 0;
+      matches = all.slice(offset, offset + request.count);
+      nextCursor = offset + request.count < all.length ? `o.${offset + request.count}` : undefined;
+      total = all.length;
+    } else {
+      const page = await fhirStorageService.searchResources(this.indexQuery(request), {
+        limit: request.count,
+        cursor: cursor?.indexCursor,
+      });
+      matches = await visible(page.items.filter((resource) => this.matches(resource, request)));
+      nextCursor = page.nextCursor ? `c.${page.nextCursor}` : undefined;
+    }
+
+    const included = request.includeSubject ? await visible(await this.subjects(matches)) : [];
+
+    this.logger.info('FHIR search completed', {
+      resourceTypes: request.resourceTypes,
+      patientId: request.patientId,
+      matchCount: matches.length,
+      includeCount: included.length,
+      hasNext: !!nextCursor,
+    });
+
+    const timestamp = new Date().toISOString();
+    return {
+      resourceType: 'Bundle',
+      id: `search-${Date.parse(timestamp)}`,
+      type: 'searchset',
+      timestamp,
+      ...(total !== undefined && { total }),
+      link: [
+        { relation: 'self', url: this.pageUrl(options.url, request.cursor) },
+        ...(nextCursor ? [{ relation: 'next', url: this.pageUrl(options.url, nextCursor) }] : []),
+      ],
+      entry: [
+        ...matches.map((resource) => ({
+          fullUrl: `${resource.resourceType}/${resource.id}`,
+          resource,
+          search: { mode: 'match' },
+        })),
+        ...included.map((resource) => ({
+          fullUrl: `${resource.resourceType}/${resource.id}`,
+          resource,
+          search: { mode: 'include' },
+        })),
+      ],
+    };
+  }
+
+  /**
+   * The part of a search the index can answer; the rest is checked by `matches`
+   */
+  private indexQuery(request: SearchRequest): IndexQuery {
+    const query: IndexQuery = {
+      resourceType: request.resourceTypes.length === 1 ? request.resourceTypes[0] : undefined,
+      patientId: request.patientId,
+      status: request.statuses.length === 1 ? request.statuses[0] : undefined,
+      code: request.codes.length === 1 ? request.codes[0].code : undefined,
+    };
+
+    // Date prefixes as ranges on the ISO date string; 'z' sorts after any time part
+    for (const { prefix, value } of request.dates) {
+      if (!query.dateFrom && (prefix === 'ge' || prefix === 'eq')) query.dateFrom = value;
+      if (!query.dateFrom && prefix === 'gt') query.dateFrom = `${value}z`;
+      if (!query.dateTo && prefix === 'lt') query.dateTo = value;
+      if (!query.dateTo && (prefix === 'le' || prefix === 'eq')) query.dateTo = `${value}z`;
+    }
+
+    return query;
+  }
+
+  private matches(resource: FHIRResource, request: SearchRequest): boolean {
+    if (request.resourceTypes.length > 0 && !request.resourceTypes.includes(resource.resourceType)) return false;
+    if (request.ids.length > 0 && !request.ids.includes(resource.id)) return false;
+    if (request.statuses.length > 0 && !request.statuses.includes(resource.status)) return false;
+
+    if (request.codes.length > 0) {
+      const codings: Array<{ system?: string; code?: string }> = resource.code?.coding || [];
+      const coded = request.codes.some((token) =>
+        codings.some((coding) => coding.code === token.code && (token.system === undefined || coding.system === token.system))
+      );
+      if (!coded) return false;
+    }
+
+    const date = resourceDate(resource) || '';
+    if (!request.dates.every((condition) => matchesDate(date, condition))) return false;
+
+    const lastUpdated = resource.meta?.lastUpdated || '';
+    return request.lastUpdated.every((condition) => matchesDate(lastUpdated, condition));
+  }
+
+  private async collectAll(request: SearchRequest): Promise<FHIRResource[]> {
+    const resources: FHIRResource[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await fhirStorageService.searchResources(this.indexQuery(request), { limit: 100, cursor });
+      resources.push(...page.items.filter((resource) => this.matches(resource, request)));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    if (resources.length > SORTED_SEARCH_WARNING_THRESHOLD) {
+      this.logger.warn('Sorted search read many resources; narrow it with subject, code or date', {
+        resourceTypes: request.resourceTypes,
+        matchCount: resources.length,
+      });
+    }
+
+    return resources;
+  }
+
+  private comparator(sort: NonNullable<SearchRequest['sort']>) {
+    const key = (resource: FHIRResource) =>
+      (sort.field === 'date' ? resourceDate(resource) : resource.meta?.lastUpdated) || '';
+    return (a: FHIRResource, b: FHIRResource) =>
+      sort.descending ? key(b).localeCompare(key(a)) : key(a).localeCompare(key(b));
+  }
+
+  /**
+   * The Patient resources the matches belong to, for _include
+   */
+  private async subjects(resources: FHIRResource[]): Promise<FHIRResource[]> {
+    const patientIds = new Set<string>();
+    for (const resource of resources) {
+      const reference: string | undefined = resource.subject?.reference || resource.patient?.reference;
+      if (reference?.startsWith('Patient/')) {
+        patientIds.add(reference.slice('Patient/'.length));
+      }
+    }
+
+    // Matches that are Patient resources themselves aren't included twice
+    for (const resource of resources) {
+      if (resource.resourceType === 'Patient') patientIds.delete(resource.id);
+    }
+
+    const patients = await Promise.all(
+      [...patientIds].map((patientId) => fhirStorageService.getResource(patientId, 'Patient', patientId))
+    );
+    return patients.filter((patient): patient is FHIRResource => patient !== null);
+  }
+
+  /**
+   * Cursors are "c.<index cursor>" for unsorted searches and "o.<offset>" for sorted ones
+   */
+  private parseCursor(cursor: string | undefined): { indexCursor?: string; offset?: number } | undefined {
+    if (!cursor) return undefined;
+
+    if (cursor.startsWith('c.')) return { indexCursor: cursor.slice(2) };
+    if (cursor.startsWith('o.')) {
+      const offset = parseInt(cursor.slice(2), 10);
+      if (Number.isFinite(offset) && offset >= 0) return { offset };
+    }
+    throw new ValidationError('Invalid _cursor');
+  }
+
+  private pageUrl(url: URL, cursor: string | undefined): string {
+    const pageUrl = new URL(url.toString());
+    for (const name of [...pageUrl.searchParams.keys()]) {
+      if (!SEARCH_PARAMETERS.includes(name)) pageUrl.searchParams.delete(name);
+    }
+    if (cursor) {
+      pageUrl.searchParams.set('_cursor', cursor);
+    }
+    return pageUrl.toString();
+  }
+}
+
+function parseToken(value: string): TokenCondition {
+  const separator = value.indexOf('|');
+  if (separator === -1) return { code: value };
+
+  const system = value.slice(0, separator);
+  return { system: system || undefined, code: value.slice(separator + 1) };
+}
+
+function parseDate(value: string): DateCondition {
+  const prefix = /^\d/.test(value) ? 'eq' : DATE_PREFIXES.find((candidate) => value.startsWith(candidate));
+  const date = /^\d/.test(value) ? value : value.slice(2);
+
+  if (!prefix || !/^\d{4}(-\d{2}(-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?)?)?$/.test(date)) {
+    throw new ValidationError(`Invalid date search value: ${value}`, { supportedPrefixes: DATE_PREFIXES });
+  }
+
+  return { prefix, value: date };
+}
+
+/**
+ * Compare an ISO date string against a condition at the condition's precision
+ * (eq2025-01 matches any time in January 2025)
+ */
+function matchesDate(date: string, { prefix, value }: DateCondition): boolean {
+  if (!date) return false;
+
+  const within = date.startsWith(value);
+  switch (prefix) {
+    case 'eq':
+      return within;
+    case 'ge':
+      return within || date > value;
+    case 'gt':
+      return !within && date > value;
+    case 'le':
+      return within || date < value;
+    case 'lt':
+      return !within && date < value;
+  }
+}
+
+// Export singleton instance
+export const fhirSearchService = new FHIRSearchService();
@@ -5,10 +5,33 @@
  * Provides FHIR resource storage using environment-based blob storage:
  * - Development: Azurite (local emulator)
  * - Production: Azure Blob Storage (cloud)
+ *
+ * Resource blobs are indexed with blob index tags (see services/fhirIndex), so
+ * cross-patient searches and user listings are tag lookups with cursor paging.
+ *
+ * Every write increments meta.versionId. The current version lives at
+ * patientId/ResourceType/resourceId.json and every version, the current one
+ * included, is kept at patientId/ResourceType/resourceId/_history/{versionId}.json.
  */
 
-import { BlobServiceClient } from '@azure/storage-blob';
+import { BlobRequestConditions, BlobServiceClient } from '@azure/storage-blob';
 import { Logger } from '../utils/logger.js';
+import { hashResource } from '../utils/canonicalHash.js';
+import {
+  buildIndexTags,
+  buildTagFilter,
+  decodeCursor,
+  encodeCursor,
+  pageSize,
+  parseResourceBlobName,
+  INDEX_TAGS,
+  INDEX_VERSION,
+  profileUserId,
+  IndexEntry,
+  IndexPage,
+  IndexPageOptions,
+  IndexQuery,
+} from './fhirIndex.js';
 
 export interface FHIRResource {
   resourceType: string;
@@ -22,6 +45,25 @@ export interface FHIRResource {
   [key: string]: any;
 }
 
+/**
+ * Resource types stored under a patient's compartment (patientId/ResourceType/)
+ */
+export const PATIENT_RESOURCE_TYPES = [
+  'Patient',
+  'Practitioner',
+  'Observation',
+  'RiskAssessment',
+  'Encounter',
+  'Communication',
+  'Condition',
+  'AllergyIntolerance',
+  'MedicationStatement',
+  'Immunization',
+  'Procedure',
+  'DiagnosticReport',
+  'Consent',
+] as const;
+
 export interface StorageResult {
   success: boolean;
   storageMode: 'azurite' | 'azure-blob';
@@ -29,11 +71,59 @@ export interface StorageResult {
   etag?: string;
   resourceId: string;
   resourceType: string;
+  versionId?: string;
   containerName?: string;
   blobName?: string;
+  /** The write was rejected because of its preconditions or a concurrent write (HTTP 412) */
+  preconditionFailed?: boolean;
   error?: string;
 }
 
+/**
+ * Conditions for a write, from the If-Match / If-None-Match request headers
+ */
+export interface WritePreconditions {
+  /** Version ETag (W/"3") the stored resource must still have */
+  ifMatch?: string;
+  /** '*': only create the resource, never replace it */
+  ifNoneMatch?: string;
+}
+
+/** State blobs live at the top of the container, apart from the patient compartments */
+const STATE_BLOB_PREFIX = '_lelink-';
+
+function stateBlobName(name: string): string {
+  return `${STATE_BLOB_PREFIX}${name}`;
+}
+
+/** Attempts at an unconditional write that keeps losing races to other writers */
+const MAX_WRITE_ATTEMPTS = 3;
+
+/**
+ * Weak ETag of a resource version, as FHIR servers send it
+ */
+export function versionETag(versionId: string): string {
+  return `W/"${versionId}"`;
+}
+
+/**
+ * Version ID from an ETag (W/"3", "3" or 3)
+ */
+export function parseETag(etag: string): string {
+  return etag.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+}
+
+/**
+ * Blockchain anchor details written back to a stored resource's blob metadata.
+ * Kept out of the resource JSON so the anchored canonical hash stays valid.
+ */
+export interface AnchorMetadata {
+  transactionHash: string;
+  blockNumber: number;
+  dataHash: string;
+  anchoredAt: string;
+}
+
 /**
  * FHIR Storage Service using Blob Storage (Environment-based)
  */
@@ -119,86 +209,108 @@ export class FHIRStorageService {
 
   /**
    * Store FHIR resource as JSON blob
+   *
+   * Writes are conditional on the blob that was read, so concurrent writers can't
+   * both produce the same version: without preconditions a lost race is retried on
+   * the new current version; with preconditions it fails like a precondition mismatch.
    */
-  public async storeResource(resource: FHIRResource): Promise<StorageResult> {
+  public async storeResource(resource: FHIRResource, preconditions: WritePreconditions = {}): Promise<StorageResult> {
     if (!this.initialized) {
       await this.initialize();
     }
 
-    try {
-      // Add metadata
-      resource.meta = {
-        ...resource.meta,
-        lastUpdated: new Date().toISOString(),
-        source: 'LeLink-Triage-AI',
-        environment: process.env.NODE_ENV || 'development',
-      };
+    const conditional = !!(preconditions.ifMatch || preconditions.ifNoneMatch);
 
+    try {
       // Extract patient ID and create blob path: patientId/ResourceType/resourceId.json
       const patientId = this.extractPatientId(resource);
       const blobName = this.createBlobPath(resource, patientId);
 
-      // Upload JSON content
-      const content = JSON.stringify(resource, null, 2);
+      for (let attempt = 1; ; attempt++) {
+        const current = await this.readCurrent(blobName);
+        const previous = current?.resource;
 
-      // Debug: Log the exact blob name being created
-      this.logger.info('Creating blob with path', {
-        resourceType: resource.resourceType,
-        resourceId: resource.id,
-        patientId: patientId,
-        blobName: blobName,
-        storageMode: this.storageMode,
-        containerName: this.containerName,
-        contentLength: content.length
-      });
+        const failure = this.checkPreconditions(previous, preconditions);
+        if (failure) {
+          return this.preconditionFailed(resource, failure, previous);
+        }
 
-      const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
-      const blockBlobClient = containerClient.getBlockBlobClient(blobName);
-      
-      // Debug: Check if blob already exists
-      const exists = await blockBlobClient.exists();
-      this.logger.info('Blob existence check', {
-        blobName,
-        exists,
-        resourceType: resource.resourceType,
-        resourceId: resource.id
-      });
-      
-      const uploadResponse = await blockBlobClient.upload(content, content.length, {
-        blobHTTPHeaders: {
-          blobContentType: 'application/json',
-        },
-        metadata: {
+        if (previous && !previous.meta?.versionId) {
+          // Stored before versioning; keep it as version 1
+          previous.meta = { ...previous.meta, versionId: '1' };
+          await this.uploadVersion(this.createHistoryPath(previous, patientId, '1'), previous, patientId);
+        }
+        const versionId = String(previous ? (parseInt(previous.meta!.versionId!, 10) || 1) + 1 : 1);
+
+        // Add metadata (these fields are excluded from the canonical hash, so anchored hashes still verify)
+        resource.meta = {
+          ...resource.meta,
+          versionId,
+          lastUpdated: new Date().toISOString(),
+          source: resource.meta?.source || 'LeLink-Triage-AI',
+          environment: process.env.NODE_ENV || 'development',
+        };
+
+        // Debug: Log the exact blob name being created
+        this.logger.info('Creating blob with path', {
           resourceType: resource.resourceType,
           resourceId: resource.id,
           patientId: patientId,
+          blobName: blobName,
+          versionId,
+          attempt,
           storageMode: this.storageMode,
-          environment: process.env.NODE_ENV || 'development',
-        },
-      });
+          containerName: this.containerName,
+        });
 
-      this.logger.info('FHIR resource stored successfully', {
-        resourceType: resource.resourceType,
-        resourceId: resource.id,
-        patientId: patientId,
-        blobName,
-        storageMode: this.storageMode,
-        etag: uploadResponse.etag,
-        requestId: uploadResponse.requestId,
-        version: uploadResponse.version,
-        lastModified: uploadResponse.lastModified,
-      });
+        let uploadResponse;
+        try {
+          uploadResponse = await this.uploadVersion(blobName, resource, patientId, {
+            tags: buildIndexTags(resource, this.sanitizeBlobName(patientId)),
+            conditions: current ? { ifMatch: current.etag } : { ifNoneMatch: '*' },
+          });
+        } catch (error) {
+          // 412 (etag changed) or 409 (created meanwhile): another writer got there first
+          const statusCode = (error as any).statusCode;
+          if (statusCode !== 412 && statusCode !== 409) throw error;
 
-      return {
-        success: true,
-        storageMode: this.storageMode,
-        location: blobName,
-        etag: uploadResponse.etag,
-        resourceId: resource.id,
-        resourceType: resource.resourceType,
-        containerName: this.containerName,
-        blobName,
-      };
+          if (conditional || attempt >= MAX_WRITE_ATTEMPTS) {
+            return this.preconditionFailed(
+              resource,
+              'The resource was changed by another request',
+              await this.getResource(patientId, resource.resourceType, resource.id)
+            );
+          }
+          this.logger.info('Concurrent write detected, retrying on the new version', { blobName, attempt });
+          continue;
+        }
+
+        // The current blob decides which version exists, so its history entry is written second
+        await this.uploadVersion(this.createHistoryPath(resource, patientId, versionId), resource, patientId);
+
+        this.logger.info('FHIR resource stored successfully', {
+          resourceType: resource.resourceType,
+          resourceId: resource.id,
+          patientId: patientId,
+          blobName,
+          storageMode: this.storageMode,
+          versionId,
+          requestId: uploadResponse.requestId,
+          lastModified: uploadResponse.lastModified,
+        });
+
+        return {
+          success: true,
+          storageMode: this.storageMode,
+          location: blobName,
+          etag: versionETag(versionId),
+          resourceId: resource.id,
+          resourceType: resource.resourceType,
+          versionId,
+          containerName: this.containerName,
+          blobName,
+        };
+      }
     } catch (error) {
       let patientId = 'unknown';
       try {
@@ -225,6 +337,210 @@ export class FHIRStorageService {
     }
   }
 
+  /**
+   * Undo a write made by storeResource: restore the version before it, or remove
+   * the resource if the write created it. Nothing is changed if the resource was
+   * written again since.
+   * @returns false if the write could not be undone
+   */
+  public async revertWrite(resource: FHIRResource, versionId: string): Promise<boolean> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+
+    try {
+      const patientId = this.extractPatientId(resource);
+      const blobName = this.createBlobPath(resource, patientId);
+
+      const current = await this.readCurrent(blobName);
+      if (!current || current.resource.meta?.versionId !== versionId) {
+        this.logger.warn('FHIR resource write not reverted, it was changed since', {
+          resourceType: resource.resourceType,
+          resourceId: resource.id,
+          versionId,
+          currentVersion: current?.resource.meta?.versionId,
+        });
+        return false;
+      }
+
+      const previousVersionId = String((parseInt(versionId, 10) || 1) - 1);
+      if (previousVersionId === '0') {
+        await containerClient.getBlockBlobClient(blobName).delete({ conditions: { ifMatch: current.etag } });
+      } else {
+        const previous = await this.getResourceVersion(patientId, resource.resourceType, resource.id, previousVersionId);
+        if (!previous) {
+          throw new Error(`Version ${previousVersionId} of ${resource.resourceType}/${resource.id} not found`);
+        }
+        await this.uploadVersion(blobName, previous, patientId, {
+          tags: buildIndexTags(previous, this.sanitizeBlobName(patientId)),
+          conditions: { ifMatch: current.etag },
+        });
+      }
+      await containerClient.getBlockBlobClient(this.createHistoryPath(resource, patientId, versionId)).deleteIfExists();
+
+      this.logger.info('FHIR resource write reverted', {
+        resourceType: resource.resourceType,
+        resourceId: resource.id,
+        patientId,
+        versionId,
+      });
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to revert FHIR resource write', {
+        error: error as Error,
+        resourceType: resource.resourceType,
+        resourceId: resource.id,
+        versionId,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Why a write's preconditions don't hold for the stored version, if they don't
+   */
+  private checkPreconditions(current: FHIRResource | undefined, preconditions: WritePreconditions): string | null {
+    if (preconditions.ifNoneMatch === '*' && current) {
+      return 'The resource already exists';
+    }
+
+    if (preconditions.ifMatch) {
+      if (!current) {
+        return 'The resource does not exist';
+      }
+      const currentVersion = current.meta?.versionId || '1';
+      if (parseETag(preconditions.ifMatch) !== currentVersion) {
+        return `The resource was changed since version ${parseETag(preconditions.ifMatch)}; the current version is ${currentVersion}`;
+      }
+    }
+
+    return null;
+  }
+
+  private preconditionFailed(resource: FHIRResource, reason: string, current?: FHIRResource | null): StorageResult {
+    this.logger.warn('FHIR resource write rejected', {
+      resourceType: resource.resourceType,
+      resourceId: resource.id,
+      reason,
+      currentVersion: current?.meta?.versionId,
+    });
+
+    return {
+      success: false,
+      storageMode: this.storageMode,
+      resourceId: resource.id,
+      resourceType: resource.resourceType,
+      preconditionFailed: true,
+      ...(current && { etag: versionETag(current.meta?.versionId || '1'), versionId: current.meta?.versionId || '1' }),
+      error: reason,
+    };
+  }
+
+  /**
+   * The current version of a resource with its blob etag, or null if it isn't stored
+   */
+  private async readCurrent(blobName: string): Promise<{ resource: FHIRResource; etag: string } | null> {
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+
+    try {
+      const downloadResponse = await containerClient.getBlockBlobClient(blobName).download();
+      const content = await this.streamToBuffer(downloadResponse.readableStreamBody!);
+      return { resource: JSON.parse(content.toString()) as FHIRResource, etag: downloadResponse.etag! };
+    } catch (error) {
+      if ((error as any).statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Upload one version of a resource. Only the current version carries index tags.
+   */
+  private async uploadVersion(
+    blobName: string,
+    resource: FHIRResource,
+    patientId: string,
+    options: { tags?: Record<string, string>; conditions?: BlobRequestConditions } = {}
+  ) {
+    const content = JSON.stringify(resource, null, 2);
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+
+    return containerClient.getBlockBlobClient(blobName).upload(content, content.length, {
+      blobHTTPHeaders: {
+        blobContentType: 'application/json',
+      },
+      tags: options.tags,
+      conditions: options.conditions,
+      metadata: {
+        resourceType: resource.resourceType,
+        resourceId: resource.id,
+        patientId: patientId,
+        versionId: resource.meta?.versionId || '1',
+        // Lets anchor write-back find the version a hash belongs to
+        dataHash: hashResource(resource),
+        storageMode: this.storageMode,
+        environment: process.env.NODE_ENV || 'development',
+      },
+    });
+  }
+
+  /**
+   * Retrieve one version of a resource (FHIR vread)
+   * @returns null if the resource or the version doesn't exist
+   */
+  public async getResourceVersion(
+    patientId: string,
+    resourceType: string,
+    resourceId: string,
+    versionId: string
+  ): Promise<FHIRResource | null> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const blobName = `${this.sanitizeBlobName(patientId)}/${resourceType}/${this.sanitizeBlobName(resourceId)}/_history/${this.sanitizeBlobName(versionId)}.json`;
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+
+    if (await containerClient.getBlockBlobClient(blobName).exists()) {
+      return this.downloadBlob(blobName);
+    }
+
+    // A resource stored before versioning has no history yet; its only version is 1
+    const current = await this.getResource(patientId, resourceType, resourceId);
+    return current && (current.meta?.versionId || '1') === versionId ? current : null;
+  }
+
+  /**
+   * Every version of a resource, newest first (FHIR _history)
+   * @returns An empty list if the resource was never stored
+   */
+  public async getResourceHistory(patientId: string, resourceType: string, resourceId: string): Promise<FHIRResource[]> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const prefix = `${this.sanitizeBlobName(patientId)}/${resourceType}/${this.sanitizeBlobName(resourceId)}/_history/`;
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+    const versions: FHIRResource[] = [];
+
+    for await (const blob of containerClient.listBlobsFlat({ prefix })) {
+      const version = await this.downloadBlob(blob.name);
+      if (version) versions.push(version);
+    }
+
+    if (versions.length === 0) {
+      const current = await this.getResource(patientId, resourceType, resourceId);
+      return current ? [current] : [];
+    }
+
+    return versions.sort(
+      (a, b) => (parseInt(b.meta?.versionId || '1', 10) || 0) - (parseInt(a.meta?.versionId || '1', 10) || 0)
+    );
+  }
+
   /**
    * Retrieve FHIR resource from blob storage
    */
@@ -276,6 +592,68 @@ export class FHIRStorageService {
     }
   }
 
+  /**
+   * Record where a stored resource was anchored on-chain, on the current blob
+   * and on the history entry of the version with the anchored hash
+   * @returns false if no stored version has that hash (not stored yet)
+   */
+  public async setAnchorMetadata(
+    patientId: string,
+    resourceType: string,
+    resourceId: string,
+    anchor: AnchorMetadata
+  ): Promise<boolean> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const blobName = `${this.sanitizeBlobName(patientId)}/${resourceType}/${this.sanitizeBlobName(resourceId)}.json`;
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+    const candidates = [blobName];
+    for await (const blob of containerClient.listBlobsFlat({ prefix: `${blobName.replace(/\.json$/, '')}/_history/` })) {
+      candidates.push(blob.name);
+    }
+
+    let written = false;
+    for (const candidate of candidates) {
+      try {
+        const blockBlobClient = containerClient.getBlockBlobClient(candidate);
+        const properties = await blockBlobClient.getProperties();
+
+        // Blobs written before versioning have no dataHash; the current one is the anchored one
+        const hash = properties.metadata?.dataHash;
+        if (hash ? hash !== anchor.dataHash : candidate !== blobName) continue;
+
+        await blockBlobClient.setMetadata(
+          {
+            ...properties.metadata,
+            anchorTxHash: anchor.transactionHash,
+            anchorBlockNumber: String(anchor.blockNumber),
+            anchorDataHash: anchor.dataHash,
+            anchoredAt: anchor.anchoredAt,
+          },
+          { conditions: { ifMatch: properties.etag } }
+        );
+
+        this.logger.debug('Anchor metadata written', { blobName: candidate, transactionHash: anchor.transactionHash });
+        written = true;
+      } catch (error) {
+        if ((error as any).statusCode === 404) {
+          continue;
+        }
+
+        this.logger.error('Failed to write anchor metadata', {
+          error: error as Error,
+          blobName: candidate,
+          storageMode: this.storageMode,
+        });
+        throw error;
+      }
+    }
+
+    return written;
+  }
+
   /**
    * List all resources for a patient
    */
@@ -285,29 +663,11 @@ export class FHIRStorageService {
     }
 
     try {
-      const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
       const resources: FHIRResource[] = [];
 
       // Search all resource types for this patient using new structure: patientId/ResourceType/
-      const resourceTypes = ['Patient', 'Practitioner', 'Observation', 'RiskAssessment', 'Encounter'];
-
-      for (const resourceType of resourceTypes) {
-        const prefix = `${this.sanitizeBlobName(patientId)}/${resourceType}/`;
-
-        for await (const blob of containerClient.listBlobsFlat({ prefix })) {
-          try {
-            const blockBlobClient = containerClient.getBlockBlobClient(blob.name);
-            const downloadResponse = await blockBlobClient.download();
-            const content = await this.streamToBuffer(downloadResponse.readableStreamBody!);
-            const resource = JSON.parse(content.toString()) as FHIRResource;
-            resources.push(resource);
-          } catch (parseError) {
-            this.logger.warn('Failed to parse FHIR resource blob', {
-              blobName: blob.name,
-              error: parseError as Error,
-            });
-          }
-        }
+      for (const resourceType of PATIENT_RESOURCE_TYPES) {
+        resources.push(...(await this.downloadPrefix(`${this.sanitizeBlobName(patientId)}/${resourceType}/`)));
       }
 
       this.logger.debug('Listed patient resources', {
@@ -328,83 +688,307 @@ export class FHIRStorageService {
   }
 
   /**
-   * Search resources by type across all patients
-   * Optimized version that uses blob prefix filtering instead of downloading all blobs
+   * List a patient's resources of a single type
    */
-  public async searchResourcesByType(resourceType: string): Promise<FHIRResource[]> {
+  public async listPatientResourcesByType(patientId: string, resourceType: string): Promise<FHIRResource[]> {
     if (!this.initialized) {
       await this.initialize();
     }
 
     try {
-      const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
-      const resources: FHIRResource[] = [];
-      
-      this.logger.debug('Starting optimized search by resource type', {
+      return await this.downloadPrefix(`${this.sanitizeBlobName(patientId)}/${resourceType}/`);
+    } catch (error) {
+      this.logger.error('Failed to list patient resources by type', {
+        error: error as Error,
+        patientId,
         resourceType,
         storageMode: this.storageMode,
       });
+      throw error;
+    }
+  }
 
-      // Use a more targeted approach: look for blobs matching pattern */ResourceType/*
-      // But limit the search scope to avoid timeouts
-      let blobCount = 0;
-      const maxBlobs = 100; // Safety limit to prevent infinite loops
-      
-      for await (const blob of containerClient.listBlobsFlat()) {
-        blobCount++;
-        
-        // Safety check to prevent runaway queries
-        if (blobCount > maxBlobs) {
-          this.logger.warn('Reached maximum blob search limit', {
-            maxBlobs,
-            resourceType,
-            foundResources: resources.length,
-          });
-          break;
-        }
+  /**
+   * Download and parse every resource blob under a prefix, skipping unparseable blobs
+   */
+  private async downloadPrefix(prefix: string): Promise<FHIRResource[]> {
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+    const resources: FHIRResource[] = [];
 
-        // Check if blob path matches: patientId/ResourceType/resourceId.json
-        const pathParts = blob.name.split('/');
-        if (pathParts.length === 3 && pathParts[1] === resourceType) {
-          try {
-            const blockBlobClient = containerClient.getBlockBlobClient(blob.name);
-            const downloadResponse = await blockBlobClient.download();
-            const content = await this.streamToBuffer(downloadResponse.readableStreamBody!);
-            const resource = JSON.parse(content.toString()) as FHIRResource;
-            resources.push(resource);
-            
-            this.logger.debug('Found resource', {
-              resourceType,
-              resourceId: resource.id,
-              blobName: blob.name,
-            });
-          } catch (parseError) {
-            this.logger.warn('Failed to parse FHIR resource blob', {
-              blobName: blob.name,
-              error: parseError as Error,
-            });
-          }
+    for await (const blob of containerClient.listBlobsFlat({ prefix })) {
+      // Only current versions; _history blobs sit below the resource's own path
+      if (!parseResourceBlobName(blob.name)) continue;
+
+      try {
+        const blockBlobClient = containerClient.getBlockBlobClient(blob.name);
+        const downloadResponse = await blockBlobClient.download();
+        const content = await this.streamToBuffer(downloadResponse.readableStreamBody!);
+        const resource = JSON.parse(content.toString()) as FHIRResource;
+        resources.push(resource);
+      } catch (parseError) {
+        this.logger.warn('Failed to parse FHIR resource blob', {
+          blobName: blob.name,
+          error: parseError as Error,
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Search resources by type across all patients
+   */
+  public async searchResourcesByType(resourceType: string): Promise<FHIRResource[]> {
+    const resources: FHIRResource[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.searchResources({ resourceType }, { limit: 100, cursor });
+      resources.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return resources;
+  }
+
+  /**
+   * Find indexed resource blobs, one page at a time
+   */
+  public async queryIndex(query: IndexQuery, options: IndexPageOptions = {}): Promise<IndexPage<IndexEntry>> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const filter = buildTagFilter({
+      ...query,
+      patientId: query.patientId ? this.sanitizeBlobName(query.patientId) : undefined,
+    });
+
+    try {
+      const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+      const iterator = containerClient
+        .findBlobsByTags(filter)
+        .byPage({ continuationToken: decodeCursor(options.cursor), maxPageSize: pageSize(options.limit) });
+      const { value: page } = await iterator.next();
+
+      const items: IndexEntry[] = [];
+      for (const blob of page?.blobs || []) {
+        const entry = parseResourceBlobName(blob.name);
+        if (entry) {
+          items.push({ ...entry, patientId: this.unsanitizeBlobName(entry.patientId) });
         }
       }
 
-      this.logger.debug('Search completed', {
-        resourceType,
-        resourceCount: resources.length,
-        totalBlobsChecked: blobCount,
-        storageMode: this.storageMode,
-      });
+      this.logger.debug('Index query completed', { filter, resultCount: items.length });
 
-      return resources;
+      return { items, nextCursor: encodeCursor(page?.continuationToken) };
     } catch (error) {
-      this.logger.error('Failed to search resources by type', {
+      this.logger.error('Failed to query FHIR index', {
         error: error as Error,
-        resourceType,
+        filter,
         storageMode: this.storageMode,
       });
       throw error;
     }
   }
 
+  /**
+   * Search resources through the index and download the page of matches
+   */
+  public async searchResources(query: IndexQuery, options: IndexPageOptions = {}): Promise<IndexPage<FHIRResource>> {
+    const page = await this.queryIndex(query, options);
+    const resources = await Promise.all(page.items.map((entry) => this.downloadBlob(entry.blobName)));
+
+    return {
+      items: resources.filter((resource): resource is FHIRResource => resource !== null),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  /**
+   * A user's Patient or Practitioner profile. Onboarding stores profiles under
+   * generated IDs, so they are found through the user ID on their identifier,
+   * then in a compartment named after the user, then by email.
+   */
+  public async findUserProfile(
+    userId: string,
+    resourceType: 'Patient' | 'Practitioner',
+    email?: string
+  ): Promise<FHIRResource | null> {
+    const {
+      items: [profile],
+    } = await this.searchResources({ userId, resourceType }, { limit: 1 });
+    if (profile) return profile;
+
+    const [stored] = await this.listPatientResourcesByType(userId, resourceType);
+    if (stored) return stored;
+
+    if (!email) return null;
+    const {
+      items: [byEmail],
+    } = await this.searchResources({ email, resourceType }, { limit: 1 });
+    // A profile linked to another account is never the user's, whatever its email
+    const owner = byEmail && profileUserId(byEmail);
+    return byEmail && (!owner || owner === userId) ? byEmail : null;
+  }
+
+  /**
+   * Number of resources in a patient's compartment, without downloading them
+   */
+  public async countPatientResources(patientId: string): Promise<number> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+    let count = 0;
+    for await (const blob of containerClient.listBlobsFlat({ prefix: `${this.sanitizeBlobName(patientId)}/` })) {
+      if (parseResourceBlobName(blob.name)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Tag every resource blob that isn't indexed at the current index version
+   * (blobs stored before the index existed, or by an older index format)
+   */
+  public async rebuildIndex(): Promise<{ scanned: number; indexed: number; failed: number }> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+    const result = { scanned: 0, indexed: 0, failed: 0 };
+
+    for await (const blob of containerClient.listBlobsFlat({ includeTags: true })) {
+      const entry = parseResourceBlobName(blob.name);
+      if (!entry) continue;
+      result.scanned++;
+
+      if (blob.tags?.[INDEX_TAGS.indexed] === INDEX_VERSION) continue;
+
+      try {
+        const resource = await this.downloadBlob(blob.name);
+        if (!resource) continue;
+        await containerClient.getBlockBlobClient(blob.name).setTags(buildIndexTags(resource, entry.patientId));
+        result.indexed++;
+      } catch (error) {
+        result.failed++;
+        this.logger.warn('Failed to index FHIR resource blob', { blobName: blob.name, error: error as Error });
+      }
+    }
+
+    this.logger.info('FHIR index rebuilt', { ...result, indexVersion: INDEX_VERSION });
+    return result;
+  }
+
+  /**
+   * Download and parse one resource blob
+   * @returns null if the blob is gone or isn't valid JSON
+   */
+  private async downloadBlob(blobName: string): Promise<FHIRResource | null> {
+    try {
+      const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+      const downloadResponse = await containerClient.getBlockBlobClient(blobName).download();
+      const content = await this.streamToBuffer(downloadResponse.readableStreamBody!);
+      return JSON.parse(content.toString()) as FHIRResource;
+    } catch (error) {
+      this.logger.warn('Failed to read FHIR resource blob', { blobName, error: error as Error });
+      return null;
+    }
+  }
+
+  /**
+   * Read a state blob: service state (settings, notifications, the audit log) kept in
+   * the container so every instance of the Functions app shares it. State blob names
+   * have no slash, so they are never taken for a patient compartment.
+   * @returns The blob's content and ETag, or null if it doesn't exist
+   */
+  public async readStateBlob(name: string): Promise<{ content: string; etag: string } | null> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+    try {
+      const downloadResponse = await containerClient.getBlockBlobClient(stateBlobName(name)).download();
+      const content = await this.streamToBuffer(downloadResponse.readableStreamBody!);
+      return { content: content.toString('utf8'), etag: downloadResponse.etag! };
+    } catch (error) {
+      if ((error as any).statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a state blob if it still has the ETag that was read, or create it if the etag is null
+   * @returns false if another writer changed (or created) it first
+   */
+  public async writeStateBlob(name: string, content: string, etag: string | null): Promise<boolean> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+    try {
+      await containerClient.getBlockBlobClient(stateBlobName(name)).upload(content, Buffer.byteLength(content), {
+        blobHTTPHeaders: { blobContentType: 'application/json' },
+        conditions: etag ? { ifMatch: etag } : { ifNoneMatch: '*' },
+      });
+      return true;
+    } catch (error) {
+      const statusCode = (error as any).statusCode;
+      if (statusCode === 412 || statusCode === 409) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Append to a state blob (an append blob), creating it if it doesn't exist
+   */
+  public async appendStateBlob(name: string, content: string): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const appendBlobClient = this.blobServiceClient
+      .getContainerClient(this.containerName)
+      .getAppendBlobClient(stateBlobName(name));
+    await appendBlobClient.createIfNotExists({ blobHTTPHeaders: { blobContentType: 'application/x-ndjson' } });
+    await appendBlobClient.appendBlock(content, Buffer.byteLength(content));
+  }
+
+  /**
+   * Names of the state blobs starting with a prefix
+   */
+  public async listStateBlobs(prefix: string): Promise<string[]> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+    const names: string[] = [];
+    for await (const blob of containerClient.listBlobsFlat({ prefix: stateBlobName(prefix) })) {
+      if (!blob.name.includes('/')) {
+        names.push(blob.name.slice(STATE_BLOB_PREFIX.length));
+      }
+    }
+    return names;
+  }
+
+  public async deleteStateBlob(name: string): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    await this.blobServiceClient.getContainerClient(this.containerName).getBlobClient(stateBlobName(name)).deleteIfExists();
+  }
+
   /**
    * Get all unique patient IDs from stored resources
    */
@@ -417,14 +1001,11 @@ export class FHIRStorageService {
       const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
       const patientIds = new Set<string>();
       
-      // List all blobs and extract patient IDs from the hierarchical structure
-      for await (const blob of containerClient.listBlobsFlat()) {
-        // Extract patient ID from path: patientId/ResourceType/resourceId.json
-        const pathParts = blob.name.split('/');
-        if (pathParts.length >= 2) {
+      // Patient compartments are the top-level "directories": patientId/ResourceType/resourceId.json
+      for await (const item of containerClient.listBlobsByHierarchy('/')) {
+        if (item.kind === 'prefix') {
           // Unsanitize the patient ID (reverse the sanitization)
-          const originalPatientId = this.unsanitizeBlobName(pathParts[0]);
-          patientIds.add(originalPatientId);
+          patientIds.add(this.unsanitizeBlobName(item.name.replace(/\/$/, '')));
         }
       }
 
@@ -504,6 +1085,14 @@ export class FHIRStorageService {
     return `${sanitizedPatientId}/${resource.resourceType}/${sanitizedResourceId}.json`;
   }
 
+  /**
+   * Blob path of one version of a resource: patientId/ResourceType/resourceId/_history/versionId.json
+   */
+  private createHistoryPath(resource: FHIRResource, patientId: string, versionId: string): string {
+    const currentPath = this.createBlobPath(resource, patientId);
+    return `${currentPath.replace(/\.json$/, '')}/_history/${this.sanitizeBlobName(versionId)}.json`;
+  }
+
   /**
    * Sanitize blob name to ensure Azurite compatibility
    * Replaces problematic characters with safe alternatives
@@ -524,9 +1113,10 @@ export class FHIRStorageService {
   }
 
   /**
-   * Extract patient ID from resource
+   * Extract patient ID from resource: the compartment it is stored in
+   * @throws Error if the resource references no patient
    */
-  private extractPatientId(resource: FHIRResource): string {
+  public extractPatientId(resource: FHIRResource): string {
     // For Patient resources, use the resource ID
     if (resource.resourceType === 'Patient') {
       return resource.id;
@@ -545,6 +1135,24 @@ export class FHIRStorageService {
       }
     }
 
+    // Some resource types (e.g. AllergyIntolerance, Immunization) reference the patient via `patient`
+    if (resource.patient?.reference) {
+      const match = resource.patient.reference.match(/Patient\/(.+)/);
+      if (match) {
+        return match[1];
+      }
+    }
+
+    // Appointments reference the patient among their participants
+    if (resource.resourceType === 'Appointment') {
+      const reference = (resource.participant || [])
+        .map((participant: any) => participant.actor?.reference)
+        .find((ref: string | undefined) => ref?.startsWith('Patient/'));
+      if (reference) {
+        return reference.slice('Patient/'.length);
+      }
+    }
+
     // Fallback: look for identifier with patient system
     if (resource.identifier) {
       for (const identifier of resource.identifier) {
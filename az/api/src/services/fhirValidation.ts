@@ -0,0 +1,307 @@
+/**
+ * @fileoverview Validation of FHIR resources before storage and anchoring
+ * @module services/fhirValidation
+ *
+ * Checks generated resources against the FHIR R4 structure of the types the
+ * triage assistant writes, plus the LeLink profiles on top of it:
+ * - every clinical resource references its Patient in `subject`
+ * - RiskAssessment predictions carry a coded `qualitativeRisk` (risk-probability)
+ * - `status` comes from the R4 value set of the resource type
+ * - codings use the canonical LOINC/SNOMED CT URIs (or LeLink's triage acuity
+ *   code systems) and well-formed codes
+ * The checks are deterministic and need no terminology server.
+ */
+
+import { Logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+
+export const CODE_SYSTEMS = {
+  loinc: 'http://loinc.org',
+  snomed: 'http://snomed.info/sct',
+  riskProbability: 'http://terminology.hl7.org/CodeSystem/risk-probability',
+  observationCategory: 'http://terminology.hl7.org/CodeSystem/observation-category',
+  esiAcuity: 'http://lelink.health/fhir/CodeSystem/triage-acuity-esi',
+  manchesterAcuity: 'http://lelink.health/fhir/CodeSystem/triage-acuity-manchester',
+} as const;
+
+/** R4 status value sets */
+const STATUS_VALUES: Record<string, string[]> = {
+  RiskAssessment: ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'],
+  Observation: ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'],
+};
+
+const RISK_PROBABILITY_CODES = ['negligible', 'low', 'moderate', 'high', 'certain'];
+
+/** Systems a coding may use; HL7 code systems are matched by prefix */
+const HL7_CODE_SYSTEM_PREFIX = 'http://terminology.hl7.org/CodeSystem/';
+const KNOWN_SYSTEMS: string[] = [
+  CODE_SYSTEMS.loinc,
+  CODE_SYSTEMS.snomed,
+  CODE_SYSTEMS.esiAcuity,
+  CODE_SYSTEMS.manchesterAcuity,
+];
+
+/** Spellings of the LOINC/SNOMED URIs seen in generated codings, and the canonical URI for each */
+const MISSPELLED_SYSTEMS: Array<{ pattern: RegExp; canonical: string }> = [
+  { pattern: /loinc/i, canonical: CODE_SYSTEMS.loinc },
+  { pattern: /snomed/i, canonical: CODE_SYSTEMS.snomed },
+];
+
+const LOINC_CODE = /^\d{1,7}-\d$/;
+const SNOMED_CODE = /^\d{6,18}$/;
+const FHIR_ID = /^[A-Za-z0-9\-.]{1,64}$/;
+const FHIR_DATE_TIME = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/;
+
+export interface FHIRValidationIssue {
+  /** FHIRPath-like location, e.g. RiskAssessment.prediction[0].qualitativeRisk */
+  path: string;
+  message: string;
+}
+
+export interface FHIRValidationResult {
+  valid: boolean;
+  issues: FHIRValidationIssue[];
+}
+
+type ResourceValidator = (resource: Record<string, any>, issues: FHIRValidationIssue[]) => void;
+
+/**
+ * Structure and profile checks for FHIR resources
+ */
+export class FHIRValidationService {
+  private logger: Logger;
+  private validators: Record<string, ResourceValidator>;
+
+  constructor() {
+    this.logger = new Logger();
+    this.validators = {
+      RiskAssessment: (resource, issues) => this.validateRiskAssessment(resource, issues),
+      Observation: (resource, issues) => this.validateObservation(resource, issues),
+    };
+  }
+
+  /**
+   * Validate a resource; types without a profile get the base checks only
+   */
+  public validate(resource: unknown): FHIRValidationResult {
+    const issues: FHIRValidationIssue[] = [];
+
+    if (!isObject(resource)) {
+      return { valid: false, issues: [{ path: '', message: 'Resource must be a JSON object' }] };
+    }
+
+    const type = resource.resourceType;
+    if (typeof type !== 'string' || !/^[A-Z][A-Za-z]+$/.test(type)) {
+      issues.push({ path: 'resourceType', message: 'resourceType is required' });
+      return { valid: false, issues };
+    }
+
+    if (resource.id !== undefined && (typeof resource.id !== 'string' || !FHIR_ID.test(resource.id))) {
+      issues.push({ path: `${type}.id`, message: 'id must be 1-64 letters, digits, "-" or "."' });
+    }
+
+    this.validators[type]?.(resource, issues);
+
+    return { valid: issues.length === 0, issues };
+  }
+
+  /**
+   * Validate a resource and throw when it has issues
+   * @throws ValidationError listing the issues, in a form the model can act on
+   */
+  public assertValid(resource: unknown): void {
+    const result = this.validate(resource);
+    if (result.valid) {
+      return;
+    }
+
+    const type = isObject(resource) && typeof resource.resourceType === 'string' ? resource.resourceType : 'resource';
+    this.logger.warn('FHIR resource failed validation', { resourceType: type, issues: result.issues });
+    throw new ValidationError(`Invalid ${type}: ${formatIssues(result.issues)}`, { issues: result.issues });
+  }
+
+  private validateRiskAssessment(resource: Record<string, any>, issues: FHIRValidationIssue[]): void {
+    this.checkStatus(resource, issues);
+    this.checkSubject(resource, issues);
+    this.checkDateTime(resource, 'occurrenceDateTime', issues);
+
+    if (resource.code !== undefined) {
+      this.checkCodeableConcept(resource.code, 'RiskAssessment.code', issues);
+    }
+
+    if (!Array.isArray(resource.prediction) || resource.prediction.length === 0) {
+      issues.push({ path: 'RiskAssessment.prediction', message: 'at least one prediction is required' });
+      return;
+    }
+
+    resource.prediction.forEach((prediction: any, index: number) => {
+      const path = `RiskAssessment.prediction[${index}]`;
+      if (!isObject(prediction)) {
+        issues.push({ path, message: 'prediction must be an object' });
+        return;
+      }
+
+      const codings = prediction.qualitativeRisk?.coding;
+      const risk = Array.isArray(codings)
+        ? codings.find((coding: any) => coding?.system === CODE_SYSTEMS.riskProbability)
+        : undefined;
+      if (!risk) {
+        issues.push({
+          path: `${path}.qualitativeRisk`,
+          message: `qualitativeRisk must have a coding with system ${CODE_SYSTEMS.riskProbability}`,
+        });
+      } else if (!RISK_PROBABILITY_CODES.includes(risk.code)) {
+        issues.push({
+          path: `${path}.qualitativeRisk`,
+          message: `qualitativeRisk code must be one of ${RISK_PROBABILITY_CODES.join(', ')}`,
+        });
+      }
+
+      if (prediction.outcome !== undefined) {
+        this.checkCodeableConcept(prediction.outcome, `${path}.outcome`, issues);
+      }
+      if (prediction.rationale !== undefined && typeof prediction.rationale !== 'string') {
+        issues.push({ path: `${path}.rationale`, message: 'rationale must be a string' });
+      }
+    });
+
+    if (resource.mitigation !== undefined && typeof resource.mitigation !== 'string') {
+      issues.push({ path: 'RiskAssessment.mitigation', message: 'mitigation must be a string' });
+    }
+    this.checkNotes(resource, issues);
+  }
+
+  private validateObservation(resource: Record<string, any>, issues: FHIRValidationIssue[]): void {
+    this.checkStatus(resource, issues);
+    this.checkSubject(resource, issues);
+    this.checkDateTime(resource, 'effectiveDateTime', issues);
+    this.checkDateTime(resource, 'issued', issues);
+
+    if (!isObject(resource.code)) {
+      issues.push({ path: 'Observation.code', message: 'code is required' });
+    } else {
+      this.checkCodeableConcept(resource.code, 'Observation.code', issues);
+      if (!Array.isArray(resource.code.coding) || resource.code.coding.length === 0) {
+        issues.push({ path: 'Observation.code', message: `code must have a LOINC (${CODE_SYSTEMS.loinc}) or SNOMED CT coding` });
+      }
+    }
+
+    if (resource.category !== undefined) {
+      if (!Array.isArray(resource.category)) {
+        issues.push({ path: 'Observation.category', message: 'category must be an array' });
+      } else {
+        resource.category.forEach((category: any, index: number) =>
+          this.checkCodeableConcept(category, `Observation.category[${index}]`, issues)
+        );
+      }
+    }
+
+    if (resource.valueString !== undefined && typeof resource.valueString !== 'string') {
+      issues.push({ path: 'Observation.valueString', message: 'valueString must be a string' });
+    }
+    if (resource.valueCodeableConcept !== undefined) {
+      this.checkCodeableConcept(resource.valueCodeableConcept, 'Observation.valueCodeableConcept', issues);
+    }
+    this.checkNotes(resource, issues);
+  }
+
+  private checkStatus(resource: Record<string, any>, issues: FHIRValidationIssue[]): void {
+    const allowed = STATUS_VALUES[resource.resourceType];
+    if (!allowed.includes(resource.status)) {
+      issues.push({
+        path: `${resource.resourceType}.status`,
+        message: `status must be one of ${allowed.join(', ')}`,
+      });
+    }
+  }
+
+  private checkSubject(resource: Record<string, any>, issues: FHIRValidationIssue[]): void {
+    const reference = resource.subject?.reference;
+    if (typeof reference !== 'string' || !/^Patient\/[A-Za-z0-9\-._@]+$/.test(reference)) {
+      issues.push({
+        path: `${resource.resourceType}.subject`,
+        message: 'subject must reference the patient (Patient/{id})',
+      });
+    }
+  }
+
+  private checkDateTime(resource: Record<string, any>, field: string, issues: FHIRValidationIssue[]): void {
+    const value = resource[field];
+    if (value !== undefined && (typeof value !== 'string' || !FHIR_DATE_TIME.test(value))) {
+      issues.push({ path: `${resource.resourceType}.${field}`, message: `${field} must be an ISO 8601 dateTime` });
+    }
+  }
+
+  private checkNotes(resource: Record<string, any>, issues: FHIRValidationIssue[]): void {
+    if (resource.note === undefined) {
+      return;
+    }
+    if (!Array.isArray(resource.note) || resource.note.some((note: any) => typeof note?.text !== 'string')) {
+      issues.push({ path: `${resource.resourceType}.note`, message: 'note must be an array of { text }' });
+    }
+  }
+
+  private checkCodeableConcept(concept: any, path: string, issues: FHIRValidationIssue[]): void {
+    if (!isObject(concept)) {
+      issues.push({ path, message: 'must be a CodeableConcept object' });
+      return;
+    }
+    if (concept.text !== undefined && typeof concept.text !== 'string') {
+      issues.push({ path: `${path}.text`, message: 'text must be a string' });
+    }
+    if (concept.coding === undefined) {
+      if (concept.text === undefined) {
+        issues.push({ path, message: 'needs a coding or text' });
+      }
+      return;
+    }
+    if (!Array.isArray(concept.coding)) {
+      issues.push({ path: `${path}.coding`, message: 'coding must be an array' });
+      return;
+    }
+
+    concept.coding.forEach((coding: any, index: number) => this.checkCoding(coding, `${path}.coding[${index}]`, issues));
+  }
+
+  private checkCoding(coding: any, path: string, issues: FHIRValidationIssue[]): void {
+    if (!isObject(coding) || typeof coding.code !== 'string' || !coding.code) {
+      issues.push({ path, message: 'coding needs a code' });
+      return;
+    }
+
+    const system = coding.system;
+    if (typeof system !== 'string' || !system) {
+      issues.push({ path: `${path}.system`, message: 'coding needs a system' });
+      return;
+    }
+
+    if (!KNOWN_SYSTEMS.includes(system) && !system.startsWith(HL7_CODE_SYSTEM_PREFIX)) {
+      const canonical = MISSPELLED_SYSTEMS.find(({ pattern }) => pattern.test(system))?.canonical;
+      issues.push({
+        path: `${path}.system`,
+        message: canonical
+          ? `use the canonical system URI ${canonical} instead of ${system}`
+          : `unsupported system ${system}; use ${CODE_SYSTEMS.loinc}, ${CODE_SYSTEMS.snomed} or an HL7 code system`,
+      });
+      return;
+    }
+
+    if (system === CODE_SYSTEMS.loinc && !LOINC_CODE.test(coding.code)) {
+      issues.push({ path: `${path}.code`, message: `${coding.code} is not a LOINC code (e.g. 89261-2)` });
+    }
+    if (system === CODE_SYSTEMS.snomed && !SNOMED_CODE.test(coding.code)) {
+      issues.push({ path: `${path}.code`, message: `${coding.code} is not a SNOMED CT concept ID` });
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatIssues(issues: FHIRValidationIssue[]): string {
+  return issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ');
+}
+
+// Export singleton instance
+export const fhirValidationService = new FHIRValidationService();
@@ -0,0 +1,150 @@
+/**
+ * @fileoverview LLM provider backed by OpenAI Chat Completions
+ * @module services/llm/chatCompletions
+ *
+ * Conversation history is kept locally, one JSON file per conversation, and
+ * replayed with the system instructions and tools on every run.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type OpenAI from 'openai';
+import type { OpenAIService } from '../openai.js';
+import { Logger } from '../../utils/logger.js';
+import { ValidationError } from '../../utils/errors.js';
+import { executeToolCall, type LLMProvider, type LLMRunOptions, type LLMRunResult } from './provider.js';
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+interface StoredConversation {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+}
+
+export interface ChatCompletionsProviderOptions {
+  model?: string;
+  historyDir?: string;
+  /** Model round trips allowed per run before giving up on tool calls */
+  maxToolRounds?: number;
+}
+
+export class ChatCompletionsProvider implements LLMProvider {
+  public readonly name = 'openai-chat' as const;
+  private openai: OpenAIService;
+  private model: string;
+  private historyDir: string;
+  private maxToolRounds: number;
+  private logger: Logger;
+
+  constructor(openai: OpenAIService, options: ChatCompletionsProviderOptions = {}) {
+    this.openai = openai;
+    this.model = options.model || process.env.OPENAI_CHAT_MODEL || 'gpt-4o';
+    this.historyDir =
+      options.historyDir || process.env.LLM_HISTORY_DIR || path.join(process.cwd(), '.lelink', 'conversations');
+    this.maxToolRounds = options.maxToolRounds || 5;
+    this.logger = new Logger();
+  }
+
+  public async createConversation(): Promise<string> {
+    const now = new Date().toISOString();
+    const conversation: StoredConversation = { id: `chat_${uuidv4()}`, createdAt: now, updatedAt: now, messages: [] };
+    await this.save(conversation);
+    return conversation.id;
+  }
+
+  public async addUserMessage(conversationId: string, content: string): Promise<string> {
+    const conversation = await this.load(conversationId);
+    conversation.messages.push({ role: 'user', content });
+    await this.save(conversation);
+    return conversationId;
+  }
+
+  public async run(conversationId: string, options: LLMRunOptions): Promise<LLMRunResult> {
+    const conversation = await this.load(conversationId);
+    const runId = `run_${uuidv4()}`;
+    const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = (options.tools || []).map((tool) => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+    const instructions = [options.instructions, options.additionalInstructions].filter(Boolean).join('\n\n');
+    const system: ChatMessage[] = instructions ? [{ role: 'system', content: instructions }] : [];
+
+    this.logger.info('Running chat completion', { model: this.model, conversationId, runId });
+
+    try {
+      for (let round = 0; round < this.maxToolRounds; round++) {
+        const message = await this.openai.createChatCompletion(
+          { model: this.model, messages: [...system, ...conversation.messages], tools },
+          options.stream ? { onTextDelta: (delta) => options.callbacks?.onTextDelta?.(delta) } : {}
+        );
+
+        const toolCalls = message.tool_calls || [];
+        conversation.messages.push({
+          role: 'assistant',
+          content: message.content,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        });
+
+        if (toolCalls.length === 0) {
+          await this.save(conversation);
+          return { status: 'completed', reply: message.content || '', runId };
+        }
+
+        for (const toolCall of toolCalls) {
+          options.callbacks?.onToolCall?.(toolCall);
+          conversation.messages.push({
+            role: 'tool',
+            tool_call_id: toolCall.id,
+            content: await executeToolCall(toolCall, options.toolHandlers),
+          });
+        }
+        await this.save(conversation);
+      }
+
+      return {
+        status: 'failed',
+        reply: '',
+        runId,
+        error: `Run failed: no reply after ${this.maxToolRounds} tool call rounds`,
+      };
+    } catch (error) {
+      return { status: 'failed', reply: '', runId, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Load a conversation. Unknown IDs start an empty history, like a new thread.
+   */
+  private async load(conversationId: string): Promise<StoredConversation> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(conversationId), 'utf8')) as StoredConversation;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        const now = new Date().toISOString();
+        return { id: conversationId, createdAt: now, updatedAt: now, messages: [] };
+      }
+      throw error;
+    }
+  }
+
+  private async save(conversation: StoredConversation): Promise<void> {
+    conversation.updatedAt = new Date().toISOString();
+    await fs.mkdir(this.historyDir, { recursive: true });
+
+    const filePath = this.filePath(conversation.id);
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(conversation, null, 2), 'utf8');
+    await fs.rename(tmpPath, filePath);
+  }
+
+  private filePath(conversationId: string): string {
+    // Conversation IDs come from clients; keep them from escaping the history directory
+    if (!/^[A-Za-z0-9_-]+$/.test(conversationId)) {
+      throw new ValidationError('Invalid conversation ID', { conversationId });
+    }
+    return path.join(this.historyDir, `${conversationId}.json`);
+  }
+}
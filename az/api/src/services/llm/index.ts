@@ -0,0 +1,58 @@
+/**
+ * @fileoverview LLM provider selection
+ * @module services/llm
+ *
+ * LLM_PROVIDER (or the ai.provider setting) picks the implementation behind the triage assistant:
+ * - openai-assistants (default): OpenAI Assistants API threads and runs
+ * - openai-chat: Chat Completions with locally stored history (OPENAI_CHAT_MODEL or the
+ *   ai.chatModel setting, LLM_HISTORY_DIR)
+ * - scripted: deterministic replies for tests and offline demos (LLM_SCRIPT_FILE)
+ */
+
+import { readFileSync } from 'fs';
+import { openaiService } from '../openai.js';
+import { ValidationError } from '../../utils/errors.js';
+import { aiConfig } from '../../utils/config.js';
+import { ChatCompletionsProvider } from './chatCompletions.js';
+import { OpenAIAssistantsProvider } from './openaiAssistants.js';
+import { ScriptedProvider, type ScriptedTurn } from './scripted.js';
+import type { LLMProvider, LLMProviderName } from './provider.js';
+
+export * from './provider.js';
+export { ChatCompletionsProvider } from './chatCompletions.js';
+export { OpenAIAssistantsProvider } from './openaiAssistants.js';
+export { ScriptedProvider, DEFAULT_TRIAGE_SCRIPT, type ScriptedTurn } from './scripted.js';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai-assistants', 'openai-chat', 'scripted'];
+
+/**
+ * Create the provider named by `name`, or by LLM_PROVIDER
+ */
+export function createLLMProvider(name: string = aiConfig.provider): LLMProvider {
+  switch (name) {
+    case 'openai-assistants':
+      return new OpenAIAssistantsProvider(openaiService);
+    case 'openai-chat':
+      return new ChatCompletionsProvider(openaiService, { model: aiConfig.chatModel });
+    case 'scripted': {
+      const scriptFile = process.env.LLM_SCRIPT_FILE;
+      const script = scriptFile ? (JSON.parse(readFileSync(scriptFile, 'utf8')) as ScriptedTurn[]) : undefined;
+      return new ScriptedProvider(script);
+    }
+    default:
+      throw new ValidationError(`Unknown LLM provider: ${name}`, { provider: name, supported: PROVIDER_NAMES });
+  }
+}
+
+let current: { key: string; provider: LLMProvider } | undefined;
+
+/**
+ * Provider for the configured AI settings, recreated when they change
+ */
+export function getLLMProvider(): LLMProvider {
+  const key = `${aiConfig.provider}:${aiConfig.chatModel}`;
+  if (current?.key !== key) {
+    current = { key, provider: createLLMProvider() };
+  }
+  return current.provider;
+}
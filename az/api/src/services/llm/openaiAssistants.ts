@@ -0,0 +1,113 @@
+/**
+ * @fileoverview LLM provider backed by the OpenAI Assistants API
+ * @module services/llm/openaiAssistants
+ *
+ * Conversations are OpenAI threads. Instructions and tools are configured on
+ * the assistant (OPENAI_CONVERSATION_ASSISTANT_ID), not passed per run; only
+ * additional instructions are.
+ */
+
+import type { Message } from 'openai/resources/beta/threads/messages';
+import type { ExecutionResult, OpenAIService, RunProcessorCallbacks } from '../openai.js';
+import { Logger } from '../../utils/logger.js';
+import type { LLMProvider, LLMRunOptions, LLMRunResult } from './provider.js';
+
+export class OpenAIAssistantsProvider implements LLMProvider {
+  public readonly name = 'openai-assistants' as const;
+  private openai: OpenAIService;
+  private assistantId?: string;
+  private logger: Logger;
+
+  constructor(openai: OpenAIService, assistantId: string | undefined = process.env.OPENAI_CONVERSATION_ASSISTANT_ID) {
+    this.openai = openai;
+    this.assistantId = assistantId;
+    this.logger = new Logger();
+  }
+
+  public async createConversation(): Promise<string> {
+    const thread = await this.openai.createThread();
+    return thread.id;
+  }
+
+  /**
+   * Add the message to the thread. A thread with an active run cannot take new
+   * messages, so the message goes to a new thread instead.
+   */
+  public async addUserMessage(threadId: string, content: string): Promise<string> {
+    try {
+      const created = await this.openai.createMessage(threadId, { role: 'user', content });
+      this.logger.info('Message added to thread', { messageId: created.id, threadId });
+      return threadId;
+    } catch (error: any) {
+      const detail = error.details?.originalError || error.message || '';
+      if (!(detail.includes('while a run') && detail.includes('is active'))) {
+        throw error;
+      }
+
+      this.logger.warn('Thread has active run, creating new thread', {
+        originalThreadId: threadId,
+        error: detail,
+      });
+
+      const newThreadId = await this.createConversation();
+      const created = await this.openai.createMessage(newThreadId, { role: 'user', content });
+      this.logger.info('Message added to new thread', { messageId: created.id, threadId: newThreadId });
+      return newThreadId;
+    }
+  }
+
+  public async run(threadId: string, options: LLMRunOptions): Promise<LLMRunResult> {
+    if (!this.assistantId) {
+      throw new Error('OPENAI_CONVERSATION_ASSISTANT_ID environment variable is required');
+    }
+
+    const callbacks: RunProcessorCallbacks = {
+      onToolCallCreated: (toolCall) => options.callbacks?.onToolCall?.(toolCall),
+    };
+
+    let result: ExecutionResult;
+    if (options.stream) {
+      this.logger.info('Streaming assistant run', { assistantId: this.assistantId, threadId });
+      result = await this.openai.streamRun(
+        threadId,
+        this.assistantId,
+        { ...callbacks, onTextDelta: (delta) => options.callbacks?.onTextDelta?.(delta) },
+        options.toolHandlers,
+        { additionalInstructions: options.additionalInstructions }
+      );
+    } else {
+      this.logger.info('Running assistant', { assistantId: this.assistantId, threadId });
+      const run = await this.openai.runAssistant(threadId, this.assistantId, {
+        additionalInstructions: options.additionalInstructions,
+      });
+      this.logger.info('Assistant run created', { runId: run.id, threadId, status: run.status });
+      result = await this.openai.processRun(threadId, run, callbacks, options.toolHandlers);
+    }
+
+    // Newest first, so the latest assistant reply is found without paging
+    const messages = await this.openai.getMessages(threadId, { limit: 20, order: 'desc' });
+
+    return {
+      status: result.status,
+      reply: this._extractReply(messages.data || []),
+      runId: result.run?.id,
+      error: result.error,
+    };
+  }
+
+  /**
+   * Text of the most recent assistant message
+   */
+  private _extractReply(messages: Message[]): string {
+    const latest = messages
+      .filter((m) => m.role === 'assistant')
+      .sort((a, b) => b.created_at - a.created_at)[0];
+
+    if (!latest) {
+      this.logger.warn('No assistant messages found');
+      return '';
+    }
+
+    return latest.content[0]?.type === 'text' ? latest.content[0].text.value : '';
+  }
+}
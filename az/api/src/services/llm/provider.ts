@@ -0,0 +1,91 @@
+/**
+ * @fileoverview LLM provider interface for the triage assistant
+ * @module services/llm/provider
+ *
+ * A provider owns conversation state (a thread, or locally stored history),
+ * runs the model on a conversation and executes the tool calls it requests.
+ * Tool handlers receive OpenAI-shaped tool calls whichever provider is used.
+ */
+
+import type { ToolCall, ToolCallHandler } from '../openai.js';
+
+export type { ToolCall, ToolCallHandler };
+
+export type LLMProviderName = 'openai-assistants' | 'openai-chat' | 'scripted';
+
+export type LLMRunStatus = 'completed' | 'failed' | 'cancelled' | 'expired' | 'requires_action';
+
+/**
+ * Function tool offered to the model. Providers with server-side tool
+ * configuration (OpenAI Assistants) ignore these.
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema of the tool arguments */
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMRunCallbacks {
+  onTextDelta?: (delta: string) => void;
+  onToolCall?: (toolCall: ToolCall) => void;
+}
+
+export interface LLMRunOptions {
+  /** System instructions, for providers that do not store their own */
+  instructions?: string;
+  /** Added to the instructions for this run only; every provider applies these */
+  additionalInstructions?: string;
+  tools?: LLMToolDefinition[];
+  toolHandlers: Record<string, ToolCallHandler>;
+  callbacks?: LLMRunCallbacks;
+  /** Stream text deltas to callbacks.onTextDelta as they are generated */
+  stream?: boolean;
+}
+
+export interface LLMRunResult {
+  status: LLMRunStatus;
+  /** Latest assistant reply in the conversation */
+  reply: string;
+  runId?: string;
+  error?: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  /**
+   * Start a conversation
+   * @returns The conversation ID, returned to clients as `threadId`
+   */
+  createConversation(): Promise<string>;
+
+  /**
+   * Append a user message to a conversation
+   * @returns The conversation the message was added to, which differs from the
+   * one given if the provider had to start a new conversation
+   */
+  addUserMessage(conversationId: string, content: string): Promise<string>;
+
+  /**
+   * Run the model on a conversation until it produces a reply, executing tool calls along the way
+   */
+  run(conversationId: string, options: LLMRunOptions): Promise<LLMRunResult>;
+}
+
+/**
+ * Execute a tool call with its registered handler. Handler failures are
+ * returned to the model as output rather than thrown, like the Assistants runner.
+ */
+export async function executeToolCall(toolCall: ToolCall, toolHandlers: Record<string, ToolCallHandler>): Promise<string> {
+  const handler = toolHandlers[toolCall.function.name];
+  if (!handler) {
+    return `Error: No handler found for function ${toolCall.function.name}`;
+  }
+
+  try {
+    return await handler(toolCall);
+  } catch (error) {
+    return `Error: ${(error as Error).message}`;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Deterministic LLM provider for tests and offline demos
+ * @module services/llm/scripted
+ *
+ * Replays a fixed script: each user message gets the next turn's reply and tool
+ * calls, whatever the message says. Once the script runs out, the last turn's
+ * reply is repeated without tool calls. Conversations live in memory.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { executeToolCall, type LLMProvider, type LLMRunOptions, type LLMRunResult, type ToolCall } from './provider.js';
+
+export interface ScriptedTurn {
+  reply: string;
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+interface ScriptedConversation {
+  turn: number;
+  pendingMessages: number;
+}
+
+/**
+ * Default script: two follow-up questions, then a moderate-risk assessment
+ */
+export const DEFAULT_TRIAGE_SCRIPT: ScriptedTurn[] = [
+  {
+    reply: "I'm sorry you're not feeling well. When did the symptoms start, and how severe are they on a scale of 1 to 10?",
+  },
+  {
+    reply: 'Thank you. Do you have any other symptoms, existing medical conditions or medications I should know about?',
+  },
+  {
+    reply:
+      'Thank you for answering my questions. Your symptoms should be seen by a doctor today, but they do not appear to need emergency care. If they get worse, or you develop chest pain or difficulty breathing, call emergency services immediately.',
+    toolCalls: [
+      {
+        name: 'createObservation',
+        arguments: {
+          status: 'final',
+          valueString: 'Patient-reported symptoms collected during triage conversation',
+        },
+      },
+      {
+        name: 'createRiskAssessment',
+        arguments: {
+          prediction: [
+            {
+              outcome: { text: 'Requires same-day medical review' },
+              qualitativeRisk: {
+                coding: [
+                  {
+                    system: 'http://terminology.hl7.org/CodeSystem/risk-probability',
+                    code: 'moderate',
+                    display: 'Moderate likelihood',
+                  },
+                ],
+              },
+              rationale: 'Scripted assessment for offline use',
+            },
+          ],
+        },
+      },
+      {
+        name: 'conversationStatusCheck',
+        arguments: {
+          isComplete: true,
+          risk: { level: 'moderate', condition: 'Requires same-day medical review' },
+          findings: { painScore: 6, consciousness: 'alert' },
+        },
+      },
+    ],
+  },
+];
+
+export class ScriptedProvider implements LLMProvider {
+  public readonly name = 'scripted' as const;
+  private script: ScriptedTurn[];
+  private conversations = new Map<string, ScriptedConversation>();
+
+  constructor(script: ScriptedTurn[] = DEFAULT_TRIAGE_SCRIPT) {
+    if (script.length === 0) {
+      throw new Error('Scripted LLM provider needs at least one turn');
+    }
+    this.script = script;
+  }
+
+  public async createConversation(): Promise<string> {
+    const conversationId = `scripted_${uuidv4()}`;
+    this.conversations.set(conversationId, { turn: 0, pendingMessages: 0 });
+    return conversationId;
+  }
+
+  public async addUserMessage(conversationId: string, _content: string): Promise<string> {
+    this.conversation(conversationId).pendingMessages++;
+    return conversationId;
+  }
+
+  public async run(conversationId: string, options: LLMRunOptions): Promise<LLMRunResult> {
+    const conversation = this.conversation(conversationId);
+    const runId = `run_${conversationId}_${conversation.turn}`;
+
+    if (conversation.pendingMessages === 0) {
+      return { status: 'failed', reply: '', runId, error: 'Run failed: no new user message' };
+    }
+
+    const exhausted = conversation.turn >= this.script.length;
+    const turn = this.script[Math.min(conversation.turn, this.script.length - 1)];
+    const toolCalls = exhausted ? [] : turn.toolCalls || [];
+
+    for (const [index, call] of toolCalls.entries()) {
+      const toolCall: ToolCall = {
+        id: `call_${conversation.turn}_${index}`,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      };
+      options.callbacks?.onToolCall?.(toolCall);
+      await executeToolCall(toolCall, options.toolHandlers);
+    }
+
+    if (options.stream) {
+      // Word by word, so streaming clients see more than one delta
+      for (const delta of turn.reply.match(/\S+\s*/g) || []) {
+        options.callbacks?.onTextDelta?.(delta);
+      }
+    }
+
+    conversation.turn++;
+    conversation.pendingMessages = 0;
+
+    return { status: 'completed', reply: turn.reply, runId };
+  }
+
+  /**
+   * Unknown IDs (e.g. from before a restart) start at the beginning of the script
+   */
+  private conversation(conversationId: string): ScriptedConversation {
+    let conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      conversation = { turn: 0, pendingMessages: 0 };
+      this.conversations.set(conversationId, conversation);
+    }
+    return conversation;
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Notification channels
+ * @module services/notifications/channels
+ *
+ * A channel delivers a rendered notification to its targets:
+ * - email: the recipient's address, over SMTP
+ * - in-app: the recipient's inbox in the web app
+ * - webhook: every configured URL, once per event, signed with HMAC-SHA256
+ */
+
+import { createHmac } from 'crypto';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { NotificationError } from '../../utils/errors.js';
+import type { WebhookConfig } from '../../utils/config.js';
+import { SmtpClient } from './smtp.js';
+import type { JsonStore } from '../../utils/jsonFileStore.js';
+import { jsonStore } from '../stateStore.js';
+import type { NotificationEventType, RenderedNotification } from './templates.js';
+
+export type NotificationChannelName = 'email' | 'in-app' | 'webhook';
+
+export interface NotificationRecipient {
+  userId?: string;
+  email?: string;
+  name?: string;
+}
+
+/**
+ * A notification on its way to one recipient (or, for broadcast channels, to no one in particular)
+ */
+export interface NotificationEnvelope {
+  notificationId: string;
+  type: NotificationEventType;
+  createdAt: string;
+  rendered: RenderedNotification;
+  recipient?: NotificationRecipient;
+  /** Event data with FHIR resources reduced to references, safe to hand to third parties */
+  summary: Record<string, unknown>;
+}
+
+export interface NotificationChannel {
+  readonly name: NotificationChannelName;
+  /** 'recipient': delivered once per recipient; 'broadcast': once per event */
+  readonly audience: 'recipient' | 'broadcast';
+  isEnabled(): boolean;
+  /** Where the envelope goes on this channel (address, user ID, URL); none means skip */
+  targets(envelope: NotificationEnvelope): string[];
+  /**
+   * @returns What the other end answered, for the delivery log
+   * @throws NotificationError when delivery fails
+   */
+  deliver(envelope: NotificationEnvelope, target: string): Promise<string | undefined>;
+}
+
+/**
+ * Email over SMTP
+ */
+export class EmailChannel implements NotificationChannel {
+  public readonly name = 'email' as const;
+  public readonly audience = 'recipient' as const;
+  private client: SmtpClient;
+  private from?: string;
+
+  /**
+   * @param from - Sender address; the client's configured sender if omitted
+   */
+  constructor(client: SmtpClient, from?: string) {
+    this.client = client;
+    this.from = from;
+  }
+
+  public isEnabled(): boolean {
+    return this.client.isConfigured();
+  }
+
+  public targets(envelope: NotificationEnvelope): string[] {
+    return envelope.recipient?.email ? [envelope.recipient.email] : [];
+  }
+
+  public async deliver(envelope: NotificationEnvelope, target: string): Promise<string> {
+    const { subject, text, html } = envelope.rendered.email;
+    const result = await this.client.send({ from: this.from || this.client.sender, to: [target], subject, text, html });
+    return result.response;
+  }
+}
+
+export interface InAppNotification {
+  id: string;
+  userId: string;
+  notificationId: string;
+  type: NotificationEventType;
+  title: string;
+  body: string;
+  link?: string;
+  createdAt: string;
+  readAt?: string;
+}
+
+interface InboxState {
+  notifications: InAppNotification[];
+}
+
+/**
+ * Inbox shown in the web app's notification menu
+ */
+export class InAppChannel implements NotificationChannel {
+  public readonly name = 'in-app' as const;
+  public readonly audience = 'recipient' as const;
+  private store: JsonStore<InboxState>;
+  private enabled: boolean;
+  private maxPerUser: number;
+
+  /**
+   * @param filePath - Keep the inbox in a local file instead of the shared state blob
+   */
+  constructor(filePath?: string, options: { enabled?: boolean; maxPerUser?: number } = {}) {
+    this.store = jsonStore<InboxState>('notifications.json', filePath, () => ({ notifications: [] }));
+    this.enabled = options.enabled ?? true;
+    this.maxPerUser = options.maxPerUser ?? 200;
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public targets(envelope: NotificationEnvelope): string[] {
+    return envelope.recipient?.userId ? [envelope.recipient.userId] : [];
+  }
+
+  public async deliver(envelope: NotificationEnvelope, userId: string): Promise<undefined> {
+    const { title, body, link } = envelope.rendered;
+
+    await this.store.update((state) => {
+      state.notifications.push({
+        id: uuidv4(),
+        userId,
+        notificationId: envelope.notificationId,
+        type: envelope.type,
+        title,
+        body,
+        ...(link && { link }),
+        createdAt: envelope.createdAt,
+      });
+
+      // Keep the newest notifications of each user
+      const own = state.notifications.filter((n) => n.userId === userId);
+      if (own.length > this.maxPerUser) {
+        const dropped = new Set(own.slice(0, own.length - this.maxPerUser).map((n) => n.id));
+        state.notifications = state.notifications.filter((n) => !dropped.has(n.id));
+      }
+    });
+
+    return undefined;
+  }
+
+  /**
+   * A user's notifications, newest first
+   */
+  public async list(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<InAppNotification[]> {
+    const { notifications } = await this.store.read();
+    return notifications
+      .filter((n) => n.userId === userId && (!options.unreadOnly || !n.readAt))
+      .reverse()
+      .slice(0, options.limit ?? 50);
+  }
+
+  public async unreadCount(userId: string): Promise<number> {
+    const { notifications } = await this.store.read();
+    return notifications.filter((n) => n.userId === userId && !n.readAt).length;
+  }
+
+  /**
+   * Mark some (or, without IDs, all) of a user's notifications read
+   * @returns Number of notifications marked
+   */
+  public async markRead(userId: string, ids?: string[]): Promise<number> {
+    const readAt = new Date().toISOString();
+    return this.store.update((state) => {
+      let marked = 0;
+      for (const notification of state.notifications) {
+        if (notification.userId === userId && !notification.readAt && (!ids || ids.includes(notification.id))) {
+          notification.readAt = readAt;
+          marked++;
+        }
+      }
+      return marked;
+    });
+  }
+}
+
+/**
+ * Webhook subscribers; each event is POSTed as JSON to every configured URL
+ */
+export class WebhookChannel implements NotificationChannel {
+  public readonly name = 'webhook' as const;
+  public readonly audience = 'broadcast' as const;
+  private config: WebhookConfig;
+  private timeoutMs: number;
+
+  constructor(config: WebhookConfig, timeoutMs = 10000) {
+    this.config = config;
+    this.timeoutMs = timeoutMs;
+  }
+
+  public isEnabled(): boolean {
+    return this.config.urls.length > 0;
+  }
+
+  public targets(envelope: NotificationEnvelope): string[] {
+    const { events, urls } = this.config;
+    return events.length === 0 || events.includes(envelope.type) ? urls : [];
+  }
+
+  public async deliver(envelope: NotificationEnvelope, url: string): Promise<string> {
+    const body = JSON.stringify({
+      id: envelope.notificationId,
+      type: envelope.type,
+      createdAt: envelope.createdAt,
+      title: envelope.rendered.title,
+      body: envelope.rendered.body,
+      link: envelope.rendered.link,
+      data: envelope.summary,
+    });
+
+    try {
+      const response = await axios.post(url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-LeLink-Event': envelope.type,
+          'X-LeLink-Delivery': envelope.notificationId,
+          ...(this.config.secret && { 'X-LeLink-Signature': webhookSignature(body, this.config.secret) }),
+        },
+        timeout: this.timeoutMs,
+      });
+      return `${response.status} ${response.statusText}`.trim();
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new NotificationError(
+        `Webhook delivery failed: ${status ? `HTTP ${status}` : (error as Error).message}`,
+        'webhook',
+        { url, status }
+      );
+    }
+  }
+}
+
+/**
+ * Signature subscribers check against the raw request body
+ */
+export function webhookSignature(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
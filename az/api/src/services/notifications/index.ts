@@ -0,0 +1,445 @@
+/**
+ * @fileoverview Notification service
+ * @module services/notifications
+ *
+ * Renders an event from its template and sends it on every enabled channel:
+ * email (SMTP_*), the in-app inbox and webhooks (NOTIFICATION_WEBHOOK_*).
+ * Every attempt is written to the delivery log, which also keeps an event
+ * from being sent twice under the same dedupe key (e.g. one reminder per
+ * appointment time). The log and the inbox are shared by every instance (see
+ * services/stateStore), unless NOTIFICATION_LOG_FILE / NOTIFICATION_INBOX_FILE
+ * keep them on local disk.
+ *
+ * Notifications are a side effect: the event helpers log failures and never
+ * throw into the operation that triggered them.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger.js';
+import { notificationConfig, NotificationConfig } from '../../utils/config.js';
+import type { JsonStore } from '../../utils/jsonFileStore.js';
+import { jsonStore } from '../stateStore.js';
+import { fhirStorageService, FHIRResource } from '../fhirStorage.js';
+import { profileUserId } from '../fhirIndex.js';
+import {
+  EmailChannel,
+  InAppChannel,
+  WebhookChannel,
+  NotificationChannel,
+  NotificationChannelName,
+  NotificationEnvelope,
+  NotificationRecipient,
+} from './channels.js';
+import { SmtpClient } from './smtp.js';
+import { renderNotification, NotificationEventData, NotificationEventType } from './templates.js';
+
+export * from './channels.js';
+export * from './templates.js';
+export { SmtpClient, mailAddress } from './smtp.js';
+
+export type DeliveryStatus = 'sent' | 'failed';
+
+export interface NotificationDelivery {
+  deliveryId: string;
+  notificationId: string;
+  type: NotificationEventType;
+  channel: NotificationChannelName;
+  /** Address, user ID or URL */
+  target: string;
+  userId?: string;
+  status: DeliveryStatus;
+  response?: string;
+  error?: string;
+  dedupeKey?: string;
+  createdAt: string;
+}
+
+export interface NotifyOptions {
+  /** Skip the event if a delivery under this key already succeeded */
+  dedupeKey?: string;
+}
+
+export interface NotifyResult {
+  notificationId: string;
+  deliveries: NotificationDelivery[];
+  /** Set when nothing was sent because of an earlier delivery under the same dedupe key */
+  duplicate?: boolean;
+}
+
+export interface DeliveryQuery {
+  type?: NotificationEventType;
+  channel?: NotificationChannelName;
+  status?: DeliveryStatus;
+  limit?: number;
+}
+
+export interface NotificationServiceOptions {
+  config?: NotificationConfig;
+  logFile?: string;
+  inboxFile?: string;
+  /** Replaces the channels built from the config */
+  channels?: NotificationChannel[];
+}
+
+interface DeliveryLogState {
+  deliveries: NotificationDelivery[];
+}
+
+/** qualitativeRisk codes that alert practitioners */
+export const ALERTING_RISK_CODES = ['high', 'certain'];
+
+/**
+ * Whether a RiskAssessment predicts high (or certain) risk
+ */
+export function isHighRisk(riskAssessment: FHIRResource): boolean {
+  return (riskAssessment.prediction || []).some((prediction: any) =>
+    (prediction.qualitativeRisk?.coding || []).some((coding: any) => ALERTING_RISK_CODES.includes(coding.code))
+  );
+}
+
+/**
+ * Notification service
+ */
+export class NotificationService {
+  private logger: Logger;
+  private config: NotificationConfig;
+  private channels: NotificationChannel[];
+  private inbox?: InAppChannel;
+  private log: JsonStore<DeliveryLogState>;
+  private retentionMs: number;
+
+  constructor(options: NotificationServiceOptions = {}) {
+    this.logger = new Logger();
+    this.config = options.config || notificationConfig;
+
+    this.log = jsonStore<DeliveryLogState>(
+      'notification-log.json',
+      options.logFile || process.env.NOTIFICATION_LOG_FILE,
+      () => ({ deliveries: [] })
+    );
+    this.retentionMs = parseInt(process.env.NOTIFICATION_LOG_RETENTION_DAYS || '30', 10) * 24 * 60 * 60 * 1000;
+
+    this.channels = options.channels || [
+      new EmailChannel(new SmtpClient(this.config.smtp)),
+      new InAppChannel(options.inboxFile || process.env.NOTIFICATION_INBOX_FILE, {
+        enabled: this.config.inAppEnabled,
+      }),
+      new WebhookChannel(this.config.webhooks),
+    ];
+    this.inbox = this.channels.find((channel): channel is InAppChannel => channel instanceof InAppChannel);
+  }
+
+  /**
+   * Send an event to its recipients on every enabled channel
+   */
+  public async notify<T extends NotificationEventType>(
+    type: T,
+    data: NotificationEventData[T],
+    recipients: NotificationRecipient[],
+    options: NotifyOptions = {}
+  ): Promise<NotifyResult> {
+    const notificationId = uuidv4();
+    const { dedupeKey } = options;
+
+    if (dedupeKey) {
+      const { deliveries } = await this.log.read();
+      if (deliveries.some((d) => d.dedupeKey === dedupeKey && d.status === 'sent')) {
+        this.logger.debug('Notification already sent, skipping', { type, dedupeKey });
+        return { notificationId, deliveries: [], duplicate: true };
+      }
+    }
+
+    const createdAt = new Date().toISOString();
+    const summary = summarize(data);
+    const envelopes: NotificationEnvelope[] = uniqueRecipients(recipients).map((recipient) => ({
+      notificationId,
+      type,
+      createdAt,
+      recipient,
+      summary,
+      rendered: renderNotification(type, data, { appUrl: this.config.appUrl, recipientName: recipient.name }),
+    }));
+    // Broadcast channels reach third parties: no names, only IDs
+    const broadcast: NotificationEnvelope = {
+      notificationId,
+      type,
+      createdAt,
+      summary,
+      rendered: renderNotification(type, { ...data, patientName: undefined, practitionerName: undefined }, {
+        appUrl: this.config.appUrl,
+      }),
+    };
+
+    const deliveries: NotificationDelivery[] = [];
+    for (const channel of this.channels.filter((c) => c.isEnabled())) {
+      for (const envelope of channel.audience === 'broadcast' ? [broadcast] : envelopes) {
+        for (const target of channel.targets(envelope)) {
+          deliveries.push(await this.attempt(channel, envelope, target, dedupeKey));
+        }
+      }
+    }
+
+    const cutoff = Date.now() - this.retentionMs;
+    await this.log.update((state) => {
+      state.deliveries = state.deliveries.filter((d) => new Date(d.createdAt).getTime() >= cutoff).concat(deliveries);
+    });
+
+    this.logger.info('Notification sent', {
+      notificationId,
+      type,
+      recipientCount: envelopes.length,
+      sent: deliveries.filter((d) => d.status === 'sent').length,
+      failed: deliveries.filter((d) => d.status === 'failed').length,
+    });
+
+    return { notificationId, deliveries };
+  }
+
+  /**
+   * Remind the patient of a booked appointment
+   * @param force - Send even if a reminder for this appointment time went out already
+   */
+  public async notifyAppointmentReminder(appointment: FHIRResource, force = false): Promise<NotifyResult | null> {
+    const patientId = participantId(appointment, 'Patient');
+    if (!patientId) {
+      this.logger.warn('Appointment has no patient to remind', { appointmentId: appointment.id });
+      return null;
+    }
+
+    return this.safely('appointment.reminder', { appointmentId: appointment.id }, async () => {
+      const practitionerId = participantId(appointment, 'Practitioner');
+      const practitionerName =
+        appointment.participant?.find((p: any) => p.actor?.reference === `Practitioner/${practitionerId}`)?.actor
+          ?.display || (practitionerId ? (await this.userRecipient(practitionerId, 'Practitioner')).name : undefined);
+
+      return this.notify(
+        'appointment.reminder',
+        { appointment, patientId, practitionerName },
+        [await this.userRecipient(patientId, 'Patient')],
+        force ? {} : { dedupeKey: `appointment.reminder:Appointment/${appointment.id}:${appointment.start}` }
+      );
+    });
+  }
+
+  /**
+   * Alert the patient's practitioners (and NOTIFICATION_ALERT_EMAILS) of a high-risk assessment
+   * @returns null if the assessment is not high risk or alerting failed
+   */
+  public async notifyHighRiskAssessment(patientId: string, riskAssessment: FHIRResource): Promise<NotifyResult | null> {
+    if (riskAssessment.resourceType !== 'RiskAssessment' || !isHighRisk(riskAssessment)) {
+      return null;
+    }
+    if (!this.config.highRiskAlerts) {
+      this.logger.debug('High-risk alerts are turned off', { patientId, riskAssessmentId: riskAssessment.id });
+      return null;
+    }
+
+    return this.safely('triage.high-risk', { patientId, riskAssessmentId: riskAssessment.id }, async () => {
+      const patient = await fhirStorageService.findUserProfile(patientId, 'Patient');
+      const practitionerIds: string[] = (patient?.generalPractitioner || [])
+        .map((ref: any) => ref.reference || '')
+        .filter((ref: string) => ref.startsWith('Practitioner/'))
+        .map((ref: string) => ref.slice('Practitioner/'.length));
+
+      const recipients = [
+        ...(await Promise.all(practitionerIds.map((id) => this.userRecipient(id, 'Practitioner')))),
+        ...this.config.alertEmails.map((email) => ({ email })),
+      ];
+
+      return this.notify(
+        'triage.high-risk',
+        { riskAssessment, patientId, patientName: patient ? displayName(patient) : undefined },
+        recipients,
+        { dedupeKey: `triage.high-risk:RiskAssessment/${riskAssessment.id}` }
+      );
+    });
+  }
+
+  /**
+   * Tell a practitioner a patient shared records with them
+   */
+  public async notifyRecordsShared(grant: {
+    consentId: string;
+    patientId: string;
+    practitionerId: string;
+    resources: string[];
+    expiresAt: string;
+  }): Promise<NotifyResult | null> {
+    return this.safely('records.shared', { consentId: grant.consentId }, async () =>
+      this.notify(
+        'records.shared',
+        {
+          patientId: grant.patientId,
+          patientName: (await this.userRecipient(grant.patientId, 'Patient')).name,
+          practitionerId: grant.practitionerId,
+          consentId: grant.consentId,
+          recordCount: grant.resources.length,
+          expiresAt: grant.expiresAt,
+        },
+        [await this.userRecipient(grant.practitionerId, 'Practitioner')],
+        { dedupeKey: `records.shared:Consent/${grant.consentId}` }
+      )
+    );
+  }
+
+  /**
+   * Tell a practitioner their access to shared records ended
+   */
+  public async notifyRecordsRevoked(
+    grant: { consentId: string; patientId: string; practitionerId: string },
+    reason: 'revoked' | 'expired'
+  ): Promise<NotifyResult | null> {
+    return this.safely('records.revoked', { consentId: grant.consentId }, async () =>
+      this.notify(
+        'records.revoked',
+        {
+          patientId: grant.patientId,
+          patientName: (await this.userRecipient(grant.patientId, 'Patient')).name,
+          practitionerId: grant.practitionerId,
+          consentId: grant.consentId,
+          reason,
+        },
+        [await this.userRecipient(grant.practitionerId, 'Practitioner')],
+        { dedupeKey: `records.revoked:Consent/${grant.consentId}` }
+      )
+    );
+  }
+
+  /**
+   * Delivery log, newest first
+   */
+  public async listDeliveries(query: DeliveryQuery = {}): Promise<NotificationDelivery[]> {
+    const { deliveries } = await this.log.read();
+    return deliveries
+      .filter(
+        (d) =>
+          (!query.type || d.type === query.type) &&
+          (!query.channel || d.channel === query.channel) &&
+          (!query.status || d.status === query.status)
+      )
+      .reverse()
+      .slice(0, query.limit ?? 100);
+  }
+
+  /**
+   * The in-app channel, if there is one
+   */
+  public getInbox(): InAppChannel | undefined {
+    return this.inbox;
+  }
+
+  /**
+   * Which channels are configured, for the admin settings page
+   */
+  public getStatus(): { channel: NotificationChannelName; enabled: boolean }[] {
+    return this.channels.map((channel) => ({ channel: channel.name, enabled: channel.isEnabled() }));
+  }
+
+  private async attempt(
+    channel: NotificationChannel,
+    envelope: NotificationEnvelope,
+    target: string,
+    dedupeKey?: string
+  ): Promise<NotificationDelivery> {
+    const delivery: NotificationDelivery = {
+      deliveryId: uuidv4(),
+      notificationId: envelope.notificationId,
+      type: envelope.type,
+      channel: channel.name,
+      target,
+      ...(envelope.recipient?.userId && { userId: envelope.recipient.userId }),
+      status: 'sent',
+      ...(dedupeKey && { dedupeKey }),
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      const response = await channel.deliver(envelope, target);
+      if (response) delivery.response = response;
+    } catch (error) {
+      delivery.status = 'failed';
+      delivery.error = (error as Error).message;
+      this.logger.error('Notification delivery failed', {
+        error: error as Error,
+        notificationId: envelope.notificationId,
+        type: envelope.type,
+        channel: channel.name,
+      });
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Run an event helper; failures are logged, never thrown
+   */
+  private async safely(
+    type: NotificationEventType,
+    meta: Record<string, unknown>,
+    send: () => Promise<NotifyResult>
+  ): Promise<NotifyResult | null> {
+    try {
+      return await send();
+    } catch (error) {
+      this.logger.error('Failed to send notification', { error: error as Error, type, ...meta });
+      return null;
+    }
+  }
+
+  /**
+   * Recipient for a user, with the email and name of their FHIR profile
+   */
+  private async userRecipient(id: string, profileType: 'Patient' | 'Practitioner'): Promise<NotificationRecipient> {
+    // References name profile resources, whose IDs differ from the user's ID for onboarded users
+    const profile = await fhirStorageService.findUserProfile(id, profileType).catch(() => null);
+    const userId = (profile && profileUserId(profile)) || id;
+    const email = (profile?.telecom || []).find((t: any) => t.system === 'email' && t.value)?.value;
+    return { userId, ...(email && { email }), ...(profile && { name: displayName(profile) }) };
+  }
+}
+
+function participantId(appointment: FHIRResource, type: 'Patient' | 'Practitioner'): string | undefined {
+  const reference: string | undefined = (appointment.participant || [])
+    .map((p: any) => p.actor?.reference)
+    .find((ref: string | undefined) => ref?.startsWith(`${type}/`));
+  return reference?.slice(type.length + 1);
+}
+
+function displayName(profile: FHIRResource): string | undefined {
+  const name = profile.name?.[0];
+  if (!name) return undefined;
+  return name.text || [...(name.given || []), name.family].filter(Boolean).join(' ') || undefined;
+}
+
+/**
+ * One recipient per user and per address
+ */
+function uniqueRecipients(recipients: NotificationRecipient[]): NotificationRecipient[] {
+  const seen = new Set<string>();
+  return recipients.filter((recipient) => {
+    const keys = [recipient.userId && `user:${recipient.userId}`, recipient.email && `email:${recipient.email.toLowerCase()}`].filter(
+      Boolean
+    ) as string[];
+    if (keys.length === 0 || keys.some((key) => seen.has(key))) return false;
+    keys.forEach((key) => seen.add(key));
+    return true;
+  });
+}
+
+/**
+ * Event data without names, and with embedded FHIR resources replaced by their references
+ */
+function summarize(data: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data)
+      .filter(([key]) => !key.endsWith('Name'))
+      .map(([key, value]) =>
+      value && typeof value === 'object' && 'resourceType' in value
+        ? [key, `${(value as FHIRResource).resourceType}/${(value as FHIRResource).id}`]
+        : [key, value]
+    )
+  );
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
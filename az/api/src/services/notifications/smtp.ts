@@ -0,0 +1,260 @@
+/**
+ * @fileoverview Minimal SMTP client
+ * @module services/notifications/smtp
+ *
+ * Enough of RFC 5321 to hand a message to a relay: EHLO, STARTTLS when the
+ * server offers it (or implicit TLS), AUTH PLAIN, and one transaction per
+ * connection. Bodies are base64 encoded so no 8BITMIME support is needed.
+ */
+
+import * as net from 'net';
+import * as tls from 'tls';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { NotificationError } from '../../utils/errors.js';
+import type { SmtpConfig } from '../../utils/config.js';
+
+export interface SmtpMessage {
+  /** "Name <address>" or a bare address */
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SmtpSendResult {
+  messageId: string;
+  /** Final reply of the server, e.g. "250 2.0.0 Ok: queued as 4F2D" */
+  response: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Address part of "Name <address>"
+ */
+export function mailAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * Reads SMTP replies off a socket; multi-line replies ("250-...") are joined
+ */
+class ReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  public attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('Connection closed by SMTP server')));
+  }
+
+  public next(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  public fail(error: Error): void {
+    this.failure = this.failure || error;
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.reject(this.failure);
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.lines.push(line);
+
+      // "250-" continues the reply, "250 " ends it
+      if (line.length < 4 || line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.lines.map((l) => l.slice(4)) };
+        this.lines = [];
+        const waiting = this.waiting;
+        this.waiting = undefined;
+        if (waiting) {
+          waiting.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * SMTP client; a new connection is opened for every message
+ */
+export class SmtpClient {
+  private config: SmtpConfig;
+
+  constructor(config: SmtpConfig) {
+    this.config = config;
+  }
+
+  public isConfigured(): boolean {
+    return !!this.config.host;
+  }
+
+  /** Configured sender address */
+  public get sender(): string {
+    return this.config.from;
+  }
+
+  /**
+   * Deliver a message to the relay
+   * @throws NotificationError when the server rejects the message or cannot be reached
+   */
+  public async send(message: SmtpMessage): Promise<SmtpSendResult> {
+    const { host, port, secure, timeoutMs } = this.config;
+    if (!host) {
+      throw new NotificationError('SMTP is not configured (SMTP_HOST)', 'email');
+    }
+    if (message.to.length === 0) {
+      throw new NotificationError('Message has no recipients', 'email');
+    }
+
+    let socket: net.Socket = await this.connect(host, port, secure);
+    const reader = new ReplyReader(socket);
+    socket.setTimeout(timeoutMs, () => {
+      reader.fail(new Error(`SMTP server did not answer within ${timeoutMs}ms`));
+      socket.destroy();
+    });
+
+    const command = async (line: string | null, expected: number[]): Promise<SmtpReply> => {
+      if (line !== null) socket.write(`${line}\r\n`);
+      const reply = await reader.next();
+      if (!expected.includes(reply.code)) {
+        // Never echo credentials back into logs
+        const sent = line?.startsWith('AUTH') ? 'AUTH' : line;
+        throw new NotificationError(`SMTP ${sent || 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`, 'email', {
+          code: reply.code,
+        });
+      }
+      return reply;
+    };
+
+    try {
+      await command(null, [220]);
+      let ehlo = await command(`EHLO ${hostname() || 'localhost'}`, [250]);
+
+      if (!secure && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+        await command('STARTTLS', [220]);
+        socket = await this.upgrade(socket, host);
+        reader.attach(socket);
+        ehlo = await command(`EHLO ${hostname() || 'localhost'}`, [250]);
+      }
+
+      if (this.config.user) {
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password || ''}`).toString('base64');
+        await command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      const messageId = `<${randomUUID()}@${mailAddress(message.from).split('@')[1] || 'lelink.health'}>`;
+      await command(`MAIL FROM:<${mailAddress(message.from)}>`, [250]);
+      for (const recipient of message.to) {
+        await command(`RCPT TO:<${mailAddress(recipient)}>`, [250, 251]);
+      }
+      await command('DATA', [354]);
+      const accepted = await command(`${buildMime(message, messageId)}\r\n.`, [250]);
+      socket.write('QUIT\r\n');
+
+      return { messageId, response: `${accepted.code} ${accepted.lines.join(' ')}` };
+    } catch (error) {
+      if (error instanceof NotificationError) throw error;
+      throw new NotificationError(`SMTP delivery failed: ${(error as Error).message}`, 'email', { host, port });
+    } finally {
+      socket.end();
+    }
+  }
+
+  private connect(host: string, port: number, secure: boolean): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.removeListener('error', reject);
+        resolve(socket);
+      });
+      socket.once('error', reject);
+    });
+  }
+
+  private upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+    socket.removeAllListeners('data');
+    socket.removeAllListeners('close');
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({ socket, servername: host }, () => {
+        secured.removeListener('error', reject);
+        resolve(secured);
+      });
+      secured.once('error', reject);
+    });
+  }
+}
+
+/**
+ * RFC 5322 message with a text part and, if given, an HTML alternative
+ */
+function buildMime(message: SmtpMessage, messageId: string): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+  ];
+
+  const partHeaders = (type: string) => [`Content-Type: ${type}; charset=utf-8`, 'Content-Transfer-Encoding: base64'];
+
+  let body: string;
+  if (message.html) {
+    const boundary = `lelink-${randomUUID()}`;
+    headers.push(`Content-Type: multipart/alternative; boundary="${boundary}"`);
+    body = [
+      `--${boundary}`,
+      ...partHeaders('text/plain'),
+      '',
+      base64Lines(message.text),
+      `--${boundary}`,
+      ...partHeaders('text/html'),
+      '',
+      base64Lines(message.html),
+      `--${boundary}--`,
+    ].join('\r\n');
+  } else {
+    headers.push(...partHeaders('text/plain'));
+    body = base64Lines(message.text);
+  }
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function base64Lines(content: string): string {
+  return (Buffer.from(content.replace(/\r?\n/g, '\r\n')).toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
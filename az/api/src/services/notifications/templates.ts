@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Notification templates
+ * @module services/notifications/templates
+ *
+ * One template per event type. Each renders a short title and body for the
+ * in-app inbox, and the subject, text and HTML of the email.
+ */
+
+import type { FHIRResource } from '../fhirStorage.js';
+
+export type NotificationEventType =
+  | 'appointment.reminder'
+  | 'triage.high-risk'
+  | 'records.shared'
+  | 'records.revoked';
+
+export const NOTIFICATION_EVENT_TYPES: readonly NotificationEventType[] = [
+  'appointment.reminder',
+  'triage.high-risk',
+  'records.shared',
+  'records.revoked',
+];
+
+/**
+ * Data each event type carries
+ */
+export interface NotificationEventData {
+  'appointment.reminder': {
+    appointment: FHIRResource;
+    patientId: string;
+    practitionerName?: string;
+  };
+  'triage.high-risk': {
+    riskAssessment: FHIRResource;
+    patientId: string;
+    patientName?: string;
+  };
+  'records.shared': {
+    patientId: string;
+    patientName?: string;
+    practitionerId: string;
+    consentId: string;
+    recordCount: number;
+    expiresAt: string;
+  };
+  'records.revoked': {
+    patientId: string;
+    patientName?: string;
+    practitionerId: string;
+    consentId: string;
+    reason: 'revoked' | 'expired';
+  };
+}
+
+export interface RenderedNotification {
+  title: string;
+  body: string;
+  /** Path in the web app the notification points to */
+  link?: string;
+  email: {
+    subject: string;
+    text: string;
+    html: string;
+  };
+}
+
+export interface TemplateContext {
+  appUrl: string;
+  recipientName?: string;
+}
+
+type Template<T extends NotificationEventType> = (
+  data: NotificationEventData[T]
+) => Omit<RenderedNotification, 'email'> & { subject?: string };
+
+const TEMPLATES: { [T in NotificationEventType]: Template<T> } = {
+  'appointment.reminder': ({ appointment, practitionerName }) => ({
+    title: 'Upcoming appointment',
+    body: `Reminder: ${appointment.description || 'your appointment'}${
+      practitionerName ? ` with ${practitionerName}` : ''
+    } on ${formatDateTime(appointment.start)}.`,
+    link: '/dashboard/appointments',
+  }),
+  'triage.high-risk': ({ riskAssessment, patientId, patientName }) => {
+    const prediction = riskAssessment.prediction?.[0];
+    const risk = prediction?.qualitativeRisk?.coding?.[0]?.code || 'high';
+    const outcome = prediction?.outcome?.text;
+    return {
+      title: `High-risk triage result for ${patientName || `patient ${patientId}`}`,
+      subject: `[LeLink] ${risk === 'certain' ? 'Critical' : 'High'}-risk triage result`,
+      body: `Triage assessed ${patientName || `patient ${patientId}`} as ${risk} risk${
+        outcome ? ` of ${outcome}` : ''
+      }. Please review the assessment.`,
+      link: '/dashboard/patients',
+    };
+  },
+  'records.shared': ({ patientId, patientName, recordCount, expiresAt }) => ({
+    title: 'Records shared with you',
+    body: `${patientName || `Patient ${patientId}`} shared ${recordCount} record${
+      recordCount === 1 ? '' : 's'
+    } with you until ${formatDateTime(expiresAt)}.`,
+    link: '/dashboard/patients',
+  }),
+  'records.revoked': ({ patientId, patientName, reason }) => ({
+    title: reason === 'expired' ? 'Shared access expired' : 'Shared access revoked',
+    body:
+      reason === 'expired'
+        ? `Your access to the records ${patientName || `patient ${patientId}`} shared with you has expired.`
+        : `${patientName || `Patient ${patientId}`} revoked your access to their shared records.`,
+  }),
+};
+
+/**
+ * Render an event for one recipient
+ */
+export function renderNotification<T extends NotificationEventType>(
+  type: T,
+  data: NotificationEventData[T],
+  context: TemplateContext
+): RenderedNotification {
+  const { subject, ...rendered } = (TEMPLATES[type] as Template<T>)(data);
+  const url = rendered.link ? `${context.appUrl.replace(/\/$/, '')}${rendered.link}` : undefined;
+  const greeting = context.recipientName ? `Hello ${context.recipientName},` : 'Hello,';
+
+  const text = [greeting, '', rendered.body, ...(url ? ['', url] : []), '', '— LeLink Healthcare'].join('\n');
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(rendered.body)}</p>`,
+    ...(url ? [`<p><a href="${escapeHtml(url)}">Open LeLink</a></p>`] : []),
+    '<p>— LeLink Healthcare</p>',
+  ].join('\n');
+
+  return {
+    ...rendered,
+    email: { subject: subject || `[LeLink] ${rendered.title}`, text, html },
+  };
+}
+
+function formatDateTime(value?: string): string {
+  if (!value) return 'a date to be confirmed';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -23,6 +23,8 @@ export interface MessageParams {
 
 export interface RunOptions {
   instructions?: string;
+  /** Appended to the assistant's own instructions for this run */
+  additionalInstructions?: string;
   tools?: OpenAI.Beta.AssistantTool[];
 }
 
@@ -31,6 +33,12 @@ export interface MessagesOptions {
   order?: 'asc' | 'desc';
 }
 
+export interface ChatCompletionParams {
+  model: string;
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+  tools?: OpenAI.Chat.Completions.ChatCompletionTool[];
+}
+
 export interface ToolCall {
   id: string;
   type: 'function';
@@ -70,7 +78,7 @@ export interface ExecutionResult {
  * OpenAI service class for managing chat interactions
  */
 export class OpenAIService {
-  private client: OpenAI;
+  private _client?: OpenAI;
   private logger: Logger;
   private maxRetries: number;
   private retryDelay: number;
@@ -81,9 +89,6 @@ export class OpenAIService {
       retryDelay?: number;
     } = {}
   ) {
-    this.client = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
     this.logger = new Logger({ minLevel: LOG_LEVELS.INFO });
     this.maxRetries = options.maxRetries || 3;
     this.retryDelay = options.retryDelay || 1000;
@@ -91,6 +96,19 @@ export class OpenAIService {
     this._logOrganizationInfo();
   }
 
+  /**
+   * OpenAI client, created on first use so that importing this module does not
+   * require an API key (e.g. when the scripted LLM provider is selected)
+   */
+  private get client(): OpenAI {
+    if (!this._client) {
+      this._client = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    }
+    return this._client;
+  }
+
   /**
    * Log organization information
    */
@@ -178,6 +196,7 @@ export class OpenAIService {
         this.client.beta.threads.runs.create(threadId, {
           assistant_id: assistantId,
           instructions: options.instructions,
+          additional_instructions: options.additionalInstructions,
           tools: options.tools,
         })
       );
@@ -231,6 +250,69 @@ export class OpenAIService {
     }
   }
 
+  /**
+   * Run an assistant with streaming, forwarding text deltas as they arrive.
+   * Tool calls are handled like processRun, and the run continues streaming after
+   * their outputs are submitted.
+   */
+  public async streamRun(
+    threadId: string,
+    assistantId: string,
+    callbacks: RunProcessorCallbacks = {},
+    toolHandlers: Record<string, ToolCallHandler> = {},
+    options: Pick<RunOptions, 'additionalInstructions'> = {}
+  ): Promise<ExecutionResult> {
+    if (!threadId) {
+      throw new OpenAIError('Thread ID is required', 'streamRun');
+    }
+    if (!assistantId) {
+      throw new OpenAIError('Assistant ID is required', 'streamRun');
+    }
+
+    try {
+      let stream = this.client.beta.threads.runs.stream(threadId, {
+        assistant_id: assistantId,
+        additional_instructions: options.additionalInstructions,
+      });
+
+      for (;;) {
+        stream.on('textCreated', () => callbacks.onTextCreated?.());
+        stream.on('textDelta', (delta) => {
+          if (delta.value) {
+            callbacks.onTextDelta?.(delta.value);
+          }
+        });
+
+        const currentRun = await stream.finalRun();
+
+        if (currentRun.status === 'requires_action') {
+          const toolOutputs = await this._executeToolCalls(currentRun, callbacks, toolHandlers);
+          stream = this.client.beta.threads.runs.submitToolOutputsStream(threadId, currentRun.id, {
+            tool_outputs: toolOutputs,
+          });
+          continue;
+        }
+
+        if (currentRun.status === 'completed') {
+          callbacks.onRunCompleted?.(currentRun);
+          const messages = await this.getMessages(threadId);
+          return { status: 'completed', run: currentRun, messages: messages.data };
+        }
+
+        callbacks.onRunFailed?.(currentRun);
+        return {
+          status: currentRun.status as 'failed' | 'cancelled' | 'expired',
+          run: currentRun,
+          error: `Run ${currentRun.status}: ${currentRun.last_error?.message || 'Unknown error'}`,
+        };
+      }
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+      callbacks.onError?.(error as Error);
+      return { status: 'failed', error: errorMessage };
+    }
+  }
+
   /**
    * Handle required actions for tool calls
    */
@@ -240,6 +322,21 @@ export class OpenAIService {
     callbacks: RunProcessorCallbacks,
     toolHandlers: Record<string, ToolCallHandler>
   ): Promise<OpenAI.Beta.Threads.Run> {
+    const toolOutputs = await this._executeToolCalls(run, callbacks, toolHandlers);
+
+    return await this.client.beta.threads.runs.submitToolOutputs(threadId, run.id, {
+      tool_outputs: toolOutputs,
+    });
+  }
+
+  /**
+   * Run the registered handler for each tool call a run is waiting on
+   */
+  private async _executeToolCalls(
+    run: OpenAI.Beta.Threads.Run,
+    callbacks: RunProcessorCallbacks,
+    toolHandlers: Record<string, ToolCallHandler>
+  ): Promise<OpenAI.Beta.Threads.Runs.RunSubmitToolOutputsParams.ToolOutput[]> {
     const toolCalls = run.required_action?.submit_tool_outputs?.tool_calls || [];
     const toolOutputs: OpenAI.Beta.Threads.Runs.RunSubmitToolOutputsParams.ToolOutput[] = [];
 
@@ -270,9 +367,53 @@ export class OpenAIService {
       }
     }
 
-    return await this.client.beta.threads.runs.submitToolOutputs(threadId, run.id, {
-      tool_outputs: toolOutputs,
-    });
+    return toolOutputs;
+  }
+
+  /**
+   * Create a chat completion. Text deltas are streamed to callbacks.onTextDelta when given.
+   * @returns The assistant message, including any tool calls it requested
+   */
+  public async createChatCompletion(
+    params: ChatCompletionParams,
+    callbacks: RunProcessorCallbacks = {}
+  ): Promise<OpenAI.Chat.Completions.ChatCompletionMessage> {
+    if (!params.model) {
+      throw new OpenAIError('Model is required', 'createChatCompletion');
+    }
+
+    try {
+      if (callbacks.onTextDelta) {
+        const stream = this.client.beta.chat.completions.stream({
+          model: params.model,
+          messages: params.messages,
+          tools: params.tools?.length ? params.tools : undefined,
+        });
+        stream.on('content', (delta) => {
+          if (delta) {
+            callbacks.onTextDelta?.(delta);
+          }
+        });
+
+        const completion = await stream.finalChatCompletion();
+        return completion.choices[0].message;
+      }
+
+      const completion = await this._withRetry(() =>
+        this.client.chat.completions.create({
+          model: params.model,
+          messages: params.messages,
+          tools: params.tools?.length ? params.tools : undefined,
+        })
+      );
+      return completion.choices[0].message;
+    } catch (error) {
+      throw new OpenAIError('Failed to create chat completion', 'createChatCompletion', {
+        originalError: (error as Error).message,
+        model: params.model,
+        messageCount: params.messages.length,
+      });
+    }
   }
 
   /**
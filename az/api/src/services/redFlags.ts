@@ -0,0 +1,378 @@
+/**
+ * @fileoverview Red-flag safety screening
+ * @module services/redFlags
+ *
+ * Deterministic rules run on patient messages before the LLM and on assistant
+ * replies after it, so emergencies never depend on the model alone. Rules are
+ * data (redFlagRules.json, or RED_FLAG_RULES_FILE) and carry terms per language:
+ * - allOf: groups of regex terms; every group must match (any language)
+ * - vitals: age/temperature thresholds extracted from the patient's messages
+ * - excludeSentences: sentences to ignore, e.g. conditional safety-net advice
+ * A term preceded by a negation ("no chest pain") does not match.
+ */
+
+import { readFileSync } from 'fs';
+import { Logger } from '../utils/logger.js';
+import { SafetyError } from '../utils/errors.js';
+import { SAFETY_FLAGS, SafetyFlag } from '../utils/constants.js';
+import defaultRuleSet from './redFlagRules.json';
+
+/** Terms keyed by language code */
+export type LocalizedTerms = Record<string, string[]>;
+
+export interface RedFlagRule {
+  id: string;
+  name: string;
+  condition: string;
+  appliesTo: Array<'patient' | 'assistant'>;
+  allOf?: LocalizedTerms[];
+  vitals?: {
+    maxAgeMonths?: number;
+    minTemperatureC?: number;
+  };
+  excludeSentences?: LocalizedTerms;
+  emergencyMessage?: Record<string, string>;
+}
+
+export interface RedFlagRuleSet {
+  version: number;
+  defaultLanguage: string;
+  negations?: LocalizedTerms;
+  emergencyMessage: Record<string, string>;
+  rules: RedFlagRule[];
+}
+
+export interface RedFlagMatch {
+  ruleId: string;
+  name: string;
+  condition: string;
+  source: 'patient' | 'assistant';
+  /** Language of the matched terms, used for the emergency message */
+  language: string;
+  /** Matched text (terms, or extracted vitals) */
+  evidence: string[];
+}
+
+export interface RedFlagScreenResult {
+  flag: SafetyFlag;
+  matches: RedFlagMatch[];
+  /** Emergency reply in the patient's language, for patient matches */
+  emergencyMessage?: string;
+  /** Language of emergencyMessage */
+  emergencyLanguage?: string;
+}
+
+interface CompiledTerm {
+  language: string;
+  pattern: RegExp;
+}
+
+interface CompiledRule {
+  rule: RedFlagRule;
+  groups: CompiledTerm[][];
+  excludeSentences: CompiledTerm[];
+}
+
+interface TermHit {
+  language: string;
+  text: string;
+}
+
+export interface Vitals {
+  ageMonths?: number;
+  temperatureC?: number;
+}
+
+// Words that must accompany a number for it to be read as an age ("3 months old")
+const AGE_PATTERN =
+  /(\d+(?:[.,]\d+)?)\s*-?\s*(days?|weeks?|months?|years?|yrs?|tage?n?|wochen?|monaten?|monate|jahren?|jours?|semaines?|mois|ans?|днів|дні|день|тижн\w*|місяц\w*|рок\w*|рік)\s*-?\s*(old|alt\b)/iu;
+const AGE_PREFIX_PATTERN =
+  /(?:aged|âgée? de|bébé de|enfant de|عمره|عمرها|віком)\s*(\d+(?:[.,]\d+)?)\s*(days?|weeks?|months?|years?|jours?|semaines?|mois|ans?|يوم|أيام|أسابيع|أسبوع|شهر|أشهر|سنة|سنوات|днів|дні|тижн\w*|місяц\w*|рок\w*|рік)/iu;
+const NEWBORN_PATTERN = /newborn|neugeboren|nouveau-né|حديث الولادة|новонароджен/iu;
+const TEMPERATURE_UNIT_PATTERN =
+  /(\d{2,3}(?:[.,]\d+)?)\s*(?:°|º|degrees?|grad|degrés?|градус\w*|درجة)\s*(c\b|f\b|celsius|fahrenheit)?/giu;
+const TEMPERATURE_CONTEXT_PATTERN =
+  /(?:fever|temperature|temp|fieber|temperatur|fièvre|température|حرارة|حمى|температур\w*|гарячк\w*)\D{0,15}?(\d{2,3}(?:[.,]\d+)?)/giu;
+
+const NEGATION_WINDOW_WORDS = 2;
+
+/**
+ * Red-flag rule engine
+ */
+export class RedFlagService {
+  private logger: Logger;
+  private ruleSet: RedFlagRuleSet;
+  private rules: CompiledRule[];
+  private negations: CompiledTerm[];
+
+  constructor(ruleSet?: RedFlagRuleSet) {
+    this.logger = new Logger();
+    this.ruleSet = ruleSet || RedFlagService.loadRuleSet();
+    this.rules = this.ruleSet.rules.map((rule) => this.compileRule(rule));
+    this.negations = this.compileTerms(this.ruleSet.negations || {}, 'negations', (term) => `^(?:${term})$`);
+
+    this.logger.info('Red-flag rules loaded', {
+      version: this.ruleSet.version,
+      ruleCount: this.rules.length,
+    });
+  }
+
+  /**
+   * The rule set from RED_FLAG_RULES_FILE, or the bundled default
+   */
+  public static loadRuleSet(): RedFlagRuleSet {
+    const file = process.env.RED_FLAG_RULES_FILE;
+    if (!file) {
+      return defaultRuleSet as RedFlagRuleSet;
+    }
+
+    try {
+      return JSON.parse(readFileSync(file, 'utf8')) as RedFlagRuleSet;
+    } catch (error) {
+      throw new SafetyError('Failed to load red-flag rules', { file, originalError: (error as Error).message });
+    }
+  }
+
+  /**
+   * Screen a patient message. Earlier messages of the conversation are
+   * considered too (e.g. the age given before the temperature), but a rule only
+   * fires if the new message contributes to it.
+   * @param language - The patient's language, preferred for the emergency message over that of the matched terms
+   */
+  public screenPatientMessage(
+    message: string,
+    previousMessages: string[] = [],
+    language?: string
+  ): RedFlagScreenResult {
+    const conversation = [...previousMessages, message].join('\n');
+    const latestVitals = this.extractVitals(message);
+    const conversationVitals = this.extractVitals(conversation);
+    const matches: RedFlagMatch[] = [];
+
+    for (const compiled of this.rules.filter((c) => c.rule.appliesTo.includes('patient'))) {
+      const hits = this.matchGroups(compiled, conversation);
+      if (!hits) continue;
+
+      const vitals = this.matchVitals(compiled.rule, conversationVitals);
+      if (!vitals) continue;
+
+      const newTermHit = this.matchGroups(compiled, message, true);
+      const newVitals = Object.keys(latestVitals).length > 0 && !!compiled.rule.vitals;
+      if (!newTermHit && !newVitals) continue;
+
+      matches.push({
+        ruleId: compiled.rule.id,
+        name: compiled.rule.name,
+        condition: compiled.rule.condition,
+        source: 'patient',
+        language: (newTermHit && newTermHit[0]?.language) || hits[0]?.language || this.ruleSet.defaultLanguage,
+        evidence: [...hits.map((hit) => hit.text), ...vitals],
+      });
+    }
+
+    return this.result(matches, language);
+  }
+
+  /**
+   * Screen an assistant reply, e.g. for emergency advice the model gave without flagging high risk
+   */
+  public screenAssistantReply(reply: string): RedFlagScreenResult {
+    const matches: RedFlagMatch[] = [];
+
+    for (const compiled of this.rules.filter((c) => c.rule.appliesTo.includes('assistant'))) {
+      const hits = this.matchGroups(compiled, reply);
+      if (!hits) continue;
+
+      matches.push({
+        ruleId: compiled.rule.id,
+        name: compiled.rule.name,
+        condition: compiled.rule.condition,
+        source: 'assistant',
+        language: hits[0]?.language || this.ruleSet.defaultLanguage,
+        evidence: hits.map((hit) => hit.text),
+      });
+    }
+
+    return this.result(matches);
+  }
+
+  private result(matches: RedFlagMatch[], language?: string): RedFlagScreenResult {
+    if (matches.length === 0) {
+      return { flag: SAFETY_FLAGS.NONE, matches };
+    }
+
+    const first = matches.find((match) => match.source === 'patient');
+    return {
+      flag: SAFETY_FLAGS.HIGH_RISK,
+      matches,
+      ...(first && this.emergencyMessage(first, language)),
+    };
+  }
+
+  /**
+   * Rule-specific message if there is one, else the default, in the patient's
+   * language if given, else the match's, else the default language
+   */
+  private emergencyMessage(
+    match: RedFlagMatch,
+    language?: string
+  ): Pick<RedFlagScreenResult, 'emergencyMessage' | 'emergencyLanguage'> {
+    const rule = this.rules.find((c) => c.rule.id === match.ruleId)?.rule;
+    const messages = rule?.emergencyMessage || this.ruleSet.emergencyMessage;
+    const defaultLanguage = this.ruleSet.defaultLanguage;
+    const emergencyLanguage = [language, match.language, defaultLanguage].find(
+      (candidate): candidate is string => !!candidate && !!messages[candidate]
+    );
+
+    return emergencyLanguage
+      ? { emergencyMessage: messages[emergencyLanguage], emergencyLanguage }
+      : { emergencyMessage: this.ruleSet.emergencyMessage[defaultLanguage], emergencyLanguage: defaultLanguage };
+  }
+
+  /**
+   * Match every term group of a rule against the text
+   * @param any - Succeed if at least one group matches, instead of all of them
+   * @returns One hit per matched group, or null if the rule does not match
+   */
+  private matchGroups(compiled: CompiledRule, text: string, any = false): TermHit[] | null {
+    if (compiled.groups.length === 0) {
+      return any ? null : [];
+    }
+
+    const sentences = text
+      .split(/[.!?؟\n]+/u)
+      .filter((sentence) => !compiled.excludeSentences.some((term) => term.pattern.test(sentence)));
+
+    const hits: TermHit[] = [];
+    for (const group of compiled.groups) {
+      const hit = this.matchGroup(group, sentences);
+      if (hit) {
+        hits.push(hit);
+      } else if (!any) {
+        return null;
+      }
+    }
+
+    return hits.length > 0 ? hits : null;
+  }
+
+  private matchGroup(group: CompiledTerm[], sentences: string[]): TermHit | null {
+    for (const sentence of sentences) {
+      for (const term of group) {
+        const match = term.pattern.exec(sentence);
+        if (match && !this.isNegated(sentence.slice(0, match.index))) {
+          return { language: term.language, text: match[0] };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether one of the words just before a match negates it
+   */
+  private isNegated(before: string): boolean {
+    const words = before.trim().split(/[\s,;:]+/u).filter(Boolean).slice(-NEGATION_WINDOW_WORDS);
+    // Two-word negations ("don't have") are checked as a phrase as well
+    const candidates = [...words, words.join(' ')];
+    return candidates.some((word) => this.negations.some((negation) => negation.pattern.test(word)));
+  }
+
+  /**
+   * Check a rule's vital-sign thresholds
+   * @returns Evidence for the thresholds met (empty if the rule has none), or null if one is not met
+   */
+  private matchVitals(rule: RedFlagRule, vitals: Vitals): string[] | null {
+    if (!rule.vitals) return [];
+
+    const evidence: string[] = [];
+    const { maxAgeMonths, minTemperatureC } = rule.vitals;
+
+    if (maxAgeMonths !== undefined) {
+      if (vitals.ageMonths === undefined || vitals.ageMonths >= maxAgeMonths) return null;
+      evidence.push(`age ${Math.round(vitals.ageMonths * 10) / 10} months`);
+    }
+    if (minTemperatureC !== undefined) {
+      if (vitals.temperatureC === undefined || vitals.temperatureC < minTemperatureC) return null;
+      evidence.push(`temperature ${vitals.temperatureC}°C`);
+    }
+
+    return evidence;
+  }
+
+  /**
+   * Extract the patient's age and highest reported temperature
+   */
+  public extractVitals(text: string): Vitals {
+    const vitals: Vitals = {};
+
+    const age = AGE_PATTERN.exec(text) || AGE_PREFIX_PATTERN.exec(text);
+    if (age) {
+      vitals.ageMonths = this.toMonths(parseFloat(age[1].replace(',', '.')), age[2].toLowerCase());
+    } else if (NEWBORN_PATTERN.test(text)) {
+      vitals.ageMonths = 0;
+    }
+
+    const temperatures: number[] = [];
+    for (const pattern of [TEMPERATURE_UNIT_PATTERN, TEMPERATURE_CONTEXT_PATTERN]) {
+      for (const match of text.matchAll(pattern)) {
+        const value = parseFloat(match[1].replace(',', '.'));
+        const fahrenheit = /^f/i.test(match[2] || '') || value > 50;
+        const celsius = fahrenheit ? ((value - 32) * 5) / 9 : value;
+        // Anything outside a survivable body temperature is not a temperature
+        if (celsius >= 34 && celsius <= 45) {
+          temperatures.push(Math.round(celsius * 10) / 10);
+        }
+      }
+    }
+    if (temperatures.length > 0) {
+      vitals.temperatureC = Math.max(...temperatures);
+    }
+
+    return vitals;
+  }
+
+  private toMonths(value: number, unit: string): number {
+    if (/^(d|tag|jour|يوم|أيام|дн|день)/u.test(unit)) return value / 30;
+    if (/^(w|woche|semaine|أسبوع|أسابيع|тиж)/u.test(unit)) return value / 4.3;
+    if (/^(m|شهر|أشهر|місяц)/u.test(unit)) return value;
+    return value * 12;
+  }
+
+  private compileRule(rule: RedFlagRule): CompiledRule {
+    if (!rule.id || !rule.name || !rule.condition || !Array.isArray(rule.appliesTo)) {
+      throw new SafetyError('Invalid red-flag rule: id, name, condition and appliesTo are required', {
+        ruleId: rule.id,
+      });
+    }
+    if (!rule.allOf?.length && !rule.vitals) {
+      throw new SafetyError('Invalid red-flag rule: allOf or vitals is required', { ruleId: rule.id });
+    }
+
+    return {
+      rule,
+      groups: (rule.allOf || []).map((group) => this.compileTerms(group, rule.id)),
+      excludeSentences: this.compileTerms(rule.excludeSentences || {}, rule.id),
+    };
+  }
+
+  private compileTerms(terms: LocalizedTerms, ruleId: string, wrap = (term: string) => term): CompiledTerm[] {
+    return Object.entries(terms).flatMap(([language, patterns]) =>
+      patterns.map((term) => {
+        try {
+          return { language, pattern: new RegExp(wrap(term), 'iu') };
+        } catch (error) {
+          throw new SafetyError('Invalid red-flag rule term', {
+            ruleId,
+            language,
+            term,
+            originalError: (error as Error).message,
+          });
+        }
+      })
+    );
+  }
+}
+
+// Export singleton instance
+export const redFlagService = new RedFlagService();
@@ -0,0 +1,610 @@
+/**
+ * @fileoverview Appointment scheduling service
+ * @module services/scheduling
+ *
+ * Scheduling on FHIR Schedule, Slot and Appointment resources:
+ * - a practitioner publishes availability as free Slots of their Schedule; both
+ *   live in the practitioner's compartment
+ * - booking marks a Slot busy and creates a booked Appointment in the patient's
+ *   compartment. The Slot is written with If-Match on the version that was read
+ *   as free, so of two concurrent bookings only one can succeed
+ * - status changes follow the Appointment state machine; cancelling or moving an
+ *   appointment frees its Slot again
+ * - patients are reminded of booked appointments ahead of time
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger.js';
+import { ConflictError, ValidationError } from '../utils/errors.js';
+import { fhirStorageService, FHIRResource, versionETag } from './fhirStorage.js';
+import { notificationService } from './notifications/index.js';
+
+export type AppointmentStatus =
+  | 'proposed'
+  | 'pending'
+  | 'booked'
+  | 'arrived'
+  | 'fulfilled'
+  | 'cancelled'
+  | 'noshow'
+  | 'entered-in-error'
+  | 'checked-in'
+  | 'waitlist';
+
+export type SlotStatus = 'busy' | 'free' | 'busy-unavailable' | 'busy-tentative' | 'entered-in-error';
+
+/**
+ * Status changes an Appointment allows; entered-in-error is always allowed
+ */
+export const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  proposed: ['pending', 'booked', 'cancelled'],
+  pending: ['booked', 'cancelled'],
+  waitlist: ['booked', 'cancelled'],
+  booked: ['checked-in', 'arrived', 'fulfilled', 'cancelled', 'noshow'],
+  'checked-in': ['arrived', 'fulfilled', 'cancelled'],
+  arrived: ['fulfilled'],
+  fulfilled: [],
+  cancelled: [],
+  noshow: [],
+  'entered-in-error': [],
+};
+
+/** Statuses of appointments that still take up their time */
+const ACTIVE_STATUSES: AppointmentStatus[] = ['proposed', 'pending', 'waitlist', 'booked', 'checked-in', 'arrived'];
+const RESCHEDULABLE_STATUSES: AppointmentStatus[] = ['proposed', 'pending', 'waitlist', 'booked'];
+
+/** Identifier linking Schedules and Slots to the practitioner's compartment */
+const PRACTITIONER_ID_SYSTEM = 'http://lelink.healthcare/user-id';
+
+export const DEFAULT_SLOT_MINUTES = 30;
+const MIN_SLOT_MINUTES = 5;
+const MAX_SLOT_MINUTES = 240;
+/** Upper bound on the slots one availability request may create */
+export const MAX_SLOTS_PER_REQUEST = 200;
+
+export interface AvailabilityRequest {
+  /** ISO 8601 start of the available period */
+  start: string;
+  /** ISO 8601 end of the available period */
+  end: string;
+  slotMinutes?: number;
+  /** Kind of appointment offered, e.g. "General consultation" */
+  serviceType?: string;
+}
+
+export interface AvailabilityResult {
+  schedule: FHIRResource;
+  created: FHIRResource[];
+  /** Slots skipped because they overlap existing ones */
+  skipped: number;
+}
+
+export interface BookingRequest {
+  practitionerId: string;
+  slotId: string;
+  description?: string;
+  reason?: string;
+}
+
+export interface SlotQuery {
+  start?: string;
+  end?: string;
+  status?: SlotStatus;
+}
+
+export interface AppointmentQuery {
+  patientId?: string;
+  practitionerId?: string;
+  start?: string;
+  end?: string;
+  status?: AppointmentStatus;
+}
+
+/**
+ * Consecutive slot periods covering [start, end)
+ */
+export function slotPeriods(start: string, end: string, slotMinutes: number): Array<{ start: string; end: string }> {
+  const from = Date.parse(start);
+  const to = Date.parse(end);
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    throw new ValidationError('start and end must be ISO 8601 date-times', { start, end });
+  }
+  if (to <= from) {
+    throw new ValidationError('end must be after start', { start, end });
+  }
+  if (!Number.isInteger(slotMinutes) || slotMinutes < MIN_SLOT_MINUTES || slotMinutes > MAX_SLOT_MINUTES) {
+    throw new ValidationError(`slotMinutes must be a whole number between ${MIN_SLOT_MINUTES} and ${MAX_SLOT_MINUTES}`, {
+      slotMinutes,
+    });
+  }
+
+  const length = slotMinutes * 60 * 1000;
+  const count = Math.floor((to - from) / length);
+  if (count === 0) {
+    throw new ValidationError('The period is shorter than one slot', { start, end, slotMinutes });
+  }
+  if (count > MAX_SLOTS_PER_REQUEST) {
+    throw new ValidationError(`At most ${MAX_SLOTS_PER_REQUEST} slots can be published at once`, { count });
+  }
+
+  return Array.from({ length: count }, (_, index) => ({
+    start: new Date(from + index * length).toISOString(),
+    end: new Date(from + (index + 1) * length).toISOString(),
+  }));
+}
+
+/**
+ * Whether an appointment may move from one status to another
+ */
+export function canTransition(from: AppointmentStatus, to: AppointmentStatus): boolean {
+  return to === 'entered-in-error' ? from !== to : (APPOINTMENT_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Scheduling service
+ */
+export class SchedulingService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Publish free slots for a practitioner; periods overlapping existing slots are skipped
+   */
+  public async publishAvailability(practitionerId: string, request: AvailabilityRequest): Promise<AvailabilityResult> {
+    const periods = slotPeriods(request.start, request.end, request.slotMinutes ?? DEFAULT_SLOT_MINUTES);
+    if (Date.parse(periods[0].start) < Date.now()) {
+      throw new ValidationError('Availability cannot start in the past', { start: request.start });
+    }
+
+    const practitioner = await fhirStorageService.getResource(practitionerId, 'Practitioner', practitionerId);
+    if (!practitioner) {
+      throw new ValidationError(`Practitioner not found: ${practitionerId}`);
+    }
+
+    const schedule = await this.getOrCreateSchedule(practitionerId, practitioner);
+    const existing = (await fhirStorageService.listPatientResourcesByType(practitionerId, 'Slot')).filter(
+      (slot) => slot.status !== 'entered-in-error'
+    );
+
+    const created: FHIRResource[] = [];
+    let skipped = 0;
+    for (const period of periods) {
+      if (existing.some((slot) => overlaps(slot, period))) {
+        skipped++;
+        continue;
+      }
+
+      const slot: FHIRResource = {
+        resourceType: 'Slot',
+        id: uuidv4(),
+        identifier: [{ system: PRACTITIONER_ID_SYSTEM, value: practitionerId }],
+        schedule: { reference: `Schedule/${schedule.id}` },
+        status: 'free',
+        start: period.start,
+        end: period.end,
+        ...(request.serviceType && { serviceType: [{ text: request.serviceType }] }),
+        meta: { source: 'LeLink-Scheduling' },
+      };
+
+      const result = await fhirStorageService.storeResource(slot, { ifNoneMatch: '*' });
+      if (!result.success) {
+        throw new Error(`Failed to store slot: ${result.error || 'unknown error'}`);
+      }
+      created.push(slot);
+    }
+
+    this.logger.info('Availability published', {
+      practitionerId,
+      scheduleId: schedule.id,
+      created: created.length,
+      skipped,
+    });
+
+    return { schedule, created, skipped };
+  }
+
+  /**
+   * Slots of a practitioner, earliest first
+   */
+  public async listSlots(practitionerId: string, query: SlotQuery = {}): Promise<FHIRResource[]> {
+    const slots = await fhirStorageService.listPatientResourcesByType(practitionerId, 'Slot');
+    return slots
+      .filter((slot) => (!query.status || slot.status === query.status) && withinRange(slot.start, query))
+      .sort(byStart);
+  }
+
+  /**
+   * Practitioners that publish availability, with their Schedule
+   */
+  public async listSchedules(): Promise<FHIRResource[]> {
+    const schedules: FHIRResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await fhirStorageService.searchResources({ resourceType: 'Schedule' }, { limit: 100, cursor });
+      schedules.push(...page.items.filter((schedule) => schedule.active !== false));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return schedules;
+  }
+
+  /**
+   * Book a free slot for a patient
+   * @throws ConflictError when the slot is taken, or the patient has another appointment at that time
+   */
+  public async bookAppointment(patientId: string, request: BookingRequest): Promise<FHIRResource> {
+    if (!request?.practitionerId || !request.slotId) {
+      throw new ValidationError('practitionerId and slotId are required');
+    }
+    if (request.practitionerId === patientId) {
+      throw new ValidationError('Practitioners cannot book appointments with themselves');
+    }
+
+    const slot = await this.getSlot(request.practitionerId, request.slotId);
+    await this.checkPatientIsFree(patientId, slot);
+    await this.claimSlot(request.practitionerId, slot);
+
+    const practitioner = await fhirStorageService.getResource(request.practitionerId, 'Practitioner', request.practitionerId);
+    const appointment: FHIRResource = {
+      resourceType: 'Appointment',
+      id: uuidv4(),
+      status: 'booked',
+      ...(slot.serviceType && { serviceType: slot.serviceType }),
+      ...(request.description && { description: request.description }),
+      ...(request.reason && { reasonCode: [{ text: request.reason }] }),
+      start: slot.start,
+      end: slot.end,
+      minutesDuration: Math.round((Date.parse(slot.end) - Date.parse(slot.start)) / 60000),
+      slot: [{ reference: `Slot/${slot.id}` }],
+      created: new Date().toISOString(),
+      participant: [
+        {
+          actor: { reference: `Patient/${patientId}` },
+          required: 'required',
+          status: 'accepted',
+        },
+        {
+          actor: {
+            reference: `Practitioner/${request.practitionerId}`,
+            ...(practitioner && { display: displayName(practitioner) }),
+          },
+          required: 'required',
+          status: 'accepted',
+        },
+      ],
+      meta: { source: 'LeLink-Scheduling' },
+    };
+
+    const result = await fhirStorageService.storeResource(appointment, { ifNoneMatch: '*' });
+    if (!result.success) {
+      await this.releaseSlot(request.practitionerId, slot.id);
+      throw new Error(`Failed to store appointment: ${result.error || 'unknown error'}`);
+    }
+
+    this.logger.info('Appointment booked', {
+      patientId,
+      practitionerId: request.practitionerId,
+      appointmentId: appointment.id,
+      slotId: slot.id,
+      start: slot.start,
+    });
+
+    return appointment;
+  }
+
+  /**
+   * Appointments of a patient, or of a practitioner across patients, earliest first
+   */
+  public async listAppointments(query: AppointmentQuery): Promise<FHIRResource[]> {
+    let appointments: FHIRResource[];
+
+    if (query.patientId) {
+      appointments = await fhirStorageService.listPatientResourcesByType(query.patientId, 'Appointment');
+    } else if (query.practitionerId) {
+      // Appointments live in the patients' compartments; the index finds them by date
+      appointments = [];
+      let cursor: string | undefined;
+      do {
+        const page = await fhirStorageService.searchResources(
+          { resourceType: 'Appointment', ...(query.start && { dateFrom: query.start }), ...(query.end && { dateTo: query.end }) },
+          { limit: 100, cursor }
+        );
+        appointments.push(...page.items);
+        cursor = page.nextCursor;
+      } while (cursor);
+    } else {
+      throw new ValidationError('patientId or practitionerId is required');
+    }
+
+    return appointments
+      .filter(
+        (appointment) =>
+          (!query.practitionerId || participantId(appointment, 'Practitioner') === query.practitionerId) &&
+          (!query.status || appointment.status === query.status) &&
+          withinRange(appointment.start, query)
+      )
+      .sort(byStart);
+  }
+
+  public async getAppointment(patientId: string, appointmentId: string): Promise<FHIRResource | null> {
+    return fhirStorageService.getResource(patientId, 'Appointment', appointmentId);
+  }
+
+  /**
+   * Move an appointment to a new status; cancelling it frees its slot
+   * @param ifMatch - Version the caller last saw, if any
+   * @throws ValidationError for a transition the state machine doesn't allow
+   */
+  public async updateStatus(
+    patientId: string,
+    appointmentId: string,
+    status: AppointmentStatus,
+    options: { comment?: string; ifMatch?: string } = {}
+  ): Promise<FHIRResource | null> {
+    const appointment = await this.getAppointment(patientId, appointmentId);
+    if (!appointment) {
+      return null;
+    }
+
+    const from = appointment.status as AppointmentStatus;
+    if (!canTransition(from, status)) {
+      throw new ValidationError(`An appointment that is ${from} cannot become ${status}`, {
+        from,
+        to: status,
+        allowed: APPOINTMENT_TRANSITIONS[from] || [],
+      });
+    }
+
+    appointment.status = status;
+    if (status === 'cancelled') {
+      appointment.cancelationReason = { text: options.comment || 'Cancelled' };
+    } else if (options.comment) {
+      appointment.comment = options.comment;
+    }
+
+    await this.saveAppointment(appointment, options.ifMatch);
+
+    if (status === 'cancelled' || status === 'entered-in-error') {
+      await this.releaseSlots(appointment);
+    }
+
+    this.logger.info('Appointment status changed', { patientId, appointmentId, from, to: status });
+    return appointment;
+  }
+
+  /**
+   * Move an appointment to another free slot of the same practitioner
+   */
+  public async rescheduleAppointment(
+    patientId: string,
+    appointmentId: string,
+    slotId: string,
+    options: { comment?: string; ifMatch?: string } = {}
+  ): Promise<FHIRResource | null> {
+    const appointment = await this.getAppointment(patientId, appointmentId);
+    if (!appointment) {
+      return null;
+    }
+    if (!RESCHEDULABLE_STATUSES.includes(appointment.status)) {
+      throw new ValidationError(`An appointment that is ${appointment.status} cannot be rescheduled`);
+    }
+
+    const practitionerId = participantId(appointment, 'Practitioner');
+    if (!practitionerId) {
+      throw new ValidationError('The appointment has no practitioner');
+    }
+
+    const slot = await this.getSlot(practitionerId, slotId);
+    await this.checkPatientIsFree(patientId, slot, appointment.id);
+    await this.claimSlot(practitionerId, slot);
+
+    const previous = { ...appointment };
+    appointment.start = slot.start;
+    appointment.end = slot.end;
+    appointment.minutesDuration = Math.round((Date.parse(slot.end) - Date.parse(slot.start)) / 60000);
+    appointment.slot = [{ reference: `Slot/${slot.id}` }];
+    if (options.comment) {
+      appointment.comment = options.comment;
+    }
+
+    try {
+      await this.saveAppointment(appointment, options.ifMatch);
+    } catch (error) {
+      await this.releaseSlot(practitionerId, slot.id);
+      throw error;
+    }
+    await this.releaseSlots(previous);
+
+    this.logger.info('Appointment rescheduled', { patientId, appointmentId, slotId, start: slot.start });
+    return appointment;
+  }
+
+  /**
+   * Remind patients of booked appointments starting within the lead time. Each
+   * appointment time is reminded once; a rescheduled appointment is reminded again.
+   * @returns Number of reminders sent
+   */
+  public async sendDueReminders(leadHours: number): Promise<number> {
+    const now = new Date();
+    const until = new Date(now.getTime() + leadHours * 60 * 60 * 1000);
+
+    const due: FHIRResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await fhirStorageService.searchResources(
+        { resourceType: 'Appointment', status: 'booked', dateFrom: now.toISOString(), dateTo: until.toISOString() },
+        { limit: 100, cursor }
+      );
+      due.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    let sent = 0;
+    for (const appointment of due.filter((a) => withinRange(a.start, { start: now.toISOString(), end: until.toISOString() }))) {
+      const result = await notificationService.notifyAppointmentReminder(appointment);
+      if (result?.deliveries.some((delivery) => delivery.status === 'sent')) {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  private async getOrCreateSchedule(practitionerId: string, practitioner: FHIRResource): Promise<FHIRResource> {
+    const [existing] = await fhirStorageService.listPatientResourcesByType(practitionerId, 'Schedule');
+    if (existing) {
+      return existing;
+    }
+
+    const schedule: FHIRResource = {
+      resourceType: 'Schedule',
+      id: uuidv4(),
+      identifier: [{ system: PRACTITIONER_ID_SYSTEM, value: practitionerId }],
+      active: true,
+      actor: [{ reference: `Practitioner/${practitionerId}`, display: displayName(practitioner) }],
+      meta: { source: 'LeLink-Scheduling' },
+    };
+
+    const result = await fhirStorageService.storeResource(schedule, { ifNoneMatch: '*' });
+    if (!result.success) {
+      throw new Error(`Failed to store schedule: ${result.error || 'unknown error'}`);
+    }
+    return schedule;
+  }
+
+  private async getSlot(practitionerId: string, slotId: string): Promise<FHIRResource> {
+    const slot = await fhirStorageService.getResource(practitionerId, 'Slot', slotId);
+    if (!slot) {
+      throw new ValidationError(`Slot not found: ${slotId}`);
+    }
+    return slot;
+  }
+
+  /**
+   * Mark a free slot busy, on the condition that nobody changed it since it was read
+   */
+  private async claimSlot(practitionerId: string, slot: FHIRResource): Promise<void> {
+    if (slot.status !== 'free') {
+      throw new ConflictError('This time slot is no longer available', { slotId: slot.id });
+    }
+    if (Date.parse(slot.start) < Date.now()) {
+      throw new ValidationError('This time slot is in the past', { slotId: slot.id });
+    }
+
+    slot.status = 'busy';
+    const result = await fhirStorageService.storeResource(slot, { ifMatch: versionETag(slot.meta?.versionId || '1') });
+    if (result.preconditionFailed) {
+      this.logger.info('Slot booked by a concurrent request', { practitionerId, slotId: slot.id });
+      throw new ConflictError('This time slot is no longer available', { slotId: slot.id });
+    }
+    if (!result.success) {
+      throw new Error(`Failed to reserve slot: ${result.error || 'unknown error'}`);
+    }
+  }
+
+  /**
+   * Free the slots an appointment held, unless they are already in the past
+   */
+  private async releaseSlots(appointment: FHIRResource): Promise<void> {
+    const practitionerId = participantId(appointment, 'Practitioner');
+    if (!practitionerId) return;
+
+    for (const ref of appointment.slot || []) {
+      const slotId = (ref.reference || '').replace('Slot/', '');
+      if (slotId) {
+        await this.releaseSlot(practitionerId, slotId);
+      }
+    }
+  }
+
+  private async releaseSlot(practitionerId: string, slotId: string): Promise<void> {
+    try {
+      const slot = await fhirStorageService.getResource(practitionerId, 'Slot', slotId);
+      if (!slot || slot.status !== 'busy' || Date.parse(slot.start) < Date.now()) {
+        return;
+      }
+
+      slot.status = 'free';
+      const result = await fhirStorageService.storeResource(slot);
+      if (!result.success) {
+        throw new Error(result.error || 'unknown error');
+      }
+    } catch (error) {
+      // The appointment change stands; the slot just stays unavailable
+      this.logger.error('Failed to release slot', { error: error as Error, practitionerId, slotId });
+    }
+  }
+
+  /**
+   * Reject a booking that overlaps another active appointment of the patient
+   */
+  private async checkPatientIsFree(patientId: string, slot: FHIRResource, excludeAppointmentId?: string): Promise<void> {
+    const appointments = await fhirStorageService.listPatientResourcesByType(patientId, 'Appointment');
+    const clash = appointments.find(
+      (appointment) =>
+        appointment.id !== excludeAppointmentId &&
+        ACTIVE_STATUSES.includes(appointment.status) &&
+        overlaps(appointment, slot)
+    );
+    if (clash) {
+      throw new ConflictError('You already have an appointment at this time', { appointmentId: clash.id });
+    }
+  }
+
+  private async saveAppointment(appointment: FHIRResource, ifMatch?: string): Promise<void> {
+    const result = await fhirStorageService.storeResource(appointment, {
+      ifMatch: ifMatch || versionETag(appointment.meta?.versionId || '1'),
+    });
+    if (result.preconditionFailed) {
+      throw new ConflictError('The appointment was changed by someone else; reload it and try again', {
+        currentVersionId: result.versionId,
+      });
+    }
+    if (!result.success) {
+      throw new Error(`Failed to store appointment: ${result.error || 'unknown error'}`);
+    }
+  }
+}
+
+/**
+ * ID of the first participant of a type ("Patient", "Practitioner")
+ */
+export function participantId(appointment: FHIRResource, type: string): string | undefined {
+  const reference: string | undefined = (appointment.participant || [])
+    .map((participant: any) => participant.actor?.reference)
+    .find((ref: string | undefined) => ref?.startsWith(`${type}/`));
+  return reference?.slice(type.length + 1);
+}
+
+type Period = { start?: string; end?: string } | FHIRResource;
+
+function overlaps(a: Period, b: Period): boolean {
+  const aStart = Date.parse(a.start || '');
+  const aEnd = Date.parse(a.end || '');
+  const bStart = Date.parse(b.start || '');
+  const bEnd = Date.parse(b.end || '');
+  if ([aStart, aEnd, bStart, bEnd].some(Number.isNaN)) return false;
+  return aStart < bEnd && bStart < aEnd;
+}
+
+function withinRange(start: string | undefined, range: { start?: string; end?: string }): boolean {
+  const time = Date.parse(start || '');
+  if (Number.isNaN(time)) return !range.start && !range.end;
+  if (range.start && time < Date.parse(range.start)) return false;
+  if (range.end && time >= Date.parse(range.end)) return false;
+  return true;
+}
+
+function byStart(a: FHIRResource, b: FHIRResource): number {
+  return (a.start || '').localeCompare(b.start || '');
+}
+
+function displayName(resource: FHIRResource): string {
+  const name = resource.name?.[0];
+  return name?.text || [...(name?.prefix || []), ...(name?.given || []), name?.family].filter(Boolean).join(' ') || resource.id;
+}
+
+// Export singleton instance
+export const schedulingService = new SchedulingService();
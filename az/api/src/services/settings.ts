@@ -0,0 +1,594 @@
+/**
+ * @fileoverview System settings saved by administrators
+ * @module services/settings
+ *
+ * Each setting is a configuration key (see utils/config) with a schema. Saved
+ * values override the environment at runtime: they are applied to the shared
+ * configuration and the blockchain service on save, and reloaded from the shared
+ * store (a state blob, see services/stateStore; or SETTINGS_FILE) at most every
+ * SETTINGS_REFRESH_MS so other instances pick them up. Every save is kept in the
+ * change history with who made it and why.
+ *
+ * Secrets (private keys, API keys, the SMTP password) are not settings; they stay
+ * in the environment.
+ */
+
+import { ethers } from 'ethers';
+import { Logger } from '../utils/logger.js';
+import { ConflictError, ValidationError } from '../utils/errors.js';
+import type { JsonStore } from '../utils/jsonFileStore.js';
+import { applyOverrides, blockchainConfig, get, getDefault } from '../utils/config.js';
+import { blockchainService } from './blockchain.js';
+import { jsonStore } from './stateStore.js';
+import { mailAddress } from './notifications/smtp.js';
+
+export type SettingCategory = 'general' | 'security' | 'notifications' | 'integrations';
+
+export type SettingType =
+  | 'boolean'
+  | 'integer'
+  | 'string'
+  | 'enum'
+  | 'url'
+  | 'email'
+  | 'email-list'
+  | 'mailbox'
+  | 'address';
+
+export interface SettingDefinition {
+  /** Configuration key path, e.g. blockchain.contractAddress */
+  key: string;
+  category: SettingCategory;
+  type: SettingType;
+  label: string;
+  description?: string;
+  /** Allowed values of an enum */
+  values?: string[];
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  /** May be empty */
+  optional?: boolean;
+  /** Readable by any signed-in user; the web app applies these at runtime */
+  runtime?: boolean;
+}
+
+export interface EffectiveSetting extends SettingDefinition {
+  value: unknown;
+  /** Value from the environment */
+  defaultValue: unknown;
+  /** Saved by an administrator rather than taken from the environment */
+  overridden: boolean;
+}
+
+export interface SettingsActor {
+  userId: string;
+  name?: string;
+  email?: string;
+}
+
+export interface SettingChange {
+  key: string;
+  previous: unknown;
+  value: unknown;
+  /** Override removed; the value is the environment's again */
+  reset?: boolean;
+}
+
+export interface SettingsRevision {
+  revision: number;
+  changedAt: string;
+  changedBy: SettingsActor;
+  reason?: string;
+  changes: SettingChange[];
+}
+
+export interface SettingsSnapshot {
+  revision: number;
+  updatedAt?: string;
+  updatedBy?: SettingsActor;
+  settings: EffectiveSetting[];
+}
+
+export interface RuntimeSettings {
+  revision: number;
+  values: Record<string, unknown>;
+}
+
+export interface UpdateSettingsOptions {
+  /** Revision the change was made against; a save based on an older one is rejected */
+  revision?: number;
+  reason?: string;
+}
+
+export interface SettingsServiceOptions {
+  filePath?: string;
+  refreshMs?: number;
+  historyLimit?: number;
+}
+
+interface SettingsState {
+  revision: number;
+  values: Record<string, unknown>;
+  history: SettingsRevision[];
+}
+
+const TIMEZONES = ['utc', 'est', 'cst', 'mst', 'pst'];
+const LANGUAGES = ['en', 'es', 'fr', 'de', 'zh', 'ar', 'uk', 'fa'];
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export const SETTING_DEFINITIONS: SettingDefinition[] = [
+  // General
+  { key: 'system.name', category: 'general', type: 'string', label: 'System name', maxLength: 100, runtime: true },
+  { key: 'system.adminEmail', category: 'general', type: 'email', label: 'Administrator email' },
+  {
+    key: 'system.timezone',
+    category: 'general',
+    type: 'enum',
+    label: 'Default timezone',
+    values: TIMEZONES,
+    runtime: true,
+  },
+  {
+    key: 'system.language',
+    category: 'general',
+    type: 'enum',
+    label: 'Default language',
+    values: LANGUAGES,
+    runtime: true,
+  },
+  { key: 'system.description', category: 'general', type: 'string', label: 'System description', maxLength: 1000 },
+  {
+    key: 'system.maintenanceMode',
+    category: 'general',
+    type: 'boolean',
+    label: 'Maintenance mode',
+    description: 'Only administrators may use the API',
+    runtime: true,
+  },
+  { key: 'system.debugMode', category: 'general', type: 'boolean', label: 'Debug mode' },
+
+  // Security
+  {
+    key: 'security.sessionTimeoutMinutes',
+    category: 'security',
+    type: 'integer',
+    label: 'Session timeout (minutes)',
+    description: 'Idle web sessions end after this long; 0 disables the timeout',
+    min: 0,
+    max: 1440,
+    runtime: true,
+  },
+  {
+    key: 'security.password.minLength',
+    category: 'security',
+    type: 'integer',
+    label: 'Minimum password length',
+    min: 8,
+    max: 64,
+    runtime: true,
+  },
+  {
+    key: 'security.password.expiryDays',
+    category: 'security',
+    type: 'integer',
+    label: 'Password expiry (days)',
+    description: '0 means passwords never expire',
+    min: 0,
+    max: 365,
+    runtime: true,
+  },
+  {
+    key: 'security.password.requireSpecialCharacters',
+    category: 'security',
+    type: 'boolean',
+    label: 'Require special characters',
+    runtime: true,
+  },
+  {
+    key: 'security.password.requireNumbers',
+    category: 'security',
+    type: 'boolean',
+    label: 'Require numbers',
+    runtime: true,
+  },
+  {
+    key: 'security.password.requireMixedCase',
+    category: 'security',
+    type: 'boolean',
+    label: 'Require mixed case',
+    runtime: true,
+  },
+  {
+    key: 'security.adminTwoFactor',
+    category: 'security',
+    type: 'boolean',
+    label: 'Two-factor authentication for admins',
+  },
+  { key: 'security.ipRestriction', category: 'security', type: 'boolean', label: 'IP restriction' },
+  { key: 'security.dataEncryption', category: 'security', type: 'boolean', label: 'Data encryption' },
+  { key: 'security.auditLogging', category: 'security', type: 'boolean', label: 'Audit logging' },
+  { key: 'security.dataAnonymization', category: 'security', type: 'boolean', label: 'Data anonymization' },
+
+  // Notifications
+  {
+    key: 'notifications.smtp.host',
+    category: 'notifications',
+    type: 'string',
+    label: 'SMTP server',
+    maxLength: 255,
+    optional: true,
+  },
+  {
+    key: 'notifications.smtp.port',
+    category: 'notifications',
+    type: 'integer',
+    label: 'SMTP port',
+    min: 1,
+    max: 65535,
+  },
+  { key: 'notifications.smtp.secure', category: 'notifications', type: 'boolean', label: 'Implicit TLS' },
+  {
+    key: 'notifications.smtp.user',
+    category: 'notifications',
+    type: 'string',
+    label: 'SMTP username',
+    maxLength: 255,
+    optional: true,
+  },
+  { key: 'notifications.smtp.from', category: 'notifications', type: 'mailbox', label: 'Sender', maxLength: 255 },
+  {
+    key: 'notifications.alertEmails',
+    category: 'notifications',
+    type: 'email-list',
+    label: 'Alert recipients',
+    description: "Alerted on high-risk triage results, besides the patient's practitioners",
+  },
+  { key: 'notifications.highRiskAlerts', category: 'notifications', type: 'boolean', label: 'Critical patient alerts' },
+  {
+    key: 'notifications.reminderLeadHours',
+    category: 'notifications',
+    type: 'integer',
+    label: 'Appointment reminder lead time (hours)',
+    min: 1,
+    max: 168,
+  },
+
+  // Integrations
+  {
+    key: 'blockchain.enabled',
+    category: 'integrations',
+    type: 'boolean',
+    label: 'Blockchain logging',
+    description: 'Anchor FHIR resources and access events on chain',
+    runtime: true,
+  },
+  { key: 'blockchain.rpcUrl', category: 'integrations', type: 'url', label: 'Blockchain RPC endpoint', runtime: true },
+  {
+    key: 'blockchain.contractAddress',
+    category: 'integrations',
+    type: 'address',
+    label: 'LeLink contract address',
+    optional: true,
+    runtime: true,
+  },
+  {
+    key: 'blockchain.deploymentBlock',
+    category: 'integrations',
+    type: 'integer',
+    label: 'Contract deployment block',
+    description: 'Anchor lookups search for contract events from this block on',
+    min: 0,
+    runtime: true,
+  },
+  {
+    key: 'blockchain.verifyIntegrity',
+    category: 'integrations',
+    type: 'boolean',
+    label: 'Verify data integrity',
+    runtime: true,
+  },
+  {
+    key: 'ai.provider',
+    category: 'integrations',
+    type: 'enum',
+    label: 'AI provider',
+    values: ['openai-assistants', 'openai-chat', 'scripted'],
+  },
+  { key: 'ai.chatModel', category: 'integrations', type: 'string', label: 'AI model', maxLength: 100 },
+  {
+    key: 'ai.translationProvider',
+    category: 'integrations',
+    type: 'enum',
+    label: 'Translation provider',
+    description: 'Detects the patient language and translates triage conversations for clinicians',
+    values: ['openai', 'none'],
+  },
+  {
+    key: 'ai.acuityScale',
+    category: 'integrations',
+    type: 'enum',
+    label: 'Acuity scale',
+    description: 'Scale the triage findings are scored on, next to the AI risk level',
+    values: ['esi', 'manchester'],
+  },
+  { key: 'ai.triageEnabled', category: 'integrations', type: 'boolean', label: 'AI triage', runtime: true },
+  { key: 'ehr.enabled', category: 'integrations', type: 'boolean', label: 'EHR integration' },
+  {
+    key: 'ehr.type',
+    category: 'integrations',
+    type: 'enum',
+    label: 'EHR integration type',
+    values: ['fhir', 'hl7', 'epic', 'cerner'],
+  },
+  { key: 'ehr.endpoint', category: 'integrations', type: 'url', label: 'EHR API endpoint', optional: true },
+];
+
+const DEFINITIONS_BY_KEY = new Map(SETTING_DEFINITIONS.map((definition) => [definition.key, definition]));
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Check a value against its setting's schema
+ * @returns The value to store, or an error message
+ */
+export function validateSetting(definition: SettingDefinition, value: unknown): { value?: unknown; error?: string } {
+  if (definition.type === 'boolean') {
+    return typeof value === 'boolean' ? { value } : { error: 'must be true or false' };
+  }
+
+  if (definition.type === 'integer') {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      return { error: 'must be a whole number' };
+    }
+    const { min = -Infinity, max = Infinity } = definition;
+    if (value < min || value > max) {
+      return { error: `must be between ${min} and ${max}` };
+    }
+    return { value };
+  }
+
+  if (definition.type === 'email-list') {
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      return { error: 'must be a list of email addresses' };
+    }
+    const emails = Array.from(new Set(value.map((item: string) => item.trim()).filter(Boolean)));
+    const invalid = emails.filter((email) => !EMAIL_PATTERN.test(email));
+    return invalid.length > 0 ? { error: `invalid email address: ${invalid.join(', ')}` } : { value: emails };
+  }
+
+  if (typeof value !== 'string') {
+    return { error: 'must be a string' };
+  }
+  const text = value.trim();
+  if (!text) {
+    return definition.optional ? { value: '' } : { error: 'is required' };
+  }
+  if (definition.maxLength && text.length > definition.maxLength) {
+    return { error: `must be at most ${definition.maxLength} characters` };
+  }
+
+  switch (definition.type) {
+    case 'enum':
+      return definition.values?.includes(text)
+        ? { value: text }
+        : { error: `must be one of ${definition.values?.join(', ')}` };
+    case 'email':
+      return EMAIL_PATTERN.test(text) ? { value: text } : { error: 'must be an email address' };
+    case 'mailbox':
+      return EMAIL_PATTERN.test(mailAddress(text))
+        ? { value: text }
+        : { error: 'must be an address like Name <name@example.org>' };
+    case 'address':
+      return ethers.isAddress(text) ? { value: ethers.getAddress(text) } : { error: 'must be an Ethereum address' };
+    case 'url':
+      try {
+        const url = new URL(text);
+        if (url.protocol === 'http:' || url.protocol === 'https:') {
+          return { value: text };
+        }
+      } catch {
+        // Reported below
+      }
+      return { error: 'must be an http(s) URL' };
+    default:
+      return { value: text };
+  }
+}
+
+/**
+ * Settings service
+ */
+export class SettingsService {
+  private logger: Logger;
+  private store: JsonStore<SettingsState>;
+  private refreshMs: number;
+  private historyLimit: number;
+  private appliedRevision = -1;
+  private loadedAt = 0;
+
+  constructor(options: SettingsServiceOptions = {}) {
+    this.logger = new Logger();
+    this.store = jsonStore<SettingsState>('settings.json', options.filePath || process.env.SETTINGS_FILE, () => ({
+      revision: 0,
+      values: {},
+      history: [],
+    }));
+    this.refreshMs = options.refreshMs ?? parseInt(process.env.SETTINGS_REFRESH_MS || '10000', 10);
+    this.historyLimit = options.historyLimit || parseInt(process.env.SETTINGS_HISTORY_LIMIT || '500', 10);
+  }
+
+  /**
+   * Apply saved settings if they changed since they were last loaded
+   * @param force - Read the store even if it was read within SETTINGS_REFRESH_MS
+   */
+  public async refresh(force = false): Promise<void> {
+    if (!force && Date.now() - this.loadedAt < this.refreshMs) {
+      return;
+    }
+
+    try {
+      const state = await this.store.read();
+      this.loadedAt = Date.now();
+      if (state.revision !== this.appliedRevision) {
+        this.apply(state);
+      }
+    } catch (error) {
+      // Keep the settings in effect rather than failing the request
+      this.logger.error('Failed to load settings', { error: error as Error });
+    }
+  }
+
+  /**
+   * Every setting with its effective value
+   */
+  public async list(): Promise<SettingsSnapshot> {
+    await this.refresh(true);
+    const state = await this.store.read();
+    const [latest] = state.history.slice(-1);
+
+    return {
+      revision: state.revision,
+      updatedAt: latest?.changedAt,
+      updatedBy: latest?.changedBy,
+      settings: SETTING_DEFINITIONS.map((definition) => ({
+        ...definition,
+        value: get(definition.key),
+        defaultValue: getDefault(definition.key),
+        overridden: definition.key in state.values,
+      })),
+    };
+  }
+
+  /**
+   * Effective values of the settings any signed-in user may read
+   */
+  public async getRuntime(): Promise<RuntimeSettings> {
+    await this.refresh();
+
+    return {
+      revision: this.appliedRevision,
+      values: Object.fromEntries(
+        SETTING_DEFINITIONS.filter((definition) => definition.runtime).map((definition) => [
+          definition.key,
+          get(definition.key),
+        ])
+      ),
+    };
+  }
+
+  /**
+   * Save settings and apply them
+   * @param values - New values by key; null removes a saved value so the environment's applies again
+   * @returns The recorded revision, or null if nothing changed
+   * @throws ValidationError for unknown keys or invalid values
+   * @throws ConflictError when the settings changed since `options.revision`
+   */
+  public async update(
+    values: Record<string, unknown>,
+    actor: SettingsActor,
+    options: UpdateSettingsOptions = {}
+  ): Promise<SettingsRevision | null> {
+    const normalized = this.validate(values);
+
+    const revision = await this.store.update((state) => {
+      if (options.revision !== undefined && options.revision !== state.revision) {
+        throw new ConflictError('Settings were changed by someone else; reload and try again', {
+          revision: state.revision,
+        });
+      }
+
+      const changes: SettingChange[] = [];
+      Object.entries(normalized).forEach(([key, value]) => {
+        const previous = key in state.values ? state.values[key] : getDefault(key);
+        if (value === null) {
+          if (key in state.values) {
+            delete state.values[key];
+            changes.push({ key, previous, value: getDefault(key), reset: true });
+          }
+        } else if (!sameValue(previous, value)) {
+          state.values[key] = value;
+          changes.push({ key, previous, value });
+        }
+      });
+
+      if (changes.length === 0) {
+        return null;
+      }
+
+      const entry: SettingsRevision = {
+        revision: state.revision + 1,
+        changedAt: new Date().toISOString(),
+        changedBy: actor,
+        ...(options.reason && { reason: options.reason }),
+        changes,
+      };
+      state.revision = entry.revision;
+      state.history = [...state.history, entry].slice(-this.historyLimit);
+      return entry;
+    });
+
+    if (revision) {
+      await this.refresh(true);
+      this.logger.info('Settings changed', {
+        revision: revision.revision,
+        changedBy: actor.userId,
+        keys: revision.changes.map((change) => change.key),
+      });
+    }
+    return revision;
+  }
+
+  /**
+   * Past changes, newest first
+   * @param key - Only revisions that changed this setting
+   */
+  public async history(options: { key?: string; limit?: number } = {}): Promise<SettingsRevision[]> {
+    const { history } = await this.store.read();
+
+    return history
+      .filter((entry) => !options.key || entry.changes.some((change) => change.key === options.key))
+      .reverse()
+      .slice(0, options.limit || 50);
+  }
+
+  private validate(values: Record<string, unknown>): Record<string, unknown> {
+    if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+      throw new ValidationError('Settings must be an object of values by key');
+    }
+
+    const errors: Record<string, string> = {};
+    const normalized: Record<string, unknown> = {};
+
+    Object.entries(values).forEach(([key, value]) => {
+      const definition = DEFINITIONS_BY_KEY.get(key);
+      if (!definition) {
+        errors[key] = 'is not a setting';
+      } else if (value === null) {
+        normalized[key] = null;
+      } else {
+        const result = validateSetting(definition, value);
+        if (result.error) {
+          errors[key] = `${definition.label} ${result.error}`;
+        } else {
+          normalized[key] = result.value;
+        }
+      }
+    });
+
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Invalid settings', { errors });
+    }
+    return normalized;
+  }
+
+  private apply(state: SettingsState): void {
+    // Values saved for settings that no longer exist are ignored
+    applyOverrides(Object.fromEntries(Object.entries(state.values).filter(([key]) => DEFINITIONS_BY_KEY.has(key))));
+    blockchainService.configure({ ...blockchainConfig });
+    this.appliedRevision = state.revision;
+  }
+}
+
+// Export singleton instance
+export const settingsService = new SettingsService();
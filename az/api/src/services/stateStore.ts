@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Service state shared by every instance of the Functions app
+ * @module services/stateStore
+ *
+ * Settings, notifications and conversation thread owners are JSON documents kept
+ * as state blobs in the FHIR storage container, so a change made on one instance
+ * applies on all of them. Writes are conditional on the ETag that was read and are
+ * retried on the new state when another instance wrote in between. A file path
+ * (e.g. SETTINGS_FILE) keeps the state on local disk instead, for tests and
+ * single-instance setups.
+ */
+
+import { ConflictError } from '../utils/errors.js';
+import { JsonFileStore, JsonStore } from '../utils/jsonFileStore.js';
+import { fhirStorageService } from './fhirStorage.js';
+
+/** Attempts at a read-modify-write that keeps losing races to other instances */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+export class JsonBlobStore<T> implements JsonStore<T> {
+  private name: string;
+  private empty: () => T;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(name: string, empty: () => T) {
+    this.name = name;
+    this.empty = empty;
+  }
+
+  public async read(): Promise<T> {
+    return (await this.readWithETag()).state;
+  }
+
+  /**
+   * Read-modify-write the blob. The change may be applied to a newer state and run
+   * again, so mutate must only depend on the state it is given.
+   */
+  public async update<R = void>(mutate: (state: T) => R): Promise<R> {
+    const run = this.lock.then(async () => {
+      for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+        const { state, etag } = await this.readWithETag();
+        const result = mutate(state);
+        if (await fhirStorageService.writeStateBlob(this.name, JSON.stringify(state, null, 2), etag)) {
+          return result;
+        }
+      }
+      throw new ConflictError(`${this.name} is being changed by other requests; try again`);
+    });
+
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readWithETag(): Promise<{ state: T; etag: string | null }> {
+    const stored = await fhirStorageService.readStateBlob(this.name);
+    return stored ? { state: JSON.parse(stored.content) as T, etag: stored.etag } : { state: this.empty(), etag: null };
+  }
+}
+
+/**
+ * Store for a piece of service state: a state blob, or a local file if a path is given
+ * @param name - State blob name, e.g. "settings.json"
+ */
+export function jsonStore<T>(name: string, filePath: string | undefined, empty: () => T): JsonStore<T> {
+  return filePath ? new JsonFileStore<T>(filePath, empty) : new JsonBlobStore<T>(name, empty);
+}
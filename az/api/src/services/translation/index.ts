@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Translator selection
+ * @module services/translation
+ *
+ * TRANSLATION_PROVIDER (or the ai.translationProvider setting) picks the translator
+ * used by multilingual triage:
+ * - openai: language detection and translation with Chat Completions (OPENAI_CHAT_MODEL
+ *   or the ai.chatModel setting)
+ * - none: no detection or translation; triage runs in the default language
+ *
+ * Tests pass their own Translator to the triage assistant instead.
+ */
+
+import { openaiService } from '../openai.js';
+import { ValidationError } from '../../utils/errors.js';
+import { aiConfig } from '../../utils/config.js';
+import { OpenAITranslator } from './openai.js';
+import { NoTranslator, type Translator, type TranslatorName } from './translator.js';
+
+export * from './translator.js';
+export { OpenAITranslator } from './openai.js';
+
+const TRANSLATOR_NAMES: TranslatorName[] = ['openai', 'none'];
+
+/**
+ * Create the translator named by `name`, or by TRANSLATION_PROVIDER
+ */
+export function createTranslator(name: string = aiConfig.translationProvider): Translator {
+  switch (name) {
+    case 'openai':
+      return new OpenAITranslator(openaiService, { model: aiConfig.chatModel });
+    case 'none':
+      return new NoTranslator();
+    default:
+      throw new ValidationError(`Unknown translation provider: ${name}`, {
+        provider: name,
+        supported: TRANSLATOR_NAMES,
+      });
+  }
+}
+
+let current: { key: string; translator: Translator } | undefined;
+
+/**
+ * Translator for the configured AI settings, recreated when they change
+ */
+export function getTranslator(): Translator {
+  const key = `${aiConfig.translationProvider}:${aiConfig.chatModel}`;
+  if (current?.key !== key) {
+    current = { key, translator: createTranslator() };
+  }
+  return current.translator;
+}
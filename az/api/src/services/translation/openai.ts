@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Translator backed by OpenAI Chat Completions
+ * @module services/translation/openai
+ */
+
+import type { OpenAIService } from '../openai.js';
+import { languageName, normalizeLanguage, type Translator } from './translator.js';
+
+export interface OpenAITranslatorOptions {
+  model?: string;
+}
+
+export class OpenAITranslator implements Translator {
+  public readonly name = 'openai' as const;
+  private openai: OpenAIService;
+  private model: string;
+
+  constructor(openai: OpenAIService, options: OpenAITranslatorOptions = {}) {
+    this.openai = openai;
+    this.model = options.model || process.env.OPENAI_CHAT_MODEL || 'gpt-4o';
+  }
+
+  public async detectLanguage(text: string): Promise<string | undefined> {
+    const answer = await this.complete(
+      'Identify the language of the user message. Answer with its ISO 639-1 code only, or "und" if you cannot tell.',
+      text
+    );
+    return normalizeLanguage(answer);
+  }
+
+  public async translate(text: string, targetLanguage: string, sourceLanguage?: string): Promise<string | null> {
+    const from = sourceLanguage ? ` from ${languageName(sourceLanguage)}` : '';
+    const answer = await this.complete(
+      `Translate the user message${from} to ${languageName(targetLanguage)}. It is part of a medical triage ` +
+        'conversation: keep symptoms, durations, doses and numbers exact. Answer with the translation only.',
+      text
+    );
+    return answer || null;
+  }
+
+  private async complete(instructions: string, text: string): Promise<string> {
+    const message = await this.openai.createChatCompletion({
+      model: this.model,
+      messages: [
+        { role: 'system', content: instructions },
+        { role: 'user', content: text },
+      ],
+    });
+    return (message.content || '').trim();
+  }
+}
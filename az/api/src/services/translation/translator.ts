@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Translator interface for multilingual triage
+ * @module services/translation/translator
+ *
+ * Patients write in their own language; clinicians read the record in English.
+ * A translator detects the language of a text and translates between languages.
+ * Languages are ISO 639-1 codes (the primary subtag of BCP-47 tags).
+ */
+
+export type TranslatorName = 'openai' | 'none';
+
+export interface Translator {
+  readonly name: string;
+
+  /**
+   * @returns The language of the text, or undefined if it cannot tell
+   */
+  detectLanguage(text: string): Promise<string | undefined>;
+
+  /**
+   * @returns The translation, or null if the translator cannot translate
+   */
+  translate(text: string, targetLanguage: string, sourceLanguage?: string): Promise<string | null>;
+}
+
+/** Language of the clinical record */
+export const CLINICIAN_LANGUAGE = 'en';
+
+/** Core extension giving the language of an element */
+export const LANGUAGE_EXTENSION_URL = 'http://hl7.org/fhir/StructureDefinition/language';
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  ar: 'Arabic',
+  de: 'German',
+  es: 'Spanish',
+  fa: 'Persian',
+  fr: 'French',
+  ku: 'Kurdish',
+  ps: 'Pashto',
+  ru: 'Russian',
+  so: 'Somali',
+  ti: 'Tigrinya',
+  tr: 'Turkish',
+  uk: 'Ukrainian',
+  ur: 'Urdu',
+  zh: 'Chinese',
+};
+
+/**
+ * Primary language subtag of a BCP-47 tag ("fa-AF" -> "fa"), or undefined if it is not one
+ */
+export function normalizeLanguage(tag?: string | null): string | undefined {
+  const primary = (tag || '').trim().toLowerCase().split(/[-_]/)[0];
+  return /^[a-z]{2,3}$/.test(primary) && primary !== 'und' ? primary : undefined;
+}
+
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] || code;
+}
+
+/**
+ * Language a Patient resource prefers to communicate in: the preferred
+ * communication entry, else the first one
+ */
+export function patientPreferredLanguage(patient?: { communication?: any[]; [key: string]: any } | null): string | undefined {
+  const entries = patient?.communication || [];
+  const entry = entries.find((communication) => communication.preferred) || entries[0];
+  const language = entry?.language;
+  return (
+    (language?.coding || []).map((coding: any) => normalizeLanguage(coding.code)).find(Boolean) ||
+    normalizeLanguage(language?.text)
+  );
+}
+
+/**
+ * Annotations with a text in the patient's language and its translation for clinicians
+ */
+export function translatedNotes(original: string, originalLanguage: string, translation: string, time: string): any[] {
+  return [
+    { text: original, time, extension: [{ url: LANGUAGE_EXTENSION_URL, valueCode: originalLanguage }] },
+    {
+      text: translation,
+      time,
+      authorString: `Machine translation from ${languageName(originalLanguage)}`,
+      extension: [{ url: LANGUAGE_EXTENSION_URL, valueCode: CLINICIAN_LANGUAGE }],
+    },
+  ];
+}
+
+/**
+ * Translator for deployments without a translation service: nothing is
+ * detected or translated, so triage runs in the default language
+ */
+export class NoTranslator implements Translator {
+  public readonly name = 'none' as const;
+
+  public async detectLanguage(): Promise<string | undefined> {
+    return undefined;
+  }
+
+  public async translate(): Promise<string | null> {
+    return null;
+  }
+}
@@ -0,0 +1,430 @@
+/**
+ * @fileoverview Practitioner review of AI triage assessments
+ * @module services/triageReview
+ *
+ * The triage assistant stores its RiskAssessments as preliminary. Practitioners
+ * work through the ones of patients they may write to, highest risk and oldest
+ * first, and decide on each:
+ * - accept: status final, with the practitioner as performer
+ * - amend: the practitioner's risk level, condition or mitigation replace the
+ *   assistant's; status amended, with the practitioner as performer
+ * - reject: status entered-in-error, with the reason as a note
+ *
+ * Every decision is recorded as a Provenance on the new version, and both are
+ * queued for anchoring, so the reviewed hash replaces the AI one on-chain
+ * (updateRecord). The assessment is written with If-Match on the version that
+ * was reviewed; of two concurrent reviews only the first is applied.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger.js';
+import { ConflictError, ValidationError } from '../utils/errors.js';
+import { fhirStorageService, FHIRResource, versionETag } from './fhirStorage.js';
+import { fhirValidationService } from './fhirValidation.js';
+import { anchorQueueService } from './anchorQueue.js';
+import { accessPolicyService } from './accessPolicy.js';
+import type { Principal } from './auth.js';
+import { assessmentAcuity, type AcuityAssessment } from './acuity.js';
+
+export type ReviewDecision = 'accept' | 'amend' | 'reject';
+
+export const REVIEW_DECISIONS: readonly ReviewDecision[] = ['accept', 'amend', 'reject'];
+
+export const REVIEW_RISK_LEVELS = ['low', 'moderate', 'high'] as const;
+
+export interface ReviewAmendment {
+  riskLevel?: (typeof REVIEW_RISK_LEVELS)[number];
+  condition?: string;
+  mitigation?: string;
+}
+
+export interface ReviewRequest {
+  decision: ReviewDecision;
+  /** Comment added to the assessment; required to reject */
+  note?: string;
+  /** Changes to make; required to amend */
+  amendment?: ReviewAmendment;
+  /** Version ETag that was reviewed; defaults to the current one */
+  ifMatch?: string;
+}
+
+export interface ReviewQueueItem {
+  patientId: string;
+  patientName?: string;
+  assessmentId: string;
+  /** ETag of the version awaiting review, to send back with the decision */
+  etag: string;
+  riskLevel?: string;
+  condition?: string;
+  rationale?: string;
+  mitigation?: string;
+  /** Deterministic acuity score, and whether the AI risk level disagrees with it */
+  acuity?: Pick<AcuityAssessment, 'scale' | 'level' | 'display' | 'disagreement'>;
+  /** Triage session (Encounter) the assessment was made in */
+  sessionId?: string;
+  assessedAt: string;
+  assessment: FHIRResource;
+}
+
+export interface ReviewResult {
+  assessment: FHIRResource;
+  provenance: FHIRResource;
+  /** Anchoring job of the reviewed version, when blockchain logging is enabled */
+  anchorJobId?: string;
+}
+
+/**
+ * Extension on the Provenance recording the review decision
+ */
+export const TRIAGE_REVIEW_EXTENSION_URL = 'http://lelink.health/fhir/StructureDefinition/triage-review-decision';
+
+const RISK_PROBABILITY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/risk-probability';
+
+const RISK_DISPLAY: Record<string, string> = {
+  low: 'Low likelihood',
+  moderate: 'Moderate likelihood',
+  high: 'High likelihood',
+};
+
+// Queue order: higher risk first; unknown levels last
+const RISK_RANK: Record<string, number> = { certain: 0, high: 1, moderate: 2, medium: 2, low: 3, negligible: 4 };
+
+const DECISION_STATUS: Record<ReviewDecision, string> = {
+  accept: 'final',
+  amend: 'amended',
+  reject: 'entered-in-error',
+};
+
+const DECISION_LABEL: Record<ReviewDecision, string> = {
+  accept: 'Accepted',
+  amend: 'Amended',
+  reject: 'Rejected',
+};
+
+/** Assessments of the caller's patients loaded per queue request */
+const MAX_PENDING = 1000;
+const MAX_NOTE_LENGTH = 2000;
+
+export type PractitionerReference = { reference: string; display?: string };
+
+/**
+ * Check a decision before anything is loaded
+ * @throws ValidationError
+ */
+export function validateReviewRequest(request: ReviewRequest): void {
+  if (!REVIEW_DECISIONS.includes(request.decision)) {
+    throw new ValidationError(`decision must be one of: ${REVIEW_DECISIONS.join(', ')}`);
+  }
+  if (request.note !== undefined && (typeof request.note !== 'string' || request.note.length > MAX_NOTE_LENGTH)) {
+    throw new ValidationError(`note must be text of at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  if (request.decision === 'reject' && !request.note?.trim()) {
+    throw new ValidationError('A reason is required to reject an assessment');
+  }
+
+  if (request.decision === 'amend') {
+    const { riskLevel, condition, mitigation } = request.amendment || {};
+    if (!riskLevel && !condition?.trim() && !mitigation?.trim()) {
+      throw new ValidationError('An amendment needs a risk level, condition or mitigation');
+    }
+    if (riskLevel && !REVIEW_RISK_LEVELS.includes(riskLevel)) {
+      throw new ValidationError(`riskLevel must be one of: ${REVIEW_RISK_LEVELS.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Reference to the reviewer's Practitioner resource; onboarding stores it under a
+ * generated ID, so the user ID only stands in when the reviewer has no profile
+ */
+export function practitionerReference(reviewer: Principal, profile?: FHIRResource | null): PractitionerReference {
+  const display = reviewer.name || reviewer.email;
+  return { reference: `Practitioner/${profile?.id || reviewer.userId}`, ...(display && { display }) };
+}
+
+/**
+ * The assessment as it reads after the decision; `current` is left unchanged
+ */
+export function applyReview(
+  current: FHIRResource,
+  practitioner: PractitionerReference,
+  request: ReviewRequest,
+  now = new Date().toISOString()
+): FHIRResource {
+  const assessment: FHIRResource = { ...current, status: DECISION_STATUS[request.decision] };
+
+  if (request.decision !== 'reject') {
+    assessment.performer = practitioner;
+  }
+
+  if (request.decision === 'amend') {
+    // The practitioner's prediction and mitigation replace the assistant's
+    const amendment = request.amendment || {};
+    const [first, ...rest] = current.prediction || [];
+    const prediction = { ...first };
+    if (amendment.riskLevel) {
+      prediction.qualitativeRisk = {
+        coding: [
+          { system: RISK_PROBABILITY_SYSTEM, code: amendment.riskLevel, display: RISK_DISPLAY[amendment.riskLevel] },
+        ],
+      };
+    }
+    if (amendment.condition?.trim()) {
+      prediction.outcome = { text: amendment.condition.trim() };
+    }
+    assessment.prediction = [prediction, ...rest];
+    if (amendment.mitigation?.trim()) {
+      assessment.mitigation = amendment.mitigation.trim();
+    }
+  }
+
+  if (request.note?.trim()) {
+    assessment.note = [
+      ...(current.note || []),
+      { authorReference: practitioner, time: now, text: `${DECISION_LABEL[request.decision]}: ${request.note.trim()}` },
+    ];
+  }
+
+  return assessment;
+}
+
+/**
+ * Provenance of a review: the practitioner verified `previousVersion` into `versionId`
+ */
+export function reviewProvenance(
+  patientId: string,
+  assessmentId: string,
+  previousVersion: string,
+  versionId: string,
+  practitioner: PractitionerReference,
+  decision: ReviewDecision,
+  recorded = new Date().toISOString()
+): FHIRResource {
+  return {
+    resourceType: 'Provenance',
+    id: uuidv4(),
+    target: [{ reference: `RiskAssessment/${assessmentId}/_history/${versionId}` }],
+    recorded,
+    activity: {
+      coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-DataOperation', code: 'UPDATE', display: 'revise' }],
+      text: `${DECISION_LABEL[decision]} AI triage assessment`,
+    },
+    agent: [
+      {
+        type: {
+          coding: [
+            {
+              system: 'http://terminology.hl7.org/CodeSystem/provenance-participant-type',
+              code: 'verifier',
+              display: 'Verifier',
+            },
+          ],
+        },
+        who: practitioner,
+      },
+    ],
+    entity: [{ role: 'revision', what: { reference: `RiskAssessment/${assessmentId}/_history/${previousVersion}` } }],
+    extension: [{ url: TRIAGE_REVIEW_EXTENSION_URL, valueCode: decision }],
+    identifier: [{ system: 'http://lelink.local/patient-id', value: patientId }],
+    meta: { source: 'LeLink-Triage-Review' },
+  };
+}
+
+/**
+ * Highest risk level among the assessment's predictions
+ */
+export function assessmentRiskLevel(assessment: FHIRResource): string | undefined {
+  const levels = (assessment.prediction || [])
+    .map((prediction: any) => prediction.qualitativeRisk?.coding?.[0]?.code as string | undefined)
+    .filter(Boolean) as string[];
+  return levels.sort((a, b) => (RISK_RANK[a] ?? 9) - (RISK_RANK[b] ?? 9))[0];
+}
+
+/**
+ * Queue order: higher risk first, then AI/acuity disagreements, then the longest waiting
+ */
+export function compareQueueItems(a: ReviewQueueItem, b: ReviewQueueItem): number {
+  return (
+    (RISK_RANK[a.riskLevel || ''] ?? 9) - (RISK_RANK[b.riskLevel || ''] ?? 9) ||
+    Number(!!b.acuity?.disagreement) - Number(!!a.acuity?.disagreement) ||
+    a.assessedAt.localeCompare(b.assessedAt)
+  );
+}
+
+/**
+ * Triage review service
+ */
+export class TriageReviewService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  /**
+   * Preliminary assessments the principal may review, highest risk and oldest first.
+   * Each index page is narrowed to the patients the principal may write to before it
+   * counts towards the limit; `truncated` says the limit was reached before the end.
+   */
+  public async listPending(
+    principal: Principal,
+    limit = 50
+  ): Promise<{ items: ReviewQueueItem[]; total: number; truncated: boolean }> {
+    const entries = [];
+    const access = new Map<string, boolean>();
+    let cursor: string | undefined;
+    do {
+      const page = await fhirStorageService.queryIndex(
+        { resourceType: 'RiskAssessment', status: 'preliminary' },
+        { limit: 100, cursor }
+      );
+      const unseen = [...new Set(page.items.map((entry) => entry.patientId))].filter((id) => !access.has(id));
+      const allowed = new Set(await accessPolicyService.filterPatients(principal, unseen, 'write'));
+      unseen.forEach((id) => access.set(id, allowed.has(id)));
+
+      entries.push(...page.items.filter((entry) => access.get(entry.patientId)));
+      cursor = page.nextCursor;
+    } while (cursor && entries.length < MAX_PENDING);
+
+    const truncated = !!cursor;
+    if (truncated) {
+      this.logger.warn('Review queue truncated', { userId: principal.userId, loaded: entries.length });
+    }
+
+    const names = new Map<string, string | undefined>();
+    const items: ReviewQueueItem[] = [];
+    for (const entry of entries) {
+      const assessment = await fhirStorageService.getResource(entry.patientId, 'RiskAssessment', entry.resourceId);
+      // The index can lag behind a review that just happened
+      if (!assessment || assessment.status !== 'preliminary') continue;
+
+      if (!names.has(entry.patientId)) {
+        names.set(entry.patientId, await this.patientName(entry.patientId));
+      }
+      items.push(this.toQueueItem(entry.patientId, names.get(entry.patientId), assessment));
+    }
+    items.sort(compareQueueItems);
+
+    return { items: items.slice(0, limit), total: items.length, truncated };
+  }
+
+  /**
+   * Apply a practitioner's decision to a preliminary assessment
+   * @returns The result, or null if the assessment does not exist
+   * @throws ValidationError for an incomplete request, ConflictError if it was already reviewed or changed
+   */
+  public async review(
+    patientId: string,
+    assessmentId: string,
+    reviewer: Principal,
+    request: ReviewRequest
+  ): Promise<ReviewResult | null> {
+    validateReviewRequest(request);
+
+    const current = await fhirStorageService.getResource(patientId, 'RiskAssessment', assessmentId);
+    if (!current) {
+      return null;
+    }
+    if (current.status !== 'preliminary') {
+      throw new ConflictError('This assessment has already been reviewed', { status: current.status });
+    }
+
+    const now = new Date().toISOString();
+    const previousVersion = current.meta?.versionId || '1';
+    const practitioner = practitionerReference(
+      reviewer,
+      await fhirStorageService.findUserProfile(reviewer.userId, 'Practitioner', reviewer.email)
+    );
+    const assessment = applyReview(current, practitioner, request, now);
+    fhirValidationService.assertValid(assessment);
+
+    const stored = await fhirStorageService.storeResource(assessment, {
+      ifMatch: request.ifMatch || versionETag(previousVersion),
+    });
+    if (!stored.success) {
+      if (stored.preconditionFailed) {
+        throw new ConflictError('The assessment changed since it was reviewed; reload it and review again', {
+          etag: stored.etag,
+        });
+      }
+      throw new Error(`Failed to store reviewed assessment: ${stored.error || 'unknown error'}`);
+    }
+
+    const provenance = reviewProvenance(
+      patientId,
+      assessmentId,
+      previousVersion,
+      stored.versionId!,
+      practitioner,
+      request.decision,
+      now
+    );
+    const provenanceResult = await fhirStorageService.storeResource(provenance);
+    if (!provenanceResult.success) {
+      // The review itself is stored; only its Provenance is missing
+      this.logger.error('Failed to store review Provenance', {
+        patientId,
+        assessmentId,
+        error: new Error(provenanceResult.error || 'unknown error'),
+      });
+    }
+
+    let anchorJobId: string | undefined;
+    try {
+      const job = await anchorQueueService.enqueue([assessment, provenance], patientId);
+      anchorJobId = job?.jobId;
+    } catch (error) {
+      this.logger.error('Failed to queue reviewed assessment for anchoring', {
+        error: error as Error,
+        patientId,
+        assessmentId,
+      });
+    }
+
+    this.logger.info('Triage assessment reviewed', {
+      patientId,
+      assessmentId,
+      decision: request.decision,
+      reviewerId: reviewer.userId,
+      versionId: stored.versionId,
+      anchorJobId,
+    });
+
+    return { assessment, provenance, ...(anchorJobId && { anchorJobId }) };
+  }
+
+  private toQueueItem(patientId: string, patientName: string | undefined, assessment: FHIRResource): ReviewQueueItem {
+    const first = assessment.prediction?.[0];
+    const encounter: string | undefined = assessment.encounter?.reference;
+    const acuity = assessmentAcuity(assessment);
+
+    return {
+      patientId,
+      ...(patientName && { patientName }),
+      assessmentId: assessment.id,
+      etag: versionETag(assessment.meta?.versionId || '1'),
+      riskLevel: assessmentRiskLevel(assessment),
+      condition: first?.outcome?.text,
+      rationale: first?.rationale,
+      mitigation: assessment.mitigation,
+      ...(acuity && { acuity }),
+      ...(encounter?.startsWith('Encounter/') && { sessionId: encounter.slice('Encounter/'.length) }),
+      assessedAt: assessment.occurrenceDateTime || assessment.meta?.lastUpdated || '',
+      assessment,
+    };
+  }
+
+  private async patientName(patientId: string): Promise<string | undefined> {
+    try {
+      const patient = await fhirStorageService.findUserProfile(patientId, 'Patient');
+      const name = patient?.name?.[0];
+      return name?.text || [...(name?.given || []), name?.family].filter(Boolean).join(' ') || undefined;
+    } catch (error) {
+      this.logger.warn('Could not load patient name for the review queue', { error: error as Error, patientId });
+      return undefined;
+    }
+  }
+}
+
+// Export singleton instance
+export const triageReviewService = new TriageReviewService();
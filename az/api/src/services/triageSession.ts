@@ -0,0 +1,592 @@
+/**
+ * @fileoverview Triage session history
+ * @module services/triageSession
+ *
+ * Persists each triage conversation so patients and practitioners can reopen it
+ * later. A session is stored as a FHIR Encounter/Communication pair in the
+ * patient's compartment, both with the session ID:
+ * - Encounter: thread ID, status, period, first message, assessed risk and any
+ *   red flags, which mark the session for practitioner review
+ * - Communication: the transcript (one payload per message or tool call) and
+ *   references to the resources generated during the session
+ *
+ * The resources generated during a session reference its Encounter. Like them,
+ * the Encounter is queued for blockchain anchoring, whenever a turn changes it:
+ * when it opens, when risk or red flags are recorded and when it is finished.
+ *
+ * Conversation threads are bound to the user they were created for, so a thread
+ * ID sent by another user can't continue the conversation or read its context.
+ * The bindings are shared by every instance (see services/stateStore).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger.js';
+import type { JsonStore } from '../utils/jsonFileStore.js';
+import { fhirStorageService, FHIRResource } from './fhirStorage.js';
+import { anchorQueueService } from './anchorQueue.js';
+import { blockchainService } from './blockchain.js';
+import { jsonStore } from './stateStore.js';
+import type { RedFlagMatch } from './redFlags.js';
+import type { AcuityAssessment } from './acuity.js';
+
+export type TriageSessionStatus = 'in-progress' | 'finished';
+
+export interface TriageSessionMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  /** Language of the content, when it is not English */
+  language?: string;
+  /** English translation of the content, for clinicians */
+  translation?: string;
+}
+
+export interface TriageSessionToolCall {
+  name: string;
+  arguments: any;
+  timestamp: string;
+}
+
+export interface TriageSessionSummary {
+  sessionId: string;
+  patientId: string;
+  threadId: string;
+  status: TriageSessionStatus;
+  startedAt: string;
+  updatedAt: string;
+  /** Opening message of the conversation */
+  preview?: string;
+  risk?: {
+    level?: string;
+    condition?: string;
+  };
+  /**
+   * Set when red-flag screening fired or the AI risk level disagrees with the
+   * acuity score; the session needs practitioner review
+   */
+  flaggedForReview: boolean;
+  redFlags?: Array<Pick<RedFlagMatch, 'ruleId' | 'condition' | 'source'>>;
+  /** Latest acuity score of the session */
+  acuity?: Pick<AcuityAssessment, 'scale' | 'level' | 'display' | 'disagreement'>;
+}
+
+export interface TriageSession extends TriageSessionSummary {
+  /** Language the patient was answered in */
+  language?: string;
+  messages: TriageSessionMessage[];
+  toolCalls: TriageSessionToolCall[];
+  /** Resources generated during the session ("Type/id") */
+  resources: string[];
+}
+
+export interface TriageTurn {
+  sessionId: string;
+  patientId: string;
+  threadId: string;
+  message: string;
+  reply: string;
+  toolCalls: Array<{ name: string; arguments: any }>;
+  completionStatus: {
+    isComplete: boolean;
+    risk?: { level?: string; condition?: string } | null;
+  };
+  resources: FHIRResource[];
+  redFlags?: RedFlagMatch[];
+  acuity?: AcuityAssessment;
+  /** Language the patient was answered in */
+  language?: string;
+  /** English translations of the message and the reply, when the language is another */
+  translation?: {
+    message?: string;
+    reply?: string;
+  };
+}
+
+/**
+ * Identifier systems tagging the Encounter of a triage session
+ */
+export const TRIAGE_SESSION_SYSTEM = 'http://lelink.local/triage-session';
+export const TRIAGE_THREAD_SYSTEM = 'http://lelink.local/triage-thread';
+
+/**
+ * Extension recording the risk assessed in a triage session
+ */
+export const TRIAGE_RISK_EXTENSION_URL = 'http://lelink.health/fhir/StructureDefinition/triage-risk';
+
+/**
+ * Extension recording who sent a transcript entry (user, assistant or tool) and its tool name
+ */
+export const TRIAGE_MESSAGE_EXTENSION_URL = 'http://lelink.health/fhir/StructureDefinition/triage-message';
+
+/**
+ * Extension recording a red-flag rule that fired in a triage session (one per rule)
+ */
+export const TRIAGE_RED_FLAG_EXTENSION_URL = 'http://lelink.health/fhir/StructureDefinition/triage-red-flag';
+
+/**
+ * Extension recording the latest acuity score of a triage session
+ */
+export const TRIAGE_ACUITY_EXTENSION_URL = 'http://lelink.health/fhir/StructureDefinition/triage-acuity';
+
+const PREVIEW_LENGTH = 200;
+
+interface ThreadOwnerState {
+  /** User ID by conversation thread ID */
+  owners: Record<string, string>;
+}
+
+export interface TriageSessionServiceOptions {
+  /** Local file binding conversation threads to their users, instead of the shared state blob */
+  threadsFile?: string;
+}
+
+// Risk levels mapped onto Encounter.priority (v3 ActPriority)
+const RISK_PRIORITY: Record<string, { code: string; display: string }> = {
+  high: { code: 'EM', display: 'emergency' },
+  medium: { code: 'UR', display: 'urgent' },
+  moderate: { code: 'UR', display: 'urgent' },
+  low: { code: 'R', display: 'routine' },
+};
+
+/**
+ * Triage session history service
+ */
+export class TriageSessionService {
+  private logger: Logger;
+  private threads: JsonStore<ThreadOwnerState>;
+
+  constructor(options: TriageSessionServiceOptions = {}) {
+    this.logger = new Logger();
+    this.threads = jsonStore<ThreadOwnerState>(
+      'triage-threads.json',
+      options.threadsFile || process.env.TRIAGE_THREADS_FILE,
+      () => ({ owners: {} })
+    );
+  }
+
+  /**
+   * Record the user a new conversation thread was created for
+   */
+  public async bindThread(threadId: string, userId: string): Promise<void> {
+    await this.threads.update((state) => {
+      state.owners[threadId] = userId;
+    });
+  }
+
+  /**
+   * Whether a conversation thread belongs to the user. A thread from before threads
+   * were bound counts as theirs if one of their sessions recorded it, and is bound then.
+   */
+  public async ownsThread(threadId: string, userId: string): Promise<boolean> {
+    const owner = (await this.threads.read()).owners[threadId];
+    if (owner) {
+      return owner === userId;
+    }
+
+    const encounters = await this.listSessionEncounters(userId);
+    if (!encounters.some((encounter) => this.identifier(encounter, TRIAGE_THREAD_SYSTEM) === threadId)) {
+      return false;
+    }
+    return this.threads.update((state) => {
+      state.owners[threadId] = state.owners[threadId] || userId;
+      return state.owners[threadId] === userId;
+    });
+  }
+
+  /**
+   * Work out which session a message belongs to: the one the client named, else
+   * the one recorded for its thread, else a new one
+   */
+  public async resolveSessionId(patientId: string, threadId?: string, sessionId?: string): Promise<string> {
+    if (sessionId) {
+      return sessionId;
+    }
+
+    if (threadId) {
+      try {
+        const encounters = await this.listSessionEncounters(patientId);
+        const match = encounters.find((encounter) => this.identifier(encounter, TRIAGE_THREAD_SYSTEM) === threadId);
+        if (match) {
+          return match.id;
+        }
+      } catch (error) {
+        this.logger.warn('Could not look up triage session by thread', { error: error as Error, patientId, threadId });
+      }
+    }
+
+    return uuidv4();
+  }
+
+  /**
+   * Append a message exchange to a session, creating the session on its first turn
+   */
+  public async recordTurn(turn: TriageTurn): Promise<TriageSession> {
+    const { sessionId, patientId } = turn;
+    const now = new Date().toISOString();
+
+    const [existingEncounter, existingCommunication] = await Promise.all([
+      fhirStorageService.getResource(patientId, 'Encounter', sessionId),
+      fhirStorageService.getResource(patientId, 'Communication', sessionId),
+    ]);
+
+    const encounter = existingEncounter || this.newEncounter(sessionId, patientId, turn.message, now);
+    // Hashed before the turn's changes, which are made in place
+    const previousHash = existingEncounter && blockchainService.hashResource(existingEncounter);
+    const communication = existingCommunication || this.newCommunication(sessionId, patientId, now);
+
+    // The thread can change mid-session (e.g. a new thread after an active run conflict)
+    encounter.identifier = [
+      ...(encounter.identifier || []).filter((id: any) => id.system !== TRIAGE_THREAD_SYSTEM),
+      { system: TRIAGE_THREAD_SYSTEM, value: turn.threadId },
+    ];
+
+    const risk = turn.completionStatus.risk;
+    if (turn.completionStatus.isComplete) {
+      encounter.status = 'finished';
+      encounter.period = { ...encounter.period, end: now };
+    }
+    if (risk?.level || risk?.condition) {
+      this.setRisk(encounter, risk);
+    }
+    if (turn.redFlags?.length) {
+      this.addRedFlags(encounter, turn.redFlags, now);
+    }
+    if (turn.acuity) {
+      this.setAcuity(encounter, turn.acuity);
+    }
+
+    if (turn.language) {
+      communication.language = turn.language;
+    }
+    const translated = (translation?: string) =>
+      translation ? { language: turn.language, translation } : undefined;
+
+    communication.payload = [
+      ...(communication.payload || []),
+      this.payload('user', turn.message, now, undefined, translated(turn.translation?.message)),
+      ...turn.toolCalls.map((call) => this.payload('tool', JSON.stringify(call.arguments), now, call.name)),
+      ...(turn.reply
+        ? [this.payload('assistant', turn.reply, now, undefined, translated(turn.translation?.reply))]
+        : []),
+    ];
+    communication.status = encounter.status === 'finished' ? 'completed' : 'in-progress';
+    communication.sent = now;
+
+    const about = new Set<string>((communication.about || []).map((ref: any) => ref.reference));
+    turn.resources.forEach((resource) => about.add(`${resource.resourceType}/${resource.id}`));
+    if (about.size > 0) {
+      communication.about = [...about].map((reference) => ({ reference }));
+    }
+
+    for (const resource of [encounter, communication]) {
+      const result = await fhirStorageService.storeResource(resource);
+      if (!result.success) {
+        throw new Error(`Failed to store triage session ${resource.resourceType}: ${result.error || 'unknown error'}`);
+      }
+    }
+
+    if (blockchainService.hashResource(encounter) !== previousHash) {
+      await this.anchorEncounter(encounter, patientId);
+    }
+
+    this.logger.info('Triage session updated', {
+      sessionId,
+      patientId,
+      status: encounter.status,
+      transcriptLength: communication.payload.length,
+    });
+
+    return this.toSession(encounter, communication);
+  }
+
+  /**
+   * Load a session with its transcript
+   * @returns The session, or null if it does not exist
+   */
+  public async getSession(patientId: string, sessionId: string): Promise<TriageSession | null> {
+    const encounter = await fhirStorageService.getResource(patientId, 'Encounter', sessionId);
+    if (!encounter || !this.identifier(encounter, TRIAGE_SESSION_SYSTEM)) {
+      return null;
+    }
+
+    const communication = await fhirStorageService.getResource(patientId, 'Communication', sessionId);
+    return this.toSession(encounter, communication);
+  }
+
+  /**
+   * The patient's messages so far in a session, oldest first
+   */
+  public async getPatientMessages(patientId: string, sessionId: string): Promise<string[]> {
+    const session = await this.getSession(patientId, sessionId);
+    return (session?.messages || []).filter((message) => message.role === 'user').map((message) => message.content);
+  }
+
+  /**
+   * List a patient's sessions, most recently active first
+   */
+  public async listSessions(patientId: string, limit?: number): Promise<TriageSessionSummary[]> {
+    const encounters = await this.listSessionEncounters(patientId);
+    const sessions = encounters
+      .map((encounter) => this.toSummary(encounter))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    return limit ? sessions.slice(0, limit) : sessions;
+  }
+
+  /**
+   * Queue the session Encounter for anchoring. A failure is logged; the session is stored either way.
+   */
+  private async anchorEncounter(encounter: FHIRResource, patientId: string): Promise<void> {
+    try {
+      const job = await anchorQueueService.enqueue([encounter], patientId);
+      if (job) {
+        this.logger.info('Triage session Encounter queued for anchoring', {
+          sessionId: encounter.id,
+          status: encounter.status,
+          jobId: job.jobId,
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to queue triage session Encounter for anchoring', {
+        error: error as Error,
+        sessionId: encounter.id,
+        patientId,
+      });
+    }
+  }
+
+  /**
+   * Encounters of a patient that record triage sessions (not imported or clinical encounters)
+   */
+  private async listSessionEncounters(patientId: string): Promise<FHIRResource[]> {
+    const encounters = await fhirStorageService.listPatientResourcesByType(patientId, 'Encounter');
+    return encounters.filter((encounter) => !!this.identifier(encounter, TRIAGE_SESSION_SYSTEM));
+  }
+
+  private newEncounter(sessionId: string, patientId: string, firstMessage: string, now: string): FHIRResource {
+    return {
+      resourceType: 'Encounter',
+      id: sessionId,
+      status: 'in-progress',
+      class: {
+        system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
+        code: 'VR',
+        display: 'virtual',
+      },
+      type: [{ text: 'AI symptom triage' }],
+      subject: { reference: `Patient/${patientId}` },
+      identifier: [
+        { system: TRIAGE_SESSION_SYSTEM, value: sessionId },
+        { system: 'http://lelink.local/patient-id', value: patientId },
+      ],
+      period: { start: now },
+      reasonCode: [{ text: firstMessage.slice(0, PREVIEW_LENGTH) }],
+      meta: { source: 'LeLink-Triage-AI' },
+    };
+  }
+
+  private newCommunication(sessionId: string, patientId: string, now: string): FHIRResource {
+    return {
+      resourceType: 'Communication',
+      id: sessionId,
+      status: 'in-progress',
+      subject: { reference: `Patient/${patientId}` },
+      encounter: { reference: `Encounter/${sessionId}` },
+      identifier: [{ system: TRIAGE_SESSION_SYSTEM, value: sessionId }],
+      topic: { text: 'AI symptom triage conversation' },
+      sent: now,
+      payload: [],
+      meta: { source: 'LeLink-Triage-AI' },
+    };
+  }
+
+  /**
+   * Record the assessed risk on the Encounter, as an extension and as its priority
+   */
+  private setRisk(encounter: FHIRResource, risk: { level?: string; condition?: string }): void {
+    encounter.extension = [
+      ...(encounter.extension || []).filter((ext: any) => ext.url !== TRIAGE_RISK_EXTENSION_URL),
+      {
+        url: TRIAGE_RISK_EXTENSION_URL,
+        extension: [
+          ...(risk.level ? [{ url: 'level', valueCode: risk.level }] : []),
+          ...(risk.condition ? [{ url: 'condition', valueString: risk.condition }] : []),
+        ],
+      },
+    ];
+
+    const priority = risk.level ? RISK_PRIORITY[risk.level.toLowerCase()] : undefined;
+    if (priority) {
+      encounter.priority = {
+        coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-ActPriority', ...priority }],
+      };
+    }
+  }
+
+  /**
+   * Record red flags on the Encounter, once per rule
+   */
+  private addRedFlags(encounter: FHIRResource, redFlags: RedFlagMatch[], now: string): void {
+    const recorded = new Set(this.redFlags(encounter).map((flag) => flag.ruleId));
+    const added = redFlags
+      .filter((flag) => !recorded.has(flag.ruleId))
+      .map((flag) => ({
+        url: TRIAGE_RED_FLAG_EXTENSION_URL,
+        extension: [
+          { url: 'ruleId', valueCode: flag.ruleId },
+          { url: 'condition', valueString: flag.condition },
+          { url: 'source', valueCode: flag.source },
+          { url: 'detected', valueDateTime: now },
+        ],
+      }));
+
+    encounter.extension = [...(encounter.extension || []), ...added];
+  }
+
+  /**
+   * Record the acuity on the Encounter, replacing the previous score
+   */
+  private setAcuity(encounter: FHIRResource, acuity: AcuityAssessment): void {
+    encounter.extension = [
+      ...(encounter.extension || []).filter((ext: any) => ext.url !== TRIAGE_ACUITY_EXTENSION_URL),
+      {
+        url: TRIAGE_ACUITY_EXTENSION_URL,
+        extension: [
+          { url: 'scale', valueCode: acuity.scale },
+          { url: 'level', valueInteger: acuity.level },
+          { url: 'display', valueString: acuity.display },
+          { url: 'disagreement', valueBoolean: acuity.disagreement },
+        ],
+      },
+    ];
+  }
+
+  private acuity(encounter: FHIRResource): TriageSessionSummary['acuity'] {
+    const ext = (encounter.extension || []).find((candidate: any) => candidate.url === TRIAGE_ACUITY_EXTENSION_URL);
+    if (!ext) return undefined;
+
+    const field = (name: string) => ext.extension?.find((sub: any) => sub.url === name);
+    return {
+      scale: field('scale')?.valueCode,
+      level: field('level')?.valueInteger,
+      display: field('display')?.valueString,
+      disagreement: field('disagreement')?.valueBoolean === true,
+    };
+  }
+
+  private redFlags(encounter: FHIRResource): NonNullable<TriageSessionSummary['redFlags']> {
+    return (encounter.extension || [])
+      .filter((ext: any) => ext.url === TRIAGE_RED_FLAG_EXTENSION_URL)
+      .map((ext: any) => {
+        const field = (name: string) => ext.extension?.find((sub: any) => sub.url === name);
+        return {
+          ruleId: field('ruleId')?.valueCode,
+          condition: field('condition')?.valueString,
+          source: field('source')?.valueCode,
+        };
+      });
+  }
+
+  private payload(
+    role: 'user' | 'assistant' | 'tool',
+    content: string,
+    timestamp: string,
+    toolName?: string,
+    translated?: { language?: string; translation: string }
+  ): any {
+    return {
+      extension: [
+        {
+          url: TRIAGE_MESSAGE_EXTENSION_URL,
+          extension: [
+            { url: 'role', valueCode: role },
+            { url: 'timestamp', valueDateTime: timestamp },
+            ...(toolName ? [{ url: 'toolName', valueString: toolName }] : []),
+            ...(translated?.language ? [{ url: 'language', valueCode: translated.language }] : []),
+            ...(translated ? [{ url: 'translation', valueString: translated.translation }] : []),
+          ],
+        },
+      ],
+      contentString: content,
+    };
+  }
+
+  private identifier(resource: FHIRResource, system: string): string | undefined {
+    return (resource.identifier || []).find((id: any) => id.system === system)?.value;
+  }
+
+  /**
+   * Convert a stored session Encounter to its API summary
+   */
+  private toSummary(encounter: FHIRResource): TriageSessionSummary {
+    const riskExtension = (encounter.extension || []).find((ext: any) => ext.url === TRIAGE_RISK_EXTENSION_URL);
+    const riskField = (name: string) => riskExtension?.extension?.find((ext: any) => ext.url === name);
+    const redFlags = this.redFlags(encounter);
+    const acuity = this.acuity(encounter);
+
+    return {
+      sessionId: encounter.id,
+      patientId: (encounter.subject?.reference || '').replace('Patient/', ''),
+      threadId: this.identifier(encounter, TRIAGE_THREAD_SYSTEM) || '',
+      status: encounter.status === 'finished' ? 'finished' : 'in-progress',
+      startedAt: encounter.period?.start,
+      updatedAt: encounter.meta?.lastUpdated || encounter.period?.end || encounter.period?.start,
+      preview: encounter.reasonCode?.[0]?.text,
+      ...(riskExtension && {
+        risk: {
+          level: riskField('level')?.valueCode,
+          condition: riskField('condition')?.valueString,
+        },
+      }),
+      flaggedForReview: redFlags.length > 0 || !!acuity?.disagreement,
+      ...(redFlags.length > 0 && { redFlags }),
+      ...(acuity && { acuity }),
+    };
+  }
+
+  /**
+   * Convert a stored Encounter/Communication pair to its API representation
+   */
+  private toSession(encounter: FHIRResource, communication: FHIRResource | null): TriageSession {
+    const messages: TriageSessionMessage[] = [];
+    const toolCalls: TriageSessionToolCall[] = [];
+
+    for (const payload of communication?.payload || []) {
+      const message = (payload.extension || []).find((ext: any) => ext.url === TRIAGE_MESSAGE_EXTENSION_URL);
+      const field = (name: string) => message?.extension?.find((ext: any) => ext.url === name);
+      const role = field('role')?.valueCode;
+      const timestamp = field('timestamp')?.valueDateTime;
+
+      if (role === 'tool') {
+        let args: any = payload.contentString;
+        try {
+          args = JSON.parse(payload.contentString);
+        } catch {
+          // Keep the raw arguments
+        }
+        toolCalls.push({ name: field('toolName')?.valueString, arguments: args, timestamp });
+      } else if (role === 'user' || role === 'assistant') {
+        const language = field('language')?.valueCode;
+        const translation = field('translation')?.valueString;
+        messages.push({
+          role,
+          content: payload.contentString,
+          timestamp,
+          ...(language && { language }),
+          ...(translation && { translation }),
+        });
+      }
+    }
+
+    return {
+      ...this.toSummary(encounter),
+      ...(communication?.language && { language: communication.language }),
+      messages,
+      toolCalls,
+      resources: (communication?.about || []).map((ref: any) => ref.reference).filter(Boolean),
+    };
+  }
+}
+
+// Export singleton instance
+export const triageSessionService = new TriageSessionService();
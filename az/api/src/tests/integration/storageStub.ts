@@ -0,0 +1,66 @@
+/**
+ * In-memory FHIR storage for offline tests: replaces the blob storage calls of
+ * the shared fhirStorageService, so triage turns neither wait on Azurite's
+ * connection retries nor depend on it running. State blobs (settings,
+ * notifications, the audit log) are kept in memory too.
+ */
+
+import { fhirStorageService, FHIRResource } from '../../services/fhirStorage';
+import { profileUserId } from '../../services/fhirIndex';
+
+/**
+ * Stub the storage calls the triage assistant and its services make
+ * @param profiles - Patient/Practitioner profiles to find, keyed by their user ID or resource ID
+ * @returns Stored resources by "patientId/Type/id"
+ */
+export function stubFhirStorage(profiles: FHIRResource[] = []): Map<string, FHIRResource> {
+  const stored = new Map<string, FHIRResource>();
+  const compartmentOf = (resource: FHIRResource): string =>
+    (resource.subject?.reference || resource.patient?.reference || '').replace('Patient/', '') || resource.id;
+
+  fhirStorageService.storeResource = async (resource) => {
+    const key = `${compartmentOf(resource)}/${resource.resourceType}/${resource.id}`;
+    const versionId = String(Number(stored.get(key)?.meta?.versionId || 0) + 1);
+    stored.set(key, { ...resource, meta: { ...resource.meta, versionId } });
+    return {
+      success: true,
+      storageMode: 'azurite',
+      resourceId: resource.id,
+      resourceType: resource.resourceType,
+      versionId,
+    };
+  };
+  fhirStorageService.getResource = async (patientId, resourceType, resourceId) =>
+    stored.get(`${patientId}/${resourceType}/${resourceId}`) || null;
+  fhirStorageService.listPatientResources = async (patientId) =>
+    [...stored.entries()].filter(([key]) => key.startsWith(`${patientId}/`)).map(([, resource]) => resource);
+  fhirStorageService.listPatientResourcesByType = async (patientId, resourceType) =>
+    (await fhirStorageService.listPatientResources(patientId)).filter(
+      (resource) => resource.resourceType === resourceType
+    );
+  fhirStorageService.findUserProfile = async (userId, resourceType) =>
+    profiles.find(
+      (profile) =>
+        profile.resourceType === resourceType && (profileUserId(profile) === userId || profile.id === userId)
+    ) || null;
+
+  const stateBlobs = new Map<string, { content: string; etag: string }>();
+  let etags = 0;
+  fhirStorageService.readStateBlob = async (name) => stateBlobs.get(name) || null;
+  fhirStorageService.writeStateBlob = async (name, content, etag) => {
+    // Lets another writer in between the caller's read and write, as on a busy instance
+    await new Promise((resolve) => setImmediate(resolve));
+    if ((stateBlobs.get(name)?.etag ?? null) !== etag) return false;
+    stateBlobs.set(name, { content, etag: `"${++etags}"` });
+    return true;
+  };
+  fhirStorageService.appendStateBlob = async (name, content) => {
+    stateBlobs.set(name, { content: (stateBlobs.get(name)?.content || '') + content, etag: `"${++etags}"` });
+  };
+  fhirStorageService.listStateBlobs = async (prefix) => [...stateBlobs.keys()].filter((name) => name.startsWith(prefix));
+  fhirStorageService.deleteStateBlob = async (name) => {
+    stateBlobs.delete(name);
+  };
+
+  return stored;
+}
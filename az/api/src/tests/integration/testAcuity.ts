@@ -0,0 +1,242 @@
+/**
+ * Offline test for the deterministic acuity score: ESI and Manchester levels
+ * from structured findings, and the acuity the assistant adds to its
+ * RiskAssessment next to the model's own risk level. Uses the scripted LLM
+ * provider and in-memory FHIR storage.
+ */
+
+import { LekinkTriageAssistant } from '../../assistants/lekainkTriageAssistant';
+import {
+  ACUITY_CODE_SYSTEMS,
+  TRIAGE_ACUITY_DISAGREEMENT_EXTENSION_URL,
+  acuityDisagrees,
+  assessmentAcuity,
+  collectFindings,
+  extractPainScore,
+  scoreAcuity,
+  type TriageFindings,
+} from '../../services/acuity';
+import { ScriptedProvider, type ScriptedTurn } from '../../services/llm';
+import { fhirValidationService } from '../../services/fhirValidation';
+import { Logger, LOG_LEVELS } from '../../utils/logger';
+import { stubFhirStorage } from './storageStub';
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+function findings(values: Partial<TriageFindings>): TriageFindings {
+  return { redFlags: [], ...values };
+}
+
+/**
+ * One-turn script assessing the given risk level with the given findings
+ */
+function assessmentScript(level: string, reported: Record<string, unknown>): ScriptedTurn[] {
+  return [
+    {
+      reply: 'Thank you. Based on what you told me, here is my assessment.',
+      toolCalls: [
+        {
+          name: 'createRiskAssessment',
+          arguments: {
+            prediction: [
+              {
+                outcome: { text: 'Abdominal pain' },
+                qualitativeRisk: {
+                  coding: [{ system: 'http://terminology.hl7.org/CodeSystem/risk-probability', code: level }],
+                },
+                rationale: 'Scripted assessment',
+              },
+            ],
+          },
+        },
+        {
+          name: 'conversationStatusCheck',
+          arguments: { isComplete: true, risk: { level, condition: 'Abdominal pain' }, findings: reported },
+        },
+      ],
+    },
+  ];
+}
+
+function runScoringTest(): boolean {
+  let passed = true;
+
+  console.log('=== ESI ===');
+
+  passed =
+    check(scoreAcuity(findings({ consciousness: 'unresponsive' })).level === 1, 'unresponsive is ESI 1') && passed;
+  passed = check(scoreAcuity(findings({ oxygenSaturation: 82 })).level === 1, 'SpO2 82% is ESI 1') && passed;
+  passed =
+    check(
+      scoreAcuity(findings({ redFlags: [{ ruleId: 'chest-pain', condition: 'Possible heart attack' }] })).level === 2,
+      'red flag is ESI 2'
+    ) && passed;
+  passed = check(scoreAcuity(findings({ painScore: 8 })).level === 2, 'severe pain is ESI 2') && passed;
+  passed =
+    check(scoreAcuity(findings({ ageMonths: 24, heartRate: 170 })).level === 2, 'danger-zone heart rate for age') &&
+    passed;
+  passed =
+    check(
+      scoreAcuity(findings({ ageMonths: 24, heartRate: 130 })).level !== 2,
+      'toddler heart rate 130 is not danger zone'
+    ) && passed;
+  passed =
+    check(
+      scoreAcuity(findings({ ageMonths: 0.5, temperatureC: 38.2 })).level === 2,
+      'fever in a newborn is ESI 2'
+    ) && passed;
+  passed = check(scoreAcuity(findings({ expectedResources: 2 })).level === 3, 'two resources is ESI 3') && passed;
+  passed = check(scoreAcuity(findings({ expectedResources: 1 })).level === 4, 'one resource is ESI 4') && passed;
+  passed = check(scoreAcuity(findings({ expectedResources: 0 })).level === 5, 'no resources is ESI 5') && passed;
+
+  const moderate = scoreAcuity(findings({ painScore: 6 }));
+  passed =
+    check(moderate.level === 3 && moderate.riskLevel === 'moderate', 'moderate pain is ESI 3, moderate risk') && passed;
+  passed =
+    check(
+      /ESI 3/.test(moderate.explanation) && /6\/10/.test(moderate.explanation),
+      'explanation names the level and finding'
+    ) && passed;
+
+  console.log('\n=== Manchester ===');
+
+  passed =
+    check(scoreAcuity(findings({ systolicBloodPressure: 70 }), 'manchester').level === 1, 'shock is Manchester 1') &&
+    passed;
+  passed =
+    check(
+      scoreAcuity(findings({ consciousness: 'confused' }), 'manchester').level === 2,
+      'confusion is Manchester 2'
+    ) && passed;
+  passed =
+    check(scoreAcuity(findings({ temperatureC: 39 }), 'manchester').level === 3, 'hot is Manchester 3') && passed;
+  passed =
+    check(scoreAcuity(findings({ painScore: 2 }), 'manchester').level === 4, 'mild pain is Manchester 4') && passed;
+  const nonUrgent = scoreAcuity(findings({}), 'manchester');
+  passed =
+    check(nonUrgent.level === 5 && nonUrgent.riskLevel === 'low', 'nothing found is Manchester 5, low risk') && passed;
+
+  return passed;
+}
+
+function runFindingsTest(): boolean {
+  let passed = true;
+
+  console.log('\n=== Findings ===');
+
+  passed =
+    check(extractPainScore(['it hurts about 7/10', 'now 8 out of 10']) === 8, 'highest pain score read') && passed;
+  passed = check(extractPainScore(['Schmerzen 6 von 10']) === 6, 'pain score read in German') && passed;
+  passed =
+    check(extractPainScore(['my appointment is 3/10/2024']) === undefined, 'dates are not pain scores') && passed;
+
+  const collected = collectFindings(['The pain is 9/10'], { painScore: 5, heartRate: 110, ageYears: 40 });
+  passed = check(collected.painScore === 9, 'pain in the messages wins over the model') && passed;
+  passed = check(collected.heartRate === 110 && collected.ageMonths === 480, 'model findings kept') && passed;
+  passed =
+    check(
+      collectFindings([], { heartRate: 'fast' as unknown as number }).heartRate === undefined,
+      'non-numeric findings ignored'
+    ) && passed;
+
+  console.log('\n=== Disagreement ===');
+
+  const high = scoreAcuity(findings({ painScore: 9 }));
+  passed = check(acuityDisagrees(high, 'low'), 'low risk disagrees with ESI 2') && passed;
+  passed = check(!acuityDisagrees(high, 'HIGH'), 'high risk agrees with ESI 2') && passed;
+  passed =
+    check(!acuityDisagrees(scoreAcuity(findings({ painScore: 5 })), 'medium'), 'medium counts as moderate') && passed;
+  passed = check(!acuityDisagrees(high, undefined), 'no model level is no disagreement') && passed;
+
+  return passed;
+}
+
+async function runAssistantTest(logger: Logger): Promise<boolean> {
+  let passed = true;
+
+  console.log('\n=== Assistant, agreeing levels ===');
+
+  let provider = new ScriptedProvider(assessmentScript('moderate', { painScore: 6, consciousness: 'alert' }));
+  let assistant = new LekinkTriageAssistant(provider, logger);
+  let result = await assistant.processMessage(
+    'I have had stomach pain since this morning',
+    await provider.createConversation(),
+    `acuity-patient-${Date.now()}`
+  );
+
+  let assessment = result.resources.RiskAssessment;
+  const acuityOutcome = assessment?.prediction?.[1]?.outcome?.coding?.[0];
+  passed = check(result.acuity?.level === 3 && !result.acuity.disagreement, 'ESI 3 agrees with moderate') && passed;
+  passed =
+    check(
+      acuityOutcome?.system === ACUITY_CODE_SYSTEMS.esi && acuityOutcome?.code === '3',
+      'acuity added as a coded prediction outcome'
+    ) && passed;
+  passed =
+    check(assessment?.prediction?.[0]?.outcome?.text === 'Abdominal pain', 'model prediction stays first') && passed;
+  passed =
+    check(
+      !(assessment?.extension || []).some((ext: any) => ext.url === TRIAGE_ACUITY_DISAGREEMENT_EXTENSION_URL),
+      'no disagreement extension'
+    ) && passed;
+  passed =
+    check(fhirValidationService.validate(assessment).valid, 'RiskAssessment with acuity is valid FHIR') && passed;
+
+  console.log('\n=== Assistant, disagreeing levels ===');
+
+  provider = new ScriptedProvider(assessmentScript('low', {}));
+  assistant = new LekinkTriageAssistant(provider, logger);
+  result = await assistant.processMessage(
+    'The stomach pain is 9/10 and getting worse',
+    await provider.createConversation(),
+    `acuity-patient-${Date.now()}`
+  );
+
+  assessment = result.resources.RiskAssessment;
+  passed = check(result.acuity?.level === 2, 'severe pain in the message scored ESI 2') && passed;
+  passed =
+    check(
+      result.acuity?.disagreement === true && result.acuity.modelRiskLevel === 'low',
+      'disagreement flagged'
+    ) && passed;
+  const extension = (assessment?.extension || []).find(
+    (ext: any) => ext.url === TRIAGE_ACUITY_DISAGREEMENT_EXTENSION_URL
+  );
+  passed = check(!!extension, 'disagreement extension on the RiskAssessment') && passed;
+  passed =
+    check(
+      (assessment?.note || []).some((note: any) => /needs review/.test(note.text)),
+      'note asks for review'
+    ) && passed;
+  passed =
+    check(
+      JSON.stringify(assessmentAcuity(assessment || {})) ===
+        JSON.stringify({ scale: 'esi', level: 2, display: result.acuity?.display, disagreement: true }),
+      'acuity read back from the RiskAssessment'
+    ) && passed;
+  passed =
+    check(fhirValidationService.validate(assessment).valid, 'RiskAssessment with disagreement is valid FHIR') && passed;
+
+  return passed;
+}
+
+async function runAcuityTest(): Promise<boolean> {
+  const logger = new Logger({ minLevel: LOG_LEVELS.ERROR });
+  stubFhirStorage();
+  let passed = runScoringTest();
+  passed = runFindingsTest() && passed;
+  return (await runAssistantTest(logger)) && passed;
+}
+
+runAcuityTest()
+  .then((passed) => {
+    console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+    process.exit(passed ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
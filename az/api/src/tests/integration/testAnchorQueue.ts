@@ -0,0 +1,136 @@
+/**
+ * Offline test for the anchoring queue: batches per patient, one record per
+ * on-chain ID when the same resource was queued twice, retries and write-back.
+ * The blockchain, storage and audit calls are replaced by local stand-ins.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { AnchorQueueService } from '../../services/anchorQueue';
+import { auditService } from '../../services/audit';
+import { blockchainService, BatchAnchorResult } from '../../services/blockchain';
+import { fhirStorageService } from '../../services/fhirStorage';
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+async function runAnchorQueueTest(directory: string): Promise<boolean> {
+  let passed = true;
+
+  process.env.ANCHOR_QUEUE_FILE = path.join(directory, 'anchor-queue.json');
+  process.env.ANCHOR_RETRY_BASE_MS = '0';
+  const queue = new AnchorQueueService();
+
+  const submitted: Array<Array<{ resourceId: string; dataHash: string }>> = [];
+  let failNext: { message: string; code: string } | null = null;
+  blockchainService.getStatus = () => ({ enabled: true, ready: true, network: 'localhost' });
+  blockchainService.createRecordsBatch = async (records) => {
+    submitted.push(records);
+    if (failNext) {
+      const error = Object.assign(new Error(failNext.message), { code: failNext.code });
+      failNext = null;
+      throw error;
+    }
+    const ids = records.map((record) => record.resourceId);
+    if (new Set(ids).size !== ids.length) {
+      // What the contract does with a repeated ID in createRecords
+      throw Object.assign(new Error('execution reverted: LeLink__RecordAlreadyExists'), { code: 'CALL_EXCEPTION' });
+    }
+    const result: BatchAnchorResult = {
+      network: 'localhost',
+      contractAddress: '0x0',
+      transactionHash: `0xtx${submitted.length}`,
+      blockNumber: submitted.length,
+      anchored: ids,
+      updated: [],
+      alreadyAnchored: [],
+    };
+    return result;
+  };
+
+  const written: Array<{ resourceId: string; dataHash: string }> = [];
+  fhirStorageService.setAnchorMetadata = async (_patientId, _resourceType, resourceId, anchor) => {
+    written.push({ resourceId, dataHash: anchor.dataHash });
+    return true;
+  };
+  auditService.record = async () => null;
+
+  console.log('=== Repeated records in one batch ===');
+  const encounter = { resourceType: 'Encounter', id: 'enc-1', status: 'in-progress' };
+  const firstTurn = await queue.enqueue(
+    [encounter, { resourceType: 'Observation', id: 'obs-1', status: 'final' }],
+    'patient-1'
+  );
+  const secondTurn = await queue.enqueue(
+    [
+      { ...encounter, status: 'finished' },
+      { resourceType: 'RiskAssessment', id: 'risk-1', status: 'final' },
+    ],
+    'patient-1'
+  );
+
+  let run = await queue.processPending();
+  const [batch] = submitted;
+  passed = check(run.batches === 1 && submitted.length === 1, 'both turns submitted in one batch') && passed;
+  passed =
+    check(
+      batch.map((record) => record.resourceId).join(',') === 'Encounter-enc-1,Observation-obs-1,RiskAssessment-risk-1',
+      'one record per on-chain ID'
+    ) && passed;
+  passed =
+    check(
+      batch[0].dataHash === secondTurn!.records[0].dataHash && batch[0].dataHash !== firstTurn!.records[0].dataHash,
+      'latest hash of the repeated record kept'
+    ) && passed;
+  passed = check(run.anchored === 2 && run.failed === 0, 'every job anchored') && passed;
+  passed =
+    check(
+      written.length === 3 && written.some((entry) => entry.dataHash === secondTurn!.records[0].dataHash),
+      'anchor written back once per resource'
+    ) && passed;
+
+  console.log('\n=== Failures ===');
+  failNext = { message: 'connection reset', code: 'NETWORK_ERROR' };
+  const retriedJob = await queue.enqueue([{ resourceType: 'Observation', id: 'obs-2', status: 'final' }], 'patient-2');
+  run = await queue.processPending();
+  passed =
+    check(
+      run.retried === 1 && (await queue.getJob(retriedJob!.jobId))?.status === 'pending',
+      'network error retried'
+    ) && passed;
+  run = await queue.processPending();
+  passed =
+    check(run.anchored === 1 && (await queue.getJob(retriedJob!.jobId))?.status === 'anchored', 'retry anchored') &&
+    passed;
+
+  failNext = { message: 'execution reverted', code: 'CALL_EXCEPTION' };
+  const revertedJob = await queue.enqueue([{ resourceType: 'Observation', id: 'obs-3', status: 'final' }], 'patient-3');
+  run = await queue.processPending();
+  passed =
+    check(run.failed === 1 && (await queue.getJob(revertedJob!.jobId))?.status === 'failed', 'revert fails the job') &&
+    passed;
+
+  return passed;
+}
+
+async function main(): Promise<boolean> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'lelink-anchor-queue-'));
+  try {
+    return await runAnchorQueueTest(directory);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+main()
+  .then((passed) => {
+    console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+    process.exit(passed ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,267 @@
+/**
+ * Offline test for API authentication and the access policy: tokens signed with a
+ * local JWKS (standing in for Entra ID / B2C) and with the web app's shared secret.
+ */
+
+import { createHmac, generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthService, Principal, WEB_APP_TOKEN_ISSUER } from '../../services/auth';
+import { accessPolicyService } from '../../services/accessPolicy';
+import { profileUserId } from '../../services/fhirIndex';
+import { fhirStorageService, FHIRResource } from '../../services/fhirStorage';
+import { consentService } from '../../services/consent';
+import { blockchainService } from '../../services/blockchain';
+import { notificationService } from '../../services/notifications';
+
+const JWT_SECRET = 'test-secret';
+const ISSUER = 'https://login.example.test/tenant/v2.0';
+const KEY_ID = 'test-key';
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function rs256Token(privateKey: KeyObject, claims: object, kid = KEY_ID): string {
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(claims)}`;
+  return `${unsigned}.${sign('sha256', Buffer.from(unsigned), privateKey).toString('base64url')}`;
+}
+
+function hs256Token(secret: string, claims: object): string {
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+}
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+async function rejects(promise: Promise<unknown>): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+async function runAuthTest(directory: string): Promise<boolean> {
+  let passed = true;
+  const now = Math.floor(Date.now() / 1000);
+
+  // No FHIR profiles yet: roles come from the token or the default
+  fhirStorageService.searchResources = async () => ({ items: [] });
+  fhirStorageService.listPatientResourcesByType = async () => [];
+
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwksFile = join(directory, 'jwks.json');
+  writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig' }] }));
+
+  const authService = new AuthService({
+    jwtSecret: JWT_SECRET,
+    jwksFile,
+    issuers: [ISSUER],
+    audiences: ['lelink-api'],
+  });
+
+  const entraClaims = { sub: 'practitioner-1', iss: ISSUER, aud: 'lelink-api', exp: now + 300, roles: ['Practitioner'] };
+  const webClaims = {
+    sub: 'patient-1',
+    iss: WEB_APP_TOKEN_ISSUER,
+    aud: 'lelink-api',
+    exp: now + 300,
+    role: 'Admin',
+    email: 'patient@example.test',
+  };
+
+  console.log('=== Authentication ===');
+  const practitioner = await authService.authenticate(`Bearer ${rs256Token(privateKey, entraClaims)}`);
+  passed =
+    check(practitioner.userId === 'practitioner-1' && practitioner.role === 'Practitioner', 'JWKS token accepted') &&
+    passed;
+
+  const patient = await authService.authenticate(`Bearer ${hs256Token(JWT_SECRET, webClaims)}`);
+  passed =
+    check(patient.role === 'Patient' && patient.email === 'patient@example.test', 'web app token accepted') && passed;
+  passed = check(patient.roleSource === 'default', "web app token's role claim ignored") && passed;
+
+  passed = check(await rejects(authService.authenticate(undefined)), 'missing token rejected') && passed;
+  passed =
+    check(
+      await rejects(authService.authenticate(`Bearer ${hs256Token('wrong-secret', webClaims)}`)),
+      'wrong shared secret rejected'
+    ) && passed;
+  passed =
+    check(
+      await rejects(authService.authenticate(`Bearer ${rs256Token(privateKey, { ...entraClaims, exp: now - 3600 })}`)),
+      'expired token rejected'
+    ) && passed;
+  passed =
+    check(
+      await rejects(authService.authenticate(`Bearer ${rs256Token(privateKey, { ...entraClaims, aud: 'other-api' })}`)),
+      'wrong audience rejected'
+    ) && passed;
+  passed =
+    check(
+      await rejects(authService.authenticate(`Bearer ${rs256Token(privateKey, { ...entraClaims, iss: 'https://evil.test' })}`)),
+      'untrusted issuer rejected'
+    ) && passed;
+  passed =
+    check(
+      await rejects(
+        authService.authenticate(`Bearer ${hs256Token(JWT_SECRET, { ...webClaims, iss: ISSUER, role: 'Admin' })}`)
+      ),
+      'shared-secret token from another issuer rejected'
+    ) && passed;
+
+  console.log('\n=== Access policy ===');
+  const admin: Principal = { userId: 'admin-1', role: 'Admin', roleSource: 'token' };
+  const cases: Array<{ principal: Principal; action: 'read' | 'write' | 'share' | 'manage'; patientId?: string; allowed: boolean }> = [
+    { principal: patient, action: 'read', patientId: 'patient-1', allowed: true },
+    { principal: patient, action: 'share', patientId: 'patient-1', allowed: true },
+    { principal: patient, action: 'read', patientId: 'patient-2', allowed: false },
+    { principal: patient, action: 'manage', allowed: false },
+    { principal: admin, action: 'read', patientId: 'patient-2', allowed: true },
+    { principal: admin, action: 'manage', allowed: true },
+  ];
+
+  for (const { principal, action, patientId, allowed } of cases) {
+    const decision = await accessPolicyService.decide(principal, { action, patientId });
+    passed =
+      check(
+        decision.allowed === allowed,
+        `${principal.role} ${action} ${patientId || '(no patient)'} -> ${allowed ? 'allowed' : 'denied'}`
+      ) && passed;
+  }
+
+  const readable = await accessPolicyService.filterReadablePatients(patient, ['patient-1', 'patient-2']);
+  passed = check(readable.length === 1 && readable[0] === 'patient-1', 'patient list narrowed to own record') && passed;
+
+  return (await runProfileTest(authService)) && passed;
+}
+
+/**
+ * Roles and assignments from profiles stored under generated IDs, as onboarding
+ * stores them, with the index standing in for blob storage
+ */
+async function runProfileTest(authService: AuthService): Promise<boolean> {
+  let passed = true;
+  const now = Math.floor(Date.now() / 1000);
+  const userIdentifier = (value: string) => [{ system: 'http://lelink.healthcare/user-id', value }];
+  const profiles: FHIRResource[] = [
+    {
+      resourceType: 'Practitioner',
+      id: 'practitioner-1750000000000-abc123def',
+      identifier: userIdentifier('google-practitioner'),
+      extension: [{ url: 'http://lelink.health/fhir/StructureDefinition/user-role', valueString: 'Practitioner' }],
+    },
+    {
+      resourceType: 'Patient',
+      id: 'patient-1750000000000-xyz789ghi',
+      identifier: userIdentifier('google-patient'),
+      telecom: [{ system: 'email', value: 'assigned@example.test' }],
+      generalPractitioner: [{ reference: 'Practitioner/practitioner-1750000000000-abc123def' }],
+    },
+    {
+      resourceType: 'Patient',
+      id: 'patient-1750000000000-applicant',
+      identifier: userIdentifier('google-applicant'),
+      extension: [{ url: 'http://lelink.health/fhir/StructureDefinition/user-role', valueString: 'Patient' }],
+    },
+    {
+      // Created by the user themselves, so without the Practitioner role
+      resourceType: 'Practitioner',
+      id: 'practitioner-1750000000000-applicant',
+      identifier: userIdentifier('google-applicant'),
+    },
+  ];
+  fhirStorageService.searchResources = async (query) => ({
+    items: profiles.filter(
+      (profile) =>
+        profile.resourceType === query.resourceType &&
+        (query.userId
+          ? profileUserId(profile) === query.userId
+          : profile.telecom?.some((telecom: any) => telecom.value === query.email))
+    ),
+  });
+  const records: Record<string, FHIRResource[]> = {
+    'google-unassigned': [{ resourceType: 'Observation', id: 'obs-1', status: 'final' }],
+  };
+  fhirStorageService.listPatientResources = async (patientId) => records[patientId] || [];
+  fhirStorageService.listPatientResourcesByType = async (patientId, resourceType) =>
+    [...profiles.filter((profile) => profile.id === patientId), ...(records[patientId] || [])].filter(
+      (resource) => resource.resourceType === resourceType
+    );
+  fhirStorageService.storeResource = async (resource) => {
+    const patientId = resource.patient.reference.replace('Patient/', '');
+    records[patientId] = [...(records[patientId] || []), resource];
+    return { success: true, storageMode: 'azurite', resourceId: resource.id, resourceType: resource.resourceType };
+  };
+  blockchainService.logShareAccess = async () => null;
+  notificationService.notifyRecordsShared = async () => null;
+
+  console.log('\n=== Profiles under generated IDs ===');
+  const webAppToken = (claims: object) =>
+    `Bearer ${hs256Token(JWT_SECRET, { iss: WEB_APP_TOKEN_ISSUER, aud: 'lelink-api', exp: now + 300, ...claims })}`;
+  const practitioner = await authService.authenticate(webAppToken({ sub: 'google-practitioner' }));
+  passed =
+    check(
+      practitioner.role === 'Practitioner' && practitioner.roleSource === 'fhir',
+      'role read from a profile whose ID differs from the subject'
+    ) && passed;
+
+  const assigned = await accessPolicyService.decide(practitioner, { action: 'write', patientId: 'google-patient' });
+  passed =
+    check(assigned.allowed && assigned.scope === 'full', 'assigned through the Practitioner resource ID') && passed;
+
+  const other: Principal = { userId: 'google-other', role: 'Practitioner', roleSource: 'token' };
+  passed =
+    check(
+      !(await accessPolicyService.decide(other, { action: 'write', patientId: 'google-patient' })).allowed,
+      'unassigned practitioner denied'
+    ) && passed;
+
+  const stranger = await authService.authenticate(
+    webAppToken({ sub: 'google-stranger', email: 'assigned@example.test' })
+  );
+  passed = check(stranger.roleSource === 'default', "another account's profile not matched by email") && passed;
+
+  const grant = await consentService.grantAccess('google-unassigned', {
+    practitionerId: 'google-practitioner',
+    resources: ['Observation/obs-1'],
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  });
+  passed =
+    check(grant.practitionerId === 'practitioner-1750000000000-abc123def', 'grant names the Practitioner resource') &&
+    passed;
+  const consented = await accessPolicyService.decide(practitioner, { action: 'read', patientId: 'google-unassigned' });
+  passed =
+    check(
+      consented.allowed && consented.scope === 'consented' && !!consented.grantedResources?.has('Observation/obs-1'),
+      'consent grant applies to the practitioner signed in under their user ID'
+    ) && passed;
+
+  const applicant = await authService.authenticate(webAppToken({ sub: 'google-applicant' }));
+  passed =
+    check(
+      applicant.role === 'Patient' && applicant.roleSource === 'fhir',
+      'Practitioner profile without an approved role keeps the Patient role'
+    ) && passed;
+
+  return passed;
+}
+
+const directory = mkdtempSync(join(tmpdir(), 'lelink-auth-'));
+
+runAuthTest(directory)
+  .then((passed) => {
+    console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+    process.exitCode = passed ? 0 : 1;
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => rmSync(directory, { recursive: true, force: true }));
@@ -0,0 +1,124 @@
+/**
+ * Offline test for the FHIR blob index: the tags written for resources, the
+ * tag filters built for searches and the parsing of FHIR search parameters.
+ */
+
+import {
+  buildIndexTags,
+  buildTagFilter,
+  decodeCursor,
+  encodeCursor,
+  hashEmail,
+  hashUserId,
+  parseResourceBlobName,
+} from '../../services/fhirIndex';
+import { parseSearchParams } from '../../services/fhirSearch';
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+function runIndexTest(): boolean {
+  let passed = true;
+
+  console.log('=== Index tags ===');
+  const patientTags = buildIndexTags(
+    {
+      resourceType: 'Patient',
+      id: 'user-1',
+      name: [{ given: ['Zoë'], family: "O'Neil" }],
+      telecom: [{ system: 'email', value: 'Zoe@Example.test' }],
+      identifier: [{ system: 'http://lelink.healthcare/user-id', value: 'google|1234' }],
+      meta: { lastUpdated: '2025-03-01T10:00:00.000Z' },
+    },
+    'user_1'
+  );
+  passed = check(patientTags.userProfile === 'true', 'profile flagged') && passed;
+  passed = check(patientTags.emailHash === hashEmail('zoe@example.test'), 'email hashed case-insensitively') && passed;
+  passed = check(patientTags.name === 'zoe o_neil', 'name normalized to tag characters') && passed;
+  passed = check(patientTags.userIdHash === hashUserId('google|1234'), 'user ID of the profile hashed') && passed;
+  passed = check(patientTags.patientId === 'user_1', 'compartment tagged') && passed;
+
+  const observationTags = buildIndexTags(
+    {
+      resourceType: 'Observation',
+      id: 'obs-1',
+      status: 'final',
+      effectiveDateTime: '2025-01-15T08:30:00+01:00',
+      code: { coding: [{ system: 'http://loinc.org', code: '8310-5' }] },
+      subject: { reference: 'Patient/user-1' },
+    },
+    'user_1'
+  );
+  passed = check(observationTags.date === '2025-01-15T08:30:00+01:00', 'clinical date tagged') && passed;
+  passed = check(observationTags.status === 'final', 'status tagged') && passed;
+  passed = check(observationTags.code === '8310-5', 'code tagged') && passed;
+  passed = check(!('userProfile' in observationTags), 'records are not profiles') && passed;
+  passed =
+    check(
+      Object.values({ ...patientTags, ...observationTags }).every((value) => /^[a-zA-Z0-9 +\-./:=_]{0,256}$/.test(value)),
+      'tag values use allowed characters only'
+    ) && passed;
+
+  console.log('\n=== Tag filters ===');
+  const filter = buildTagFilter({ resourceType: 'Observation', status: 'final', dateFrom: '2025-01-01' });
+  passed =
+    check(
+      filter === `"resourceType" = 'Observation' AND "status" = 'final' AND "date" >= '2025-01-01'`,
+      'type, status and date range'
+    ) && passed;
+  passed = check(buildTagFilter({ namePrefix: 'Zo' }).includes(`"name" >= 'zo'`), 'name prefix search') && passed;
+  passed = check(buildTagFilter({}) === `"indexed" >= '0'`, 'empty query matches every indexed blob') && passed;
+  passed = check(!buildTagFilter({ email: 'a@b.test' }).includes('@'), 'email never appears in a filter') && passed;
+  passed =
+    check(
+      buildTagFilter({ userId: 'google|1234', resourceType: 'Patient' }).includes(
+        `"userIdHash" = '${hashUserId('google|1234')}'`
+      ),
+      'profile looked up by user ID'
+    ) && passed;
+
+  let rejected = false;
+  try {
+    buildTagFilter({ namePrefix: 'zo', dateFrom: '2025-01-01' });
+  } catch {
+    rejected = true;
+  }
+  passed = check(rejected, 'two range conditions rejected') && passed;
+
+  console.log('\n=== Blob names and cursors ===');
+  passed = check(parseResourceBlobName('user_1/Observation/obs_1.json')?.resourceType === 'Observation', 'resource blob parsed') && passed;
+  passed = check(parseResourceBlobName('user_1/Observation/_history/obs_1.json') === null, 'other blobs ignored') && passed;
+  passed = check(decodeCursor(encodeCursor('2!76!MDAw')) === '2!76!MDAw', 'cursor round-trips') && passed;
+
+  console.log('\n=== Search parameters ===');
+  const search = parseSearchParams(
+    'Observation',
+    new URLSearchParams('subject=Patient/user-1&date=ge2025-01-01&date=lt2025-02&code=http://loinc.org|8310-5&_sort=-date&_count=500&_include=Observation:subject&foo=bar')
+  );
+  passed = check(search.patientId === 'user-1', 'subject reference resolved to the patient') && passed;
+  passed = check(search.dates.length === 2 && search.dates[1].prefix === 'lt', 'date prefixes parsed') && passed;
+  passed = check(search.codes[0].system === 'http://loinc.org' && search.codes[0].code === '8310-5', 'system|code token parsed') && passed;
+  passed = check(search.sort?.field === 'date' && search.sort.descending, 'descending sort parsed') && passed;
+  passed = check(search.count === 100 && search.includeSubject, '_count capped and _include recognized') && passed;
+  passed =
+    check(parseSearchParams(undefined, new URLSearchParams('_type=Condition,Observation')).resourceTypes.length === 2, '_type split') &&
+    passed;
+
+  for (const query of ['date=xx2025-01-01', '_sort=name', '_count=0', 'subject=a&patient=b']) {
+    let invalid = false;
+    try {
+      parseSearchParams('Observation', new URLSearchParams(query));
+    } catch {
+      invalid = true;
+    }
+    passed = check(invalid, `${query} rejected`) && passed;
+  }
+
+  return passed;
+}
+
+const passed = runIndexTest();
+console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+process.exit(passed ? 0 : 1);
@@ -0,0 +1,134 @@
+/**
+ * Offline test for FHIR validation: the structure and profile checks on their
+ * own, and the triage assistant refusing invalid tool arguments.
+ */
+
+import { LekinkTriageAssistant } from '../../assistants/lekainkTriageAssistant';
+import { ScriptedProvider } from '../../services/llm';
+import { CODE_SYSTEMS, fhirValidationService } from '../../services/fhirValidation';
+import { Logger, LOG_LEVELS } from '../../utils/logger';
+
+const riskAssessment = {
+  resourceType: 'RiskAssessment',
+  id: '1718000000000-abc-1234-42',
+  status: 'final',
+  subject: { reference: 'Patient/user-1' },
+  occurrenceDateTime: '2025-03-01T10:00:00.000Z',
+  prediction: [
+    {
+      outcome: { text: 'Requires same-day medical review' },
+      qualitativeRisk: { coding: [{ system: CODE_SYSTEMS.riskProbability, code: 'moderate' }] },
+    },
+  ],
+};
+
+const observation = {
+  resourceType: 'Observation',
+  id: 'obs-1',
+  status: 'final',
+  subject: { reference: 'Patient/user-1' },
+  code: { coding: [{ system: CODE_SYSTEMS.loinc, code: '89261-2', display: 'Chief complaint - Reported' }] },
+  valueString: 'Headache and fever since yesterday',
+};
+
+const invalidCases: Array<{ resource: Record<string, any>; path: string; description: string }> = [
+  { resource: { ...riskAssessment, subject: undefined }, path: 'RiskAssessment.subject', description: 'missing subject' },
+  { resource: { ...riskAssessment, status: 'done' }, path: 'RiskAssessment.status', description: 'unknown status' },
+  {
+    resource: { ...riskAssessment, prediction: [{ qualitativeRisk: { text: 'moderate' } }] },
+    path: 'RiskAssessment.prediction[0].qualitativeRisk',
+    description: 'uncoded qualitativeRisk',
+  },
+  {
+    resource: { ...riskAssessment, prediction: [{ qualitativeRisk: { coding: [{ system: CODE_SYSTEMS.riskProbability, code: 'severe' }] } }] },
+    path: 'RiskAssessment.prediction[0].qualitativeRisk',
+    description: 'risk code outside the value set',
+  },
+  { resource: { ...riskAssessment, prediction: [] }, path: 'RiskAssessment.prediction', description: 'no prediction' },
+  {
+    resource: { ...observation, code: { coding: [{ system: 'LOINC', code: '89261-2' }] } },
+    path: 'Observation.code.coding[0].system',
+    description: 'non-canonical LOINC URI',
+  },
+  {
+    resource: { ...observation, code: { coding: [{ system: CODE_SYSTEMS.snomed, code: 'headache' }] } },
+    path: 'Observation.code.coding[0].code',
+    description: 'malformed SNOMED CT code',
+  },
+  {
+    resource: { ...observation, effectiveDateTime: 'yesterday' },
+    path: 'Observation.effectiveDateTime',
+    description: 'effectiveDateTime not ISO 8601',
+  },
+];
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+async function runValidationTest(): Promise<boolean> {
+  let passed = true;
+
+  console.log('=== Valid resources ===');
+  passed = check(fhirValidationService.validate(riskAssessment).valid, 'RiskAssessment accepted') && passed;
+  passed = check(fhirValidationService.validate(observation).valid, 'Observation accepted') && passed;
+  passed =
+    check(fhirValidationService.validate({ resourceType: 'Patient', id: 'user-1' }).valid, 'other types get base checks only') &&
+    passed;
+
+  console.log('\n=== Invalid resources ===');
+  for (const { resource, path, description } of invalidCases) {
+    const { valid, issues } = fhirValidationService.validate(resource);
+    passed = check(!valid && issues.some((issue) => issue.path === path), `${description} -> ${path}`) && passed;
+  }
+
+  let message = '';
+  try {
+    fhirValidationService.assertValid({ ...riskAssessment, status: 'done' });
+  } catch (error) {
+    message = (error as Error).message;
+  }
+  passed = check(message.startsWith('Invalid RiskAssessment: RiskAssessment.status'), 'assertValid names the issue') && passed;
+
+  console.log('\n=== Triage assistant ===');
+  const provider = new ScriptedProvider([
+    {
+      reply: 'Please see a doctor today.',
+      toolCalls: [
+        { name: 'createObservation', arguments: { status: 'final', valueString: 'Headache and fever' } },
+        {
+          name: 'createRiskAssessment',
+          arguments: { status: 'final', prediction: [{ qualitativeRisk: { coding: [{ code: 'moderate' }] } }] },
+        },
+      ],
+    },
+  ]);
+  const assistant = new LekinkTriageAssistant(provider, new Logger({ minLevel: LOG_LEVELS.ERROR }));
+  const streamed: string[] = [];
+
+  const result = await assistant.processMessage(
+    'I have had a headache and a fever since yesterday',
+    await provider.createConversation(),
+    `validation-patient-${Date.now()}`,
+    undefined,
+    { onResource: (resourceType) => streamed.push(resourceType) }
+  );
+
+  passed = check(result.resources.Observation !== null, 'valid Observation kept') && passed;
+  passed = check(result.resources.RiskAssessment === null, 'invalid RiskAssessment rejected') && passed;
+  passed = check(!streamed.includes('RiskAssessment'), 'invalid RiskAssessment not streamed') && passed;
+  passed = check((result.blockchain?.results.length || 0) <= 1, 'only the Observation queued for anchoring') && passed;
+
+  return passed;
+}
+
+runValidationTest()
+  .then((passed) => {
+    console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+    process.exit(passed ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,260 @@
+/**
+ * Offline test for log redaction: deny-listed fields, header allow-list, email,
+ * phone and user-name detection, the clinical content tag and the log-level
+ * policy. Then runs a triage request through the symptom assessment function
+ * and the assistant with the production policy and checks no PHI reaches the
+ * log output. Uses the scripted LLM provider and in-memory FHIR storage.
+ */
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { LekinkTriageAssistant } from '../../assistants/lekainkTriageAssistant';
+import { symptomAssessmentBot } from '../../functions/symptom-assessment-bot';
+import { authService } from '../../services/auth';
+import { ScriptedProvider } from '../../services/llm';
+import { settingsService } from '../../services/settings';
+import { aiConfig, loggingConfig, systemConfig } from '../../utils/config';
+import { CLINICAL_CONTENT_PLACEHOLDER, LOG_LEVELS, Logger, REDACTED, clinical } from '../../utils/logger';
+import { stubFhirStorage } from './storageStub';
+
+const PATIENT_NAME = 'Amira Haddad';
+const PATIENT_EMAIL = 'amira.haddad@example.org';
+const PATIENT_PHONE = '+49 151 2345 6789';
+const SYMPTOMS = 'throbbing headache behind my left eye';
+const MESSAGE = `Hi, I am ${PATIENT_NAME} (${PATIENT_EMAIL}, ${PATIENT_PHONE}). I have had a ${SYMPTOMS} since Monday.`;
+const BEARER_TOKEN = 'eyJhbGciOiJIUzI1NiJ9.c2VjcmV0.c2lnbmF0dXJl';
+
+/** Strings that must never appear in the log output of the triage path */
+const PHI = ['Amira', 'Haddad', PATIENT_EMAIL, '2345 6789', SYMPTOMS, BEARER_TOKEN, 'session=abc123'];
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+/**
+ * Everything written to the console while `run` runs
+ */
+async function captureLogs(run: (output: string[]) => Promise<void> | void): Promise<string> {
+  const output: string[] = [];
+  const methods = ['log', 'info', 'warn', 'error', 'debug'] as const;
+  const originals = methods.map((method) => console[method]);
+
+  methods.forEach((method) => {
+    console[method] = (...args: unknown[]) => output.push(args.map(String).join(' '));
+  });
+  try {
+    await run(output);
+  } finally {
+    methods.forEach((method, index) => {
+      console[method] = originals[index];
+    });
+  }
+  return output.join('\n');
+}
+
+async function runRedactionTest(): Promise<boolean> {
+  let passed = true;
+
+  console.log('=== Field deny-list and headers ===');
+
+  const logger = new Logger({ minLevel: LOG_LEVELS.DEBUG });
+  let output = await captureLogs(() => {
+    logger.info('Signing in', {
+      password: 'hunter2',
+      apiKey: 'sk-live-123',
+      nested: { access_token: 'tok-456' },
+    });
+    logger.info('Request', {
+      headers: {
+        Authorization: `Bearer ${BEARER_TOKEN}`,
+        'Content-Type': 'application/json',
+        Cookie: 'session=abc123',
+      },
+    });
+    logger.info('Fetch', { headers: new Headers({ 'x-api-key': 'key-789', 'user-agent': 'test-agent' }) });
+  });
+  passed = check(!/hunter2|sk-live-123|tok-456/.test(output), 'deny-listed fields redacted, also nested') && passed;
+  passed = check(output.includes(REDACTED), 'redacted values marked') && passed;
+  passed =
+    check(!output.includes(BEARER_TOKEN) && !output.includes('abc123'), 'auth and cookie headers redacted') && passed;
+  passed =
+    check(output.includes('application/json') && output.includes('test-agent'), 'allow-listed headers kept') && passed;
+  passed = check(!output.includes('key-789'), 'Headers objects filtered too') && passed;
+
+  loggingConfig.redactFields = ['insuranceNumber'];
+  loggingConfig.allowedHeaders = ['x-forwarded-for'];
+  output = await captureLogs(() => {
+    logger.info('Coverage', { insurance_number: 'INS-2024-77', headers: { 'X-Forwarded-For': '10.1.2.3' } });
+  });
+  passed = check(!output.includes('INS-2024-77'), 'configured field redacted') && passed;
+  passed = check(output.includes('10.1.2.3'), 'configured header allowed') && passed;
+  loggingConfig.redactFields = [];
+  loggingConfig.allowedHeaders = [];
+
+  console.log('\n=== Patterns and user context ===');
+
+  output = await captureLogs(() => {
+    logger.info(`Contact ${PATIENT_EMAIL} or ${PATIENT_PHONE}, or (030) 1234-5678, or 0151234567890`);
+    logger.error('Lookup failed', { error: new Error(`No patient with email ${PATIENT_EMAIL}`) });
+  });
+  passed =
+    check(!output.includes(PATIENT_EMAIL) && output.includes('[EMAIL]'), 'emails masked, also in errors') && passed;
+  passed =
+    check(!/2345 6789|1234-5678|0151234567890/.test(output) && output.includes('[PHONE]'), 'phone numbers masked') &&
+    passed;
+
+  const notPhones = 'Seen 2026-10-18T09:30:00Z, resource 1792341494876-avp4z46xe, pain 6/10, 38.5 C, job 1234567';
+  output = await captureLogs(() => logger.info(notPhones));
+  passed = check(output.includes(notPhones), 'dates, ids, scores and plain numbers kept') && passed;
+
+  const requestLogger = new Logger({ minLevel: LOG_LEVELS.DEBUG });
+  requestLogger.addSensitiveValues(PATIENT_NAME, undefined);
+  output = await captureLogs(() => {
+    requestLogger.info('Amira said Haddad family members are ill', { note: `${PATIENT_NAME} called` });
+    requestLogger.child({ correlationId: 'child' }).info(`Child log for ${PATIENT_NAME.toUpperCase()}`);
+  });
+  passed = check(!/amira|haddad/i.test(output), 'user name masked, also word by word and in child loggers') && passed;
+  passed = check(output.includes('family members are ill'), 'rest of the text kept') && passed;
+
+  console.log('\n=== Clinical content ===');
+
+  loggingConfig.clinicalContent = false;
+  output = await captureLogs(() => logger.info('Tool call', { args: clinical({ valueString: SYMPTOMS }) }));
+  passed =
+    check(!output.includes(SYMPTOMS) && output.includes(CLINICAL_CONTENT_PLACEHOLDER), 'dropped when turned off') &&
+    passed;
+
+  loggingConfig.redaction = false;
+  output = await captureLogs(() => logger.info('Tool call', { args: clinical(SYMPTOMS) }));
+  passed = check(!output.includes(SYMPTOMS), 'dropped even with redaction off') && passed;
+  loggingConfig.redaction = true;
+
+  loggingConfig.clinicalContent = true;
+  output = await captureLogs(() => logger.info('Tool call', { args: clinical(`${SYMPTOMS}, call ${PATIENT_PHONE}`) }));
+  passed = check(output.includes(SYMPTOMS), 'kept when turned on') && passed;
+  passed = check(!output.includes(PATIENT_PHONE), 'kept clinical content is still redacted') && passed;
+
+  console.log('\n=== Log level ===');
+
+  loggingConfig.level = 'WARN';
+  const defaultLogger = new Logger();
+  output = await captureLogs(() => {
+    defaultLogger.info('info entry');
+    defaultLogger.warn('warn entry');
+  });
+  passed = check(!output.includes('info entry') && output.includes('warn entry'), 'configured level applied') && passed;
+
+  systemConfig.debugMode = true;
+  output = await captureLogs(() => defaultLogger.debug('debug entry'));
+  passed = check(output.includes('debug entry'), 'debug mode logs debug entries') && passed;
+  systemConfig.debugMode = false;
+  loggingConfig.level = 'DEBUG';
+
+  return passed;
+}
+
+/**
+ * Triage with the production policy: no PHI in anything logged
+ */
+async function runTriagePathTest(): Promise<boolean> {
+  let passed = true;
+
+  console.log('\n=== Triage path, production policy ===');
+
+  loggingConfig.clinicalContent = false;
+  stubFhirStorage();
+
+  const provider = new ScriptedProvider([
+    {
+      reply: `Thank you ${PATIENT_NAME}. How long has the ${SYMPTOMS} lasted?`,
+      toolCalls: [
+        {
+          name: 'createObservation',
+          arguments: { status: 'final', valueString: `Patient reports ${SYMPTOMS}; contact ${PATIENT_EMAIL}` },
+        },
+        {
+          name: 'conversationStatusCheck',
+          arguments: { isComplete: false, risk: { level: 'moderate', condition: `Migraine with ${SYMPTOMS}` } },
+        },
+      ],
+    },
+  ]);
+  const assistant = new LekinkTriageAssistant(provider, new Logger({ minLevel: LOG_LEVELS.DEBUG }));
+  let output = await captureLogs(async () => {
+    await assistant.processMessage(MESSAGE, await provider.createConversation(), `redaction-patient-${Date.now()}`, {
+      name: PATIENT_NAME,
+      email: PATIENT_EMAIL,
+      isAuthenticated: true,
+    });
+  });
+  passed = check(output.includes('Creating Observation'), 'assistant tool calls logged') && passed;
+  passed = check(output.includes(CLINICAL_CONTENT_PLACEHOLDER), 'tool arguments logged as clinical content') && passed;
+  const assistantLeaks = PHI.filter((value) => output.includes(value));
+  passed = check(assistantLeaks.length === 0, `no PHI in assistant logs ${assistantLeaks.join(', ')}`.trim()) && passed;
+
+  await settingsService.refresh(true);
+  aiConfig.provider = 'scripted';
+  loggingConfig.clinicalContent = false;
+  const anonymous = await symptomAssessmentBot(
+    new HttpRequest({
+      method: 'POST',
+      url: 'http://localhost/api/symptom-assessment',
+      body: { string: JSON.stringify({ message: MESSAGE, patientId: 'someone-else' }) },
+    }),
+    new InvocationContext({ invocationId: 'redaction-anonymous', functionName: 'symptomAssessmentBot' })
+  );
+  passed = check(anonymous.status === 401, 'request without a token rejected') && passed;
+
+  // Stands in for verifying the web app's token, which names the patient
+  authService.authenticate = async () => ({
+    userId: `redaction-patient-${Date.now()}`,
+    role: 'Patient',
+    roleSource: 'token',
+    name: PATIENT_NAME,
+    email: PATIENT_EMAIL,
+  });
+
+  let status: number | undefined;
+  output = await captureLogs(async (lines) => {
+    const request = new HttpRequest({
+      method: 'POST',
+      url: 'http://localhost/api/symptom-assessment',
+      headers: {
+        authorization: `Bearer ${BEARER_TOKEN}`,
+        cookie: 'session=abc123',
+        'content-type': 'application/json',
+      },
+      body: {
+        string: JSON.stringify({ message: MESSAGE }),
+      },
+    });
+    const context = new InvocationContext({
+      invocationId: 'redaction-test',
+      functionName: 'symptomAssessmentBot',
+      logHandler: (_level, ...args) => lines.push(args.map(String).join(' ')),
+    });
+    status = (await symptomAssessmentBot(request, context)).status;
+  });
+  passed = check(status === 200, 'triage request succeeded') && passed;
+  passed = check(output.includes('Received symptom assessment request'), 'function logs captured') && passed;
+  passed = check(output.includes('content-type'), 'request headers still logged') && passed;
+  const functionLeaks = PHI.filter((value) => output.includes(value));
+  passed = check(functionLeaks.length === 0, `no PHI in function logs ${functionLeaks.join(', ')}`.trim()) && passed;
+
+  return passed;
+}
+
+async function runLogRedactionTest(): Promise<boolean> {
+  const passed = await runRedactionTest();
+  return (await runTriagePathTest()) && passed;
+}
+
+runLogRedactionTest()
+  .then((passed) => {
+    console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+    process.exit(passed ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
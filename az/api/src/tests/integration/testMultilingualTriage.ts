@@ -0,0 +1,269 @@
+/**
+ * Offline test for multilingual triage: language resolution, replies in the
+ * patient's language and English translations for clinicians. Uses the scripted
+ * LLM provider, a stub translator and in-memory FHIR storage.
+ */
+
+import { LekinkTriageAssistant } from '../../assistants/lekainkTriageAssistant';
+import { ScriptedProvider, type LLMRunOptions, type LLMRunResult } from '../../services/llm';
+import { LANGUAGE_EXTENSION_URL, patientPreferredLanguage, type Translator } from '../../services/translation';
+import { Logger, LOG_LEVELS } from '../../utils/logger';
+import { stubFhirStorage } from './storageStub';
+
+const SPANISH_MESSAGE = 'Tengo dolor de cabeza y fiebre desde ayer';
+const SPANISH_OBSERVATION = 'Dolor de cabeza y fiebre desde ayer';
+const SPANISH_REPLY = 'Lo siento. ¿Qué tan fuerte es el dolor, del 1 al 10?';
+const SPANISH_EMERGENCY = 'Tengo dolor en el pecho y me falta el aire';
+
+// Stored under a generated ID, as onboarding stores profiles
+const UKRAINIAN_PATIENT = {
+  resourceType: 'Patient',
+  id: 'patient-1750000000000-uk',
+  identifier: [{ system: 'http://lelink.healthcare/user-id', value: 'multilingual-profile-user' }],
+  communication: [{ language: { coding: [{ system: 'urn:ietf:bcp:47', code: 'uk-UA' }] }, preferred: true }],
+};
+
+/**
+ * Translator answering from fixed tables, recording what it was asked
+ */
+class StubTranslator implements Translator {
+  public readonly name = 'stub';
+  public detected: string[] = [];
+  public translated: Array<{ text: string; targetLanguage: string; sourceLanguage?: string }> = [];
+
+  private languages: Record<string, string> = {
+    [SPANISH_MESSAGE]: 'es',
+    [SPANISH_EMERGENCY]: 'es',
+  };
+
+  private english: Record<string, string> = {
+    [SPANISH_MESSAGE]: 'I have had a headache and fever since yesterday',
+    [SPANISH_OBSERVATION]: 'Headache and fever since yesterday',
+    [SPANISH_REPLY]: "I'm sorry. How strong is the pain, from 1 to 10?",
+    [SPANISH_EMERGENCY]: 'I have chest pain and I am short of breath',
+  };
+
+  public async detectLanguage(text: string): Promise<string | undefined> {
+    this.detected.push(text);
+    return this.languages[text];
+  }
+
+  public async translate(text: string, targetLanguage: string, sourceLanguage?: string): Promise<string | null> {
+    this.translated.push({ text, targetLanguage, sourceLanguage });
+    return targetLanguage === 'en' ? this.english[text] || `[en] ${text}` : `[${targetLanguage}] ${text}`;
+  }
+}
+
+/**
+ * Scripted provider keeping the options of every run
+ */
+class RecordingProvider extends ScriptedProvider {
+  public runs: LLMRunOptions[] = [];
+
+  public async run(conversationId: string, options: LLMRunOptions): Promise<LLMRunResult> {
+    this.runs.push(options);
+    return super.run(conversationId, options);
+  }
+}
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+function spanishProvider(): RecordingProvider {
+  return new RecordingProvider([
+    {
+      reply: SPANISH_REPLY,
+      toolCalls: [{ name: 'createObservation', arguments: { valueString: SPANISH_OBSERVATION } }],
+    },
+  ]);
+}
+
+async function runDetectedLanguageTest(logger: Logger): Promise<boolean> {
+  const provider = spanishProvider();
+  const translator = new StubTranslator();
+  const assistant = new LekinkTriageAssistant(provider, logger, translator);
+  let passed = true;
+
+  console.log('=== Detected language ===');
+
+  const result = await assistant.processMessage(
+    SPANISH_MESSAGE,
+    await provider.createConversation(),
+    `multilingual-patient-${Date.now()}`
+  );
+
+  passed = check(result.language === 'es', 'Spanish detected') && passed;
+  passed = check(result.reply === SPANISH_REPLY, 'reply stays in Spanish') && passed;
+  passed =
+    check(/Spanish/.test(provider.runs[0]?.additionalInstructions || ''), 'model told to answer in Spanish') && passed;
+  passed =
+    check(
+      result.translation?.message === 'I have had a headache and fever since yesterday',
+      'patient message translated to English'
+    ) && passed;
+  passed =
+    check(result.translation?.reply === "I'm sorry. How strong is the pain, from 1 to 10?", 'reply translated to English') &&
+    passed;
+
+  const observation = result.resources.Observation;
+  const [original, translation] = observation?.note || [];
+  const noteLanguage = (note: any) =>
+    note?.extension?.find((ext: any) => ext.url === LANGUAGE_EXTENSION_URL)?.valueCode;
+  passed =
+    check(observation?.valueString === 'Headache and fever since yesterday', 'Observation value is in English') &&
+    passed;
+  passed =
+    check(original?.text === SPANISH_OBSERVATION && noteLanguage(original) === 'es', 'note keeps the Spanish text') &&
+    passed;
+  passed =
+    check(
+      translation?.text === 'Headache and fever since yesterday' && noteLanguage(translation) === 'en',
+      'note carries the English translation'
+    ) && passed;
+  passed = check(/Spanish/.test(translation?.authorString || ''), 'translation note names its source language') && passed;
+
+  return passed;
+}
+
+async function runExplicitLanguageTest(logger: Logger): Promise<boolean> {
+  const provider = spanishProvider();
+  const translator = new StubTranslator();
+  const assistant = new LekinkTriageAssistant(provider, logger, translator);
+  let passed = true;
+
+  console.log('\n=== Language chosen by the patient ===');
+
+  const result = await assistant.processMessage(
+    SPANISH_MESSAGE,
+    await provider.createConversation(),
+    `multilingual-patient-${Date.now()}`,
+    undefined,
+    undefined,
+    { language: 'fr-CA' }
+  );
+
+  passed = check(result.language === 'fr', 'chosen language wins over detection') && passed;
+  passed = check(translator.detected.length === 0, 'no detection when a language is given') && passed;
+  passed =
+    check(/French/.test(provider.runs[0]?.additionalInstructions || ''), 'model told to answer in French') && passed;
+
+  return passed;
+}
+
+async function runEnglishTest(logger: Logger): Promise<boolean> {
+  const provider = new RecordingProvider();
+  const translator = new StubTranslator();
+  const assistant = new LekinkTriageAssistant(provider, logger, translator);
+  let passed = true;
+
+  console.log('\n=== English ===');
+
+  const result = await assistant.processMessage(
+    'I have had a headache and a fever since yesterday',
+    await provider.createConversation(),
+    `multilingual-patient-${Date.now()}`,
+    undefined,
+    undefined,
+    { language: 'en' }
+  );
+
+  passed = check(result.language === 'en', 'English kept') && passed;
+  passed = check(!result.translation, 'no translation') && passed;
+  passed = check(translator.translated.length === 0, 'translator not called') && passed;
+  passed = check(!provider.runs[0]?.additionalInstructions, 'no language instructions') && passed;
+
+  return passed;
+}
+
+async function runRedFlagTest(logger: Logger): Promise<boolean> {
+  const provider = new RecordingProvider();
+  const translator = new StubTranslator();
+  const assistant = new LekinkTriageAssistant(provider, logger, translator);
+  let passed = true;
+
+  console.log('\n=== Red flag in another language ===');
+
+  const result = await assistant.processMessage(
+    SPANISH_EMERGENCY,
+    await provider.createConversation(),
+    `multilingual-patient-${Date.now()}`
+  );
+
+  passed = check(result.safety.flag !== 'none', 'red flag found through the translation') && passed;
+  passed = check(provider.runs.length === 0, 'LLM skipped') && passed;
+  passed = check(result.language === 'es', 'answered in Spanish') && passed;
+  passed = check(!!result.translation?.message, 'patient message translated to English') && passed;
+
+  return passed;
+}
+
+async function runProfileLanguageTest(logger: Logger): Promise<boolean> {
+  const provider = spanishProvider();
+  const translator = new StubTranslator();
+  const assistant = new LekinkTriageAssistant(provider, logger, translator);
+  let passed = true;
+
+  console.log('\n=== Language from the patient profile ===');
+
+  const result = await assistant.processMessage(
+    SPANISH_MESSAGE,
+    await provider.createConversation(),
+    'multilingual-profile-user'
+  );
+
+  passed = check(result.language === 'uk', "profile's preferred language wins over detection") && passed;
+  passed = check(translator.detected.length === 0, 'no detection with a preferred language') && passed;
+
+  return passed;
+}
+
+function runPreferenceTest(): boolean {
+  let passed = true;
+
+  console.log('\n=== Patient language preference ===');
+
+  passed =
+    check(
+      patientPreferredLanguage({
+        communication: [
+          { language: { coding: [{ system: 'urn:ietf:bcp:47', code: 'en' }] } },
+          { language: { coding: [{ system: 'urn:ietf:bcp:47', code: 'uk-UA' }] }, preferred: true },
+        ],
+      }) === 'uk',
+      'preferred communication language used'
+    ) && passed;
+  passed =
+    check(
+      patientPreferredLanguage({ communication: [{ language: { text: 'fa' } }] }) === 'fa',
+      'first communication language used without a preferred one'
+    ) && passed;
+  passed = check(patientPreferredLanguage({}) === undefined, 'no preference without communication') && passed;
+
+  return passed;
+}
+
+async function runMultilingualTest(): Promise<boolean> {
+  const logger = new Logger({ minLevel: LOG_LEVELS.ERROR });
+  const stored = stubFhirStorage([UKRAINIAN_PATIENT]);
+  let passed = await runDetectedLanguageTest(logger);
+  passed = (await runExplicitLanguageTest(logger)) && passed;
+  passed = (await runEnglishTest(logger)) && passed;
+  passed = (await runRedFlagTest(logger)) && passed;
+  passed = (await runProfileLanguageTest(logger)) && passed;
+  passed =
+    check([...stored.values()].some((resource) => resource.resourceType === 'Observation'), 'Observations stored') &&
+    passed;
+  return runPreferenceTest() && passed;
+}
+
+runMultilingualTest()
+  .then((passed) => {
+    console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+    process.exit(passed ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
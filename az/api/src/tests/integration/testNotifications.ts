@@ -0,0 +1,265 @@
+/**
+ * Offline test for notifications: emails go to a local SMTP sink, webhooks to
+ * a local HTTP server, and the inbox and delivery log to temporary files.
+ */
+
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import {
+  NotificationService,
+  EmailChannel,
+  InAppChannel,
+  WebhookChannel,
+  SmtpClient,
+  isHighRisk,
+  renderNotification,
+  webhookSignature,
+} from '../../services/notifications';
+
+interface SunkMail {
+  from: string;
+  to: string[];
+  data: string;
+  auth?: string;
+}
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+/**
+ * SMTP server that accepts everything except recipients at blocked.example
+ */
+function startSmtpSink(mails: SunkMail[]): Promise<net.Server> {
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let current: SunkMail = { from: '', to: [], data: '' };
+    let inData = false;
+    socket.write('220 sink ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        current.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        mails.push(current);
+        current = { from: '', to: [], data: '' };
+        inData = false;
+        socket.write('250 2.0.0 Ok: queued\r\n');
+      }
+
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const verb = line.split(' ')[0].toUpperCase();
+
+        if (verb === 'EHLO') socket.write('250-sink\r\n250 AUTH PLAIN\r\n');
+        else if (verb === 'AUTH') {
+          current.auth = Buffer.from(line.split(' ')[2] || '', 'base64').toString('utf8');
+          socket.write('235 2.7.0 Authentication successful\r\n');
+        } else if (verb === 'MAIL') {
+          current.from = line.slice(line.indexOf('<') + 1, line.indexOf('>'));
+          socket.write('250 Ok\r\n');
+        } else if (verb === 'RCPT') {
+          const to = line.slice(line.indexOf('<') + 1, line.indexOf('>'));
+          if (to.endsWith('@blocked.example')) {
+            socket.write('550 5.1.1 Mailbox unavailable\r\n');
+          } else {
+            current.to.push(to);
+            socket.write('250 Ok\r\n');
+          }
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'RSET') {
+          current = { from: '', to: [], data: '' };
+          socket.write('250 Ok\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('502 Command not implemented\r\n');
+        }
+      }
+    });
+    socket.on('error', () => undefined);
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function startWebhookSink(requests: { headers: http.IncomingHttpHeaders; body: string }[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.writeHead(req.url === '/fail' ? 500 : 204);
+      res.end();
+    });
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+const highRisk = {
+  resourceType: 'RiskAssessment',
+  id: 'risk-1',
+  status: 'final',
+  subject: { reference: 'Patient/patient-1' },
+  prediction: [
+    {
+      outcome: { text: 'Acute coronary syndrome' },
+      qualitativeRisk: {
+        coding: [{ system: 'http://terminology.hl7.org/CodeSystem/risk-probability', code: 'high' }],
+      },
+    },
+  ],
+};
+
+async function runNotificationTest(): Promise<boolean> {
+  let passed = true;
+  const mails: SunkMail[] = [];
+  const hooks: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+  const smtp = await startSmtpSink(mails);
+  const webhook = await startWebhookSink(hooks);
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lelink-notifications-'));
+
+  try {
+    const smtpPort = (smtp.address() as net.AddressInfo).port;
+    const webhookUrl = `http://127.0.0.1:${(webhook.address() as net.AddressInfo).port}`;
+
+    console.log('=== Templates ===');
+    passed = check(isHighRisk(highRisk), 'high qualitativeRisk alerts') && passed;
+    passed =
+      check(
+        !isHighRisk({ ...highRisk, prediction: [{ qualitativeRisk: { coding: [{ code: 'moderate' }] } }] }),
+        'moderate qualitativeRisk does not alert'
+      ) && passed;
+    const rendered = renderNotification(
+      'triage.high-risk',
+      { riskAssessment: highRisk, patientId: 'patient-1', patientName: 'Ada <Lovelace>' },
+      { appUrl: 'https://app.example/', recipientName: 'Dr. Grey' }
+    );
+    passed = check(rendered.body.includes('high risk of Acute coronary syndrome'), 'body names risk and outcome') && passed;
+    passed = check(rendered.email.html.includes('Ada &lt;Lovelace&gt;'), 'HTML is escaped') && passed;
+    passed = check(rendered.email.text.includes('https://app.example/dashboard/patients'), 'email links into the app') && passed;
+
+    const service = new NotificationService({
+      config: {
+        smtp: {
+          host: '127.0.0.1',
+          port: smtpPort,
+          secure: false,
+          user: 'mailer',
+          password: 'secret',
+          from: 'LeLink <notify@lelink.test>',
+          timeoutMs: 5000,
+        },
+        inAppEnabled: true,
+        webhooks: { urls: [webhookUrl, `${webhookUrl}/fail`], secret: 'hook-secret', events: [] },
+        alertEmails: [],
+        highRiskAlerts: true,
+        reminderLeadHours: 24,
+        appUrl: 'https://app.example',
+      },
+      logFile: path.join(dir, 'log.json'),
+      inboxFile: path.join(dir, 'inbox.json'),
+    });
+
+    console.log('\n=== Delivery on every channel ===');
+    const result = await service.notify(
+      'triage.high-risk',
+      { riskAssessment: highRisk, patientId: 'patient-1', patientName: 'Ada Lovelace' },
+      [
+        { userId: 'doc-1', email: 'doc1@clinic.example', name: 'Dr. Grey' },
+        { userId: 'doc-1', email: 'doc1@clinic.example' },
+        { email: 'oncall@blocked.example' },
+      ],
+      { dedupeKey: 'triage.high-risk:RiskAssessment/risk-1' }
+    );
+    const byChannel = (channel: string, status: string) =>
+      result.deliveries.filter((d) => d.channel === channel && d.status === status).length;
+
+    passed = check(mails.length === 1 && mails[0].to[0] === 'doc1@clinic.example', 'one email per recipient') && passed;
+    passed = check(mails[0]?.auth === '\0mailer\0secret', 'AUTH PLAIN credentials sent') && passed;
+    passed = check(/Subject: \[LeLink\] High-risk triage result/.test(mails[0]?.data || ''), 'subject from template') && passed;
+    passed =
+      check(
+        Buffer.from((mails[0]?.data || '').split('\r\n\r\n').pop() || '', 'base64').toString('utf8').includes('Hello Dr. Grey'),
+        'text part greets the recipient'
+      ) && passed;
+    passed = check(byChannel('email', 'failed') === 1, 'rejected recipient logged as failed') && passed;
+    passed = check(byChannel('in-app', 'sent') === 1, 'in-app only for recipients with a user ID') && passed;
+    passed = check(byChannel('webhook', 'sent') === 1 && byChannel('webhook', 'failed') === 1, 'webhook per URL') && passed;
+
+    const hook = hooks.find((h) => h.headers['x-lelink-event'] === 'triage.high-risk');
+    passed = check(hook?.headers['x-lelink-signature'] === webhookSignature(hook?.body || '', 'hook-secret'), 'webhook signed') && passed;
+    const payload = JSON.parse(hook?.body || '{}');
+    passed =
+      check(
+        payload.data?.riskAssessment === 'RiskAssessment/risk-1' && !hook?.body.includes('Ada'),
+        'webhook carries references, not names'
+      ) && passed;
+
+    console.log('\n=== Dedupe ===');
+    const again = await service.notify(
+      'triage.high-risk',
+      { riskAssessment: highRisk, patientId: 'patient-1' },
+      [{ userId: 'doc-1', email: 'doc1@clinic.example' }],
+      { dedupeKey: 'triage.high-risk:RiskAssessment/risk-1' }
+    );
+    passed = check(!!again.duplicate && mails.length === 1, 'same dedupe key is not sent twice') && passed;
+
+    console.log('\n=== Inbox and delivery log ===');
+    const inbox = service.getInbox()!;
+    const [notification] = await inbox.list('doc-1');
+    passed = check(notification?.title === 'High-risk triage result for Ada Lovelace', 'inbox entry stored') && passed;
+    passed = check((await inbox.unreadCount('doc-1')) === 1, 'unread until marked') && passed;
+    passed = check((await inbox.markRead('doc-1')) === 1 && (await inbox.unreadCount('doc-1')) === 0, 'mark all read') && passed;
+    passed = check((await inbox.list('someone-else')).length === 0, 'inboxes are per user') && passed;
+
+    const failed = await service.listDeliveries({ status: 'failed' });
+    passed = check(failed.length === 2 && failed.every((d) => !!d.error), 'failures kept with their error') && passed;
+
+    console.log('\n=== Channel configuration ===');
+    const unconfigured = new NotificationService({
+      channels: [
+        new EmailChannel(new SmtpClient({ port: 25, secure: false, from: 'x@y.z', timeoutMs: 1000 }), 'x@y.z'),
+        new InAppChannel(path.join(dir, 'inbox-disabled.json'), { enabled: false }),
+        new WebhookChannel({ urls: [], events: [] }),
+      ],
+      logFile: path.join(dir, 'log-disabled.json'),
+    });
+    passed = check(unconfigured.getStatus().every((s) => !s.enabled), 'channels without configuration are disabled') && passed;
+    const none = await unconfigured.notify('records.revoked', {
+      patientId: 'p',
+      practitionerId: 'd',
+      consentId: 'c',
+      reason: 'expired',
+    }, [{ userId: 'd', email: 'd@clinic.example' }]);
+    passed = check(none.deliveries.length === 0, 'nothing is sent on disabled channels') && passed;
+  } finally {
+    smtp.close();
+    webhook.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  return passed;
+}
+
+runNotificationTest()
+  .then((passed) => {
+    console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+    process.exit(passed ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
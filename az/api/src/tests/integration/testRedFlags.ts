@@ -0,0 +1,118 @@
+/**
+ * Offline test for red-flag screening: the rule engine on its own, the triage
+ * assistant skipping the (scripted) LLM for an emergency message, and a
+ * streamed reply advising emergency care being flagged before it is shown.
+ */
+
+import { LekinkTriageAssistant } from '../../assistants/lekainkTriageAssistant';
+import { ScriptedProvider } from '../../services/llm';
+import { redFlagService } from '../../services/redFlags';
+import { Logger, LOG_LEVELS } from '../../utils/logger';
+import { stubFhirStorage } from './storageStub';
+
+const patientCases: Array<{ message: string; previous?: string[]; ruleId: string | null }> = [
+  { message: 'I have chest pain and I am short of breath', ruleId: 'cardiac-chest-pain-dyspnea' },
+  { message: 'I have chest pain but no shortness of breath', ruleId: null },
+  { message: 'Now I also feel breathless', previous: ['My chest pain started an hour ago'], ruleId: 'cardiac-chest-pain-dyspnea' },
+  { message: 'Ich habe Brustschmerzen und Atemnot', ruleId: 'cardiac-chest-pain-dyspnea' },
+  { message: "Sometimes I think I want to end my life", ruleId: 'suicidal-ideation' },
+  { message: 'Her face is drooping and she has slurred speech', ruleId: 'stroke-signs' },
+  { message: 'I was out in the sun, could it be heat stroke?', ruleId: null },
+  { message: 'My baby is 6 weeks old and has a temperature of 38.4', ruleId: 'pediatric-fever-infant' },
+  { message: 'My son is 4 years old and has a fever of 38.5°C', ruleId: null },
+  { message: 'His temperature is 106 F', ruleId: 'hyperpyrexia' },
+  { message: 'I have had a headache and a fever since yesterday', ruleId: null },
+];
+
+const replyCases: Array<{ reply: string; flagged: boolean }> = [
+  { reply: 'Please call 911 now.', flagged: true },
+  { reply: 'If the pain gets worse, go to the nearest emergency department.', flagged: false },
+  { reply: 'Rest and drink plenty of fluids.', flagged: false },
+];
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+async function runRedFlagTest(): Promise<boolean> {
+  let passed = true;
+
+  console.log('=== Patient messages ===');
+  for (const { message, previous, ruleId } of patientCases) {
+    const result = redFlagService.screenPatientMessage(message, previous);
+    const matched = result.matches[0]?.ruleId || null;
+    passed = check(matched === ruleId, `"${message}" -> ${ruleId || 'no red flag'}`) && passed;
+  }
+
+  console.log('\n=== Assistant replies ===');
+  for (const { reply, flagged } of replyCases) {
+    const result = redFlagService.screenAssistantReply(reply);
+    passed = check(result.matches.length > 0 === flagged, `"${reply}" -> ${flagged ? 'flagged' : 'not flagged'}`) && passed;
+  }
+
+  console.log('\n=== Triage assistant ===');
+  const provider = new ScriptedProvider();
+  const assistant = new LekinkTriageAssistant(provider, new Logger({ minLevel: LOG_LEVELS.ERROR }));
+  const patientId = `red-flag-patient-${Date.now()}`;
+  const redFlags: string[] = [];
+
+  const result = await assistant.processMessage(
+    'Mir ist schwindelig, ich habe Brustschmerzen und Atemnot',
+    await provider.createConversation(),
+    patientId,
+    undefined,
+    { onRedFlag: (safety) => redFlags.push(...safety.redFlags.map((flag) => flag.ruleId)) }
+  );
+
+  passed = check(result.completionStatus.status === 'red_flag', 'LLM run skipped') && passed;
+  passed = check(result.reply.includes('Notruf'), 'emergency reply in the patient language') && passed;
+  passed = check(result.completionStatus.risk?.level === 'high', 'conversation risk is high') && passed;
+  passed =
+    check(
+      result.resources.RiskAssessment?.prediction?.[0]?.qualitativeRisk?.coding?.[0]?.code === 'high',
+      'high-risk RiskAssessment created'
+    ) && passed;
+  passed = check(redFlags.includes('cardiac-chest-pain-dyspnea'), 'red flag streamed') && passed;
+
+  console.log('\n=== Streamed assistant reply ===');
+  stubFhirStorage();
+  const reply = 'That sounds serious. Please call 911 now and stay on the line.';
+  const replyProvider = new ScriptedProvider([{ reply }]);
+  const events: string[] = [];
+  const tokens: string[] = [];
+  const streamed = await new LekinkTriageAssistant(replyProvider, new Logger({ minLevel: LOG_LEVELS.ERROR })).processMessage(
+    'I feel a bit off today',
+    await replyProvider.createConversation(),
+    `red-flag-reply-${Date.now()}`,
+    undefined,
+    {
+      onToken: (delta) => {
+        tokens.push(delta);
+        events.push(delta.includes('911') ? 'emergency text' : 'text');
+      },
+      onRedFlag: () => events.push('red flag'),
+    }
+  );
+
+  passed = check(streamed.safety.source === 'assistant', 'reply flagged') && passed;
+  passed =
+    check(
+      events.indexOf('red flag') >= 0 && events.indexOf('red flag') < events.indexOf('emergency text'),
+      'red flag sent before the text that raised it'
+    ) && passed;
+  passed = check(events[0] === 'text', 'text before the red flag still streamed') && passed;
+  passed = check(tokens.join('') === reply, 'streamed tokens add up to the reply') && passed;
+
+  return passed;
+}
+
+runRedFlagTest()
+  .then((passed) => {
+    console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+    process.exit(passed ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
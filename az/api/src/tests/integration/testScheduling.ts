@@ -0,0 +1,65 @@
+/**
+ * Offline test for the scheduling rules: slot generation, the Appointment
+ * state machine and participant lookup.
+ */
+
+import { canTransition, participantId, slotPeriods, MAX_SLOTS_PER_REQUEST } from '../../services/scheduling';
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+function rejects(fn: () => unknown): boolean {
+  try {
+    fn();
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+function runSchedulingTest(): boolean {
+  let passed = true;
+
+  console.log('=== Slot periods ===');
+  const periods = slotPeriods('2030-01-07T09:00:00.000Z', '2030-01-07T10:45:00.000Z', 30);
+  passed = check(periods.length === 3, 'whole slots only') && passed;
+  passed =
+    check(
+      periods[0].start === '2030-01-07T09:00:00.000Z' && periods[2].end === '2030-01-07T10:30:00.000Z',
+      'slots are consecutive'
+    ) && passed;
+  passed = check(rejects(() => slotPeriods('2030-01-07T10:00:00Z', '2030-01-07T09:00:00Z', 30)), 'end before start rejected') && passed;
+  passed = check(rejects(() => slotPeriods('2030-01-07T09:00:00Z', '2030-01-07T09:20:00Z', 30)), 'period shorter than a slot rejected') && passed;
+  passed = check(rejects(() => slotPeriods('2030-01-07T09:00:00Z', '2030-01-07T10:00:00Z', 2)), 'slot length bounded') && passed;
+  passed =
+    check(
+      rejects(() => slotPeriods('2030-01-01T00:00:00Z', '2030-02-01T00:00:00Z', 15)),
+      `more than ${MAX_SLOTS_PER_REQUEST} slots rejected`
+    ) && passed;
+
+  console.log('\n=== Status transitions ===');
+  passed = check(canTransition('booked', 'arrived'), 'booked -> arrived') && passed;
+  passed = check(canTransition('arrived', 'fulfilled'), 'arrived -> fulfilled') && passed;
+  passed = check(canTransition('pending', 'cancelled'), 'pending -> cancelled') && passed;
+  passed = check(!canTransition('cancelled', 'booked'), 'cancelled is final') && passed;
+  passed = check(!canTransition('fulfilled', 'noshow'), 'fulfilled is final') && passed;
+  passed = check(canTransition('fulfilled', 'entered-in-error'), 'anything can be entered in error') && passed;
+
+  console.log('\n=== Participants ===');
+  const appointment = {
+    resourceType: 'Appointment',
+    id: 'appt-1',
+    participant: [{ actor: { reference: 'Patient/user-1' } }, { actor: { reference: 'Practitioner/doc-1' } }],
+  };
+  passed = check(participantId(appointment, 'Patient') === 'user-1', 'patient found') && passed;
+  passed = check(participantId(appointment, 'Practitioner') === 'doc-1', 'practitioner found') && passed;
+  passed = check(participantId(appointment, 'Location') === undefined, 'missing participant') && passed;
+
+  return passed;
+}
+
+const passed = runSchedulingTest();
+console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+process.exit(passed ? 0 : 1);
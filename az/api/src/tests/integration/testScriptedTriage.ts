@@ -0,0 +1,126 @@
+/**
+ * Offline test for the LeLink Triage Assistant using the scripted LLM provider,
+ * including a turn that records several Observations in one session Encounter.
+ * Needs no OpenAI key or network access; FHIR storage is kept in memory.
+ */
+
+import { LekinkTriageAssistant } from '../../assistants/lekainkTriageAssistant';
+import { DEFAULT_TRIAGE_SCRIPT, ScriptedProvider } from '../../services/llm';
+import { Logger, LOG_LEVELS } from '../../utils/logger';
+import { stubFhirStorage } from './storageStub';
+
+const messages = [
+  'I have had a headache and a fever since yesterday',
+  'About 6/10, and I feel very tired',
+  'No other conditions, I take paracetamol',
+];
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+async function runOfflineTest(): Promise<boolean> {
+  const provider = new ScriptedProvider();
+  const logger = new Logger({ minLevel: LOG_LEVELS.WARN });
+  const patientId = `offline-patient-${Date.now()}`;
+
+  console.log('=== Scripted Triage Conversation ===');
+
+  let threadId = await provider.createConversation();
+  let passed = true;
+
+  for (const [index, message] of messages.entries()) {
+    const tokens: string[] = [];
+    const toolCalls: string[] = [];
+    const assistant = new LekinkTriageAssistant(provider, logger);
+
+    const result = await assistant.processMessage(message, threadId, patientId, undefined, {
+      onToken: (delta) => tokens.push(delta),
+      onToolCall: (name) => toolCalls.push(name),
+    });
+    threadId = result.threadId;
+
+    console.log(`\nUser: ${message}`);
+    console.log(`Bot: ${result.reply}`);
+
+    passed = check(result.reply.length > 0, 'reply is not empty') && passed;
+    passed = check(tokens.join('') === result.reply, 'streamed tokens add up to the reply') && passed;
+
+    const isLast = index === messages.length - 1;
+    passed = check(result.completionStatus.isComplete === isLast, `conversation complete: ${isLast}`) && passed;
+
+    if (isLast) {
+      const risk = result.resources.RiskAssessment;
+      passed = check(toolCalls.length === 3, 'three tool calls on the final turn') && passed;
+      passed = check(risk?.subject?.reference === `Patient/${patientId}`, 'RiskAssessment references the patient') && passed;
+      passed =
+        check(risk?.prediction?.[0]?.qualitativeRisk?.coding?.[0]?.code === 'moderate', 'RiskAssessment is moderate') &&
+        passed;
+      passed = check(risk?.status === 'preliminary', 'RiskAssessment awaits practitioner review') && passed;
+      passed = check(result.resources.Observation?.resourceType === 'Observation', 'Observation was created') && passed;
+    } else {
+      passed = check(toolCalls.length === 0, 'no tool calls before the final turn') && passed;
+    }
+  }
+
+  return passed;
+}
+
+async function runEncounterTest(): Promise<boolean> {
+  const [finalTurn] = DEFAULT_TRIAGE_SCRIPT.slice(-1);
+  const provider = new ScriptedProvider([
+    {
+      ...finalTurn,
+      toolCalls: [
+        { name: 'createObservation', arguments: { valueString: 'Headache since yesterday, 6/10' } },
+        { name: 'createObservation', arguments: { valueString: 'Fever and fatigue' } },
+        ...(finalTurn.toolCalls || []).filter((call) => call.name !== 'createObservation'),
+      ],
+    },
+  ]);
+  const logger = new Logger({ minLevel: LOG_LEVELS.WARN });
+  const patientId = `offline-patient-${Date.now()}`;
+  const encounterId = `session-${Date.now()}`;
+  let passed = true;
+
+  console.log('\n=== Several Observations in one session ===');
+
+  const assistant = new LekinkTriageAssistant(provider, logger);
+  const streamed: string[] = [];
+  const result = await assistant.processMessage(
+    messages[0],
+    await provider.createConversation(),
+    patientId,
+    undefined,
+    { onResource: (resourceType) => streamed.push(resourceType) },
+    { encounterId }
+  );
+
+  const { Observations, Observation, RiskAssessment } = result.resources;
+  const reference = `Encounter/${encounterId}`;
+  passed = check(Observations.length === 2, 'both Observations kept') && passed;
+  passed = check(Observation?.id === Observations[0]?.id, 'Observation is the first of them') && passed;
+  passed = check(new Set(Observations.map((obs) => obs.id)).size === 2, 'Observations have their own IDs') && passed;
+  passed =
+    check(
+      [RiskAssessment, ...Observations].every((resource) => resource?.encounter?.reference === reference),
+      'every resource references the session Encounter'
+    ) && passed;
+  passed = check(streamed.filter((type) => type === 'Observation').length === 2, 'both Observations streamed') && passed;
+
+  return passed;
+}
+
+stubFhirStorage();
+
+runOfflineTest()
+  .then(async (passed) => (await runEncounterTest()) && passed)
+  .then((passed) => {
+    console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+    process.exit(passed ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,170 @@
+/**
+ * Offline test for system settings: validation, change history, optimistic
+ * concurrency and runtime application to the shared configuration.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { SettingsService, SETTING_DEFINITIONS } from '../../services/settings';
+import { blockchainService } from '../../services/blockchain';
+import { blockchainConfig, notificationConfig, getDefault } from '../../utils/config';
+import { ConflictError, ValidationError } from '../../utils/errors';
+import { stubFhirStorage } from './storageStub';
+
+const CONTRACT = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+const admin = { userId: 'admin-1', name: 'Ada Admin' };
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+async function expectError<T extends Error>(
+  errorClass: new (...args: any[]) => T,
+  run: () => Promise<unknown>
+): Promise<T | null> {
+  try {
+    await run();
+  } catch (error) {
+    return error instanceof errorClass ? error : null;
+  }
+  return null;
+}
+
+async function runSettingsTest(): Promise<boolean> {
+  let passed = true;
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lelink-settings-'));
+  const filePath = path.join(dir, 'settings.json');
+
+  try {
+    const service = new SettingsService({ filePath, refreshMs: 0 });
+
+    console.log('=== Defaults ===');
+    const initial = await service.list();
+    passed =
+      check(
+        initial.revision === 0 && initial.settings.length === SETTING_DEFINITIONS.length,
+        'every setting listed'
+      ) && passed;
+    passed = check(initial.settings.every((setting) => !setting.overridden), 'nothing overridden yet') && passed;
+    const port = initial.settings.find((setting) => setting.key === 'notifications.smtp.port');
+    passed =
+      check(port?.value === getDefault('notifications.smtp.port'), 'effective value is the environment value') && passed;
+
+    console.log('\n=== Validation ===');
+    const invalid = await expectError(ValidationError, () =>
+      service.update(
+        {
+          'blockchain.contractAddress': '0x123',
+          'security.sessionTimeoutMinutes': 5000,
+          'notifications.alertEmails': ['oncall@clinic.example', 'not-an-email'],
+          'blockchain.privateKey': '0xabc',
+        },
+        admin
+      )
+    );
+    const errors = invalid?.details.errors || {};
+    passed = check(!!invalid, 'invalid values rejected') && passed;
+    const invalidKeys = [
+      'blockchain.contractAddress',
+      'security.sessionTimeoutMinutes',
+      'notifications.alertEmails',
+      'blockchain.privateKey',
+    ];
+    passed = check(invalidKeys.every((key) => key in errors), 'errors reported by key, including unknown keys') && passed;
+    passed = check((await service.list()).revision === 0, 'nothing saved when any value is invalid') && passed;
+
+    console.log('\n=== Save and apply ===');
+    const saved = await service.update(
+      {
+        'blockchain.enabled': false,
+        'blockchain.contractAddress': CONTRACT,
+        'notifications.alertEmails': [' oncall@clinic.example ', 'oncall@clinic.example'],
+        'security.sessionTimeoutMinutes': 15,
+      },
+      admin,
+      { revision: 0, reason: 'New contract deployment' }
+    );
+    passed =
+      check(saved?.revision === 1 && saved.reason === 'New contract deployment', 'revision recorded with reason') && passed;
+    passed =
+      check(
+        blockchainConfig.contractAddress === '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+        'address checksummed and applied'
+      ) && passed;
+    passed =
+      check(
+        blockchainService.getStatus().contractAddress === blockchainConfig.contractAddress,
+        'blockchain service reconfigured'
+      ) && passed;
+    passed =
+      check(notificationConfig.alertEmails.join() === 'oncall@clinic.example', 'email list trimmed and deduplicated') &&
+      passed;
+
+    const unchanged = await service.update({ 'security.sessionTimeoutMinutes': 15 }, admin);
+    passed = check(unchanged === null, 'saving the same value records nothing') && passed;
+
+    console.log('\n=== Concurrency ===');
+    const conflict = await expectError(ConflictError, () =>
+      service.update({ 'system.name': 'Stale' }, admin, { revision: 0 })
+    );
+    passed = check(conflict?.details.revision === 1, 'save against an old revision conflicts') && passed;
+
+    console.log('\n=== Other instances ===');
+    const other = new SettingsService({ filePath, refreshMs: 0 });
+    await other.update({ 'system.maintenanceMode': true }, { userId: 'admin-2' });
+    const runtime = await service.getRuntime();
+    passed = check(runtime.values['system.maintenanceMode'] === true, 'changes from another instance picked up') && passed;
+    passed = check(!('notifications.alertEmails' in runtime.values), 'runtime values leave out admin-only settings') && passed;
+
+    console.log('\n=== Reset and history ===');
+    await service.update({ 'blockchain.contractAddress': null, 'system.maintenanceMode': null }, admin);
+    passed =
+      check(
+        blockchainConfig.contractAddress === getDefault('blockchain.contractAddress'),
+        'reset restores the environment value'
+      ) && passed;
+
+    const history = await service.history();
+    passed = check(history.map((entry) => entry.revision).join() === '3,2,1', 'history newest first') && passed;
+    passed = check(history[0].changes.every((change) => change.reset), 'resets marked in history') && passed;
+    passed = check(history[1].changedBy.userId === 'admin-2', 'history records who changed it') && passed;
+    const contractHistory = await service.history({ key: 'blockchain.contractAddress' });
+    passed =
+      check(
+        contractHistory.length === 2 &&
+          contractHistory.every((entry) => entry.changes.some((change) => change.key === 'blockchain.contractAddress')),
+        'history filtered by key'
+      ) && passed;
+
+    console.log('\n=== Shared store ===');
+    stubFhirStorage();
+    const [first, second] = [new SettingsService({ refreshMs: 0 }), new SettingsService({ refreshMs: 0 })];
+    await Promise.all([
+      first.update({ 'system.name': 'Clinic One' }, admin),
+      second.update({ 'security.sessionTimeoutMinutes': 20 }, { userId: 'admin-2' }),
+    ]);
+    const shared = await first.list();
+    passed = check(shared.revision === 2, 'concurrent saves from two instances both kept') && passed;
+    passed =
+      check(
+        shared.settings.find((setting) => setting.key === 'security.sessionTimeoutMinutes')?.value === 20,
+        "another instance's save applies here"
+      ) && passed;
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  return passed;
+}
+
+runSettingsTest()
+  .then((passed) => {
+    console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+    process.exit(passed ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
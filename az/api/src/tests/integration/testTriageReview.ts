@@ -0,0 +1,152 @@
+/**
+ * Offline test for the triage review rules: request checks, what each decision
+ * does to the assessment, its Provenance and the queue order.
+ */
+
+import {
+  applyReview,
+  assessmentRiskLevel,
+  compareQueueItems,
+  practitionerReference,
+  reviewProvenance,
+  validateReviewRequest,
+  ReviewQueueItem,
+  ReviewRequest,
+  TRIAGE_REVIEW_EXTENSION_URL,
+} from '../../services/triageReview';
+import { fhirValidationService } from '../../services/fhirValidation';
+import type { Principal } from '../../services/auth';
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+function rejects(fn: () => unknown): boolean {
+  try {
+    fn();
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+const reviewer: Principal = { userId: 'doc-1', role: 'Practitioner', name: 'Dr. Ada Lovelace', roleSource: 'token' };
+// Onboarding stores the reviewer's profile under a generated ID
+const practitioner = practitionerReference(reviewer, {
+  resourceType: 'Practitioner',
+  id: 'practitioner-1750000000000-doc1',
+});
+
+const assessment = {
+  resourceType: 'RiskAssessment',
+  id: 'ra-1',
+  status: 'preliminary',
+  subject: { reference: 'Patient/patient-1' },
+  occurrenceDateTime: '2030-01-07T09:00:00.000Z',
+  prediction: [
+    {
+      outcome: { text: 'Viral infection' },
+      qualitativeRisk: {
+        coding: [{ system: 'http://terminology.hl7.org/CodeSystem/risk-probability', code: 'low' }],
+      },
+      rationale: 'Mild fever for two days',
+    },
+  ],
+  mitigation: 'Rest and fluids',
+  meta: { versionId: '1' },
+};
+
+function queueItem(riskLevel: string | undefined, assessedAt: string): ReviewQueueItem {
+  return { patientId: 'p', assessmentId: assessedAt, etag: 'W/"1"', riskLevel, assessedAt, assessment };
+}
+
+function runTriageReviewTest(): boolean {
+  let passed = true;
+
+  console.log('=== Requests ===');
+  const valid = (request: ReviewRequest) => !rejects(() => validateReviewRequest(request));
+  passed = check(valid({ decision: 'accept' }), 'accept needs nothing else') && passed;
+  passed = check(!valid({ decision: 'approve' as any }), 'unknown decision rejected') && passed;
+  passed = check(!valid({ decision: 'reject' }), 'reject needs a reason') && passed;
+  passed = check(valid({ decision: 'reject', note: 'Wrong patient' }), 'reject with a reason') && passed;
+  passed = check(!valid({ decision: 'amend', amendment: {} }), 'empty amendment rejected') && passed;
+  passed = check(!valid({ decision: 'amend', amendment: { riskLevel: 'severe' as any } }), 'unknown risk level rejected') && passed;
+  passed = check(!valid({ decision: 'accept', note: 'x'.repeat(2001) }), 'overlong note rejected') && passed;
+
+  console.log('\n=== Decisions ===');
+  const accepted = applyReview(assessment, practitioner, { decision: 'accept' }, '2030-01-07T10:00:00.000Z');
+  passed = check(accepted.status === 'final', 'accept finalises') && passed;
+  passed =
+    check(
+      accepted.performer?.reference === 'Practitioner/practitioner-1750000000000-doc1' && accepted.performer?.display === 'Dr. Ada Lovelace',
+      'practitioner is the performer'
+    ) && passed;
+  passed = check(assessment.status === 'preliminary', 'reviewed assessment is a copy') && passed;
+  passed = check(fhirValidationService.validate(accepted).valid, 'accepted assessment is valid') && passed;
+
+  const amended = applyReview(assessment, practitioner, {
+    decision: 'amend',
+    note: 'Worse than reported',
+    amendment: { riskLevel: 'high', mitigation: 'Emergency department now' },
+  });
+  passed = check(amended.status === 'amended', 'amend sets amended') && passed;
+  passed = check(assessmentRiskLevel(amended) === 'high', 'risk level replaced') && passed;
+  passed = check(amended.prediction[0].outcome.text === 'Viral infection', 'condition kept when not amended') && passed;
+  passed = check(amended.mitigation === 'Emergency department now', 'mitigation replaced') && passed;
+  passed =
+    check(
+      amended.note?.[0]?.text === 'Amended: Worse than reported' &&
+        amended.note[0].authorReference.reference === 'Practitioner/practitioner-1750000000000-doc1',
+      'note records the practitioner'
+    ) && passed;
+  passed = check(fhirValidationService.validate(amended).valid, 'amended assessment is valid') && passed;
+
+  const rejected = applyReview(assessment, practitioner, { decision: 'reject', note: 'Wrong patient' });
+  passed = check(rejected.status === 'entered-in-error', 'reject marks entered in error') && passed;
+  passed = check(!rejected.performer, 'rejected assessment has no performer') && passed;
+
+  console.log('\n=== Provenance ===');
+  const provenance = reviewProvenance('patient-1', 'ra-1', '1', '2', practitioner, 'accept');
+  passed = check(provenance.target[0].reference === 'RiskAssessment/ra-1/_history/2', 'targets the new version') && passed;
+  passed =
+    check(provenance.entity[0].what.reference === 'RiskAssessment/ra-1/_history/1', 'revises the AI version') && passed;
+  passed =
+    check(
+      provenance.agent[0].who.reference === 'Practitioner/practitioner-1750000000000-doc1',
+      "practitioner's resource is the agent"
+    ) && passed;
+  passed =
+    check(
+      practitionerReference(reviewer, null).reference === 'Practitioner/doc-1',
+      'user ID stands in without a Practitioner profile'
+    ) && passed;
+  passed =
+    check(
+      provenance.extension[0].url === TRIAGE_REVIEW_EXTENSION_URL && provenance.extension[0].valueCode === 'accept',
+      'decision recorded'
+    ) && passed;
+  passed = check(provenance.identifier[0].value === 'patient-1', 'stored with the patient') && passed;
+
+  console.log('\n=== Queue order ===');
+  const order = [
+    queueItem('low', '2030-01-07T08:00:00Z'),
+    queueItem(undefined, '2030-01-07T07:00:00Z'),
+    queueItem('high', '2030-01-07T09:00:00Z'),
+    queueItem('high', '2030-01-07T08:30:00Z'),
+    queueItem('moderate', '2030-01-07T06:00:00Z'),
+  ]
+    .sort(compareQueueItems)
+    .map((item) => `${item.riskLevel}@${item.assessedAt.slice(11, 16)}`);
+  passed =
+    check(
+      order.join(',') === 'high@08:30,high@09:00,moderate@06:00,low@08:00,undefined@07:00',
+      'highest risk first, then oldest'
+    ) && passed;
+
+  return passed;
+}
+
+const passed = runTriageReviewTest();
+console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+process.exit(passed ? 0 : 1);
@@ -0,0 +1,77 @@
+/**
+ * Offline test for conversation thread ownership: a thread started by one
+ * patient can't be continued by another. Runs the symptom assessment function
+ * with the scripted LLM provider and in-memory FHIR storage.
+ */
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { symptomAssessmentBot } from '../../functions/symptom-assessment-bot';
+import { authService, Principal } from '../../services/auth';
+import { settingsService } from '../../services/settings';
+import { aiConfig } from '../../utils/config';
+import { stubFhirStorage } from './storageStub';
+
+function check(condition: boolean, description: string): boolean {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  return condition;
+}
+
+/**
+ * Send a triage message as the given patient
+ */
+async function assess(userId: string, body: object): Promise<{ status?: number; body: any }> {
+  // Stands in for verifying the web app's token
+  authService.authenticate = async (): Promise<Principal> => ({ userId, role: 'Patient', roleSource: 'token' });
+
+  const response = await symptomAssessmentBot(
+    new HttpRequest({
+      method: 'POST',
+      url: 'http://localhost/api/symptom-assessment',
+      headers: { authorization: 'Bearer test', 'content-type': 'application/json' },
+      body: { string: JSON.stringify(body) },
+    }),
+    new InvocationContext({ invocationId: `threads-${userId}`, functionName: 'symptomAssessmentBot' })
+  );
+  return { status: response.status, body: response.jsonBody };
+}
+
+async function runTriageThreadTest(): Promise<boolean> {
+  let passed = true;
+
+  stubFhirStorage();
+  await settingsService.refresh(true);
+  aiConfig.provider = 'scripted';
+
+  console.log('=== Thread ownership ===');
+
+  const owner = `thread-owner-${Date.now()}`;
+  const other = `thread-other-${Date.now()}`;
+
+  const first = await assess(owner, { message: 'I have had a headache and a fever since yesterday' });
+  const threadId: string | undefined = first.body?.threadId;
+  passed = check(first.status === 200 && !!threadId, 'new conversation started') && passed;
+
+  const hijack = await assess(other, { message: 'What did I tell you earlier?', threadId });
+  passed = check(hijack.status === 403, "another patient can't continue the thread") && passed;
+  passed = check(!hijack.body?.reply, 'no reply from the other conversation') && passed;
+
+  const unknown = await assess(owner, { message: 'About 6/10', threadId: 'thread-nobody-started' });
+  passed = check(unknown.status === 403, 'unknown thread rejected') && passed;
+
+  const resumed = await assess(owner, { message: 'About 6/10, and I feel very tired', threadId });
+  passed =
+    check(resumed.status === 200 && resumed.body?.threadId === threadId, 'the owner continues the thread') && passed;
+  passed = check(resumed.body?.sessionId === first.body?.sessionId, 'in the same session') && passed;
+
+  return passed;
+}
+
+runTriageThreadTest()
+  .then((passed) => {
+    console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`);
+    process.exit(passed ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Canonical FHIR resource hashing
+ * @module utils/canonicalHash
+ *
+ * Resources are hashed as canonical JSON: object keys sorted, undefined values
+ * dropped, and meta fields that change on every write removed. The digest is
+ * keccak256, the same bytes32 the LeLink contract stores.
+ *
+ * Keep in sync with fe/LL-next/lib/hash.ts - a resource hashed by either side
+ * must produce the same digest.
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Meta fields stamped by storage after a resource is anchored
+ */
+export const VOLATILE_META_FIELDS = ['versionId', 'lastUpdated', 'source', 'environment'] as const;
+
+/**
+ * Serialize a value as JSON with sorted object keys
+ */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Canonical JSON form of a FHIR resource, without volatile meta fields
+ */
+export function canonicalizeResource(resource: Record<string, any>): string {
+  const { meta, ...rest } = resource;
+
+  if (meta && typeof meta === 'object') {
+    const stableMeta = { ...meta };
+    for (const field of VOLATILE_META_FIELDS) {
+      delete stableMeta[field];
+    }
+    if (Object.keys(stableMeta).length > 0) {
+      return canonicalJson({ ...rest, meta: stableMeta });
+    }
+  }
+
+  return canonicalJson(rest);
+}
+
+/**
+ * keccak256 digest of a resource's canonical JSON, as a 0x-prefixed bytes32 hex string
+ */
+export function hashResource(resource: Record<string, any>): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalizeResource(resource)));
+}
@@ -1,6 +1,10 @@
 /**
- * @fileoverview Configuration for OpenAI assistants and blockchain integration
+ * @fileoverview Configuration for OpenAI assistants, blockchain integration, storage and notifications
  * @module utils/config
+ *
+ * Values come from the environment at startup. Settings saved by administrators
+ * (services/settings) override them at runtime: `applyOverrides` updates the
+ * exported sections in place, so modules holding a section see the effective values.
  */
 
 export interface AssistantsConfig {
@@ -13,6 +17,10 @@ export interface BlockchainConfig {
   network: string;
   privateKey: string;
   contractAddress?: string;
+  /** Block the contract was deployed in; event lookups start there */
+  deploymentBlock: number;
+  /** Compare stored resources with their on-chain hashes */
+  verifyIntegrity: boolean;
 }
 
 export interface AzuriteConfig {
@@ -31,23 +39,165 @@ export interface FHIRStorageConfig {
   fhirService: FHIRServiceConfig;
 }
 
+export interface SmtpConfig {
+  /** No email is sent without a host */
+  host?: string;
+  port: number;
+  /** Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs: number;
+}
+
+export interface WebhookConfig {
+  urls: string[];
+  /** Signs each delivery (X-LeLink-Signature: sha256=HMAC of the body) */
+  secret?: string;
+  /** Event types to deliver; all if empty */
+  events: string[];
+}
+
+export interface NotificationConfig {
+  smtp: SmtpConfig;
+  inAppEnabled: boolean;
+  webhooks: WebhookConfig;
+  /** Also alerted on high-risk triage results, besides the patient's practitioners */
+  alertEmails: string[];
+  /** Alert on high-risk triage results */
+  highRiskAlerts: boolean;
+  reminderLeadHours: number;
+  /** Base URL of the web app, for links in notifications */
+  appUrl: string;
+}
+
+export interface SystemConfig {
+  name: string;
+  adminEmail: string;
+  timezone: string;
+  language: string;
+  description: string;
+  /** Only administrators may use the API */
+  maintenanceMode: boolean;
+  debugMode: boolean;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  /** 0 means passwords never expire */
+  expiryDays: number;
+  requireSpecialCharacters: boolean;
+  requireNumbers: boolean;
+  requireMixedCase: boolean;
+}
+
+export interface SecurityConfig {
+  /** Web sessions end after this many idle minutes; 0 disables the timeout */
+  sessionTimeoutMinutes: number;
+  password: PasswordPolicy;
+  adminTwoFactor: boolean;
+  ipRestriction: boolean;
+  dataEncryption: boolean;
+  auditLogging: boolean;
+  dataAnonymization: boolean;
+}
+
+export interface AIConfig {
+  /** LLM provider behind the triage assistant (see services/llm) */
+  provider: string;
+  /** Model used by the openai-chat provider */
+  chatModel: string;
+  /** Translator for multilingual triage (see services/translation) */
+  translationProvider: string;
+  /** Acuity scale the triage findings are scored on (see services/acuity): esi or manchester */
+  acuityScale: string;
+  triageEnabled: boolean;
+}
+
+export interface LoggingConfig {
+  /** Least severe level written: ERROR, WARN, INFO or DEBUG (system.debugMode forces DEBUG) */
+  level: string;
+  /** Redact secrets and PHI from log entries (see utils/logger) */
+  redaction: boolean;
+  /** Write values tagged as clinical content; off in production */
+  clinicalContent: boolean;
+  /** Field names redacted in addition to the logger's defaults */
+  redactFields: string[];
+  /** Request headers logged in addition to the logger's defaults; other headers are redacted */
+  allowedHeaders: string[];
+}
+
+export interface EHRConfig {
+  enabled: boolean;
+  type: string;
+  endpoint?: string;
+}
+
 export interface AppConfig {
+  system: SystemConfig;
+  security: SecurityConfig;
   assistants: AssistantsConfig;
+  ai: AIConfig;
   blockchain: BlockchainConfig;
   fhirStorage: FHIRStorageConfig;
+  notifications: NotificationConfig;
+  logging: LoggingConfig;
+  ehr: EHRConfig;
 }
 
+const list = (value?: string): string[] =>
+  (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
 const config: AppConfig = {
+  system: {
+    name: process.env.SYSTEM_NAME || 'LeLink Healthcare Platform',
+    adminEmail: process.env.ADMIN_EMAIL || 'admin@lelink.com',
+    timezone: 'utc',
+    language: 'en',
+    description:
+      'LeLink is a secure healthcare platform for refugees, providing immediate access to medical services with robust data privacy.',
+    maintenanceMode: process.env.MAINTENANCE_MODE === 'true',
+    debugMode: false,
+  },
+  security: {
+    sessionTimeoutMinutes: parseInt(process.env.SESSION_TIMEOUT_MINUTES || '30', 10),
+    password: {
+      minLength: 12,
+      expiryDays: 90,
+      requireSpecialCharacters: true,
+      requireNumbers: true,
+      requireMixedCase: true,
+    },
+    adminTwoFactor: true,
+    ipRestriction: false,
+    dataEncryption: true,
+    auditLogging: process.env.ENABLE_AUDIT_LOGGING !== 'false',
+    dataAnonymization: true,
+  },
   assistants: {
     conversation: process.env.OPENAI_CONVERSATION_ASSISTANT_ID,
   },
+  ai: {
+    provider: process.env.LLM_PROVIDER || 'openai-assistants',
+    chatModel: process.env.OPENAI_CHAT_MODEL || 'gpt-4o',
+    translationProvider: process.env.TRANSLATION_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'none'),
+    acuityScale: process.env.ACUITY_SCALE || 'esi',
+    triageEnabled: process.env.ENABLE_AI_TRIAGE !== 'false',
+  },
   blockchain: {
-    enabled: process.env.ENABLE_BLOCKCHAIN_LOGGING === 'true',
+    // BLOCKCHAIN_ENABLED and BLOCKCHAIN_CONTRACT_ADDRESS are the names the blockchain service used to read
+    enabled: (process.env.ENABLE_BLOCKCHAIN_LOGGING || process.env.BLOCKCHAIN_ENABLED) === 'true',
     rpcUrl: process.env.BLOCKCHAIN_RPC_URL || 'http://localhost:8545',
     network: process.env.BLOCKCHAIN_NETWORK || 'localhost',
     privateKey:
       process.env.BLOCKCHAIN_PRIVATE_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
-    contractAddress: process.env.LELINK_CONTRACT_ADDRESS,
+    contractAddress: process.env.LELINK_CONTRACT_ADDRESS || process.env.BLOCKCHAIN_CONTRACT_ADDRESS,
+    deploymentBlock: parseInt(process.env.LELINK_CONTRACT_DEPLOYMENT_BLOCK || '0', 10) || 0,
+    verifyIntegrity: true,
   },
   fhirStorage: {
     enabled: process.env.ENABLE_FHIR_STORAGE !== 'false', // Default to true
@@ -62,8 +212,66 @@ const config: AppConfig = {
       bearerToken: process.env.FHIR_SERVER_BEARER_TOKEN,
     },
   },
+  notifications: {
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      from: process.env.SMTP_FROM || 'LeLink Healthcare <notifications@lelink.health>',
+      timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '15000', 10),
+    },
+    inAppEnabled: process.env.ENABLE_IN_APP_NOTIFICATIONS !== 'false',
+    webhooks: {
+      urls: list(process.env.NOTIFICATION_WEBHOOK_URLS),
+      secret: process.env.NOTIFICATION_WEBHOOK_SECRET,
+      events: list(process.env.NOTIFICATION_WEBHOOK_EVENTS),
+    },
+    alertEmails: list(process.env.NOTIFICATION_ALERT_EMAILS),
+    highRiskAlerts: process.env.ENABLE_HIGH_RISK_ALERTS !== 'false',
+    reminderLeadHours: parseInt(process.env.APPOINTMENT_REMINDER_LEAD_HOURS || '24', 10),
+    appUrl: process.env.APP_URL || 'http://localhost:3000',
+  },
+  logging: {
+    level: (process.env.LOG_LEVEL || (process.env.NODE_ENV === 'production' ? 'INFO' : 'DEBUG')).toUpperCase(),
+    redaction: process.env.LOG_REDACTION !== 'false',
+    clinicalContent: process.env.LOG_CLINICAL_CONTENT
+      ? process.env.LOG_CLINICAL_CONTENT === 'true'
+      : process.env.NODE_ENV !== 'production',
+    redactFields: list(process.env.LOG_REDACT_FIELDS),
+    allowedHeaders: list(process.env.LOG_ALLOWED_HEADERS),
+  },
+  ehr: {
+    enabled: false,
+    type: 'fhir',
+    endpoint: process.env.EHR_ENDPOINT,
+  },
 };
 
+/** Values from the environment, before any overrides */
+const defaults: AppConfig = structuredClone(config);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Make `target` equal to `source` without replacing nested objects
+ */
+function assignInPlace(target: Record<string, any>, source: Record<string, any>): void {
+  Object.keys(target)
+    .filter((key) => !(key in source))
+    .forEach((key) => delete target[key]);
+
+  Object.entries(source).forEach(([key, value]) => {
+    if (isPlainObject(value) && isPlainObject(target[key])) {
+      assignInPlace(target[key], value);
+    } else {
+      target[key] = structuredClone(value);
+    }
+  });
+}
+
 /**
  * Get configuration value using dot notation
  * @param key - Configuration key path (dot notation)
@@ -75,10 +283,40 @@ export function get<T = any>(key: string, defaultValue: T | null = null): T | nu
   return value !== undefined ? value : defaultValue;
 }
 
+/**
+ * Environment value of a configuration key, ignoring overrides
+ * @param key - Configuration key path (dot notation)
+ */
+export function getDefault<T = any>(key: string): T | undefined {
+  return key.split('.').reduce((obj: any, k: string) => obj?.[k], defaults);
+}
+
+/**
+ * Replace the effective configuration with the environment values plus `overrides`
+ * @param overrides - Values by configuration key path (dot notation)
+ */
+export function applyOverrides(overrides: Record<string, unknown>): void {
+  assignInPlace(config, defaults);
+
+  Object.entries(overrides).forEach(([key, value]) => {
+    const path = key.split('.');
+    const parent = path.slice(0, -1).reduce((obj: any, k: string) => obj?.[k], config);
+    if (isPlainObject(parent)) {
+      parent[path[path.length - 1]] = structuredClone(value);
+    }
+  });
+}
+
 // Export individual config sections for convenience
+export const systemConfig = config.system;
+export const securityConfig = config.security;
 export const assistantsConfig = config.assistants;
+export const aiConfig = config.ai;
 export const blockchainConfig = config.blockchain;
 export const fhirStorageConfig = config.fhirStorage;
+export const notificationConfig = config.notifications;
+export const loggingConfig = config.logging;
+export const ehrConfig = config.ehr;
 
 // Export the entire config as default
 export default config;
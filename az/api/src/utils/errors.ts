@@ -108,3 +108,53 @@ export class BlockchainError extends ApplicationError {
     this.details = details;
   }
 }
+
+/**
+ * Error for a notification that could not be delivered on a channel
+ */
+export class NotificationError extends ApplicationError {
+  public readonly channel: string;
+  public readonly details: ErrorDetails;
+
+  constructor(message: string, channel: string, details: ErrorDetails = {}) {
+    super(message, 'NOTIFICATION_ERROR', 502);
+    this.channel = channel;
+    this.details = details;
+  }
+}
+
+/**
+ * Error for a request that conflicts with the current state of a resource
+ */
+export class ConflictError extends ApplicationError {
+  public readonly details: ErrorDetails;
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, 'CONFLICT', 409);
+    this.details = details;
+  }
+}
+
+/**
+ * Error for a missing, invalid or expired bearer token
+ */
+export class AuthenticationError extends ApplicationError {
+  public readonly details: ErrorDetails;
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, 'AUTHENTICATION_ERROR', 401);
+    this.details = details;
+  }
+}
+
+/**
+ * Error for an authenticated caller the access policy denies
+ */
+export class AuthorizationError extends ApplicationError {
+  public readonly details: ErrorDetails;
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, 'AUTHORIZATION_ERROR', 403);
+    this.details = details;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Authentication, authorization and CORS for HTTP functions
+ * @module utils/httpAuth
+ *
+ * Function handlers run through `secured`, which authenticates the bearer token,
+ * applies the access policy for the route and restricts CORS to the allowed
+ * origins (ALLOWED_ORIGINS, comma-separated). It also picks up saved settings;
+ * in maintenance mode only administrators get through. Rejected tokens and denied
+ * access are recorded in the audit trail.
+ */
+
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { authService, Principal } from '../services/auth.js';
+import { accessPolicyService, AccessAction, AccessDecision } from '../services/accessPolicy.js';
+import { settingsService } from '../services/settings.js';
+import { auditService, AuditActor } from '../services/audit.js';
+import { systemConfig } from './config.js';
+import { AuthenticationError, AuthorizationError } from './errors.js';
+
+export interface AuthContext {
+  principal: Principal;
+  /** Decision for the route's access requirement; absent when the route only needs a signed-in user */
+  decision?: AccessDecision;
+}
+
+export interface RouteAccess {
+  action: AccessAction;
+  patientId?: string;
+}
+
+export type SecuredHandler = (
+  request: HttpRequest,
+  context: InvocationContext,
+  auth: AuthContext
+) => Promise<HttpResponseInit>;
+
+const allowedOrigins = (process.env.ALLOWED_ORIGINS || 'http://localhost:3000')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+/**
+ * CORS headers for a request: the origin is echoed only if it is allowed
+ */
+export function corsHeaders(request: HttpRequest, methods: string): Record<string, string> {
+  const origin = request.headers.get('origin');
+  return {
+    ...(origin && allowedOrigins.includes(origin) && { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' }),
+    'Access-Control-Allow-Methods': methods,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match, If-None-Match',
+  };
+}
+
+/**
+ * Run a handler for an authenticated caller the access policy allows
+ * @param access - Action and patient compartment the route needs; null if any signed-in user may call it
+ */
+export async function secured(
+  request: HttpRequest,
+  context: InvocationContext,
+  access: RouteAccess | null,
+  handler: SecuredHandler
+): Promise<HttpResponseInit> {
+  await settingsService.refresh();
+
+  let auth: AuthContext;
+  let principal: Principal | undefined;
+
+  try {
+    principal = await authService.authenticate(request.headers.get('authorization'));
+    const decision = access
+      ? await accessPolicyService.authorize(principal, { ...access, requestId: context.invocationId })
+      : undefined;
+    auth = { principal, decision };
+  } catch (error) {
+    if (error instanceof AuthenticationError || error instanceof AuthorizationError) {
+      await auditService.record({
+        ...auditContext(request, context, principal && { principal }),
+        type: 'security',
+        severity: 'warning',
+        outcome: 'failure',
+        ...(error instanceof AuthenticationError
+          ? { action: 'auth.token_rejected', description: `Request rejected: ${error.message}` }
+          : {
+              action: 'access.denied',
+              description: `Access denied: ${error.message}`,
+              patientId: access?.patientId,
+              details: { action: access?.action, route: new URL(request.url).pathname },
+            }),
+      });
+
+      return withCors(request, {
+        status: error.statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(error instanceof AuthenticationError && { 'WWW-Authenticate': 'Bearer' }),
+        },
+        body: JSON.stringify({
+          success: false,
+          error: error.code,
+          message: error.message,
+          timestamp: new Date().toISOString(),
+        }),
+      });
+    }
+    throw error;
+  }
+
+  if (systemConfig.maintenanceMode && auth.principal.role !== 'Admin') {
+    return withCors(request, {
+      status: 503,
+      headers: { 'Content-Type': 'application/json', 'Retry-After': '300' },
+      body: JSON.stringify({
+        success: false,
+        error: 'MAINTENANCE',
+        message: 'The system is down for maintenance',
+        timestamp: new Date().toISOString(),
+      }),
+    });
+  }
+
+  return withCors(request, await handler(request, context, auth));
+}
+
+/**
+ * Address of the client that made the request; the web app forwards its user's in X-Forwarded-For
+ */
+export function clientIp(request: HttpRequest): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0].trim();
+  if (!forwarded) {
+    return undefined;
+  }
+  // Azure appends the client port: "203.0.113.7:51234" or "[2001:db8::1]:51234"
+  const bracketed = forwarded.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    return bracketed[1];
+  }
+  return /^[\d.]+:\d+$/.test(forwarded) ? forwarded.slice(0, forwarded.lastIndexOf(':')) : forwarded;
+}
+
+/**
+ * Actor, client address and correlation ID of a request, for audit events
+ */
+export function auditContext(
+  request: HttpRequest,
+  context: InvocationContext,
+  auth?: AuthContext
+): { actor: AuditActor | null; ipAddress?: string; correlationId: string } {
+  const principal = auth?.principal;
+  return {
+    actor: principal
+      ? { userId: principal.userId, role: principal.role, name: principal.name, email: principal.email }
+      : null,
+    ipAddress: clientIp(request),
+    correlationId: request.headers.get('x-correlation-id') || context.invocationId,
+  };
+}
+
+/**
+ * Replace a response's CORS origin with the one allowed for the request, and
+ * expose the version headers next to any the response already exposes
+ */
+export function withCors(request: HttpRequest, response: HttpResponseInit): HttpResponseInit {
+  const headers = { ...((response.headers as Record<string, string>) || {}) };
+  delete headers['Access-Control-Allow-Origin'];
+
+  const origin = request.headers.get('origin');
+  if (origin && allowedOrigins.includes(origin)) {
+    headers['Access-Control-Allow-Origin'] = origin;
+    const exposed = (headers['Access-Control-Expose-Headers'] || '').split(',').map((name) => name.trim());
+    headers['Access-Control-Expose-Headers'] = [...new Set([...exposed, 'ETag', 'Last-Modified'])]
+      .filter(Boolean)
+      .join(', ');
+    headers['Vary'] = 'Origin';
+  }
+
+  return { ...response, headers };
+}
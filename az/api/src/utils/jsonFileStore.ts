@@ -0,0 +1,62 @@
+/**
+ * @fileoverview JSON file store for local service state
+ * @module utils/jsonFileStore
+ *
+ * Holds state such as the notification inbox and saved settings on local disk,
+ * like the anchor queue. Writes are serialized within the process and replace
+ * the file atomically. Only one instance sees the file: deployed, state lives in
+ * blob storage instead (see services/stateStore).
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * JSON state that is read whole and changed by read-modify-write
+ */
+export interface JsonStore<T> {
+  read(): Promise<T>;
+  update<R = void>(mutate: (state: T) => R): Promise<R>;
+}
+
+export class JsonFileStore<T> implements JsonStore<T> {
+  private filePath: string;
+  private empty: () => T;
+  private fileLock: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, empty: () => T) {
+    this.filePath = filePath;
+    this.empty = empty;
+  }
+
+  public async read(): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.empty();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read-modify-write the file, serialized within this process
+   */
+  public async update<R = void>(mutate: (state: T) => R): Promise<R> {
+    const run = this.fileLock.then(async () => {
+      const state = await this.read();
+      const result = mutate(state);
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(state, null, 2), 'utf8');
+      await fs.rename(tmpPath, this.filePath);
+
+      return result;
+    });
+
+    this.fileLock = run.catch(() => undefined);
+    return run;
+  }
+}
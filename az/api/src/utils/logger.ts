@@ -2,8 +2,16 @@
  * @fileoverview Logger utility for the Levea Health Bot
  * @description Provides structured logging functionality with different log levels
  * and formatting options for the application.
+ *
+ * Entries are redacted before they are written (config.logging):
+ * - fields on the deny-list (credentials, contact details, patient names) are masked
+ * - emails, phone numbers and the user's own name and email are masked in any text
+ * - `headers` keep only allow-listed request headers
+ * - values wrapped in `clinical()` are dropped unless clinical content logging is on
  */
 
+import { loggingConfig, systemConfig } from './config.js';
+
 export enum LOG_LEVELS {
   ERROR = 'ERROR',
   WARN = 'WARN',
@@ -17,9 +25,12 @@ export interface LogMetadata {
 }
 
 export interface LoggerOptions {
+  /** Defaults to config.logging.level */
   minLevel?: LOG_LEVELS;
   correlationId?: string;
   defaultMeta?: Record<string, any>;
+  /** Values masked wherever they appear, such as the user's name and email */
+  sensitiveValues?: string[];
 }
 
 export interface FormattedError {
@@ -33,6 +44,13 @@ export interface FormattedError {
   context?: any;
 }
 
+interface RedactionScope {
+  deniedFields: Set<string>;
+  allowedHeaders: Set<string>;
+  /** Objects already visited, to stop at cycles */
+  seen: WeakSet<object>;
+}
+
 export interface LogEntry {
   timestamp: string;
   level: LOG_LEVELS;
@@ -43,18 +61,125 @@ export interface LogEntry {
   [key: string]: any;
 }
 
+export const REDACTED = '[REDACTED]';
+export const CLINICAL_CONTENT_PLACEHOLDER = '[clinical content]';
+
+/**
+ * Field names whose values are never logged, compared ignoring case, "-" and "_"
+ */
+export const DEFAULT_REDACTED_FIELDS = [
+  'password',
+  'secret',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'idToken',
+  'bearerToken',
+  'apiKey',
+  'x-api-key',
+  'privateKey',
+  'connectionString',
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'x-functions-key',
+  'email',
+  'phone',
+  'phoneNumber',
+  'telecom',
+  'address',
+  'patientName',
+  'userName',
+  'firstName',
+  'lastName',
+  'fullName',
+  'givenName',
+  'familyName',
+  'birthDate',
+  'dateOfBirth',
+  'ssn',
+];
+
+/**
+ * Request headers logged as they are; the values of all others are redacted
+ */
+export const DEFAULT_ALLOWED_HEADERS = [
+  'accept',
+  'accept-language',
+  'content-length',
+  'content-type',
+  'host',
+  'user-agent',
+  'x-correlation-id',
+  'x-request-id',
+  'x-session-id',
+  'x-ms-client-request-id',
+];
+
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu;
+
+// Digit runs with phone separators; isPhoneNumber() decides which of them are phone numbers
+const PHONE_CANDIDATE_PATTERN = /(?<![\w.:/-])\+?\(?\d[\d\s().-]{5,}\d(?![\w-])/g;
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[-_]/g, '');
+
+/**
+ * A phone number is 7-15 digits with a leading "+" or separators, or a national number starting
+ * with 0. Plain digit runs (ids, timestamps) and dates are not.
+ */
+function isPhoneNumber(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  if (digits.length < 7 || digits.length > 15 || /^\d{4}-\d{2}-\d{2}$/.test(candidate.trim())) {
+    return false;
+  }
+  return /^\d+$/.test(candidate) ? candidate.startsWith('0') : true;
+}
+
+/**
+ * Value that is clinical content (patient messages, assessments, tool arguments):
+ * logged only where config.logging.clinicalContent is on
+ */
+export class ClinicalContent<T = unknown> {
+  constructor(public readonly value: T) {}
+
+  public toJSON(): T | string {
+    return loggingConfig.clinicalContent ? this.value : CLINICAL_CONTENT_PLACEHOLDER;
+  }
+}
+
+/**
+ * Tag a log value as clinical content
+ */
+export function clinical<T>(value: T): ClinicalContent<T> {
+  return new ClinicalContent(value);
+}
+
+/**
+ * Level configured for the application; debug mode logs everything
+ */
+function configuredLevel(): LOG_LEVELS {
+  if (systemConfig.debugMode) {
+    return LOG_LEVELS.DEBUG;
+  }
+  const level = loggingConfig.level.toUpperCase() as LOG_LEVELS;
+  return Object.values(LOG_LEVELS).includes(level) ? level : LOG_LEVELS.INFO;
+}
+
 /**
  * Logger class for structured logging with different levels
  */
 export class Logger {
-  private minLevel: LOG_LEVELS;
+  private minLevel?: LOG_LEVELS;
   private correlationId?: string;
   private defaultMeta: Record<string, any>;
+  private sensitiveValues: string[];
 
   constructor(options: LoggerOptions = {}) {
-    this.minLevel = options.minLevel || LOG_LEVELS.DEBUG;
+    this.minLevel = options.minLevel;
     this.correlationId = options.correlationId;
     this.defaultMeta = options.defaultMeta || {};
+    this.sensitiveValues = [];
+    this.addSensitiveValues(...(options.sensitiveValues || []));
   }
 
   public setCorrelationId(correlationId: string): void {
@@ -62,6 +187,92 @@ export class Logger {
     this.defaultMeta.correlationId = correlationId;
   }
 
+  /**
+   * Mask these values in every later entry, e.g. the name and email of the user a request is for.
+   * Names are also masked word by word.
+   */
+  public addSensitiveValues(...values: Array<string | null | undefined>): void {
+    const words = values
+      .filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+      .flatMap((value) => [value.trim(), ...value.trim().split(/\s+/)])
+      .filter((word) => word.length >= 3);
+    this.sensitiveValues = [...new Set([...this.sensitiveValues, ...words])].sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Mask emails, phone numbers and sensitive values in a text
+   * @private
+   */
+  private _redactText(text: string): string {
+    let redacted = text
+      .replace(EMAIL_PATTERN, '[EMAIL]')
+      .replace(PHONE_CANDIDATE_PATTERN, (candidate) => (isPhoneNumber(candidate) ? '[PHONE]' : candidate));
+
+    for (const value of this.sensitiveValues) {
+      const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      redacted = redacted.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu'), REDACTED);
+    }
+    return redacted;
+  }
+
+  /**
+   * Keep allow-listed headers; redact the values of the others
+   * @private
+   */
+  private _redactHeaders(headers: any, scope: RedactionScope): Record<string, string> {
+    const entries: Array<[string, unknown]> =
+      typeof headers?.entries === 'function' ? [...headers.entries()] : Object.entries(headers || {});
+
+    return Object.fromEntries(
+      entries.map(([name, value]) => [
+        name,
+        scope.allowedHeaders.has(normalizeName(name)) ? this._redactText(String(value)) : REDACTED,
+      ])
+    );
+  }
+
+  /**
+   * Redact a log value according to config.logging
+   * @private
+   * @param value - Value to redact
+   * @param scope - Deny- and allow-lists of this entry
+   * @returns Redacted copy of the value
+   */
+  private _redact(value: unknown, scope: RedactionScope): unknown {
+    if (value instanceof ClinicalContent) {
+      return loggingConfig.clinicalContent ? this._redact(value.value, scope) : CLINICAL_CONTENT_PLACEHOLDER;
+    }
+    if (typeof value === 'string') {
+      return this._redactText(value);
+    }
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+      return value;
+    }
+    if (scope.seen.has(value)) {
+      return '[Circular]';
+    }
+    scope.seen.add(value);
+
+    if (value instanceof Error) {
+      return this._redact(this._formatError(value), scope);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this._redact(item, scope));
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        if (scope.deniedFields.has(normalizeName(key)) && item !== undefined && item !== null && item !== '') {
+          return [key, REDACTED];
+        }
+        if (key.toLowerCase() === 'headers' && item && typeof item === 'object') {
+          return [key, this._redactHeaders(item, scope)];
+        }
+        return [key, this._redact(item, scope)];
+      })
+    );
+  }
+
   /**
    * Format error object for logging
    * @private
@@ -129,7 +340,14 @@ export class Logger {
       formatted.meta = meta;
     }
 
-    return formatted;
+    if (!loggingConfig.redaction) {
+      return formatted;
+    }
+    return this._redact(formatted, {
+      deniedFields: new Set([...DEFAULT_REDACTED_FIELDS, ...loggingConfig.redactFields].map(normalizeName)),
+      allowedHeaders: new Set([...DEFAULT_ALLOWED_HEADERS, ...loggingConfig.allowedHeaders].map(normalizeName)),
+      seen: new WeakSet(),
+    }) as LogEntry;
   }
 
   /**
@@ -140,7 +358,7 @@ export class Logger {
    */
   private _shouldLog(level: LOG_LEVELS): boolean {
     const levels = Object.values(LOG_LEVELS);
-    return levels.indexOf(level) <= levels.indexOf(this.minLevel);
+    return levels.indexOf(level) <= levels.indexOf(this.minLevel || configuredLevel());
   }
 
   /**
@@ -204,6 +422,7 @@ export class Logger {
         ...this.defaultMeta,
         ...options.defaultMeta,
       },
+      sensitiveValues: [...this.sensitiveValues, ...(options.sensitiveValues || [])],
     });
   }
 }
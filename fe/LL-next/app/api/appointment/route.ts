@@ -1,16 +1,47 @@
 import { NextRequest } from 'next/server';
-import { getAllAppointments } from '@/lib/fhir';
+import { createAppointment, searchAppointments } from '@/lib/actions/appointments';
+import type { AppointmentStatus } from '@/lib/types/appointment';
 
+/**
+ * GET /api/appointment?patientId=&practitionerId=&startDate=&endDate=&status=&page=&limit=
+ * Appointments of the signed-in user (or the given patient/practitioner), from the scheduling API
+ */
 export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  const result = await searchAppointments({
+    patientId: params.get('patientId') || undefined,
+    practitionerId: params.get('practitionerId') || undefined,
+    startDate: params.get('startDate') || undefined,
+    endDate: params.get('endDate') || undefined,
+    // Validated against the status values by searchAppointments
+    status: (params.get('status') || undefined) as AppointmentStatus | undefined,
+    page: params.has('page') ? Number(params.get('page')) : undefined,
+    limit: params.has('limit') ? Number(params.get('limit')) : undefined,
+  });
+
+  if (!result.success) {
+    return Response.json({ error: result.error }, { status: result.error === 'Authentication required' ? 401 : 500 });
+  }
+  return Response.json(result.data);
+}
+
+/**
+ * POST /api/appointment
+ * Book a slot: { practitionerId, slotId, patientId?, description?, reason? }
+ */
+export async function POST(request: NextRequest) {
+  let body: any;
   try {
-    const encounters = await getAllAppointments();
-    return new Response(JSON.stringify(encounters), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
-    });
-  } catch (err: any) {
-    return new Response(JSON.stringify({ error: err.message }), {
-      status: 500,
-    });
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+
+  const result = await createAppointment(body);
+
+  if (!result.success) {
+    return Response.json({ error: result.error }, { status: result.error === 'Authentication required' ? 401 : 400 });
   }
+  return Response.json(result.data, { status: 201 });
 }
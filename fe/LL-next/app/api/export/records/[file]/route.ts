@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  RECORD_EXPORT_FORMATS,
+  canExportPatient,
+  fetchPatientExport,
+  parseExportFileName,
+} from '@/lib/fhir-storage/export';
+
+/**
+ * GET /api/export/records/{patientId}.{fhir|json|pdf}
+ * Downloads all of a patient's records with their blockchain anchors
+ *
+ * Optional query parameters: bundleType (collection|searchset), ids, types
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ file: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { file } = await params;
+    const parsed = parseExportFileName(file, RECORD_EXPORT_FORMATS);
+    if (!parsed) {
+      return NextResponse.json(
+        { error: `Invalid export file. Expected {patientId}.{${RECORD_EXPORT_FORMATS.join('|')}}` },
+        { status: 400 }
+      );
+    }
+
+    if (!canExportPatient(session, parsed.id)) {
+      return NextResponse.json({ error: 'Not allowed to export these records' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const bundleType = searchParams.get('bundleType');
+
+    return await fetchPatientExport(parsed.id, parsed.format, {
+      bundleType: bundleType === 'searchset' ? 'searchset' : 'collection',
+      ids: searchParams.get('ids')?.split(',').filter(Boolean),
+      types: searchParams.get('types')?.split(',').filter(Boolean),
+    });
+  } catch (error) {
+    console.error('[EXPORT_RECORDS_API] Error exporting records:', error);
+
+    return NextResponse.json({ error: 'Failed to export records' }, { status: 500 });
+  }
+}
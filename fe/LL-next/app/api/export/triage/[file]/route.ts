@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { fhirStorageClient } from '@/lib/fhir-storage/client';
+import { canExportPatient, fetchPatientExport, parseExportFileName } from '@/lib/fhir-storage/export';
+import type { PatientResourcesByTypeData } from '@/lib/fhir-storage/types';
+import type { Observation, RiskAssessment } from '@/lib/types/fhir';
+
+const TRIAGE_EXPORT_FORMATS = ['json', 'pdf'] as const;
+
+/**
+ * GET /api/export/triage/{riskAssessmentId}.{json|pdf}?patientId=...
+ * Downloads a triage assessment: the RiskAssessment and the Observations it is
+ * based on or that share its encounter, each with its blockchain anchor.
+ * patientId defaults to the signed-in user.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ file: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { file } = await params;
+    const parsed = parseExportFileName(file, TRIAGE_EXPORT_FORMATS);
+    if (!parsed) {
+      return NextResponse.json(
+        { error: `Invalid export file. Expected {sessionId}.{${TRIAGE_EXPORT_FORMATS.join('|')}}` },
+        { status: 400 }
+      );
+    }
+
+    const patientId = request.nextUrl.searchParams.get('patientId') || session.user.id;
+    if (!canExportPatient(session, patientId)) {
+      return NextResponse.json({ error: 'Not allowed to export this assessment' }, { status: 403 });
+    }
+
+    const assessmentResult = await fhirStorageClient.get<RiskAssessment>(
+      `/resource/${encodeURIComponent(patientId)}/RiskAssessment/${encodeURIComponent(parsed.id)}`
+    );
+    const assessment = assessmentResult.data;
+    if (!assessmentResult.success || !assessment?.id) {
+      return NextResponse.json({ error: 'Triage assessment not found' }, { status: 404 });
+    }
+
+    // Observations referenced by the assessment or recorded in the same encounter
+    const basisIds = (assessment.basis || [])
+      .map((ref) => ref.reference?.split('/').pop())
+      .filter((id): id is string => !!id);
+    const encounterRef = assessment.encounter?.reference;
+
+    const observationsResult = await fhirStorageClient.get<PatientResourcesByTypeData>(
+      `/${encodeURIComponent(patientId)}/Observation`
+    );
+    const observations = (observationsResult.data?.resources || []) as Observation[];
+    const observationIds = observations
+      .filter(
+        (obs) =>
+          (!!obs.id && basisIds.includes(obs.id)) || (!!encounterRef && obs.encounter?.reference === encounterRef)
+      )
+      .map((obs) => obs.id)
+      .filter((id): id is string => !!id);
+
+    const encounterIds = encounterRef?.startsWith('Encounter/') ? [encounterRef.split('/')[1]] : [];
+
+    return await fetchPatientExport(patientId, parsed.format, {
+      ids: [assessment.id, ...observationIds, ...encounterIds],
+      fileName: `lelink-triage-${parsed.id}.${parsed.format}`,
+    });
+  } catch (error) {
+    console.error('[EXPORT_TRIAGE_API] Error exporting triage assessment:', error);
+
+    return NextResponse.json({ error: 'Failed to export triage assessment' }, { status: 500 });
+  }
+}
@@ -1,35 +1,24 @@
 import { NextRequest } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { apiAuthHeaders } from '@/lib/api-token';
 
 const AZURE_FUNCTIONS_URL = process.env.AZURE_FUNCTIONS_URL || 'http://localhost:7071';
 const BACKEND_URL = AZURE_FUNCTIONS_URL + '/api/symptom-assessment';
 
 export async function POST(req: NextRequest) {
   try {
-    // Validate user session
+    // Triage is for the signed-in patient; the backend takes the patient from the token
     const session = await getServerSession(authOptions);
-
-    const { message, threadId, patientId } = await req.json();
-
-    // Use session user ID if available, otherwise use provided patientId
-    // This ensures we always have a valid patient identifier
-    const validatedPatientId = session?.user?.id || patientId || `anonymous-${Date.now()}`;
-
-    // Validate patient ID format
-    if (!validatedPatientId || validatedPatientId.length < 3) {
-      return new Response(
-        JSON.stringify({
-          error: 'Invalid patient identifier',
-          details: 'A valid patient ID is required for triage assessment',
-        }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
+    if (!session?.user?.id) {
+      return new Response(JSON.stringify({ error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
 
+    const { message, threadId, sessionId, language } = await req.json();
+
     // Call Azure Functions backend
     const response = await fetch(BACKEND_URL, {
       method: 'POST',
@@ -38,18 +27,14 @@ export async function POST(req: NextRequest) {
         ...(process.env.AZURE_FUNCTIONS_API_KEY && {
           'x-api-key': process.env.AZURE_FUNCTIONS_API_KEY,
         }),
+        ...(await apiAuthHeaders(session.user)),
       },
       body: JSON.stringify({
         message,
         threadId: threadId || undefined,
-        patientId: validatedPatientId,
+        sessionId: sessionId || undefined,
+        language: language || undefined,
         includeResources: true,
-        // Add user context for better FHIR resources
-        userContext: {
-          email: session?.user?.email,
-          name: session?.user?.name,
-          isAuthenticated: !!session,
-        },
       }),
     });
 
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { apiAuthHeaders } from '@/lib/api-token';
+
+const AZURE_FUNCTIONS_URL = process.env.AZURE_FUNCTIONS_URL || 'http://localhost:7071';
+const BACKEND_URL = AZURE_FUNCTIONS_URL + '/api/symptom-assessment/stream';
+
+/**
+ * POST /api/triage/submit/stream
+ * Streaming variant of /api/triage/submit. Relays the backend's Server-Sent Events
+ * (thread, token, tool_call, resource, anchoring, storage, done, error) unchanged.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Triage is for the signed-in patient; the backend takes the patient from the token
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return Response.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { message, threadId, sessionId, language } = await req.json();
+
+    const response = await fetch(BACKEND_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.AZURE_FUNCTIONS_API_KEY && {
+          'x-api-key': process.env.AZURE_FUNCTIONS_API_KEY,
+        }),
+        ...(await apiAuthHeaders(session.user)),
+      },
+      body: JSON.stringify({
+        message,
+        threadId: threadId || undefined,
+        sessionId: sessionId || undefined,
+        language: language || undefined,
+      }),
+      // Abort the backend stream if the browser goes away
+      signal: req.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      let error = `Backend responded with status: ${response.status}`;
+      try {
+        error = JSON.parse(errorText).error || error;
+      } catch {
+        // Non-JSON error body, keep the generic message
+      }
+      return Response.json({ error }, { status: [400, 401, 403].includes(response.status) ? response.status : 502 });
+    }
+
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (err: any) {
+    console.error('Triage stream API Error:', err);
+    return Response.json(
+      {
+        error: err.message || 'Failed to process triage request',
+        details: process.env.NODE_ENV === 'development' ? err.stack : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
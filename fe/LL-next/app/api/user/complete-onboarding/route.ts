@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { apiAuthHeaders } from '@/lib/api-token';
 import { azureExternalUsersService } from '@/lib/services/azure-external-users';
 import { z } from 'zod';
 
@@ -128,7 +129,9 @@ export async function POST(request: NextRequest) {
 async function checkUserHasResources(userId: string, userEmail?: string): Promise<boolean> {
   try {
     // First check by user ID
-    const userIdResponse = await fetch(`${process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071'}/api/fhir-storage/patients/${userId}/resources`);
+    const userIdResponse = await fetch(`${process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071'}/api/fhir-storage/patients/${userId}/resources`, {
+      headers: await apiAuthHeaders({ id: userId, email: userEmail }),
+    });
     if (userIdResponse.ok) {
       const data = await userIdResponse.json();
       if (data.success && data.data?.resources?.length > 0) {
@@ -144,7 +147,9 @@ async function checkUserHasResources(userId: string, userEmail?: string): Promis
 
     // Then check by email if provided
     if (userEmail) {
-      const emailResponse = await fetch(`${process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071'}/api/fhir-storage/users/by-email/${encodeURIComponent(userEmail)}`);
+      const emailResponse = await fetch(`${process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071'}/api/fhir-storage/users/by-email/${encodeURIComponent(userEmail)}`, {
+        headers: await apiAuthHeaders({ id: userId, email: userEmail }),
+      });
       if (emailResponse.ok) {
         const emailData = await emailResponse.json();
         if (emailData.success) {
@@ -235,7 +240,6 @@ async function createPatientResource(
   const patientResource = {
     resourceType: 'Patient',
     id: resourceId, // Unique resource ID
-    userRole: userData.role, // Store role for FHIR API to convert to extension
     identifier: [
       {
         system: 'http://lelink.healthcare/user-id',
@@ -288,6 +292,7 @@ async function createPatientResource(
       'Content-Type': 'application/json',
       'X-Idempotency-Key': `patient-${userId}`, // Prevent duplicates by user ID + resource type
       'X-User-ID': userId, // Pass user ID for folder organization
+      ...(await apiAuthHeaders({ id: userId })),
     },
     body: JSON.stringify(patientResource),
   });
@@ -317,7 +322,6 @@ async function createPractitionerResource(
   const practitionerResource = {
     resourceType: 'Practitioner',
     id: resourceId, // Unique resource ID
-    userRole: userData.role, // Store role for FHIR API to convert to extension
     identifier: [
       {
         system: 'http://lelink.healthcare/user-id',
@@ -377,6 +381,7 @@ async function createPractitionerResource(
       'Content-Type': 'application/json',
       'X-Idempotency-Key': `practitioner-${userId}`, // Prevent duplicates by user ID + resource type
       'X-User-ID': userId, // Pass user ID for folder organization
+      ...(await apiAuthHeaders({ id: userId })),
     },
     body: JSON.stringify(practitionerResource),
   });
@@ -1,13 +1,14 @@
 'use client';
 
-import { useState } from 'react';
-import Link from 'next/link';
-import { Bell, Shield, Calendar, ChevronLeft, ChevronRight, Plus, Search, Filter, ArrowLeft } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { Calendar, CalendarPlus, ChevronLeft, ChevronRight, Loader2, Plus, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Dialog,
@@ -20,73 +21,412 @@ import {
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import DashboardHeaderWithModal from '@/components/dashboard-header-with-modal';
-import { useRouter } from 'next/navigation';
+import { AppointmentSlotPicker } from '@/components/appointment-slot-picker';
+import {
+  cancelAppointment,
+  createAppointment,
+  getBookablePractitioners,
+  publishAvailability,
+  rescheduleAppointment,
+  searchAppointments,
+  sendAppointmentReminder,
+  updateAppointmentStatus,
+} from '@/lib/actions/appointments';
+import type { Appointment, AppointmentStatus, BookablePractitioner, Slot } from '@/lib/types/appointment';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ACTIVE_STATUSES: AppointmentStatus[] = ['proposed', 'pending', 'waitlist', 'booked', 'checked-in', 'arrived'];
+
+const STATUS_BADGES: Partial<Record<AppointmentStatus, { label: string; className: string }>> = {
+  proposed: { label: 'Proposed', className: 'bg-amber-100 text-amber-800' },
+  pending: { label: 'Pending', className: 'bg-amber-100 text-amber-800' },
+  waitlist: { label: 'Waitlist', className: 'bg-amber-100 text-amber-800' },
+  booked: { label: 'Confirmed', className: 'bg-teal-100 text-teal-800' },
+  'checked-in': { label: 'Checked in', className: 'bg-blue-100 text-blue-800' },
+  arrived: { label: 'Arrived', className: 'bg-blue-100 text-blue-800' },
+  fulfilled: { label: 'Completed', className: 'bg-gray-100 text-gray-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-800' },
+  noshow: { label: 'No-show', className: 'bg-red-100 text-red-800' },
+};
+
+function participant(appointment: Appointment, type: 'Patient' | 'Practitioner') {
+  return appointment.participant?.find((p) => p.actor?.reference?.startsWith(`${type}/`))?.actor;
+}
+
+function participantId(appointment: Appointment, type: 'Patient' | 'Practitioner'): string | undefined {
+  return participant(appointment, type)?.reference?.slice(type.length + 1);
+}
+
+function appointmentTitle(appointment: Appointment): string {
+  return (
+    appointment.description ||
+    appointment.serviceType?.[0]?.text ||
+    appointment.reasonCode?.[0]?.text ||
+    'Appointment'
+  );
+}
+
+function toDateInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
 
 export default function AppointmentsPage() {
-  const router = useRouter();
-  const [currentMonth, setCurrentMonth] = useState('May 2025');
+  const { data: session } = useSession();
+  const isPractitioner = session?.user?.role === 'Practitioner';
+
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Booking and rescheduling share the slot picker
   const [showNewAppointment, setShowNewAppointment] = useState(false);
+  const [rescheduling, setRescheduling] = useState<Appointment | null>(null);
+  const [practitioners, setPractitioners] = useState<BookablePractitioner[]>([]);
+  const [practitionerId, setPractitionerId] = useState<string>();
+  const [date, setDate] = useState(() => toDateInput(new Date()));
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
 
-  return (
-    <div className="flex min-h-screen flex-col container relative">
-      <DashboardHeaderWithModal />
+  // Practitioners publish availability
+  const [showAvailability, setShowAvailability] = useState(false);
+  const [availability, setAvailability] = useState({ date: toDateInput(new Date()), from: '09:00', to: '17:00', slotMinutes: '30' });
+
+  const loadAppointments = useCallback(async () => {
+    setLoading(true);
+    const result = await searchAppointments({ page: 1, limit: 500 });
+    if (result.success) {
+      setAppointments(result.data?.appointments || []);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load appointments');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [loadAppointments]);
+
+  useEffect(() => {
+    if (!showNewAppointment) return;
+    getBookablePractitioners().then((result) => {
+      if (result.success) {
+        setPractitioners(result.data || []);
+      } else {
+        setError(result.error || 'Failed to load doctors');
+      }
+    });
+  }, [showNewAppointment]);
+
+  const now = new Date();
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return appointments;
+    return appointments.filter((appointment) =>
+      [appointmentTitle(appointment), participant(appointment, 'Practitioner')?.display, appointment.reasonCode?.[0]?.text]
+        .filter(Boolean)
+        .some((text) => text!.toLowerCase().includes(needle))
+    );
+  }, [appointments, query]);
+
+  const upcoming = filtered.filter(
+    (appointment) => ACTIVE_STATUSES.includes(appointment.status) && new Date(appointment.end || appointment.start || 0) >= now
+  );
+  const past = filtered
+    .filter(
+      (appointment) =>
+        !['cancelled', 'entered-in-error'].includes(appointment.status) &&
+        !upcoming.includes(appointment)
+    )
+    .reverse();
+  const cancelled = filtered.filter((appointment) => appointment.status === 'cancelled');
+
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const appointmentDays = new Set(
+    appointments
+      .filter((appointment) => ACTIVE_STATUSES.includes(appointment.status) && appointment.start)
+      .map((appointment) => new Date(appointment.start!))
+      .filter((start) => start.getFullYear() === month.getFullYear() && start.getMonth() === month.getMonth())
+      .map((start) => start.getDate())
+  );
+
+  const resetBooking = () => {
+    setShowNewAppointment(false);
+    setRescheduling(null);
+    setPractitionerId(undefined);
+    setSlot(null);
+    setReason('');
+  };
+
+  const runAction = async (id: string, action: () => Promise<{ success: boolean; error?: string }>, done: string) => {
+    setBusyId(id);
+    const result = await action();
+    setBusyId(null);
+    if (result.success) {
+      setNotice(done);
+      setError(null);
+    } else {
+      setError(result.error || 'Something went wrong');
+    }
+    await loadAppointments();
+  };
+
+  const handleBook = async () => {
+    if (!slot) return;
+    setSaving(true);
+    const result = rescheduling
+      ? await rescheduleAppointment({
+          id: rescheduling.id!,
+          slotId: slot.id!,
+          patientId: participantId(rescheduling, 'Patient'),
+        })
+      : await createAppointment({
+          practitionerId: practitionerId!,
+          slotId: slot.id!,
+          description: slot.serviceType?.[0]?.text,
+          reason: reason || undefined,
+        });
+    setSaving(false);
+
+    if (result.success) {
+      setNotice(rescheduling ? 'Appointment rescheduled' : 'Appointment booked');
+      setError(null);
+      resetBooking();
+      await loadAppointments();
+    } else {
+      // Most likely someone else took the slot: keep the dialog open to pick another time
+      setError(result.error || 'Failed to book the appointment');
+      setSlot(null);
+    }
+  };
 
-      {/* Coming Soon Overlay */}
-      <div className="absolute inset-0 bg-black/0 backdrop-blur-[1px] z-50 flex items-center justify-center">
-        <Card className="w-96 border-none shadow-2xl bg-white/95 backdrop-blur-sm">
-          <CardContent className="text-center p-8">
-            <div className="h-16 w-16 mx-auto mb-4 rounded-full bg-gradient-to-br from-teal-100 to-teal-200 flex items-center justify-center">
-              <Calendar className="h-8 w-8 text-teal-600" />
+  const handlePublish = async () => {
+    setSaving(true);
+    const result = await publishAvailability({
+      start: new Date(`${availability.date}T${availability.from}:00`).toISOString(),
+      end: new Date(`${availability.date}T${availability.to}:00`).toISOString(),
+      slotMinutes: Number(availability.slotMinutes),
+    });
+    setSaving(false);
+
+    if (result.success) {
+      const { created, skipped } = result.data!;
+      setNotice(`${created.length} time slots published${skipped ? ` (${skipped} already existed)` : ''}`);
+      setError(null);
+      setShowAvailability(false);
+    } else {
+      setError(result.error || 'Failed to publish availability');
+    }
+  };
+
+  const renderAppointment = (appointment: Appointment) => {
+    const start = appointment.start ? new Date(appointment.start) : null;
+    const badge = STATUS_BADGES[appointment.status] || { label: appointment.status, className: 'bg-gray-100 text-gray-800' };
+    const patientId = participantId(appointment, 'Patient');
+    const isBusy = busyId === appointment.id;
+    const isUpcoming = upcoming.includes(appointment);
+
+    return (
+      <Card key={appointment.id}>
+        <CardContent className="p-0">
+          <div className="flex flex-col sm:flex-row">
+            <div className="flex items-center justify-center border-b p-4 sm:w-32 sm:border-b-0 sm:border-r">
+              {start && (
+                <div className="text-center">
+                  <div className="text-sm font-medium text-muted-foreground">
+                    {start.toLocaleDateString([], { month: 'short' }).toUpperCase()}
+                  </div>
+                  <div className="text-3xl font-bold">{String(start.getDate()).padStart(2, '0')}</div>
+                  <div className="text-sm">{start.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}</div>
+                </div>
+              )}
             </div>
-            <h2 className="text-2xl font-bold text-gray-900 mb-2">Coming Soon</h2>
-            <p className="text-gray-600 mb-4">Appointment management functionality is currently out of scope.</p>
-            <div className="flex flex-col gap-3 items-center">
-              <Badge variant="outline" className="bg-gray-50 text-gray-600 border-gray-300">
-                Out of Scope
-              </Badge>
-              <Button 
-                onClick={() => router.push('/dashboard')} 
-                variant="outline" 
-                className="flex items-center gap-2 mt-2"
-              >
-                <ArrowLeft className="h-4 w-4" />
-                Back to Dashboard
-              </Button>
+            <div className="flex flex-1 flex-col p-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">{appointmentTitle(appointment)}</h3>
+                <Badge className={badge.className}>{badge.label}</Badge>
+              </div>
+              <div className="mt-2 text-sm text-muted-foreground">
+                <div className="flex items-center gap-2">
+                  <Calendar className="h-4 w-4" />
+                  <span>
+                    {isPractitioner
+                      ? `Patient ${patientId}`
+                      : participant(appointment, 'Practitioner')?.display || 'Practitioner'}
+                    {appointment.minutesDuration ? ` · ${appointment.minutesDuration} min` : ''}
+                  </span>
+                </div>
+                {appointment.reasonCode?.[0]?.text && <div className="mt-1">{appointment.reasonCode[0].text}</div>}
+                {appointment.cancelationReason?.text && <div className="mt-1">{appointment.cancelationReason.text}</div>}
+              </div>
+              {isUpcoming && (
+                <div className="mt-4 flex flex-wrap gap-2">
+                  {isPractitioner && appointment.status === 'booked' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() =>
+                        runAction(appointment.id!, () => updateAppointmentStatus(appointment.id!, 'arrived', undefined, patientId), 'Patient checked in')
+                      }
+                    >
+                      Check in
+                    </Button>
+                  )}
+                  {isPractitioner && ['booked', 'checked-in', 'arrived'].includes(appointment.status) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() =>
+                        runAction(appointment.id!, () => updateAppointmentStatus(appointment.id!, 'fulfilled', undefined, patientId), 'Appointment completed')
+                      }
+                    >
+                      Complete
+                    </Button>
+                  )}
+                  {isPractitioner && appointment.status === 'booked' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() =>
+                        runAction(
+                          appointment.id!,
+                          async () => {
+                            const result = await sendAppointmentReminder(appointment.id!, patientId);
+                            return result.success && !result.data?.sent
+                              ? { success: false, error: 'The patient has no email or in-app inbox to remind' }
+                              : result;
+                          },
+                          'Reminder sent'
+                        )
+                      }
+                    >
+                      Send reminder
+                    </Button>
+                  )}
+                  {['proposed', 'pending', 'waitlist', 'booked'].includes(appointment.status) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => {
+                        setRescheduling(appointment);
+                        setPractitionerId(participantId(appointment, 'Practitioner'));
+                        setDate(toDateInput(start || new Date()));
+                        setSlot(null);
+                      }}
+                    >
+                      Reschedule
+                    </Button>
+                  )}
+                  {appointment.status !== 'arrived' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      className="text-red-600 hover:bg-red-50 hover:text-red-700"
+                      onClick={() =>
+                        runAction(appointment.id!, () => cancelAppointment(appointment.id!, undefined, patientId), 'Appointment cancelled')
+                      }
+                    >
+                      {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
-          </CardContent>
-        </Card>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderEmpty = (title: string, text: string) => (
+    <div className="rounded-lg border border-dashed p-8 text-center">
+      <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-muted">
+        <Calendar className="h-6 w-6 text-muted-foreground" />
       </div>
+      <h3 className="mb-1 text-lg font-medium">{title}</h3>
+      <p className="text-sm text-muted-foreground">{text}</p>
+    </div>
+  );
+
+  return (
+    <div className="flex min-h-screen flex-col container relative">
+      <DashboardHeaderWithModal />
 
       <main className="flex-1 p-4 sm:p-6">
         <div className="mb-8 flex items-center justify-between">
           <div>
             <h1 className="text-3xl font-bold text-teal-700">Appointments</h1>
-            <p className="text-muted-foreground">Manage your upcoming appointments</p>
+            <p className="text-muted-foreground">
+              {isPractitioner ? 'Manage your availability and booked appointments' : 'Manage your upcoming appointments'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {isPractitioner && (
+              <Button variant="outline" onClick={() => setShowAvailability(true)}>
+                <CalendarPlus className="mr-2 h-4 w-4" />
+                Add Availability
+              </Button>
+            )}
+            {!isPractitioner && (
+              <Button onClick={() => setShowNewAppointment(true)} className="bg-teal-600 hover:bg-teal-700">
+                <Plus className="mr-2 h-4 w-4" />
+                New Appointment
+              </Button>
+            )}
           </div>
-          <Button onClick={() => setShowNewAppointment(true)} className="bg-teal-600 hover:bg-teal-700">
-            <Plus className="mr-2 h-4 w-4" />
-            New Appointment
-          </Button>
         </div>
 
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {notice && !error && (
+          <Alert className="mb-4">
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
         <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
           <div className="flex items-center gap-2">
-            <Button variant="outline" size="icon">
+            <Button variant="outline" size="icon" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}>
               <ChevronLeft className="h-4 w-4" />
             </Button>
-            <span className="font-medium">{currentMonth}</span>
-            <Button variant="outline" size="icon">
+            <span className="font-medium">{month.toLocaleDateString([], { month: 'long', year: 'numeric' })}</span>
+            <Button variant="outline" size="icon" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}>
               <ChevronRight className="h-4 w-4" />
             </Button>
           </div>
           <div className="flex flex-1 gap-2 sm:max-w-md">
             <div className="relative flex-1">
               <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-              <Input type="search" placeholder="Search appointments..." className="pl-8" />
+              <Input
+                type="search"
+                placeholder="Search appointments..."
+                className="pl-8"
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+              />
             </div>
-            <Button variant="outline" size="icon">
-              <Filter className="h-4 w-4" />
-            </Button>
           </div>
         </div>
 
@@ -94,7 +434,7 @@ export default function AppointmentsPage() {
           <TabsList className="w-full max-w-md bg-muted/50">
             <TabsTrigger value="upcoming" className="flex-1">
               Upcoming
-              <Badge className="ml-2 bg-teal-600">3</Badge>
+              {upcoming.length > 0 && <Badge className="ml-2 bg-teal-600">{upcoming.length}</Badge>}
             </TabsTrigger>
             <TabsTrigger value="past" className="flex-1">
               Past
@@ -103,164 +443,33 @@ export default function AppointmentsPage() {
               Cancelled
             </TabsTrigger>
           </TabsList>
-          <TabsContent value="upcoming" className="mt-4">
-            <div className="grid gap-4">
-              <Card>
-                <CardContent className="p-0">
-                  <div className="flex flex-col sm:flex-row">
-                    <div className="flex items-center justify-center border-b p-4 sm:w-32 sm:border-b-0 sm:border-r">
-                      <div className="text-center">
-                        <div className="text-sm font-medium text-muted-foreground">MAY</div>
-                        <div className="text-3xl font-bold">15</div>
-                        <div className="text-sm">10:30 AM</div>
-                      </div>
-                    </div>
-                    <div className="flex flex-1 flex-col p-4">
-                      <div className="flex items-center justify-between">
-                        <h3 className="font-semibold">Annual Physical Examination</h3>
-                        <Badge className="bg-teal-100 text-teal-800">Confirmed</Badge>
-                      </div>
-                      <div className="mt-2 text-sm text-muted-foreground">
-                        <div className="flex items-center gap-2">
-                          <Calendar className="h-4 w-4" />
-                          <span>Dr. Sarah Johnson - General Practitioner</span>
-                        </div>
-                        <div className="mt-1">Medical Center, Floor 3, Room 302</div>
-                      </div>
-                      <div className="mt-4 flex gap-2">
-                        <Button variant="outline" size="sm">
-                          Reschedule
-                        </Button>
-                        <Button variant="outline" size="sm" className="text-red-600 hover:bg-red-50 hover:text-red-700">
-                          Cancel
-                        </Button>
-                      </div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardContent className="p-0">
-                  <div className="flex flex-col sm:flex-row">
-                    <div className="flex items-center justify-center border-b p-4 sm:w-32 sm:border-b-0 sm:border-r">
-                      <div className="text-center">
-                        <div className="text-sm font-medium text-muted-foreground">MAY</div>
-                        <div className="text-3xl font-bold">22</div>
-                        <div className="text-sm">2:00 PM</div>
-                      </div>
-                    </div>
-                    <div className="flex flex-1 flex-col p-4">
-                      <div className="flex items-center justify-between">
-                        <h3 className="font-semibold">Dental Checkup</h3>
-                        <Badge className="bg-amber-100 text-amber-800">Pending</Badge>
-                      </div>
-                      <div className="mt-2 text-sm text-muted-foreground">
-                        <div className="flex items-center gap-2">
-                          <Calendar className="h-4 w-4" />
-                          <span>Dr. Michael Chen - Dentist</span>
-                        </div>
-                        <div className="mt-1">Dental Clinic, Floor 1, Room 105</div>
-                      </div>
-                      <div className="mt-4 flex gap-2">
-                        <Button variant="outline" size="sm">
-                          Confirm
-                        </Button>
-                        <Button variant="outline" size="sm">
-                          Reschedule
-                        </Button>
-                        <Button variant="outline" size="sm" className="text-red-600 hover:bg-red-50 hover:text-red-700">
-                          Cancel
-                        </Button>
-                      </div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardContent className="p-0">
-                  <div className="flex flex-col sm:flex-row">
-                    <div className="flex items-center justify-center border-b p-4 sm:w-32 sm:border-b-0 sm:border-r">
-                      <div className="text-center">
-                        <div className="text-sm font-medium text-muted-foreground">JUN</div>
-                        <div className="text-3xl font-bold">05</div>
-                        <div className="text-sm">9:15 AM</div>
-                      </div>
-                    </div>
-                    <div className="flex flex-1 flex-col p-4">
-                      <div className="flex items-center justify-between">
-                        <h3 className="font-semibold">Follow-up Consultation</h3>
-                        <Badge className="bg-teal-100 text-teal-800">Confirmed</Badge>
-                      </div>
-                      <div className="mt-2 text-sm text-muted-foreground">
-                        <div className="flex items-center gap-2">
-                          <Calendar className="h-4 w-4" />
-                          <span>Dr. Sarah Johnson - General Practitioner</span>
-                        </div>
-                        <div className="mt-1">Medical Center, Floor 3, Room 302</div>
-                      </div>
-                      <div className="mt-4 flex gap-2">
-                        <Button variant="outline" size="sm">
-                          Reschedule
-                        </Button>
-                        <Button variant="outline" size="sm" className="text-red-600 hover:bg-red-50 hover:text-red-700">
-                          Cancel
-                        </Button>
-                      </div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+          {loading ? (
+            <div className="mt-8 flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-teal-600" />
             </div>
-          </TabsContent>
-          <TabsContent value="past">
-            <div className="grid gap-4">
-              <Card>
-                <CardContent className="p-0">
-                  <div className="flex flex-col sm:flex-row">
-                    <div className="flex items-center justify-center border-b p-4 sm:w-32 sm:border-b-0 sm:border-r">
-                      <div className="text-center">
-                        <div className="text-sm font-medium text-muted-foreground">APR</div>
-                        <div className="text-3xl font-bold">28</div>
-                        <div className="text-sm">11:00 AM</div>
-                      </div>
-                    </div>
-                    <div className="flex flex-1 flex-col p-4">
-                      <div className="flex items-center justify-between">
-                        <h3 className="font-semibold">Blood Test</h3>
-                        <Badge className="bg-gray-100 text-gray-800">Completed</Badge>
-                      </div>
-                      <div className="mt-2 text-sm text-muted-foreground">
-                        <div className="flex items-center gap-2">
-                          <Calendar className="h-4 w-4" />
-                          <span>Dr. Emily Rodriguez - Lab Technician</span>
-                        </div>
-                        <div className="mt-1">Medical Center, Floor 2, Room 215</div>
-                      </div>
-                      <div className="mt-4 flex gap-2">
-                        <Button variant="outline" size="sm">
-                          View Results
-                        </Button>
-                        <Button variant="outline" size="sm">
-                          Book Follow-up
-                        </Button>
-                      </div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
-          </TabsContent>
-          <TabsContent value="cancelled">
-            <div className="rounded-lg border border-dashed p-8 text-center">
-              <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-muted">
-                <Calendar className="h-6 w-6 text-muted-foreground" />
-              </div>
-              <h3 className="mb-1 text-lg font-medium">No cancelled appointments</h3>
-              <p className="text-sm text-muted-foreground">You don't have any cancelled appointments at the moment.</p>
-            </div>
-          </TabsContent>
+          ) : (
+            <>
+              <TabsContent value="upcoming" className="mt-4">
+                <div className="grid gap-4">
+                  {upcoming.length > 0
+                    ? upcoming.map(renderAppointment)
+                    : renderEmpty('No upcoming appointments', "You don't have any upcoming appointments at the moment.")}
+                </div>
+              </TabsContent>
+              <TabsContent value="past">
+                <div className="grid gap-4">
+                  {past.length > 0 ? past.map(renderAppointment) : renderEmpty('No past appointments', 'Completed appointments appear here.')}
+                </div>
+              </TabsContent>
+              <TabsContent value="cancelled">
+                <div className="grid gap-4">
+                  {cancelled.length > 0
+                    ? cancelled.map(renderAppointment)
+                    : renderEmpty('No cancelled appointments', "You don't have any cancelled appointments at the moment.")}
+                </div>
+              </TabsContent>
+            </>
+          )}
         </Tabs>
 
         <Card>
@@ -269,18 +478,18 @@ export default function AppointmentsPage() {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-7 gap-1 text-center">
-              {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
+              {WEEKDAYS.map((day) => (
                 <div key={day} className="py-2 text-sm font-medium text-muted-foreground">
                   {day}
                 </div>
               ))}
-              {Array.from({ length: 2 }).map((_, i) => (
+              {Array.from({ length: month.getDay() }).map((_, i) => (
                 <div key={`empty-start-${i}`} className="rounded-md py-2 text-sm text-muted-foreground"></div>
               ))}
-              {Array.from({ length: 31 }).map((_, i) => {
+              {Array.from({ length: daysInMonth }).map((_, i) => {
                 const day = i + 1;
-                const isToday = day === 13;
-                const hasAppointment = [15, 22].includes(day);
+                const isToday = isSameDay(new Date(month.getFullYear(), month.getMonth(), day), now);
+                const hasAppointment = appointmentDays.has(day);
                 return (
                   <div
                     key={`day-${day}`}
@@ -297,63 +506,147 @@ export default function AppointmentsPage() {
           </CardContent>
         </Card>
 
-        <Dialog open={showNewAppointment} onOpenChange={setShowNewAppointment}>
+        <Dialog open={showNewAppointment || !!rescheduling} onOpenChange={(open) => !open && resetBooking()}>
           <DialogContent className="sm:max-w-[500px]">
             <DialogHeader>
-              <DialogTitle>Schedule New Appointment</DialogTitle>
-              <DialogDescription>Fill in the details to schedule a new appointment.</DialogDescription>
+              <DialogTitle>{rescheduling ? 'Reschedule Appointment' : 'Schedule New Appointment'}</DialogTitle>
+              <DialogDescription>
+                {rescheduling ? 'Pick a new time with the same doctor.' : 'Choose a doctor and one of their free times.'}
+              </DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
+              {!rescheduling && (
+                <div className="grid gap-2">
+                  <Label htmlFor="doctor">Doctor</Label>
+                  <Select
+                    value={practitionerId}
+                    onValueChange={(value) => {
+                      setPractitionerId(value);
+                      setSlot(null);
+                    }}
+                  >
+                    <SelectTrigger id="doctor">
+                      <SelectValue placeholder={practitioners.length ? 'Select doctor' : 'No doctors are taking appointments'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {practitioners.map((practitioner) => (
+                        <SelectItem key={practitioner.id} value={practitioner.id}>
+                          {practitioner.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <div className="grid gap-2">
-                <Label htmlFor="appointment-type">Appointment Type</Label>
-                <Select>
-                  <SelectTrigger id="appointment-type">
-                    <SelectValue placeholder="Select appointment type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="general-checkup">General Check-up</SelectItem>
-                    <SelectItem value="follow-up">Follow-up Consultation</SelectItem>
-                    <SelectItem value="specialist">Specialist Consultation</SelectItem>
-                    <SelectItem value="dental">Dental Check-up</SelectItem>
-                    <SelectItem value="vaccination">Vaccination</SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label htmlFor="date">Date</Label>
+                <Input
+                  id="date"
+                  type="date"
+                  min={toDateInput(new Date())}
+                  value={date}
+                  onChange={(event) => {
+                    setDate(event.target.value);
+                    setSlot(null);
+                  }}
+                />
               </div>
               <div className="grid gap-2">
-                <Label htmlFor="doctor">Doctor</Label>
-                <Select>
-                  <SelectTrigger id="doctor">
-                    <SelectValue placeholder="Select doctor" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="dr-johnson">Dr. Sarah Johnson - General Practitioner</SelectItem>
-                    <SelectItem value="dr-patel">Dr. Raj Patel - Cardiologist</SelectItem>
-                    <SelectItem value="dr-chen">Dr. Michael Chen - Dentist</SelectItem>
-                    <SelectItem value="dr-rodriguez">Dr. Emily Rodriguez - Lab Technician</SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label>Time</Label>
+                <AppointmentSlotPicker
+                  practitionerId={practitionerId}
+                  date={date}
+                  selectedSlotId={slot?.id}
+                  onSelect={setSlot}
+                />
+              </div>
+              {!rescheduling && (
+                <div className="grid gap-2">
+                  <Label htmlFor="notes">Reason for the visit</Label>
+                  <Textarea
+                    id="notes"
+                    placeholder="Add any additional information or symptoms..."
+                    value={reason}
+                    onChange={(event) => setReason(event.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={resetBooking}>
+                Cancel
+              </Button>
+              <Button className="bg-teal-600 hover:bg-teal-700" disabled={!slot || saving} onClick={handleBook}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {rescheduling ? 'Move Appointment' : 'Schedule Appointment'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={showAvailability} onOpenChange={setShowAvailability}>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>Add Availability</DialogTitle>
+              <DialogDescription>Patients can book the time slots you publish.</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="availability-date">Date</Label>
+                <Input
+                  id="availability-date"
+                  type="date"
+                  min={toDateInput(new Date())}
+                  value={availability.date}
+                  onChange={(event) => setAvailability({ ...availability, date: event.target.value })}
+                />
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="grid gap-2">
-                  <Label htmlFor="date">Date</Label>
-                  <Input id="date" type="date" />
+                  <Label htmlFor="availability-from">From</Label>
+                  <Input
+                    id="availability-from"
+                    type="time"
+                    value={availability.from}
+                    onChange={(event) => setAvailability({ ...availability, from: event.target.value })}
+                  />
                 </div>
                 <div className="grid gap-2">
-                  <Label htmlFor="time">Time</Label>
-                  <Input id="time" type="time" />
+                  <Label htmlFor="availability-to">To</Label>
+                  <Input
+                    id="availability-to"
+                    type="time"
+                    value={availability.to}
+                    onChange={(event) => setAvailability({ ...availability, to: event.target.value })}
+                  />
                 </div>
               </div>
               <div className="grid gap-2">
-                <Label htmlFor="notes">Notes</Label>
-                <Textarea id="notes" placeholder="Add any additional information or symptoms..." />
+                <Label htmlFor="slot-length">Appointment length</Label>
+                <Select
+                  value={availability.slotMinutes}
+                  onValueChange={(value) => setAvailability({ ...availability, slotMinutes: value })}
+                >
+                  <SelectTrigger id="slot-length">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {['15', '20', '30', '45', '60'].map((minutes) => (
+                      <SelectItem key={minutes} value={minutes}>
+                        {minutes} minutes
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
             </div>
             <DialogFooter>
-              <Button variant="outline" onClick={() => setShowNewAppointment(false)}>
+              <Button variant="outline" onClick={() => setShowAvailability(false)}>
                 Cancel
               </Button>
-              <Button className="bg-teal-600 hover:bg-teal-700" onClick={() => setShowNewAppointment(false)}>
-                Schedule Appointment
+              <Button className="bg-teal-600 hover:bg-teal-700" disabled={saving} onClick={handlePublish}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Publish
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, Suspense } from 'react';
 import { useSession } from 'next-auth/react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Send, Activity, Loader2, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,7 +10,14 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ChatMessage } from '@/components/ui/chat-message';
-import { TriageResponse } from '@/lib/types';
+import { FHIRResource, TriageResponse } from '@/lib/types';
+import { streamTriage, type TriageSafety } from '@/lib/triage-stream';
+import { RedFlagAlert } from '@/components/red-flag-alert';
+import { getTriageSession } from '@/lib/actions/triage';
+import { TriageSessionHistory } from '@/components/triage-session-history';
+import { TriageLanguageSelect } from '@/components/triage-language-select';
+import { useTranslation } from '@/hooks/use-translation';
+import { TRIAGE_PATH } from '@/lib/paths';
 import { AnimatePresence } from 'framer-motion';
 import Link from 'next/link';
 import { getResourceDisplayName, formatResourceDate, getResourceStatus } from '@/lib/fhir-storage/utils';
@@ -24,25 +32,42 @@ interface Message {
   timestamp?: Date;
 }
 
+// Its content is the translated greeting, filled in when rendered
+const welcomeMessage = (): Message => ({
+  id: 'welcome',
+  role: 'assistant',
+  content: '',
+  timestamp: new Date(),
+});
+
 export default function TriagePage() {
+  // useSearchParams needs a Suspense boundary
+  return (
+    <Suspense>
+      <TriageChat />
+    </Suspense>
+  );
+}
+
+function TriageChat() {
   const { data: session } = useSession();
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'welcome',
-      role: 'assistant',
-      content:
-        "Hello! I'm your AI medical assistant. Please describe your symptoms, and I'll help assess your condition. Remember, this is for informational purposes only and doesn't replace professional medical advice.",
-      timestamp: new Date(),
-    },
-  ]);
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [messages, setMessages] = useState<Message[]>([welcomeMessage()]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Get patient ID from authenticated user session
-  const patientId = session?.user?.id || `anonymous-${Date.now()}`;
+  // Get patient ID from authenticated user session; practitioners reopen a patient's session via ?patientId=
+  const requestedPatientId = searchParams.get('patientId');
+  const patientId = requestedPatientId || session?.user?.id || `anonymous-${Date.now()}`;
+  const requestedSessionId = searchParams.get('session');
 
   const [threadId, setThreadId] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [safety, setSafety] = useState<TriageSafety | null>(null);
+  const [sessionLanguage, setSessionLanguage] = useState<string | null>(null);
+  const { language, dir, t, chooseLanguage, requestLanguage } = useTranslation(sessionLanguage);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -54,6 +79,61 @@ export default function TriagePage() {
     scrollToBottom();
   }, [messages]);
 
+  // Reopen a saved session (?session=<id>) with its transcript
+  useEffect(() => {
+    if (!requestedSessionId || requestedSessionId === sessionId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getTriageSession(requestedSessionId, requestedPatientId || undefined)
+      .then((result) => {
+        if (cancelled) return;
+        if (!result.success || !result.data) {
+          setError(result.error || t('triage.loadSessionError'));
+          return;
+        }
+
+        const saved = result.data;
+        setSessionId(saved.id);
+        setThreadId(saved.threadId || null);
+        setSessionLanguage(saved.language || null);
+        setMessages([
+          welcomeMessage(),
+          ...saved.messages.map((message, index) => ({
+            id: `${saved.id}-${index}`,
+            role: message.role,
+            content: message.content,
+            timestamp: new Date(message.timestamp),
+          })),
+        ]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestedSessionId, requestedPatientId, sessionId, t]);
+
+  const startNewSession = () => {
+    setSessionId(null);
+    setThreadId(null);
+    setSafety(null);
+    setSessionLanguage(null);
+    setError(null);
+    setMessages([welcomeMessage()]);
+    router.push(TRIAGE_PATH);
+  };
+
+  const openSession = (id: string) => {
+    const params = new URLSearchParams({ session: id });
+    if (requestedPatientId) params.set('patientId', requestedPatientId);
+    router.push(`${TRIAGE_PATH}?${params.toString()}`);
+  };
+
   const handleSend = async () => {
     const messageText = input.trim();
     if (messageText === '' || isLoading) return;
@@ -85,112 +165,51 @@ export default function TriagePage() {
     setMessages((prev) => [...prev, streamingMessage]);
 
     try {
-      // Call backend API
-      const response = await fetch('/api/triage/submit', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: messageText,
-          threadId: threadId,
-          patientId: patientId, // Use authenticated user's ID
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to get response');
-      }
-
-      // Check if response is streaming
-      const contentType = response.headers.get('content-type');
-
-      if (contentType?.includes('text/event-stream')) {
-        // Handle streaming response
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        let accumulatedContent = '';
-        let resources: any[] = [];
-
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            const chunk = decoder.decode(value);
-            const lines = chunk.split('\n');
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6);
-                if (data === '[DONE]') continue;
-
-                try {
-                  const parsed = JSON.parse(data);
-
-                  // Handle different event types
-                  if (parsed.type === 'content') {
-                    accumulatedContent += parsed.content;
-                    // Update the streaming message
-                    setMessages((prev) =>
-                      prev.map((msg) => (msg.id === streamingMessageId ? { ...msg, content: accumulatedContent } : msg))
-                    );
-                  } else if (parsed.type === 'threadId') {
-                    setThreadId(parsed.threadId);
-                  } else if (parsed.type === 'resources') {
-                    resources = parsed.resources;
-                  }
-                } catch (e) {
-                  // Handle non-JSON data as content
-                  if (data.trim()) {
-                    accumulatedContent += data;
-                    setMessages((prev) =>
-                      prev.map((msg) => (msg.id === streamingMessageId ? { ...msg, content: accumulatedContent } : msg))
-                    );
-                  }
-                }
-              }
-            }
-          }
-        }
-
-        // Finalize the streaming message
-        setMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === streamingMessageId
-              ? {
-                  ...msg,
-                  content: accumulatedContent || 'I received your message. Let me help you with that.',
-                  resources: resources.length > 0 ? resources : undefined,
-                  isStreaming: false,
-                }
-              : msg
-          )
-        );
-      } else {
-        // Handle JSON response
-        const data = await response.json();
-
-        // Update the streaming message with the full response
-        setMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === streamingMessageId
-              ? {
-                  ...msg,
-                  content:
-                    data.reply || data.message || data.content || 'I received your message. Let me help you with that.',
-                  resources: data.resources,
-                  isStreaming: false,
-                }
-              : msg
-          )
-        );
-
-        if (data.threadId) {
-          setThreadId(data.threadId);
+      let accumulatedContent = '';
+      const resources: FHIRResource[] = [];
+      const updateStreamingMessage = (patch: Partial<Message>) =>
+        setMessages((prev) => prev.map((msg) => (msg.id === streamingMessageId ? { ...msg, ...patch } : msg)));
+
+      // Render the reply and the FHIR resources as the assistant produces them
+      for await (const streamEvent of streamTriage({
+        message: messageText,
+        threadId,
+        sessionId,
+        patientId,
+        language: requestLanguage,
+      })) {
+        switch (streamEvent.event) {
+          case 'thread':
+            setThreadId(streamEvent.data.threadId);
+            setSessionId(streamEvent.data.sessionId);
+            break;
+          case 'red_flag':
+            setSafety(streamEvent.data);
+            break;
+          case 'token':
+            accumulatedContent += streamEvent.data.delta;
+            updateStreamingMessage({ content: accumulatedContent });
+            break;
+          case 'resource':
+            resources.push(streamEvent.data.resource);
+            updateStreamingMessage({ resources: [...resources] });
+            break;
+          case 'done':
+            accumulatedContent = streamEvent.data.reply || accumulatedContent;
+            setThreadId(streamEvent.data.threadId);
+            setSessionLanguage(streamEvent.data.language || null);
+            break;
+          case 'error':
+            throw new Error(streamEvent.data.error);
         }
       }
+
+      // Finalize the streaming message
+      updateStreamingMessage({
+        content: accumulatedContent || t('triage.fallbackReply'),
+        resources: resources.length > 0 ? resources : undefined,
+        isStreaming: false,
+      });
     } catch (error) {
       console.error('Error generating response:', error);
 
@@ -198,14 +217,13 @@ export default function TriagePage() {
       setMessages((prev) => prev.filter((msg) => msg.id !== streamingMessageId));
 
       // Show error message
-      setError(error instanceof Error ? error.message : 'An unexpected error occurred');
+      setError(error instanceof Error ? error.message : t('triage.unexpectedError'));
 
       // Add error message from assistant
       const errorMessage: Message = {
         id: Date.now().toString() + '-error',
         role: 'assistant',
-        content:
-          "I'm sorry, I encountered an error while processing your request. Please try again or contact support if the issue persists.",
+        content: t('triage.errorReply'),
         timestamp: new Date(),
       };
       setMessages((prev) => [...prev, errorMessage]);
@@ -227,27 +245,43 @@ export default function TriagePage() {
         <div className="max-w-4xl mx-auto flex items-center gap-2 sm:gap-4 p-3 sm:p-4">
           <div className="flex items-center gap-2">
             <Activity className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
-            <h1 className="text-lg sm:text-2xl font-semibold">Medical Triage Assistant</h1>
+            <h1 className="text-lg sm:text-2xl font-semibold" dir={dir}>
+              {t('triage.title')}
+            </h1>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <TriageLanguageSelect
+              value={language}
+              onChange={chooseLanguage}
+              label={t('triage.language')}
+              className="h-9 w-auto gap-2 bg-white/20 text-white border-white/30"
+            />
+            {threadId && (
+              <Badge variant="secondary" className="bg-white/20 text-white border-white/30 text-xs sm:text-sm">
+                {threadId.slice(-6)}
+              </Badge>
+            )}
+            <TriageSessionHistory
+              patientId={requestedPatientId || undefined}
+              currentSessionId={sessionId}
+              onSelect={openSession}
+              onNew={startNewSession}
+            />
           </div>
-          {threadId && (
-            <Badge variant="secondary" className="ml-auto bg-white/20 text-white border-white/30 text-xs sm:text-sm">
-              {threadId.slice(-6)}
-            </Badge>
-          )}
         </div>
       </div>
 
       <div className="flex-1 bg-gray-50 dark:bg-gray-900 relative overflow-hidden mb-1">
         <div className="max-w-4xl mx-auto h-full flex flex-col pb-[12px] mt-2 ">
           <ScrollArea className="flex-1 border shadow-md">
-            <div className="p-3 sm:p-6 space-y-3 sm:space-y-4 mb-[30px]">
+            <div className="p-3 sm:p-6 space-y-3 sm:space-y-4 mb-[30px]" dir={dir}>
               <AnimatePresence initial={false}>
                 {messages.map((message, index) => (
                   <ChatMessage
                     key={message.id}
                     id={message.id}
                     role={message.role}
-                    content={message.content}
+                    content={message.id === 'welcome' ? t('triage.welcome') : message.content}
                     timestamp={message.timestamp || new Date()}
                     resources={message.resources}
                     isStreaming={message.isStreaming}
@@ -263,6 +297,8 @@ export default function TriagePage() {
         {/* Fixed input area */}
         <div className="absolute bottom-0 left-0 right-0 dark:bg-gray-800">
           <div className="max-w-4xl mx-auto p-2 sm:p-4">
+            {safety && <RedFlagAlert safety={safety} className="mb-4" />}
+
             {error && (
               <Alert variant="destructive" className="mb-4">
                 <AlertCircle className="h-4 w-4" />
@@ -276,21 +312,22 @@ export default function TriagePage() {
                 handleSend();
               }}
               className="relative w-full"
+              dir={dir}
             >
               <Input
                 ref={inputRef}
-                placeholder="Describe your symptoms..."
+                placeholder={t('triage.placeholder')}
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
                 onKeyDown={handleKeyDown}
                 disabled={isLoading}
-                className="w-full h-12 text-base rounded-full pl-4 pr-12 bg-gray-100 dark:bg-gray-800 border-gray-200 dark:border-gray-600 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                className="w-full h-12 text-base rounded-full ps-4 pe-12 bg-gray-100 dark:bg-gray-800 border-gray-200 dark:border-gray-600 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
               />
               <Button
                 type="submit"
                 size="icon"
                 disabled={isLoading || !input.trim()}
-                className="absolute right-1 top-1 h-10 w-10 rounded-full bg-teal-600 hover:bg-teal-700 text-white disabled:bg-gray-300 dark:disabled:bg-gray-700"
+                className="absolute end-1 top-1 h-10 w-10 rounded-full bg-teal-600 hover:bg-teal-700 text-white disabled:bg-gray-300 dark:disabled:bg-gray-700"
               >
                 {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
               </Button>
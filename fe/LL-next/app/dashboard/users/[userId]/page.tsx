@@ -22,6 +22,7 @@ import {
 } from 'lucide-react';
 import { FhirResourcesTable } from '@/components/fhir';
 import type { PatientResourcesData } from '@/lib/fhir-storage/types';
+import { getUserProfile } from '@/lib/fhir-storage/actions';
 
 interface UserProfile {
   id: string;
@@ -63,36 +64,26 @@ export default function UserDetailPage() {
 
       try {
         setIsLoading(true);
-        console.log('[User Detail] Loading profile for user:', userId);
 
-        const response = await fetch(
-          `${process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL}/api/fhir-storage/users/${userId}/profile`
-        );
+        // Loaded through a server action, which authenticates to the API as the signed-in user
+        const result = await getUserProfile(userId);
 
-        if (response.ok) {
-          const data = await response.json();
+        if (result.success && result.data) {
+          const data = result.data;
+          setUserProfile(data.profile);
 
-          if (data.success) {
-            setUserProfile(data.data.profile);
+          // Transform data to match FhirResourcesTable format
+          const transformedData: PatientResourcesData = {
+            patientId: userId,
+            resources: data.resources,
+            resourcesByType: data.resourcesByType,
+            totalCount: data.totalResources,
+            resourceTypes: data.resourceTypes,
+          };
 
-            // Transform data to match FhirResourcesTable format
-            const transformedData: PatientResourcesData = {
-              patientId: userId,
-              resources: data.data.resources,
-              resourcesByType: data.data.resourcesByType,
-              totalCount: data.data.totalResources,
-              resourceTypes: data.data.resourceTypes,
-            };
-
-            setResourcesData(transformedData);
-            console.log('[User Detail] Profile loaded successfully');
-          } else {
-            setError('Failed to load user profile');
-          }
-        } else if (response.status === 404) {
-          setError('User not found');
+          setResourcesData(transformedData);
         } else {
-          setError('Failed to load user profile');
+          setError(result.error || 'Failed to load user profile');
         }
       } catch (error) {
         console.error('[User Detail] Error loading profile:', error);
@@ -1,10 +1,13 @@
 "use client"
 
-import { useState } from "react"
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
 import {
   Search,
   Download,
@@ -17,173 +20,136 @@ import {
   Eye,
   ChevronDown,
   ChevronUp,
+  AlertCircle,
+  X,
 } from "lucide-react"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Calendar as CalendarComponent } from "@/components/ui/calendar"
-import { format } from "date-fns"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { endOfDay, format, startOfDay } from "date-fns"
+import { exportAuditEvents, getAuditEvents } from "@/lib/actions/audit"
+import type { AuditEvent, AuditEventType, AuditFilters, AuditSeverity } from "@/lib/types/audit"
+
+type SortKey = "id" | "timestamp" | "user" | "action" | "type" | "severity"
 
-// Types
-type LogType = "security" | "user" | "system" | "data" | "error"
-type LogSeverity = "info" | "warning" | "error" | "critical"
+const PAGE_SIZE = 50
 
-type AuditLog = {
-  id: string
-  timestamp: string
-  user: string
-  action: string
-  type: LogType
-  severity: LogSeverity
-  ipAddress: string
-  details: string
+const SOURCE_LABELS: Record<AuditEvent["source"], string> = {
+  api: "API",
+  web: "Web app",
+  blockchain: "Blockchain",
 }
 
-// Sample data
-const auditLogs: AuditLog[] = [
-  {
-    id: "LOG-001",
-    timestamp: "2025-04-07T11:30:00Z",
-    user: "Admin John Davis",
-    action: "User account created",
-    type: "user",
-    severity: "info",
-    ipAddress: "192.168.1.100",
-    details: "Created new doctor account for Dr. Michael Chen",
-  },
-  {
-    id: "LOG-002",
-    timestamp: "2025-04-07T11:15:00Z",
-    user: "Dr. Sarah Williams",
-    action: "Patient record accessed",
-    type: "data",
-    severity: "info",
-    ipAddress: "192.168.1.101",
-    details: "Accessed medical records for patient Emma Thompson",
-  },
-  {
-    id: "LOG-003",
-    timestamp: "2025-04-07T10:45:00Z",
-    user: "System",
-    action: "Database backup",
-    type: "system",
-    severity: "info",
-    ipAddress: "192.168.1.1",
-    details: "Scheduled daily database backup completed successfully",
-  },
-  {
-    id: "LOG-004",
-    timestamp: "2025-04-07T10:30:00Z",
-    user: "Admin Lisa Johnson",
-    action: "System settings changed",
-    type: "system",
-    severity: "warning",
-    ipAddress: "192.168.1.102",
-    details: "Modified security settings: password policy updated",
-  },
-  {
-    id: "LOG-005",
-    timestamp: "2025-04-07T10:15:00Z",
-    user: "Unknown",
-    action: "Failed login attempt",
-    type: "security",
-    severity: "warning",
-    ipAddress: "203.0.113.45",
-    details: "Multiple failed login attempts for admin account",
-  },
-  {
-    id: "LOG-006",
-    timestamp: "2025-04-07T10:00:00Z",
-    user: "Dr. Robert Kim",
-    action: "Patient data modified",
-    type: "data",
-    severity: "info",
-    ipAddress: "192.168.1.103",
-    details: "Updated treatment plan for patient James Wilson",
-  },
-  {
-    id: "LOG-007",
-    timestamp: "2025-04-07T09:45:00Z",
-    user: "System",
-    action: "API integration error",
-    type: "error",
-    severity: "error",
-    ipAddress: "192.168.1.1",
-    details: "Failed to connect to external EHR system: timeout",
-  },
-  {
-    id: "LOG-008",
-    timestamp: "2025-04-07T09:30:00Z",
-    user: "Security Module",
-    action: "Suspicious activity detected",
-    type: "security",
-    severity: "critical",
-    ipAddress: "198.51.100.23",
-    details: "Potential data breach attempt detected and blocked",
-  },
-  {
-    id: "LOG-009",
-    timestamp: "2025-04-07T09:15:00Z",
-    user: "Admin John Davis",
-    action: "Department created",
-    type: "system",
-    severity: "info",
-    ipAddress: "192.168.1.100",
-    details: "Created new department: Radiology",
-  },
-  {
-    id: "LOG-010",
-    timestamp: "2025-04-07T09:00:00Z",
-    user: "System",
-    action: "System update",
-    type: "system",
-    severity: "info",
-    ipAddress: "192.168.1.1",
-    details: "Applied system update v2.5.3",
-  },
-]
+/** Who acted, for display */
+function actorName(event: AuditEvent): string {
+  const { actor } = event
+  if (!actor) return "System"
+  return actor.name || actor.email || actor.userId || actor.address || "Unknown"
+}
+
+function sortValue(event: AuditEvent, key: SortKey): string {
+  return key === "user" ? actorName(event).toLowerCase() : event[key]
+}
 
 export default function AuditLogs() {
   const [searchQuery, setSearchQuery] = useState("")
-  const [typeFilter, setTypeFilter] = useState<LogType | "all">("all")
-  const [severityFilter, setSeverityFilter] = useState<LogSeverity | "all">("all")
+  const [search, setSearch] = useState("")
+  const [typeFilter, setTypeFilter] = useState<AuditEventType | "all">("all")
+  const [severityFilter, setSeverityFilter] = useState<AuditSeverity | "all">("all")
   const [date, setDate] = useState<Date | undefined>(undefined)
+  const [includeChain, setIncludeChain] = useState(false)
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [total, setTotal] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | undefined>()
+  const [chainError, setChainError] = useState<string | undefined>()
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
   const [sortConfig, setSortConfig] = useState<{
-    key: keyof AuditLog
+    key: SortKey
     direction: "ascending" | "descending"
   }>({ key: "timestamp", direction: "descending" })
 
-  // Filter logs based on search query and filters
-  const filteredLogs = auditLogs.filter((log) => {
-    const matchesSearch =
-      log.user.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      log.action.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      log.details.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      log.id.toLowerCase().includes(searchQuery.toLowerCase())
+  // Search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchQuery.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
 
-    const matchesType = typeFilter === "all" || log.type === typeFilter
-    const matchesSeverity = severityFilter === "all" || log.severity === severityFilter
+  const filters = useMemo<AuditFilters>(
+    () => ({
+      ...(typeFilter !== "all" && { type: typeFilter }),
+      ...(severityFilter !== "all" && { severity: severityFilter }),
+      ...(date && { from: startOfDay(date).toISOString(), to: endOfDay(date).toISOString() }),
+      ...(search && { search }),
+      includeChain,
+    }),
+    [typeFilter, severityFilter, date, search, includeChain]
+  )
 
-    // Filter by date if selected
-    const matchesDate = !date || new Date(log.timestamp).toDateString() === date.toDateString()
+  const load = useCallback(
+    async (cursor?: string) => {
+      setIsLoading(true)
+      const result = await getAuditEvents(filters, cursor, PAGE_SIZE)
+      if (result.success && result.data) {
+        const page = result.data
+        setEvents((current) => (cursor ? [...current, ...page.events] : page.events))
+        setTotal(page.total)
+        setNextCursor(page.nextCursor)
+        setChainError(page.chain?.error)
+        setError(null)
+      } else {
+        setError(result.error || "Failed to load audit logs")
+      }
+      setIsLoading(false)
+    },
+    [filters]
+  )
 
-    return matchesSearch && matchesType && matchesSeverity && matchesDate
-  })
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleExport = async (exportFormat: "csv" | "json") => {
+    setIsExporting(true)
+    const result = await exportAuditEvents(filters, exportFormat)
+    if (result.success && result.data) {
+      const url = URL.createObjectURL(new Blob([result.data.content], { type: result.data.contentType }))
+      const link = document.createElement("a")
+      link.href = url
+      link.download = result.data.fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } else {
+      setError(result.error || "Failed to export audit logs")
+    }
+    setIsExporting(false)
+  }
 
-  // Sort logs
-  const sortedLogs = [...filteredLogs].sort((a, b) => {
+  // Sort the loaded logs
+  const sortedLogs = [...events].sort((a, b) => {
     const { key, direction } = sortConfig
+    const left = sortValue(a, key)
+    const right = sortValue(b, key)
 
-    if (a[key] < b[key]) {
+    if (left < right) {
       return direction === "ascending" ? -1 : 1
     }
-    if (a[key] > b[key]) {
+    if (left > right) {
       return direction === "ascending" ? 1 : -1
     }
     return 0
   })
 
   // Handle sort
-  const requestSort = (key: keyof AuditLog) => {
+  const requestSort = (key: SortKey) => {
     let direction: "ascending" | "descending" = "ascending"
     if (sortConfig.key === key && sortConfig.direction === "ascending") {
       direction = "descending"
@@ -192,7 +158,7 @@ export default function AuditLogs() {
   }
 
   // Get sort direction indicator
-  const getSortDirectionIndicator = (key: keyof AuditLog) => {
+  const getSortDirectionIndicator = (key: SortKey) => {
     if (sortConfig.key !== key) {
       return null
     }
@@ -204,7 +170,7 @@ export default function AuditLogs() {
   }
 
   // Get type badge
-  const getTypeBadge = (type: LogType) => {
+  const getTypeBadge = (type: AuditEventType) => {
     switch (type) {
       case "security":
         return <Badge className="bg-red-500 hover:bg-red-600">Security</Badge>
@@ -220,7 +186,7 @@ export default function AuditLogs() {
   }
 
   // Get severity badge
-  const getSeverityBadge = (severity: LogSeverity) => {
+  const getSeverityBadge = (severity: AuditSeverity) => {
     switch (severity) {
       case "info":
         return (
@@ -250,7 +216,7 @@ export default function AuditLogs() {
   }
 
   // Get type icon
-  const getTypeIcon = (type: LogType) => {
+  const getTypeIcon = (type: AuditEventType) => {
     switch (type) {
       case "security":
         return <Shield className="h-4 w-4 text-red-500" />
@@ -284,11 +250,14 @@ export default function AuditLogs() {
         <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
           <div>
             <CardTitle>Audit Logs</CardTitle>
-            <CardDescription>System activity and security audit trail</CardDescription>
+            <CardDescription>
+              System activity and security audit trail
+              {!isLoading && ` (${total} ${total === 1 ? "event" : "events"})`}
+            </CardDescription>
           </div>
           <div className="flex flex-col sm:flex-row gap-2">
             <div className="flex items-center gap-2">
-              <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as LogType | "all")}>
+              <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as AuditEventType | "all")}>
                 <SelectTrigger className="w-[130px] h-9 rounded-full bg-white/80 border-teal-100">
                   <SelectValue placeholder="Filter by type" />
                 </SelectTrigger>
@@ -302,7 +271,7 @@ export default function AuditLogs() {
                 </SelectContent>
               </Select>
 
-              <Select value={severityFilter} onValueChange={(value) => setSeverityFilter(value as LogSeverity | "all")}>
+              <Select value={severityFilter} onValueChange={(value) => setSeverityFilter(value as AuditSeverity | "all")}>
                 <SelectTrigger className="w-[130px] h-9 rounded-full bg-white/80 border-teal-100">
                   <SelectValue placeholder="Filter by severity" />
                 </SelectTrigger>
@@ -329,6 +298,18 @@ export default function AuditLogs() {
                   <CalendarComponent mode="single" selected={date} onSelect={setDate} initialFocus />
                 </PopoverContent>
               </Popover>
+              {date && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 rounded-full"
+                  title="Clear date"
+                  onClick={() => setDate(undefined)}
+                >
+                  <span className="sr-only">Clear date</span>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
             </div>
 
             <div className="flex items-center gap-2">
@@ -342,15 +323,50 @@ export default function AuditLogs() {
                 />
               </div>
 
-              <Button className="rounded-full h-9 px-4 bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800">
-                <Download className="h-4 w-4 mr-2" />
-                Export
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    className="rounded-full h-9 px-4 bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800"
+                    disabled={isExporting}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {isExporting ? "Exporting..." : "Export"}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleExport("csv")}>CSV</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport("json")}>JSON</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
+        <div className="flex items-center gap-2 pt-2">
+          <Switch id="audit-include-chain" checked={includeChain} onCheckedChange={setIncludeChain} />
+          <Label htmlFor="audit-include-chain" className="text-sm font-normal">
+            Include access logged on the blockchain
+          </Label>
+        </div>
       </CardHeader>
       <CardContent className="p-0">
+        {(error || chainError) && (
+          <div className="space-y-2 p-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            {chainError && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  The blockchain could not be read, so on-chain access is not shown: {chainError}
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead>
@@ -395,35 +411,113 @@ export default function AuditLogs() {
               </tr>
             </thead>
             <tbody>
-              {sortedLogs.map((log) => (
-                <tr key={log.id} className="border-b hover:bg-teal-50/50 transition-colors">
-                  <td className="px-4 py-4 text-sm">{log.id}</td>
-                  <td className="px-4 py-4 text-sm">{formatDate(log.timestamp)}</td>
-                  <td className="px-4 py-4 text-sm">{log.user}</td>
-                  <td className="px-4 py-4 text-sm max-w-[200px] truncate">
-                    <div className="flex items-center gap-2">
-                      {getTypeIcon(log.type)}
-                      <span>{log.action}</span>
-                    </div>
-                  </td>
-                  <td className="px-4 py-4 text-sm">{getTypeBadge(log.type)}</td>
-                  <td className="px-4 py-4 text-sm">{getSeverityBadge(log.severity)}</td>
-                  <td className="px-4 py-4 text-sm text-right">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 w-8 p-0 rounded-full hover:bg-teal-100"
-                      title="View Details"
-                    >
-                      <span className="sr-only">View details</span>
-                      <Eye className="h-4 w-4" />
-                    </Button>
+              {sortedLogs.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-4 py-8 text-center text-sm text-muted-foreground">
+                    {isLoading ? "Loading..." : "No audit events match the filters"}
                   </td>
                 </tr>
+              )}
+              {sortedLogs.map((log) => (
+                <Fragment key={log.id}>
+                  <tr className="border-b hover:bg-teal-50/50 transition-colors">
+                    <td className="px-4 py-4 text-sm font-mono max-w-[120px] truncate" title={log.id}>
+                      {log.id}
+                    </td>
+                    <td className="px-4 py-4 text-sm">{formatDate(log.timestamp)}</td>
+                    <td className="px-4 py-4 text-sm">{actorName(log)}</td>
+                    <td className="px-4 py-4 text-sm max-w-[280px]">
+                      <div className="flex items-center gap-2">
+                        {getTypeIcon(log.type)}
+                        <span className="truncate" title={log.action}>
+                          {log.description}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-4 text-sm">{getTypeBadge(log.type)}</td>
+                    <td className="px-4 py-4 text-sm">{getSeverityBadge(log.severity)}</td>
+                    <td className="px-4 py-4 text-sm text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 rounded-full hover:bg-teal-100"
+                        title="View Details"
+                        aria-expanded={expandedId === log.id}
+                        onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                      >
+                        <span className="sr-only">View details</span>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                  {expandedId === log.id && (
+                    <tr className="border-b bg-teal-50/30">
+                      <td colSpan={7} className="px-4 py-4 text-sm">
+                        <dl className="grid gap-x-6 gap-y-1 sm:grid-cols-[max-content_1fr]">
+                          <dt className="text-muted-foreground">Action</dt>
+                          <dd className="font-mono">{log.action}</dd>
+                          <dt className="text-muted-foreground">Outcome</dt>
+                          <dd>{log.outcome === "success" ? "Success" : "Failure"}</dd>
+                          <dt className="text-muted-foreground">Recorded by</dt>
+                          <dd>{SOURCE_LABELS[log.source]}</dd>
+                          {log.actor && (
+                            <>
+                              <dt className="text-muted-foreground">User</dt>
+                              <dd>
+                                {[log.actor.name, log.actor.email, log.actor.role, log.actor.userId, log.actor.address]
+                                  .filter(Boolean)
+                                  .join(" · ")}
+                              </dd>
+                            </>
+                          )}
+                          {log.ipAddress && (
+                            <>
+                              <dt className="text-muted-foreground">IP address</dt>
+                              <dd className="font-mono">{log.ipAddress}</dd>
+                            </>
+                          )}
+                          {log.resource && (
+                            <>
+                              <dt className="text-muted-foreground">Resource</dt>
+                              <dd className="font-mono">{log.resource}</dd>
+                            </>
+                          )}
+                          {log.patientId && (
+                            <>
+                              <dt className="text-muted-foreground">Patient</dt>
+                              <dd className="font-mono">{log.patientId}</dd>
+                            </>
+                          )}
+                          {log.correlationId && (
+                            <>
+                              <dt className="text-muted-foreground">Correlation ID</dt>
+                              <dd className="font-mono">{log.correlationId}</dd>
+                            </>
+                          )}
+                        </dl>
+                        {log.details && (
+                          <pre className="mt-3 max-h-64 overflow-auto rounded-md bg-white p-3 text-xs">
+                            {JSON.stringify(log.details, null, 2)}
+                          </pre>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))}
             </tbody>
           </table>
         </div>
+        {nextCursor && (
+          <div className="flex items-center justify-center gap-3 p-4">
+            <span className="text-sm text-muted-foreground">
+              Showing {events.length} of {total}
+            </span>
+            <Button variant="outline" size="sm" disabled={isLoading} onClick={() => load(nextCursor)}>
+              {isLoading ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   )
@@ -0,0 +1,116 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, RefreshCw } from "lucide-react"
+import { getNotificationDeliveries } from "@/lib/actions/notifications"
+import type { NotificationChannelStatus, NotificationDelivery } from "@/lib/types/notification"
+
+const CHANNEL_LABELS: Record<string, string> = {
+  email: "Email (SMTP)",
+  "in-app": "In-app",
+  webhook: "Webhooks",
+}
+
+/**
+ * Which notification channels are configured, and what was recently sent on them
+ */
+export default function NotificationDeliveries() {
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([])
+  const [channels, setChannels] = useState<NotificationChannelStatus[]>([])
+  const [status, setStatus] = useState<"all" | "sent" | "failed">("all")
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    const result = await getNotificationDeliveries({ status: status === "all" ? undefined : status, limit: 50 })
+    if (result.success && result.data) {
+      setDeliveries(result.data.deliveries)
+      setChannels(result.data.channels)
+      setError(null)
+    } else {
+      setError(result.error || "Failed to load deliveries")
+    }
+    setIsLoading(false)
+  }, [status])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  return (
+    <Card className="border-none shadow-lg bg-white/90 backdrop-blur-sm mt-6">
+      <CardHeader className="bg-gradient-to-r from-teal-50 to-transparent">
+        <CardTitle>Notification Deliveries</CardTitle>
+        <CardDescription>
+          Reminders, high-risk triage alerts and record-sharing notices sent by the system
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 p-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {channels.map(({ channel, enabled }) => (
+            <Badge
+              key={channel}
+              className={enabled ? "bg-teal-100 text-teal-800" : "bg-gray-100 text-gray-600"}
+            >
+              {CHANNEL_LABELS[channel] || channel}: {enabled ? "enabled" : "not configured"}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Select value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All deliveries</SelectItem>
+              <SelectItem value="sent">Sent</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No deliveries yet"}</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {deliveries.map((delivery) => (
+              <div key={delivery.deliveryId} className="flex items-start justify-between gap-4 p-3 text-sm">
+                <div className="space-y-1">
+                  <div className="font-medium">{delivery.type}</div>
+                  <div className="text-muted-foreground">
+                    {CHANNEL_LABELS[delivery.channel] || delivery.channel} → {delivery.target}
+                  </div>
+                  {delivery.error && <div className="text-red-600">{delivery.error}</div>}
+                </div>
+                <div className="flex flex-col items-end gap-1">
+                  <Badge className={delivery.status === "sent" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}>
+                    {delivery.status}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{new Date(delivery.createdAt).toLocaleString()}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, RefreshCw } from "lucide-react"
+import { getSettingsHistory } from "@/lib/actions/settings"
+import type { SettingValue, SettingsRevision } from "@/lib/types/settings"
+
+function formatValue(value: SettingValue): string {
+  if (value === undefined || value === null || value === "") return "(empty)"
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "(none)"
+  if (typeof value === "boolean") return value ? "on" : "off"
+  return String(value)
+}
+
+interface SettingsHistoryProps {
+  /** Changes whenever settings were saved, to reload the history */
+  refreshKey?: number
+  /** Setting labels by key */
+  labels?: Record<string, string>
+}
+
+/**
+ * Who changed which system settings, and when
+ */
+export default function SettingsHistory({ refreshKey = 0, labels = {} }: SettingsHistoryProps) {
+  const [history, setHistory] = useState<SettingsRevision[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    const result = await getSettingsHistory(undefined, 50)
+    if (result.success && result.data) {
+      setHistory(result.data)
+      setError(null)
+    } else {
+      setError(result.error || "Failed to load settings history")
+    }
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load, refreshKey])
+
+  return (
+    <Card className="border-none shadow-lg bg-white/90 backdrop-blur-sm">
+      <CardHeader className="bg-gradient-to-r from-teal-50 to-transparent">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Change History</CardTitle>
+            <CardDescription>Every saved change to the system settings</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 p-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No changes yet"}</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {history.map((entry) => (
+              <div key={entry.revision} className="space-y-2 p-3 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">Revision {entry.revision}</Badge>
+                    <span className="font-medium">
+                      {entry.changedBy.name || entry.changedBy.email || entry.changedBy.userId}
+                    </span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">{new Date(entry.changedAt).toLocaleString()}</span>
+                </div>
+                {entry.reason && <p className="text-muted-foreground">&ldquo;{entry.reason}&rdquo;</p>}
+                <ul className="space-y-1">
+                  {entry.changes.map((change) => (
+                    <li key={change.key} className="flex flex-wrap gap-1">
+                      <span className="font-medium">{labels[change.key] || change.key}:</span>
+                      <span className="text-muted-foreground line-through">{formatValue(change.previous)}</span>
+                      <span>→ {formatValue(change.value)}</span>
+                      {change.reset && <Badge className="bg-gray-100 text-gray-600">environment default</Badge>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
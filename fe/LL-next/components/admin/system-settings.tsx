@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -9,10 +9,26 @@ import { Switch } from "@/components/ui/switch"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Settings, Shield, Bell, Database, Clock, Save, Wallet, CheckCircle, AlertCircle } from "lucide-react"
+import {
+  Settings,
+  Shield,
+  Bell,
+  Database,
+  Clock,
+  Save,
+  Wallet,
+  CheckCircle,
+  AlertCircle,
+  History,
+  RotateCcw,
+} from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { blockchainService } from "@/lib/services/blockchain"
+import { getSystemSettings, saveSystemSettings } from "@/lib/actions/settings"
+import type { SettingValue, SettingsSnapshot } from "@/lib/types/settings"
+import NotificationDeliveries from "@/components/admin/notification-deliveries"
+import SettingsHistory from "@/components/admin/settings-history"
 
 export default function SystemSettings() {
   const [isLoading, setIsLoading] = useState(false)
@@ -21,16 +37,38 @@ export default function SystemSettings() {
   const [contractStatus, setContractStatus] = useState<any>(null)
   const [blockchainError, setBlockchainError] = useState<string | null>(null)
 
+  const [snapshot, setSnapshot] = useState<SettingsSnapshot | null>(null)
+  // Unsaved values by setting key; null restores the environment's value
+  const [draft, setDraft] = useState<Record<string, SettingValue>>({})
+  const [reason, setReason] = useState("")
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [settingsError, setSettingsError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [historyVersion, setHistoryVersion] = useState(0)
+
+  const loadSettings = useCallback(async () => {
+    const result = await getSystemSettings()
+    if (result.success && result.data) {
+      setSnapshot(result.data)
+      setDraft({})
+      setFieldErrors({})
+      setSettingsError(null)
+    } else {
+      setSettingsError(result.error || "Failed to load settings")
+    }
+  }, [])
+
   useEffect(() => {
     checkBlockchainConnection()
-  }, [])
+    loadSettings()
+  }, [loadSettings])
 
   const checkBlockchainConnection = async () => {
     try {
       const address = await blockchainService.getConnectedAddress()
       setBlockchainConnected(!!address)
       setWalletAddress(address)
-      
+
       if (address) {
         const status = await blockchainService.getContractStatus()
         setContractStatus(status)
@@ -55,14 +93,169 @@ export default function SystemSettings() {
     }
   }
 
-  const handleSave = () => {
+  const settingsByKey = useMemo(
+    () => new Map((snapshot?.settings || []).map((setting) => [setting.key, setting])),
+    [snapshot]
+  )
+  const labels = useMemo(
+    () => Object.fromEntries((snapshot?.settings || []).map((setting) => [setting.key, setting.label])),
+    [snapshot]
+  )
+  const pendingCount = Object.keys(draft).length
+  const disabled = !snapshot || isLoading
+
+  const valueOf = (key: string): SettingValue => {
+    const setting = settingsByKey.get(key)
+    if (key in draft) {
+      return draft[key] === null ? setting?.defaultValue : draft[key]
+    }
+    return setting?.value
+  }
+  const textOf = (key: string) => {
+    const value = valueOf(key)
+    return Array.isArray(value) ? value.join(", ") : String(value ?? "")
+  }
+
+  const change = (key: string, value: SettingValue) => {
+    setDraft((prev) => ({ ...prev, [key]: value }))
+    setFieldErrors((prev) => {
+      const { [key]: _, ...rest } = prev
+      return rest
+    })
+    setNotice(null)
+  }
+  const changeNumber = (key: string, raw: string) => change(key, raw === "" ? "" : Number(raw))
+  const changeList = (key: string, raw: string) =>
+    change(
+      key,
+      raw
+        .split(/[,\n]/)
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+
+  const handleSave = async () => {
+    if (!snapshot || pendingCount === 0) return
+
     setIsLoading(true)
-    // Simulate API call
-    setTimeout(() => {
-      setIsLoading(false)
-    }, 1000)
+    setSettingsError(null)
+    setNotice(null)
+    const result = await saveSystemSettings(draft, snapshot.revision, reason.trim() || undefined)
+    if (result.success && result.data) {
+      const saved = result.data.changes.length
+      setSnapshot(result.data)
+      setDraft({})
+      setReason("")
+      setFieldErrors({})
+      setNotice(saved > 0 ? `Saved ${saved} change${saved === 1 ? "" : "s"}` : "No settings changed")
+      setHistoryVersion((version) => version + 1)
+    } else {
+      setFieldErrors(result.fieldErrors || {})
+      setSettingsError(
+        result.conflict
+          ? "Someone else changed the settings in the meantime. Reload them before saving again."
+          : result.error || "Failed to save settings"
+      )
+    }
+    setIsLoading(false)
+  }
+
+  const fieldLabel = (key: string, htmlFor: string, label: string) => {
+    const setting = settingsByKey.get(key)
+    const overridden = key in draft ? draft[key] !== null : setting?.overridden
+
+    return (
+      <div className="flex items-center gap-2">
+        <Label htmlFor={htmlFor}>{label}</Label>
+        {overridden && (
+          <>
+            <Badge variant="secondary" className="text-xs">
+              Custom
+            </Badge>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs text-muted-foreground"
+              onClick={() => change(key, null)}
+              disabled={disabled}
+              title="Use the value from the environment"
+            >
+              <RotateCcw className="mr-1 h-3 w-3" />
+              Default
+            </Button>
+          </>
+        )}
+      </div>
+    )
   }
 
+  const fieldError = (key: string) =>
+    fieldErrors[key] ? <p className="text-sm text-red-600">{fieldErrors[key]}</p> : null
+
+  const switchRow = (key: string, id: string, label: string, description: string) => (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          {fieldLabel(key, id, label)}
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </div>
+        <Switch
+          id={id}
+          checked={valueOf(key) === true}
+          onCheckedChange={(checked) => change(key, checked)}
+          disabled={disabled}
+        />
+      </div>
+      {fieldError(key)}
+    </div>
+  )
+
+  const saveBar = (
+    <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-end">
+      {pendingCount > 0 && (
+        <span className="text-sm text-muted-foreground">
+          {pendingCount} unsaved change{pendingCount === 1 ? "" : "s"}
+        </span>
+      )}
+      <Input
+        className="md:w-72"
+        placeholder="Reason for the change (optional)"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        disabled={disabled || pendingCount === 0}
+      />
+      <Button
+        variant="outline"
+        className="rounded-full"
+        onClick={() => {
+          setDraft({})
+          setFieldErrors({})
+        }}
+        disabled={disabled || pendingCount === 0}
+      >
+        Discard
+      </Button>
+      <Button
+        onClick={handleSave}
+        disabled={disabled || pendingCount === 0}
+        className="rounded-full px-6 bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800"
+      >
+        {isLoading ? (
+          <>
+            <Clock className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <Save className="mr-2 h-4 w-4" />
+            Save Changes
+          </>
+        )}
+      </Button>
+    </div>
+  )
+
   return (
     <Tabs defaultValue="general" className="space-y-6">
       <TabsList className="bg-white/50 backdrop-blur-sm p-1 rounded-full h-12 border shadow-sm">
@@ -94,8 +287,35 @@ export default function SystemSettings() {
           <Database className="mr-2 h-4 w-4" />
           Integrations
         </TabsTrigger>
+        <TabsTrigger
+          value="history"
+          className="rounded-full h-10 px-6 data-[state=active]:bg-teal-600 data-[state=active]:text-white transition-all duration-300"
+        >
+          <History className="mr-2 h-4 w-4" />
+          History
+        </TabsTrigger>
       </TabsList>
 
+      {settingsError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>{settingsError}</span>
+            <Button variant="outline" size="sm" onClick={loadSettings}>
+              Reload
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+      {notice && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>
+            {notice}. Running services pick up the new values within a few seconds.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <TabsContent value="general">
         <Card className="border-none shadow-lg bg-white/90 backdrop-blur-sm">
           <CardHeader className="bg-gradient-to-r from-teal-50 to-transparent">
@@ -106,19 +326,36 @@ export default function SystemSettings() {
             <div className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-2">
-                  <Label htmlFor="system-name">System Name</Label>
-                  <Input id="system-name" defaultValue="LeLink Healthcare Platform" />
+                  {fieldLabel("system.name", "system-name", "System Name")}
+                  <Input
+                    id="system-name"
+                    value={textOf("system.name")}
+                    onChange={(e) => change("system.name", e.target.value)}
+                    disabled={disabled}
+                  />
+                  {fieldError("system.name")}
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="admin-email">Administrator Email</Label>
-                  <Input id="admin-email" defaultValue="admin@lelink.com" />
+                  {fieldLabel("system.adminEmail", "admin-email", "Administrator Email")}
+                  <Input
+                    id="admin-email"
+                    type="email"
+                    value={textOf("system.adminEmail")}
+                    onChange={(e) => change("system.adminEmail", e.target.value)}
+                    disabled={disabled}
+                  />
+                  {fieldError("system.adminEmail")}
                 </div>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-2">
-                  <Label htmlFor="timezone">Default Timezone</Label>
-                  <Select defaultValue="utc">
+                  {fieldLabel("system.timezone", "timezone", "Default Timezone")}
+                  <Select
+                    value={textOf("system.timezone")}
+                    onValueChange={(value) => change("system.timezone", value)}
+                    disabled={disabled}
+                  >
                     <SelectTrigger id="timezone">
                       <SelectValue placeholder="Select timezone" />
                     </SelectTrigger>
@@ -132,8 +369,12 @@ export default function SystemSettings() {
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="language">Default Language</Label>
-                  <Select defaultValue="en">
+                  {fieldLabel("system.language", "language", "Default Language")}
+                  <Select
+                    value={textOf("system.language")}
+                    onValueChange={(value) => change("system.language", value)}
+                    disabled={disabled}
+                  >
                     <SelectTrigger id="language">
                       <SelectValue placeholder="Select language" />
                     </SelectTrigger>
@@ -144,72 +385,44 @@ export default function SystemSettings() {
                       <SelectItem value="de">German</SelectItem>
                       <SelectItem value="zh">Chinese</SelectItem>
                       <SelectItem value="ar">Arabic</SelectItem>
+                      <SelectItem value="uk">Ukrainian</SelectItem>
+                      <SelectItem value="fa">Persian</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="system-description">System Description</Label>
+                {fieldLabel("system.description", "system-description", "System Description")}
                 <Textarea
                   id="system-description"
                   rows={3}
-                  defaultValue="LeLink is a secure healthcare platform for refugees, providing immediate access to medical services with robust data privacy."
+                  value={textOf("system.description")}
+                  onChange={(e) => change("system.description", e.target.value)}
+                  disabled={disabled}
                 />
+                {fieldError("system.description")}
               </div>
 
               <div className="space-y-4">
                 <h3 className="text-lg font-medium">System Preferences</h3>
 
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="maintenance-mode">Maintenance Mode</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Enable maintenance mode to restrict access during updates
-                    </p>
-                  </div>
-                  <Switch id="maintenance-mode" />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="auto-logout">Auto Logout</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Automatically log out inactive users after 30 minutes
-                    </p>
-                  </div>
-                  <Switch id="auto-logout" defaultChecked />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="debug-mode">Debug Mode</Label>
-                    <p className="text-sm text-muted-foreground">Enable detailed logging for system troubleshooting</p>
-                  </div>
-                  <Switch id="debug-mode" />
-                </div>
+                {switchRow(
+                  "system.maintenanceMode",
+                  "maintenance-mode",
+                  "Maintenance Mode",
+                  "Only administrators can use the system while it is under maintenance"
+                )}
+                {switchRow(
+                  "system.debugMode",
+                  "debug-mode",
+                  "Debug Mode",
+                  "Enable detailed logging for system troubleshooting"
+                )}
               </div>
             </div>
 
-            <div className="flex justify-end">
-              <Button
-                onClick={handleSave}
-                disabled={isLoading}
-                className="rounded-full px-6 bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800"
-              >
-                {isLoading ? (
-                  <>
-                    <Clock className="mr-2 h-4 w-4 animate-spin" />
-                    Saving...
-                  </>
-                ) : (
-                  <>
-                    <Save className="mr-2 h-4 w-4" />
-                    Save Changes
-                  </>
-                )}
-              </Button>
-            </div>
+            {saveBar}
           </CardContent>
         </Card>
       </TabsContent>
@@ -226,149 +439,116 @@ export default function SystemSettings() {
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-2">
-                  <Label htmlFor="min-password-length">Minimum Password Length</Label>
-                  <Select defaultValue="12">
-                    <SelectTrigger id="min-password-length">
-                      <SelectValue placeholder="Select minimum length" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="8">8 characters</SelectItem>
-                      <SelectItem value="10">10 characters</SelectItem>
-                      <SelectItem value="12">12 characters</SelectItem>
-                      <SelectItem value="14">14 characters</SelectItem>
-                      <SelectItem value="16">16 characters</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  {fieldLabel("security.password.minLength", "min-password-length", "Minimum Password Length")}
+                  <Input
+                    id="min-password-length"
+                    type="number"
+                    min={8}
+                    max={64}
+                    value={textOf("security.password.minLength")}
+                    onChange={(e) => changeNumber("security.password.minLength", e.target.value)}
+                    disabled={disabled}
+                  />
+                  {fieldError("security.password.minLength")}
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="password-expiry">Password Expiry</Label>
-                  <Select defaultValue="90">
-                    <SelectTrigger id="password-expiry">
-                      <SelectValue placeholder="Select expiry period" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="30">30 days</SelectItem>
-                      <SelectItem value="60">60 days</SelectItem>
-                      <SelectItem value="90">90 days</SelectItem>
-                      <SelectItem value="180">180 days</SelectItem>
-                      <SelectItem value="never">Never</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  {fieldLabel("security.password.expiryDays", "password-expiry", "Password Expiry (days)")}
+                  <Input
+                    id="password-expiry"
+                    type="number"
+                    min={0}
+                    max={365}
+                    value={textOf("security.password.expiryDays")}
+                    onChange={(e) => changeNumber("security.password.expiryDays", e.target.value)}
+                    disabled={disabled}
+                  />
+                  <p className="text-sm text-muted-foreground">0 means passwords never expire</p>
+                  {fieldError("security.password.expiryDays")}
                 </div>
               </div>
 
               <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="require-special-chars">Require Special Characters</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Passwords must contain at least one special character
-                    </p>
-                  </div>
-                  <Switch id="require-special-chars" defaultChecked />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="require-numbers">Require Numbers</Label>
-                    <p className="text-sm text-muted-foreground">Passwords must contain at least one number</p>
-                  </div>
-                  <Switch id="require-numbers" defaultChecked />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="require-mixed-case">Require Mixed Case</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Passwords must contain both uppercase and lowercase letters
-                    </p>
-                  </div>
-                  <Switch id="require-mixed-case" defaultChecked />
-                </div>
+                {switchRow(
+                  "security.password.requireSpecialCharacters",
+                  "require-special-chars",
+                  "Require Special Characters",
+                  "Passwords must contain at least one special character"
+                )}
+                {switchRow(
+                  "security.password.requireNumbers",
+                  "require-numbers",
+                  "Require Numbers",
+                  "Passwords must contain at least one number"
+                )}
+                {switchRow(
+                  "security.password.requireMixedCase",
+                  "require-mixed-case",
+                  "Require Mixed Case",
+                  "Passwords must contain both uppercase and lowercase letters"
+                )}
               </div>
 
               <h3 className="text-lg font-medium mt-6">Authentication</h3>
 
               <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="two-factor-auth">Two-Factor Authentication</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Require two-factor authentication for all admin users
-                    </p>
-                  </div>
-                  <Switch id="two-factor-auth" defaultChecked />
-                </div>
+                {switchRow(
+                  "security.adminTwoFactor",
+                  "two-factor-auth",
+                  "Two-Factor Authentication",
+                  "Require two-factor authentication for all admin users"
+                )}
 
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="session-timeout">Session Timeout</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Automatically log out users after 30 minutes of inactivity
-                    </p>
-                  </div>
-                  <Switch id="session-timeout" defaultChecked />
+                <div className="space-y-2">
+                  {fieldLabel("security.sessionTimeoutMinutes", "session-timeout", "Session Timeout (minutes)")}
+                  <Input
+                    id="session-timeout"
+                    type="number"
+                    min={0}
+                    max={1440}
+                    className="md:w-48"
+                    value={textOf("security.sessionTimeoutMinutes")}
+                    onChange={(e) => changeNumber("security.sessionTimeoutMinutes", e.target.value)}
+                    disabled={disabled}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Automatically log out users after this many minutes of inactivity; 0 turns the timeout off
+                  </p>
+                  {fieldError("security.sessionTimeoutMinutes")}
                 </div>
 
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="ip-restriction">IP Restriction</Label>
-                    <p className="text-sm text-muted-foreground">Restrict admin access to specific IP addresses</p>
-                  </div>
-                  <Switch id="ip-restriction" />
-                </div>
+                {switchRow(
+                  "security.ipRestriction",
+                  "ip-restriction",
+                  "IP Restriction",
+                  "Restrict admin access to specific IP addresses"
+                )}
               </div>
 
               <h3 className="text-lg font-medium mt-6">Data Protection</h3>
 
               <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="data-encryption">Data Encryption</Label>
-                    <p className="text-sm text-muted-foreground">Enable end-to-end encryption for all patient data</p>
-                  </div>
-                  <Switch id="data-encryption" defaultChecked />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="audit-logging">Audit Logging</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Log all data access and modifications for compliance
-                    </p>
-                  </div>
-                  <Switch id="audit-logging" defaultChecked />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="data-anonymization">Data Anonymization</Label>
-                    <p className="text-sm text-muted-foreground">Anonymize patient data for reporting and analytics</p>
-                  </div>
-                  <Switch id="data-anonymization" defaultChecked />
-                </div>
+                {switchRow(
+                  "security.dataEncryption",
+                  "data-encryption",
+                  "Data Encryption",
+                  "Enable end-to-end encryption for all patient data"
+                )}
+                {switchRow(
+                  "security.auditLogging",
+                  "audit-logging",
+                  "Audit Logging",
+                  "Log all data access and modifications for compliance"
+                )}
+                {switchRow(
+                  "security.dataAnonymization",
+                  "data-anonymization",
+                  "Data Anonymization",
+                  "Anonymize patient data for reporting and analytics"
+                )}
               </div>
             </div>
 
-            <div className="flex justify-end">
-              <Button
-                onClick={handleSave}
-                disabled={isLoading}
-                className="rounded-full px-6 bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800"
-              >
-                {isLoading ? (
-                  <>
-                    <Clock className="mr-2 h-4 w-4 animate-spin" />
-                    Saving...
-                  </>
-                ) : (
-                  <>
-                    <Save className="mr-2 h-4 w-4" />
-                    Save Changes
-                  </>
-                )}
-              </Button>
-            </div>
+            {saveBar}
           </CardContent>
         </Card>
       </TabsContent>
@@ -385,118 +565,118 @@ export default function SystemSettings() {
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-2">
-                  <Label htmlFor="smtp-server">SMTP Server</Label>
-                  <Input id="smtp-server" defaultValue="smtp.lelink.com" />
+                  {fieldLabel("notifications.smtp.host", "smtp-server", "SMTP Server")}
+                  <Input
+                    id="smtp-server"
+                    placeholder="Email is off without a server"
+                    value={textOf("notifications.smtp.host")}
+                    onChange={(e) => change("notifications.smtp.host", e.target.value)}
+                    disabled={disabled}
+                  />
+                  {fieldError("notifications.smtp.host")}
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="smtp-port">SMTP Port</Label>
-                  <Input id="smtp-port" defaultValue="587" />
+                  {fieldLabel("notifications.smtp.port", "smtp-port", "SMTP Port")}
+                  <Input
+                    id="smtp-port"
+                    type="number"
+                    min={1}
+                    max={65535}
+                    value={textOf("notifications.smtp.port")}
+                    onChange={(e) => changeNumber("notifications.smtp.port", e.target.value)}
+                    disabled={disabled}
+                  />
+                  {fieldError("notifications.smtp.port")}
                 </div>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-2">
-                  <Label htmlFor="smtp-username">SMTP Username</Label>
-                  <Input id="smtp-username" defaultValue="notifications@lelink.com" />
+                  {fieldLabel("notifications.smtp.user", "smtp-username", "SMTP Username")}
+                  <Input
+                    id="smtp-username"
+                    value={textOf("notifications.smtp.user")}
+                    onChange={(e) => change("notifications.smtp.user", e.target.value)}
+                    disabled={disabled}
+                  />
+                  {fieldError("notifications.smtp.user")}
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="smtp-password">SMTP Password</Label>
-                  <Input id="smtp-password" type="password" defaultValue="••••••••••••" />
+                  <Label>SMTP Password</Label>
+                  <p className="text-sm text-muted-foreground pt-2">
+                    Read from SMTP_PASSWORD in the Functions app environment; secrets are not stored as settings
+                  </p>
                 </div>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="email-sender">Email Sender Name</Label>
-                <Input id="email-sender" defaultValue="LeLink Healthcare" />
+                {fieldLabel("notifications.smtp.from", "email-sender", "Email Sender")}
+                <Input
+                  id="email-sender"
+                  placeholder="LeLink Healthcare <notifications@example.org>"
+                  value={textOf("notifications.smtp.from")}
+                  onChange={(e) => change("notifications.smtp.from", e.target.value)}
+                  disabled={disabled}
+                />
+                {fieldError("notifications.smtp.from")}
               </div>
 
+              {switchRow(
+                "notifications.smtp.secure",
+                "smtp-secure",
+                "Implicit TLS",
+                "Connect with TLS from the start (usually port 465); otherwise STARTTLS is used when offered"
+              )}
+
               <h3 className="text-lg font-medium mt-6">Notification Types</h3>
 
               <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="user-registration">User Registration</Label>
-                    <p className="text-sm text-muted-foreground">Send notifications when new users register</p>
-                  </div>
-                  <Switch id="user-registration" defaultChecked />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="critical-alerts">Critical Patient Alerts</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Send notifications for critical patient status changes
-                    </p>
-                  </div>
-                  <Switch id="critical-alerts" defaultChecked />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="system-updates">System Updates</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Send notifications about system updates and maintenance
-                    </p>
-                  </div>
-                  <Switch id="system-updates" defaultChecked />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="security-alerts">Security Alerts</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Send notifications about security events and breaches
-                    </p>
-                  </div>
-                  <Switch id="security-alerts" defaultChecked />
-                </div>
+                {switchRow(
+                  "notifications.highRiskAlerts",
+                  "critical-alerts",
+                  "Critical Patient Alerts",
+                  "Alert practitioners and the recipients below when triage finds a high risk"
+                )}
 
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                    <Label htmlFor="department-reports">Department Reports</Label>
-                    <p className="text-sm text-muted-foreground">Send weekly department performance reports</p>
-                  </div>
-                  <Switch id="department-reports" />
+                <div className="space-y-2">
+                  {fieldLabel("notifications.reminderLeadHours", "reminder-lead", "Appointment Reminders (hours before)")}
+                  <Input
+                    id="reminder-lead"
+                    type="number"
+                    min={1}
+                    max={168}
+                    className="md:w-48"
+                    value={textOf("notifications.reminderLeadHours")}
+                    onChange={(e) => changeNumber("notifications.reminderLeadHours", e.target.value)}
+                    disabled={disabled}
+                  />
+                  {fieldError("notifications.reminderLeadHours")}
                 </div>
               </div>
 
               <h3 className="text-lg font-medium mt-6">Notification Recipients</h3>
 
               <div className="space-y-2">
-                <Label htmlFor="admin-emails">Administrator Emails</Label>
+                {fieldLabel("notifications.alertEmails", "admin-emails", "Alert Recipients")}
                 <Textarea
                   id="admin-emails"
                   rows={3}
-                  defaultValue="admin@lelink.com, security@lelink.com, support@lelink.com"
+                  value={textOf("notifications.alertEmails")}
+                  onChange={(e) => changeList("notifications.alertEmails", e.target.value)}
+                  disabled={disabled}
                   placeholder="Enter email addresses separated by commas"
                 />
                 <p className="text-sm text-muted-foreground mt-1">
-                  These email addresses will receive all system notifications
+                  These email addresses receive critical patient alerts, besides the patient&apos;s practitioners
                 </p>
+                {fieldError("notifications.alertEmails")}
               </div>
             </div>
 
-            <div className="flex justify-end">
-              <Button
-                onClick={handleSave}
-                disabled={isLoading}
-                className="rounded-full px-6 bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800"
-              >
-                {isLoading ? (
-                  <>
-                    <Clock className="mr-2 h-4 w-4 animate-spin" />
-                    Saving...
-                  </>
-                ) : (
-                  <>
-                    <Save className="mr-2 h-4 w-4" />
-                    Save Changes
-                  </>
-                )}
-              </Button>
-            </div>
+            {saveBar}
           </CardContent>
         </Card>
+        <NotificationDeliveries />
       </TabsContent>
 
       <TabsContent value="integrations">
@@ -520,7 +700,7 @@ export default function SystemSettings() {
                 <div className="space-y-4">
                   <div className="p-4 border rounded-lg bg-muted/50">
                     <p className="text-sm text-muted-foreground mb-4">
-                      Connect your wallet to enable blockchain audit logging for healthcare data
+                      Connect your wallet to inspect the LeLink contract
                     </p>
                     <Button
                       onClick={connectBlockchainWallet}
@@ -566,7 +746,7 @@ export default function SystemSettings() {
                       </div>
                       <div>
                         <Label className="text-muted-foreground">Status</Label>
-                        <Badge 
+                        <Badge
                           variant={contractStatus.paused ? "destructive" : "default"}
                           className="mt-1"
                         >
@@ -576,44 +756,6 @@ export default function SystemSettings() {
                     </div>
                   )}
 
-                  <div className="space-y-2">
-                    <Label htmlFor="blockchain-endpoint">Blockchain RPC Endpoint</Label>
-                    <Input 
-                      id="blockchain-endpoint" 
-                      defaultValue={process.env.NEXT_PUBLIC_BLOCKCHAIN_RPC_URL || "http://localhost:8545"}
-                      disabled={blockchainConnected}
-                    />
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="contract-address">LeLink Contract Address</Label>
-                    <Input 
-                      id="contract-address" 
-                      defaultValue={process.env.NEXT_PUBLIC_LELINK_CONTRACT_ADDRESS || ""}
-                      disabled={blockchainConnected}
-                    />
-                  </div>
-
-                  <div className="flex items-center justify-between">
-                    <div className="space-y-0.5">
-                      <Label htmlFor="blockchain-enabled">Enable Blockchain Logging</Label>
-                      <p className="text-sm text-muted-foreground">
-                        Automatically log all FHIR resources to blockchain
-                      </p>
-                    </div>
-                    <Switch id="blockchain-enabled" defaultChecked />
-                  </div>
-
-                  <div className="flex items-center justify-between">
-                    <div className="space-y-0.5">
-                      <Label htmlFor="verify-integrity">Verify Data Integrity</Label>
-                      <p className="text-sm text-muted-foreground">
-                        Check blockchain hashes against stored data
-                      </p>
-                    </div>
-                    <Switch id="verify-integrity" defaultChecked />
-                  </div>
-
                   <Button
                     variant="outline"
                     size="sm"
@@ -626,56 +768,155 @@ export default function SystemSettings() {
                 </div>
               )}
 
+              <div className="space-y-2">
+                {fieldLabel("blockchain.rpcUrl", "blockchain-endpoint", "Blockchain RPC Endpoint")}
+                <Input
+                  id="blockchain-endpoint"
+                  value={textOf("blockchain.rpcUrl")}
+                  onChange={(e) => change("blockchain.rpcUrl", e.target.value)}
+                  disabled={disabled}
+                />
+                {fieldError("blockchain.rpcUrl")}
+              </div>
+
+              <div className="space-y-2">
+                {fieldLabel("blockchain.contractAddress", "contract-address", "LeLink Contract Address")}
+                <Input
+                  id="contract-address"
+                  className="font-mono"
+                  placeholder="0x..."
+                  value={textOf("blockchain.contractAddress")}
+                  onChange={(e) => change("blockchain.contractAddress", e.target.value)}
+                  disabled={disabled}
+                />
+                {fieldError("blockchain.contractAddress")}
+              </div>
+
+              <div className="space-y-2">
+                {fieldLabel("blockchain.deploymentBlock", "deployment-block", "Contract Deployment Block")}
+                <Input
+                  id="deployment-block"
+                  type="number"
+                  min={0}
+                  value={textOf("blockchain.deploymentBlock")}
+                  onChange={(e) => changeNumber("blockchain.deploymentBlock", e.target.value)}
+                  disabled={disabled}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Anchor lookups search for contract events from this block on
+                </p>
+                {fieldError("blockchain.deploymentBlock")}
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                The signing key is read from BLOCKCHAIN_PRIVATE_KEY in the Functions app environment.
+              </p>
+
+              {switchRow(
+                "blockchain.enabled",
+                "blockchain-enabled",
+                "Enable Blockchain Logging",
+                "Automatically log all FHIR resources to blockchain"
+              )}
+              {switchRow(
+                "blockchain.verifyIntegrity",
+                "verify-integrity",
+                "Verify Data Integrity",
+                "Check blockchain hashes against stored data"
+              )}
+
               <h3 className="text-lg font-medium mt-6">AI Integration</h3>
 
               <div className="space-y-2">
-                <Label htmlFor="ai-provider">AI Provider</Label>
-                <Select defaultValue="openai">
+                {fieldLabel("ai.provider", "ai-provider", "AI Provider")}
+                <Select
+                  value={textOf("ai.provider")}
+                  onValueChange={(value) => change("ai.provider", value)}
+                  disabled={disabled}
+                >
                   <SelectTrigger id="ai-provider">
                     <SelectValue placeholder="Select provider" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="openai">OpenAI</SelectItem>
-                    <SelectItem value="azure">Azure AI</SelectItem>
-                    <SelectItem value="google">Google AI</SelectItem>
-                    <SelectItem value="anthropic">Anthropic</SelectItem>
+                    <SelectItem value="openai-assistants">OpenAI Assistants</SelectItem>
+                    <SelectItem value="openai-chat">OpenAI Chat Completions</SelectItem>
+                    <SelectItem value="scripted">Scripted (offline demo)</SelectItem>
                   </SelectContent>
                 </Select>
+                <p className="text-sm text-muted-foreground">
+                  Applies to new triage conversations. The API key is read from OPENAI_API_KEY.
+                </p>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="ai-api-key">API Key</Label>
-                <Input id="ai-api-key" type="password" defaultValue="••••••••••••••••••••••••••••••" />
+                {fieldLabel("ai.chatModel", "ai-model", "AI Model")}
+                <Input
+                  id="ai-model"
+                  value={textOf("ai.chatModel")}
+                  onChange={(e) => change("ai.chatModel", e.target.value)}
+                  disabled={disabled}
+                />
+                <p className="text-sm text-muted-foreground">Used by the Chat Completions provider, e.g. gpt-4o</p>
+                {fieldError("ai.chatModel")}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="ai-model">AI Model</Label>
-                <Select defaultValue="gpt-4o">
-                  <SelectTrigger id="ai-model">
-                    <SelectValue placeholder="Select model" />
+                {fieldLabel("ai.translationProvider", "translation-provider", "Translation Provider")}
+                <Select
+                  value={textOf("ai.translationProvider")}
+                  onValueChange={(value) => change("ai.translationProvider", value)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="translation-provider">
+                    <SelectValue placeholder="Select provider" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="gpt-4o">GPT-4o</SelectItem>
-                    <SelectItem value="gpt-4">GPT-4</SelectItem>
-                    <SelectItem value="claude-3">Claude 3</SelectItem>
-                    <SelectItem value="gemini-pro">Gemini Pro</SelectItem>
+                    <SelectItem value="openai">OpenAI</SelectItem>
+                    <SelectItem value="none">None (default language only)</SelectItem>
                   </SelectContent>
                 </Select>
+                <p className="text-sm text-muted-foreground">
+                  Detects the patient&apos;s language and stores English translations of triage conversations
+                </p>
               </div>
 
-              <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label htmlFor="ai-triage">AI Triage</Label>
-                  <p className="text-sm text-muted-foreground">Use AI for initial patient triage and assessment</p>
-                </div>
-                <Switch id="ai-triage" defaultChecked />
+              <div className="space-y-2">
+                {fieldLabel("ai.acuityScale", "acuity-scale", "Acuity Scale")}
+                <Select
+                  value={textOf("ai.acuityScale")}
+                  onValueChange={(value) => change("ai.acuityScale", value)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="acuity-scale">
+                    <SelectValue placeholder="Select scale" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="esi">Emergency Severity Index (ESI)</SelectItem>
+                    <SelectItem value="manchester">Manchester Triage System</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  Triage findings are scored on this scale; assessments whose AI risk level disagrees are flagged for
+                  review
+                </p>
               </div>
 
+              {switchRow(
+                "ai.triageEnabled",
+                "ai-triage",
+                "AI Triage",
+                "Use AI for initial patient triage and assessment"
+              )}
+
               <h3 className="text-lg font-medium mt-6">External APIs</h3>
 
               <div className="space-y-2">
-                <Label htmlFor="ehr-integration">Electronic Health Record (EHR) Integration</Label>
-                <Select defaultValue="fhir">
+                {fieldLabel("ehr.type", "ehr-integration", "Electronic Health Record (EHR) Integration")}
+                <Select
+                  value={textOf("ehr.type")}
+                  onValueChange={(value) => change("ehr.type", value)}
+                  disabled={disabled}
+                >
                   <SelectTrigger id="ehr-integration">
                     <SelectValue placeholder="Select integration" />
                   </SelectTrigger>
@@ -689,47 +930,33 @@ export default function SystemSettings() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="ehr-endpoint">EHR API Endpoint</Label>
-                <Input id="ehr-endpoint" defaultValue="https://api.ehrprovider.com/fhir/r4" />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="ehr-api-key">EHR API Key</Label>
-                <Input id="ehr-api-key" type="password" defaultValue="••••••••••••••••••••••••••••••" />
+                {fieldLabel("ehr.endpoint", "ehr-endpoint", "EHR API Endpoint")}
+                <Input
+                  id="ehr-endpoint"
+                  placeholder="https://api.ehrprovider.com/fhir/r4"
+                  value={textOf("ehr.endpoint")}
+                  onChange={(e) => change("ehr.endpoint", e.target.value)}
+                  disabled={disabled}
+                />
+                {fieldError("ehr.endpoint")}
               </div>
 
-              <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label htmlFor="ehr-enabled">Enable EHR Integration</Label>
-                  <p className="text-sm text-muted-foreground">Connect to external electronic health record systems</p>
-                </div>
-                <Switch id="ehr-enabled" defaultChecked />
-              </div>
+              {switchRow(
+                "ehr.enabled",
+                "ehr-enabled",
+                "Enable EHR Integration",
+                "Connect to external electronic health record systems"
+              )}
             </div>
 
-            <div className="flex justify-end">
-              <Button
-                onClick={handleSave}
-                disabled={isLoading}
-                className="rounded-full px-6 bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800"
-              >
-                {isLoading ? (
-                  <>
-                    <Clock className="mr-2 h-4 w-4 animate-spin" />
-                    Saving...
-                  </>
-                ) : (
-                  <>
-                    <Save className="mr-2 h-4 w-4" />
-                    Save Changes
-                  </>
-                )}
-              </Button>
-            </div>
+            {saveBar}
           </CardContent>
         </Card>
       </TabsContent>
+
+      <TabsContent value="history">
+        <SettingsHistory refreshKey={historyVersion} labels={labels} />
+      </TabsContent>
     </Tabs>
   )
 }
-
@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getAvailableSlots } from '@/lib/actions/appointments';
+import type { Slot } from '@/lib/types/appointment';
+
+interface AppointmentSlotPickerProps {
+  practitionerId?: string;
+  /** Day to show, as yyyy-mm-dd in the user's time zone */
+  date?: string;
+  selectedSlotId?: string;
+  onSelect: (slot: Slot) => void;
+}
+
+/**
+ * Free slots of a practitioner on one day
+ */
+export function AppointmentSlotPicker({ practitionerId, date, selectedSlotId, onSelect }: AppointmentSlotPickerProps) {
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!practitionerId || !date) {
+      setSlots([]);
+      return;
+    }
+
+    let cancelled = false;
+    const dayStart = new Date(`${date}T00:00:00`);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    setLoading(true);
+    setError(null);
+    getAvailableSlots(practitionerId, dayStart.toISOString(), dayEnd.toISOString())
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success) {
+          setSlots(result.data || []);
+        } else {
+          setSlots([]);
+          setError(result.error || 'Failed to load available times');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [practitionerId, date]);
+
+  if (!practitionerId || !date) {
+    return <p className="text-sm text-muted-foreground">Choose a doctor and a date to see available times.</p>;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading available times...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (slots.length === 0) {
+    return <p className="text-sm text-muted-foreground">No free times on this day. Try another date.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
+      {slots.map((slot) => (
+        <Button
+          key={slot.id}
+          type="button"
+          size="sm"
+          variant={slot.id === selectedSlotId ? 'default' : 'outline'}
+          className={slot.id === selectedSlotId ? 'bg-teal-600 hover:bg-teal-700' : ''}
+          onClick={() => onSelect(slot)}
+        >
+          {new Date(slot.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -18,14 +18,17 @@ import {
   CheckCircle
 } from 'lucide-react';
 import { blockchainService, AuditLogEntry } from '@/lib/services/blockchain';
+import { hashResource } from '@/lib/hash';
 
 interface AuditTrailProps {
   resourceId: string;
   owner: string;
+  /** Current FHIR resource; when given, verification hashes it instead of trusting the logged hash */
+  resource?: Record<string, any>;
   className?: string;
 }
 
-export function AuditTrail({ resourceId, owner, className }: AuditTrailProps) {
+export function AuditTrail({ resourceId, owner, resource, className }: AuditTrailProps) {
   const [logs, setLogs] = useState<AuditLogEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -55,7 +58,8 @@ export function AuditTrail({ resourceId, owner, className }: AuditTrailProps) {
   const verifyIntegrity = async (dataHash: string) => {
     setVerifying(true);
     try {
-      const isValid = await blockchainService.verifyDataIntegrity(resourceId, owner, dataHash);
+      const currentHash = resource ? hashResource(resource) : dataHash;
+      const isValid = await blockchainService.verifyDataIntegrity(resourceId, owner, currentHash);
       setVerified(isValid);
       setTimeout(() => setVerified(null), 3000); // Clear after 3 seconds
     } catch (err) {
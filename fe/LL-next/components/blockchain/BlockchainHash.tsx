@@ -16,11 +16,14 @@ import {
   Hash
 } from 'lucide-react';
 import { blockchainService } from '@/lib/services/blockchain';
+import { hashResource } from '@/lib/hash';
 
 interface BlockchainHashProps {
   resourceId: string;
   owner: string;
   currentHash?: string;
+  /** FHIR resource to hash canonically when currentHash is not given */
+  resource?: Record<string, any>;
   className?: string;
   showVerification?: boolean;
 }
@@ -29,6 +32,7 @@ export function BlockchainHash({
   resourceId, 
   owner, 
   currentHash,
+  resource,
   className,
   showVerification = true 
 }: BlockchainHashProps) {
@@ -42,10 +46,11 @@ export function BlockchainHash({
   }, [resourceId, owner]);
 
   useEffect(() => {
-    if (showVerification && onChainHash && currentHash) {
-      setVerified(onChainHash === currentHash);
+    const expectedHash = currentHash ?? (resource ? hashResource(resource) : undefined);
+    if (showVerification && onChainHash && expectedHash) {
+      setVerified(onChainHash.toLowerCase() === expectedHash.toLowerCase());
     }
-  }, [onChainHash, currentHash, showVerification]);
+  }, [onChainHash, currentHash, resource, showVerification]);
 
   const fetchBlockchainHash = async () => {
     setLoading(true);
@@ -11,7 +11,8 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Shield, Bell, User, Settings, LogOut } from "lucide-react";
+import { Shield, User, Settings, LogOut } from "lucide-react";
+import { NotificationBell } from "@/components/notification-bell";
 import {
   APPOINTMENTS_PATH,
   DASHBOARD_PATH,
@@ -61,9 +62,7 @@ export default function DashboardHeader() {
           ))}
         </nav>
         <div className="flex items-center gap-4">
-          <Button variant="ghost" size="icon" aria-label="Notifications">
-            <Bell className="h-5 w-5" />
-          </Button>
+          <NotificationBell />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon" className="rounded-full">
@@ -27,6 +27,7 @@ import {
 import { useSession } from 'next-auth/react';
 import { FhirResourcesTable } from '@/components/fhir/FhirResourcesTable';
 import TriageModal from '@/components/triage-modal';
+import { TriageReviewQueue } from '@/components/dashboard/TriageReviewQueue';
 import { getCurrentUserResources, getAllUsers, getUserProfile } from '@/lib/fhir-storage/actions';
 
 interface UserData {
@@ -70,11 +71,10 @@ export default function PractitionerDashboard() {
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 10,
-    total: 0,
-    totalPages: 0,
     hasNext: false,
-    hasPrev: false,
   });
+  // Cursor each page of users is loaded with; pages are cursor-based, so Previous goes back through these
+  const [pageCursors, setPageCursors] = useState<(string | undefined)[]>([undefined]);
   const [search, setSearch] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [isUsersLoading, setIsUsersLoading] = useState(false);
@@ -114,11 +114,14 @@ export default function PractitionerDashboard() {
       setIsUsersLoading(true);
       console.log('👥 [Practitioner Dashboard] Loading users...', { page, searchTerm });
 
-      const usersResult = await getAllUsers(page, pagination.limit, searchTerm);
+      const cursors = page === 1 ? [undefined] : pageCursors;
+      const usersResult = await getAllUsers(pagination.limit, searchTerm, cursors[page - 1]);
 
       if (usersResult.success && usersResult.data) {
+        const { nextCursor, hasNext } = usersResult.data.pagination;
         setUsers(usersResult.data.users);
-        setPagination(usersResult.data.pagination);
+        setPagination({ page, limit: pagination.limit, hasNext });
+        setPageCursors([...cursors.slice(0, page), nextCursor || undefined]);
 
         // Calculate stats
         const patients = usersResult.data.users.filter((u) => u.resourceType === 'Patient').length;
@@ -501,6 +504,9 @@ export default function PractitionerDashboard() {
             </Card>
           </div>
 
+          {/* AI assessments awaiting review */}
+          <TriageReviewQueue />
+
           {/* User Management Section */}
           <Card className="overflow-hidden border-none shadow-md hover:shadow-lg transition-all duration-300 bg-white/80 backdrop-blur-sm">
             <CardHeader className="bg-gradient-to-r from-teal-50 via-teal-50/50 to-white">
@@ -518,7 +524,7 @@ export default function PractitionerDashboard() {
                 </div>
                 <form onSubmit={handleSearch} className="flex gap-2">
                   <Input
-                    placeholder="Search patients..."
+                    placeholder="Search by email or name..."
                     value={search}
                     onChange={(e) => setSearch(e.target.value)}
                     className="w-64"
@@ -596,16 +602,15 @@ export default function PractitionerDashboard() {
               )}
 
               {/* Pagination */}
-              {pagination.totalPages > 1 && (
+              {(pagination.page > 1 || pagination.hasNext) && (
                 <div className="flex items-center justify-between px-6 py-4 border-t bg-gray-50/50">
                   <div className="text-sm text-gray-500">
-                    Showing {(pagination.page - 1) * pagination.limit + 1} to{' '}
-                    {Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total} users
+                    Showing {users.length} user{users.length !== 1 ? 's' : ''}
                   </div>
                   <div className="flex items-center gap-2">
                     <Button
                       onClick={() => handlePageChange(pagination.page - 1)}
-                      disabled={!pagination.hasPrev}
+                      disabled={pagination.page === 1}
                       variant="outline"
                       size="sm"
                     >
@@ -613,7 +618,7 @@ export default function PractitionerDashboard() {
                       Previous
                     </Button>
                     <span className="text-sm font-medium px-3">
-                      Page {pagination.page} of {pagination.totalPages}
+                      Page {pagination.page}
                     </span>
                     <Button
                       onClick={() => handlePageChange(pagination.page + 1)}
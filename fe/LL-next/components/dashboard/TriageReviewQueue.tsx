@@ -0,0 +1,297 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertCircle, Check, ClipboardCheck, Loader2, Pencil, RefreshCw, X } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { getReviewQueue, reviewAssessment } from '@/lib/actions/review';
+import type { ReviewDecision, ReviewQueueItem, ReviewRiskLevel } from '@/lib/types/review';
+
+const riskBadgeClass: Record<string, string> = {
+  high: 'bg-red-100 text-red-700 border-red-200',
+  moderate: 'bg-amber-100 text-amber-700 border-amber-200',
+  medium: 'bg-amber-100 text-amber-700 border-amber-200',
+  low: 'bg-green-100 text-green-700 border-green-200',
+};
+
+interface ReviewForm {
+  decision: Exclude<ReviewDecision, 'accept'>;
+  note: string;
+  riskLevel?: ReviewRiskLevel;
+  condition: string;
+  mitigation: string;
+}
+
+/**
+ * Worklist of AI triage assessments awaiting the practitioner's review,
+ * highest risk and oldest first
+ */
+export function TriageReviewQueue() {
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState<string | null>(null);
+  const [openForm, setOpenForm] = useState<{ assessmentId: string; form: ReviewForm } | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const result = await getReviewQueue();
+    if (result.success && result.data) {
+      setItems(result.data.items);
+      setTotal(result.data.total);
+      setTruncated(result.data.truncated);
+    } else {
+      setError(result.error || 'Failed to load the review queue');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const submit = async (item: ReviewQueueItem, decision: ReviewDecision, form?: ReviewForm) => {
+    setSubmitting(item.assessmentId);
+    setError(null);
+    setMessage(null);
+
+    const result = await reviewAssessment(item, {
+      decision,
+      ...(form?.note.trim() && { note: form.note.trim() }),
+      ...(decision === 'amend' &&
+        form && {
+          amendment: {
+            ...(form.riskLevel && { riskLevel: form.riskLevel }),
+            ...(form.condition.trim() && { condition: form.condition.trim() }),
+            ...(form.mitigation.trim() && { mitigation: form.mitigation.trim() }),
+          },
+        }),
+    });
+
+    if (result.success) {
+      setItems((current) => current.filter((entry) => entry.assessmentId !== item.assessmentId));
+      setTotal((current) => Math.max(0, current - 1));
+      setOpenForm(null);
+      const outcome = decision === 'reject' ? 'rejected' : 'signed off';
+      setMessage(`Assessment for ${item.patientName || item.patientId} ${outcome}`);
+    } else {
+      setError(result.error || 'Failed to review the assessment');
+    }
+    setSubmitting(null);
+  };
+
+  const updateForm = (changes: Partial<ReviewForm>) => {
+    setOpenForm((current) => (current ? { ...current, form: { ...current.form, ...changes } } : current));
+  };
+
+  const formIsComplete = (form: ReviewForm) =>
+    form.decision === 'reject'
+      ? !!form.note.trim()
+      : !!(form.riskLevel || form.condition.trim() || form.mitigation.trim());
+
+  return (
+    <Card className="overflow-hidden border-none shadow-md hover:shadow-lg transition-all duration-300 bg-white/80 backdrop-blur-sm">
+      <CardHeader className="bg-gradient-to-r from-teal-50 via-teal-50/50 to-white">
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-3">
+            <div className="h-10 w-10 rounded-full bg-teal-100 flex items-center justify-center">
+              <ClipboardCheck className="h-5 w-5 text-teal-600" />
+            </div>
+            <div>
+              <div className="text-lg font-semibold">Triage Review</div>
+              <div className="text-sm text-muted-foreground">
+                {total}
+                {truncated ? '+' : ''} AI assessment{total === 1 && !truncated ? '' : 's'} awaiting your review
+              </div>
+            </div>
+          </CardTitle>
+          <Button variant="outline" size="icon" onClick={loadQueue} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {error && (
+          <Alert variant="destructive" className="m-4 w-auto">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && (
+          <Alert className="m-4 w-auto">
+            <Check className="h-4 w-4" />
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && items.length === 0 ? (
+          <div className="flex items-center justify-center p-8 text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading assessments...
+          </div>
+        ) : items.length === 0 ? (
+          <div className="p-8 text-center text-sm text-muted-foreground">No assessments awaiting review</div>
+        ) : (
+          <div className="divide-y">
+            {items.map((item) => {
+              const form = openForm?.assessmentId === item.assessmentId ? openForm.form : null;
+              const busy = submitting === item.assessmentId;
+
+              return (
+                <div key={item.assessmentId} className="p-4 space-y-3">
+                  <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className={riskBadgeClass[item.riskLevel || ''] || ''}>
+                          {item.riskLevel || 'unknown'} risk
+                        </Badge>
+                        {item.acuity && (
+                          <Badge
+                            variant={item.acuity.disagreement ? 'destructive' : 'outline'}
+                            title={item.acuity.display}
+                          >
+                            {item.acuity.scale === 'esi' ? 'ESI' : 'Manchester'} {item.acuity.level}
+                            {item.acuity.disagreement && ' · disagrees with AI'}
+                          </Badge>
+                        )}
+                        <span className="text-sm font-medium text-gray-900 truncate">
+                          {item.patientName || item.patientId}
+                        </span>
+                        {item.assessedAt && (
+                          <span className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(new Date(item.assessedAt), { addSuffix: true })}
+                          </span>
+                        )}
+                      </div>
+                      {item.condition && <p className="text-sm">{item.condition}</p>}
+                      {item.rationale && <p className="text-sm text-muted-foreground">{item.rationale}</p>}
+                      {item.mitigation && (
+                        <p className="text-sm">
+                          <span className="text-muted-foreground">Recommended: </span>
+                          {item.mitigation}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button size="sm" onClick={() => submit(item, 'accept')} disabled={busy}>
+                        {busy && !form ? (
+                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Check className="mr-1 h-4 w-4" />
+                        )}
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busy}
+                        onClick={() =>
+                          setOpenForm({
+                            assessmentId: item.assessmentId,
+                            form: {
+                              decision: 'amend',
+                              note: '',
+                              riskLevel: (['low', 'moderate', 'high'] as string[]).includes(item.riskLevel || '')
+                                ? (item.riskLevel as ReviewRiskLevel)
+                                : undefined,
+                              condition: item.condition || '',
+                              mitigation: item.mitigation || '',
+                            },
+                          })
+                        }
+                      >
+                        <Pencil className="mr-1 h-4 w-4" />
+                        Amend
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={busy}
+                        onClick={() =>
+                          setOpenForm({
+                            assessmentId: item.assessmentId,
+                            form: { decision: 'reject', note: '', condition: '', mitigation: '' },
+                          })
+                        }
+                      >
+                        <X className="mr-1 h-4 w-4" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+
+                  {form && (
+                    <div className="rounded-lg border bg-gray-50/50 p-4 space-y-3">
+                      {form.decision === 'amend' && (
+                        <div className="grid gap-3 md:grid-cols-3">
+                          <div className="space-y-1">
+                            <Label>Risk level</Label>
+                            <Select
+                              value={form.riskLevel}
+                              onValueChange={(value) => updateForm({ riskLevel: value as ReviewRiskLevel })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select risk" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="low">Low</SelectItem>
+                                <SelectItem value="moderate">Moderate</SelectItem>
+                                <SelectItem value="high">High</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-1">
+                            <Label>Condition</Label>
+                            <Input value={form.condition} onChange={(e) => updateForm({ condition: e.target.value })} />
+                          </div>
+                          <div className="space-y-1">
+                            <Label>Recommendation</Label>
+                            <Input value={form.mitigation} onChange={(e) => updateForm({ mitigation: e.target.value })} />
+                          </div>
+                        </div>
+                      )}
+                      <div className="space-y-1">
+                        <Label>{form.decision === 'reject' ? 'Reason for rejecting' : 'Note (optional)'}</Label>
+                        <Textarea
+                          value={form.note}
+                          maxLength={2000}
+                          onChange={(e) => updateForm({ note: e.target.value })}
+                        />
+                      </div>
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => setOpenForm(null)} disabled={busy}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={form.decision === 'reject' ? 'destructive' : 'default'}
+                          disabled={busy || !formIsComplete(form)}
+                          onClick={() => submit(item, form.decision, form)}
+                        >
+                          {busy && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                          {form.decision === 'reject' ? 'Reject assessment' : 'Save amendment'}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
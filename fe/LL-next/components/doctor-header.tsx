@@ -8,7 +8,8 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { Shield, Bell, User, Settings, LogOut, Menu } from "lucide-react"
+import { Shield, User, Settings, LogOut, Menu } from "lucide-react"
+import { NotificationBell } from "@/components/notification-bell"
 
 export default function DoctorHeader() {
   return (
@@ -52,10 +53,7 @@ export default function DoctorHeader() {
           </Link>
         </nav>
         <div className="flex items-center gap-4">
-          <Button variant="ghost" size="icon" aria-label="Notifications" className="relative">
-            <Bell className="h-5 w-5" />
-            <span className="absolute top-1 right-1 h-2 w-2 rounded-full bg-red-500"></span>
-          </Button>
+          <NotificationBell />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon" className="rounded-full">
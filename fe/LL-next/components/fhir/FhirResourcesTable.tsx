@@ -25,6 +25,7 @@ import {
   formatResourceDate, 
   getResourceStatus,
   getRiskLevel,
+  getAcuity,
   isObservation,
   isRiskAssessment,
   isPatient,
@@ -164,6 +165,18 @@ export function FhirResourcesTable({
     }
   };
 
+  const getAcuityBadge = (resource: RiskAssessmentResource) => {
+    const acuity = getAcuity(resource);
+    if (!acuity) return null;
+
+    return (
+      <Badge variant={acuity.disagreement ? 'destructive' : 'outline'} className="ml-1">
+        {acuity.label}
+        {acuity.disagreement && ' · disagrees'}
+      </Badge>
+    );
+  };
+
   if (loading) {
     return (
       <Card className={className}>
@@ -468,6 +481,7 @@ export function FhirResourcesTable({
                         </TableCell>
                         <TableCell>
                           {getRiskBadge(risk)}
+                          {getAcuityBadge(risk)}
                         </TableCell>
                         <TableCell className="font-mono text-sm">
                           <TruncatedText text={risk.subject?.reference || 'N/A'} maxLength={16} />
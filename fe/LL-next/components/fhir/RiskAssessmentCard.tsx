@@ -18,12 +18,29 @@ export function RiskAssessmentCard({ riskAssessment, className }: RiskAssessment
       case 'preliminary':
         return 'secondary';
       case 'cancelled':
+      case 'entered-in-error':
         return 'destructive';
       default:
         return 'outline';
     }
   };
 
+  // AI assessments stay preliminary until a practitioner reviews them
+  const getStatusLabel = (status: string) => {
+    switch (status) {
+      case 'preliminary':
+        return 'Awaiting clinician review';
+      case 'final':
+        return 'Reviewed';
+      case 'amended':
+        return 'Amended by clinician';
+      case 'entered-in-error':
+        return 'Rejected';
+      default:
+        return status;
+    }
+  };
+
   const getRiskLevelColor = (risk?: string) => {
     switch (risk?.toLowerCase()) {
       case 'high':
@@ -57,7 +74,7 @@ export function RiskAssessmentCard({ riskAssessment, className }: RiskAssessment
             <CardTitle className="text-lg">Risk Assessment</CardTitle>
           </div>
           <Badge variant={getStatusBadgeVariant(riskAssessment.status)}>
-            {riskAssessment.status}
+            {getStatusLabel(riskAssessment.status)}
           </Badge>
         </div>
         <CardDescription>
@@ -141,6 +158,17 @@ export function RiskAssessmentCard({ riskAssessment, className }: RiskAssessment
             </p>
           </div>
           
+          {riskAssessment.performer && (
+            <div>
+              <div className="text-muted-foreground mb-1">
+                <span className="font-medium">Reviewed By</span>
+              </div>
+              <p className="text-xs">
+                {riskAssessment.performer.display || riskAssessment.performer.reference}
+              </p>
+            </div>
+          )}
+
           {riskAssessment.method && (
             <div>
               <div className="text-muted-foreground mb-1">
@@ -0,0 +1,111 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { getNotifications, markNotificationsRead } from '@/lib/actions/notifications';
+import type { InAppNotification } from '@/lib/types/notification';
+
+const POLL_INTERVAL_MS = 60_000;
+
+function timeAgo(value: string): string {
+  const minutes = Math.round((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(value).toLocaleDateString();
+}
+
+/**
+ * In-app notifications of the signed-in user
+ */
+export function NotificationBell() {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<InAppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const load = useCallback(async () => {
+    const result = await getNotifications();
+    if (result.success && result.data) {
+      setNotifications(result.data.notifications);
+      setUnreadCount(result.data.unreadCount);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const open = async (notification: InAppNotification) => {
+    if (!notification.readAt) {
+      await markNotificationsRead([notification.id]);
+      load();
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  const markAllRead = async () => {
+    await markNotificationsRead();
+    load();
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Notifications" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-medium text-white">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs text-teal-700" onClick={markAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex cursor-pointer flex-col items-start gap-1 py-2"
+                onSelect={() => open(notification)}
+              >
+                <div className="flex w-full items-center gap-2">
+                  {!notification.readAt && <span className="h-2 w-2 shrink-0 rounded-full bg-teal-600" />}
+                  <span className={`text-sm ${notification.readAt ? '' : 'font-medium'}`}>{notification.title}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">{notification.body}</p>
+                <span className="text-xs text-muted-foreground">{timeAgo(notification.createdAt)}</span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { Siren } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { TriageSafety } from '@/lib/triage-stream';
+
+interface RedFlagAlertProps {
+  safety: TriageSafety;
+  className?: string;
+}
+
+/**
+ * Emergency banner shown when red-flag screening fired during triage
+ */
+export function RedFlagAlert({ safety, className }: RedFlagAlertProps) {
+  const conditions = [...new Set(safety.redFlags.map((flag) => flag.condition))];
+
+  return (
+    <Alert variant="destructive" className={className}>
+      <Siren className="h-4 w-4" />
+      <AlertTitle>Possible emergency</AlertTitle>
+      <AlertDescription>
+        Call your local emergency number (112 in Europe, 911 in the US) or go to the nearest emergency department now.
+        {conditions.length > 0 && <span className="block mt-1 text-xs">Flagged: {conditions.join(', ')}</span>}
+      </AlertDescription>
+    </Alert>
+  );
+}
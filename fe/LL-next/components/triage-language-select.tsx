@@ -0,0 +1,33 @@
+'use client';
+
+import { Languages } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UI_LANGUAGES, type UILanguage } from '@/lib/i18n';
+
+interface TriageLanguageSelectProps {
+  value: UILanguage;
+  onChange: (language: UILanguage) => void;
+  label: string;
+  className?: string;
+}
+
+/**
+ * Picker for the language of the triage chat; the assistant answers in it too
+ */
+export function TriageLanguageSelect({ value, onChange, label, className }: TriageLanguageSelectProps) {
+  return (
+    <Select value={value} onValueChange={(language) => onChange(language as UILanguage)}>
+      <SelectTrigger aria-label={label} className={className}>
+        <Languages className="h-4 w-4 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {UI_LANGUAGES.map((language) => (
+          <SelectItem key={language.code} value={language.code} dir={language.dir}>
+            {language.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -11,7 +11,11 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { ChatMessage } from '@/components/ui/chat-message';
-import { TriageResponse } from '@/lib/types';
+import { FHIRResource, TriageResponse } from '@/lib/types';
+import { streamTriage, type TriageSafety } from '@/lib/triage-stream';
+import { RedFlagAlert } from '@/components/red-flag-alert';
+import { TriageLanguageSelect } from '@/components/triage-language-select';
+import { useTranslation } from '@/hooks/use-translation';
 
 interface Message {
   id: string;
@@ -34,6 +38,10 @@ export default function TriageModal({ open, onOpenChange }: TriageModalProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [threadId, setThreadId] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [safety, setSafety] = useState<TriageSafety | null>(null);
+  const [sessionLanguage, setSessionLanguage] = useState<string | null>(null);
+  const { language, dir, t, chooseLanguage, requestLanguage } = useTranslation(sessionLanguage);
 
   // Get patient ID from authenticated user session
   const patientId = session?.user?.id || `anonymous-${Date.now()}`;
@@ -48,6 +56,9 @@ export default function TriageModal({ open, onOpenChange }: TriageModalProps) {
       setInput('');
       setError(null);
       setThreadId(null);
+      setSessionId(null);
+      setSafety(null);
+      setSessionLanguage(null);
     }
   }, [open]);
 
@@ -79,110 +90,51 @@ export default function TriageModal({ open, onOpenChange }: TriageModalProps) {
     setMessages((prev) => [...prev, streamingMessage]);
 
     try {
-      const response = await fetch('/api/triage/submit', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: userMessage.content,
-          threadId: threadId,
-          patientId: patientId,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to get response');
-      }
-
-      const contentType = response.headers.get('content-type');
-
-      if (contentType?.includes('text/event-stream')) {
-        // Handle streaming response
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        let accumulatedContent = '';
-        let resources: any[] = [];
-
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            const chunk = decoder.decode(value);
-            const lines = chunk.split('\n');
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6);
-                if (data === '[DONE]') continue;
-
-                try {
-                  const parsed = JSON.parse(data);
-
-                  // Handle different event types
-                  if (parsed.type === 'content') {
-                    accumulatedContent += parsed.content;
-                    // Update the streaming message
-                    setMessages((prev) =>
-                      prev.map((msg) => (msg.id === streamingMessageId ? { ...msg, content: accumulatedContent } : msg))
-                    );
-                  } else if (parsed.type === 'threadId') {
-                    setThreadId(parsed.threadId);
-                  } else if (parsed.type === 'resources') {
-                    resources = Array.isArray(parsed.resources) ? parsed.resources : [];
-                  }
-                } catch (e) {
-                  // Handle non-JSON data as content
-                  if (data.trim()) {
-                    accumulatedContent += data;
-                    setMessages((prev) =>
-                      prev.map((msg) => (msg.id === streamingMessageId ? { ...msg, content: accumulatedContent } : msg))
-                    );
-                  }
-                }
-              }
-            }
-          }
-        }
-
-        // Finalize the streaming message
-        setMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === streamingMessageId
-              ? {
-                  ...msg,
-                  content: accumulatedContent || 'I received your message. Let me help you with that.',
-                  resources: Array.isArray(resources) && resources.length > 0 ? resources : undefined,
-                  isStreaming: false,
-                }
-              : msg
-          )
-        );
-      } else {
-        // Handle JSON response
-        const data = await response.json();
-
-        // Update the streaming message with the full response
-        setMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === streamingMessageId
-              ? {
-                  ...msg,
-                  content:
-                    data.reply || data.message || data.content || 'I received your message. Let me help you with that.',
-                  resources: Array.isArray(data.resources) && data.resources.length > 0 ? data.resources : undefined,
-                  isStreaming: false,
-                }
-              : msg
-          )
-        );
-
-        if (data.threadId) {
-          setThreadId(data.threadId);
+      let accumulatedContent = '';
+      const resources: FHIRResource[] = [];
+      const updateStreamingMessage = (patch: Partial<Message>) =>
+        setMessages((prev) => prev.map((msg) => (msg.id === streamingMessageId ? { ...msg, ...patch } : msg)));
+
+      // Render the reply and the FHIR resources as the assistant produces them
+      for await (const streamEvent of streamTriage({
+        message: userMessage.content,
+        threadId,
+        sessionId,
+        patientId,
+        language: requestLanguage,
+      })) {
+        switch (streamEvent.event) {
+          case 'thread':
+            setThreadId(streamEvent.data.threadId);
+            setSessionId(streamEvent.data.sessionId);
+            break;
+          case 'red_flag':
+            setSafety(streamEvent.data);
+            break;
+          case 'token':
+            accumulatedContent += streamEvent.data.delta;
+            updateStreamingMessage({ content: accumulatedContent });
+            break;
+          case 'resource':
+            resources.push(streamEvent.data.resource);
+            updateStreamingMessage({ resources: [...resources] });
+            break;
+          case 'done':
+            accumulatedContent = streamEvent.data.reply || accumulatedContent;
+            setThreadId(streamEvent.data.threadId);
+            setSessionLanguage(streamEvent.data.language || null);
+            break;
+          case 'error':
+            throw new Error(streamEvent.data.error);
         }
       }
+
+      // Finalize the streaming message
+      updateStreamingMessage({
+        content: accumulatedContent || t('triage.fallbackReply'),
+        resources: resources.length > 0 ? resources : undefined,
+        isStreaming: false,
+      });
     } catch (err) {
       console.error('Error generating response:', err);
 
@@ -190,14 +142,13 @@ export default function TriageModal({ open, onOpenChange }: TriageModalProps) {
       setMessages((prev) => prev.filter((msg) => msg.id !== streamingMessageId));
 
       // Show error message
-      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      setError(err instanceof Error ? err.message : t('triage.unexpectedError'));
 
       // Add error message from assistant
       const errorMessage: Message = {
         id: Date.now().toString() + '-error',
         role: 'assistant',
-        content:
-          "I'm sorry, I encountered an error while processing your request. Please try again or contact support if the issue persists.",
+        content: t('triage.errorReply'),
         timestamp: new Date(),
       };
       setMessages((prev) => [...prev, errorMessage]);
@@ -215,27 +166,35 @@ export default function TriageModal({ open, onOpenChange }: TriageModalProps) {
               <div className="p-2 bg-teal-600 rounded-lg">
                 <Activity className="h-5 w-5 text-white" />
               </div>
-              <DialogTitle className="text-xl font-semibold text-teal-700">Medical Triage Assistant</DialogTitle>
+              <DialogTitle className="text-xl font-semibold text-teal-700" dir={dir}>
+                {t('triage.title')}
+              </DialogTitle>
+            </div>
+            <div className="flex items-center gap-2">
+              {threadId && (
+                <Badge variant="outline" className="text-xs">
+                  {t('triage.session', { id: threadId })}
+                </Badge>
+              )}
+              <TriageLanguageSelect
+                value={language}
+                onChange={chooseLanguage}
+                label={t('triage.language')}
+                className="h-8 w-auto gap-2 text-xs"
+              />
             </div>
-            {threadId && (
-              <Badge variant="outline" className="text-xs">
-                Session: {threadId}
-              </Badge>
-            )}
           </div>
         </DialogHeader>
 
-        <ScrollArea className="flex-1 p-6">
+        <ScrollArea className="flex-1 p-6" dir={dir}>
           {messages.length === 0 ? (
             <div className="flex items-center justify-center h-full">
               <div className="text-center space-y-3 max-w-md">
                 <div className="p-4 bg-teal-100 rounded-full w-20 h-20 mx-auto flex items-center justify-center">
                   <Activity className="h-10 w-10 text-teal-600" />
                 </div>
-                <h3 className="text-lg font-semibold text-gray-700">Welcome to Medical Triage</h3>
-                <p className="text-gray-500">
-                  I'm here to help assess your symptoms and provide guidance. Please describe what you're experiencing.
-                </p>
+                <h3 className="text-lg font-semibold text-gray-700">{t('triage.welcomeTitle')}</h3>
+                <p className="text-gray-500">{t('triage.welcomeText')}</p>
               </div>
             </div>
           ) : (
@@ -258,6 +217,12 @@ export default function TriageModal({ open, onOpenChange }: TriageModalProps) {
           )}
         </ScrollArea>
 
+        {safety && (
+          <div className="px-6">
+            <RedFlagAlert safety={safety} />
+          </div>
+        )}
+
         {error && (
           <div className="px-6">
             <Alert variant="destructive">
@@ -267,11 +232,11 @@ export default function TriageModal({ open, onOpenChange }: TriageModalProps) {
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="border-t bg-gray-50 p-4 flex gap-2">
+        <form onSubmit={handleSubmit} className="border-t bg-gray-50 p-4 flex gap-2" dir={dir}>
           <Input
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            placeholder="Describe your symptoms..."
+            placeholder={t('triage.placeholder')}
             disabled={loading}
             className="flex-1"
           />
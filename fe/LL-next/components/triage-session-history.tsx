@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { History, Loader2, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { getTriageHistory, type TriageHistoryItem } from '@/lib/actions/triage';
+
+interface TriageSessionHistoryProps {
+  patientId?: string;
+  currentSessionId?: string | null;
+  onSelect: (sessionId: string) => void;
+  onNew: () => void;
+}
+
+const riskBadgeClass: Record<string, string> = {
+  high: 'bg-red-100 text-red-700 border-red-200',
+  medium: 'bg-amber-100 text-amber-700 border-amber-200',
+  low: 'bg-green-100 text-green-700 border-green-200',
+};
+
+/**
+ * Menu of the patient's previous triage sessions, loaded when opened
+ */
+export function TriageSessionHistory({ patientId, currentSessionId, onSelect, onNew }: TriageSessionHistoryProps) {
+  const [sessions, setSessions] = useState<TriageHistoryItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    setLoading(true);
+    setError(null);
+    const result = await getTriageHistory(patientId, 10);
+    if (result.success) {
+      setSessions(result.data || []);
+    } else {
+      setError(result.error || 'Failed to load sessions');
+    }
+    setLoading(false);
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && loadSessions()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-white hover:bg-white/20 hover:text-white">
+          <History className="h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">History</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuItem onSelect={onNew}>
+          <Plus className="h-4 w-4 mr-2" />
+          New assessment
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Previous sessions</DropdownMenuLabel>
+        {loading && (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {!loading && error && <p className="px-2 py-3 text-sm text-destructive">{error}</p>}
+        {!loading && !error && sessions.length === 0 && (
+          <p className="px-2 py-3 text-sm text-muted-foreground">No previous sessions</p>
+        )}
+        {!loading &&
+          sessions.map((item) => (
+            <DropdownMenuItem
+              key={item.id}
+              onSelect={() => onSelect(item.id)}
+              className="flex flex-col items-start gap-1"
+              disabled={item.id === currentSessionId}
+            >
+              <div className="flex w-full items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">{format(new Date(item.startedAt), 'PPp')}</span>
+                <div className="flex gap-1">
+                  {item.flaggedForReview && (
+                    <Badge variant="outline" className={riskBadgeClass.high}>
+                      Red flag
+                    </Badge>
+                  )}
+                  {item.riskLevel && (
+                    <Badge variant="outline" className={riskBadgeClass[item.riskLevel]}>
+                      {item.riskLevel}
+                    </Badge>
+                  )}
+                  <Badge variant="secondary">{item.status === 'finished' ? 'Finished' : 'In progress'}</Badge>
+                </div>
+              </div>
+              <span className="line-clamp-2 text-sm">{item.preview || 'Triage conversation'}</span>
+            </DropdownMenuItem>
+          ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
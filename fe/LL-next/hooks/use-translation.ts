@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { getAppSettings } from '@/lib/actions/settings'
+import { DEFAULT_UI_LANGUAGE, getTranslate, textDirection, toUILanguage, type UILanguage } from '@/lib/i18n'
+
+const STORAGE_KEY = 'triage-language'
+
+/**
+ * Language of the triage chat: the one the patient picked (kept in localStorage),
+ * else the one of the session, else the system default language.
+ *
+ * `requestLanguage` is what to send with a message: unset until the patient
+ * picks a language or the backend reports the session's, so the backend can
+ * detect it from the first message.
+ */
+export function useTranslation(sessionLanguage?: string | null) {
+  const [chosenLanguage, setChosenLanguage] = useState<UILanguage | null>(null)
+  const [defaultLanguage, setDefaultLanguage] = useState<UILanguage>(DEFAULT_UI_LANGUAGE)
+
+  useEffect(() => {
+    setChosenLanguage(toUILanguage(localStorage.getItem(STORAGE_KEY)) || null)
+
+    let cancelled = false
+    getAppSettings().then((result) => {
+      const language = toUILanguage(String(result.data?.values['system.language'] || ''))
+      if (!cancelled && language) setDefaultLanguage(language)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const chooseLanguage = useCallback((language: UILanguage) => {
+    localStorage.setItem(STORAGE_KEY, language)
+    setChosenLanguage(language)
+  }, [])
+
+  const language = chosenLanguage || toUILanguage(sessionLanguage) || defaultLanguage
+  const t = useMemo(() => getTranslate(language), [language])
+
+  return {
+    language,
+    dir: textDirection(language),
+    t,
+    chooseLanguage,
+    requestLanguage: chosenLanguage || sessionLanguage || undefined,
+  }
+}
@@ -1,45 +1,64 @@
 'use server';
 
 import { auth } from '@/lib/auth';
+import { apiAuthHeaders, type ApiTokenUser } from '@/lib/api-token';
 import { z } from 'zod';
 import { revalidatePath } from 'next/cache';
-import type { Appointment } from '@/lib/types/appointment';
+import type { Appointment, AppointmentStatus, BookablePractitioner, Slot } from '@/lib/types/appointment';
+
+const AZURE_FUNCTIONS_URL = process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071';
+const SCHEDULING_URL = `${AZURE_FUNCTIONS_URL}/api/scheduling`;
+
+const appointmentStatusSchema = z.enum([
+  'proposed',
+  'pending',
+  'booked',
+  'arrived',
+  'fulfilled',
+  'cancelled',
+  'noshow',
+  'entered-in-error',
+  'checked-in',
+  'waitlist',
+]);
 
 // Input validation schemas
 const createAppointmentSchema = z.object({
-  patientId: z.string().min(1),
-  doctorId: z.string().min(1),
-  dateTime: z.string().datetime(),
-  duration: z.number().min(15).max(240), // minutes
-  type: z.enum(['consultation', 'follow-up', 'emergency', 'routine-checkup']),
-  status: z.enum(['scheduled', 'confirmed', 'in-progress', 'completed', 'cancelled']).optional().default('scheduled'),
-  reason: z.string().min(1).max(500),
-  notes: z.string().optional(),
-  location: z
-    .object({
-      type: z.enum(['in-person', 'video', 'phone']),
-      details: z.string().optional(),
-    })
-    .optional(),
+  practitionerId: z.string().min(1, 'Practitioner is required'),
+  slotId: z.string().min(1, 'Time slot is required'),
+  // Defaults to the signed-in user; practitioners may book for their patients
+  patientId: z.string().min(1).optional(),
+  description: z.string().max(200).optional(),
+  reason: z.string().max(500).optional(),
 });
 
-const updateAppointmentSchema = createAppointmentSchema.partial().extend({
-  id: z.string(),
+const publishAvailabilitySchema = z.object({
+  start: z.string().datetime(),
+  end: z.string().datetime(),
+  slotMinutes: z.number().int().min(5).max(240).optional().default(30),
+  serviceType: z.string().max(100).optional(),
+});
+
+const slotRangeSchema = z.object({
+  practitionerId: z.string().min(1),
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
 });
 
 const searchAppointmentsSchema = z.object({
   patientId: z.string().optional(),
-  doctorId: z.string().optional(),
+  practitionerId: z.string().optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
-  status: z.enum(['scheduled', 'confirmed', 'in-progress', 'completed', 'cancelled']).optional(),
+  status: appointmentStatusSchema.optional(),
   page: z.number().optional().default(1),
   limit: z.number().optional().default(10),
 });
 
 const rescheduleAppointmentSchema = z.object({
-  id: z.string(),
-  newDateTime: z.string().datetime(),
+  id: z.string().min(1),
+  slotId: z.string().min(1, 'New time slot is required'),
+  patientId: z.string().min(1).optional(),
   reason: z.string().optional(),
 });
 
@@ -51,6 +70,11 @@ export interface AppointmentsListResponse {
   totalPages: number;
 }
 
+export interface AvailabilityResponse {
+  created: Slot[];
+  skipped: number;
+}
+
 export interface ActionResult<T> {
   success: boolean;
   data?: T;
@@ -58,15 +82,52 @@ export interface ActionResult<T> {
 }
 
 /**
- * Create a new appointment
- * @param appointmentData - Appointment information
- * @returns Created appointment
+ * Call the scheduling API for a user
+ * @throws Error with the API's message, e.g. when a slot was just booked by someone else
  */
-export async function createAppointment(
-  appointmentData: z.infer<typeof createAppointmentSchema>
-): Promise<ActionResult<Appointment>> {
+async function schedulingRequest<T>(user: ApiTokenUser, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${SCHEDULING_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await apiAuthHeaders(user)),
+      ...init.headers,
+    },
+    cache: 'no-store',
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.success) {
+    throw new Error(body?.message || `Scheduling service error: ${response.status}`);
+  }
+  return body.data as T;
+}
+
+function toErrorResult(error: unknown, fallback: string): { success: false; error: string } {
+  if (error instanceof z.ZodError) {
+    return {
+      success: false,
+      error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+    };
+  }
+
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+  };
+}
+
+function revalidateAppointments() {
+  revalidatePath('/dashboard/appointments');
+  revalidatePath('/dashboard');
+}
+
+/**
+ * Practitioners who publish availability
+ * @returns Practitioners to book with
+ */
+export async function getBookablePractitioners(): Promise<ActionResult<BookablePractitioner[]>> {
   try {
-    // Authenticate user
     const session = await auth();
     if (!session?.user) {
       return {
@@ -75,60 +136,102 @@ export async function createAppointment(
       };
     }
 
-    // Validate input
-    const validatedData = createAppointmentSchema.parse(appointmentData);
+    const data = await schedulingRequest<{ practitioners: BookablePractitioner[] }>(session.user, '/practitioners');
 
-    // Call API route
-    const response = await fetch('/api/appointment', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(validatedData),
-    });
+    return {
+      success: true,
+      data: data.practitioners,
+    };
+  } catch (error) {
+    console.error('Get bookable practitioners error:', error);
+    return toErrorResult(error, 'Failed to get practitioners');
+  }
+}
 
-    if (!response.ok) {
-      const errorData = await response.json();
+/**
+ * Free slots of a practitioner in a date range
+ * @param practitionerId - Practitioner to book with
+ * @param startDate - Start of the range (ISO 8601)
+ * @param endDate - End of the range, exclusive (ISO 8601)
+ * @returns Free slots, earliest first
+ */
+export async function getAvailableSlots(
+  practitionerId: string,
+  startDate: string,
+  endDate: string
+): Promise<ActionResult<Slot[]>> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
       return {
         success: false,
-        error: errorData.error || 'Failed to create appointment',
+        error: 'Authentication required',
       };
     }
 
-    const appointment: Appointment = await response.json();
+    const validated = slotRangeSchema.parse({ practitionerId, startDate, endDate });
+    const query = new URLSearchParams({ start: validated.startDate, end: validated.endDate, status: 'free' });
 
-    // Revalidate relevant pages
-    revalidatePath('/dashboard/appointments');
-    revalidatePath('/dashboard');
+    const data = await schedulingRequest<{ slots: Slot[] }>(
+      session.user,
+      `/practitioners/${encodeURIComponent(validated.practitionerId)}/slots?${query.toString()}`
+    );
 
+    // A slot starting now can no longer be booked
+    const now = Date.now();
     return {
       success: true,
-      data: appointment,
+      data: data.slots.filter((slot) => new Date(slot.start).getTime() > now),
     };
   } catch (error) {
-    console.error('Create appointment error:', error);
+    console.error('Get available slots error:', error);
+    return toErrorResult(error, 'Failed to get available slots');
+  }
+}
 
-    if (error instanceof z.ZodError) {
+/**
+ * Publish free slots for the signed-in practitioner
+ * @param availability - Period and slot length
+ * @returns Created slots and the number skipped because they overlap existing ones
+ */
+export async function publishAvailability(
+  availability: z.input<typeof publishAvailabilitySchema>
+): Promise<ActionResult<AvailabilityResponse>> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
       return {
         success: false,
-        error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        error: 'Authentication required',
       };
     }
 
+    const validated = publishAvailabilitySchema.parse(availability);
+    const data = await schedulingRequest<AvailabilityResponse>(
+      session.user,
+      `/practitioners/${encodeURIComponent(session.user.id)}/availability`,
+      { method: 'POST', body: JSON.stringify(validated) }
+    );
+
+    revalidateAppointments();
+
     return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to create appointment',
+      success: true,
+      data: { created: data.created, skipped: data.skipped },
     };
+  } catch (error) {
+    console.error('Publish availability error:', error);
+    return toErrorResult(error, 'Failed to publish availability');
   }
 }
 
 /**
- * Update an existing appointment
- * @param appointmentData - Updated appointment information with ID
- * @returns Updated appointment
+ * Book a free slot
+ * @param appointmentData - Practitioner, slot and reason for the visit
+ * @returns Booked appointment
  */
-export async function updateAppointment(
-  appointmentData: z.infer<typeof updateAppointmentSchema>
+export async function createAppointment(
+  appointmentData: z.infer<typeof createAppointmentSchema>
 ): Promise<ActionResult<Appointment>> {
   try {
     // Authenticate user
@@ -141,61 +244,41 @@ export async function updateAppointment(
     }
 
     // Validate input
-    const validatedData = updateAppointmentSchema.parse(appointmentData);
+    const { patientId, ...booking } = createAppointmentSchema.parse(appointmentData);
 
-    // Call API route
-    const response = await fetch(`/api/appointment`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(validatedData),
-    });
+    const appointment = await schedulingRequest<Appointment>(
+      session.user,
+      `/patients/${encodeURIComponent(patientId || session.user.id)}/appointments`,
+      { method: 'POST', body: JSON.stringify(booking) }
+    );
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      return {
-        success: false,
-        error: errorData.error || 'Failed to update appointment',
-      };
-    }
-
-    const appointment: Appointment = await response.json();
-
-    // Revalidate relevant pages
-    revalidatePath('/dashboard/appointments');
-    revalidatePath('/dashboard');
+    revalidateAppointments();
 
     return {
       success: true,
       data: appointment,
     };
   } catch (error) {
-    console.error('Update appointment error:', error);
-
-    if (error instanceof z.ZodError) {
-      return {
-        success: false,
-        error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
-      };
-    }
-
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to update appointment',
-    };
+    console.error('Create appointment error:', error);
+    return toErrorResult(error, 'Failed to create appointment');
   }
 }
 
 /**
- * Cancel an appointment
- * @param appointmentId - Appointment ID to cancel
- * @param reason - Cancellation reason
- * @returns Cancelled appointment
+ * Change the status of an appointment
+ * @param appointmentId - Appointment ID
+ * @param status - New status; the API rejects changes its state machine doesn't allow
+ * @param comment - Reason or note for the change
+ * @param patientId - Patient the appointment belongs to, defaults to the signed-in user
+ * @returns Updated appointment
  */
-export async function cancelAppointment(appointmentId: string, reason?: string): Promise<ActionResult<Appointment>> {
+export async function updateAppointmentStatus(
+  appointmentId: string,
+  status: AppointmentStatus,
+  comment?: string,
+  patientId?: string
+): Promise<ActionResult<Appointment>> {
   try {
-    // Authenticate user
     const session = await auth();
     if (!session?.user) {
       return {
@@ -204,25 +287,46 @@ export async function cancelAppointment(appointmentId: string, reason?: string):
       };
     }
 
-    // Update appointment status to cancelled
-    return updateAppointment({
-      id: appointmentId,
-      status: 'cancelled',
-      notes: reason ? `Cancelled: ${reason}` : 'Cancelled by user',
-    });
-  } catch (error) {
-    console.error('Cancel appointment error:', error);
+    const validatedStatus = appointmentStatusSchema.parse(status);
+
+    const appointment = await schedulingRequest<Appointment>(
+      session.user,
+      `/patients/${encodeURIComponent(patientId || session.user.id)}/appointments/${encodeURIComponent(
+        appointmentId
+      )}/status`,
+      { method: 'POST', body: JSON.stringify({ status: validatedStatus, comment }) }
+    );
+
+    revalidateAppointments();
 
     return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to cancel appointment',
+      success: true,
+      data: appointment,
     };
+  } catch (error) {
+    console.error('Update appointment status error:', error);
+    return toErrorResult(error, 'Failed to update appointment');
   }
 }
 
 /**
- * Reschedule an appointment
- * @param rescheduleData - Reschedule information
+ * Cancel an appointment; its slot becomes free again
+ * @param appointmentId - Appointment ID to cancel
+ * @param reason - Cancellation reason
+ * @param patientId - Patient the appointment belongs to, defaults to the signed-in user
+ * @returns Cancelled appointment
+ */
+export async function cancelAppointment(
+  appointmentId: string,
+  reason?: string,
+  patientId?: string
+): Promise<ActionResult<Appointment>> {
+  return updateAppointmentStatus(appointmentId, 'cancelled', reason || 'Cancelled by user', patientId);
+}
+
+/**
+ * Move an appointment to another free slot of the same practitioner
+ * @param rescheduleData - Appointment, new slot and reason
  * @returns Rescheduled appointment
  */
 export async function rescheduleAppointment(
@@ -241,36 +345,40 @@ export async function rescheduleAppointment(
     // Validate input
     const validatedData = rescheduleAppointmentSchema.parse(rescheduleData);
 
-    // Update appointment with new date/time
-    return updateAppointment({
-      id: validatedData.id,
-      dateTime: validatedData.newDateTime,
-      notes: validatedData.reason ? `Rescheduled: ${validatedData.reason}` : 'Rescheduled by user',
-    });
-  } catch (error) {
-    console.error('Reschedule appointment error:', error);
-
-    if (error instanceof z.ZodError) {
-      return {
-        success: false,
-        error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
-      };
-    }
+    const appointment = await schedulingRequest<Appointment>(
+      session.user,
+      `/patients/${encodeURIComponent(validatedData.patientId || session.user.id)}/appointments/${encodeURIComponent(
+        validatedData.id
+      )}/reschedule`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          slotId: validatedData.slotId,
+          comment: validatedData.reason ? `Rescheduled: ${validatedData.reason}` : undefined,
+        }),
+      }
+    );
+
+    revalidateAppointments();
 
     return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to reschedule appointment',
+      success: true,
+      data: appointment,
     };
+  } catch (error) {
+    console.error('Reschedule appointment error:', error);
+    return toErrorResult(error, 'Failed to reschedule appointment');
   }
 }
 
 /**
- * Get appointments with filters and pagination
+ * Get appointments with filters and pagination. Without a patient or practitioner,
+ * practitioners get the appointments booked with them and everyone else their own.
  * @param searchParams - Search parameters
- * @returns Paginated appointment list
+ * @returns Paginated appointment list, earliest first
  */
 export async function searchAppointments(
-  searchParams?: z.infer<typeof searchAppointmentsSchema>
+  searchParams?: z.input<typeof searchAppointmentsSchema>
 ): Promise<ActionResult<AppointmentsListResponse>> {
   try {
     // Authenticate user
@@ -285,52 +393,38 @@ export async function searchAppointments(
     // Validate input
     const validatedParams = searchAppointmentsSchema.parse(searchParams || {});
 
+    let path: string;
+    if (validatedParams.patientId) {
+      path = `/patients/${encodeURIComponent(validatedParams.patientId)}/appointments`;
+    } else if (validatedParams.practitionerId || session.user.role === 'Practitioner') {
+      path = `/practitioners/${encodeURIComponent(validatedParams.practitionerId || session.user.id)}/appointments`;
+    } else {
+      path = `/patients/${encodeURIComponent(session.user.id)}/appointments`;
+    }
+
     // Build query string
     const queryParams = new URLSearchParams();
-    if (validatedParams.patientId) queryParams.append('patientId', validatedParams.patientId);
-    if (validatedParams.doctorId) queryParams.append('doctorId', validatedParams.doctorId);
-    if (validatedParams.startDate) queryParams.append('startDate', validatedParams.startDate);
-    if (validatedParams.endDate) queryParams.append('endDate', validatedParams.endDate);
+    if (validatedParams.startDate) queryParams.append('start', validatedParams.startDate);
+    if (validatedParams.endDate) queryParams.append('end', validatedParams.endDate);
     if (validatedParams.status) queryParams.append('status', validatedParams.status);
-    queryParams.append('page', validatedParams.page.toString());
-    queryParams.append('limit', validatedParams.limit.toString());
-
-    // Call API route
-    const response = await fetch(`/api/appointment?${queryParams.toString()}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      return {
-        success: false,
-        error: errorData.error || 'Failed to search appointments',
-      };
-    }
+    const data = await schedulingRequest<{ appointments: Appointment[] }>(session.user, `${path}?${queryParams.toString()}`);
 
-    const data: AppointmentsListResponse = await response.json();
+    const { page, limit } = validatedParams;
+    const total = data.appointments.length;
 
     return {
       success: true,
-      data,
+      data: {
+        appointments: data.appointments.slice((page - 1) * limit, page * limit),
+        total,
+        page,
+        totalPages: Math.max(1, Math.ceil(total / limit)),
+      },
     };
   } catch (error) {
     console.error('Search appointments error:', error);
-
-    if (error instanceof z.ZodError) {
-      return {
-        success: false,
-        error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
-      };
-    }
-
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to search appointments',
-    };
+    return toErrorResult(error, 'Failed to search appointments');
   }
 }
 
@@ -341,20 +435,9 @@ export async function searchAppointments(
  */
 export async function getUpcomingAppointments(limit: number = 5): Promise<ActionResult<Appointment[]>> {
   try {
-    // Authenticate user
-    const session = await auth();
-    if (!session?.user) {
-      return {
-        success: false,
-        error: 'Authentication required',
-      };
-    }
-
-    // Search for upcoming appointments
     const result = await searchAppointments({
-      patientId: session.user.id,
       startDate: new Date().toISOString(),
-      status: 'scheduled',
+      status: 'booked',
       page: 1,
       limit,
     });
@@ -384,41 +467,27 @@ export async function getUpcomingAppointments(limit: number = 5): Promise<Action
  * Mark appointment as completed
  * @param appointmentId - Appointment ID
  * @param notes - Completion notes
+ * @param patientId - Patient the appointment belongs to
  * @returns Updated appointment
  */
-export async function completeAppointment(appointmentId: string, notes?: string): Promise<ActionResult<Appointment>> {
-  try {
-    // Authenticate user
-    const session = await auth();
-    if (!session?.user) {
-      return {
-        success: false,
-        error: 'Authentication required',
-      };
-    }
-
-    // Update appointment status to completed
-    return updateAppointment({
-      id: appointmentId,
-      status: 'completed',
-      notes: notes || 'Appointment completed',
-    });
-  } catch (error) {
-    console.error('Complete appointment error:', error);
-
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to complete appointment',
-    };
-  }
+export async function completeAppointment(
+  appointmentId: string,
+  notes?: string,
+  patientId?: string
+): Promise<ActionResult<Appointment>> {
+  return updateAppointmentStatus(appointmentId, 'fulfilled', notes || 'Appointment completed', patientId);
 }
 
 /**
- * Send appointment reminder
+ * Send appointment reminder now (the scheduling API also reminds patients ahead of time)
  * @param appointmentId - Appointment ID
- * @returns Success status
+ * @param patientId - Patient the appointment belongs to; defaults to the signed-in user
+ * @returns Whether the reminder reached the patient on any channel
  */
-export async function sendAppointmentReminder(appointmentId: string): Promise<ActionResult<{ sent: boolean }>> {
+export async function sendAppointmentReminder(
+  appointmentId: string,
+  patientId?: string
+): Promise<ActionResult<{ sent: boolean }>> {
   try {
     // Authenticate user
     const session = await auth();
@@ -429,19 +498,20 @@ export async function sendAppointmentReminder(appointmentId: string): Promise<Ac
       };
     }
 
-    // TODO: Implement reminder sending logic
-    // This would integrate with notification service
+    const { sent } = await schedulingRequest<{ sent: boolean }>(
+      session.user,
+      `/patients/${encodeURIComponent(patientId || session.user.id)}/appointments/${encodeURIComponent(
+        appointmentId
+      )}/reminder`,
+      { method: 'POST' }
+    );
 
     return {
       success: true,
-      data: { sent: true },
+      data: { sent },
     };
   } catch (error) {
     console.error('Send reminder error:', error);
-
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to send reminder',
-    };
+    return toErrorResult(error, 'Failed to send reminder');
   }
 }
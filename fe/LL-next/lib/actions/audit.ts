@@ -0,0 +1,124 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { apiAuthHeaders, type ApiTokenUser } from '@/lib/api-token';
+import type { AuditEventPage, AuditFilters } from '@/lib/types/audit';
+import type { ActionResult } from './triage';
+
+const AZURE_FUNCTIONS_URL = process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071';
+const AUDIT_URL = `${AZURE_FUNCTIONS_URL}/api/audit/events`;
+
+export interface AuditExport {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+function filterParams(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const names: Record<string, string> = { actorId: 'actor', patientId: 'patient', search: 'q' };
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (key === 'includeChain') {
+      if (value) params.set('chain', 'true');
+    } else if (value !== undefined && value !== '') {
+      params.set(names[key] || key, String(value));
+    }
+  }
+  return params;
+}
+
+/**
+ * Call the audit API for a user
+ * @throws Error with the API's message
+ */
+async function auditRequest(user: ApiTokenUser, path: string): Promise<Response> {
+  const response = await fetch(`${AUDIT_URL}${path}`, {
+    headers: await apiAuthHeaders(user),
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `Audit service error: ${response.status}`);
+  }
+  return response;
+}
+
+/**
+ * Audit events matching the filters, newest first (admins only)
+ * @param cursor - nextCursor of the previous page
+ */
+export async function getAuditEvents(
+  filters: AuditFilters = {},
+  cursor?: string,
+  limit = 50
+): Promise<ActionResult<AuditEventPage>> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    const params = filterParams(filters);
+    params.set('limit', String(limit));
+    if (cursor) params.set('cursor', cursor);
+
+    const response = await auditRequest(session.user, `?${params.toString()}`);
+    const body = await response.json();
+
+    return {
+      success: true,
+      data: body.data as AuditEventPage,
+    };
+  } catch (error) {
+    console.error('Get audit events error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load audit events',
+    };
+  }
+}
+
+/**
+ * Every audit event matching the filters as a file to download (admins only)
+ */
+export async function exportAuditEvents(
+  filters: AuditFilters = {},
+  format: 'csv' | 'json' = 'csv'
+): Promise<ActionResult<AuditExport>> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    const params = filterParams(filters);
+    params.set('format', format);
+
+    const response = await auditRequest(session.user, `/export?${params.toString()}`);
+    const fileName =
+      response.headers.get('content-disposition')?.match(/filename="([^"]+)"/)?.[1] || `lelink-audit.${format}`;
+
+    return {
+      success: true,
+      data: {
+        fileName,
+        contentType: response.headers.get('content-type') || 'text/plain',
+        content: await response.text(),
+      },
+    };
+  } catch (error) {
+    console.error('Export audit events error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export audit events',
+    };
+  }
+}
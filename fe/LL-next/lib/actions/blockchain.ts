@@ -4,13 +4,18 @@ import { auth } from '@/lib/auth';
 import { z } from 'zod';
 import { ethers } from 'ethers';
 import { revalidatePath } from 'next/cache';
+import { hashResource } from '@/lib/hash';
+import { fhirStorageClient } from '@/lib/fhir-storage/client';
+import { getOwnerAddress, toBytes32Hash } from '@/lib/services/blockchain';
+import { getBlockchainSettings } from '@/lib/settings';
+import type { FHIRStorageResource } from '@/lib/fhir-storage/types';
 
 // Contract ABI (minimal interface for reading audit logs)
 const LELINK_ABI = [
   'event RecordCreated(string indexed recordId, bytes32 indexed hash, address indexed owner, uint256 timestamp)',
   'event RecordShared(string indexed recordId, address indexed owner, address indexed sharedWith, uint256 timestamp)',
   'event AccessRevoked(string indexed recordId, address indexed owner, address indexed revokedFrom, uint256 timestamp)',
-  'function getRecordHash(string memory recordId) public view returns (bytes32)',
+  'function getRecordHash(string memory resourceId, address owner) public view returns (bytes32)',
   'function hasAccess(string memory recordId, address user) public view returns (bool)',
 ];
 
@@ -23,8 +28,9 @@ const getAuditLogsSchema = z.object({
 });
 
 const verifyRecordSchema = z.object({
-  recordId: z.string().min(1),
-  expectedHash: z.string().optional(),
+  patientId: z.string().min(1),
+  resourceType: z.string().min(1),
+  resourceId: z.string().min(1),
 });
 
 // Response types
@@ -68,8 +74,7 @@ export async function getBlockchainStatus(): Promise<ActionResult<BlockchainStat
       };
     }
 
-    const rpcUrl = process.env.NEXT_PUBLIC_BLOCKCHAIN_RPC_URL || 'http://localhost:8545';
-    const contractAddress = process.env.NEXT_PUBLIC_LELINK_CONTRACT_ADDRESS;
+    const { rpcUrl, contractAddress } = await getBlockchainSettings(session.user);
 
     if (!contractAddress) {
       return {
@@ -121,8 +126,7 @@ export async function getAuditLogs(filters?: z.infer<typeof getAuditLogsSchema>)
     // Validate input
     const validatedFilters = getAuditLogsSchema.parse(filters || {});
 
-    const rpcUrl = process.env.NEXT_PUBLIC_BLOCKCHAIN_RPC_URL || 'http://localhost:8545';
-    const contractAddress = process.env.NEXT_PUBLIC_LELINK_CONTRACT_ADDRESS;
+    const { rpcUrl, contractAddress } = await getBlockchainSettings(session.user);
 
     if (!contractAddress) {
       return {
@@ -217,14 +221,17 @@ export async function getAuditLogs(filters?: z.infer<typeof getAuditLogsSchema>)
 
 /**
  * Verify a record's integrity on blockchain
- * @param recordId - Record ID to verify
- * @param expectedHash - Optional expected hash to compare
- * @returns Verification result
+ * Hashes the stored resource canonically and compares it with the anchored hash
+ * @param patientId - Patient who owns the record
+ * @param resourceType - FHIR resource type
+ * @param resourceId - FHIR resource ID
+ * @returns Verification result with both digests
  */
 export async function verifyRecordIntegrity(
-  recordId: string,
-  expectedHash?: string
-): Promise<ActionResult<{ verified: boolean; hash: string; onChain: boolean }>> {
+  patientId: string,
+  resourceType: string,
+  resourceId: string
+): Promise<ActionResult<{ verified: boolean; hash: string; currentHash: string; onChain: boolean }>> {
   try {
     // Authenticate user
     const session = await auth();
@@ -236,10 +243,9 @@ export async function verifyRecordIntegrity(
     }
 
     // Validate input
-    const validatedInput = verifyRecordSchema.parse({ recordId, expectedHash });
+    const validatedInput = verifyRecordSchema.parse({ patientId, resourceType, resourceId });
 
-    const rpcUrl = process.env.NEXT_PUBLIC_BLOCKCHAIN_RPC_URL || 'http://localhost:8545';
-    const contractAddress = process.env.NEXT_PUBLIC_LELINK_CONTRACT_ADDRESS;
+    const { rpcUrl, contractAddress } = await getBlockchainSettings(session.user);
 
     if (!contractAddress) {
       return {
@@ -248,26 +254,41 @@ export async function verifyRecordIntegrity(
       };
     }
 
+    // Hash the record as currently stored
+    const stored = await fhirStorageClient.get<FHIRStorageResource>(
+      `/resource/${encodeURIComponent(validatedInput.patientId)}/${encodeURIComponent(
+        validatedInput.resourceType
+      )}/${encodeURIComponent(validatedInput.resourceId)}`
+    );
+    if (!stored.success || !stored.data) {
+      return {
+        success: false,
+        error: 'Record not found',
+      };
+    }
+    const currentHash = hashResource(stored.data);
+
     // Connect to blockchain
     const provider = new ethers.JsonRpcProvider(rpcUrl);
     const contract = new ethers.Contract(contractAddress, LELINK_ABI, provider);
 
-    // Get record hash from blockchain
+    // Get record hash from blockchain (on-chain IDs are "ResourceType-id")
     try {
-      const onChainHash = await contract.getRecordHash(validatedInput.recordId);
-      const hashString = onChainHash.toString();
+      const onChainHash = await contract.getRecordHash(
+        `${validatedInput.resourceType}-${validatedInput.resourceId}`,
+        getOwnerAddress(validatedInput.patientId)
+      );
+      const hashString = onChainHash.toString().toLowerCase();
 
       // Check if record exists on chain (non-zero hash)
-      const onChain = hashString !== '0x0000000000000000000000000000000000000000000000000000000000000000';
-
-      // Verify against expected hash if provided
-      const verified = !validatedInput.expectedHash || hashString === validatedInput.expectedHash;
+      const onChain = hashString !== ethers.ZeroHash;
 
       return {
         success: true,
         data: {
-          verified,
+          verified: onChain && hashString === toBytes32Hash(currentHash),
           hash: hashString,
+          currentHash,
           onChain,
         },
       };
@@ -277,7 +298,8 @@ export async function verifyRecordIntegrity(
         success: true,
         data: {
           verified: false,
-          hash: '0x0000000000000000000000000000000000000000000000000000000000000000',
+          hash: ethers.ZeroHash,
+          currentHash,
           onChain: false,
         },
       };
@@ -322,8 +344,7 @@ export async function checkRecordAccess(
     // Use current user's address if not provided
     const checkAddress = userAddress || session.user.id;
 
-    const rpcUrl = process.env.NEXT_PUBLIC_BLOCKCHAIN_RPC_URL || 'http://localhost:8545';
-    const contractAddress = process.env.NEXT_PUBLIC_LELINK_CONTRACT_ADDRESS;
+    const { rpcUrl, contractAddress } = await getBlockchainSettings(session.user);
 
     if (!contractAddress) {
       return {
@@ -372,7 +393,7 @@ export async function getTransactionDetails(transactionHash: string): Promise<Ac
       };
     }
 
-    const rpcUrl = process.env.NEXT_PUBLIC_BLOCKCHAIN_RPC_URL || 'http://localhost:8545';
+    const { rpcUrl } = await getBlockchainSettings(session.user);
 
     // Connect to blockchain
     const provider = new ethers.JsonRpcProvider(rpcUrl);
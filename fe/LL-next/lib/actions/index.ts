@@ -6,6 +6,10 @@ export * from './patients'
 export * from './appointments'
 export * from './records'
 export * from './blockchain'
+export * from './notifications'
+export * from './settings'
+export * from './audit'
+export * from './review'
 
 // FHIR Storage actions
 export * from '../fhir-storage/actions'
@@ -0,0 +1,149 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { apiAuthHeaders, type ApiTokenUser } from '@/lib/api-token';
+import type {
+  InAppNotification,
+  NotificationChannelName,
+  NotificationChannelStatus,
+  NotificationDelivery,
+  NotificationEventType,
+} from '@/lib/types/notification';
+import type { ActionResult } from './triage';
+
+const AZURE_FUNCTIONS_URL = process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071';
+const NOTIFICATIONS_URL = `${AZURE_FUNCTIONS_URL}/api/notifications`;
+
+export interface NotificationInbox {
+  notifications: InAppNotification[];
+  unreadCount: number;
+}
+
+export interface DeliveryFilters {
+  type?: NotificationEventType;
+  channel?: NotificationChannelName;
+  status?: 'sent' | 'failed';
+  limit?: number;
+}
+
+/**
+ * Call the notifications API for a user
+ * @throws Error with the API's message
+ */
+async function notificationsRequest<T>(user: ApiTokenUser, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${NOTIFICATIONS_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await apiAuthHeaders(user)),
+      ...init.headers,
+    },
+    cache: 'no-store',
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.success) {
+    throw new Error(body?.message || `Notification service error: ${response.status}`);
+  }
+  return body.data as T;
+}
+
+/**
+ * The signed-in user's in-app notifications, newest first
+ * @param unreadOnly - Leave out notifications already read
+ */
+export async function getNotifications(unreadOnly = false, limit = 20): Promise<ActionResult<NotificationInbox>> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    const params = new URLSearchParams({ limit: String(limit), ...(unreadOnly && { unread: 'true' }) });
+    const inbox = await notificationsRequest<NotificationInbox>(session.user, `?${params.toString()}`);
+
+    return {
+      success: true,
+      data: inbox,
+    };
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load notifications',
+    };
+  }
+}
+
+/**
+ * Mark notifications read
+ * @param ids - Notifications to mark; all of the user's if omitted
+ */
+export async function markNotificationsRead(ids?: string[]): Promise<ActionResult<{ marked: number }>> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    const result = await notificationsRequest<{ marked: number }>(session.user, '/read', {
+      method: 'POST',
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+
+    return {
+      success: true,
+      data: result,
+    };
+  } catch (error) {
+    console.error('Mark notifications read error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update notifications',
+    };
+  }
+}
+
+/**
+ * Delivery log and channel configuration (admins only)
+ */
+export async function getNotificationDeliveries(
+  filters: DeliveryFilters = {}
+): Promise<ActionResult<{ deliveries: NotificationDelivery[]; channels: NotificationChannelStatus[] }>> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+
+    const [{ deliveries }, { channels }] = await Promise.all([
+      notificationsRequest<{ deliveries: NotificationDelivery[] }>(session.user, `/deliveries?${params.toString()}`),
+      notificationsRequest<{ channels: NotificationChannelStatus[] }>(session.user, '/channels'),
+    ]);
+
+    return {
+      success: true,
+      data: { deliveries, channels },
+    };
+  } catch (error) {
+    console.error('Get notification deliveries error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load deliveries',
+    };
+  }
+}
@@ -5,6 +5,9 @@ import { z } from 'zod'
 import { revalidatePath } from 'next/cache'
 import type { MedicalRecord } from '@/lib/types/record'
 import type { FHIRResource } from '@/lib/types/fhir'
+import { createFHIRStorageClient } from '@/lib/fhir-storage/client'
+import { FHIRStorageAPIError } from '@/lib/fhir-storage/types'
+import type { ConsentGrantData, ImportReportData } from '@/lib/fhir-storage/types'
 
 // Input validation schemas
 const createRecordSchema = z.object({
@@ -26,6 +29,28 @@ const updateRecordSchema = createRecordSchema.partial().extend({
   id: z.string()
 })
 
+// Imports and share grants are not idempotent (new IDs, new on-chain transactions), so never retry them
+const nonRetryingClient = createFHIRStorageClient({ retries: 0 })
+
+const shareRecordsSchema = z.object({
+  recordIds: z.array(z.string().min(1)).min(1, 'Select at least one record to share'),
+  recipientId: z.string().min(1, 'Recipient is required'),
+  expiryDate: z.string().datetime().refine(
+    (value) => new Date(value).getTime() > Date.now(),
+    'Expiry date must be in the future'
+  )
+})
+
+const importBundleSchema = z.object({
+  resourceType: z.literal('Bundle'),
+  type: z.enum(['batch', 'transaction']),
+  entry: z.array(z.object({
+    fullUrl: z.string().optional(),
+    resource: z.object({ resourceType: z.string() }).passthrough().optional(),
+    request: z.object({ method: z.string(), url: z.string().optional() }).passthrough().optional()
+  }).passthrough()).default([])
+}).passthrough()
+
 const searchRecordsSchema = z.object({
   patientId: z.string().optional(),
   type: z.enum(['observation', 'condition', 'procedure', 'medication', 'allergy', 'immunization']).optional(),
@@ -359,8 +384,8 @@ export async function verifyRecordOnBlockchain(
 /**
  * Export medical records
  * @param patientId - Patient ID
- * @param format - Export format
- * @returns Export data or URL
+ * @param format - Export format: FHIR Bundle, flat JSON or PDF summary, each with blockchain anchors
+ * @returns Download URL
  */
 export async function exportMedicalRecords(
   patientId: string,
@@ -376,12 +401,7 @@ export async function exportMedicalRecords(
       }
     }
 
-    // TODO: Implement export functionality
-    // This would:
-    // 1. Gather all records for the patient
-    // 2. Format according to requested type
-    // 3. Generate file/URL
-
+    // Served by app/api/export/records/[file], which also enforces access
     return {
       success: true,
       data: {
@@ -400,16 +420,18 @@ export async function exportMedicalRecords(
 
 /**
  * Share medical records with another healthcare provider
+ * Creates a consent grant that is logged on-chain and enforced when the
+ * provider reads the records; access ends automatically at expiry.
  * @param recordIds - Array of record IDs to share
  * @param recipientId - Healthcare provider ID
- * @param expiryDate - Optional expiry date for access
+ * @param expiryDate - Optional expiry date for access (defaults to 30 days)
  * @returns Share confirmation
  */
 export async function shareMedicalRecords(
   recordIds: string[],
   recipientId: string,
   expiryDate?: string
-): Promise<ActionResult<{ shareId: string; expiryDate?: string }>> {
+): Promise<ActionResult<{ shareId: string; expiryDate?: string; grant: ConsentGrantData }>> {
   try {
     // Authenticate user
     const session = await auth()
@@ -420,22 +442,49 @@ export async function shareMedicalRecords(
       }
     }
 
-    // TODO: Implement sharing functionality
-    // This would:
-    // 1. Create access grant on blockchain
-    // 2. Send notification to recipient
-    // 3. Return share details
+    const validated = shareRecordsSchema.parse({
+      recordIds,
+      recipientId,
+      expiryDate: expiryDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
+    })
+
+    const patientId = session.user.id
+    const response = await nonRetryingClient.post<ConsentGrantData>(
+      `/patients/${encodeURIComponent(patientId)}/consents`,
+      {
+        practitionerId: validated.recipientId,
+        resources: validated.recordIds,
+        expiresAt: validated.expiryDate
+      }
+    )
+
+    if (!response.data) {
+      return {
+        success: false,
+        error: response.message || 'Failed to share records'
+      }
+    }
+
+    revalidatePath('/dashboard/records')
 
     return {
       success: true,
       data: {
-        shareId: `share_${Date.now()}`,
-        expiryDate: expiryDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
+        shareId: response.data.consentId,
+        expiryDate: response.data.expiresAt,
+        grant: response.data
       }
     }
   } catch (error) {
     console.error('Share medical records error:', error)
-    
+
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation error: ${error.errors.map(e => e.message).join(', ')}`
+      }
+    }
+
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Failed to share records'
@@ -443,16 +492,52 @@ export async function shareMedicalRecords(
   }
 }
 
+/**
+ * Revoke a share before it expires
+ * @param shareId - Consent grant ID returned by shareMedicalRecords
+ * @returns Updated grant
+ */
+export async function revokeMedicalRecordsShare(shareId: string): Promise<ActionResult<ConsentGrantData>> {
+  try {
+    // Authenticate user
+    const session = await auth()
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      }
+    }
+
+    const response = await nonRetryingClient.post<ConsentGrantData>(
+      `/patients/${encodeURIComponent(session.user.id)}/consents/${encodeURIComponent(shareId)}/revoke`
+    )
+
+    revalidatePath('/dashboard/records')
+
+    return {
+      success: true,
+      data: response.data
+    }
+  } catch (error) {
+    console.error('Revoke share error:', error)
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revoke share'
+    }
+  }
+}
+
 /**
  * Import FHIR resources
- * @param fhirBundle - FHIR Bundle containing resources
+ * @param fhirBundle - FHIR R4 Bundle (batch or transaction) containing resources
  * @param patientId - Patient ID to associate resources with
- * @returns Import result
+ * @returns Per-entry import report
  */
 export async function importFHIRResources(
   fhirBundle: any,
   patientId: string
-): Promise<ActionResult<{ imported: number; failed: number }>> {
+): Promise<ActionResult<ImportReportData>> {
   try {
     // Authenticate user
     const session = await auth()
@@ -463,23 +548,42 @@ export async function importFHIRResources(
       }
     }
 
-    // TODO: Implement FHIR import
-    // This would:
-    // 1. Validate FHIR bundle
-    // 2. Process each resource
-    // 3. Store in FHIR storage
-    // 4. Log to blockchain
+    const validatedPatientId = z.string().min(1).parse(patientId)
+    const validatedBundle = importBundleSchema.parse(fhirBundle)
+
+    // Entry validation, storage and blockchain anchoring happen in the fhir-storage function
+    const response = await nonRetryingClient.post<ImportReportData>(
+      `/patients/${encodeURIComponent(validatedPatientId)}/import`,
+      validatedBundle
+    )
+
+    revalidatePath('/dashboard/records')
+    revalidatePath(`/dashboard/patients/${validatedPatientId}`)
 
     return {
       success: true,
-      data: {
-        imported: 0,
-        failed: 0
-      }
+      data: response.data
     }
   } catch (error) {
     console.error('Import FHIR resources error:', error)
-    
+
+    // A rolled-back transaction still comes with its per-entry report
+    const report = error instanceof FHIRStorageAPIError ? error.details?.response?.error : undefined
+    if (report?.entries) {
+      return {
+        success: false,
+        data: report as ImportReportData,
+        error: (error as FHIRStorageAPIError).message
+      }
+    }
+
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation error: ${error.errors.map(e => e.message).join(', ')}`
+      }
+    }
+
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Failed to import resources'
@@ -0,0 +1,96 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { apiAuthHeaders, type ApiTokenUser } from '@/lib/api-token';
+import type { ReviewQueue, ReviewQueueItem, ReviewRequest, ReviewResult } from '@/lib/types/review';
+import type { ActionResult } from './triage';
+
+const AZURE_FUNCTIONS_URL = process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071';
+const REVIEW_URL = `${AZURE_FUNCTIONS_URL}/api/triage/review`;
+
+/**
+ * Call the triage review API for a user
+ * @throws Error with the API's message
+ */
+async function reviewRequest<T>(user: ApiTokenUser, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${REVIEW_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await apiAuthHeaders(user)),
+      ...init.headers,
+    },
+    cache: 'no-store',
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.success) {
+    throw new Error(body?.message || `Triage review service error: ${response.status}`);
+  }
+  return body.data as T;
+}
+
+/**
+ * AI triage assessments awaiting the practitioner's review, highest risk and oldest first
+ */
+export async function getReviewQueue(limit = 50): Promise<ActionResult<ReviewQueue>> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    return {
+      success: true,
+      data: await reviewRequest<ReviewQueue>(session.user, `?limit=${limit}`),
+    };
+  } catch (error) {
+    console.error('Get review queue error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load the review queue',
+    };
+  }
+}
+
+/**
+ * Accept, amend or reject an assessment from the queue
+ */
+export async function reviewAssessment(
+  item: Pick<ReviewQueueItem, 'patientId' | 'assessmentId' | 'etag'>,
+  request: ReviewRequest
+): Promise<ActionResult<ReviewResult>> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    const data = await reviewRequest<ReviewResult>(
+      session.user,
+      `/${encodeURIComponent(item.patientId)}/${encodeURIComponent(item.assessmentId)}`,
+      {
+        method: 'POST',
+        headers: { 'If-Match': item.etag },
+        body: JSON.stringify(request),
+      }
+    );
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error) {
+    console.error('Review assessment error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to review the assessment',
+    };
+  }
+}
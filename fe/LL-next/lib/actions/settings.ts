@@ -0,0 +1,177 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { apiAuthHeaders, type ApiTokenUser } from '@/lib/api-token';
+import { clearRuntimeSettingsCache, getRuntimeSettings } from '@/lib/settings';
+import type {
+  RuntimeSettings,
+  SettingChange,
+  SettingsRevision,
+  SettingsSnapshot,
+  SettingValue,
+} from '@/lib/types/settings';
+import type { ActionResult } from './triage';
+
+const AZURE_FUNCTIONS_URL = process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071';
+const SETTINGS_URL = `${AZURE_FUNCTIONS_URL}/api/settings`;
+
+export interface SaveSettingsResult extends SettingsSnapshot {
+  changes: SettingChange[];
+}
+
+class SettingsRequestError extends Error {
+  /** Errors by setting key, for invalid values */
+  fieldErrors?: Record<string, string>;
+  status: number;
+
+  constructor(message: string, status: number, fieldErrors?: Record<string, string>) {
+    super(message);
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Call the settings API for a user
+ * @throws SettingsRequestError with the API's message
+ */
+async function settingsRequest<T>(user: ApiTokenUser, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${SETTINGS_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await apiAuthHeaders(user)),
+      ...init.headers,
+    },
+    cache: 'no-store',
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body?.success) {
+    throw new SettingsRequestError(
+      body?.message || `Settings service error: ${response.status}`,
+      response.status,
+      body?.error?.errors
+    );
+  }
+  return body.data as T;
+}
+
+/**
+ * Every system setting with its effective value (admins only)
+ */
+export async function getSystemSettings(): Promise<ActionResult<SettingsSnapshot>> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    return {
+      success: true,
+      data: await settingsRequest<SettingsSnapshot>(session.user, ''),
+    };
+  } catch (error) {
+    console.error('Get system settings error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load settings',
+    };
+  }
+}
+
+/**
+ * Save changed settings (admins only)
+ * @param values - New values by key; null restores the environment's value
+ * @param revision - Revision the changes were made against
+ */
+export async function saveSystemSettings(
+  values: Record<string, SettingValue>,
+  revision: number,
+  reason?: string
+): Promise<ActionResult<SaveSettingsResult> & { fieldErrors?: Record<string, string>; conflict?: boolean }> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    const result = await settingsRequest<SaveSettingsResult>(session.user, '', {
+      method: 'PUT',
+      body: JSON.stringify({ values, revision, ...(reason && { reason }) }),
+    });
+    clearRuntimeSettingsCache();
+
+    return {
+      success: true,
+      data: result,
+    };
+  } catch (error) {
+    console.error('Save system settings error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save settings',
+      ...(error instanceof SettingsRequestError && {
+        fieldErrors: error.fieldErrors,
+        conflict: error.status === 409,
+      }),
+    };
+  }
+}
+
+/**
+ * Past setting changes, newest first (admins only)
+ * @param key - Only changes to this setting
+ */
+export async function getSettingsHistory(key?: string, limit = 20): Promise<ActionResult<SettingsRevision[]>> {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    const params = new URLSearchParams({ limit: String(limit), ...(key && { key }) });
+    const { history } = await settingsRequest<{ history: SettingsRevision[] }>(
+      session.user,
+      `/history?${params.toString()}`
+    );
+
+    return {
+      success: true,
+      data: history,
+    };
+  } catch (error) {
+    console.error('Get settings history error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load settings history',
+    };
+  }
+}
+
+/**
+ * Settings the app applies at runtime, for client components
+ */
+export async function getAppSettings(): Promise<ActionResult<RuntimeSettings>> {
+  const session = await auth();
+  if (!session?.user) {
+    return {
+      success: false,
+      error: 'Authentication required',
+    };
+  }
+
+  return {
+    success: true,
+    data: await getRuntimeSettings(session.user),
+  };
+}
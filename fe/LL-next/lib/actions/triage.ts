@@ -1,6 +1,7 @@
 'use server';
 
 import { auth } from '@/lib/auth';
+import { apiAuthHeaders } from '@/lib/api-token';
 import { z } from 'zod';
 import { revalidatePath } from 'next/cache';
 import type { Observation, RiskAssessment } from '@/lib/types/fhir';
@@ -12,7 +13,9 @@ const API_KEY = process.env.AZURE_FUNCTIONS_API_KEY;
 const submitSymptomSchema = z.object({
   message: z.string().min(1).max(1000),
   threadId: z.string().optional(),
+  sessionId: z.string().optional(),
   patientId: z.string().min(1),
+  language: z.string().max(35).optional(),
 });
 
 const getTriageHistorySchema = z.object({
@@ -20,12 +23,24 @@ const getTriageHistorySchema = z.object({
   limit: z.number().optional().default(10),
 });
 
+const getTriageSessionSchema = z.object({
+  sessionId: z.string().min(1),
+  patientId: z.string().min(1),
+});
+
 // Response types
 export interface TriageResponse {
   reply: string;
   threadId: string;
   patientId: string;
   sessionId: string;
+  // Language the reply is in
+  language?: string;
+  // English translations of the message and the reply, when the language is another
+  translation?: {
+    message?: string;
+    reply?: string;
+  };
   completionStatus: {
     isComplete: boolean;
     status: string;
@@ -37,13 +52,17 @@ export interface TriageResponse {
   resources?: {
     RiskAssessment?: RiskAssessment;
     Observation?: Observation;
+    // Every Observation of the turn, all referencing the session's Encounter
+    Observations?: Observation[];
   };
+  // Anchoring is queued; poll /api/blockchain/anchors/{jobId} for the transaction
   blockchain?: {
     success: boolean;
+    status: 'queued';
+    jobId: string;
     results: Array<{
-      transactionHash: string;
-      blockNumber: number;
       resourceId: string;
+      dataHash: string;
     }>;
     contractAddress: string;
     network: string;
@@ -55,31 +74,98 @@ export interface TriageHistoryItem {
   id: string;
   timestamp: string;
   patientId: string;
+  threadId: string;
+  status: 'in-progress' | 'finished';
+  startedAt: string;
+  preview?: string;
   riskLevel?: 'low' | 'medium' | 'high';
   condition?: string;
+  /** Red-flag screening fired; the session awaits practitioner review */
+  flaggedForReview?: boolean;
   resources?: {
     RiskAssessment?: RiskAssessment;
     Observation?: Observation;
   };
 }
 
+export interface TriageSessionDetail extends TriageHistoryItem {
+  // Language the patient was answered in
+  language?: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: string;
+    timestamp: string;
+    // Set when the content is not in English
+    language?: string;
+    translation?: string;
+  }>;
+  toolCalls: Array<{
+    name: string;
+    arguments: any;
+    timestamp: string;
+  }>;
+  // References ("Type/id") of the resources generated during the session
+  resourceReferences: string[];
+}
+
+// Session as returned by /api/triage/sessions
+interface BackendTriageSession {
+  sessionId: string;
+  patientId: string;
+  threadId: string;
+  status: 'in-progress' | 'finished';
+  startedAt: string;
+  updatedAt: string;
+  preview?: string;
+  risk?: { level?: string; condition?: string };
+  flaggedForReview?: boolean;
+  language?: string;
+  messages?: TriageSessionDetail['messages'];
+  toolCalls?: TriageSessionDetail['toolCalls'];
+  resources?: string[];
+}
+
 export interface ActionResult<T> {
   success: boolean;
   data?: T;
   error?: string;
 }
 
+/**
+ * Map a backend session to a history item. The assistant reports "moderate" for medium risk.
+ */
+function toHistoryItem(session: BackendTriageSession): TriageHistoryItem {
+  const level = session.risk?.level?.toLowerCase();
+
+  return {
+    id: session.sessionId,
+    timestamp: session.updatedAt,
+    patientId: session.patientId,
+    threadId: session.threadId,
+    status: session.status,
+    startedAt: session.startedAt,
+    preview: session.preview,
+    riskLevel: level === 'moderate' ? 'medium' : (level as TriageHistoryItem['riskLevel']),
+    condition: session.risk?.condition,
+    flaggedForReview: session.flaggedForReview,
+  };
+}
+
 /**
  * Submit symptoms for AI-powered medical triage assessment
  * @param message - Patient's symptom description
  * @param threadId - Optional thread ID for continuing a conversation
  * @param patientId - Patient identifier
+ * @param sessionId - Optional triage session to continue
+ * @param language - Language to answer in; detected from the message when omitted
  * @returns Triage assessment response with optional FHIR resources
  */
 export async function submitSymptoms(
   message: string,
   threadId?: string,
-  patientId?: string
+  patientId?: string,
+  sessionId?: string,
+  language?: string
 ): Promise<ActionResult<TriageResponse>> {
   try {
     // Authenticate user
@@ -98,7 +184,9 @@ export async function submitSymptoms(
     const validatedInput = submitSymptomSchema.parse({
       message,
       threadId,
+      sessionId,
       patientId: effectivePatientId,
+      language,
     });
 
     // Call Azure Functions backend
@@ -173,11 +261,33 @@ export async function getTriageHistory(patientId?: string, limit?: number): Prom
       limit,
     });
 
-    // For now, return empty array as we need to implement FHIR storage queries
-    // In a real implementation, this would query the FHIR storage service
+    const response = await fetch(
+      `${AZURE_FUNCTIONS_URL}/api/triage/sessions/${encodeURIComponent(validatedInput.patientId)}?limit=${
+        validatedInput.limit
+      }`,
+      {
+        headers: {
+          ...(API_KEY && { 'x-api-key': API_KEY }),
+          ...(await apiAuthHeaders(session.user)),
+        },
+        cache: 'no-store',
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return {
+        success: false,
+        error: `Triage service error: ${response.status} - ${errorText}`,
+      };
+    }
+
+    const result = await response.json();
+    const sessions: BackendTriageSession[] = result.data?.sessions || [];
+
     return {
       success: true,
-      data: [],
+      data: sessions.map(toHistoryItem),
     };
   } catch (error) {
     console.error('Get triage history error:', error);
@@ -196,15 +306,102 @@ export async function getTriageHistory(patientId?: string, limit?: number): Prom
   }
 }
 
+/**
+ * Get a triage session with its transcript, to reopen it
+ * @param sessionId - Triage session identifier
+ * @param patientId - Patient the session belongs to, defaults to the signed-in user
+ * @returns The session, including messages and tool calls
+ */
+export async function getTriageSession(
+  sessionId: string,
+  patientId?: string
+): Promise<ActionResult<TriageSessionDetail>> {
+  try {
+    // Authenticate user
+    const session = await auth();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      };
+    }
+
+    const validatedInput = getTriageSessionSchema.parse({
+      sessionId,
+      patientId: patientId || session.user.id || 'unknown',
+    });
+
+    const response = await fetch(
+      `${AZURE_FUNCTIONS_URL}/api/triage/sessions/${encodeURIComponent(
+        validatedInput.patientId
+      )}/${encodeURIComponent(validatedInput.sessionId)}`,
+      {
+        headers: {
+          ...(API_KEY && { 'x-api-key': API_KEY }),
+          ...(await apiAuthHeaders(session.user)),
+        },
+        cache: 'no-store',
+      }
+    );
+
+    if (response.status === 404) {
+      return {
+        success: false,
+        error: 'Triage session not found',
+      };
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return {
+        success: false,
+        error: `Triage service error: ${response.status} - ${errorText}`,
+      };
+    }
+
+    const result = await response.json();
+    const triageSession: BackendTriageSession = result.data;
+
+    return {
+      success: true,
+      data: {
+        ...toHistoryItem(triageSession),
+        language: triageSession.language,
+        messages: triageSession.messages || [],
+        toolCalls: triageSession.toolCalls || [],
+        resourceReferences: triageSession.resources || [],
+      },
+    };
+  } catch (error) {
+    console.error('Get triage session error:', error);
+
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get triage session',
+    };
+  }
+}
+
 /**
  * Continue an existing triage conversation
  * @param threadId - Existing conversation thread ID
  * @param message - Follow-up message
+ * @param sessionId - Triage session the thread belongs to
+ * @param language - Language of the session
  * @returns Updated triage assessment
  */
 export async function continueTriageConversation(
   threadId: string,
-  message: string
+  message: string,
+  sessionId?: string,
+  language?: string
 ): Promise<ActionResult<TriageResponse>> {
   try {
     // Authenticate user
@@ -218,7 +415,7 @@ export async function continueTriageConversation(
 
     const patientId = session.user.id || 'unknown';
 
-    return submitSymptoms(message, threadId, patientId);
+    return submitSymptoms(message, threadId, patientId, sessionId, language);
   } catch (error) {
     console.error('Continue conversation error:', error);
 
@@ -230,14 +427,16 @@ export async function continueTriageConversation(
 }
 
 /**
- * Export triage assessment as PDF or other format
- * @param sessionId - Triage session ID
- * @param format - Export format (pdf, json, etc.)
- * @returns Export data or URL
+ * Export triage assessment as PDF or JSON
+ * @param sessionId - ID of the RiskAssessment produced by the triage session
+ * @param format - Export format (pdf, json)
+ * @param patientId - Patient the assessment belongs to, defaults to the signed-in user
+ * @returns Download URL
  */
 export async function exportTriageAssessment(
   sessionId: string,
-  format: 'pdf' | 'json' = 'json'
+  format: 'pdf' | 'json' = 'json',
+  patientId?: string
 ): Promise<ActionResult<{ url?: string; data?: any }>> {
   try {
     // Authenticate user
@@ -249,13 +448,13 @@ export async function exportTriageAssessment(
       };
     }
 
-    // TODO: Implement export functionality
-    // This would generate a PDF or return JSON data
-
+    // Served by app/api/export/triage/[file], which also enforces access
     return {
       success: true,
       data: {
-        url: `/api/export/triage/${sessionId}.${format}`,
+        url: `/api/export/triage/${encodeURIComponent(sessionId)}.${format}${
+          patientId ? `?patientId=${encodeURIComponent(patientId)}` : ''
+        }`,
       },
     };
   } catch (error) {
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Bearer tokens for the Azure Functions API
+ * @module lib/api-token
+ *
+ * The API only serves requests carrying a token it can verify. For the signed-in
+ * user, the server side of the app signs a short-lived HS256 token with the secret
+ * it shares with the Functions app (AUTH_JWT_SECRET). Uses Web Crypto so it also
+ * runs in the middleware. Never import this from client components.
+ */
+
+/** Must match WEB_APP_TOKEN_ISSUER in the Functions app */
+const TOKEN_ISSUER = 'lelink-web';
+const TOKEN_AUDIENCE = process.env.AUTH_AUDIENCE || 'lelink-api';
+const TOKEN_LIFETIME_SECONDS = 5 * 60;
+
+export interface ApiTokenUser {
+  id: string;
+  email?: string | null;
+  name?: string | null;
+}
+
+const encoder = new TextEncoder();
+
+function base64url(data: string | Uint8Array): string {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Sign an API token for a user. It carries no role: the API reads that from the user's FHIR profile.
+ */
+export async function createApiToken(user: ApiTokenUser): Promise<string> {
+  const secret = process.env.AUTH_JWT_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_JWT_SECRET is not set');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const claims = {
+    sub: user.id,
+    iss: TOKEN_ISSUER,
+    aud: TOKEN_AUDIENCE,
+    iat: now,
+    exp: now + TOKEN_LIFETIME_SECONDS,
+    ...(user.email && { email: user.email }),
+    ...(user.name && { name: user.name }),
+  };
+
+  const unsigned = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(claims))}`;
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(unsigned));
+
+  return `${unsigned}.${base64url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Authorization header for API requests made on behalf of a user.
+ * Empty when there is no user or no secret (an API with AUTH_DISABLED still answers).
+ */
+export async function apiAuthHeaders(user?: ApiTokenUser | null): Promise<Record<string, string>> {
+  if (!user?.id || !process.env.AUTH_JWT_SECRET) {
+    return {};
+  }
+  return { Authorization: `Bearer ${await createApiToken(user)}` };
+}
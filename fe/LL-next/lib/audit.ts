@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Sign-in events for the audit trail
+ * @module lib/audit
+ *
+ * Users sign in and out through this app rather than the API, so the server side
+ * reports those events to the Functions app, with the address the request came
+ * from. Reporting never fails the sign-in. Never import this from client components.
+ */
+
+import { headers } from 'next/headers';
+import { apiAuthHeaders, type ApiTokenUser } from '@/lib/api-token';
+import type { WebAuditAction } from '@/lib/types/audit';
+
+const AZURE_FUNCTIONS_URL = process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071';
+
+/**
+ * Address of the current request's client, if there is a request
+ */
+async function requestIp(): Promise<string | undefined> {
+  try {
+    const requestHeaders = await headers();
+    const forwarded = requestHeaders.get('x-forwarded-for')?.split(',')[0]?.trim();
+    return forwarded || requestHeaders.get('x-real-ip') || undefined;
+  } catch {
+    // Called outside a request
+    return undefined;
+  }
+}
+
+/**
+ * Record a sign-in event for `user` in the audit trail
+ */
+export async function reportAuditEvent(
+  user: ApiTokenUser,
+  action: WebAuditAction,
+  extra: { provider?: string } = {}
+): Promise<void> {
+  try {
+    const response = await fetch(`${AZURE_FUNCTIONS_URL}/api/audit/events`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await apiAuthHeaders(user)),
+      },
+      body: JSON.stringify({ action, ipAddress: await requestIp(), ...extra }),
+      cache: 'no-store',
+    });
+    if (!response.ok) {
+      throw new Error(`Audit service error: ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Report audit event error:', error);
+  }
+}
@@ -3,6 +3,9 @@ import AzureADB2CProvider, { AzureB2CProfile } from 'next-auth/providers/azure-a
 import GoogleProvider from 'next-auth/providers/google';
 import { getUserDetails } from '@/sevices/msGraph';
 import { BackgroundFHIRCreationService } from '@/lib/services/background-fhir-creation';
+import { apiAuthHeaders } from '@/lib/api-token';
+import { getRuntimeSettings } from '@/lib/settings';
+import { reportAuditEvent } from '@/lib/audit';
 
 // Extended user interface with all Azure AD fields
 interface ExtendedUser {
@@ -36,9 +39,17 @@ declare module 'next-auth/jwt' {
     accessToken?: string;
     error?: string;
     user?: ExtendedUser;
+    /** Last time the session was used (ms), for the idle timeout */
+    lastActivity?: number;
+    /** security.sessionTimeoutMinutes as of `sessionTimeoutCheckedAt` (ms) */
+    sessionTimeoutMinutes?: number;
+    sessionTimeoutCheckedAt?: number;
   }
 }
 
+/** How long the session timeout setting stored in the token is trusted before it is fetched again */
+const SESSION_TIMEOUT_REFRESH_MS = 5 * 60_000;
+
 if (!process.env.AUTH_SECRET) {
   throw new Error('Missing AUTH_SECRET environment variable');
 }
@@ -92,7 +103,8 @@ async function getRoleFromFHIR(userId: string): Promise<'Patient' | 'Practitione
   try {
     console.log('[AUTH_FHIR_FALLBACK] Checking FHIR role for user:', userId);
     const response = await fetch(
-      `${process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL}/api/fhir-storage/users/${userId}/role`
+      `${process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL}/api/fhir-storage/users/${userId}/role`,
+      { headers: await apiAuthHeaders({ id: userId }) }
     );
 
     if (response.ok) {
@@ -118,7 +130,8 @@ async function checkAndUpdateOnboardingStatus(user: ExtendedUser) {
 
     // Check by user ID first (most direct)
     const userResponse = await fetch(
-      `${process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL}/api/fhir-storage/patients/${user.id}/resources`
+      `${process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL}/api/fhir-storage/patients/${user.id}/resources`,
+      { headers: await apiAuthHeaders(user) }
     );
     if (userResponse.ok) {
       const userData = await userResponse.json();
@@ -151,7 +164,8 @@ async function checkAndUpdateOnboardingStatus(user: ExtendedUser) {
       const emailResponse = await fetch(
         `${process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL}/api/fhir-storage/users/by-email/${encodeURIComponent(
           user.email
-        )}`
+        )}`,
+        { headers: await apiAuthHeaders(user) }
       );
       if (emailResponse.ok) {
         const emailData = await emailResponse.json();
@@ -386,7 +400,8 @@ export const authOptions: NextAuthOptions = {
             const emailCheckResponse = await fetch(
               `${process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL}/api/fhir-storage/users/by-email/${encodeURIComponent(
                 enhancedUser.email
-              )}`
+              )}`,
+              { headers: await apiAuthHeaders(enhancedUser) }
             );
 
             if (emailCheckResponse.ok) {
@@ -431,6 +446,7 @@ export const authOptions: NextAuthOptions = {
                         method: 'POST',
                         headers: {
                           'Content-Type': 'application/json',
+                          ...(await apiAuthHeaders(enhancedUser)),
                         },
                         body: JSON.stringify({
                           system: 'http://lelink.healthcare/user-id',
@@ -524,14 +540,33 @@ export const authOptions: NextAuthOptions = {
           enhancedUser.needsOnboarding
         );
 
+        await reportAuditEvent(enhancedUser, 'auth.login', { provider: account.provider });
+
         return {
           ...token,
           accessToken: account.access_token,
           idToken: account.id_token,
           user: enhancedUser,
+          lastActivity: Date.now(),
         };
       }
 
+      // End sessions idle for longer than the security.sessionTimeoutMinutes setting,
+      // re-read from the API at most every SESSION_TIMEOUT_REFRESH_MS rather than on each request
+      if (token.user) {
+        if (!token.sessionTimeoutCheckedAt || Date.now() - token.sessionTimeoutCheckedAt > SESSION_TIMEOUT_REFRESH_MS) {
+          const { values } = await getRuntimeSettings(token.user);
+          token.sessionTimeoutMinutes = Number(values['security.sessionTimeoutMinutes']) || 0;
+          token.sessionTimeoutCheckedAt = Date.now();
+        }
+        const timeoutMinutes = token.sessionTimeoutMinutes || 0;
+        if (timeoutMinutes > 0 && token.lastActivity && Date.now() - token.lastActivity > timeoutMinutes * 60_000) {
+          await reportAuditEvent(token.user, 'auth.session_expired');
+          return { error: 'SessionExpired' };
+        }
+        token.lastActivity = Date.now();
+      }
+
       // For subsequent requests, check onboarding status for users who need it
       if (token.user && token.user.needsOnboarding) {
         console.log('[AUTH_DEBUG] Checking onboarding for user:', token.user.id);
@@ -589,11 +624,15 @@ export const authOptions: NextAuthOptions = {
     },
   },
   events: {
+    // Sign-ins are reported to the audit trail from the jwt callback, once the user is linked to their FHIR profile
     async signIn(message: any) {
       console.log('Sign-in event:', message);
     },
     async signOut(message: any) {
       console.log('Sign-out event:', message);
+      if (message.token?.user) {
+        await reportAuditEvent(message.token.user, 'auth.logout');
+      }
     },
   },
 
@@ -606,3 +645,6 @@ export const authOptions: NextAuthOptions = {
 
 export const getSession = () => getServerSession(authOptions);
 export const auth = () => getServerSession(authOptions);
+
+/** Authorization header for Azure Functions API calls made for the signed-in user */
+export const getApiAuthHeaders = async () => apiAuthHeaders((await auth())?.user);
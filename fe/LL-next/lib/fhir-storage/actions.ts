@@ -20,6 +20,8 @@ import {
   FHIRStorageResource,
   FHIRStorageAPIError,
   ResourceType,
+  SearchParams,
+  SearchResultsData,
 } from './types'
 
 // ===== INPUT VALIDATION SCHEMAS =====
@@ -41,6 +43,7 @@ function handleError(error: unknown, defaultMessage: string = 'An error occurred
       success: false,
       error: error.message,
       message: error.message,
+      code: error.code,
     }
   }
 
@@ -63,7 +66,7 @@ function handleError(error: unknown, defaultMessage: string = 'An error occurred
 /**
  * Check authentication
  */
-async function checkAuth(): Promise<{ success: boolean; userId?: string; error?: string }> {
+async function checkAuth(): Promise<{ success: boolean; userId?: string; role?: string; error?: string }> {
   try {
     console.log('🔐 [FHIR Storage Auth] Checking authentication...')
     
@@ -101,6 +104,7 @@ async function checkAuth(): Promise<{ success: boolean; userId?: string; error?:
     return {
       success: true,
       userId: session.user.id,
+      role: session.role || (session.user as { role?: string }).role,
     }
   } catch (error) {
     console.error('💥 [FHIR Storage Auth] Authentication error:', error)
@@ -199,7 +203,12 @@ export async function getPatientResources(patientId: string): Promise<ActionResu
     const apiUrl = `/patients/${encodeURIComponent(validatedPatientId)}/resources`
     console.log('🌐 [FHIR Storage] Making API call to:', apiUrl)
 
-    const response = await fhirStorageClient.get<PatientResourcesData>(apiUrl)
+    // Reading someone else's records requires a consent grant, enforced by the API
+    const isOtherPatient = validatedPatientId !== authResult.userId && authResult.role !== 'Admin'
+    const response = await fhirStorageClient.get<PatientResourcesData>(
+      apiUrl,
+      isOtherPatient ? { 'x-practitioner-id': authResult.userId! } : undefined
+    )
     
     console.log('📈 [FHIR Storage] getPatientResources API response:', {
       success: !!response.data,
@@ -262,6 +271,7 @@ export async function getSpecificResource(
     return {
       success: true,
       data: response.data,
+      etag: response.etag,
       message: 'Resource retrieved successfully',
     }
   } catch (error) {
@@ -269,6 +279,52 @@ export async function getSpecificResource(
   }
 }
 
+/**
+ * Save a changed resource. The write only succeeds if nobody else saved the
+ * resource since it was read; otherwise the result has code PRECONDITION_FAILED
+ * and the caller should reload it.
+ * @param etag - ETag returned when the resource was read; defaults to meta.versionId
+ */
+export async function updateResource(
+  patientId: string,
+  resource: FHIRStorageResource,
+  etag?: string
+): Promise<ActionResult<FHIRStorageResource>> {
+  try {
+    const authResult = await checkAuth()
+    if (!authResult.success) {
+      return {
+        success: false,
+        error: authResult.error,
+      }
+    }
+
+    const validatedPatientId = patientIdSchema.parse(patientId)
+    const validatedResourceType = resourceTypeSchema.parse(resource.resourceType)
+    const validatedResourceId = resourceIdSchema.parse(resource.id)
+
+    const ifMatch = etag || (resource.meta?.versionId ? `W/"${resource.meta.versionId}"` : undefined)
+
+    const response = await fhirStorageClient.put<FHIRStorageResource>(
+      `/resource/${encodeURIComponent(validatedPatientId)}/${encodeURIComponent(validatedResourceType)}/${encodeURIComponent(validatedResourceId)}`,
+      resource,
+      ifMatch ? { 'If-Match': ifMatch } : undefined
+    )
+
+    revalidatePath('/dashboard/records')
+    revalidatePath(`/dashboard/patients/${validatedPatientId}`)
+
+    return {
+      success: true,
+      data: response.data,
+      etag: response.etag,
+      message: 'Resource saved successfully',
+    }
+  } catch (error) {
+    return handleError(error, 'Failed to save resource')
+  }
+}
+
 /**
  * Get all resources of a specific type for a patient
  */
@@ -383,7 +439,56 @@ export async function getCurrentUserEncounters(): Promise<ActionResult<PatientRe
 }
 
 /**
- * Search for resources across multiple criteria (advanced function)
+ * FHIR search on the storage API (GET /fhir-storage/{resourceType}?...)
+ * @param resourceType - Omit to search several types through `_type`
+ * @param cursor - `nextCursor` of the previous page; omit for the first page
+ */
+export async function searchResources(
+  resourceType: ResourceType | undefined,
+  params: SearchParams = {},
+  cursor?: string
+): Promise<ActionResult<SearchResultsData>> {
+  try {
+    const authResult = await checkAuth()
+    if (!authResult.success) {
+      return {
+        success: false,
+        error: authResult.error,
+      }
+    }
+
+    const query = new URLSearchParams()
+    for (const [name, value] of Object.entries(params)) {
+      for (const item of Array.isArray(value) ? value : value ? [value] : []) {
+        query.append(name, item)
+      }
+    }
+    if (cursor) {
+      query.set('_cursor', cursor)
+    }
+
+    const endpoint = `${resourceType ? `/${resourceTypeSchema.parse(resourceType)}` : ''}?${query}`
+    const bundle = await fhirStorageClient.search(endpoint)
+
+    const next = bundle.link.find(link => link.relation === 'next')
+    const entries = bundle.entry || []
+
+    return {
+      success: true,
+      data: {
+        resources: entries.filter(entry => entry.search.mode === 'match').map(entry => entry.resource),
+        included: entries.filter(entry => entry.search.mode === 'include').map(entry => entry.resource),
+        total: bundle.total,
+        nextCursor: next ? new URL(next.url).searchParams.get('_cursor') || undefined : undefined,
+      },
+    }
+  } catch (error) {
+    return handleError(error, 'Failed to search resources')
+  }
+}
+
+/**
+ * Search a patient's resources, most recently updated first
  */
 export async function searchPatientResources(
   patientId: string,
@@ -400,59 +505,35 @@ export async function searchPatientResources(
   appliedFilters: Record<string, any>
 }>> {
   try {
-    const authResult = await checkAuth()
-    if (!authResult.success) {
-      return {
-        success: false,
-        error: authResult.error,
-      }
-    }
-
     // Validate input
     const validatedPatientId = patientIdSchema.parse(patientId)
 
-    // Get all resources for the patient
-    const allResourcesResult = await getPatientResources(validatedPatientId)
-    if (!allResourcesResult.success || !allResourcesResult.data) {
+    const result = await searchResources(undefined, {
+      patient: validatedPatientId,
+      _type: options.resourceTypes?.length ? options.resourceTypes.join(',') : undefined,
+      _lastUpdated: options.lastUpdatedAfter ? `gt${new Date(options.lastUpdatedAfter).toISOString()}` : undefined,
+      _sort: '-_lastUpdated',
+      _count: options.limit && options.limit > 0 ? String(options.limit) : undefined,
+    })
+    if (!result.success || !result.data) {
       return {
         success: false,
-        error: allResourcesResult.error || 'Failed to get patient resources',
+        error: result.error || 'Failed to search patient resources',
       }
     }
 
-    let filteredResources = allResourcesResult.data.resources
-
-    // Apply resource type filter
-    if (options.resourceTypes && options.resourceTypes.length > 0) {
-      filteredResources = filteredResources.filter(resource =>
-        options.resourceTypes!.includes((resource.resourceType || '') as ResourceType)
-      )
-    }
-
-    // Apply last updated filter
-    if (options.lastUpdatedAfter) {
-      const afterDate = new Date(options.lastUpdatedAfter)
-      filteredResources = filteredResources.filter(resource => {
-        if (!resource.meta?.lastUpdated) return false
-        return new Date(resource.meta.lastUpdated) > afterDate
-      })
-    }
-
-    // Apply limit
-    if (options.limit && options.limit > 0) {
-      filteredResources = filteredResources.slice(0, options.limit)
-    }
+    const { resources, total } = result.data
 
     return {
       success: true,
       data: {
         patientId: validatedPatientId,
-        resources: filteredResources,
-        totalCount: allResourcesResult.data.totalCount,
-        filteredCount: filteredResources.length,
+        resources,
+        totalCount: total ?? resources.length,
+        filteredCount: resources.length,
         appliedFilters: options,
       },
-      message: `Found ${filteredResources.length} resources matching criteria`,
+      message: `Found ${resources.length} resources matching criteria`,
     }
   } catch (error) {
     return handleError(error, 'Failed to search patient resources')
@@ -460,12 +541,14 @@ export async function searchPatientResources(
 }
 
 /**
- * Get all users in the system (for practitioners)
+ * Get a page of users (for practitioners)
+ * @param cursor - `pagination.nextCursor` of the previous page; omit for the first page
+ * @param search - Email address or the start of a name
  */
 export async function getAllUsers(
-  page: number = 1,
   limit: number = 10,
-  search?: string
+  search?: string,
+  cursor?: string
 ): Promise<ActionResult<{
   users: Array<{
     id: string
@@ -476,17 +559,12 @@ export async function getAllUsers(
     resourceCount: number
   }>
   pagination: {
-    page: number
     limit: number
-    total: number
-    totalPages: number
+    nextCursor: string | null
     hasNext: boolean
-    hasPrev: boolean
   }
 }>> {
   try {
-    console.log('👥 [FHIR Storage] getAllUsers called', { page, limit, search })
-    
     const authResult = await checkAuth()
     if (!authResult.success) {
       return {
@@ -497,7 +575,6 @@ export async function getAllUsers(
 
     // Build query parameters
     const params = new URLSearchParams({
-      page: page.toString(),
       limit: limit.toString(),
     })
     
@@ -505,6 +582,10 @@ export async function getAllUsers(
       params.append('search', search)
     }
 
+    if (cursor) {
+      params.append('cursor', cursor)
+    }
+
     const response = await fhirStorageClient.get<{
       users: Array<{
         id: string
@@ -515,21 +596,12 @@ export async function getAllUsers(
         resourceCount: number
       }>
       pagination: {
-        page: number
         limit: number
-        total: number
-        totalPages: number
+        nextCursor: string | null
         hasNext: boolean
-        hasPrev: boolean
       }
     }>(`/users?${params.toString()}`)
     
-    console.log('👥 [FHIR Storage] getAllUsers response:', {
-      userCount: response.data?.users?.length,
-      total: response.data?.pagination?.total,
-      page: response.data?.pagination?.page
-    })
-    
     return {
       success: true,
       data: response.data,
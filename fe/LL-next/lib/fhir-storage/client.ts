@@ -5,7 +5,14 @@
  * HTTP client for FHIR Storage API with retry logic and error handling
  */
 
-import { APIResponse, FHIRStorageConfig, FHIRStorageAPIError, DEFAULT_CONFIG } from './types'
+import {
+  APIResponse,
+  FHIRStorageConfig,
+  FHIRStorageAPIError,
+  DEFAULT_CONFIG,
+  SearchsetBundle,
+  CONFLICT_ERROR_CODE,
+} from './types'
 
 export class FHIRStorageClient {
   private config: FHIRStorageConfig
@@ -30,8 +37,12 @@ export class FHIRStorageClient {
       headersCount: Object.keys(options.headers || {}).length
     })
     
+    // Server-side requests act as the signed-in user; the browser never holds the API secret
+    const authHeaders =
+      typeof window === 'undefined' ? await (await import('@/lib/auth')).getApiAuthHeaders() : {}
+
     let lastError: Error | null = null
-    const maxRetries = this.config.retries || 2
+    const maxRetries = this.config.retries ?? 2
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
@@ -57,6 +68,7 @@ export class FHIRStorageClient {
           signal: controller.signal,
           headers: {
             'Content-Type': 'application/json',
+            ...authHeaders,
             ...options.headers,
           },
         })
@@ -70,17 +82,38 @@ export class FHIRStorageClient {
           contentType: response.headers.get('content-type')
         })
 
+        if (response.status === 412) {
+          // Someone else saved the resource since it was read; retrying would fail the same way
+          const body = await response.json().catch(() => null)
+          throw new FHIRStorageAPIError(
+            'This record was changed by someone else since you opened it. Reload it to see the latest version, then make your changes again.',
+            CONFLICT_ERROR_CODE,
+            {
+              status: response.status,
+              reason: body?.message,
+              currentVersionId: body?.error?.currentVersionId,
+              etag: response.headers.get('etag') || undefined,
+            }
+          )
+        }
+
         if (!response.ok) {
-          const errorMsg = `HTTP ${response.status}: ${response.statusText}`
+          // The API explains errors in the response envelope, some with details (e.g. an import report)
+          const body = await response.json().catch(() => null)
+          const errorMsg = body?.message || `HTTP ${response.status}: ${response.statusText}`
           console.error(`❌ [FHIR Client] HTTP error for ${url}:`, errorMsg)
           throw new FHIRStorageAPIError(
             errorMsg,
             'HTTP_ERROR',
-            { status: response.status, statusText: response.statusText }
+            { status: response.status, statusText: response.statusText, response: body }
           )
         }
 
         const data: APIResponse<T> = await response.json()
+        const etag = response.headers.get('etag')
+        if (etag) {
+          data.etag = etag
+        }
         
         console.log(`📊 [FHIR Client] Parsed response data:`, {
           success: data.success,
@@ -131,8 +164,16 @@ export class FHIRStorageClient {
   /**
    * GET request
    */
-  async get<T>(endpoint: string): Promise<APIResponse<T>> {
-    return this.makeRequest<T>(endpoint, { method: 'GET' })
+  async get<T>(endpoint: string, headers?: Record<string, string>): Promise<APIResponse<T>> {
+    return this.makeRequest<T>(endpoint, { method: 'GET', headers })
+  }
+
+  /**
+   * FHIR search; the API answers with a searchset Bundle rather than the usual envelope
+   */
+  async search(endpoint: string): Promise<SearchsetBundle> {
+    const bundle = await this.makeRequest<never>(endpoint, { method: 'GET' })
+    return bundle as unknown as SearchsetBundle
   }
 
   /**
@@ -148,10 +189,11 @@ export class FHIRStorageClient {
   /**
    * PUT request
    */
-  async put<T>(endpoint: string, data?: any): Promise<APIResponse<T>> {
+  async put<T>(endpoint: string, data?: any, headers?: Record<string, string>): Promise<APIResponse<T>> {
     return this.makeRequest<T>(endpoint, {
       method: 'PUT',
       body: data ? JSON.stringify(data) : undefined,
+      headers,
     })
   }
 
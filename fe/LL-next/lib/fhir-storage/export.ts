@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Patient record export helpers
+ * @module lib/fhir-storage/export
+ *
+ * Server-side helpers shared by the /api/export routes. Exports are binary or
+ * file downloads, so they bypass the JSON-only FHIRStorageClient and proxy the
+ * backend response as-is.
+ */
+
+import type { Session } from 'next-auth'
+import { DEFAULT_CONFIG } from './types'
+import { getApiAuthHeaders } from '@/lib/auth'
+
+export type RecordExportFormat = 'fhir' | 'json' | 'pdf'
+
+export const RECORD_EXPORT_FORMATS: RecordExportFormat[] = ['fhir', 'json', 'pdf']
+
+export interface RecordExportOptions {
+  bundleType?: 'collection' | 'searchset'
+  ids?: string[]
+  types?: string[]
+  fileName?: string
+}
+
+/**
+ * Split an export file name such as `patient-123.pdf` into its ID and format
+ */
+export function parseExportFileName<F extends string>(
+  file: string,
+  formats: readonly F[]
+): { id: string; format: F } | null {
+  const dot = file.lastIndexOf('.')
+  if (dot <= 0) return null
+
+  const id = decodeURIComponent(file.slice(0, dot))
+  const format = file.slice(dot + 1) as F
+  if (!formats.includes(format)) return null
+
+  return { id, format }
+}
+
+/**
+ * Patients may only export their own records; practitioners and admins any patient's
+ */
+export function canExportPatient(session: Session, patientId: string): boolean {
+  if (session.user.id === patientId) return true
+
+  const role = session.role || (session.user as { role?: string }).role
+  return role === 'Practitioner' || role === 'Admin'
+}
+
+/**
+ * Fetch a patient export from the FHIR storage API and relay it as a download
+ */
+export async function fetchPatientExport(
+  patientId: string,
+  format: RecordExportFormat,
+  options: RecordExportOptions = {}
+): Promise<Response> {
+  const query = new URLSearchParams({ format })
+  if (options.bundleType) query.set('bundleType', options.bundleType)
+  if (options.ids?.length) query.set('ids', options.ids.join(','))
+  if (options.types?.length) query.set('types', options.types.join(','))
+
+  const response = await fetch(
+    `${DEFAULT_CONFIG.baseURL}/patients/${encodeURIComponent(patientId)}/export?${query}`,
+    {
+      headers: {
+        ...(process.env.AZURE_FUNCTIONS_API_KEY && {
+          'x-api-key': process.env.AZURE_FUNCTIONS_API_KEY,
+        }),
+        ...(await getApiAuthHeaders()),
+      },
+      cache: 'no-store',
+    }
+  )
+
+  if (!response.ok) {
+    let message = `Export failed with status ${response.status}`
+    try {
+      const body = await response.json()
+      message = body.message || message
+    } catch {
+      // Non-JSON error body, keep the generic message
+    }
+    return Response.json({ error: message }, { status: response.status })
+  }
+
+  const headers = new Headers({
+    'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+    'Cache-Control': 'no-store',
+  })
+  const disposition = options.fileName
+    ? `attachment; filename="${options.fileName}"`
+    : response.headers.get('Content-Disposition')
+  if (disposition) headers.set('Content-Disposition', disposition)
+
+  return new Response(await response.arrayBuffer(), { status: 200, headers })
+}
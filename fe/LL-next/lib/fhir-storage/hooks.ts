@@ -16,6 +16,7 @@ import {
   ResourceType,
   HealthCheckData,
   PatientsData,
+  SearchResultsData,
 } from './types'
 import {
   checkFHIRStorageHealth,
@@ -24,6 +25,7 @@ import {
   getCurrentUserResourcesByType,
   getPatientResources,
   getPatientResourcesByType,
+  searchResources,
 } from './actions'
 
 // ===== HOOK STATE TYPES =====
@@ -181,113 +183,58 @@ export function useCurrentUserEncounters() {
 // ===== DERIVED STATE HOOKS =====
 
 /**
- * Hook for filtered and sorted resources
+ * Hook for a patient's resources filtered and sorted by the storage API's FHIR search
+ * @param cursor - `nextCursor` of the page before; omit for the first page
  */
 export function useFilteredResources(
-  resources: FHIRStorageResource[] | null,
+  patientId: string | null,
   options: {
-    search?: string
     resourceTypes?: ResourceType[]
     statuses?: string[]
     startDate?: Date
     endDate?: Date
-    sortBy?: 'date' | 'type' | 'name'
     sortOrder?: 'asc' | 'desc'
+    limit?: number
+    cursor?: string
   } = {}
 ) {
-  const [filteredData, setFilteredData] = useState<{
-    resources: FHIRStorageResource[]
-    totalCount: number
-    filteredCount: number
-  }>({
-    resources: [],
-    totalCount: 0,
-    filteredCount: 0,
-  })
-
-  useEffect(() => {
-    if (!resources) {
-      setFilteredData({
-        resources: [],
-        totalCount: 0,
-        filteredCount: 0,
-      })
-      return
-    }
-
-    let filtered = [...resources]
-    const totalCount = resources.length
+  const { resourceTypes, statuses, startDate, endDate, sortOrder, limit, cursor } = options
 
-    // Apply filters
-    if (options.resourceTypes && options.resourceTypes.length > 0) {
-      filtered = filtered.filter(resource =>
-        options.resourceTypes!.includes(resource.resourceType as ResourceType)
-      )
-    }
+  return useAsyncAction<SearchResultsData>(
+    async () => {
+      if (!patientId) {
+        return { success: true, data: { resources: [], included: [] } }
+      }
 
-    if (options.statuses && options.statuses.length > 0) {
-      filtered = filtered.filter(resource =>
-        resource.status && options.statuses!.includes(resource.status)
+      const lastUpdated = [
+        ...(startDate ? [`ge${startDate.toISOString()}`] : []),
+        ...(endDate ? [`le${endDate.toISOString()}`] : []),
+      ]
+
+      return searchResources(
+        undefined,
+        {
+          patient: patientId,
+          _type: resourceTypes?.length ? resourceTypes.join(',') : undefined,
+          status: statuses?.length ? statuses.join(',') : undefined,
+          _lastUpdated: lastUpdated,
+          _sort: sortOrder === 'asc' ? '_lastUpdated' : '-_lastUpdated',
+          _count: limit ? String(limit) : undefined,
+        },
+        cursor
       )
-    }
-
-    if (options.search) {
-      const searchTerm = options.search.toLowerCase()
-      filtered = filtered.filter(resource => {
-        const searchableText = [
-          resource.resourceType,
-          resource.id,
-          // Add more searchable fields as needed
-        ].join(' ').toLowerCase()
-        
-        return searchableText.includes(searchTerm)
-      })
-    }
-
-    if (options.startDate || options.endDate) {
-      filtered = filtered.filter(resource => {
-        const resourceDate = resource.meta?.lastUpdated
-        if (!resourceDate) return false
-        
-        const date = new Date(resourceDate)
-        if (options.startDate && date < options.startDate) return false
-        if (options.endDate && date > options.endDate) return false
-        
-        return true
-      })
-    }
-
-    // Apply sorting
-    if (options.sortBy) {
-      filtered.sort((a, b) => {
-        let comparison = 0
-        
-        switch (options.sortBy) {
-          case 'date':
-            const dateA = a.meta?.lastUpdated || ''
-            const dateB = b.meta?.lastUpdated || ''
-            comparison = dateB.localeCompare(dateA)
-            break
-          case 'type':
-            comparison = a.resourceType.localeCompare(b.resourceType)
-            break
-          case 'name':
-            comparison = (a.id || '').localeCompare(b.id || '')
-            break
-        }
-        
-        return options.sortOrder === 'asc' ? comparison : -comparison
-      })
-    }
-
-    setFilteredData({
-      resources: filtered,
-      totalCount,
-      filteredCount: filtered.length,
-    })
-  }, [resources, options])
-
-  return filteredData
+    },
+    [
+      patientId,
+      resourceTypes?.join(','),
+      statuses?.join(','),
+      startDate?.getTime(),
+      endDate?.getTime(),
+      sortOrder,
+      limit,
+      cursor,
+    ]
+  )
 }
 
 // ===== UTILITY HOOKS =====
@@ -23,6 +23,8 @@ export interface APIResponse<T = any> {
   error?: string;
   message: string;
   timestamp: string;
+  /** Version ETag (W/"3") of the resource in the response, for If-Match on the next write */
+  etag?: string;
 }
 
 // ===== FHIR STORAGE SPECIFIC TYPES =====
@@ -38,6 +40,7 @@ export interface FHIRStorageResource extends BaseFhirResource {
     value: string;
   }>;
   meta?: {
+    versionId?: string;
     lastUpdated?: string;
     source?: string;
     profile?: string[];
@@ -78,6 +81,89 @@ export interface PatientResourcesByTypeData {
   availableResourceTypes: string[];
 }
 
+export type ConsentGrantStatus = 'active' | 'expired' | 'revoked';
+
+export interface ConsentGrantData {
+  consentId: string;
+  patientId: string;
+  practitionerId: string;
+  resources: string[];
+  grantedAt: string;
+  expiresAt: string;
+  status: ConsentGrantStatus;
+  revokedAt?: string;
+  purpose?: string;
+  blockchain?: {
+    shareTransactions: string[];
+    revokeTransactions: string[];
+  };
+}
+
+export type ImportEntryStatus = 'imported' | 'failed' | 'skipped';
+
+export interface ImportEntryOutcome {
+  index: number;
+  fullUrl?: string;
+  resourceType?: string;
+  sourceId?: string;
+  resourceId?: string;
+  status: ImportEntryStatus;
+  errors: string[];
+  storage?: {
+    blobName?: string;
+    etag?: string;
+  };
+  blockchain?: {
+    dataHash: string;
+    transactionHash: string;
+    blockNumber: number;
+  };
+}
+
+export interface ImportReportData {
+  bundleType: 'batch' | 'transaction';
+  patientId: string;
+  total: number;
+  imported: number;
+  failed: number;
+  skipped: number;
+  rolledBack: boolean;
+  /** A transaction failed and some of its entries could not be removed again; those are still `imported` */
+  rollbackFailed?: boolean;
+  anchored: boolean;
+  anchorError?: string;
+  entries: ImportEntryOutcome[];
+}
+
+export interface SearchsetBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'searchset';
+  timestamp: string;
+  /** Only known for sorted searches */
+  total?: number;
+  link: Array<{ relation: 'self' | 'next'; url: string }>;
+  entry: Array<{
+    fullUrl: string;
+    resource: FHIRStorageResource;
+    search: { mode: 'match' | 'include' };
+  }>;
+}
+
+/**
+ * FHIR search parameters (subject, code, status, date, _lastUpdated, _type, _sort, _count, _include)
+ */
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+export interface SearchResultsData {
+  resources: FHIRStorageResource[];
+  /** Resources added by _include (the subject patients) */
+  included: FHIRStorageResource[];
+  total?: number;
+  /** Pass back to get the next page; absent on the last page */
+  nextCursor?: string;
+}
+
 // ===== ACTION RESULT TYPES =====
 
 export interface ActionResult<T = any> {
@@ -85,6 +171,10 @@ export interface ActionResult<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  /** FHIRStorageAPIError code, e.g. PRECONDITION_FAILED when someone else changed the resource */
+  code?: string;
+  /** Version ETag of a single resource result; send it back as the etag of updateResource */
+  etag?: string;
 }
 
 // ===== FHIR RESOURCE TYPES (Extended) =====
@@ -157,6 +247,13 @@ export interface RiskAssessmentResource extends FHIRStorageResource {
     reference: string;
     display: string;
   };
+  extension?: Array<{
+    url: string;
+    extension?: Array<{
+      url: string;
+      valueCode?: string;
+    }>;
+  }>;
 }
 
 export interface PatientResource extends FHIRStorageResource {
@@ -248,6 +345,9 @@ export interface FHIRStorageError {
   details?: Record<string, any>;
 }
 
+/** Code of the error thrown when a write is rejected because the resource changed (HTTP 412) */
+export const CONFLICT_ERROR_CODE = 'PRECONDITION_FAILED';
+
 export class FHIRStorageAPIError extends Error {
   public readonly code: string;
   public readonly details?: Record<string, any>;
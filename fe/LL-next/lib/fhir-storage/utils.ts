@@ -178,6 +178,7 @@ export function getRiskLevel(resource: RiskAssessmentResource): {
 
   const riskMap: Record<string, { label: string; variant: any }> = {
     high: { label: 'High Risk', variant: 'destructive' },
+    moderate: { label: 'Moderate Risk', variant: 'secondary' },
     medium: { label: 'Medium Risk', variant: 'secondary' },
     low: { label: 'Low Risk', variant: 'default' },
     unknown: { label: 'Unknown Risk', variant: 'outline' },
@@ -189,6 +190,40 @@ export function getRiskLevel(resource: RiskAssessmentResource): {
   }
 }
 
+const ACUITY_CODE_SYSTEMS: Record<string, 'esi' | 'manchester'> = {
+  'http://lelink.health/fhir/CodeSystem/triage-acuity-esi': 'esi',
+  'http://lelink.health/fhir/CodeSystem/triage-acuity-manchester': 'manchester',
+}
+
+const ACUITY_DISAGREEMENT_EXTENSION_URL = 'http://lelink.health/fhir/StructureDefinition/triage-acuity-disagreement'
+
+/**
+ * Get the deterministic acuity score (ESI 1-5 or Manchester category) from a RiskAssessment,
+ * and whether the AI risk level disagrees with it
+ */
+export function getAcuity(resource: RiskAssessmentResource): {
+  scale: 'esi' | 'manchester'
+  level: number
+  label: string
+  disagreement: boolean
+} | null {
+  for (const prediction of resource.prediction || []) {
+    const coding = prediction.outcome?.coding?.find((candidate) => ACUITY_CODE_SYSTEMS[candidate.system])
+    if (coding) {
+      const scale = ACUITY_CODE_SYSTEMS[coding.system]
+      return {
+        scale,
+        level: Number(coding.code),
+        label: `${scale === 'esi' ? 'ESI' : 'Manchester'} ${coding.code}`,
+        disagreement: (resource.extension || []).some(
+          (extension) => extension.url === ACUITY_DISAGREEMENT_EXTENSION_URL
+        ),
+      }
+    }
+  }
+  return null
+}
+
 /**
  * Get observation value as string
  */
@@ -1,5 +1,55 @@
-import crypto from "crypto";
+import { ethers } from "ethers";
 
-export function generateHash(data: any): string {
-  return crypto.createHash("sha256").update(JSON.stringify(data)).digest("hex");
+/**
+ * Canonical FHIR resource hashing.
+ *
+ * Resources are hashed as canonical JSON: object keys sorted, undefined values
+ * dropped, and meta fields that change on every write removed. The digest is
+ * keccak256, the same bytes32 the LeLink contract stores.
+ *
+ * Keep in sync with az/api/src/utils/canonicalHash.ts - a resource hashed by
+ * either side must produce the same digest.
+ */
+
+/** Meta fields stamped by storage after a resource is anchored */
+export const VOLATILE_META_FIELDS = ["versionId", "lastUpdated", "source", "environment"] as const;
+
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? "null" : canonicalJson(item))).join(",")}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  const entries = Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+
+  return `{${entries.join(",")}}`;
+}
+
+/** Canonical JSON form of a FHIR resource, without volatile meta fields */
+export function canonicalizeResource(resource: Record<string, any>): string {
+  const { meta, ...rest } = resource;
+
+  if (meta && typeof meta === "object") {
+    const stableMeta = { ...meta };
+    for (const field of VOLATILE_META_FIELDS) {
+      delete stableMeta[field];
+    }
+    if (Object.keys(stableMeta).length > 0) {
+      return canonicalJson({ ...rest, meta: stableMeta });
+    }
+  }
+
+  return canonicalJson(rest);
+}
+
+/** keccak256 digest of a resource's canonical JSON, as a 0x-prefixed bytes32 hex string */
+export function hashResource(resource: Record<string, any>): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalizeResource(resource)));
 }
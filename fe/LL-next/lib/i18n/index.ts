@@ -0,0 +1,45 @@
+/**
+ * Minimal i18n for the triage chat: the languages patients can pick, their
+ * text direction, and a `t` function over the strings in ./messages.
+ */
+
+import { messages } from './messages';
+
+export type UILanguage = keyof typeof messages;
+export type MessageKey = keyof (typeof messages)['en'];
+export type Translate = (key: MessageKey, params?: Record<string, string>) => string;
+
+/** Languages of the triage UI, by their own name */
+export const UI_LANGUAGES: Array<{ code: UILanguage; label: string; dir: 'ltr' | 'rtl' }> = [
+  { code: 'en', label: 'English', dir: 'ltr' },
+  { code: 'es', label: 'Español', dir: 'ltr' },
+  { code: 'fr', label: 'Français', dir: 'ltr' },
+  { code: 'de', label: 'Deutsch', dir: 'ltr' },
+  { code: 'zh', label: '中文', dir: 'ltr' },
+  { code: 'ar', label: 'العربية', dir: 'rtl' },
+  { code: 'uk', label: 'Українська', dir: 'ltr' },
+  { code: 'fa', label: 'فارسی', dir: 'rtl' },
+];
+
+export const DEFAULT_UI_LANGUAGE: UILanguage = 'en';
+
+/**
+ * The UI language for a language tag ("fr-CA" -> "fr"), or undefined if the UI is not translated to it
+ */
+export function toUILanguage(tag?: string | null): UILanguage | undefined {
+  const primary = (tag || '').toLowerCase().split(/[-_]/)[0];
+  return UI_LANGUAGES.find((language) => language.code === primary)?.code;
+}
+
+export function textDirection(language: UILanguage): 'ltr' | 'rtl' {
+  return UI_LANGUAGES.find((entry) => entry.code === language)?.dir || 'ltr';
+}
+
+/**
+ * `t` for a language; missing strings fall back to English, and {name} placeholders are filled from params
+ */
+export function getTranslate(language: UILanguage): Translate {
+  const strings: Partial<Record<MessageKey, string>> = messages[language];
+  return (key, params = {}) =>
+    (strings[key] || messages.en[key]).replace(/\{(\w+)\}/g, (placeholder, name) => params[name] ?? placeholder);
+}
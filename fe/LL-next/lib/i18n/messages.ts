@@ -0,0 +1,127 @@
+/**
+ * UI strings of the triage chat, by language. English is complete; other
+ * languages fall back to it for any missing key.
+ */
+
+export const messages = {
+  en: {
+    'triage.title': 'Medical Triage Assistant',
+    'triage.welcome':
+      "Hello! I'm your AI medical assistant. Please describe your symptoms, and I'll help assess your condition. Remember, this is for informational purposes only and doesn't replace professional medical advice.",
+    'triage.welcomeTitle': 'Welcome to Medical Triage',
+    'triage.welcomeText':
+      "I'm here to help assess your symptoms and provide guidance. Please describe what you're experiencing.",
+    'triage.placeholder': 'Describe your symptoms...',
+    'triage.session': 'Session: {id}',
+    'triage.language': 'Language',
+    'triage.fallbackReply': 'I received your message. Let me help you with that.',
+    'triage.errorReply':
+      "I'm sorry, I encountered an error while processing your request. Please try again or contact support if the issue persists.",
+    'triage.unexpectedError': 'An unexpected error occurred',
+    'triage.loadSessionError': 'Failed to load triage session',
+  },
+  es: {
+    'triage.title': 'Asistente de triaje médico',
+    'triage.welcome':
+      '¡Hola! Soy su asistente médico con IA. Describa sus síntomas y le ayudaré a valorar su estado. Recuerde que esto es solo informativo y no sustituye el consejo de un profesional médico.',
+    'triage.welcomeTitle': 'Bienvenido al triaje médico',
+    'triage.welcomeText': 'Estoy aquí para ayudarle a valorar sus síntomas y orientarle. Describa lo que le ocurre.',
+    'triage.placeholder': 'Describa sus síntomas...',
+    'triage.session': 'Sesión: {id}',
+    'triage.language': 'Idioma',
+    'triage.fallbackReply': 'He recibido su mensaje. Déjeme ayudarle con eso.',
+    'triage.errorReply':
+      'Lo siento, se produjo un error al procesar su solicitud. Inténtelo de nuevo o contacte con soporte si el problema continúa.',
+    'triage.unexpectedError': 'Se produjo un error inesperado',
+    'triage.loadSessionError': 'No se pudo cargar la sesión de triaje',
+  },
+  fr: {
+    'triage.title': 'Assistant de triage médical',
+    'triage.welcome':
+      "Bonjour ! Je suis votre assistant médical IA. Décrivez vos symptômes et je vous aiderai à évaluer votre état. Ces informations sont données à titre indicatif et ne remplacent pas l'avis d'un professionnel de santé.",
+    'triage.welcomeTitle': 'Bienvenue dans le triage médical',
+    'triage.welcomeText': 'Je suis là pour évaluer vos symptômes et vous orienter. Décrivez ce que vous ressentez.',
+    'triage.placeholder': 'Décrivez vos symptômes...',
+    'triage.session': 'Session : {id}',
+    'triage.language': 'Langue',
+    'triage.fallbackReply': "J'ai bien reçu votre message. Je vais vous aider.",
+    'triage.errorReply':
+      "Désolé, une erreur s'est produite lors du traitement de votre demande. Réessayez ou contactez le support si le problème persiste.",
+    'triage.unexpectedError': "Une erreur inattendue s'est produite",
+    'triage.loadSessionError': 'Impossible de charger la session de triage',
+  },
+  de: {
+    'triage.title': 'Medizinischer Triage-Assistent',
+    'triage.welcome':
+      'Hallo! Ich bin Ihr KI-gestützter medizinischer Assistent. Beschreiben Sie bitte Ihre Symptome, und ich helfe Ihnen, Ihren Zustand einzuschätzen. Dies dient nur zur Information und ersetzt keine ärztliche Beratung.',
+    'triage.welcomeTitle': 'Willkommen bei der medizinischen Triage',
+    'triage.welcomeText':
+      'Ich helfe Ihnen, Ihre Symptome einzuschätzen, und gebe Ihnen eine Orientierung. Beschreiben Sie bitte, was Sie haben.',
+    'triage.placeholder': 'Beschreiben Sie Ihre Symptome...',
+    'triage.session': 'Sitzung: {id}',
+    'triage.language': 'Sprache',
+    'triage.fallbackReply': 'Ich habe Ihre Nachricht erhalten. Ich helfe Ihnen gern weiter.',
+    'triage.errorReply':
+      'Entschuldigung, bei der Verarbeitung Ihrer Anfrage ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut oder wenden Sie sich an den Support, wenn das Problem bestehen bleibt.',
+    'triage.unexpectedError': 'Ein unerwarteter Fehler ist aufgetreten',
+    'triage.loadSessionError': 'Die Triage-Sitzung konnte nicht geladen werden',
+  },
+  zh: {
+    'triage.title': '医疗分诊助手',
+    'triage.welcome':
+      '您好！我是您的 AI 医疗助手。请描述您的症状，我会帮助评估您的情况。请注意，这仅供参考，不能替代专业医疗建议。',
+    'triage.welcomeTitle': '欢迎使用医疗分诊',
+    'triage.welcomeText': '我会帮助评估您的症状并提供指导。请描述您的不适。',
+    'triage.placeholder': '请描述您的症状...',
+    'triage.session': '会话：{id}',
+    'triage.language': '语言',
+    'triage.fallbackReply': '已收到您的消息，我来帮您。',
+    'triage.errorReply': '抱歉，处理您的请求时出错。请重试，如果问题仍然存在，请联系支持人员。',
+    'triage.unexpectedError': '发生意外错误',
+    'triage.loadSessionError': '无法加载分诊会话',
+  },
+  ar: {
+    'triage.title': 'مساعد الفرز الطبي',
+    'triage.welcome':
+      'مرحبًا! أنا مساعدك الطبي بالذكاء الاصطناعي. يُرجى وصف أعراضك وسأساعدك في تقييم حالتك. تذكّر أن هذه المعلومات للاطلاع فقط ولا تغني عن استشارة طبية متخصصة.',
+    'triage.welcomeTitle': 'مرحبًا بك في الفرز الطبي',
+    'triage.welcomeText': 'أنا هنا لمساعدتك في تقييم أعراضك وتوجيهك. يُرجى وصف ما تشعر به.',
+    'triage.placeholder': 'صف أعراضك...',
+    'triage.session': 'الجلسة: {id}',
+    'triage.language': 'اللغة',
+    'triage.fallbackReply': 'تلقيت رسالتك. دعني أساعدك في ذلك.',
+    'triage.errorReply': 'عذرًا، حدث خطأ أثناء معالجة طلبك. يُرجى المحاولة مرة أخرى أو التواصل مع الدعم إذا استمرت المشكلة.',
+    'triage.unexpectedError': 'حدث خطأ غير متوقع',
+    'triage.loadSessionError': 'تعذّر تحميل جلسة الفرز',
+  },
+  uk: {
+    'triage.title': 'Медичний асистент тріажу',
+    'triage.welcome':
+      'Вітаю! Я ваш медичний асистент зі штучним інтелектом. Опишіть, будь ласка, свої симптоми, і я допоможу оцінити ваш стан. Пам’ятайте, що це лише довідкова інформація, яка не замінює консультації лікаря.',
+    'triage.welcomeTitle': 'Ласкаво просимо до медичного тріажу',
+    'triage.welcomeText': 'Я допоможу оцінити ваші симптоми та підкажу, що робити далі. Опишіть, що вас турбує.',
+    'triage.placeholder': 'Опишіть свої симптоми...',
+    'triage.session': 'Сесія: {id}',
+    'triage.language': 'Мова',
+    'triage.fallbackReply': 'Я отримав ваше повідомлення. Дозвольте вам допомогти.',
+    'triage.errorReply':
+      'Вибачте, під час обробки вашого запиту сталася помилка. Спробуйте ще раз або зверніться до служби підтримки, якщо проблема не зникне.',
+    'triage.unexpectedError': 'Сталася неочікувана помилка',
+    'triage.loadSessionError': 'Не вдалося завантажити сесію тріажу',
+  },
+  fa: {
+    'triage.title': 'دستیار تریاژ پزشکی',
+    'triage.welcome':
+      'سلام! من دستیار پزشکی هوش مصنوعی شما هستم. لطفاً علائم خود را شرح دهید تا در ارزیابی وضعیتتان کمک کنم. به یاد داشته باشید که این اطلاعات فقط جنبهٔ آگاهی‌بخشی دارد و جایگزین مشاورهٔ پزشک نیست.',
+    'triage.welcomeTitle': 'به تریاژ پزشکی خوش آمدید',
+    'triage.welcomeText': 'اینجا هستم تا علائم شما را ارزیابی کنم و راهنمایی‌تان کنم. لطفاً بگویید چه احساسی دارید.',
+    'triage.placeholder': 'علائم خود را شرح دهید...',
+    'triage.session': 'جلسه: {id}',
+    'triage.language': 'زبان',
+    'triage.fallbackReply': 'پیام شما را دریافت کردم. اجازه دهید کمکتان کنم.',
+    'triage.errorReply':
+      'متأسفیم، هنگام پردازش درخواست شما خطایی رخ داد. لطفاً دوباره تلاش کنید یا اگر مشکل ادامه داشت با پشتیبانی تماس بگیرید.',
+    'triage.unexpectedError': 'خطای غیرمنتظره‌ای رخ داد',
+    'triage.loadSessionError': 'بارگیری جلسهٔ تریاژ ممکن نشد',
+  },
+} satisfies Record<string, Record<string, string>>;
@@ -342,6 +342,19 @@ export const LeLinkAbi = [
     name: 'Unpaused',
     type: 'event',
   },
+  {
+    inputs: [],
+    name: 'HASH_FORMAT_VERSION',
+    outputs: [
+      {
+        internalType: 'uint8',
+        name: '',
+        type: 'uint8',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [
       {
@@ -350,9 +363,9 @@ export const LeLinkAbi = [
         type: 'string',
       },
       {
-        internalType: 'string',
-        name: '_dataHashStr',
-        type: 'string',
+        internalType: 'bytes32',
+        name: '_dataHash',
+        type: 'bytes32',
       },
       {
         internalType: 'address',
@@ -365,6 +378,29 @@ export const LeLinkAbi = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      {
+        internalType: 'string[]',
+        name: '_resourceIdStrs',
+        type: 'string[]',
+      },
+      {
+        internalType: 'bytes32[]',
+        name: '_dataHashes',
+        type: 'bytes32[]',
+      },
+      {
+        internalType: 'address',
+        name: '_owner',
+        type: 'address',
+      },
+    ],
+    name: 'createRecords',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   {
     inputs: [
       {
@@ -676,9 +712,14 @@ export const LeLinkAbi = [
         type: 'string',
       },
       {
-        internalType: 'string',
-        name: '_newDataHashStr',
-        type: 'string',
+        internalType: 'bytes32',
+        name: '_newDataHash',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'address',
+        name: '_owner',
+        type: 'address',
       },
     ],
     name: 'updateRecord',
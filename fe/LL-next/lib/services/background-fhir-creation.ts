@@ -5,6 +5,8 @@
  * but haven't had FHIR resources created yet.
  */
 
+import { apiAuthHeaders } from '@/lib/api-token';
+
 interface UserProfile {
   id: string;
   email?: string;
@@ -77,7 +79,8 @@ export class BackgroundFHIRCreationService {
       const response = await fetch(
         `${
           process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071'
-        }/api/fhir-storage/patients/${userId}/resources`
+        }/api/fhir-storage/patients/${userId}/resources`,
+        { headers: await apiAuthHeaders({ id: userId }) }
       );
       if (response.ok) {
         const data = await response.json();
@@ -165,6 +168,7 @@ export class BackgroundFHIRCreationService {
         headers: {
           'Content-Type': 'application/json',
           'X-Idempotency-Key': userId,
+          ...(await apiAuthHeaders({ id: userId })),
         },
         body: JSON.stringify(patientResource),
       }
@@ -237,6 +241,7 @@ export class BackgroundFHIRCreationService {
         headers: {
           'Content-Type': 'application/json',
           'X-Idempotency-Key': userId,
+          ...(await apiAuthHeaders({ id: userId })),
         },
         body: JSON.stringify(practitionerResource),
       }
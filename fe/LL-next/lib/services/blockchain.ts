@@ -19,6 +19,25 @@ export interface AuditLogEntry {
   blockNumber: number;
 }
 
+/**
+ * Normalize a hex digest to the 0x-prefixed 32-byte form the contract stores.
+ * The contract takes bytes32, so anything but a full 32-byte digest is rejected.
+ */
+export function toBytes32Hash(hash: string): string {
+  const prefixed = hash.startsWith('0x') ? hash : `0x${hash}`;
+  if (!ethers.isHexString(prefixed, 32)) {
+    throw new Error(`Invalid data hash: expected a 32-byte hex digest, got ${hash}`);
+  }
+  return prefixed.toLowerCase();
+}
+
+/**
+ * Derive the on-chain owner address the backend uses for a patient's records
+ */
+export function getOwnerAddress(patientId: string): string {
+  return ethers.getAddress(ethers.id(patientId).slice(0, 42));
+}
+
 export class BlockchainService {
   private provider: ethers.JsonRpcProvider | ethers.BrowserProvider;
   private contract: ethers.Contract;
@@ -46,7 +65,7 @@ export class BlockchainService {
     }
 
     // Initialize contract
-    this.contract = new ethers.Contract(addressToUse, LELINK_ABI, this.provider);
+    this.contract = new ethers.Contract(addressToUse, LeLinkAbi, this.provider);
 
     // Setup signer for write operations
     this.setupSigner(config?.privateKey);
@@ -111,7 +130,7 @@ export class BlockchainService {
 
     try {
       const ownerAddress = owner || (await this.signer.getAddress());
-      const tx = await this.contract.createRecord(resourceId, dataHash, ownerAddress);
+      const tx = await this.contract.createRecord(resourceId, toBytes32Hash(dataHash), ownerAddress);
       const receipt = await tx.wait();
       return receipt;
     } catch (error) {
@@ -121,15 +140,20 @@ export class BlockchainService {
   }
 
   /**
-   * Update an existing record
+   * Update an existing record; records are identified by resource ID and owner
    */
-  async updateRecord(resourceId: string, newDataHash: string): Promise<ethers.TransactionReceipt | null> {
+  async updateRecord(
+    resourceId: string,
+    newDataHash: string,
+    owner?: string
+  ): Promise<ethers.TransactionReceipt | null> {
     if (!this.signer) {
       throw new Error('No signer available. Please connect wallet first.');
     }
 
     try {
-      const tx = await this.contract.updateRecord(resourceId, newDataHash);
+      const ownerAddress = owner || (await this.signer.getAddress());
+      const tx = await this.contract.updateRecord(resourceId, toBytes32Hash(newDataHash), ownerAddress);
       const receipt = await tx.wait();
       return receipt;
     } catch (error) {
@@ -360,7 +384,8 @@ export class BlockchainService {
   async verifyDataIntegrity(resourceId: string, owner: string, currentDataHash: string): Promise<boolean> {
     try {
       const onChainHash = await this.getRecordHash(resourceId, owner);
-      return onChainHash === currentDataHash;
+      // Compare the full 32-byte digests
+      return !!onChainHash && onChainHash.toLowerCase() === toBytes32Hash(currentDataHash);
     } catch (error) {
       console.error('Failed to verify data integrity:', error);
       return false;
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Runtime system settings for the server side of the app
+ * @module lib/settings
+ *
+ * Administrators change settings such as the blockchain contract or the session
+ * timeout without a redeploy; the Functions app serves their effective values.
+ * They are cached here for a short while and fall back to the environment when
+ * the API cannot be reached. Never import this from client components.
+ */
+
+import { apiAuthHeaders, type ApiTokenUser } from '@/lib/api-token';
+import type { RuntimeSettings, SettingValue } from '@/lib/types/settings';
+
+const AZURE_FUNCTIONS_URL = process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071';
+const CACHE_TTL_MS = 30_000;
+
+/** Used until the API answers */
+const ENV_DEFAULTS: Record<string, SettingValue> = {
+  'system.maintenanceMode': false,
+  'security.sessionTimeoutMinutes': parseInt(process.env.SESSION_TIMEOUT_MINUTES || '30', 10),
+  'blockchain.enabled': true,
+  'blockchain.rpcUrl': process.env.NEXT_PUBLIC_BLOCKCHAIN_RPC_URL || 'http://localhost:8545',
+  'blockchain.contractAddress': process.env.NEXT_PUBLIC_LELINK_CONTRACT_ADDRESS || '',
+  'ai.triageEnabled': true,
+};
+
+let cache: { settings: RuntimeSettings; fetchedAt: number } | null = null;
+
+/**
+ * Effective runtime settings, fetched on behalf of `user`
+ */
+export async function getRuntimeSettings(user?: ApiTokenUser | null): Promise<RuntimeSettings> {
+  if (cache && Date.now() - cache.fetchedAt < CACHE_TTL_MS) {
+    return cache.settings;
+  }
+
+  try {
+    const response = await fetch(`${AZURE_FUNCTIONS_URL}/api/settings/runtime`, {
+      headers: await apiAuthHeaders(user),
+      cache: 'no-store',
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body?.success) {
+      throw new Error(body?.message || `Settings service error: ${response.status}`);
+    }
+
+    const settings: RuntimeSettings = {
+      revision: body.data.revision,
+      values: { ...ENV_DEFAULTS, ...body.data.values },
+    };
+    cache = { settings, fetchedAt: Date.now() };
+    return settings;
+  } catch (error) {
+    console.error('Get runtime settings error:', error);
+    return cache?.settings || { revision: -1, values: ENV_DEFAULTS };
+  }
+}
+
+/**
+ * Forget cached settings, e.g. after an administrator saved new ones
+ */
+export function clearRuntimeSettingsCache(): void {
+  cache = null;
+}
+
+/**
+ * Blockchain connection from the runtime settings
+ */
+export async function getBlockchainSettings(
+  user?: ApiTokenUser | null
+): Promise<{ enabled: boolean; rpcUrl: string; contractAddress?: string }> {
+  const { values } = await getRuntimeSettings(user);
+
+  return {
+    enabled: values['blockchain.enabled'] !== false,
+    rpcUrl: (values['blockchain.rpcUrl'] as string) || 'http://localhost:8545',
+    contractAddress: (values['blockchain.contractAddress'] as string) || undefined,
+  };
+}
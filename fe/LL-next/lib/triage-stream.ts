@@ -0,0 +1,155 @@
+/**
+ * Client for the streaming triage endpoint (/api/triage/submit/stream).
+ *
+ * The backend pushes Server-Sent Events as the assistant works: reply tokens,
+ * tool calls, the FHIR resources it creates, and the queued anchoring job.
+ */
+
+import type { FHIRResource } from '@/lib/types';
+
+export interface TriageStreamResult {
+  reply: string;
+  threadId: string;
+  patientId: string;
+  sessionId: string;
+  completionStatus: string;
+  /** Language the reply is in */
+  language?: string;
+  /** English translations of the message and the reply, when the language is another */
+  translation?: {
+    message?: string;
+    reply?: string;
+  };
+  resources?: {
+    RiskAssessment?: FHIRResource;
+    Observation?: FHIRResource;
+    /** Every Observation of the turn */
+    Observations?: FHIRResource[];
+  };
+  blockchain?: TriageAnchoring;
+  safety?: TriageSafety;
+  acuity?: TriageAcuity;
+}
+
+/**
+ * Deterministic acuity score of the turn's findings, and whether the
+ * assistant's own risk level disagrees with it
+ */
+export interface TriageAcuity {
+  scale: 'esi' | 'manchester';
+  level: number;
+  code: string;
+  display: string;
+  riskLevel: 'low' | 'moderate' | 'high';
+  reasons: string[];
+  explanation: string;
+  modelRiskLevel?: string;
+  disagreement: boolean;
+}
+
+/**
+ * Red-flag screening result: the patient described an emergency (the reply is
+ * then emergency advice) or the assistant's reply advised emergency care
+ */
+export interface TriageSafety {
+  flag: string;
+  redFlags: Array<{ ruleId: string; name: string; condition: string; source: 'patient' | 'assistant' }>;
+  source?: 'patient' | 'assistant';
+}
+
+export interface TriageAnchoring {
+  success: boolean;
+  status: 'queued';
+  jobId: string;
+  network: string;
+  contractAddress: string;
+  results: Array<{ resourceId: string; dataHash: string }>;
+}
+
+export type TriageStreamEvent =
+  | { event: 'thread'; data: { threadId: string; sessionId: string } }
+  | { event: 'red_flag'; data: TriageSafety }
+  | { event: 'token'; data: { delta: string } }
+  | { event: 'tool_call'; data: { name: string } }
+  | { event: 'resource'; data: { resourceType: 'RiskAssessment' | 'Observation'; resource: FHIRResource } }
+  | { event: 'anchoring'; data: TriageAnchoring }
+  | { event: 'storage'; data: { success: boolean; mode: string; results: unknown[] } }
+  | { event: 'done'; data: TriageStreamResult }
+  | { event: 'error'; data: { error: string; code: string; details?: string } };
+
+export interface TriageStreamRequest {
+  message: string;
+  threadId?: string | null;
+  sessionId?: string | null;
+  patientId: string;
+  /** Language to answer in; the backend detects it when omitted */
+  language?: string;
+}
+
+/**
+ * Parse an SSE response body into triage events. Events may span chunk boundaries.
+ */
+export async function* readTriageStream(body: ReadableStream<Uint8Array>): AsyncGenerator<TriageStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let event = 'message';
+        const dataLines: string[] = [];
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+        }
+        if (dataLines.length === 0) continue;
+
+        try {
+          yield { event, data: JSON.parse(dataLines.join('\n')) } as TriageStreamEvent;
+        } catch {
+          // Ignore malformed events rather than aborting the whole reply
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Submit a triage message and iterate over the streamed events
+ */
+export async function* streamTriage(
+  request: TriageStreamRequest,
+  signal?: AbortSignal
+): AsyncGenerator<TriageStreamEvent> {
+  const response = await fetch('/api/triage/submit/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    let error = 'Failed to get response';
+    try {
+      error = (await response.json()).error || error;
+    } catch {
+      // Keep the generic message
+    }
+    throw new Error(error);
+  }
+
+  yield* readTriageStream(response.body);
+}
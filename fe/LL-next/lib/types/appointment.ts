@@ -1,22 +1,28 @@
-import { Reference } from "react";
-import { CodeableConcept, FhirResource } from "./fhir";
+import { CodeableConcept, FhirResource, Reference } from "./fhir";
+
+export type AppointmentStatus =
+  | "proposed"
+  | "pending"
+  | "booked"
+  | "arrived"
+  | "fulfilled"
+  | "cancelled"
+  | "noshow"
+  | "entered-in-error"
+  | "checked-in"
+  | "waitlist";
 
 export interface Appointment extends FhirResource {
   resourceType: "Appointment";
-  status:
-    | "proposed"
-    | "pending"
-    | "booked"
-    | "arrived"
-    | "fulfilled"
-    | "cancelled"
-    | "noshow"
-    | "entered-in-error"
-    | "checked-in"
-    | "waitlist";
+  status: AppointmentStatus;
+  serviceType?: CodeableConcept[];
   start?: string;
   end?: string;
+  minutesDuration?: number;
+  slot?: Reference[];
   description?: string;
+  comment?: string;
+  cancelationReason?: CodeableConcept;
   participant?: AppointmentParticipant[];
   reasonCode?: CodeableConcept[];
   created?: string;
@@ -28,3 +34,25 @@ export interface AppointmentParticipant {
   required?: "required" | "optional" | "information-only";
   status: "accepted" | "declined" | "tentative" | "needs-action";
 }
+
+export interface Schedule extends FhirResource {
+  resourceType: "Schedule";
+  active?: boolean;
+  actor: Reference[];
+}
+
+export interface Slot extends FhirResource {
+  resourceType: "Slot";
+  schedule: Reference;
+  status: "busy" | "free" | "busy-unavailable" | "busy-tentative" | "entered-in-error";
+  start: string;
+  end: string;
+  serviceType?: CodeableConcept[];
+}
+
+/** A practitioner who publishes availability */
+export interface BookablePractitioner {
+  id: string;
+  name: string;
+  scheduleId: string;
+}
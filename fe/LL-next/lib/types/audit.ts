@@ -0,0 +1,65 @@
+export type AuditEventType = "security" | "user" | "system" | "data" | "error";
+
+export type AuditSeverity = "info" | "warning" | "error" | "critical";
+
+/** Where an event was recorded: by the API, reported by this app, or read from the contract */
+export type AuditSource = "api" | "web" | "blockchain";
+
+/** Sign-in events this app reports to the audit trail */
+export type WebAuditAction = "auth.login" | "auth.logout" | "auth.session_expired";
+
+export interface AuditActor {
+  userId?: string;
+  role?: string;
+  name?: string;
+  email?: string;
+  /** Wallet that sent an on-chain transaction */
+  address?: string;
+}
+
+/** An entry of the audit trail */
+export interface AuditEvent {
+  id: string;
+  timestamp: string;
+  type: AuditEventType;
+  severity: AuditSeverity;
+  /** Dotted event name, e.g. record.read or auth.login */
+  action: string;
+  outcome: "success" | "failure";
+  source: AuditSource;
+  /** Null for the system itself */
+  actor: AuditActor | null;
+  description: string;
+  ipAddress?: string;
+  correlationId?: string;
+  patientId?: string;
+  /** FHIR reference ("Type/id") of the resource concerned */
+  resource?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditFilters {
+  type?: AuditEventType;
+  severity?: AuditSeverity;
+  /** Action, or a prefix of it ending in a dot */
+  action?: string;
+  actorId?: string;
+  patientId?: string;
+  correlationId?: string;
+  /** ISO timestamps */
+  from?: string;
+  to?: string;
+  search?: string;
+  /** Merge in access events logged on the blockchain */
+  includeChain?: boolean;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+  nextCursor?: string;
+  chain?: {
+    included: boolean;
+    error?: string;
+  };
+}
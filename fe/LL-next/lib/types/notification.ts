@@ -0,0 +1,41 @@
+export type NotificationEventType =
+  | "appointment.reminder"
+  | "triage.high-risk"
+  | "records.shared"
+  | "records.revoked";
+
+export type NotificationChannelName = "email" | "in-app" | "webhook";
+
+/** An entry of the signed-in user's in-app inbox */
+export interface InAppNotification {
+  id: string;
+  userId: string;
+  notificationId: string;
+  type: NotificationEventType;
+  title: string;
+  body: string;
+  /** Path in this app the notification points to */
+  link?: string;
+  createdAt: string;
+  readAt?: string;
+}
+
+/** One attempt to deliver a notification on a channel */
+export interface NotificationDelivery {
+  deliveryId: string;
+  notificationId: string;
+  type: NotificationEventType;
+  channel: NotificationChannelName;
+  /** Address, user ID or webhook URL */
+  target: string;
+  userId?: string;
+  status: "sent" | "failed";
+  response?: string;
+  error?: string;
+  createdAt: string;
+}
+
+export interface NotificationChannelStatus {
+  channel: NotificationChannelName;
+  enabled: boolean;
+}
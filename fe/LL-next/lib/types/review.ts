@@ -0,0 +1,59 @@
+export type ReviewDecision = "accept" | "amend" | "reject";
+
+export type ReviewRiskLevel = "low" | "moderate" | "high";
+
+/** Changes a practitioner makes to the assistant's assessment */
+export interface ReviewAmendment {
+  riskLevel?: ReviewRiskLevel;
+  condition?: string;
+  mitigation?: string;
+}
+
+export interface ReviewRequest {
+  decision: ReviewDecision;
+  /** Required to reject */
+  note?: string;
+  /** Required to amend */
+  amendment?: ReviewAmendment;
+}
+
+export interface ReviewAcuity {
+  scale: "esi" | "manchester";
+  /** ESI level or Manchester category, 1 (most urgent) to 5 */
+  level: number;
+  display: string;
+  disagreement: boolean;
+}
+
+/** A preliminary AI RiskAssessment awaiting review */
+export interface ReviewQueueItem {
+  patientId: string;
+  patientName?: string;
+  assessmentId: string;
+  /** ETag of the version shown, sent back with the decision */
+  etag: string;
+  riskLevel?: string;
+  condition?: string;
+  rationale?: string;
+  mitigation?: string;
+  /** Deterministic acuity score, and whether the AI risk level disagrees with it */
+  acuity?: ReviewAcuity;
+  /** Triage session the assessment was made in */
+  sessionId?: string;
+  assessedAt: string;
+  assessment: any;
+}
+
+export interface ReviewQueue {
+  items: ReviewQueueItem[];
+  /** Assessments awaiting review, including those past the limit */
+  total: number;
+  /** More assessments await review than the API loads at once; `total` is a lower bound */
+  truncated: boolean;
+}
+
+export interface ReviewResult {
+  assessment: any;
+  provenance: any;
+  anchorJobId?: string;
+}
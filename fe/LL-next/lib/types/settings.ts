@@ -0,0 +1,71 @@
+export type SettingCategory = "general" | "security" | "notifications" | "integrations";
+
+export type SettingType =
+  | "boolean"
+  | "integer"
+  | "string"
+  | "enum"
+  | "url"
+  | "email"
+  | "email-list"
+  | "mailbox"
+  | "address";
+
+export type SettingValue = string | number | boolean | string[] | null | undefined;
+
+/** A system setting with its schema and effective value */
+export interface SystemSetting {
+  /** Configuration key, e.g. blockchain.contractAddress */
+  key: string;
+  category: SettingCategory;
+  type: SettingType;
+  label: string;
+  description?: string;
+  values?: string[];
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  optional?: boolean;
+  runtime?: boolean;
+  value: SettingValue;
+  /** Value from the environment */
+  defaultValue: SettingValue;
+  /** Saved by an administrator rather than taken from the environment */
+  overridden: boolean;
+}
+
+export interface SettingsActor {
+  userId: string;
+  name?: string;
+  email?: string;
+}
+
+export interface SettingChange {
+  key: string;
+  previous: SettingValue;
+  value: SettingValue;
+  /** Saved value removed; the environment's applies again */
+  reset?: boolean;
+}
+
+/** One save of the settings */
+export interface SettingsRevision {
+  revision: number;
+  changedAt: string;
+  changedBy: SettingsActor;
+  reason?: string;
+  changes: SettingChange[];
+}
+
+export interface SettingsSnapshot {
+  revision: number;
+  updatedAt?: string;
+  updatedBy?: SettingsActor;
+  settings: SystemSetting[];
+}
+
+/** Settings the web app applies at runtime, by key */
+export interface RuntimeSettings {
+  revision: number;
+  values: Record<string, SettingValue>;
+}
@@ -1,5 +1,6 @@
 import { withAuth } from 'next-auth/middleware';
 import { NextResponse } from 'next/server';
+import { apiAuthHeaders } from '@/lib/api-token';
 
 const AZURE_API_BASE_URL = process.env.NEXT_PUBLIC_AZURE_FUNCTIONS_URL || 'http://localhost:7071';
 
@@ -39,7 +40,8 @@ export default withAuth(
         console.log('[MIDDLEWARE_DEBUG] User needs onboarding, checking for existing account by email:', user.email);
         try {
           const emailCheckResponse = await fetch(
-            `${AZURE_API_BASE_URL}/api/fhir-storage/users/by-email/${encodeURIComponent(user.email)}`
+            `${AZURE_API_BASE_URL}/api/fhir-storage/users/by-email/${encodeURIComponent(user.email)}`,
+            { headers: await apiAuthHeaders(user) }
           );
 
           if (emailCheckResponse.ok) {
@@ -71,6 +73,7 @@ export default withAuth(
                       method: 'POST',
                       headers: {
                         'Content-Type': 'application/json',
+                        ...(await apiAuthHeaders(user)),
                       },
                       body: JSON.stringify({
                         system: 'http://lelink.healthcare/user-id',
@@ -195,11 +198,12 @@ export default withAuth(
         // Onboarding route requires authentication but doesn't need completed profile
         if (pathname === '/onboarding') {
           console.log('[MIDDLEWARE_AUTH] Onboarding route, checking token:', !!token);
-          return !!token;
+          return !!token && token.error !== 'SessionExpired';
         }
 
         // All other routes require authentication
-        const isAuthorized = !!token;
+        // A session that hit the idle timeout signs in again
+        const isAuthorized = !!token && token.error !== 'SessionExpired';
         console.log('[MIDDLEWARE_AUTH] Protected route authorization result:', isAuthorized);
         return isAuthorized;
       },
@@ -16,6 +16,7 @@ import "@openzeppelin/contracts/utils/Pausable.sol";
  * - Protection against common vulnerabilities
  * - Relies on blockchain events for transaction logging (much more gas efficient)
  * - Record IDs are generated using keccak hash of resourceId string + owner address for uniqueness
+ * - Data hashes are full 32-byte digests (v2); v1 stored a truncated ASCII prefix of the hex string
  */
 contract LeLink is Ownable, Pausable {
     ////////////////////////////////////////////
@@ -51,6 +52,11 @@ contract LeLink is Ownable, Pausable {
     mapping(bytes32 => Record) private _records;
     uint256 private _recordCount;
 
+    /**
+     * @dev Hash format version. v2 takes the digest as bytes32 instead of a truncated string.
+     */
+    uint8 public constant HASH_FORMAT_VERSION = 2;
+
     ////////////////////////////////////////////
     //             --- Events ---             //
     ////////////////////////////////////////////
@@ -96,33 +102,32 @@ contract LeLink is Ownable, Pausable {
     /**
      * @dev Creates a new healthcare data record's metadata.
      * @param _resourceIdStr The unique identifier string for the new data record.
-     * @param _dataHashStr The cryptographic hash of the actual off-chain healthcare data.
+     * @param _dataHash The 32-byte digest of the actual off-chain healthcare data.
      * @param _owner The address of the record owner.
      */
-    function createRecord(string memory _resourceIdStr, string memory _dataHashStr, address _owner) public whenNotPaused {
-        bytes32 _recordId = generateRecordId(_resourceIdStr, _owner);
-        
-        // Validate that data hash is not empty
-        if (bytes(_dataHashStr).length == 0) {
-            revert LeLink__EmptyHashNotAllowed();
-        }
-        
-        bytes32 _dataHash = stringToBytes32(_dataHashStr);
-        
-        if (_records[_recordId].creator != address(0)) {
-            revert LeLink__RecordAlreadyExists();
-        }
-
-        _records[_recordId] = Record({
-            creator: msg.sender, 
-            dataHash: _dataHash,
-            createdAt: uint64(block.timestamp),
-            lastModified: uint64(block.timestamp)
-        });
+    function createRecord(string memory _resourceIdStr, bytes32 _dataHash, address _owner) public whenNotPaused {
+        _createRecord(_resourceIdStr, _dataHash, _owner);
+    }
 
-        _recordCount++;
+    /**
+     * @dev Creates several records for one owner in a single transaction.
+     * Each record is stored and emitted exactly as if created with createRecord,
+     * so it can be verified individually. The whole batch reverts if any entry is invalid.
+     * @param _resourceIdStrs The unique identifier strings of the new data records.
+     * @param _dataHashes The 32-byte digests, in the same order as the resource IDs.
+     * @param _owner The address of the records' owner.
+     */
+    function createRecords(string[] calldata _resourceIdStrs, bytes32[] calldata _dataHashes, address _owner)
+        external
+        whenNotPaused
+    {
+        if (_resourceIdStrs.length == 0 || _resourceIdStrs.length != _dataHashes.length) {
+            revert LeLink__InvalidInput();
+        }
 
-        emit DataCreated(_recordId, _owner, msg.sender, _resourceIdStr, _dataHash, uint64(block.timestamp));
+        for (uint256 i = 0; i < _resourceIdStrs.length; i++) {
+            _createRecord(_resourceIdStrs[i], _dataHashes[i], _owner);
+        }
     }
 
  
@@ -143,25 +148,29 @@ contract LeLink is Ownable, Pausable {
     }
 
     /**
-     * @dev Updates the cryptographic hash of an existing healthcare record.
+     * @dev Updates the cryptographic hash of an existing healthcare record, e.g. for a new version of the data.
+     * Only the record's owner or its creator may update it.
      * @param _resourceIdStr The original resource ID string.
-     * @param _newDataHashStr The new cryptographic hash of the healthcare data.
+     * @param _newDataHash The new 32-byte digest of the healthcare data.
+     * @param _owner The address of the record owner.
      */
-    function updateRecord(string memory _resourceIdStr, string memory _newDataHashStr) 
+    function updateRecord(string memory _resourceIdStr, bytes32 _newDataHash, address _owner) 
         external 
         whenNotPaused 
     {
-        bytes32 _recordId = generateRecordId(_resourceIdStr, msg.sender);        
+        bytes32 _recordId = generateRecordId(_resourceIdStr, _owner);        
   
-        if (bytes(_newDataHashStr).length == 0) {
+        if (_newDataHash == bytes32(0)) {
             revert LeLink__EmptyHashNotAllowed();
         }
         
-        bytes32 _newDataHash = stringToBytes32(_newDataHashStr);
-        
         if (_records[_recordId].creator == address(0)) {
             revert LeLink__RecordDoesNotExist();
         }
+
+        if (msg.sender != _owner && msg.sender != _records[_recordId].creator) {
+            revert LeLink__NotAuthorized();
+        }
         
         _records[_recordId].dataHash = _newDataHash;
         _records[_recordId].lastModified = uint64(block.timestamp);
@@ -371,6 +380,33 @@ contract LeLink is Ownable, Pausable {
     }
 
     //////////////  Internal Functions  //////////////
+    /**
+     * @dev Stores a record and emits DataCreated. Shared by createRecord and createRecords.
+     */
+    function _createRecord(string memory _resourceIdStr, bytes32 _dataHash, address _owner) internal {
+        bytes32 _recordId = generateRecordId(_resourceIdStr, _owner);
+        
+        // Validate that data hash is not empty
+        if (_dataHash == bytes32(0)) {
+            revert LeLink__EmptyHashNotAllowed();
+        }
+        
+        if (_records[_recordId].creator != address(0)) {
+            revert LeLink__RecordAlreadyExists();
+        }
+
+        _records[_recordId] = Record({
+            creator: msg.sender, 
+            dataHash: _dataHash,
+            createdAt: uint64(block.timestamp),
+            lastModified: uint64(block.timestamp)
+        });
+
+        _recordCount++;
+
+        emit DataCreated(_recordId, _owner, msg.sender, _resourceIdStr, _dataHash, uint64(block.timestamp));
+    }
+
      /**
      * @dev Generates a unique record ID by hashing the resourceId string with the owner's address.
      * This ensures uniqueness even if different users use the same string ID.
@@ -381,26 +417,4 @@ contract LeLink is Ownable, Pausable {
     function generateRecordId(string memory _resourceIdStr, address _owner) internal pure returns (bytes32) {
         return keccak256(abi.encodePacked(_resourceIdStr, _owner));
     }
-
-    /**
-     * @dev Converts a string to bytes32 for more efficient storage.
-     * Properly zero-pads shorter strings.
-     */
-    function stringToBytes32(string memory _string) internal pure returns (bytes32) {
-        bytes memory stringBytes = bytes(_string);
-        bytes32 result;
-        
-        // Copy up to 32 bytes from the string
-        uint256 length = stringBytes.length;
-        if (length > 32) {
-            length = 32;
-        }
-        
-        assembly {
-            result := mload(add(stringBytes, 32))
-        }
-        
-        // If string is shorter than 32 bytes, the assembly already zero-pads
-        return result;
-    }
 } 
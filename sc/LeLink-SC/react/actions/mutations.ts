@@ -15,6 +15,7 @@ import {
   logRevokeAccessSchema,
   transferOwnershipSchema,
   batchCreateRecordsSchema,
+  toBytes32Hash,
   type CreateRecordInput,
   type UpdateRecordInput,
   type DeleteRecordInput,
@@ -52,7 +53,7 @@ export const prepareCreateRecord = async (
       success: true,
       transaction: {
         functionName: 'createRecord',
-        args: [validatedInput.resourceId, validatedInput.dataHash, validatedInput.owner] as const,
+        args: [validatedInput.resourceId, toBytes32Hash(validatedInput.dataHash), validatedInput.owner] as const,
       },
     };
   } catch (error) {
@@ -82,7 +83,7 @@ export const prepareUpdateRecord = async (
       success: true,
       transaction: {
         functionName: 'updateRecord',
-        args: [validatedInput.resourceId, validatedInput.newDataHash] as const,
+        args: [validatedInput.resourceId, toBytes32Hash(validatedInput.newDataHash), validatedInput.owner] as const,
       },
     };
   } catch (error) {
@@ -370,6 +371,42 @@ export const prepareBatchCreateRecords = async (
   }
 };
 
+/**
+ * Prepare a single createRecords transaction for records sharing one owner
+ * @param inputs - Array of create record inputs, all with the same owner
+ * @param config - Optional contract configuration
+ */
+export const prepareCreateRecords = async (
+  inputs: BatchCreateRecordsInput,
+  config?: Partial<LeLinkConfig>
+): Promise<TransactionPreparation> => {
+  try {
+    const validatedInputs: BatchCreateRecordsInput = validateAndThrow(inputs, batchCreateRecordsSchema);
+    const owner = validatedInputs[0].owner;
+    if (validatedInputs.some((input: CreateRecordInput) => input.owner.toLowerCase() !== owner.toLowerCase())) {
+      throw new Error('All records in a createRecords batch must have the same owner');
+    }
+
+    return {
+      success: true,
+      transaction: {
+        functionName: 'createRecords',
+        args: [
+          validatedInputs.map((input: CreateRecordInput) => input.resourceId),
+          validatedInputs.map((input: CreateRecordInput) => toBytes32Hash(input.dataHash)),
+          owner,
+        ] as const,
+      },
+    };
+  } catch (error) {
+    console.error('Error preparing createRecords transaction:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to prepare transaction',
+    };
+  }
+};
+
 /**
  * Utility function to estimate gas for a transaction
  * Note: This would require additional setup with a public client
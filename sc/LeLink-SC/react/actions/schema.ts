@@ -18,13 +18,17 @@ export const nonZeroEthereumAddressSchema = z
   .regex(/^0x[a-fA-F0-9]{40}$/, 'Must be a valid Ethereum address')
   .refine((addr) => addr !== '0x0000000000000000000000000000000000000000', 'Cannot be zero address');
 
+/**
+ * 32-byte digest passed to the contract as bytes32 (with or without 0x prefix)
+ */
 export const hashSchema = z
   .string()
   .min(1, 'Hash cannot be empty')
   .refine(
     (hash) => /^0x[a-fA-F0-9]{64}$/.test(hash) || /^[a-fA-F0-9]{64}$/.test(hash),
     'Must be a valid 64-character hash (with or without 0x prefix)'
-  );
+  )
+  .refine((hash) => !/^(0x)?0{64}$/.test(hash), 'Hash cannot be all zeros');
 
 export const resourceIdSchema = z
   .string()
@@ -43,6 +47,7 @@ export const createRecordSchema = z.object({
 export const updateRecordSchema = z.object({
   resourceId: resourceIdSchema,
   newDataHash: hashSchema,
+  owner: ethereumAddressSchema,
 });
 
 export const deleteRecordSchema = z.object({
@@ -224,6 +229,13 @@ export const isValidAddress = (address: string): boolean => {
   return ethereumAddressSchema.safeParse(address).success;
 };
 
+/**
+ * Normalize a validated hash to the 0x-prefixed form expected for bytes32 arguments
+ */
+export const toBytes32Hash = (hash: string): `0x${string}` => {
+  return (hash.startsWith('0x') ? hash : `0x${hash}`) as `0x${string}`;
+};
+
 export const isValidHash = (hash: string): boolean => {
   return hashSchema.safeParse(hash).success;
 };
@@ -68,6 +68,7 @@ export {
   logRevokeAccessSchema,
   transferOwnershipSchema,
   formatValidationErrors,
+  toBytes32Hash,
 } from './actions/schema';
 
 // Export query functions (for advanced usage)
@@ -99,6 +100,7 @@ export {
   preparePause,
   prepareUnpause,
   prepareBatchCreateRecords,
+  prepareCreateRecords,
   getContractAddress,
 } from './actions/mutations';
 
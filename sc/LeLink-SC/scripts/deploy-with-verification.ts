@@ -63,8 +63,8 @@ async function main() {
     // Test creating a record
     const testTx = await lelink.createRecord(
       "test-resource-id",
-      "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
-      "Test deployment record"
+      ethers.id("Test deployment record"),
+      owner
     );
     await testTx.wait();
     console.log("✅ Test record created successfully");
@@ -43,6 +43,8 @@ interface DeploymentMetadata {
   readonly deployerAddress: string;
   readonly deploymentHash: string;
   readonly gasUsed: string;
+  readonly hashFormatVersion: number;
+  readonly previousContractAddress?: string;
   readonly compiler: {
     readonly version: string;
     readonly settings: Record<string, unknown>;
@@ -76,6 +78,12 @@ const DEFAULT_CONFIG: DeploymentConfig = {
 
 const DEPLOYMENT_TIMEOUT = 300000; // 5 minutes in milliseconds
 
+/**
+ * Hash format written by this contract version. v1 truncated data hashes to
+ * 32 characters; v2 stores full bytes32 digests.
+ */
+const EXPECTED_HASH_FORMAT_VERSION = 2;
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -110,6 +118,74 @@ function ensureDeploymentDirectory(): string {
   return deploymentsDir;
 }
 
+/**
+ * Reads the latest recorded deployment for a network, if any
+ */
+function loadPreviousDeployment(networkName: string): DeploymentMetadata | null {
+  const latestFilePath = path.join(ensureDeploymentDirectory(), `${networkName}-latest.json`);
+  if (!fs.existsSync(latestFilePath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(latestFilePath, 'utf8')) as DeploymentMetadata;
+  } catch (error) {
+    console.warn(`⚠️  Could not read previous deployment metadata: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Pauses a previous v1 contract so no further truncated hashes are written to it.
+ * Skipped when the previous contract already uses full-width hashes, when the
+ * deployer does not own it, or when SKIP_PAUSE_PREVIOUS=true.
+ */
+async function retirePreviousDeployment(
+  previous: DeploymentMetadata,
+  deployer: HardhatEthersSigner
+): Promise<void> {
+  console.log(`\n🧳 Previous deployment found at ${previous.contractAddress}`);
+
+  const code = await ethers.provider.getCode(previous.contractAddress);
+  if (code === '0x') {
+    console.log('   • No contract code at previous address, nothing to migrate');
+    return;
+  }
+
+  const previousContract = LeLink__factory.connect(previous.contractAddress, deployer);
+
+  try {
+    const version = await previousContract.HASH_FORMAT_VERSION();
+    if (Number(version) >= EXPECTED_HASH_FORMAT_VERSION) {
+      console.log(`   • Previous contract already uses hash format v${version}, leaving it active`);
+      return;
+    }
+  } catch {
+    // v1 contracts have no HASH_FORMAT_VERSION getter
+  }
+
+  console.log('   • Previous contract stores truncated (v1) hashes');
+
+  if (process.env.SKIP_PAUSE_PREVIOUS === 'true') {
+    console.log('   • SKIP_PAUSE_PREVIOUS=true, leaving previous contract active');
+    return;
+  }
+
+  const [previousOwner, isPaused] = await Promise.all([previousContract.owner(), previousContract.paused()]);
+  if (isPaused) {
+    console.log('   • Previous contract is already paused');
+    return;
+  }
+  if (previousOwner.toLowerCase() !== deployer.address.toLowerCase()) {
+    console.warn(`⚠️  Deployer does not own the previous contract (owner: ${previousOwner}); pause it manually`);
+    return;
+  }
+
+  const tx = await previousContract.pause();
+  await tx.wait();
+  console.log(`   • Previous contract paused (tx: ${tx.hash})`);
+}
+
 /**
  * Gets network information
  */
@@ -197,12 +273,14 @@ async function verifyDeployment(result: DeploymentResult, deployer: HardhatEther
     // Contract-specific verification
     const recordCount = await contract.getRecordCount();
     const isPaused = await contract.paused();
+    const hashFormatVersion = Number(await contract.HASH_FORMAT_VERSION());
 
     console.log('📋 Contract verification results:');
     console.log(`   • Contract address: ${address}`);
     console.log(`   • Contract owner: ${owner}`);
     console.log(`   • Initial record count: ${recordCount.toString()}`);
     console.log(`   • Is paused: ${isPaused}`);
+    console.log(`   • Hash format version: ${hashFormatVersion}`);
     console.log(`   • Code size: ${(code.length - 2) / 2} bytes`);
 
     // Verify owner matches deployer
@@ -211,6 +289,12 @@ async function verifyDeployment(result: DeploymentResult, deployer: HardhatEther
       throw new Error(`Owner mismatch: expected ${deployer.address}, got ${owner}`);
     }
 
+    if (hashFormatVersion !== EXPECTED_HASH_FORMAT_VERSION) {
+      throw new Error(
+        `Hash format mismatch: expected v${EXPECTED_HASH_FORMAT_VERSION}, got v${hashFormatVersion}`
+      );
+    }
+
     console.log('✅ Deployment verification successful!');
     return true;
   } catch (error) {
@@ -225,7 +309,8 @@ async function verifyDeployment(result: DeploymentResult, deployer: HardhatEther
 async function saveDeploymentMetadata(
   result: DeploymentResult,
   deployer: HardhatEthersSigner,
-  networkInfo: NetworkInfo
+  networkInfo: NetworkInfo,
+  previous: DeploymentMetadata | null
 ): Promise<void> {
   const deploymentsDir = ensureDeploymentDirectory();
 
@@ -239,6 +324,8 @@ async function saveDeploymentMetadata(
     deployerAddress: deployer.address,
     deploymentHash: result.deploymentHash,
     gasUsed: result.gasUsed.toString(),
+    hashFormatVersion: EXPECTED_HASH_FORMAT_VERSION,
+    ...(previous && { previousContractAddress: previous.contractAddress }),
     compiler: {
       version: '0.8.28', // Update with actual version
       settings: {
@@ -318,6 +405,9 @@ async function main(): Promise<DeploymentResult> {
     // Validate sufficient balance
     await validateDeployerBalance(deployer);
 
+    // Look up the deployment being replaced before the latest file is overwritten
+    const previousDeployment = loadPreviousDeployment(networkInfo.name);
+
     // Deploy contract
     const deploymentResult = await deployContract(deployer, DEFAULT_CONFIG);
 
@@ -328,11 +418,24 @@ async function main(): Promise<DeploymentResult> {
     }
 
     // Save deployment metadata
-    await saveDeploymentMetadata(deploymentResult, deployer, networkInfo);
+    await saveDeploymentMetadata(deploymentResult, deployer, networkInfo, previousDeployment);
+
+    // Retire the previous contract if it stores truncated hashes
+    if (previousDeployment && previousDeployment.contractAddress !== deploymentResult.address) {
+      await retirePreviousDeployment(previousDeployment, deployer);
+    }
 
     // Print summary
     printDeploymentSummary(deploymentResult, networkInfo, deployer);
 
+    if (previousDeployment) {
+      console.log('\n📌 Migration: records anchored on the previous contract are not copied.');
+      console.log(`   Update LELINK_CONTRACT_ADDRESS / NEXT_PUBLIC_LELINK_CONTRACT_ADDRESS to ${deploymentResult.address}`);
+      console.log(`   and LELINK_CONTRACT_DEPLOYMENT_BLOCK to ${deploymentResult.blockNumber}, then re-anchor`);
+      console.log('   existing FHIR resources with POST /api/blockchain/reanchor (as an admin) so their full');
+      console.log('   hashes are stored on the new contract.');
+    }
+
     deploymentStatus = 'success';
     return deploymentResult;
   } catch (error) {
@@ -34,25 +34,9 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
 
     // Test data constants
     const resourceId = 'patient-record-001';
-    const dataHash = 'QmXyZ123AbC456DeF789GhI012JkL345MnO678PqR901StU234VwX567YzA890BcD';
-    const updatedDataHash = 'QmAbc123XyZ456DeF789GhI012JkL345MnO678PqR901StU234VwX567YzA890BcD';
-    const emptyDataHash = '';
-    const longDataHash = 'a'.repeat(1000);
-
-    // Helper function to convert string to bytes32 (mimics contract behavior)
-    const stringToBytes32 = (str: string): string => {
-      // Convert string to bytes
-      const bytes = hre.ethers.toUtf8Bytes(str);
-
-      // Create a 32-byte array filled with zeros
-      const result = new Uint8Array(32);
-
-      // Copy the string bytes to the beginning (up to 32 bytes)
-      const bytesToCopy = Math.min(bytes.length, 32);
-      result.set(bytes.slice(0, bytesToCopy));
-
-      return hre.ethers.hexlify(result);
-    };
+    const dataHash = hre.ethers.id('{"resourceType":"Observation","id":"obs-001"}');
+    const updatedDataHash = hre.ethers.id('{"resourceType":"Observation","id":"obs-001","status":"amended"}');
+    const emptyDataHash = hre.ethers.ZeroHash;
 
     return {
       leLink,
@@ -66,8 +50,6 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
       dataHash,
       updatedDataHash,
       emptyDataHash,
-      longDataHash,
-      stringToBytes32,
     };
   }
 
@@ -95,9 +77,9 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
 
   describe('Record Creation', function () {
     it('Should create a new record successfully', async function () {
-      const { leLink, creator, user1, resourceId, dataHash, stringToBytes32 } = await loadFixture(deployLeLinkFixture);
+      const { leLink, creator, user1, resourceId, dataHash } = await loadFixture(deployLeLinkFixture);
 
-      const expectedDataHash = stringToBytes32(dataHash);
+      const expectedDataHash = dataHash;
       const expectedRecordId = await leLink.getRecordId(resourceId, user1.address);
 
       await expect(leLink.connect(creator).createRecord(resourceId, dataHash, user1.address))
@@ -178,11 +160,11 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
     });
 
     it('Should create record with very long strings', async function () {
-      const { leLink, creator, user1, longDataHash } = await loadFixture(deployLeLinkFixture);
+      const { leLink, creator, user1, dataHash } = await loadFixture(deployLeLinkFixture);
 
       const longResourceId = 'b'.repeat(1000);
 
-      await expect(leLink.connect(creator).createRecord(longResourceId, longDataHash, user1.address)).to.not.be
+      await expect(leLink.connect(creator).createRecord(longResourceId, dataHash, user1.address)).to.not.be
         .reverted;
 
       expect(await leLink.recordExists(longResourceId, user1.address)).to.be.true;
@@ -197,9 +179,70 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
     });
   });
 
+  describe('Batch Record Creation', function () {
+    it('Should create every record in a batch', async function () {
+      const { leLink, creator, user1, dataHash, updatedDataHash } = await loadFixture(deployLeLinkFixture);
+
+      const resourceIds = ['Observation-obs-001', 'RiskAssessment-risk-001'];
+      await leLink.connect(creator).createRecords(resourceIds, [dataHash, updatedDataHash], user1.address);
+
+      expect(await leLink.getRecordCount()).to.equal(2);
+      expect(await leLink.getRecordHash(resourceIds[0], user1.address)).to.equal(dataHash);
+      expect(await leLink.getRecordHash(resourceIds[1], user1.address)).to.equal(updatedDataHash);
+    });
+
+    it('Should emit DataCreated for each record in a batch', async function () {
+      const { leLink, creator, user1, dataHash, updatedDataHash } = await loadFixture(deployLeLinkFixture);
+
+      const resourceIds = ['Observation-obs-001', 'RiskAssessment-risk-001'];
+      const tx = await leLink.connect(creator).createRecords(resourceIds, [dataHash, updatedDataHash], user1.address);
+      const receipt = await tx.wait();
+
+      const created = receipt!.logs
+        .map((log) => leLink.interface.parseLog(log))
+        .filter((event) => event?.name === 'DataCreated');
+      expect(created).to.have.length(2);
+      expect(created[0]!.args.resourceId).to.equal(resourceIds[0]);
+      expect(created[1]!.args.dataHash).to.equal(updatedDataHash);
+    });
+
+    it('Should revert on mismatched or empty batches', async function () {
+      const { leLink, creator, user1, dataHash } = await loadFixture(deployLeLinkFixture);
+
+      await expect(
+        leLink.connect(creator).createRecords(['a', 'b'], [dataHash], user1.address)
+      ).to.be.revertedWithCustomError(leLink, 'LeLink__InvalidInput');
+      await expect(leLink.connect(creator).createRecords([], [], user1.address)).to.be.revertedWithCustomError(
+        leLink,
+        'LeLink__InvalidInput'
+      );
+    });
+
+    it('Should revert the whole batch if one record already exists', async function () {
+      const { leLink, creator, user1, resourceId, dataHash, updatedDataHash } = await loadFixture(deployLeLinkFixture);
+
+      await leLink.connect(creator).createRecord(resourceId, dataHash, user1.address);
+
+      await expect(
+        leLink.connect(creator).createRecords(['new-record', resourceId], [dataHash, updatedDataHash], user1.address)
+      ).to.be.revertedWithCustomError(leLink, 'LeLink__RecordAlreadyExists');
+      expect(await leLink.recordExists('new-record', user1.address)).to.be.false;
+    });
+
+    it('Should not create batches while paused', async function () {
+      const { leLink, owner, creator, user1, dataHash } = await loadFixture(deployLeLinkFixture);
+
+      await leLink.connect(owner).pause();
+
+      await expect(
+        leLink.connect(creator).createRecords(['a'], [dataHash], user1.address)
+      ).to.be.revertedWithCustomError(leLink, 'EnforcedPause');
+    });
+  });
+
   describe('Record Access and Retrieval', function () {
     it('Should retrieve record details correctly', async function () {
-      const { leLink, creator, user1, resourceId, dataHash, stringToBytes32 } = await loadFixture(deployLeLinkFixture);
+      const { leLink, creator, user1, resourceId, dataHash } = await loadFixture(deployLeLinkFixture);
 
       await leLink.connect(creator).createRecord(resourceId, dataHash, user1.address);
 
@@ -209,18 +252,18 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
       );
 
       expect(recordCreator).to.equal(creator.address);
-      expect(recordDataHash).to.equal(stringToBytes32(dataHash));
+      expect(recordDataHash).to.equal(dataHash);
       expect(createdAt).to.be.greaterThan(0);
       expect(lastModified).to.equal(createdAt);
     });
 
     it('Should get record hash correctly', async function () {
-      const { leLink, creator, user1, resourceId, dataHash, stringToBytes32 } = await loadFixture(deployLeLinkFixture);
+      const { leLink, creator, user1, resourceId, dataHash } = await loadFixture(deployLeLinkFixture);
 
       await leLink.connect(creator).createRecord(resourceId, dataHash, user1.address);
 
       const recordHash = await leLink.getRecordHash(resourceId, user1.address);
-      expect(recordHash).to.equal(stringToBytes32(dataHash));
+      expect(recordHash).to.equal(dataHash);
     });
 
     it('Should get record creator correctly', async function () {
@@ -349,7 +392,7 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
 
   describe('Record Updates', function () {
     it('Should update record successfully', async function () {
-      const { leLink, creator, user1, resourceId, dataHash, updatedDataHash, stringToBytes32 } = await loadFixture(
+      const { leLink, creator, user1, resourceId, dataHash, updatedDataHash } = await loadFixture(
         deployLeLinkFixture
       );
 
@@ -357,10 +400,10 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
       await leLink.connect(creator).createRecord(resourceId, dataHash, user1.address);
 
       const expectedRecordId = await leLink.getRecordId(resourceId, user1.address);
-      const expectedDataHash = stringToBytes32(updatedDataHash);
+      const expectedDataHash = updatedDataHash;
 
       // Update record
-      await expect(leLink.connect(user1).updateRecord(resourceId, updatedDataHash))
+      await expect(leLink.connect(user1).updateRecord(resourceId, updatedDataHash, user1.address))
         .to.emit(leLink, 'DataUpdated')
         .withArgs(expectedRecordId, user1.address, resourceId, expectedDataHash, (await time.latest()) + 1);
 
@@ -379,7 +422,7 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
 
       // Wait and update
       await time.increase(60); // 1 minute
-      await leLink.connect(user1).updateRecord(resourceId, updatedDataHash);
+      await leLink.connect(user1).updateRecord(resourceId, updatedDataHash, user1.address);
 
       const [, , , updatedLastModified] = await leLink.getRecord(resourceId, user1.address);
 
@@ -394,13 +437,13 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
       await leLink.connect(creator).createRecord(resourceId, dataHash, user1.address);
 
       // User1 (non-creator but owner) updates the record
-      await expect(leLink.connect(user1).updateRecord(resourceId, updatedDataHash)).to.not.be.reverted;
+      await expect(leLink.connect(user1).updateRecord(resourceId, updatedDataHash, user1.address)).to.not.be.reverted;
     });
 
     it('Should fail to update non-existent record', async function () {
       const { leLink, user1, resourceId, updatedDataHash } = await loadFixture(deployLeLinkFixture);
 
-      await expect(leLink.connect(user1).updateRecord(resourceId, updatedDataHash)).to.be.revertedWithCustomError(
+      await expect(leLink.connect(user1).updateRecord(resourceId, updatedDataHash, user1.address)).to.be.revertedWithCustomError(
         leLink,
         'LeLink__RecordDoesNotExist'
       );
@@ -415,12 +458,23 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
       await leLink.connect(creator).createRecord(resourceId, dataHash, user1.address);
 
       // user2 tries to update user1's record
-      await expect(leLink.connect(user2).updateRecord(resourceId, updatedDataHash)).to.be.revertedWithCustomError(
+      await expect(leLink.connect(user2).updateRecord(resourceId, updatedDataHash, user1.address)).to.be.revertedWithCustomError(
         leLink,
-        'LeLink__RecordDoesNotExist'
+        'LeLink__NotAuthorized'
       );
     });
 
+    it('Should allow creator to update a record it created for an owner', async function () {
+      const { leLink, creator, user1, resourceId, dataHash, updatedDataHash } = await loadFixture(deployLeLinkFixture);
+
+      // Creator creates record for user1, then anchors a new version of the data
+      await leLink.connect(creator).createRecord(resourceId, dataHash, user1.address);
+      await expect(leLink.connect(creator).updateRecord(resourceId, updatedDataHash, user1.address))
+        .to.emit(leLink, 'DataUpdated');
+
+      expect(await leLink.getRecordHash(resourceId, user1.address)).to.equal(updatedDataHash);
+    });
+
     it('Should fail to update when paused', async function () {
       const { leLink, owner, creator, user1, resourceId, dataHash, updatedDataHash } = await loadFixture(
         deployLeLinkFixture
@@ -432,7 +486,7 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
       // Pause contract
       await leLink.connect(owner).pause();
 
-      await expect(leLink.connect(user1).updateRecord(resourceId, updatedDataHash)).to.be.revertedWithCustomError(
+      await expect(leLink.connect(user1).updateRecord(resourceId, updatedDataHash, user1.address)).to.be.revertedWithCustomError(
         leLink,
         'EnforcedPause'
       );
@@ -445,7 +499,7 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
       await leLink.connect(creator).createRecord(resourceId, dataHash, user1.address);
 
       // Try to update with empty hash - should fail
-      await expect(leLink.connect(user1).updateRecord(resourceId, emptyDataHash)).to.be.revertedWithCustomError(
+      await expect(leLink.connect(user1).updateRecord(resourceId, emptyDataHash, user1.address)).to.be.revertedWithCustomError(
         leLink,
         'LeLink__EmptyHashNotAllowed'
       );
@@ -777,7 +831,7 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
         leLink.connect(creator).createRecord('new-record', dataHash, user2.address)
       ).to.be.revertedWithCustomError(leLink, 'EnforcedPause');
 
-      await expect(leLink.connect(user1).updateRecord(resourceId, 'new-hash')).to.be.revertedWithCustomError(
+      await expect(leLink.connect(user1).updateRecord(resourceId, hre.ethers.id('new-hash'))).to.be.revertedWithCustomError(
         leLink,
         'EnforcedPause'
       );
@@ -1034,9 +1088,10 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
     it('Should maintain consistent performance with varying data sizes', async function () {
       const { leLink, creator, user1 } = await loadFixture(deployLeLinkFixture);
 
-      const smallData = 'small';
-      const mediumData = 'a'.repeat(100);
-      const largeData = 'b'.repeat(1000);
+      // Hashes are fixed width regardless of the size of the hashed data
+      const smallData = hre.ethers.id('small');
+      const mediumData = hre.ethers.id('a'.repeat(100));
+      const largeData = hre.ethers.id('b'.repeat(1000));
 
       await leLink.connect(creator).createRecord('small-record', smallData, user1.address);
       await leLink.connect(creator).createRecord('medium-record', mediumData, user1.address);
@@ -1051,7 +1106,7 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
 
   describe('Edge Cases & Error Handling', function () {
     it('Should handle empty string inputs gracefully', async function () {
-      const { leLink, creator, user1, emptyDataHash, dataHash, stringToBytes32 } = await loadFixture(
+      const { leLink, creator, user1, emptyDataHash, dataHash } = await loadFixture(
         deployLeLinkFixture
       );
 
@@ -1066,15 +1121,15 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
       expect(await leLink.recordExists('', user1.address)).to.be.true;
 
       const recordHash = await leLink.getRecordHash('', user1.address);
-      expect(recordHash).to.equal(stringToBytes32(dataHash));
+      expect(recordHash).to.equal(dataHash);
     });
 
     it('Should handle maximum length strings', async function () {
-      const { leLink, creator, user1, longDataHash } = await loadFixture(deployLeLinkFixture);
+      const { leLink, creator, user1, dataHash } = await loadFixture(deployLeLinkFixture);
 
       const longResourceId = 'c'.repeat(1000);
 
-      await expect(leLink.connect(creator).createRecord(longResourceId, longDataHash, user1.address)).to.not.be
+      await expect(leLink.connect(creator).createRecord(longResourceId, dataHash, user1.address)).to.not.be
         .reverted;
 
       expect(await leLink.recordExists(longResourceId, user1.address)).to.be.true;
@@ -1084,7 +1139,7 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
       const { leLink, creator, user1 } = await loadFixture(deployLeLinkFixture);
 
       const specialResourceId = 'record-with-特殊字符-émojis-🏥-and-symbols-@#$%';
-      const specialDataHash = 'hash-with-特殊字符-and-symbols-αβγ-🔒';
+      const specialDataHash = hre.ethers.id('hash-with-特殊字符-and-symbols-αβγ-🔒');
 
       await expect(leLink.connect(creator).createRecord(specialResourceId, specialDataHash, user1.address)).to.not.be
         .reverted;
@@ -1148,12 +1203,12 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
 
   describe('Event Verification & Data Integrity', function () {
     it('Should emit correct events with proper data', async function () {
-      const { leLink, creator, user1, user2, resourceId, dataHash, updatedDataHash, stringToBytes32 } =
+      const { leLink, creator, user1, user2, resourceId, dataHash, updatedDataHash } =
         await loadFixture(deployLeLinkFixture);
 
       const expectedRecordId = await leLink.getRecordId(resourceId, creator.address);
-      const expectedDataHash = stringToBytes32(dataHash);
-      const expectedUpdatedDataHash = stringToBytes32(updatedDataHash);
+      const expectedDataHash = dataHash;
+      const expectedUpdatedDataHash = updatedDataHash;
 
       // Test DataCreated event (creator creates for themselves)
       const createTx = await leLink.connect(creator).createRecord(resourceId, dataHash, creator.address);
@@ -1216,7 +1271,7 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
     });
 
     it('Should maintain data consistency across all operations', async function () {
-      const { leLink, creator, user1, resourceId, dataHash, updatedDataHash, stringToBytes32 } = await loadFixture(
+      const { leLink, creator, user1, resourceId, dataHash, updatedDataHash } = await loadFixture(
         deployLeLinkFixture
       );
 
@@ -1230,7 +1285,7 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
       );
 
       expect(initialCreator).to.equal(creator.address); // creator is now msg.sender (creator)
-      expect(initialDataHash).to.equal(stringToBytes32(dataHash));
+      expect(initialDataHash).to.equal(dataHash);
       expect(initialCreatedAt).to.equal(initialLastModified);
 
       // Update record (creator updates their own record)
@@ -1244,32 +1299,35 @@ describe('LeLink Contract - Comprehensive Test Suite', function () {
       );
 
       expect(updatedCreator).to.equal(creator.address); // Creator shouldn't change
-      expect(updatedDataHashValue).to.equal(stringToBytes32(updatedDataHash));
+      expect(updatedDataHashValue).to.equal(updatedDataHash);
       expect(updatedCreatedAt).to.equal(initialCreatedAt); // Created time shouldn't change
       expect(updatedLastModified).to.be.greaterThan(initialLastModified); // Last modified should increase
     });
 
-    it('Should verify stringToBytes32 conversion consistency', async function () {
-      const { leLink, creator, user1, stringToBytes32 } = await loadFixture(deployLeLinkFixture);
+    it('Should store full 32-byte digests without truncation', async function () {
+      const { leLink, creator, user1 } = await loadFixture(deployLeLinkFixture);
 
-      const testStrings = [
-        'short',
-        'exactly32chars-exactly32chars--',
-        'this_string_is_longer_than_32_characters_and_should_be_truncated',
-        'special-chars-αβγ-🔒',
+      // Digests that share their first 32 hex characters must stay distinguishable
+      const digests = [
+        hre.ethers.id('short'),
+        '0x' + 'ab'.repeat(16) + '00'.repeat(16),
+        '0x' + 'ab'.repeat(16) + 'ff'.repeat(16),
+        hre.ethers.id('special-chars-αβγ-🔒'),
       ];
 
-      for (let i = 0; i < testStrings.length; i++) {
-        const testString = testStrings[i];
+      for (let i = 0; i < digests.length; i++) {
         const resourceId = `test-${i}`;
 
-        await leLink.connect(creator).createRecord(resourceId, testString, user1.address);
+        await leLink.connect(creator).createRecord(resourceId, digests[i], user1.address);
 
         const recordHash = await leLink.getRecordHash(resourceId, user1.address);
-        const expectedHash = stringToBytes32(testString);
-
-        expect(recordHash).to.equal(expectedHash);
+        expect(recordHash).to.equal(digests[i]);
       }
     });
+
+    it('Should expose the hash format version', async function () {
+      const { leLink } = await loadFixture(deployLeLinkFixture);
+      expect(await leLink.HASH_FORMAT_VERSION()).to.equal(2);
+    });
   });
 });